@@ -0,0 +1,98 @@
+/**
+ * Summary Table Migration
+ * สร้างตารางสรุปรายวันและ refreshable materialized view ที่คำนวณใหม่ทุก 10 นาที
+ * (src/lib/data/summary-tables.ts) ต้องการ ClickHouse 24.10 ขึ้นไป
+ *
+ * รัน: npx tsx --env-file=.env.local scripts/migrate-summary-tables.ts [--drop] [--dry-run]
+ *   --drop     ลบตารางสรุปและ view เดิมทั้งหมดก่อนสร้างใหม่
+ *   --dry-run  แสดงคำสั่ง SQL โดยไม่รัน
+ *
+ * ตารางที่มีอยู่แล้วแต่คอลัมน์ไม่ตรงกับ DDL ปัจจุบัน (สร้างจากเวอร์ชันก่อน) จะถูกลบและสร้างใหม่พร้อม view
+ * ข้อมูลไม่หาย เพราะ view คำนวณตารางสรุปใหม่ทั้งหมดจากตารางดิบ
+ */
+
+import { clickhouse } from '../src/lib/clickhouse';
+import {
+    SUMMARY_TABLES,
+    getSummaryTableColumns,
+    getSummaryTableDDL,
+    getSummaryTableDropDDL,
+    type SummaryTable,
+} from '../src/lib/data/summary-tables';
+
+const drop = process.argv.includes('--drop');
+const dryRun = process.argv.includes('--dry-run');
+
+async function run(statement: string) {
+    if (dryRun) {
+        console.log(`${statement};\n`);
+        return;
+    }
+    await clickhouse.command({ query: statement });
+}
+
+const normalizeType = (type: string) => type.replace(/\s+/g, '');
+
+/**
+ * ความต่างระหว่างคอลัมน์ของตารางที่มีอยู่กับ DDL ปัจจุบัน
+ * @returns null เมื่อยังไม่มีตาราง, [] เมื่อตรงกัน
+ */
+async function columnChanges(table: SummaryTable): Promise<string[] | null> {
+    const result = await clickhouse.query({
+        query: `SELECT name, type FROM system.columns
+                WHERE database = currentDatabase() AND table = {table:String}
+                ORDER BY position`,
+        query_params: { table: table.name },
+        format: 'JSONEachRow',
+    });
+    const existing = (await result.json()) as { name: string; type: string }[];
+    if (existing.length === 0) return null;
+
+    const expected = getSummaryTableColumns(table);
+    const changes: string[] = [];
+    for (const column of expected) {
+        const found = existing.find((c) => c.name === column.name);
+        if (!found) changes.push(`+ ${column.name} ${column.type}`);
+        else if (normalizeType(found.type) !== normalizeType(column.type)) changes.push(`~ ${column.name} ${found.type} → ${column.type}`);
+    }
+    for (const column of existing) {
+        if (!expected.some((c) => c.name === column.name)) changes.push(`- ${column.name} ${column.type}`);
+    }
+    return changes;
+}
+
+async function migrate() {
+    console.log(`🛠️  Summary tables${dryRun ? ' (dry run)' : ''}\n`);
+
+    for (const table of SUMMARY_TABLES) {
+        const changes = drop ? [] : await columnChanges(table);
+        if (changes?.length) {
+            console.log(`⚠️  ${table.name} was created with other columns, recreating:\n    ${changes.join('\n    ')}`);
+        }
+        if (drop || changes?.length) {
+            for (const statement of getSummaryTableDropDDL(table)) await run(statement);
+        }
+        for (const statement of getSummaryTableDDL(table)) await run(statement);
+        if (!dryRun) console.log(`✅ ${table.name} ← ${table.view} (${table.description})`);
+    }
+
+    if (dryRun) return;
+
+    // สถานะการ refresh ล่าสุดของแต่ละ view
+    const result = await clickhouse.query({
+        query: `SELECT view, status, last_success_time, next_refresh_time
+                FROM system.view_refreshes
+                WHERE database = currentDatabase() AND view IN {views:Array(String)}`,
+        query_params: { views: SUMMARY_TABLES.map((table) => table.view) },
+        format: 'JSONEachRow',
+    });
+    console.log('\n📋 Refresh status:');
+    console.table(await result.json());
+}
+
+migrate()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error('❌ Migration failed:', error);
+        process.exit(1);
+    });
@@ -0,0 +1,150 @@
+/**
+ * Chat Agent Tester
+ * รัน tool loop ของ AI chat (src/lib/chat/agent.ts) กับ mock provider แบบ offline
+ * ไม่ต้องมี API key หรือ ClickHouse: executeQuery / webSearch ถูกแทนด้วย executor จำลอง
+ *
+ * รัน: npx tsx scripts/test-chat-agent.ts
+ */
+
+import { runChatTurn, type ChatToolExecutor } from '../src/lib/chat/agent';
+import type { ChatStreamEvent } from '../src/lib/chat/types';
+import { createMockProvider, MOCK_QUERY } from '../src/lib/llm/mock';
+import type { LLMProvider } from '../src/lib/llm/types';
+
+const fakeTools: ChatToolExecutor = async (call) => {
+    if (call.name === 'executeQuery') {
+        const sql = String(call.args.sql);
+        if (sql.includes('missing_table')) {
+            return { response: { error: 'SQL Error: unknown table' }, query: { sql, rowCount: null, error: 'unknown table' } };
+        }
+        return { response: { rowCount: 1, data: [{ total: 42 }] }, query: { sql, rowCount: 1, error: null } };
+    }
+    if (call.name === 'webSearch') {
+        return { response: { results: [{ title: 'ข่าว', url: 'https://example.com', snippet: '' }] }, resultCount: 1 };
+    }
+    return { response: { error: 'Unknown tool' } };
+};
+
+const baseOptions = {
+    system: 'test system prompt',
+    history: [
+        { role: 'user' as const, content: 'คำถามก่อนหน้า' },
+        { role: 'assistant' as const, content: 'คำตอบก่อนหน้า' },
+    ],
+    question: 'ยอดขายรวมเท่าไร',
+    executeTool: fakeTools,
+};
+
+let failures = 0;
+
+async function check(name: string, run: () => Promise<string | null>) {
+    try {
+        const problem = await run();
+        if (problem) {
+            failures++;
+            console.log(`  ❌ ${name}: ${problem}`);
+        } else {
+            console.log(`  ✅ ${name}`);
+        }
+    } catch (error) {
+        failures++;
+        console.log(`  ❌ ${name}: threw ${(error as Error).message}`);
+    }
+}
+
+const types = (events: ChatStreamEvent[]) => events.map((e) => e.type).filter((t) => t !== 'text');
+
+async function main() {
+    console.log('🤖 Chat agent tool loop');
+
+    await check('default mock: query then answer', async () => {
+        const provider = createMockProvider();
+        const events: ChatStreamEvent[] = [];
+        const turn = await runChatTurn({ ...baseOptions, provider, send: (e) => events.push(e) });
+
+        if (turn.iterations !== 2) return `iterations = ${turn.iterations}`;
+        if (turn.queries.length !== 1 || turn.queries[0].sql !== MOCK_QUERY) return 'query not recorded';
+        if (types(events).join() !== 'query,query_result') return `events ${types(events).join()}`;
+        if (!turn.answer.includes('42')) return `answer "${turn.answer}"`;
+
+        // History + question first, then the tool call and its result on the second request
+        const first = provider.requests[0].messages;
+        if (first.length !== 3 || first[2].role !== 'user') return 'history not sent';
+        const second = provider.requests[1].messages;
+        const last = second[second.length - 1];
+        const call = second[second.length - 2];
+        if (last.role !== 'tool' || call.role !== 'assistant') return 'tool result not sent back';
+        if (last.results[0].callId !== call.toolCalls?.[0].id) return 'call id mismatch';
+        return null;
+    });
+
+    await check('scripted: search + failed query + retry', async () => {
+        const provider = createMockProvider({
+            script: [
+                {
+                    toolCalls: [
+                        { name: 'webSearch', args: { query: 'วันหยุด' } },
+                        { name: 'executeQuery', args: { sql: 'SELECT * FROM missing_table' } },
+                    ],
+                },
+                { text: 'ลองใหม่', toolCalls: [{ name: 'executeQuery', args: { sql: 'SELECT 1' } }] },
+                { text: 'สรุปผล' },
+            ],
+        });
+        const events: ChatStreamEvent[] = [];
+        const turn = await runChatTurn({ ...baseOptions, provider, send: (e) => events.push(e) });
+
+        const expected = 'search,search_result,query,query_result,query,query_result';
+        if (types(events).join() !== expected) return `events ${types(events).join()}`;
+        if (turn.queries.map((q) => q.error ?? 'ok').join() !== 'unknown table,ok') return 'query records';
+        if (turn.answer !== 'ลองใหม่สรุปผล') return `answer "${turn.answer}"`;
+        return null;
+    });
+
+    await check('max iterations', async () => {
+        const loop = { toolCalls: [{ name: 'executeQuery', args: { sql: 'SELECT 1' } }] };
+        const provider = createMockProvider({ script: Array(10).fill(loop) });
+        const turn = await runChatTurn({ ...baseOptions, provider, send: () => {}, maxIterations: 3 });
+        return turn.iterations === 3 && turn.queries.length === 3 ? null : `iterations = ${turn.iterations}`;
+    });
+
+    await check('cancel during a tool call', async () => {
+        const abort = new AbortController();
+        const provider = createMockProvider();
+        const turn = await runChatTurn({
+            ...baseOptions,
+            provider,
+            send: () => {},
+            signal: abort.signal,
+            executeTool: async (call) => {
+                abort.abort();
+                return fakeTools(call);
+            },
+        });
+        if (!turn.cancelled) return 'not cancelled';
+        if (provider.requests.length !== 1) return 'model called after cancel';
+        return turn.queries.length === 1 ? null : 'finished query not recorded';
+    });
+
+    await check('provider error is thrown', async () => {
+        const failing: LLMProvider = {
+            name: 'failing',
+            model: 'failing',
+            chat: async () => {
+                throw new Error('quota exceeded');
+            },
+            generateText: async () => '',
+        };
+        try {
+            await runChatTurn({ ...baseOptions, provider: failing, send: () => {} });
+            return 'no error';
+        } catch (error) {
+            return (error as Error).message === 'quota exceeded' ? null : (error as Error).message;
+        }
+    });
+
+    console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,150 @@
+/**
+ * Inventory Valuation Tester
+ * ตรวจการตีราคาแบบถัวเฉลี่ยเคลื่อนที่และ FIFO ของ replayItem (src/lib/inventory/valuation.ts)
+ * เทียบกับตัวอย่างที่คำนวณด้วยมือ การกระทบยอดกับบัญชีสินค้าคงเหลือ และอายุสต็อกตามชั้นต้นทุน
+ *
+ * รัน: npx tsx scripts/test-inventory-valuation.ts
+ */
+
+import { buildInventoryValuation, replayItem, type ValuationMovement } from '../src/lib/inventory/valuation';
+import { ageInDays, buildInventoryAging } from '../src/lib/inventory/aging';
+import type { CashFlowMapping } from '../src/lib/cash-flow/types';
+
+const move = (docDatetime: string, docNo: string, qty: number, cost: number): ValuationMovement => ({
+    docDatetime,
+    docNo,
+    qty,
+    amount: qty * cost,
+});
+
+interface Expected {
+    qtyOnHand: number;
+    recordedValue: number;
+    movingAverageValue: number;
+    fifoValue: number;
+    shortageQty: number;
+    layers: [docNo: string, qty: number, unitCost: number][];
+}
+
+const CASES: [name: string, movements: ValuationMovement[], expected: Expected][] = [
+    [
+        'FIFO consumes the oldest layer first',
+        [
+            move('2024-01-01 09:00:00', 'R1', 10, 5),
+            move('2024-01-05 09:00:00', 'R2', 10, 7),
+            move('2024-01-10 09:00:00', 'S1', -15, 6),
+        ],
+        { qtyOnHand: 5, recordedValue: 30, movingAverageValue: 30, fifoValue: 35, shortageQty: 0, layers: [['R2', 5, 7]] },
+    ],
+    [
+        'moving average re-prices issues at the running average',
+        [
+            move('2024-01-01 09:00:00', 'R1', 10, 5),
+            move('2024-01-02 09:00:00', 'S1', -5, 4),
+            move('2024-01-03 09:00:00', 'R2', 10, 8),
+            move('2024-01-04 09:00:00', 'S2', -10, 7),
+        ],
+        { qtyOnHand: 5, recordedValue: 40, movingAverageValue: 35, fifoValue: 40, shortageQty: 0, layers: [['R2', 5, 8]] },
+    ],
+    [
+        'receipt covers an earlier shortage',
+        [
+            move('2024-01-01 09:00:00', 'S1', -4, 3),
+            move('2024-01-02 09:00:00', 'R1', 10, 5),
+        ],
+        { qtyOnHand: 6, recordedValue: 38, movingAverageValue: 30, fifoValue: 30, shortageQty: 0, layers: [['R1', 6, 5]] },
+    ],
+    [
+        'negative stock is valued at the last cost',
+        [
+            move('2024-01-01 09:00:00', 'R1', 5, 10),
+            move('2024-01-02 09:00:00', 'S1', -8, 10),
+        ],
+        { qtyOnHand: -3, recordedValue: -30, movingAverageValue: -30, fifoValue: -30, shortageQty: 3, layers: [] },
+    ],
+];
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+let failures = 0;
+const check = (name: string, ok: boolean, detail: string) => {
+    if (ok) {
+        console.log(`  ✅ ${name}`);
+    } else {
+        failures++;
+        console.log(`  ❌ ${name}: ${detail}`);
+    }
+};
+
+console.log('📦 replayItem');
+for (const [name, movements, expected] of CASES) {
+    const result = replayItem(movements);
+    const layers = result.layers.map((layer) => [layer.docNo, layer.qty, layer.unitCost]);
+    const ok =
+        close(result.qtyOnHand, expected.qtyOnHand) &&
+        close(result.recordedValue, expected.recordedValue) &&
+        close(result.movingAverageValue, expected.movingAverageValue) &&
+        close(result.fifoValue, expected.fifoValue) &&
+        close(result.shortageQty, expected.shortageQty) &&
+        JSON.stringify(layers) === JSON.stringify(expected.layers);
+    check(name, ok, JSON.stringify({ ...result, layers }));
+}
+
+console.log('\n📒 buildInventoryValuation');
+const mappings: CashFlowMapping[] = [
+    { id: '1', accountPrefix: '11', line: 'cash', note: '' },
+    { id: '2', accountPrefix: '115', line: 'inventory', note: '' },
+];
+const valuation = buildInventoryValuation(
+    '2024-01-31',
+    {
+        branches: [{ branchSync: 'B1', qtyOnHand: 5, recordedValue: 30, movingAverageValue: 30, fifoValue: 35 }],
+        warehouses: [],
+        items: [],
+    },
+    [
+        { branchSync: 'B1', accountCode: '1150-01', accountName: 'สินค้าสำเร็จรูป', balance: 20 },
+        { branchSync: 'B1', accountCode: '1151-01', accountName: 'วัตถุดิบ', balance: 12 },
+        { branchSync: 'B1', accountCode: '1110-01', accountName: 'เงินสด', balance: 1000 },
+        { branchSync: 'B2', accountCode: '1150-01', accountName: 'สินค้าสำเร็จรูป', balance: 7 },
+    ],
+    mappings
+);
+const [b1, b2] = valuation.reconciliation;
+check('sums only inventory accounts', close(b1.ledgerValue, 32) && b1.accounts.length === 2, JSON.stringify(b1));
+check('keeps branches with ledger but no stock', b2?.branchSync === 'B2' && close(b2.ledgerValue, 7) && b2.fifoValue === 0, JSON.stringify(b2));
+
+console.log('\n⏳ buildInventoryAging');
+const aged = replayItem([
+    move('2023-06-01 09:00:00', 'R1', 10, 5),
+    move('2024-01-20 09:00:00', 'R2', 10, 7),
+    move('2024-01-25 09:00:00', 'S1', -4, 6),
+]);
+const aging = buildInventoryAging('2024-01-31', [
+    {
+        branchSync: 'B1',
+        whCode: 'W1',
+        whName: 'คลังหลัก',
+        categoryName: 'เครื่องดื่ม',
+        brandName: '',
+        layers: aged.layers.map((layer) => ({
+            ageDays: ageInDays('2024-01-31', layer.receivedAt),
+            qty: layer.qty,
+            value: layer.qty * layer.unitCost,
+        })),
+    },
+    { branchSync: 'B1', whCode: 'W1', whName: 'คลังหลัก', categoryName: 'ขนม', brandName: '', layers: [] },
+]);
+check(
+    'ages open layers by receipt date',
+    aging.total.buckets[0].value === 70 && aging.total.buckets[3].value === 30 && close(aging.total.value, 100),
+    JSON.stringify(aging.total)
+);
+check(
+    'groups by category and skips items without layers',
+    aging.groups.category.length === 1 && aging.groups.brand[0].label === 'ไม่ระบุแบรนด์' && aging.total.itemCount === 1,
+    JSON.stringify(aging.groups)
+);
+
+console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,247 @@
+/**
+ * Report Schedule Tester
+ * ตรวจตัวแปลง cron (src/lib/reports/cron.ts) และเส้นทางส่งรายงานตามกำหนดการ
+ * (scheduler → render → mail transport) ด้วย ClickHouse, permissions/store และ reports/store แบบ stub
+ * รวมถึงรายงานอายุหนี้ที่ต้องดึงเอกสารค้างทั้งหมด ณ วันนี้ ไม่ใช่เฉพาะช่วงวันที่
+ *
+ * รัน: npx tsx scripts/test-report-schedules.ts
+ */
+
+import Module from 'module';
+import { nextCronRun, parseCron } from '../src/lib/reports/cron';
+import type { User } from '../src/lib/permissions/types';
+import type { MailMessage } from '../src/lib/mail/transport';
+import type { ReportSchedule, ScheduleRunStatus } from '../src/lib/reports/types';
+
+let failures = 0;
+const check = (name: string, ok: boolean, detail: string) => {
+    if (ok) {
+        console.log(`  ✅ ${name}`);
+    } else {
+        failures++;
+        console.log(`  ❌ ${name}: ${detail}`);
+    }
+};
+
+const at = (year: number, month: number, day: number, hour: number, minute: number) => new Date(year, month - 1, day, hour, minute);
+const show = (date: Date | null) => (date ? date.toString() : 'null');
+
+console.log('⏰ nextCronRun');
+// [cron, after, expected] ตามเวลาท้องถิ่น (2024-01-01 เป็นวันจันทร์)
+const CRON_CASES: [cron: string, after: Date, expected: Date | null][] = [
+    ['0 8 * * *', at(2024, 1, 1, 7, 30), at(2024, 1, 1, 8, 0)],
+    ['0 8 * * *', at(2024, 1, 1, 8, 0), at(2024, 1, 2, 8, 0)],
+    ['*/15 * * * *', at(2024, 1, 1, 10, 7), at(2024, 1, 1, 10, 15)],
+    ['0 8 * * 1', at(2024, 1, 2, 9, 0), at(2024, 1, 8, 8, 0)],
+    ['0 8 * * 7', at(2024, 1, 1, 9, 0), at(2024, 1, 7, 8, 0)],
+    ['0 8 1 * *', at(2024, 1, 15, 0, 0), at(2024, 2, 1, 8, 0)],
+    ['0 8 1 1,4,7,10 *', at(2024, 2, 10, 0, 0), at(2024, 4, 1, 8, 0)],
+    ['30 9 1-5 * *', at(2024, 1, 5, 10, 0), at(2024, 2, 1, 9, 30)],
+    // ระบุทั้งวันที่และวันในสัปดาห์: ตรงอย่างใดอย่างหนึ่งก็พอ
+    ['0 8 15 * 1', at(2024, 1, 9, 9, 0), at(2024, 1, 15, 8, 0)],
+    ['0 8 20 * 5', at(2024, 1, 9, 9, 0), at(2024, 1, 12, 8, 0)],
+    ['0 0 29 2 *', at(2024, 3, 1, 0, 0), at(2028, 2, 29, 0, 0)],
+    ['0 0 31 2 *', at(2024, 1, 1, 0, 0), null],
+];
+for (const [cron, after, expected] of CRON_CASES) {
+    const next = nextCronRun(cron, after);
+    check(`${cron} after ${show(after)}`, next?.getTime() === expected?.getTime(), `got ${show(next)}, want ${show(expected)}`);
+}
+
+console.log('\n🧾 parseCron');
+const rejects = (expr: string) => {
+    try {
+        parseCron(expr);
+        return false;
+    } catch {
+        return true;
+    }
+};
+for (const bad of ['0 8 * *', '60 * * * *', '0 24 * * *', '0 8 0 * *', '0 8 * 13 *', '0 8 * * 8', '*/0 * * * *', '5-1 * * * *', 'a * * * *']) {
+    check(`rejects "${bad}"`, rejects(bad), 'parsed without error');
+}
+check('weekday 7 is Sunday', parseCron('0 0 * * 7').weekdays.has(0), JSON.stringify([...parseCron('0 0 * * 7').weekdays]));
+
+// ============================================================================
+// Scheduler path
+// ============================================================================
+
+const AGING_ROWS = [
+    { code: 'C1', name: 'ลูกค้า 1', docNo: 'INV-1', docDate: '2023-01-10', dueDate: '2023-02-10', totalAmount: 1000, paidAmount: 200, outstanding: 800, daysOverdue: 400, agingBucket: 'เกิน 90 วัน' },
+    { code: 'C2', name: 'ลูกค้า 2', docNo: 'INV-2', docDate: '2024-01-10', dueDate: '2024-02-10', totalAmount: 500, paidAmount: 0, outstanding: 500, daysOverdue: 10, agingBucket: '1-30 วัน' },
+];
+
+const queries: string[] = [];
+const sent: MailMessage[] = [];
+const runs: { id: string; status: ScheduleRunStatus; error?: string; advance: boolean }[] = [];
+const owners = new Map<string, User>();
+let due: ReportSchedule[] = [];
+
+const owner = (id: string, allowedBranches: string[], canSeeAging = true): User => ({
+    id,
+    username: id,
+    email: `${id}@example.com`,
+    role: {
+        id: 'manager',
+        name: 'manager',
+        description: '',
+        permissions: [
+            { module: 'accounting', level: 'view', components: canSeeAging ? {} : { 'accounting.ar_aging': 'none' } },
+        ],
+    },
+    allowed_branches: allowedBranches,
+});
+
+const schedule = (id: string, createdBy: string, overrides: Partial<ReportSchedule> = {}): ReportSchedule => ({
+    id,
+    name: `กำหนดการ ${id}`,
+    reportType: 'ar-aging',
+    datePreset: 'THIS_MONTH',
+    branches: ['ALL'],
+    format: 'xlsx',
+    cron: '0 8 * * *',
+    recipients: ['a@example.com', 'b@example.com'],
+    enabled: true,
+    createdBy,
+    createdByEmail: `${createdBy}@example.com`,
+    lastRunAt: null,
+    lastStatus: null,
+    lastError: null,
+    nextRunAt: null,
+    ...overrides,
+});
+
+/**
+ * แทนโมดูลที่ต้องใช้ ClickHouse / session / ฐานข้อมูล auth ด้วย stub ที่บันทึกการเรียกไว้ตรวจ
+ */
+function stubModules() {
+    const stubs: Record<string, unknown> = {
+        'server-only': {},
+        [require.resolve('../src/lib/clickhouse')]: {
+            clickhouse: {
+                query: async ({ query }: { query: string }) => {
+                    queries.push(query);
+                    return { json: async () => (query.includes('saleinvoice_transaction') ? AGING_ROWS : []) };
+                },
+            },
+        },
+        [require.resolve('../src/lib/permissions/store')]: {
+            getUser: async (id: string) => owners.get(id) ?? null,
+        },
+        [require.resolve('../src/lib/reports/store')]: {
+            listDueSchedules: async () => due,
+            recordScheduleRun: async (s: ReportSchedule, result: { status: ScheduleRunStatus; error?: string; advance: boolean }) => {
+                runs.push({ id: s.id, status: result.status, error: result.error, advance: result.advance });
+            },
+        },
+    };
+    const loader = Module as unknown as { _load: (request: string, parent: unknown, isMain: boolean) => unknown };
+    const load = loader._load;
+    loader._load = function (request, parent, isMain) {
+        if (request in stubs) return stubs[request];
+        try {
+            const resolved = (Module as unknown as { _resolveFilename: (r: string, p: unknown) => string })._resolveFilename(request, parent);
+            if (resolved in stubs) return stubs[resolved];
+        } catch {
+            // not resolvable here; let the real loader report it
+        }
+        return load.call(this, request, parent, isMain);
+    };
+}
+
+async function checkScheduler() {
+    // ไม่ให้ฐานข้อมูล auth (ทะเบียนกิจการ) สร้างไฟล์จริง
+    process.env.TURSO_DATABASE_URL ??= 'file::memory:';
+    delete process.env.SMTP_HOST;
+    stubModules();
+
+    const { getMailTransport, setMailTransport } = await import('../src/lib/mail/transport');
+    const { REPORT_DEFINITIONS } = await import('../src/lib/reports/definitions');
+    const { runDueSchedules, runSchedule } = await import('../src/lib/reports/scheduler');
+
+    console.log('\n📬 mail transport');
+    const logInfo = console.info;
+    const logged: unknown[][] = [];
+    console.info = (...args: unknown[]) => logged.push(args);
+    await getMailTransport().send({ to: ['a@example.com'], subject: 'ทดสอบ', text: 'x' });
+    console.info = logInfo;
+    check('without SMTP_HOST the message is logged, not sent', String(logged[0]?.[0] ?? '').includes('ทดสอบ'), JSON.stringify(logged));
+    const fake = { send: async (message: MailMessage) => void sent.push(message) };
+    setMailTransport(fake);
+    check('setMailTransport replaces the transport', getMailTransport() === fake, 'transport not replaced');
+
+    console.log('\n📊 aging reports');
+    queries.length = 0;
+    const rows = await REPORT_DEFINITIONS['ar-aging'].fetch({ start: '2024-01-01', end: '2024-01-31' }, ['B1']);
+    const agingQuery = queries[0] ?? '';
+    check('AR aging returns every outstanding document', rows.length === AGING_ROWS.length, `${rows.length} rows`);
+    check('AR aging ignores the date range', !/doc_datetime\s+BETWEEN/.test(agingQuery), agingQuery);
+    check('AR aging has no row limit', !/\bLIMIT\b/.test(agingQuery), agingQuery);
+    queries.length = 0;
+    await REPORT_DEFINITIONS['ap-aging'].fetch({ start: '2024-01-01', end: '2024-01-31' }, ['B1']);
+    check('AP aging reads purchase_transaction without range or limit', /purchase_transaction/.test(queries[0] ?? '') && !/BETWEEN|\bLIMIT\b/.test(queries[0] ?? ''), queries[0] ?? '');
+
+    console.log('\n🗓️ runSchedule / runDueSchedules');
+    // logError ของ scheduler บันทึกกรณีล้มเหลว ไม่ต้องแสดงซ้ำ
+    const logError = console.error;
+    console.error = () => {};
+
+    owners.set('u1', owner('u1', ['B1', 'B2']));
+    owners.set('u2', owner('u2', ['B1'], false));
+
+    const ok = await runSchedule(schedule('s1', 'u1'), true);
+    const mail = sent[0];
+    check('success is recorded and advances the schedule', ok.status === 'success' && runs[0]?.status === 'success' && runs[0]?.advance, JSON.stringify({ ok, runs }));
+    check('mail goes to every recipient', JSON.stringify(mail?.to) === JSON.stringify(['a@example.com', 'b@example.com']), JSON.stringify(mail?.to));
+    check('subject names the schedule and report', mail?.subject === '[กำหนดการ s1] อายุลูกหนี้ (AR Aging)', mail?.subject ?? '');
+    check(
+        'Excel attachment is built from the report rows',
+        mail?.attachments?.length === 1 && mail.attachments[0].filename.endsWith('.xlsx') && mail.attachments[0].content.length > 0,
+        JSON.stringify(mail?.attachments?.map((a) => a.filename))
+    );
+    check('body states the row count', mail?.text.includes(`(${AGING_ROWS.length} รายการ)`) ?? false, mail?.text ?? '');
+    check(
+        'ALL is narrowed to the owner\'s branches',
+        queries.some((q) => q.includes('saleinvoice_transaction') && q.includes('branch_sync IN')),
+        queries.find((q) => q.includes('saleinvoice_transaction')) ?? ''
+    );
+
+    sent.length = 0;
+    runs.length = 0;
+    const manual = await runSchedule(schedule('s2', 'u1'), false);
+    check('send now does not advance the schedule', manual.status === 'success' && runs[0]?.advance === false, JSON.stringify(runs));
+
+    const FAILURES: [name: string, s: ReportSchedule][] = [
+        ['owner without the report permission', schedule('s3', 'u2')],
+        ['branch outside the owner\'s allowed list', schedule('s4', 'u1', { branches: ['B9'] })],
+        ['missing owner', schedule('s5', 'gone')],
+    ];
+    for (const [name, s] of FAILURES) {
+        sent.length = 0;
+        runs.length = 0;
+        const result = await runSchedule(s, true);
+        check(`${name} fails without sending`, result.status === 'failed' && runs[0]?.status === 'failed' && !!runs[0]?.error && sent.length === 0, JSON.stringify({ result, runs, sent: sent.length }));
+    }
+
+    runs.length = 0;
+    setMailTransport({ send: async () => { throw new Error('SMTP down'); } });
+    const smtpDown = await runSchedule(schedule('s6', 'u1'), true);
+    check('transport error is recorded as failed', smtpDown.status === 'failed' && runs[0]?.error === 'SMTP down', JSON.stringify(runs));
+
+    setMailTransport(fake);
+    sent.length = 0;
+    runs.length = 0;
+    due = [schedule('d1', 'u1'), schedule('d2', 'u2'), schedule('d3', 'u1', { reportType: 'ap-aging' })];
+    const count = await runDueSchedules();
+    check('runDueSchedules runs every due schedule', count === 3 && runs.map((r) => r.id).join() === 'd1,d2,d3', JSON.stringify(runs));
+    check('one failure does not stop the others', runs.map((r) => r.status).join() === 'success,failed,success', runs.map((r) => r.status).join());
+    check('AP report without rows is sent without an attachment', sent[1]?.attachments?.length === 0, JSON.stringify(sent[1]?.attachments));
+
+    console.error = logError;
+    setMailTransport(null);
+}
+
+checkScheduler().then(() => {
+    console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+});
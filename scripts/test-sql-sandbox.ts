@@ -0,0 +1,102 @@
+/**
+ * SQL Sandbox Tester
+ * ตรวจว่า guardChatQuery (src/lib/chat/sql-guard.ts) บล็อก query อันตรายทุกรายการ
+ * และยังปล่อย query วิเคราะห์ข้อมูลปกติผ่าน
+ *
+ * รัน: npx tsx scripts/test-sql-sandbox.ts
+ */
+
+import { guardChatQuery } from '../src/lib/chat/sql-guard';
+
+const options = {
+    allowedTables: ['saleinvoice_transaction', 'saleinvoice_transaction_detail', 'stock_transaction'],
+    maxRows: 1000,
+};
+
+const BLOCKED: [name: string, sql: string][] = [
+    ['insert', "INSERT INTO saleinvoice_transaction VALUES (1)"],
+    ['alter / mutation', 'ALTER TABLE saleinvoice_transaction DELETE WHERE 1'],
+    ['show tables', 'SHOW TABLES'],
+    ['describe', 'DESCRIBE saleinvoice_transaction'],
+    ['explain', 'EXPLAIN SELECT 1'],
+    ['second statement', 'SELECT 1; DROP TABLE saleinvoice_transaction'],
+    ['second statement after comment', 'SELECT 1 -- x\n; SELECT 2'],
+    ['into outfile', "SELECT * FROM saleinvoice_transaction INTO OUTFILE '/tmp/dump.csv'"],
+    ['format clause', 'SELECT * FROM saleinvoice_transaction FORMAT TSVRaw'],
+    ['settings override', 'SELECT * FROM saleinvoice_transaction SETTINGS max_execution_time = 0'],
+    ['url()', "SELECT * FROM url('http://evil.example/x', CSV)"],
+    ['quoted url()', "SELECT * FROM `url`('http://evil.example/x', CSV)"],
+    ['file()', "SELECT * FROM file('/etc/passwd', 'LineAsString')"],
+    ['remote()', "SELECT * FROM remote('10.0.0.1', default.saleinvoice_transaction)"],
+    ['s3() in CTE', "WITH x AS (SELECT * FROM s3('https://bucket/key')) SELECT * FROM x"],
+    ['mysql() join', "SELECT * FROM saleinvoice_transaction LEFT JOIN mysql('h:3306', 'db', 't', 'u', 'p') USING (id)"],
+    ['executable()', "SELECT * FROM executable('cat /etc/passwd', TSV, 'x String')"],
+    ['merge()', "SELECT * FROM merge(currentDatabase(), '.*')"],
+    ['numbers() scan', 'SELECT count() FROM numbers(1000000000000)'],
+    ['sleep()', 'SELECT sleep(3)'],
+    ['joinGet()', "SELECT joinGet('secret_join', 'value', 1)"],
+    ['dictGet()', "SELECT dictGet('secret_dict', 'value', toUInt64(1))"],
+    ['system table', 'SELECT * FROM system.tables'],
+    ['quoted system table', 'SELECT name FROM `system`.`users`'],
+    ['system table in subquery', 'SELECT * FROM saleinvoice_transaction WHERE doc_no IN (SELECT name FROM system.tables)'],
+    ['information_schema', 'SELECT * FROM information_schema.tables'],
+    ['other database', 'SELECT * FROM otherdb.saleinvoice_transaction'],
+    ['unknown table', 'SELECT * FROM user_passwords'],
+    ['unknown table in comma join', 'SELECT * FROM saleinvoice_transaction a, user_passwords b'],
+    ['unknown table after subquery', 'SELECT * FROM (SELECT 1) a, user_passwords'],
+    ['unknown table in join', 'SELECT * FROM saleinvoice_transaction s JOIN user_passwords p ON s.doc_no = p.id'],
+    ['IN table', 'SELECT * FROM saleinvoice_transaction WHERE doc_no IN user_passwords'],
+    ['FROM-first subquery', 'SELECT * FROM saleinvoice_transaction WHERE doc_no IN (FROM user_passwords SELECT id)'],
+    ['unterminated comment', 'SELECT * FROM saleinvoice_transaction /* hidden'],
+    ['unterminated string', "SELECT 'abc FROM saleinvoice_transaction"],
+    ['heredoc', 'SELECT $$x$$'],
+    ['hash comment', 'SELECT 1 # FROM system.tables'],
+];
+
+const ALLOWED: [name: string, sql: string][] = [
+    [
+        'aggregate',
+        "SELECT toYear(doc_datetime) AS y, sum(total_amount) FROM saleinvoice_transaction WHERE branch_sync = 'b001' GROUP BY y ORDER BY y;",
+    ],
+    ['CTE', 'WITH sales AS (SELECT * FROM saleinvoice_transaction) SELECT count() FROM sales'],
+    ['extract', 'SELECT extract(YEAR FROM doc_datetime) FROM saleinvoice_transaction'],
+    [
+        'join',
+        'SELECT s.doc_no, sum(d.qty) FROM saleinvoice_transaction s JOIN saleinvoice_transaction_detail d ON s.doc_no = d.doc_no GROUP BY s.doc_no',
+    ],
+    ['comma join', 'SELECT count() FROM saleinvoice_transaction s, stock_transaction t WHERE s.doc_no = t.doc_no'],
+    ['trailing comment', 'SELECT count() FROM saleinvoice_transaction -- total'],
+    ['keywords inside string', "SELECT 'DROP TABLE x; system.tables' AS note FROM saleinvoice_transaction"],
+    ['format() function', "SELECT format('{} {}', doc_no, branch_sync) FROM saleinvoice_transaction"],
+    ['IN list', "SELECT * FROM saleinvoice_transaction WHERE branch_sync IN ('b001', 'b002')"],
+];
+
+let failures = 0;
+
+console.log('🔒 Blocked queries');
+for (const [name, sql] of BLOCKED) {
+    try {
+        guardChatQuery(sql, options);
+        failures++;
+        console.log(`  ❌ ${name}: NOT blocked`);
+    } catch (error) {
+        console.log(`  ✅ ${name}: ${(error as Error).message}`);
+    }
+}
+
+console.log('\n📊 Allowed queries');
+for (const [name, sql] of ALLOWED) {
+    try {
+        const guarded = guardChatQuery(sql, options);
+        if (!guarded.sql.endsWith(`LIMIT ${options.maxRows}`)) {
+            throw new Error('missing forced LIMIT');
+        }
+        console.log(`  ✅ ${name} (${guarded.tables.join(', ')})`);
+    } catch (error) {
+        failures++;
+        console.log(`  ❌ ${name}: ${(error as Error).message}`);
+    }
+}
+
+console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,165 @@
+/**
+ * Summary Table Parity Tester
+ * เทียบ KPI ที่คำนวณจากตารางสรุป (src/lib/data/summary-queries.ts) กับ query ตารางดิบ
+ * บน ClickHouse ที่ migrate ตารางสรุปแล้ว (scripts/migrate-summary-tables.ts)
+ *
+ * รัน: npx tsx --env-file=.env.local scripts/test-summary-parity.ts
+ */
+
+import { clickhouse } from '../src/lib/clickhouse';
+import { getPreviousPeriod } from '../src/lib/comparison';
+import { sql, toQuery, branchFilter, dateParams, type BuiltQuery } from '../src/lib/data/query-builder';
+import type { DateRange } from '../src/lib/data/types';
+import {
+    getTotalSalesQuery,
+    getGrossProfitQuery,
+    getTotalOrdersQuery,
+    getAvgOrderValueQuery,
+} from '../src/lib/data/sales-queries';
+import {
+    getInventoryValueQuery,
+    getTotalItemsQuery,
+    getLowStockCountQuery,
+    getOverstockCountQuery,
+} from '../src/lib/data/inventory-queries';
+import {
+    getSalesTotalsSummaryQuery,
+    getGrossProfitSummaryQuery,
+    getInventoryValueSummaryQuery,
+    getTotalItemsSummaryQuery,
+    getLowStockCountSummaryQuery,
+    getOverstockCountSummaryQuery,
+} from '../src/lib/data/summary-queries';
+import { SUMMARY_TABLES } from '../src/lib/data/summary-tables';
+
+/** ผลรวม Float ต่างลำดับการบวกได้เล็กน้อย */
+const FLOAT_TOLERANCE = 1e-6;
+/** uniq() เป็นค่าประมาณ state ที่รวมข้ามวันอาจต่างจากการนับครั้งเดียวเล็กน้อย */
+const UNIQ_TOLERANCE = 0.01;
+
+type Row = Record<string, unknown>;
+
+async function firstRow(query: BuiltQuery): Promise<Row> {
+    const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
+    return ((await result.json()) as Row[])[0] || {};
+}
+
+/** ลูกค้าไม่ซ้ำแบบเดียวกับ getDashboardKPIs */
+function rawCustomersQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+    const { start, end } = dateParams(dateRange);
+    return toQuery(sql`
+SELECT uniq(customer_code) AS current_value
+FROM saleinvoice_transaction
+WHERE status_cancel != 'Cancel'
+  AND toDate(doc_datetime) BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
+    `);
+}
+
+function isoDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+function daysAgo(days: number): string {
+    return isoDate(new Date(Date.now() - days * 86_400_000));
+}
+
+let failures = 0;
+
+function check(name: string, raw: unknown, summary: unknown, tolerance: number = FLOAT_TOLERANCE) {
+    const a = Number(raw) || 0;
+    const b = Number(summary) || 0;
+    const diff = Math.abs(a - b) / Math.max(1, Math.abs(a));
+    if (diff <= tolerance) {
+        console.log(`    ✅ ${name}: ${a}`);
+    } else {
+        failures++;
+        console.log(`    ❌ ${name}: raw ${a} ≠ summary ${b}`);
+    }
+}
+
+async function compare(dateRange: DateRange, branchSync?: string[]) {
+    const previous = getPreviousPeriod(dateRange, 'PreviousPeriod');
+    const [sales, orders, avgOrder, profit, customers, totals, profitSummary] = await Promise.all([
+        firstRow(getTotalSalesQuery(dateRange, branchSync)),
+        firstRow(getTotalOrdersQuery(dateRange, branchSync)),
+        firstRow(getAvgOrderValueQuery(dateRange, branchSync)),
+        firstRow(getGrossProfitQuery(dateRange, branchSync)),
+        firstRow(rawCustomersQuery(dateRange, branchSync)),
+        firstRow(getSalesTotalsSummaryQuery(dateRange, previous, branchSync)),
+        firstRow(getGrossProfitSummaryQuery(dateRange, branchSync)),
+    ]);
+
+    check('total sales', sales.current_value, totals.current_sales);
+    check('total sales (previous)', sales.previous_value, totals.previous_sales);
+    check('orders', orders.current_value, totals.current_orders);
+    check('orders (previous)', orders.previous_value, totals.previous_orders);
+    check('avg order value', avgOrder.current_value, totals.current_avg_order);
+    check('avg order value (previous)', avgOrder.previous_value, totals.previous_avg_order);
+    check('customers', customers.current_value, totals.current_customers, UNIQ_TOLERANCE);
+    check('gross profit', profit.current_value, profitSummary.current_value);
+    check('gross profit (previous)', profit.previous_value, profitSummary.previous_value);
+    check('revenue', profit.revenue, profitSummary.revenue);
+
+    const pairs: [string, BuiltQuery, BuiltQuery][] = [
+        ['inventory value', getInventoryValueQuery(dateRange, branchSync), getInventoryValueSummaryQuery(dateRange, branchSync)],
+        ['items in stock', getTotalItemsQuery(dateRange, branchSync), getTotalItemsSummaryQuery(dateRange, branchSync)],
+        ['low stock items', getLowStockCountQuery(dateRange, branchSync), getLowStockCountSummaryQuery(dateRange, branchSync)],
+        ['overstock items', getOverstockCountQuery(dateRange, branchSync), getOverstockCountSummaryQuery(dateRange, branchSync)],
+    ];
+    for (const [name, rawQuery, summaryQuery] of pairs) {
+        const [raw, summary] = await Promise.all([firstRow(rawQuery), firstRow(summaryQuery)]);
+        check(name, raw.current_value, summary.current_value);
+    }
+}
+
+async function main() {
+    console.log('🔍 Summary table parity\n');
+
+    const tables = await clickhouse.query({
+        query: `SELECT name FROM system.tables WHERE database = currentDatabase() AND name IN {names:Array(String)}`,
+        query_params: { names: SUMMARY_TABLES.map((table) => table.name) },
+        format: 'JSONEachRow',
+    });
+    const found = ((await tables.json()) as { name: string }[]).map((row) => row.name);
+    const missing = SUMMARY_TABLES.filter((table) => !found.includes(table.name));
+    if (missing.length > 0) {
+        console.log(`⚠️  ไม่พบตารางสรุป: ${missing.map((table) => table.name).join(', ')}`);
+        console.log('💡 รัน scripts/migrate-summary-tables.ts ก่อน');
+        process.exit(1);
+    }
+
+    const branches = await clickhouse.query({
+        query: `SELECT DISTINCT branch_sync FROM saleinvoice_transaction WHERE branch_sync != '' ORDER BY branch_sync LIMIT 1`,
+        format: 'JSONEachRow',
+    });
+    const firstBranch = ((await branches.json()) as { branch_sync: string }[])[0]?.branch_sync;
+
+    const today = new Date();
+    const ranges: [string, DateRange][] = [
+        ['7 วันล่าสุด (รวมวันนี้)', { start: daysAgo(6), end: daysAgo(0) }],
+        ['เดือนที่แล้ว', {
+            start: isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 1, 1))),
+            end: isoDate(new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 0))),
+        }],
+        ['90 วันล่าสุด', { start: daysAgo(89), end: daysAgo(0) }],
+        ['ต้นปีถึงวันนี้', { start: `${today.getUTCFullYear()}-01-01`, end: daysAgo(0) }],
+    ];
+    const branchSets: [string, string[] | undefined][] = [['ทุกกิจการ', undefined]];
+    if (firstBranch) branchSets.push([firstBranch, [firstBranch]]);
+
+    for (const [rangeName, dateRange] of ranges) {
+        for (const [branchName, branchSync] of branchSets) {
+            console.log(`📅 ${rangeName} ${dateRange.start} – ${dateRange.end} | ${branchName}`);
+            await compare(dateRange, branchSync);
+        }
+    }
+
+    console.log(failures === 0 ? '\n✅ All checks passed' : `\n❌ ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+main().catch((error) => {
+    console.error('❌ Parity test failed:', error);
+    process.exit(1);
+});
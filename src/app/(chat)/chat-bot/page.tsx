@@ -1,23 +1,104 @@
 'use client';
 
-import { Send, Loader2, Database, RotateCcw, RefreshCw } from 'lucide-react';
+import { Send, Loader2, Database, RotateCcw, RefreshCw, MessageSquare, Pencil, Trash2, Check, X, Play, Square } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import ChatActivity from '@/components/ChatActivity';
 import MarkdownRenderer from '@/components/MarkdownRenderer';
+import {
+  CHAT_QUERY_KEY,
+  conversationQueryKey,
+  fetchConversation,
+  useConversation,
+  useConversationActions,
+  useConversations,
+  useRerunQuery,
+} from '@/hooks/useChat';
+import { EMPTY_TURN, sendChatMessage, type ChatTurnProgress } from '@/lib/chat/client';
+import type { ChatMessage } from '@/lib/chat/types';
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
+/**
+ * SQL ที่ AI รันสำหรับคำตอบนี้ พร้อมปุ่มรันซ้ำ
+ */
+function MessageQueries({ message }: { message: ChatMessage }) {
+  const rerun = useRerunQuery(message.id);
+  const result = rerun.data;
+  const columns = result?.rows[0] ? Object.keys(result.rows[0]) : [];
+
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200">
+        SQL ที่ใช้ ({message.queries.length})
+      </summary>
+      <div className="mt-2 space-y-3">
+        {message.queries.map((query, index) => (
+          <div key={index} className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <pre className="px-3 py-2 text-xs bg-gray-100 dark:bg-gray-800 overflow-x-auto whitespace-pre-wrap">{query.sql}</pre>
+            <div className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+              <span className={query.error ? 'text-red-600 dark:text-red-400' : ''}>
+                {query.error ? `ผิดพลาด: ${query.error}` : `${query.rowCount ?? 0} แถว (ตอนตอบ)`}
+              </span>
+              <button
+                onClick={() => rerun.mutate(index)}
+                disabled={rerun.isPending}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+              >
+                {rerun.isPending && rerun.variables === index ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Play className="w-3.5 h-3.5" />
+                )}
+                รันอีกครั้ง
+              </button>
+            </div>
+            {rerun.variables === index && rerun.error && (
+              <p className="px-3 pb-2 text-xs text-red-600 dark:text-red-400">{rerun.error.message}</p>
+            )}
+            {rerun.variables === index && result && (
+              <div className="max-h-72 overflow-auto border-t border-gray-200 dark:border-gray-700">
+                <p className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400">
+                  {result.rowCount} แถว{result.rowCount > result.rows.length && ` (แสดง ${result.rows.length} แถวแรก)`}
+                </p>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="bg-gray-50 dark:bg-gray-800 text-left">
+                      {columns.map((column) => (
+                        <th key={column} className="px-3 py-1.5 font-medium whitespace-nowrap">{column}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex} className="border-t border-gray-100 dark:border-gray-800">
+                        {columns.map((column) => (
+                          <td key={column} className="px-3 py-1 whitespace-nowrap">{String(row[column] ?? '')}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
 }
 
 export default function ChatBotPage() {
+  const queryClient = useQueryClient();
   const [input, setInput] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  // คำถามที่กำลังส่งและความคืบหน้าที่ stream มา จนกว่าจะโหลดบทสนทนาจาก server
+  const [pending, setPending] = useState<{ question: string; progress: ChatTurnProgress } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isRefreshingSchema, setIsRefreshingSchema] = useState(false);
   const [schemaStatus, setSchemaStatus] = useState<{ tableCount: number; lastUpdated: string | null } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   // Fetch schema status on mount
@@ -52,10 +133,26 @@ export default function ChatBotPage() {
     }
   };
 
+  const { data: conversations = [] } = useConversations();
+  const { data: conversation, isLoading: isLoadingConversation } = useConversation(activeId);
+  const { rename, remove } = useConversationActions();
+
+  const messages: ChatMessage[] = [
+    ...(activeId ? (conversation?.messages ?? []) : []),
+    ...(pending
+      ? [
+          { id: 'pending-user', role: 'user' as const, content: pending.question, queries: [], createdAt: '' },
+          ...(pending.progress.answer
+            ? [{ id: 'pending-assistant', role: 'assistant' as const, content: pending.progress.answer, queries: [], createdAt: '' }]
+            : []),
+        ]
+      : []),
+  ];
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages.length, pending?.progress]);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -65,17 +162,24 @@ export default function ChatBotPage() {
     }
   }, [input]);
 
+  /**
+   * Load the saved turn (with SQL) before dropping the streamed copy.
+   * A cancelled turn is saved right after the connection closes, so retry briefly.
+   */
+  const loadConversation = async (id: string, attempts: number) => {
+    for (let attempt = 1; ; attempt++) {
+      const detail = await queryClient.fetchQuery({ queryKey: conversationQueryKey(id), queryFn: () => fetchConversation(id) });
+      if (attempt >= attempts || detail.messages[detail.messages.length - 1]?.role === 'assistant') return;
+      await new Promise((resolve) => setTimeout(resolve, 400));
+    }
+  };
+
   const sendMessage = async (text: string) => {
     if (!text.trim()) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: 'user',
-      content: text,
-    };
-
-    const allMessages = [...messages, userMessage];
-    setMessages(allMessages);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPending({ question: text, progress: EMPTY_TURN });
     setInput('');
     setIsLoading(true);
     setError(null);
@@ -86,68 +190,57 @@ export default function ChatBotPage() {
     }
 
     try {
-      const response = await fetch('/api/chat-direct', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: allMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        }),
+      const result = await sendChatMessage({
+        conversationId: activeId,
+        message: text,
+        signal: controller.signal,
+        onProgress: (progress) => setPending({ question: text, progress }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Request failed');
+      if (result.error) {
+        setError(result.error);
       }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantContent = '';
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          assistantContent += chunk;
-
-          // Update assistant message in real-time
-          setMessages((prev) => {
-            const lastMsg = prev[prev.length - 1];
-            if (lastMsg?.role === 'assistant') {
-              return [
-                ...prev.slice(0, -1),
-                { ...lastMsg, content: assistantContent },
-              ];
-            } else {
-              return [
-                ...prev,
-                {
-                  id: (Date.now() + 1).toString(),
-                  role: 'assistant',
-                  content: assistantContent,
-                },
-              ];
-            }
-          });
-        }
+      if (result.conversationId) {
+        await loadConversation(result.conversationId, result.cancelled ? 5 : 1);
+        setActiveId(result.conversationId);
       }
+      setPending(null);
+      queryClient.invalidateQueries({ queryKey: [...CHAT_QUERY_KEY, 'conversations'] });
     } catch (err) {
       console.error('[ChatBot] Error:', err);
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const clearMessages = () => {
-    setMessages([]);
+  const cancelTurn = () => {
+    abortRef.current?.abort();
+  };
+
+  const openConversation = (id: string | null) => {
+    setActiveId(id);
+    setPending(null);
     setError(null);
   };
 
+  const saveTitle = () => {
+    if (editing && editing.title.trim()) {
+      rename.mutate({ id: editing.id, title: editing.title });
+    }
+    setEditing(null);
+  };
+
+  const deleteConversation = (id: string, title: string) => {
+    if (!confirm(`ลบบทสนทนา "${title}"?`)) return;
+    remove.mutate(id, {
+      onSuccess: () => {
+        if (id === activeId) openConversation(null);
+      },
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -158,192 +251,287 @@ export default function ChatBotPage() {
   };
 
   return (
-    <div className="h-screen bg-white dark:bg-gray-900 flex flex-col overflow-hidden">
-      {/* Header - Minimal like ChatGPT */}
-      <header className="flex-shrink-0 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
-        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Database className="w-6 h-6 text-blue-600" />
-            <h1 className="text-lg font-semibold text-gray-800 dark:text-gray-100">AI Data Assistant</h1>
-            {schemaStatus && (
-              <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">
-                ({schemaStatus.tableCount} tables)
-              </span>
-            )}
-          </div>
-          <div className="flex items-center gap-2">
-            <button
-              onClick={refreshSchema}
-              disabled={isRefreshingSchema}
-              className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors text-sm disabled:opacity-50"
-              title="Refresh database schema"
+    <div className="h-screen bg-white dark:bg-gray-900 flex overflow-hidden">
+      {/* Conversation history */}
+      <aside className="hidden md:flex w-64 flex-shrink-0 flex-col border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-950">
+        <div className="p-3">
+          <button
+            onClick={() => openConversation(null)}
+            className="w-full flex items-center gap-2 px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-white dark:hover:bg-gray-800 text-gray-700 dark:text-gray-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            New Chat
+          </button>
+        </div>
+        <nav className="flex-1 overflow-y-auto px-2 pb-3 space-y-0.5">
+          {conversations.map((item) => (
+            <div
+              key={item.id}
+              className={`group flex items-center gap-2 px-2 py-2 rounded-lg text-sm ${
+                item.id === activeId
+                  ? 'bg-gray-200 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                  : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-900'
+              }`}
             >
-              <RefreshCw className={`w-4 h-4 ${isRefreshingSchema ? 'animate-spin' : ''}`} />
-              Schema
-            </button>
-            {messages.length > 0 && (
+              <MessageSquare className="w-4 h-4 flex-shrink-0 opacity-60" />
+              {editing?.id === item.id ? (
+                <>
+                  <input
+                    autoFocus
+                    value={editing.title}
+                    onChange={(e) => setEditing({ id: item.id, title: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveTitle();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="flex-1 min-w-0 px-1.5 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800"
+                  />
+                  <button onClick={saveTitle} aria-label="บันทึกชื่อ" className="p-0.5 hover:text-blue-600">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setEditing(null)} aria-label="ยกเลิก" className="p-0.5 hover:text-gray-900 dark:hover:text-white">
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              ) : (
+                <>
+                  <button onClick={() => openConversation(item.id)} className="flex-1 min-w-0 text-left truncate" title={item.title}>
+                    {item.title}
+                  </button>
+                  <button
+                    onClick={() => setEditing({ id: item.id, title: item.title })}
+                    aria-label="เปลี่ยนชื่อ"
+                    className="p-0.5 opacity-0 group-hover:opacity-100 hover:text-blue-600"
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => deleteConversation(item.id, item.title)}
+                    aria-label="ลบ"
+                    className="p-0.5 opacity-0 group-hover:opacity-100 hover:text-red-600"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {conversations.length === 0 && (
+            <p className="px-2 py-4 text-xs text-center text-gray-400 dark:text-gray-500">ยังไม่มีประวัติการสนทนา</p>
+          )}
+        </nav>
+      </aside>
+
+      <div className="flex-1 min-w-0 flex flex-col overflow-hidden">
+        {/* Header - Minimal like ChatGPT */}
+        <header className="flex-shrink-0 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+          <div className="max-w-3xl mx-auto px-4 py-3 flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Database className="w-6 h-6 text-blue-600" />
+              <h1 className="text-lg font-semibold text-gray-800 dark:text-gray-100">AI Data Assistant</h1>
+              {schemaStatus && (
+                <span className="text-xs text-gray-400 dark:text-gray-500 ml-2">
+                  ({schemaStatus.tableCount} tables)
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
               <button
-                onClick={clearMessages}
-                className="flex items-center gap-2 px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors text-sm"
+                onClick={refreshSchema}
+                disabled={isRefreshingSchema}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors text-sm disabled:opacity-50"
+                title="Refresh database schema"
               >
-                <RotateCcw className="w-4 h-4" />
-                New Chat
+                <RefreshCw className={`w-4 h-4 ${isRefreshingSchema ? 'animate-spin' : ''}`} />
+                Schema
               </button>
-            )}
-          </div>
-        </div>
-      </header>
-
-      {/* Messages Area - Scrollable */}
-      <div className="flex-1 overflow-y-auto">
-        <div className="max-w-3xl mx-auto px-4 py-6">
-          {/* Welcome Screen */}
-          {messages.length === 0 && (
-            <div className="text-center py-20">
-              <Database className="w-16 h-16 mx-auto mb-6 text-blue-600 opacity-80" />
-              <h2 className="text-2xl font-semibold text-gray-800 dark:text-gray-100 mb-2">
-                How can I help you today?
-              </h2>
-              <p className="text-gray-500 dark:text-gray-400 mb-8">
-                Ask me anything about your data
-              </p>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl mx-auto">
-                <button
-                  onClick={() => sendMessage('แสดงยอดขายเดือนที่แล้ว')}
-                  className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                >
-                  <p className="font-medium text-gray-800 dark:text-gray-200">ยอดขายเดือนที่แล้ว</p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">ดูสรุปยอดขายรายเดือน</p>
-                </button>
+              {messages.length > 0 && (
                 <button
-                  onClick={() => sendMessage('สินค้าขายดี 10 อันดับแรก')}
-                  className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  onClick={() => openConversation(null)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors text-sm"
                 >
-                  <p className="font-medium text-gray-800 dark:text-gray-200">สินค้าขายดี</p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Top 10 สินค้าขายดี</p>
+                  <RotateCcw className="w-4 h-4" />
+                  New Chat
                 </button>
-                <button
-                  onClick={() => sendMessage('เปรียบเทียบยอดขายรายภูมิภาค')}
-                  className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                >
-                  <p className="font-medium text-gray-800 dark:text-gray-200">ยอดขายรายภูมิภาค</p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">เปรียบเทียบแต่ละพื้นที่</p>
-                </button>
-                <button
-                  onClick={() => sendMessage('ลูกค้าที่มียอดซื้อสูงสุด')}
-                  className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                >
-                  <p className="font-medium text-gray-800 dark:text-gray-200">ลูกค้า Top</p>
-                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">ลูกค้ายอดซื้อสูงสุด</p>
-                </button>
-              </div>
+              )}
             </div>
-          )}
+          </div>
+        </header>
 
-          {/* Messages */}
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`py-6 ${message.role === 'assistant' ? 'bg-gray-50 dark:bg-gray-800/50 -mx-4 px-4 rounded-xl' : ''}`}
-            >
-              <div className="flex gap-4">
-                {/* Avatar */}
-                <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
-                  message.role === 'user'
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-green-600 text-white'
-                }`}>
-                  {message.role === 'user' ? (
-                    <span className="text-sm font-medium">U</span>
-                  ) : (
-                    <Database className="w-4 h-4" />
-                  )}
-                </div>
+        {/* Messages Area - Scrollable */}
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-w-3xl mx-auto px-4 py-6">
+            {/* Welcome Screen */}
+            {activeId && isLoadingConversation && (
+              <div className="flex justify-center py-20 text-gray-400">
+                <Loader2 className="w-6 h-6 animate-spin" />
+              </div>
+            )}
 
-                {/* Content */}
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-1">
-                    {message.role === 'user' ? 'You' : 'AI Assistant'}
-                  </p>
-                  {message.role === 'user' ? (
-                    <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{message.content}</p>
-                  ) : (
-                    <div className="text-gray-700 dark:text-gray-300">
-                      <MarkdownRenderer content={message.content} />
-                    </div>
-                  )}
+            {messages.length === 0 && !(activeId && isLoadingConversation) && (
+              <div className="text-center py-20">
+                <Database className="w-16 h-16 mx-auto mb-6 text-blue-600 opacity-80" />
+                <h2 className="text-2xl font-semibold text-gray-800 dark:text-gray-100 mb-2">
+                  How can I help you today?
+                </h2>
+                <p className="text-gray-500 dark:text-gray-400 mb-8">
+                  Ask me anything about your data
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-xl mx-auto">
+                  <button
+                    onClick={() => sendMessage('แสดงยอดขายเดือนที่แล้ว')}
+                    className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <p className="font-medium text-gray-800 dark:text-gray-200">ยอดขายเดือนที่แล้ว</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">ดูสรุปยอดขายรายเดือน</p>
+                  </button>
+                  <button
+                    onClick={() => sendMessage('สินค้าขายดี 10 อันดับแรก')}
+                    className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <p className="font-medium text-gray-800 dark:text-gray-200">สินค้าขายดี</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Top 10 สินค้าขายดี</p>
+                  </button>
+                  <button
+                    onClick={() => sendMessage('เปรียบเทียบยอดขายรายภูมิภาค')}
+                    className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <p className="font-medium text-gray-800 dark:text-gray-200">ยอดขายรายภูมิภาค</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">เปรียบเทียบแต่ละพื้นที่</p>
+                  </button>
+                  <button
+                    onClick={() => sendMessage('ลูกค้าที่มียอดซื้อสูงสุด')}
+                    className="p-4 text-left border border-gray-200 dark:border-gray-700 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                  >
+                    <p className="font-medium text-gray-800 dark:text-gray-200">ลูกค้า Top</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">ลูกค้ายอดซื้อสูงสุด</p>
+                  </button>
                 </div>
               </div>
-            </div>
-          ))}
+            )}
 
-          {/* Error Message */}
-          {error && (
-            <div className="py-6">
-              <div className="flex gap-4">
-                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-red-600 text-white flex items-center justify-center">
-                  <span className="text-sm">!</span>
-                </div>
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-red-600 dark:text-red-400 mb-1">Error</p>
-                  <p className="text-red-600 dark:text-red-400">{error}</p>
+            {/* Messages */}
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={`py-6 ${message.role === 'assistant' ? 'bg-gray-50 dark:bg-gray-800/50 -mx-4 px-4 rounded-xl' : ''}`}
+              >
+                <div className="flex gap-4">
+                  {/* Avatar */}
+                  <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
+                    message.role === 'user'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-green-600 text-white'
+                  }`}>
+                    {message.role === 'user' ? (
+                      <span className="text-sm font-medium">U</span>
+                    ) : (
+                      <Database className="w-4 h-4" />
+                    )}
+                  </div>
+
+                  {/* Content */}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-1">
+                      {message.role === 'user' ? 'You' : 'AI Assistant'}
+                    </p>
+                    {message.role === 'user' ? (
+                      <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{message.content}</p>
+                    ) : (
+                      <div className="text-gray-700 dark:text-gray-300">
+                        {message.id === 'pending-assistant' && pending && (
+                          <div className="mb-2">
+                            <ChatActivity progress={pending.progress} />
+                          </div>
+                        )}
+                        <MarkdownRenderer content={message.content} />
+                        {message.queries.length > 0 && <MessageQueries message={message} />}
+                      </div>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            ))}
 
-          {/* Loading indicator */}
-          {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
-            <div className="py-6 bg-gray-50 dark:bg-gray-800/50 -mx-4 px-4 rounded-xl">
-              <div className="flex gap-4">
-                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-green-600 text-white flex items-center justify-center">
-                  <Database className="w-4 h-4" />
+            {/* Error Message */}
+            {error && (
+              <div className="py-6">
+                <div className="flex gap-4">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-red-600 text-white flex items-center justify-center">
+                    <span className="text-sm">!</span>
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-red-600 dark:text-red-400 mb-1">Error</p>
+                    <p className="text-red-600 dark:text-red-400">{error}</p>
+                  </div>
                 </div>
-                <div className="flex-1">
-                  <p className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-1">AI Assistant</p>
-                  <div className="flex items-center gap-2 text-gray-500">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span>Thinking...</span>
+              </div>
+            )}
+
+            {/* Loading indicator */}
+            {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
+              <div className="py-6 bg-gray-50 dark:bg-gray-800/50 -mx-4 px-4 rounded-xl">
+                <div className="flex gap-4">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-green-600 text-white flex items-center justify-center">
+                    <Database className="w-4 h-4" />
+                  </div>
+                  <div className="flex-1">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200 mb-1">AI Assistant</p>
+                    {pending && (pending.progress.steps.length > 0 || pending.progress.status) ? (
+                      <ChatActivity progress={pending.progress} />
+                    ) : (
+                      <div className="flex items-center gap-2 text-gray-500">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span>Thinking...</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          <div ref={messagesEndRef} />
+            <div ref={messagesEndRef} />
+          </div>
         </div>
-      </div>
 
-      {/* Input Area - Fixed at bottom, full width */}
-      <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-4">
-        <div className="max-w-3xl mx-auto">
-          <div className="relative flex items-end bg-gray-100 dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500">
-            <textarea
-              ref={textareaRef}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Message AI Assistant..."
-              disabled={isLoading}
-              rows={1}
-              className="flex-1 px-4 py-3 bg-transparent border-none outline-none resize-none text-gray-800 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 disabled:opacity-50 max-h-[200px]"
-            />
-            <button
-              onClick={() => sendMessage(input)}
-              disabled={isLoading || !input.trim()}
-              className="flex-shrink-0 m-1.5 p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-600"
-              aria-label="Send message"
-            >
+        {/* Input Area - Fixed at bottom, full width */}
+        <div className="flex-shrink-0 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 p-4">
+          <div className="max-w-3xl mx-auto">
+            <div className="relative flex items-end bg-gray-100 dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700 focus-within:border-blue-500 focus-within:ring-1 focus-within:ring-blue-500">
+              <textarea
+                ref={textareaRef}
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Message AI Assistant..."
+                disabled={isLoading}
+                rows={1}
+                className="flex-1 px-4 py-3 bg-transparent border-none outline-none resize-none text-gray-800 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-400 disabled:opacity-50 max-h-[200px]"
+              />
               {isLoading ? (
-                <Loader2 className="w-5 h-5 animate-spin" />
+                <button
+                  onClick={cancelTurn}
+                  className="flex-shrink-0 m-1.5 p-2 bg-gray-700 hover:bg-gray-800 dark:bg-gray-600 dark:hover:bg-gray-500 text-white rounded-xl transition-colors"
+                  aria-label="Stop generating"
+                  title="หยุด"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
               ) : (
-                <Send className="w-5 h-5" />
+                <button
+                  onClick={() => sendMessage(input)}
+                  disabled={!input.trim()}
+                  className="flex-shrink-0 m-1.5 p-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-600"
+                  aria-label="Send message"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
               )}
-            </button>
+            </div>
+            <p className="text-xs text-center text-gray-400 dark:text-gray-500 mt-2">
+              Press Enter to send, Shift+Enter for new line
+            </p>
           </div>
-          <p className="text-xs text-center text-gray-400 dark:text-gray-500 mt-2">
-            Press Enter to send, Shift+Enter for new line
-          </p>
         </div>
       </div>
     </div>
@@ -74,8 +74,8 @@ function SectionHeader({ icon, title, desc }: { icon: React.ReactNode; title: st
   );
 }
 
-function BranchDot({ idx }: { idx: number }) {
-  return <div className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', BRANCH_PALETTE[idx % BRANCH_PALETTE.length].light)} />;
+function BranchDot({ color }: { color: string }) {
+  return <div className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />;
 }
 
 /* ═══════════════════════════════════════════════
@@ -85,6 +85,11 @@ function BranchDot({ idx }: { idx: number }) {
 export default function AccountingComparisonPage() {
   const { selectedBranches, availableBranches, isLoaded } = useComparison();
   const { dateRange, setDateRange } = useDateRangeStore();
+
+  /* ─── Branch colour from the registry, palette as fallback ─── */
+  const branchHex = (key: string, idx: number) =>
+    availableBranches.find(b => b.key === key)?.color || BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex;
+
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<BranchAccountingData[]>([]);
 
@@ -132,8 +137,8 @@ export default function AccountingComparisonPage() {
             branchName: branchInfo?.name || `กิจการ ${branchKey}`,
             kpis: kpisJ.data,
             profitLoss: plJ.data || [],
-            balanceSheet: bsJ.data || [],
-            cashFlow: cfJ.data || [],
+            balanceSheet: bsJ.data?.items || [],
+            cashFlow: cfJ.data?.activities || [],
             arAging: arJ.data || [],
             apAging: apJ.data || [],
             revenueBreakdown: brkJ.data?.revenue || [],
@@ -369,7 +374,7 @@ export default function AccountingComparisonPage() {
                         <td className="py-3 pl-6 pr-4">
                           {RankIcon ? <RankIcon className={cn('h-5 w-5', rankColors[idx])} /> : <span className="text-muted-foreground font-medium">{idx + 1}</span>}
                         </td>
-                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot idx={idx} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
+                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
                         <td className="py-3 px-4 text-right font-medium">{fmtShort(revenue)} <GrowthBadge value={d.kpis?.revenue?.growthPercentage} /></td>
                         <td className="py-3 px-4 text-right font-medium">{fmtShort(expenses)}</td>
                         <td className="py-3 px-4 text-right"><span className={cn('font-bold', netProfit >= 0 ? 'text-emerald-600' : 'text-rose-600')}>{fmtShort(netProfit)}</span></td>
@@ -495,7 +500,7 @@ export default function AccountingComparisonPage() {
                 const allMonths = [...new Set(data.flatMap(d => d.profitLoss.map(p => p.month)))].sort();
                 if (allMonths.length === 0) return <p className="text-xs text-muted-foreground py-8 text-center">ไม่มีข้อมูล</p>;
                 const series = data.map((d, idx) => {
-                  const hex = BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex;
+                  const hex = branchHex(d.branchKey, idx);
                   return {
                     name: d.branchName,
                     type: 'line' as const,
@@ -573,7 +578,7 @@ export default function AccountingComparisonPage() {
                     const totalNet = d.cashFlow.reduce((s, c) => s + c.netCashFlow, 0);
                     return (
                       <tr key={d.branchKey} className="border-b border-border/30 last:border-0 hover:bg-muted/20 transition-colors">
-                        <td className="py-3 pl-6 pr-4"><div className="flex items-center gap-2"><BranchDot idx={idx} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
+                        <td className="py-3 pl-6 pr-4"><div className="flex items-center gap-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
                         {(['Operating', 'Investing', 'Financing'] as const).map(act => {
                           const cf = actCF(act);
                           const net = cf?.netCashFlow ?? 0;
@@ -613,7 +618,7 @@ export default function AccountingComparisonPage() {
                     name: d.branchName,
                     type: 'bar' as const,
                     barMaxWidth: 28,
-                    itemStyle: { color: BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex, borderRadius: [4, 4, 0, 0] },
+                    itemStyle: { color: branchHex(d.branchKey, idx), borderRadius: [4, 4, 0, 0] },
                     data: AGING_BUCKETS.map(b => buckets[b] || 0),
                   };
                 });
@@ -649,7 +654,7 @@ export default function AccountingComparisonPage() {
                     name: d.branchName,
                     type: 'bar' as const,
                     barMaxWidth: 28,
-                    itemStyle: { color: BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex, borderRadius: [4, 4, 0, 0] },
+                    itemStyle: { color: branchHex(d.branchKey, idx), borderRadius: [4, 4, 0, 0] },
                     data: AGING_BUCKETS.map(b => buckets[b] || 0),
                   };
                 });
@@ -684,7 +689,7 @@ export default function AccountingComparisonPage() {
                   if (d.revenueBreakdown.length === 0) {
                     return (
                       <div key={d.branchKey} className="flex flex-col items-center py-6">
-                        <div className="flex items-center gap-2 mb-2"><BranchDot idx={idx} /><span className="text-sm font-semibold text-foreground">{d.branchName}</span></div>
+                        <div className="flex items-center gap-2 mb-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="text-sm font-semibold text-foreground">{d.branchName}</span></div>
                         <p className="text-xs text-muted-foreground">ไม่มีข้อมูล</p>
                       </div>
                     );
@@ -748,7 +753,7 @@ export default function AccountingComparisonPage() {
                   return (
                     <div key={d.branchKey}>
                       <div className="flex items-center gap-2 mb-1 px-1">
-                        <BranchDot idx={idx} />
+                        <BranchDot color={branchHex(d.branchKey, idx)} />
                         <span className="text-sm font-semibold text-foreground">{d.branchName}</span>
                       </div>
                       <ReactECharts option={option} style={{ height: 260 }} opts={{ renderer: 'svg' }} />
@@ -777,7 +782,7 @@ export default function AccountingComparisonPage() {
                   if (d.expenseBreakdown.length === 0) {
                     return (
                       <div key={d.branchKey} className="flex flex-col items-center py-6">
-                        <div className="flex items-center gap-2 mb-2"><BranchDot idx={idx} /><span className="text-sm font-semibold text-foreground">{d.branchName}</span></div>
+                        <div className="flex items-center gap-2 mb-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="text-sm font-semibold text-foreground">{d.branchName}</span></div>
                         <p className="text-xs text-muted-foreground">ไม่มีข้อมูล</p>
                       </div>
                     );
@@ -808,7 +813,7 @@ export default function AccountingComparisonPage() {
                   return (
                     <div key={d.branchKey}>
                       <div className="flex items-center gap-2 mb-1 px-1">
-                        <BranchDot idx={idx} />
+                        <BranchDot color={branchHex(d.branchKey, idx)} />
                         <span className="text-sm font-semibold text-foreground">{d.branchName}</span>
                       </div>
                       <ReactECharts option={option} style={{ height: 200 }} opts={{ renderer: 'svg' }} />
@@ -20,7 +20,8 @@ import { ProductAccountBreakdownChart } from '@/components/accounting/ProductAcc
 import { Wallet, CreditCard, PiggyBank, TrendingUp, TrendingDown } from 'lucide-react';
 import { getDateRange } from '@/lib/dateRanges';
 import { formatGrowthPercentage } from '@/lib/comparison';
-import type { DateRange, AccountingKPIs, ProfitLossData, BalanceSheetItem, CashFlowData, AgingItem, CategoryBreakdown } from '@/lib/data/types';
+import type { DateRange, AccountingKPIs, ProfitLossData, BalanceSheetItem, BalanceSheetData, AgingItem, CategoryBreakdown } from '@/lib/data/types';
+import type { CashFlowStatement } from '@/lib/cash-flow/types';
 import type { ProductAccountData } from '@/lib/data/types';
 import {
   getAssetsQuery,
@@ -37,6 +38,7 @@ import {
   getExpenseBreakdownQuery,
   getProfitLossByProductCategoryQuery,
 } from '@/lib/data/accounting-queries';
+import { inlineParams } from '@/lib/data/query-builder';
 
 export default function AccountingPage() {
   const { dateRange, setDateRange } = useDateRangeStore();
@@ -96,21 +98,11 @@ export default function AccountingPage() {
         productAccountRes.ok ? productAccountRes.json() : Promise.resolve({ data: [] }),
       ]);
 
-      // Transform balance sheet data - ensure account_type is present for filtering
-      const transformedBalanceSheet = (bsData.data as any[]).map((item: any) => ({
-        accountType: item.accountType,
-        account_type: item.account_type, // The full account type (ASSETS, LIABILITIES, EQUITY)
-        typeName: item.typeName,
-        accountCode: item.accountCode,
-        accountName: item.accountName,
-        balance: item.balance,
-      }));
-
       return {
         kpis: kpisData.data as AccountingKPIs,
         profitLoss: plData.data as ProfitLossData[],
-        balanceSheet: transformedBalanceSheet as BalanceSheetItem[],
-        cashFlow: cfData.data as CashFlowData[],
+        balanceSheet: bsData.data as BalanceSheetData,
+        cashFlow: cfData.data as CashFlowStatement,
         arAging: arData.data as AgingItem[],
         apAging: apData.data as AgingItem[],
         revenueBreakdown: breakdownData.data.revenue as CategoryBreakdown[],
@@ -123,8 +115,9 @@ export default function AccountingPage() {
   const error = queryError instanceof Error ? queryError.message : queryError ? 'เกิดข้อผิดพลาดในการโหลดข้อมูล' : null;
   const kpis = data?.kpis;
   const profitLossData = data?.profitLoss || [];
-  const balanceSheetData = data?.balanceSheet || [];
-  const cashFlowData = data?.cashFlow || [];
+  const balanceSheet = data?.balanceSheet ?? null;
+  const balanceSheetData = balanceSheet?.items || [];
+  const cashFlowData = data?.cashFlow ?? null;
   const arAgingData = data?.arAging || [];
   const apAgingData = data?.apAging || [];
   const revenueBreakdown = data?.revenueBreakdown || [];
@@ -304,7 +297,7 @@ export default function AccountingPage() {
             }
             expandHref="/reports/accounting?report=balance-sheet&accountType=สินทรัพย์"
             queryInfo={{
-              query: getAssetsQuery(dateRange),
+              query: getAssetsQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -330,7 +323,7 @@ export default function AccountingPage() {
             }
             expandHref="/reports/accounting?report=balance-sheet&accountType=หนี้สิน"
             queryInfo={{
-              query: getLiabilitiesQuery(dateRange),
+              query: getLiabilitiesQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -356,7 +349,7 @@ export default function AccountingPage() {
             }
             expandHref="/reports/accounting?report=balance-sheet&accountType=ส่วนของผู้ถือหุ้น"
             queryInfo={{
-              query: getEquityQuery(dateRange),
+              query: getEquityQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -365,6 +358,7 @@ export default function AccountingPage() {
             value={formatCurrency(kpis.revenue.value)}
             trend={formatGrowthPercentage(kpis.revenue.growthPercentage || 0)}
             trendUp={kpis.revenue.trend === 'up'}
+            budget={kpis.revenue.budget}
             icon={TrendingUp}
             detailTitle="รายละเอียดรายได้"
             detailNote="ยอดรายได้รวมที่เกิดขึ้นในช่วงเวลาที่เลือก"
@@ -384,7 +378,7 @@ export default function AccountingPage() {
             }
             expandHref="/reports/accounting?report=revenue-breakdown"
             queryInfo={{
-              query: getRevenueQuery(dateRange),
+              query: getRevenueQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -393,6 +387,8 @@ export default function AccountingPage() {
             value={formatCurrency(kpis.expenses.value)}
             trend={formatGrowthPercentage(kpis.expenses.growthPercentage || 0)}
             trendUp={kpis.expenses.trend === 'down'} // Down is good for expenses
+            budget={kpis.expenses.budget}
+            budgetLowerIsBetter
             icon={TrendingDown}
             detailTitle="รายละเอียดค่าใช้จ่าย"
             detailNote="แนวโน้มลดลงของค่าใช้จ่ายช่วยปรับปรุงผลกำไร"
@@ -412,7 +408,7 @@ export default function AccountingPage() {
             }
             expandHref="/reports/accounting?report=expense-breakdown"
             queryInfo={{
-              query: getExpensesQuery(dateRange),
+              query: getExpensesQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -427,7 +423,7 @@ export default function AccountingPage() {
             description="เปรียบเทียบรายได้ ค่าใช้จ่าย และกำไรสุทธิรายเดือน"
             linkTo="/reports/accounting#profit-loss"
             queryInfo={{
-              query: getProfitLossQuery(dateRange),
+              query: getProfitLossQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -445,17 +441,17 @@ export default function AccountingPage() {
         <ErrorBoundary>
           <DataCard
             title="งบดุล"
-            description="สินทรัพย์ หนี้สิน และส่วนของผู้ถือหุ้น"
+            description={`สินทรัพย์ หนี้สิน และส่วนของผู้ถือหุ้น ณ วันที่ ${dateRange.end}`}
             linkTo="/reports/accounting#balance-sheet"
             queryInfo={{
-              query: getBalanceSheetQuery(dateRange),
+              query: getBalanceSheetQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
             {loading ? (
               <ChartSkeleton key="skeleton" height="350px" />
             ) : (
-              <BalanceSheetChart key="chart" data={balanceSheetData} height="350px" />
+              <BalanceSheetChart key="chart" data={balanceSheet} height="350px" />
             )}
           </DataCard>
         </ErrorBoundary>
@@ -466,7 +462,7 @@ export default function AccountingPage() {
             description="จากกิจกรรมดำเนินงาน ลงทุน และจัดหาเงิน"
             linkTo="/reports/accounting#cash-flow"
             queryInfo={{
-              query: getCashFlowQuery(dateRange),
+              query: getCashFlowQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -487,7 +483,7 @@ export default function AccountingPage() {
             description="รายการลูกหนี้ค้างชำระ"
             linkTo="/reports/accounting#ar-aging"
             queryInfo={{
-              query: getARAgingQuery(dateRange),
+              query: getARAgingQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -505,7 +501,7 @@ export default function AccountingPage() {
             description="รายการเจ้าหนี้ค้างชำระ"
             linkTo="/reports/accounting#ap-aging"
             queryInfo={{
-              query: getAPAgingQuery(dateRange),
+              query: getAPAgingQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -525,7 +521,7 @@ export default function AccountingPage() {
           description="สัดส่วนรายได้และค่าใช้จ่ายแยกตามประเภท"
           linkTo="/reports/accounting#revenue-breakdown"
           queryInfo={{
-            query: `-- Revenue Breakdown\n${getRevenueBreakdownQuery(dateRange)}\n\n-- Expense Breakdown\n${getExpenseBreakdownQuery(dateRange)}`,
+            query: `-- Revenue Breakdown\n${inlineParams(getRevenueBreakdownQuery(dateRange, selectedBranches))}\n\n-- Expense Breakdown\n${inlineParams(getExpenseBreakdownQuery(dateRange, selectedBranches))}`,
             format: 'JSONEachRow'
           }}
         >
@@ -551,7 +547,7 @@ export default function AccountingPage() {
               title="รายได้ / ทุน / ค่าใช้จ่าย ตามหมวดสินค้า"
               description="ผังบัญชี (INCOME / EQUITY / EXPENSES) จากการ JOIN ตารางขายกับตารางบัญชี"
               queryInfo={{
-                query: getProfitLossByProductCategoryQuery(dateRange),
+                query: getProfitLossByProductCategoryQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow'
               }}
             >
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Bell, Check, CheckCheck, ChevronLeft, ChevronRight, Settings2 } from 'lucide-react';
+import { cn, formatDateTime } from '@/lib/utils';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { useAlertActions, useAlertFeed, type AlertFeedFilter } from '@/hooks/useAlerts';
+import { ALERT_SEVERITY_LABELS, type AlertSeverity } from '@/lib/alerts/types';
+
+const PAGE_SIZE = 20;
+
+const FILTERS: { value: AlertFeedFilter; label: string }[] = [
+  { value: 'all', label: 'ทั้งหมด' },
+  { value: 'unread', label: 'ยังไม่อ่าน' },
+  { value: 'open', label: 'ยังไม่รับทราบ' },
+];
+
+const severityClass: Record<AlertSeverity, string> = {
+  info: 'bg-blue-50 text-blue-700 dark:bg-blue-500/10 dark:text-blue-300',
+  warning: 'bg-amber-50 text-amber-700 dark:bg-amber-500/10 dark:text-amber-300',
+  error: 'bg-rose-50 text-rose-700 dark:bg-rose-500/10 dark:text-rose-300',
+};
+
+export default function AlertsPage() {
+  const [filter, setFilter] = useState<AlertFeedFilter>('all');
+  const [page, setPage] = useState(0);
+  const { data, isLoading, error, refetch } = useAlertFeed(filter, PAGE_SIZE, page * PAGE_SIZE);
+  const { markRead, acknowledge } = useAlertActions();
+
+  const events = data?.events ?? [];
+  const openIds = events.filter((e) => !e.acknowledgedAt).map((e) => e.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Bell className="h-6 w-6 text-primary" />
+            การแจ้งเตือน
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            ยังไม่อ่าน {data?.unreadCount ?? 0} รายการ · ยังไม่รับทราบ {data?.openCount ?? 0} รายการ
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => markRead.mutate(undefined)}
+            disabled={!data?.unreadCount || markRead.isPending}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          >
+            <CheckCheck className="h-4 w-4" />
+            อ่านทั้งหมด
+          </button>
+          <button
+            type="button"
+            onClick={() => acknowledge.mutate(openIds)}
+            disabled={openIds.length === 0 || acknowledge.isPending}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          >
+            <Check className="h-4 w-4" />
+            รับทราบทั้งหน้า
+          </button>
+          <Link
+            href="/settings/alert-rules"
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground"
+          >
+            <Settings2 className="h-4 w-4" />
+            กฎแจ้งเตือน
+          </Link>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {FILTERS.map((f) => (
+          <button
+            key={f.value}
+            type="button"
+            onClick={() => {
+              setFilter(f.value);
+              setPage(0);
+            }}
+            className={cn(
+              'px-3 py-1.5 text-sm rounded-md border',
+              filter === f.value ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+            )}
+          >
+            {f.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+      {(markRead.error || acknowledge.error) && <ErrorDisplay error={(markRead.error || acknowledge.error)!} />}
+
+      {isLoading ? (
+        <TableSkeleton rows={6} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="py-2 px-3 font-medium">เวลา</th>
+                <th className="py-2 px-3 font-medium">ระดับ</th>
+                <th className="py-2 px-3 font-medium">การแจ้งเตือน</th>
+                <th className="py-2 px-3 font-medium">สถานะ</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr
+                  key={event.id}
+                  className={cn('border-b border-border/50 last:border-0', !event.readAt && 'bg-primary/5')}
+                >
+                  <td className="py-2 px-3 whitespace-nowrap">{formatDateTime(event.triggeredAt)}</td>
+                  <td className="py-2 px-3">
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs', severityClass[event.severity])}>
+                      {ALERT_SEVERITY_LABELS[event.severity]}
+                    </span>
+                  </td>
+                  <td className="py-2 px-3">
+                    <div className="font-medium">{event.title}</div>
+                    <div className="text-xs text-muted-foreground">{event.message}</div>
+                  </td>
+                  <td className="py-2 px-3 text-xs text-muted-foreground whitespace-nowrap">
+                    {event.acknowledgedAt
+                      ? `รับทราบ ${formatDateTime(event.acknowledgedAt)}`
+                      : event.readAt
+                        ? 'อ่านแล้ว'
+                        : 'ยังไม่อ่าน'}
+                  </td>
+                  <td className="py-2 px-3 text-right">
+                    {!event.acknowledgedAt && (
+                      <button
+                        type="button"
+                        onClick={() => acknowledge.mutate([event.id])}
+                        disabled={acknowledge.isPending}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted disabled:opacity-50"
+                      >
+                        <Check className="h-3.5 w-3.5" />
+                        รับทราบ
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {events.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-6 text-center text-muted-foreground">
+                    ไม่มีการแจ้งเตือน
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setPage((p) => Math.max(0, p - 1))}
+          disabled={page === 0}
+          className="p-1.5 rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          aria-label="หน้าก่อนหน้า"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="text-sm text-muted-foreground">หน้า {page + 1}</span>
+        <button
+          type="button"
+          onClick={() => setPage((p) => p + 1)}
+          disabled={events.length < PAGE_SIZE}
+          className="p-1.5 rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          aria-label="หน้าถัดไป"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { BranchComparisonData } from '@/lib/data/comparison';
+import type { BranchComparisonData } from '@/lib/data/comparison';
 import { TrendingUp, TrendingDown, Users, Package, Activity } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Sparkline } from '@/components/charts/Sparkline';
@@ -23,6 +23,8 @@ export function ComparisonTable({ data }: ComparisonTableProps) {
         return data.filter((b) => b.netProfit < 0);
       case 'declining':
         return data.filter((b) => b.salesGrowth < 0);
+      case 'belowBudget':
+        return data.filter((b) => b.salesBudget !== null && b.salesBudget.variance < 0);
       case 'highInventory':
         return data.filter((b) => b.deadStockValue > b.inventoryValue * 0.2); // 20%+ dead stock
       default:
@@ -117,6 +119,7 @@ export function ComparisonTable({ data }: ComparisonTableProps) {
               <th className="px-4 py-3 text-right font-semibold">กำไร</th>
               <th className="px-4 py-3 text-center font-semibold">Margin %</th>
               <th className="px-4 py-3 text-right font-semibold">Growth %</th>
+              <th className="px-4 py-3 text-right font-semibold">เทียบงบ</th>
               <th className="px-4 py-3 text-center font-semibold">Trend</th>
               <th className="px-4 py-3 text-right font-semibold">ลูกค้า</th>
               <th className="px-4 py-3 text-right font-semibold">Repeat %</th>
@@ -202,6 +205,23 @@ export function ComparisonTable({ data }: ComparisonTableProps) {
                     <span>{branch.salesGrowth.toFixed(1)}%</span>
                   </div>
                 </motion.td>
+                <motion.td className="px-4 py-3 text-right" whileHover={{ scale: 1.05 }}>
+                  {branch.salesBudget ? (
+                    <>
+                      <div
+                        className={cn(
+                          'font-semibold',
+                          branch.salesBudget.variance >= 0 ? 'text-emerald-600' : 'text-rose-600'
+                        )}
+                      >
+                        {branch.salesBudget.achievementPct !== null ? `${branch.salesBudget.achievementPct.toFixed(1)}%` : '-'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">งบ {formatMillion(branch.salesBudget.budget)}</div>
+                    </>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">ไม่มีงบ</span>
+                  )}
+                </motion.td>
                 <motion.td className="px-4 py-3 text-center" whileHover={{ scale: 1.05 }}>
                   <Sparkline data={branch.monthlySales} width={80} height={24} />
                 </motion.td>
@@ -3,10 +3,10 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { RadioGroup } from '@headlessui/react';
-import { Filter, TrendingDown, AlertTriangle, Package, CheckCircle2 } from 'lucide-react';
+import { Filter, TrendingDown, AlertTriangle, Package, CheckCircle2, Target } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
-export type FilterType = 'all' | 'lossMaking' | 'declining' | 'highInventory';
+export type FilterType = 'all' | 'lossMaking' | 'declining' | 'belowBudget' | 'highInventory';
 
 interface FilterBarProps {
   onFilterChange: (filter: FilterType) => void;
@@ -18,6 +18,7 @@ export function FilterBar({ onFilterChange, activeFilter }: FilterBarProps) {
     { id: 'all' as FilterType, label: 'All Branches', icon: Filter, color: 'bg-slate-100 text-slate-700' },
     { id: 'lossMaking' as FilterType, label: 'Negative Profit', icon: TrendingDown, color: 'bg-rose-100 text-rose-700' },
     { id: 'declining' as FilterType, label: 'Declining Sales', icon: AlertTriangle, color: 'bg-orange-100 text-orange-700' },
+    { id: 'belowBudget' as FilterType, label: 'Below Budget', icon: Target, color: 'bg-amber-100 text-amber-700' },
     { id: 'highInventory' as FilterType, label: 'High Dead Stock', icon: Package, color: 'bg-violet-100 text-violet-700' },
   ];
 
@@ -90,8 +90,9 @@ export default function ComparisonPage() {
     [branches]
   );
 
-  /* ─── Short branch name helper ─── */
-  const shortName = (name: string) => name.replace(/บริษัท\s*|จำกัด/g, '').trim().substring(0, 20);
+  /* ─── Branch registry helpers (short name / colour, palette as fallback) ─── */
+  const shortName = (b: BranchComparisonData) => b.branchShortName.substring(0, 20);
+  const branchHex = (b: BranchComparisonData, i: number) => b.branchColor || BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex;
 
   /* ─══════════════════════════════════════════════════════════════════
      CHART OPTIONS
@@ -107,6 +108,7 @@ export default function ComparisonPage() {
           const name = params[0]?.axisValue || '';
           let html = `<div class="font-semibold mb-1">${name}</div>`;
           params.forEach((p: any) => {
+            if (typeof p.value !== 'number') return; // branch without a budget
             html += `<div class="flex items-center gap-2"><span style="background:${p.color};width:10px;height:10px;border-radius:2px;display:inline-block;"></span>${p.seriesName}: ฿${fmtK(p.value)}</div>`;
           });
           return html;
@@ -116,7 +118,7 @@ export default function ComparisonPage() {
       grid: { top: 30, right: 20, bottom: 50, left: 50, containLabel: true },
       xAxis: {
         type: 'category',
-        data: branches.map((b: BranchComparisonData) => shortName(b.branchName)),
+        data: branches.map((b: BranchComparisonData) => shortName(b)),
         axisLabel: { rotate: 20, fontSize: 10 },
       },
       yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
@@ -139,6 +141,19 @@ export default function ComparisonPage() {
           data: branches.map((b: BranchComparisonData) => b.netProfit),
           itemStyle: { color: '#10b981', borderRadius: [4, 4, 0, 0] },
         },
+        ...(branches.some((b: BranchComparisonData) => b.salesBudget)
+          ? [
+              {
+                name: 'งบประมาณยอดขาย',
+                type: 'line',
+                symbol: 'diamond',
+                symbolSize: 10,
+                lineStyle: { opacity: 0 },
+                data: branches.map((b: BranchComparisonData) => b.salesBudget?.budget ?? '-'),
+                itemStyle: { color: '#ef4444' },
+              },
+            ]
+          : []),
       ],
     }),
     [branches]
@@ -152,7 +167,7 @@ export default function ComparisonPage() {
       grid: { top: 30, right: 60, bottom: 50, left: 50, containLabel: true },
       xAxis: {
         type: 'category',
-        data: branches.map((b: BranchComparisonData) => shortName(b.branchName)),
+        data: branches.map((b: BranchComparisonData) => shortName(b)),
         axisLabel: { rotate: 20, fontSize: 10 },
       },
       yAxis: [
@@ -195,9 +210,9 @@ export default function ComparisonPage() {
           itemStyle: { borderRadius: 6, borderColor: '#fff', borderWidth: 2 },
           label: { show: false },
           data: branches.map((b: BranchComparisonData, i: number) => ({
-            name: shortName(b.branchName),
+            name: shortName(b),
             value: b.totalSales,
-            itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+            itemStyle: { color: branchHex(b, i) },
           })),
         },
       ],
@@ -213,7 +228,7 @@ export default function ComparisonPage() {
       grid: { top: 30, right: 20, bottom: 50, left: 50, containLabel: true },
       xAxis: {
         type: 'category',
-        data: branches.map((b: BranchComparisonData) => shortName(b.branchName)),
+        data: branches.map((b: BranchComparisonData) => shortName(b)),
         axisLabel: { rotate: 20, fontSize: 10 },
       },
       yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
@@ -248,7 +263,7 @@ export default function ComparisonPage() {
       xAxis: { type: 'value', axisLabel: { formatter: '{value}x' } },
       yAxis: {
         type: 'category',
-        data: branches.map((b: BranchComparisonData) => shortName(b.branchName)).reverse(),
+        data: branches.map((b: BranchComparisonData) => shortName(b)).reverse(),
         axisLabel: { fontSize: 10 },
       },
       series: [
@@ -259,7 +274,7 @@ export default function ComparisonPage() {
             .map((b: BranchComparisonData, i: number) => ({
               value: b.inventoryTurnover,
               itemStyle: {
-                color: BRANCH_PALETTE[(branches.length - 1 - i) % BRANCH_PALETTE.length].hex,
+                color: branchHex(b, branches.length - 1 - i),
                 borderRadius: [0, 4, 4, 0],
               },
             })),
@@ -289,14 +304,14 @@ export default function ComparisonPage() {
         {
           type: 'radar',
           data: branches.map((b: BranchComparisonData, i: number) => ({
-            name: shortName(b.branchName),
+            name: shortName(b),
             value: [b.uniqueCustomers, b.repeatCustomerRate, b.totalTransactions],
-            lineStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+            lineStyle: { color: branchHex(b, i) },
             areaStyle: {
-              color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex,
+              color: branchHex(b, i),
               opacity: 0.15,
             },
-            itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+            itemStyle: { color: branchHex(b, i) },
           })),
         },
       ],
@@ -316,7 +331,7 @@ export default function ComparisonPage() {
       xAxis: { type: 'category', data: months, axisLabel: { fontSize: 10 } },
       yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
       series: branches.map((b: BranchComparisonData, i: number) => ({
-        name: shortName(b.branchName),
+        name: shortName(b),
         type: 'line',
         smooth: true,
         data: months.map((m: string) => {
@@ -324,7 +339,7 @@ export default function ComparisonPage() {
           return found ? found.sales : 0;
         }),
         lineStyle: { width: 2.5 },
-        itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+        itemStyle: { color: branchHex(b, i) },
         symbol: 'circle',
         symbolSize: 6,
       })),
@@ -338,9 +353,9 @@ export default function ComparisonPage() {
       b.topProducts.slice(0, 2).forEach((p: any) => {
         products.push({
           name: p.productName.substring(0, 20),
-          branch: shortName(b.branchName),
+          branch: shortName(b),
           sales: p.sales,
-          color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex,
+          color: branchHex(b, i),
         });
       });
     });
@@ -61,8 +61,8 @@ function SectionHeader({ icon, title, desc }: { icon: React.ReactNode; title: st
   );
 }
 
-function BranchDot({ idx }: { idx: number }) {
-  return <div className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', BRANCH_PALETTE[idx % BRANCH_PALETTE.length].light)} />;
+function BranchDot({ color }: { color: string }) {
+  return <div className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />;
 }
 
 /* ═══════════════════════════════════════════════
@@ -199,7 +199,17 @@ export default function InventoryComparisonPage() {
       maximumFractionDigits: 2 
     });
   };
-  const shortName = (name: string) => name.replace(/บริษัท\s*|จำกัด/g, '').trim().substring(0, 25);
+  /* ─── Branch registry helpers (colour / short name, palette as fallback) ─── */
+  const branchHex = useCallback(
+    (key: string, idx: number) =>
+      availableBranches.find(b => b.key === key)?.color || BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex,
+    [availableBranches]
+  );
+  const shortName = useCallback(
+    (d: { branchKey: string; branchName: string }) =>
+      (availableBranches.find(b => b.key === d.branchKey)?.shortName || d.branchName.replace(/บริษัท\s*|จำกัด/g, '').trim()).substring(0, 25),
+    [availableBranches]
+  );
 
   /* ─── Computed totals ─── */
   const totals = useMemo(() => ({
@@ -235,36 +245,36 @@ export default function InventoryComparisonPage() {
     },
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     grid: { top: 30, right: 20, bottom: 50, left: 60, containLabel: true },
-    xAxis: { type: 'category', data: data.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+    xAxis: { type: 'category', data: data.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
     yAxis: { type: 'value', axisLabel: { formatter: (v: number) => fmtShort(v) } },
     series: [
       { name: 'มูลค่าสต็อก', type: 'bar', data: data.map(b => b.totalValue), itemStyle: { color: '#6366f1', borderRadius: [4, 4, 0, 0] } },
       { name: 'Dead Stock', type: 'bar', data: data.map(b => b.deadStockValue), itemStyle: { color: '#ef4444', borderRadius: [4, 4, 0, 0] } },
     ],
-  }), [data]);
+  }), [data, shortName]);
 
   /* 2. Turnover Rate Comparison - Horizontal Bar */
   const turnoverChart = useMemo(() => ({
     tooltip: { trigger: 'axis', formatter: (params: any) => `${params[0].name}: ${params[0].value.toFixed(2)}x` },
     grid: { top: 10, right: 40, bottom: 20, left: 10, containLabel: true },
     xAxis: { type: 'value', axisLabel: { formatter: '{value}x' } },
-    yAxis: { type: 'category', data: [...data].reverse().map(b => shortName(b.branchName)), axisLabel: { fontSize: 10 } },
+    yAxis: { type: 'category', data: [...data].reverse().map(b => shortName(b)), axisLabel: { fontSize: 10 } },
     series: [{
       type: 'bar',
       data: [...data].reverse().map((b, i) => ({
         value: b.turnoverRate,
-        itemStyle: { color: BRANCH_PALETTE[(data.length - 1 - i) % BRANCH_PALETTE.length].hex, borderRadius: [0, 4, 4, 0] },
+        itemStyle: { color: branchHex(b.branchKey, data.length - 1 - i), borderRadius: [0, 4, 4, 0] },
       })),
       barWidth: '60%',
     }],
-  }), [data]);
+  }), [data, branchHex, shortName]);
 
   /* 3. Stock Aging Analysis - Stacked Bar */
   const agingChart = useMemo(() => ({
     tooltip: { trigger: 'axis', axisPointer: { type: 'shadow' } },
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     grid: { top: 30, right: 20, bottom: 50, left: 60, containLabel: true },
-    xAxis: { type: 'category', data: data.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+    xAxis: { type: 'category', data: data.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
     yAxis: { type: 'value', axisLabel: { formatter: (v: number) => fmtShort(v) } },
     series: [
       { name: '0-30 วัน', type: 'bar', stack: 'age', data: data.map(b => b.aging0to30), itemStyle: { color: '#10b981' } },
@@ -272,7 +282,7 @@ export default function InventoryComparisonPage() {
       { name: '61-90 วัน', type: 'bar', stack: 'age', data: data.map(b => b.aging61to90), itemStyle: { color: '#f97316' } },
       { name: '90+ วัน', type: 'bar', stack: 'age', data: data.map(b => b.aging90plus), itemStyle: { color: '#ef4444' } },
     ],
-  }), [data]);
+  }), [data, shortName]);
 
   /* 4. Dead Stock % - Donut Chart */
   const deadStockChart = useMemo(() => ({
@@ -286,12 +296,12 @@ export default function InventoryComparisonPage() {
       itemStyle: { borderRadius: 6, borderColor: '#fff', borderWidth: 2 },
       label: { show: false },
       data: data.map((b, i) => ({
-        name: shortName(b.branchName),
+        name: shortName(b),
         value: b.deadStockPercent,
-        itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+        itemStyle: { color: branchHex(b.branchKey, i) },
       })),
     }],
-  }), [data]);
+  }), [data, branchHex, shortName]);
 
   /* 5. Top Products Comparison */
   const topProductsChart = useMemo(() => {
@@ -300,9 +310,9 @@ export default function InventoryComparisonPage() {
       b.topProducts.slice(0, 3).forEach(p => {
         products.push({
           name: (p.itemName || '').substring(0, 20),
-          branch: shortName(b.branchName),
+          branch: shortName(b),
           sales: p.totalSales || 0,
-          color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex,
+          color: branchHex(b.branchKey, i),
         });
       });
     });
@@ -320,14 +330,14 @@ export default function InventoryComparisonPage() {
         barWidth: '60%',
       }],
     };
-  }, [data]);
+  }, [data, branchHex, shortName]);
 
   /* 6. Stock Coverage Days - Radar */
   const coverageRadarChart = useMemo(() => ({
     tooltip: {},
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     radar: {
-      indicator: data.map(b => ({ name: shortName(b.branchName), max: 180 })),
+      indicator: data.map(b => ({ name: shortName(b), max: 180 })),
       radius: '65%',
     },
     series: [{
@@ -340,7 +350,7 @@ export default function InventoryComparisonPage() {
         itemStyle: { color: '#6366f1' },
       }],
     }],
-  }), [data]);
+  }), [data, shortName]);
 
   // Framer motion variants
   const containerVariants = {
@@ -479,7 +489,7 @@ export default function InventoryComparisonPage() {
                       <tr key={branch.branchKey} className="border-t hover:bg-muted/20 transition-colors">
                         <td className="px-4 py-3 text-center">{idx < 3 ? medals[idx] : idx + 1}</td>
                         <td className="px-4 py-3 font-medium flex items-center gap-2">
-                          <BranchDot idx={data.findIndex(d => d.branchKey === branch.branchKey)} />
+                          <BranchDot color={branchHex(branch.branchKey, data.findIndex(d => d.branchKey === branch.branchKey))} />
                           {branch.branchName}
                         </td>
                         <td className="px-4 py-3 text-right font-semibold">{fmtShort(branch.totalValue)}</td>
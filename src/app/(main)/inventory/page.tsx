@@ -1,9 +1,10 @@
 'use client';
 
+import { useState } from 'react';
 import { useDateRangeStore } from '@/store/useDateRangeStore';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
-import { useBranchStore } from '@/store/useBranchStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
 import { KPICard } from '@/components/KPICard';
 import { DataCard } from '@/components/DataCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
@@ -15,6 +16,27 @@ import { OverstockTable } from '@/components/inventory/OverstockTable';
 import { SlowMovingTable } from '@/components/inventory/SlowMovingTable';
 import { InventoryTurnoverChart } from '@/components/inventory/InventoryTurnoverChart';
 import { StockByBranchChart } from '@/components/inventory/StockByBranchChart';
+import { AbcXyzMatrix } from '@/components/inventory/AbcXyzMatrix';
+import { ClassificationTable } from '@/components/inventory/ClassificationTable';
+import { requestJson } from '@/lib/api-client';
+import { exportStyledReport } from '@/lib/exportExcel';
+import {
+  CLASSIFICATION_CURRENCY_COLUMNS,
+  CLASSIFICATION_HEADERS,
+  CLASSIFICATION_NUMBER_COLUMNS,
+  EMPTY_CLASS_FILTER,
+  classificationRows,
+  filterByClass,
+  isClassFilterActive,
+  matchesClassFilter,
+} from '@/lib/inventory/classification';
+import {
+  CLASSIFICATION_METRICS,
+  type ClassFilter,
+  type ClassificationMetric,
+  type InventoryClassification,
+} from '@/lib/inventory/types';
+import { getItemSalesDemandQuery } from '@/lib/data/inventory-classification-queries';
 import { Package, AlertTriangle, AlertCircle, TrendingDown } from 'lucide-react';
 import { getDateRange } from '@/lib/dateRanges';
 import type { DateRange, InventoryKPIs, StockMovement, LowStockItem, OverstockItem, SlowMovingItem, InventoryTurnover, StockByBranch } from '@/lib/data/types';
@@ -34,6 +56,9 @@ import {
 export default function InventoryPage() {
   const { dateRange, setDateRange } = useDateRangeStore();
   const selectedBranches = useBranchStore((s) => s.selectedBranches);
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const [metric, setMetric] = useState<ClassificationMetric>('sales');
+  const [classFilter, setClassFilter] = useState<ClassFilter>(EMPTY_CLASS_FILTER);
 
   const { data, isLoading: loading, error: queryError, refetch } = useQuery({
     queryKey: ['inventoryData', dateRange, selectedBranches],
@@ -98,15 +123,47 @@ export default function InventoryPage() {
     }
   });
 
+  const { data: classification, isLoading: classificationLoading, error: classificationError } = useQuery({
+    queryKey: ['inventoryClassification', dateRange, metric, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ start_date: dateRange.start, end_date: dateRange.end, metric });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<InventoryClassification>(`/api/inventory/classification?${params}`);
+    },
+  });
+
   const error = queryError instanceof Error ? queryError.message : queryError ? 'เกิดข้อผิดพลาดในการโหลดข้อมูล' : null;
   const kpis = data?.kpis;
   const stockMovement = data?.stockMovement || [];
   const lowStockItems = data?.lowStockItems || [];
-  const overstockItems = data?.overstockItems || [];
-  const slowMovingItems = data?.slowMovingItems || [];
+  const overstockItems = filterByClass(data?.overstockItems || [], classification, classFilter);
+  const slowMovingItems = filterByClass(data?.slowMovingItems || [], classification, classFilter);
   const inventoryTurnover = data?.inventoryTurnover || [];
   const stockByBranch = data?.stockByBranch || [];
 
+  const classFilterNote = isClassFilterActive(classFilter)
+    ? ` · เฉพาะกลุ่ม ${classFilter.abcClass ?? 'ABC'}/${classFilter.xyzClass ?? 'XYZ'}`
+    : '';
+
+  const handleExportClassification = () => {
+    if (!classification) return;
+    const metricLabel = CLASSIFICATION_METRICS.find((m) => m.key === metric)?.label;
+    exportStyledReport({
+      data: classificationRows(classification.items.filter((item) => matchesClassFilter(item, classFilter))),
+      headers: CLASSIFICATION_HEADERS,
+      filename: 'จัดกลุ่มสินค้า_ABC_XYZ',
+      sheetName: 'ABC-XYZ',
+      title: 'จัดกลุ่มสินค้า ABC/XYZ',
+      subtitle: `กิจการ: ${formatSelectedBranchNames(selectedBranches, availableBranches)} | ${dateRange.start} ถึง ${dateRange.end} | ABC ตาม${metricLabel}${classFilterNote}`,
+      branch: getReportBranch(selectedBranches, availableBranches),
+      numberColumns: CLASSIFICATION_NUMBER_COLUMNS,
+      currencyColumns: CLASSIFICATION_CURRENCY_COLUMNS,
+      summaryConfig: { columns: { salesValue: 'sum', grossProfit: 'sum', totalOut: 'sum' } },
+    });
+  };
+
   // Framer motion variants
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -172,13 +229,13 @@ export default function InventoryPage() {
             value={formatCurrency(kpis.totalInventoryValue.value)}
             icon={Package}
             detailTitle="รายละเอียดมูลค่าสินค้าคงคลัง"
-            detailNote="แสดงมูลค่ารวมของสินค้าคงคลังตามช่วงเวลาที่เลือก"
+            detailNote="มูลค่าสินค้าคงเหลือ ณ สิ้นวันสุดท้ายของช่วง จากความเคลื่อนไหวทั้งหมดจนถึงวันนั้น"
             detailItems={[
-              { label: 'ช่วงวันที่', value: `${dateRange.start} ถึง ${dateRange.end}` },
+              { label: 'ณ วันที่', value: dateRange.end },
               { label: 'สถานะภาพรวม', value: 'ใช้ติดตามมูลค่าคงเหลือของคลัง' },
             ]}
             queryInfo={{
-              query: getInventoryValueQuery(dateRange),
+              query: getInventoryValueQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           />
@@ -187,13 +244,13 @@ export default function InventoryPage() {
             value={formatNumber(kpis.totalItemsInStock.value)}
             icon={Package}
             detailTitle="รายละเอียดจำนวนรายการสินค้า"
-            detailNote="จำนวนรายการสินค้าที่มีอยู่ในคลังปัจจุบัน"
+            detailNote="จำนวนรายการสินค้าที่มีของคงเหลือ ณ สิ้นวันสุดท้ายของช่วง"
             detailItems={[
-              { label: 'ช่วงวันที่', value: `${dateRange.start} ถึง ${dateRange.end}` },
+              { label: 'ณ วันที่', value: dateRange.end },
               { label: 'การใช้งาน', value: 'ใช้ตรวจความครอบคลุมของ SKU ในคลัง' },
             ]}
             queryInfo={{
-              query: getTotalItemsQuery(dateRange),
+              query: getTotalItemsQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           />
@@ -210,7 +267,7 @@ export default function InventoryPage() {
               { label: 'ความเร่งด่วน', value: kpis.lowStockAlerts.value > 0 ? 'ควรวางแผนสั่งซื้อ' : 'ปกติ' },
             ]}
             queryInfo={{
-              query: getLowStockCountQuery(dateRange),
+              query: getLowStockCountQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           />
@@ -227,7 +284,7 @@ export default function InventoryPage() {
               { label: 'ความเสี่ยง', value: kpis.overstockAlerts.value > 0 ? 'ต้นทุนจมสูงขึ้น' : 'ปกติ' },
             ]}
             queryInfo={{
-              query: getOverstockCountQuery(dateRange),
+              query: getOverstockCountQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           />
@@ -242,7 +299,7 @@ export default function InventoryPage() {
           description="จำนวนสินค้าซื้อเข้าและขายออกรายวัน"
           linkTo="/reports/inventory#stock-movement"
           queryInfo={{
-            query: getStockMovementQuery(dateRange),
+            query: getStockMovementQuery(dateRange, selectedBranches),
             format: 'JSONEachRow',
           }}
         >
@@ -255,6 +312,47 @@ export default function InventoryPage() {
       </ErrorBoundary>
       </motion.div>
 
+      {/* ABC/XYZ Classification */}
+      <motion.div variants={itemVariants}>
+      <ErrorBoundary>
+        <DataCard
+          id="abc-xyz"
+          title="จัดกลุ่มสินค้า ABC/XYZ"
+          description={`ABC ตามสัดส่วนสะสม (A ≤ 80%, B ≤ 95%) · XYZ ตาม CV ของยอดจ่ายรายสัปดาห์${classification ? ` (${classification.weeks} สัปดาห์)` : ''} · กดที่ช่องเพื่อกรองตารางด้านล่าง`}
+          queryInfo={{
+            query: getItemSalesDemandQuery(dateRange, selectedBranches),
+            format: 'JSONEachRow',
+          }}
+          headerExtra={
+            <div className="inline-flex rounded-md border border-border overflow-hidden">
+              {CLASSIFICATION_METRICS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setMetric(key)}
+                  className={`px-3 py-2 text-sm ${metric === key ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          }
+          onExportExcel={handleExportClassification}
+        >
+          {classificationError ? (
+            <ErrorDisplay error={classificationError} />
+          ) : classificationLoading || !classification ? (
+            <TableSkeleton rows={10} />
+          ) : (
+            <div className="grid gap-6 grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+              <AbcXyzMatrix matrix={classification.matrix} metric={metric} filter={classFilter} onSelect={setClassFilter} />
+              <ClassificationTable items={classification.items} filter={classFilter} onFilterChange={setClassFilter} />
+            </div>
+          )}
+        </DataCard>
+      </ErrorBoundary>
+      </motion.div>
+
       {/* Low Stock & Overstock */}
       <motion.div variants={itemVariants} >
        {/* <ErrorBoundary>
@@ -264,7 +362,7 @@ export default function InventoryPage() {
             description="รายการสินค้าที่คงเหลือใช้งานได้ ≤ 7 วัน (อิงสถิติช่วงเวลาที่เลือก)"
             linkTo="/reports/inventory#low-stock"
             queryInfo={{
-              query: getLowStockItemsQuery(dateRange),
+              query: getLowStockItemsQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           >
@@ -280,10 +378,10 @@ export default function InventoryPage() {
           <DataCard
             className="h-full"
             title="สินค้าาไม่เคลื่อนไหว"
-            description="รายการสินค้าที่ไม่ได้ขายมานานกว่า > 90 วัน (อิงสถิติช่วงเวลาที่เลือก)"
+            description={`รายการสินค้าที่ไม่ได้ขายมานานกว่า > 90 วัน (อิงสถิติช่วงเวลาที่เลือก)${classFilterNote}`}
             linkTo="/reports/inventory#overstock"
             queryInfo={{
-              query: getOverstockItemsQuery(dateRange),
+              query: getOverstockItemsQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           >
@@ -301,10 +399,10 @@ export default function InventoryPage() {
       <ErrorBoundary>
         <DataCard
           title="สินค้าหมุนเวียนช้า"
-          description="รายการสินค้าที่มีสต็อกคงค้างนานกว่า 90 วัน"
+          description={`รายการสินค้าที่มีสต็อกคงค้างนานกว่า 90 วัน${classFilterNote}`}
           linkTo="/reports/inventory#slow-moving"
           queryInfo={{
-            query: getSlowMovingItemsQuery(dateRange),
+            query: getSlowMovingItemsQuery(dateRange, selectedBranches),
             format: 'JSONEachRow',
           }}
         >
@@ -326,7 +424,7 @@ export default function InventoryPage() {
             description="การหมุนเวียนและวันขายหมดตามหมวดสินค้า"
             linkTo="/reports/inventory#turnover"
             queryInfo={{
-              query: getInventoryTurnoverQuery(dateRange),
+              query: getInventoryTurnoverQuery(dateRange, selectedBranches),
               format: 'JSONEachRow',
             }}
           >
@@ -342,10 +440,10 @@ export default function InventoryPage() {
           <DataCard
             className="h-full"
             title="สต็อกแยกตามสาขา"
-            description="มูลค่าและจำนวนรายการสินค้าในแต่ละสาขา"
+            description={`มูลค่าและจำนวนรายการสินค้าคงเหลือในแต่ละคลัง ณ วันที่ ${dateRange.end}`}
             linkTo="/reports/inventory#by-branch"
             queryInfo={{
-              query: getStockByBranchQuery(dateRange),
+              query: getStockByBranchQuery(dateRange.end, selectedBranches),
               format: 'JSONEachRow',
             }}
           >
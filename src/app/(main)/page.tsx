@@ -14,6 +14,7 @@ import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { DollarSign, ShoppingCart, Users, Package } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
 import { useBranchStore } from '@/store/useBranchStore';
+import { useAlertFeed } from '@/hooks/useAlerts';
 import { getDateRange } from '@/lib/dateRanges';
 import type { DateRange } from '@/lib/data/types';
 import { suggestComparisonType, getComparisonLabel } from '@/lib/comparison';
@@ -95,6 +96,9 @@ export default function Dashboard() {
     },
   });
 
+  // การแจ้งเตือนที่ยังไม่รับทราบ (จากกฎแจ้งเตือน ไม่ขึ้นกับกิจการ/ช่วงวันที่ที่เลือก)
+  const { data: openAlerts } = useAlertFeed('open', 5);
+
   // ดึงรายการขายทั้งหมด (เอาตามวันที่ที่ filter) — ทำงานเมื่อ showAll = true
   const { data: allSalesData, isFetching: allSalesLoading } = useQuery({
     queryKey: ['dashboardAllSales', dateRange, selectedBranches],
@@ -379,7 +383,7 @@ export default function Dashboard() {
                 </DataCard>
               </div>
               <div>
-                <AlertsCard alerts={data?.alerts || []} />
+                <AlertsCard alerts={openAlerts?.events || []} />
               </div>
             </>
           )}
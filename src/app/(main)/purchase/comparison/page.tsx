@@ -75,8 +75,8 @@ function SectionHeader({ icon, title, desc }: { icon: React.ReactNode; title: st
   );
 }
 
-function BranchDot({ idx }: { idx: number }) {
-  return <div className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', BRANCH_PALETTE[idx % BRANCH_PALETTE.length].light)} />;
+function BranchDot({ color }: { color: string }) {
+  return <div className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />;
 }
 
 /* ═══════════════════════════════════════════════
@@ -203,7 +203,11 @@ export default function PurchaseComparisonPage() {
       maximumFractionDigits: 2 
     });
   };
-  const shortName = (name: string) => name.replace(/บริษัท\s*|จำกัด/g, '').trim().substring(0, 25);
+  /* ─── Branch registry helpers (colour / short name, palette as fallback) ─── */
+  const branchHex = (key: string, idx: number) =>
+    availableBranches.find(b => b.key === key)?.color || BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex;
+  const shortName = (d: { branchKey: string; branchName: string }) =>
+    (availableBranches.find(b => b.key === d.branchKey)?.shortName || d.branchName.replace(/บริษัท\s*|จำกัด/g, '').trim()).substring(0, 25);
 
   /* ─── Computed: totals ─── */
   const totals = useMemo(() => ({
@@ -318,7 +322,7 @@ export default function PurchaseComparisonPage() {
                         <td className="py-3 pl-6 pr-4">
                           {RankIcon ? <RankIcon className={cn('h-5 w-5', rankColors[idx])} /> : <span className="text-muted-foreground font-medium">{idx + 1}</span>}
                         </td>
-                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot idx={idx} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
+                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
                         <td className="py-3 px-4 text-right font-bold text-indigo-600">{fmtShort(d.totalPurchaseValue)} <GrowthBadge value={d.kpis?.totalPurchases?.growthPercentage} /></td>
                         <td className="py-3 px-4 text-right font-medium">{fmtNum(d.poCount)}</td>
                         <td className="py-3 px-4 text-right font-medium">{fmtShort(d.avgPOValue)}</td>
@@ -401,7 +405,7 @@ export default function PurchaseComparisonPage() {
                   grid: { top: 16, right: 16, bottom: 40, left: 16, containLabel: true },
                   xAxis: {
                     type: 'category' as const,
-                    data: rankedData.map(d => shortName(d.branchName)),
+                    data: rankedData.map(d => shortName(d)),
                     axisLine: { show: false },
                     axisTick: { show: false },
                     axisLabel: { color: '#475569', fontSize: 11, rotate: 15, fontWeight: 500 },
@@ -418,7 +422,7 @@ export default function PurchaseComparisonPage() {
                     type: 'bar' as const,
                     data: rankedData.map((d, i) => ({
                       value: d.totalPurchaseValue,
-                      itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex, borderRadius: [4, 4, 0, 0] },
+                      itemStyle: { color: branchHex(d.branchKey, i), borderRadius: [4, 4, 0, 0] },
                     })),
                     barMaxWidth: 48,
                   }],
@@ -453,7 +457,7 @@ export default function PurchaseComparisonPage() {
                     grid: { top: 16, right: 50, bottom: 40, left: 50, containLabel: true },
                     xAxis: {
                       type: 'category' as const,
-                      data: rankedData.map(d => shortName(d.branchName)),
+                      data: rankedData.map(d => shortName(d)),
                       axisLabel: { color: '#475569', fontSize: 10, rotate: 15 },
                     },
                     yAxis: [
@@ -525,9 +529,9 @@ export default function PurchaseComparisonPage() {
                       itemStyle: { borderRadius: 6, borderColor: '#fff', borderWidth: 2 },
                       label: { show: false },
                       data: rankedData.map((d, i) => ({
-                        name: shortName(d.branchName),
+                        name: shortName(d),
                         value: d.supplierCount,
-                        itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+                        itemStyle: { color: branchHex(d.branchKey, i) },
                       })),
                     }],
                   };
@@ -567,7 +571,7 @@ export default function PurchaseComparisonPage() {
                     grid: { top: 16, right: 16, bottom: 40, left: 16, containLabel: true },
                     xAxis: {
                       type: 'category' as const,
-                      data: rankedData.map(d => shortName(d.branchName)),
+                      data: rankedData.map(d => shortName(d)),
                       axisLabel: { color: '#475569', fontSize: 10, rotate: 15 },
                     },
                     yAxis: {
@@ -634,7 +638,7 @@ export default function PurchaseComparisonPage() {
                       splitLine: { lineStyle: { color: '#f1f5f9' } },
                     },
                     series: rankedData.map((d, i) => ({
-                      name: shortName(d.branchName),
+                      name: shortName(d),
                       type: 'line' as const,
                       smooth: true,
                       data: months.map(m => {
@@ -642,7 +646,7 @@ export default function PurchaseComparisonPage() {
                         return found ? found.totalPurchases : 0;
                       }),
                       lineStyle: { width: 2.5 },
-                      itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+                      itemStyle: { color: branchHex(d.branchKey, i) },
                       symbol: 'circle',
                       symbolSize: 6,
                     })),
@@ -438,6 +438,8 @@ export default function PurchasePage() {
             value={formatCurrency(kpis.totalPurchases.value)}
             trend={formatGrowthPercentage(kpis.totalPurchases.growthPercentage || 0)}
             trendUp={kpis.totalPurchases.trend === 'down'} // Down is good for purchases (cost reduction)
+            budget={kpis.totalPurchases.budget}
+            budgetLowerIsBetter
             icon={ShoppingBag}
             detailTitle="รายละเอียดยอดซื้อรวม"
             detailNote="ใช้ประเมินภาพรวมต้นทุนการจัดซื้อในช่วงเวลาที่เลือก"
@@ -455,7 +457,7 @@ export default function PurchasePage() {
               />
             }
             queryInfo={{
-              query: getTotalPurchasesQuery(dateRange),
+              query: getTotalPurchasesQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -481,7 +483,7 @@ export default function PurchasePage() {
               />
             }
             queryInfo={{
-              query: getTotalItemsPurchasedQuery(dateRange),
+              query: getTotalItemsPurchasedQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -507,7 +509,7 @@ export default function PurchasePage() {
               />
             }
             queryInfo={{
-              query: getTotalOrdersQuery(dateRange),
+              query: getTotalOrdersQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -533,7 +535,7 @@ export default function PurchasePage() {
               />
             }
             queryInfo={{
-              query: getAvgOrderValueQuery(dateRange),
+              query: getAvgOrderValueQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           />
@@ -548,7 +550,7 @@ export default function PurchasePage() {
           description="ยอดซื้อและจำนวนออเดอร์รายวัน"
           linkTo="/reports/purchase#trend"
           queryInfo={{
-            query: getPurchaseTrendQuery(dateRange),
+            query: getPurchaseTrendQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           }}
         >
@@ -572,7 +574,7 @@ export default function PurchasePage() {
             description="รายการซัพพลายเออร์ที่มียอดซื้อสูงสุด"
             linkTo="/reports/purchase#top-suppliers"
             queryInfo={{
-              query: getTopSuppliersQuery(dateRange),
+              query: getTopSuppliersQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -625,7 +627,7 @@ export default function PurchasePage() {
             description="สัดส่วนค่าใช้จ่ายแยกตามผังบัญชี (account_type = EXPENSES)"
             linkTo="/reports/purchase#by-category"
             queryInfo={{
-              query: getPurchaseByCategorySummaryQuery(dateRange, 'EXPENSES'),
+              query: getPurchaseByCategorySummaryQuery(dateRange, 'EXPENSES', selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -659,7 +661,7 @@ export default function PurchasePage() {
             description="สัดส่วนมูลค่าสินค้าคงคลังแยกตามผังบัญชี (account_type = ASSETS)"
             linkTo="/reports/purchase#by-asset"
             queryInfo={{
-              query: getPurchaseByCategorySummaryQuery(dateRange, 'ASSETS'),
+              query: getPurchaseByCategorySummaryQuery(dateRange, 'ASSETS', selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -689,7 +691,7 @@ export default function PurchasePage() {
             description="Top 10 แบรนด์ที่ซื้อมากที่สุด"
             linkTo="/reports/purchase#by-brand"
             queryInfo={{
-              query: getPurchaseByBrandQuery(dateRange),
+              query: getPurchaseByBrandQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -710,7 +712,7 @@ export default function PurchasePage() {
           description="รายการสินค้าทั้งหมดในแต่ละผังบัญชี"
           linkTo="/reports/purchase?report=expense-by-account"
           queryInfo={{
-            query: getPurchaseItemsByAccountQuery(dateRange, selectedAccount),
+            query: getPurchaseItemsByAccountQuery(dateRange, selectedAccount, selectedBranches),
             format: 'JSONEachRow'
           }}
           headerExtra={
@@ -763,7 +765,7 @@ export default function PurchasePage() {
           description="ซัพพลายเออร์ที่มียอดค้างชำระสูงสุด"
           linkTo="/reports/purchase#ap-outstanding"
           queryInfo={{
-            query: getAPOutstandingQuery(dateRange),
+            query: getAPOutstandingQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           }}
         >
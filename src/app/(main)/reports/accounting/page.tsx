@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import { useDateRangeStore } from '@/store/useDateRangeStore';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
-import { formatSelectedBranchNames, useBranchStore } from '@/store/useBranchStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
 import { DataCard } from '@/components/DataCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
@@ -14,6 +14,11 @@ import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
 import { SearchableSelect } from '@/components/ui/SearchableSelect';
 import { ReportTypeSelector, type ReportOption } from '@/components/ReportTypeSelector';
 import { ProfitLossDetailTable, type PLDetailRow } from '@/components/accounting/ProfitLossDetailTable';
+import { CashFlowStatementTable } from '@/components/accounting/CashFlowStatementTable';
+import { BalanceSheetCheck } from '@/components/accounting/BalanceSheetCheck';
+import { TrialBalanceTable } from '@/components/accounting/TrialBalanceTable';
+import { GeneralLedgerTable } from '@/components/accounting/GeneralLedgerTable';
+import { StatementLayoutTable } from '@/components/accounting/StatementLayoutTable';
 import {
   TrendingDown,
   Scale,
@@ -22,16 +27,31 @@ import {
   Users,
   PieChart,
   BookOpen,
+  ListChecks,
 } from 'lucide-react';
 import { exportStyledReport } from '@/lib/exportExcel';
 import { exportStyledPdfReport } from '@/lib/exportPdf';
 import { formatCurrency, formatDate, formatMonth, formatNumber } from '@/lib/formatters';
 import { useReportHash } from '@/hooks/useReportHash';
+import { requestJson } from '@/lib/api-client';
+import { cashFlowStatementRows } from '@/lib/cash-flow/statement';
+import type { CashFlowStatement } from '@/lib/cash-flow/types';
+import { statementReportTable } from '@/lib/statements/statement';
+import {
+  STATEMENT_LAYOUTS,
+  STATEMENT_LAYOUT_PRESETS,
+  isStatementLayout,
+  type Statement,
+  type StatementAmountColumn,
+  type StatementKind,
+  type StatementLayoutPreset,
+} from '@/lib/statements/types';
 import type {
   DateRange,
   ProfitLossData,
   BalanceSheetItem,
-  CashFlowData,
+  BalanceSheetData,
+  TrialBalanceItem,
   AgingItem,
   CategoryBreakdown,
   ChartOfAccountItem,
@@ -40,6 +60,9 @@ import type {
 import {
   getProfitLossQuery,
   getBalanceSheetQuery,
+  getTrialBalanceQuery,
+  getStatementMovementsQuery,
+  getStatementBalancesQuery,
   getCashFlowQuery,
   getARAgingQuery,
   getAPAgingQuery,
@@ -52,6 +75,7 @@ import {
 type ReportType =
   | 'profit-loss'
   | 'balance-sheet'
+  | 'trial-balance'
   | 'cash-flow'
   | 'ar-aging'
   | 'ap-aging'
@@ -70,13 +94,19 @@ const reportOptions: ReportOption<ReportType>[] = [
     value: 'balance-sheet',
     label: 'งบดุล',
     icon: Scale,
-    description: 'รายการสินทรัพย์ หนี้สิน และส่วนของผู้ถือหุ้น',
+    description: 'ยอดสะสมของสินทรัพย์ หนี้สิน และส่วนของผู้ถือหุ้น ณ วันสิ้นสุดช่วง พร้อมตรวจสมการงบดุล',
+  },
+  {
+    value: 'trial-balance',
+    label: 'งบทดลอง',
+    icon: ListChecks,
+    description: 'ยอดยกมา เดบิต เครดิต และยอดคงเหลือต่อบัญชี กดที่บัญชีเพื่อดูบัญชีแยกประเภท',
   },
   {
     value: 'cash-flow',
     label: 'งบกระแสเงินสด',
     icon: Droplets,
-    description: 'กระแสเงินสดจากกิจกรรมต่างๆ',
+    description: 'วิธีทางอ้อม: กำไรสุทธิ ปรับเงินทุนหมุนเวียน ลงทุน จัดหาเงิน และกระทบยอดเงินสด',
   },
   {
     value: 'ar-aging',
@@ -123,6 +153,7 @@ function AccountingReportContent() {
   const selectedBranches = useBranchStore((s) => s.selectedBranches);
   const availableBranches = useBranchStore((s) => s.availableBranches);
   const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
   const withBranchSubtitle = (detail: string) => `กิจการ: ${selectedBranchLabel} | ${detail}`;
 
   // Balance sheet filter - initialize from URL params
@@ -135,12 +166,23 @@ function AccountingReportContent() {
     return searchParams.get('accountCode') || '';
   });
 
+  /** บัญชีที่เปิดดูบัญชีแยกประเภทจากงบทดลอง */
+  const [ledgerAccountCode, setLedgerAccountCode] = useState('');
+
   const [plViewMode, setPlViewMode] = useState<'normal' | 'comparison'>('normal');
   const [plPeriodType, setPlPeriodType] = useState<'monthly' | 'quarterly' | 'yearly'>('monthly');
   const [plSelectedPeriods, setPlSelectedPeriods] = useState<string[]>([]);
   const [plCompareA, setPlCompareA] = useState<string>('');
   const [plCompareB, setPlCompareB] = useState<string>('');
 
+  /** รูปแบบคอลัมน์ของงบกำไรขาดทุน/งบดุล ('' = ตารางมาตรฐาน) */
+  const [statementLayout, setStatementLayout] = useState<StatementLayoutPreset | ''>('');
+  const statementKind: StatementKind | null =
+    selectedReport === 'profit-loss' || selectedReport === 'balance-sheet' ? selectedReport : null;
+  const activeLayout = statementKind && statementLayout && isStatementLayout(statementKind, statementLayout)
+    ? statementLayout
+    : null;
+
   // Reset selected account code when switching away from revenue-breakdown / expense-breakdown / chart-of-accounts or when filters change
   useEffect(() => {
     if (selectedReport !== 'chart-of-accounts' && selectedReport !== 'revenue-breakdown' && selectedReport !== 'expense-breakdown') {
@@ -165,7 +207,7 @@ function AccountingReportContent() {
   }, [searchParams]);
 
   // Handle URL hash for report selection
-  useReportHash(reportOptions, setSelectedReport);
+  useReportHash(reportOptions, setSelectedReport, selectedReport);
 
   const { data: reportData, isLoading: loading, error: queryError, refetch } = useQuery({
     queryKey: ['accountingReportData', selectedReport, dateRange, selectedBranches],
@@ -187,6 +229,9 @@ function AccountingReportContent() {
         case 'balance-sheet':
           endpoint = `/api/accounting/balance-sheet?${params}`;
           break;
+        case 'trial-balance':
+          endpoint = `/api/accounting/trial-balance?${params}`;
+          break;
         case 'cash-flow':
           endpoint = `/api/accounting/cash-flow?${params}`;
           break;
@@ -216,8 +261,13 @@ function AccountingReportContent() {
   const error = queryError instanceof Error ? queryError.message : queryError ? 'เกิดข้อผิดพลาดในการโหลดข้อมูล' : null;
 
   const profitLossData: ProfitLossData[] = selectedReport === 'profit-loss' ? (reportData || []) : [];
-  const balanceSheetData: BalanceSheetItem[] = selectedReport === 'balance-sheet' ? (reportData || []) : [];
-  const cashFlowData: CashFlowData[] = selectedReport === 'cash-flow' ? (reportData || []) : [];
+  const balanceSheet: BalanceSheetData | null = selectedReport === 'balance-sheet' ? (reportData ?? null) : null;
+  const balanceSheetData: BalanceSheetItem[] = balanceSheet?.items || [];
+  const trialBalanceData: TrialBalanceItem[] = selectedReport === 'trial-balance' ? (reportData || []) : [];
+  const cashFlowData: CashFlowStatement | null = selectedReport === 'cash-flow' ? (reportData ?? null) : null;
+  const cashFlowExportRows = cashFlowData
+    ? cashFlowStatementRows(cashFlowData).map((row) => ({ label: row.label, amount: row.amount }))
+    : [];
   const arAgingData: AgingItem[] = selectedReport === 'ar-aging' ? (reportData || []) : [];
   const apAgingData: AgingItem[] = selectedReport === 'ap-aging' ? (reportData || []) : [];
   const revenueBreakdown: CategoryBreakdown[] = (selectedReport === 'revenue-breakdown' || selectedReport === 'expense-breakdown') ? (reportData?.revenue || []) : [];
@@ -247,6 +297,40 @@ function AccountingReportContent() {
     enabled: selectedReport === 'profit-loss',
   });
 
+  // ---- Multi-column statement layout ----
+  const { data: layoutStatement, isLoading: layoutLoading, error: layoutError, refetch: refetchLayout } = useQuery<Statement>({
+    queryKey: ['accountingStatement', statementKind, activeLayout, dateRange, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({
+        statement: statementKind ?? '',
+        layout: activeLayout ?? '',
+        start_date: dateRange.start,
+        end_date: dateRange.end,
+      });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<Statement>(`/api/accounting/statement?${params}`);
+    },
+    enabled: !!activeLayout,
+  });
+  const statementTitle = selectedReport === 'balance-sheet' ? 'รายงานงบดุล' : 'รายงานงบกำไรขาดทุน';
+  const statementExport = activeLayout && layoutStatement
+    ? {
+        ...statementReportTable(layoutStatement),
+        filename: `${statementTitle}-${STATEMENT_LAYOUTS[activeLayout].label}`,
+        title: `${statementTitle} (${STATEMENT_LAYOUTS[activeLayout].label})`,
+        subtitle: withBranchSubtitle(
+          selectedReport === 'balance-sheet' ? `ณ วันที่ ${dateRange.end}` : `ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`
+        ),
+        branch: reportBranch,
+      }
+    : null;
+  // คอลัมน์งบประมาณไม่ได้มาจาก ClickHouse จึงไม่อยู่ใน query ที่แสดง
+  const layoutAmountColumns = (layoutStatement?.columns ?? []).filter(
+    (column): column is StatementAmountColumn => column.kind === 'amount' && column.source !== 'budget'
+  );
+
   // Separate query for account products (triggered when user selects an account)
   const { data: accountProducts, isLoading: productsLoading } = useQuery<AccountProductItem[]>({
     queryKey: ['accountProducts', selectedAccountCode, dateRange, selectedBranches],
@@ -259,7 +343,7 @@ function AccountingReportContent() {
         selectedBranches.forEach((b) => params.append('branch', b));
       }
       const response = await fetch(
-        `/api/reports/accounting/${encodeURIComponent(selectedAccountCode)}?${params}`
+        `/api/reports/accounting/${encodeURIComponent(selectedAccountCode)}/items?${params}`
       );
       if (!response.ok) throw new Error('Failed to fetch account products');
       const result = await response.json();
@@ -396,59 +480,21 @@ function AccountingReportContent() {
       ),
     },
     {
-      key: 'balance',
-      header: 'ยอดคงเหลือ',
+      key: 'opening',
+      header: 'ยอดต้นปีบัญชี',
       sortable: true,
       align: 'right',
       render: (item: BalanceSheetItem) => (
-        <span className="font-medium">฿{formatCurrency(item.balance)}</span>
+        <span className="text-muted-foreground">฿{formatCurrency(item.opening)}</span>
       ),
     },
-  ];
-
-  // Column definitions for Cash Flow
-  const cashFlowColumns: ColumnDef<CashFlowData>[] = [
     {
-      key: 'activityType',
-      header: 'ประเภทกิจกรรม',
-      sortable: false,
-      align: 'left',
-      render: (item: CashFlowData) => {
-        const labels: Record<string, string> = {
-          'Operating': 'กิจกรรมดำเนินงาน',
-          'Investing': 'กิจกรรมลงทุน',
-          'Financing': 'กิจกรรมจัดหาเงิน',
-        };
-        return <span className="font-medium">{labels[item.activityType] || item.activityType}</span>;
-      },
-    },
-    {
-      key: 'revenue',
-      header: 'เงินสดรับ',
-      sortable: true,
-      align: 'right',
-      render: (item: CashFlowData) => (
-        <span className="text-green-600">฿{formatCurrency(item.revenue)}</span>
-      ),
-    },
-    {
-      key: 'expenses',
-      header: 'เงินสดจ่าย',
-      sortable: true,
-      align: 'right',
-      render: (item: CashFlowData) => (
-        <span className="text-red-600">฿{formatCurrency(item.expenses)}</span>
-      ),
-    },
-    {
-      key: 'netCashFlow',
-      header: 'กระแสเงินสดสุทธิ',
+      key: 'balance',
+      header: 'ยอดคงเหลือ',
       sortable: true,
       align: 'right',
-      render: (item: CashFlowData) => (
-        <span className={`font-semibold ${item.netCashFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-          ฿{formatCurrency(item.netCashFlow)}
-        </span>
+      render: (item: BalanceSheetItem) => (
+        <span className="font-medium">฿{formatCurrency(item.balance)}</span>
       ),
     },
   ];
@@ -553,6 +599,17 @@ function AccountingReportContent() {
 
   // Render report content based on selected type
   const renderReportContent = () => {
+    if (activeLayout) {
+      return layoutError ? (
+        <ErrorDisplay error={layoutError.message} onRetry={() => refetchLayout()} />
+      ) : (
+        <div className="space-y-4">
+          {balanceSheet && <BalanceSheetCheck check={balanceSheet.check} asOfDate={balanceSheet.asOfDate} />}
+          <StatementLayoutTable statement={layoutStatement} loading={layoutLoading} />
+        </div>
+      );
+    }
+
     switch (selectedReport) {
       case 'profit-loss': {
         return (
@@ -570,69 +627,53 @@ function AccountingReportContent() {
 
       case 'balance-sheet':
         return (
-          <PaginatedTable
-            data={balanceSheetTypeFilter === 'all'
-              ? balanceSheetData
-              : balanceSheetData.filter(item => item.typeName === balanceSheetTypeFilter)
-            }
-            columns={balanceSheetColumns}
-            itemsPerPage={15}
-            emptyMessage="ไม่มีข้อมูลงบดุล"
-            defaultSortKey="accountCode"
-            defaultSortOrder="asc"
-            keyExtractor={(item: BalanceSheetItem, index: number) => `${item.accountType}-${item.accountCode}-${index}`}
-            showSummary={true}
-            summaryConfig={{
-              labelColSpan: 2,
-              values: {
-                balance: (data) => {
-                  const total = data.reduce((sum, item) => sum + item.balance, 0);
-                  return (
-                    <span className={`font-bold ${total >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
-                      ฿{formatCurrency(total)}
-                    </span>
-                  );
-                }
+          <div className="space-y-4">
+            {balanceSheet && <BalanceSheetCheck check={balanceSheet.check} asOfDate={balanceSheet.asOfDate} />}
+            <PaginatedTable
+              data={balanceSheetTypeFilter === 'all'
+                ? balanceSheetData
+                : balanceSheetData.filter(item => item.typeName === balanceSheetTypeFilter)
               }
-            }}
-          />
+              columns={balanceSheetColumns}
+              itemsPerPage={15}
+              emptyMessage="ไม่มีข้อมูลงบดุล"
+              defaultSortKey="accountCode"
+              defaultSortOrder="asc"
+              keyExtractor={(item: BalanceSheetItem, index: number) => `${item.accountType}-${item.accountCode}-${index}`}
+              showSummary={true}
+              summaryConfig={{
+                labelColSpan: 2,
+                values: {
+                  balance: (data) => {
+                    const total = data.reduce((sum, item) => sum + item.balance, 0);
+                    return (
+                      <span className={`font-bold ${total >= 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                        ฿{formatCurrency(total)}
+                      </span>
+                    );
+                  }
+                }
+              }}
+            />
+          </div>
         );
 
-      case 'cash-flow':
-        return (
-          <PaginatedTable
-            data={cashFlowData}
-            columns={cashFlowColumns}
-            itemsPerPage={10}
-            emptyMessage="ไม่มีข้อมูลกระแสเงินสด"
-            keyExtractor={(item: CashFlowData) => item.activityType}
-            showSummary={true}
-            summaryConfig={{
-              labelColSpan: 1,
-              values: {
-                revenue: (data) => (
-                  <span className="text-green-600 font-bold">
-                    ฿{formatCurrency(data.reduce((sum, item) => sum + item.revenue, 0))}
-                  </span>
-                ),
-                expenses: (data) => (
-                  <span className="text-red-600 font-bold">
-                    ฿{formatCurrency(data.reduce((sum, item) => sum + item.expenses, 0))}
-                  </span>
-                ),
-                netCashFlow: (data) => {
-                  const total = data.reduce((sum, item) => sum + item.netCashFlow, 0);
-                  return (
-                    <span className={`font-bold ${total >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                      ฿{formatCurrency(total)}
-                    </span>
-                  );
-                },
-              }
-            }}
+      case 'trial-balance':
+        return ledgerAccountCode ? (
+          <GeneralLedgerTable
+            key={`${ledgerAccountCode}-${dateRange.start}-${dateRange.end}`}
+            accountCode={ledgerAccountCode}
+            dateRange={dateRange}
+            selectedBranches={selectedBranches}
+            onBack={() => setLedgerAccountCode('')}
           />
+        ) : (
+          <TrialBalanceTable data={trialBalanceData} onSelectAccount={setLedgerAccountCode} />
         );
 
+      case 'cash-flow':
+        return <CashFlowStatementTable statement={cashFlowData} />;
+
       case 'ar-aging':
       case 'ap-aging':
         const agingData = selectedReport === 'ar-aging' ? arAgingData : apAgingData;
@@ -1548,6 +1589,12 @@ function AccountingReportContent() {
 
   // Get export function based on report type
   const getExportFunction = () => {
+    if (activeLayout) {
+      return statementExport
+        ? () => exportStyledReport({ ...statementExport, sheetName: STATEMENT_LAYOUTS[activeLayout].label })
+        : undefined;
+    }
+
     switch (selectedReport) {
       case 'profit-loss': {
         // Period filtering helpers (same logic as ProfitLossDetailTable)
@@ -1751,6 +1798,7 @@ function AccountingReportContent() {
           sheetName: 'Profit & Loss', 
           title: 'รายงานงบกำไรขาดทุน', 
           subtitle, 
+          branch: reportBranch,
           currencyColumns: currencyCols 
         });
       }
@@ -1760,12 +1808,13 @@ function AccountingReportContent() {
           data: balanceSheetTypeFilter === 'all'
             ? balanceSheetData
             : balanceSheetData.filter(item => item.typeName === balanceSheetTypeFilter),
-          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', typeName: 'ประเภท', balance: 'ยอดคงเหลือ' },
+          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', typeName: 'ประเภท', opening: 'ยอดต้นปีบัญชี', balance: 'ยอดคงเหลือ' },
           filename: 'รายงานงบดุล',
           sheetName: 'Balance Sheet',
           title: 'รายงานงบดุล',
           subtitle: withBranchSubtitle(`ณ วันที่ ${dateRange.end}`),
-          currencyColumns: ['balance'],
+          branch: reportBranch,
+          currencyColumns: ['opening', 'balance'],
           summaryConfig: {
             columns: {
               balance: 'sum',
@@ -1773,24 +1822,37 @@ function AccountingReportContent() {
           }
         });
 
-      case 'cash-flow':
+      case 'trial-balance':
+        if (ledgerAccountCode) return undefined;
         return () => exportStyledReport({
-          data: cashFlowData,
-          headers: { activityType: 'ประเภทกิจกรรม', revenue: 'เงินสดรับ', expenses: 'เงินสดจ่าย', netCashFlow: 'กระแสเงินสดสุทธิ' },
-          filename: 'รายงานงบกระแสเงินสด',
-          sheetName: 'Cash Flow',
-          title: 'รายงานงบกระแสเงินสด',
+          data: trialBalanceData,
+          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', opening: 'ยอดยกมา (Dr+/Cr-)', debit: 'เดบิต', credit: 'เครดิต', closing: 'ยอดคงเหลือ (Dr+/Cr-)' },
+          filename: 'รายงานงบทดลอง',
+          sheetName: 'Trial Balance',
+          title: 'รายงานงบทดลอง',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
-          currencyColumns: ['revenue', 'expenses', 'netCashFlow'],
+          branch: reportBranch,
+          currencyColumns: ['opening', 'debit', 'credit', 'closing'],
           summaryConfig: {
             columns: {
-              revenue: 'sum',
-              expenses: 'sum',
-              netCashFlow: 'sum',
+              debit: 'sum',
+              credit: 'sum',
             }
           }
         });
 
+      case 'cash-flow':
+        return () => exportStyledReport({
+          data: cashFlowExportRows,
+          headers: { label: 'รายการ', amount: 'จำนวนเงิน (บาท)' },
+          filename: 'รายงานงบกระแสเงินสด',
+          sheetName: 'Cash Flow',
+          title: 'รายงานงบกระแสเงินสด (วิธีทางอ้อม)',
+          subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
+          currencyColumns: ['amount'],
+        });
+
       case 'ar-aging':
         return () => exportStyledReport({
           data: arAgingData,
@@ -1799,6 +1861,7 @@ function AccountingReportContent() {
           sheetName: 'AR Aging',
           title: 'รายงานอายุลูกหนี้ (AR Aging)',
           subtitle: withBranchSubtitle(`ณ วันที่ ${new Date().toLocaleDateString('th-TH')}`),
+          branch: reportBranch,
           currencyColumns: ['outstanding'],
           summaryConfig: {
             columns: {
@@ -1815,6 +1878,7 @@ function AccountingReportContent() {
           sheetName: 'AP Aging',
           title: 'รายงานอายุเจ้าหนี้ (AP Aging)',
           subtitle: withBranchSubtitle(`ณ วันที่ ${new Date().toLocaleDateString('th-TH')}`),
+          branch: reportBranch,
           currencyColumns: ['outstanding'],
           summaryConfig: {
             columns: {
@@ -1851,6 +1915,7 @@ function AccountingReportContent() {
             sheetName: 'Revenue Details',
             title,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['qty'],
             currencyColumns: ['price', 'credit', 'amount'],
             summaryConfig: { 
@@ -1891,6 +1956,7 @@ function AccountingReportContent() {
             sheetName: 'Expense Details',
             title,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['qty'],
             currencyColumns: ['price', 'debit', 'amount'],
             summaryConfig: { 
@@ -1922,6 +1988,7 @@ function AccountingReportContent() {
           sheetName: 'Account Products',
           title: `ยอดขายตามผังบัญชี: ${selectedAccountCode}`,
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['price', 'totalSales'],
           summaryConfig: { columns: { qty: 'sum', totalSales: 'sum' } },
         });
@@ -1932,6 +1999,10 @@ function AccountingReportContent() {
   };
 
   const getExportPdfFunction = () => {
+    if (activeLayout) {
+      return statementExport ? () => exportStyledPdfReport(statementExport) : undefined;
+    }
+
     switch (selectedReport) {
       case 'profit-loss': {
         // Period filtering helpers (same logic as ProfitLossDetailTable and Excel export)
@@ -2134,6 +2205,7 @@ function AccountingReportContent() {
           filename: 'รายงานงบกำไรขาดทุน', 
           title: 'รายงานงบกำไรขาดทุน', 
           subtitle: subtitlePdf, 
+          branch: reportBranch,
           currencyColumns: currencyColsPdf 
         });
       }
@@ -2143,11 +2215,12 @@ function AccountingReportContent() {
           data: balanceSheetTypeFilter === 'all'
             ? balanceSheetData
             : balanceSheetData.filter(item => item.typeName === balanceSheetTypeFilter),
-          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', typeName: 'ประเภท', balance: 'ยอดคงเหลือ' },
+          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', typeName: 'ประเภท', opening: 'ยอดต้นปีบัญชี', balance: 'ยอดคงเหลือ' },
           filename: 'รายงานงบดุล',
           title: 'รายงานงบดุล',
           subtitle: withBranchSubtitle(`ณ วันที่ ${dateRange.end}`),
-          currencyColumns: ['balance'],
+          branch: reportBranch,
+          currencyColumns: ['opening', 'balance'],
           summaryConfig: {
             columns: {
               balance: 'sum',
@@ -2155,23 +2228,35 @@ function AccountingReportContent() {
           }
         });
 
-      case 'cash-flow':
+      case 'trial-balance':
+        if (ledgerAccountCode) return undefined;
         return () => exportStyledPdfReport({
-          data: cashFlowData,
-          headers: { activityType: 'ประเภทกิจกรรม', revenue: 'เงินสดรับ', expenses: 'เงินสดจ่าย', netCashFlow: 'กระแสเงินสดสุทธิ' },
-          filename: 'รายงานงบกระแสเงินสด',
-          title: 'รายงานงบกระแสเงินสด',
+          data: trialBalanceData,
+          headers: { accountCode: 'รหัสบัญชี', accountName: 'ชื่อบัญชี', opening: 'ยอดยกมา (Dr+/Cr-)', debit: 'เดบิต', credit: 'เครดิต', closing: 'ยอดคงเหลือ (Dr+/Cr-)' },
+          filename: 'รายงานงบทดลอง',
+          title: 'รายงานงบทดลอง',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
-          currencyColumns: ['revenue', 'expenses', 'netCashFlow'],
+          branch: reportBranch,
+          currencyColumns: ['opening', 'debit', 'credit', 'closing'],
           summaryConfig: {
             columns: {
-              revenue: 'sum',
-              expenses: 'sum',
-              netCashFlow: 'sum',
+              debit: 'sum',
+              credit: 'sum',
             }
           }
         });
 
+      case 'cash-flow':
+        return () => exportStyledPdfReport({
+          data: cashFlowExportRows,
+          headers: { label: 'รายการ', amount: 'จำนวนเงิน (บาท)' },
+          filename: 'รายงานงบกระแสเงินสด',
+          title: 'รายงานงบกระแสเงินสด (วิธีทางอ้อม)',
+          subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
+          currencyColumns: ['amount'],
+        });
+
       case 'ar-aging':
         return () => exportStyledPdfReport({
           data: arAgingData,
@@ -2179,6 +2264,7 @@ function AccountingReportContent() {
           filename: 'รายงานอายุลูกหนี้',
           title: 'รายงานอายุลูกหนี้ (AR Aging)',
           subtitle: withBranchSubtitle(`ณ วันที่ ${new Date().toLocaleDateString('th-TH')}`),
+          branch: reportBranch,
           currencyColumns: ['outstanding'],
           summaryConfig: {
             columns: {
@@ -2194,6 +2280,7 @@ function AccountingReportContent() {
           filename: 'รายงานอายุเจ้าหนี้',
           title: 'รายงานอายุเจ้าหนี้ (AP Aging)',
           subtitle: withBranchSubtitle(`ณ วันที่ ${new Date().toLocaleDateString('th-TH')}`),
+          branch: reportBranch,
           currencyColumns: ['outstanding'],
           summaryConfig: {
             columns: {
@@ -2229,6 +2316,7 @@ function AccountingReportContent() {
             filename,
             title,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['qty'],
             currencyColumns: ['price', 'credit', 'amount'],
             summaryConfig: { 
@@ -2268,6 +2356,7 @@ function AccountingReportContent() {
             filename,
             title,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['qty'],
             currencyColumns: ['price', 'debit', 'amount'],
             summaryConfig: { 
@@ -2298,6 +2387,7 @@ function AccountingReportContent() {
           filename: `ยอดขายตามผังบัญชี-${selectedAccountCode}`,
           title: `ยอดขายตามผังบัญชี: ${selectedAccountCode}`,
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['price', 'totalSales'],
           summaryConfig: { columns: { qty: 'sum', totalSales: 'sum' } },
         });
@@ -2346,10 +2436,27 @@ function AccountingReportContent() {
             onChange={(value) => {
               setSelectedReport(value as ReportType);
               setSelectedAccountCode('');
+              setLedgerAccountCode('');
             }}
           />
-          {selectedReport === 'profit-loss' && (
+          {statementKind && (
             <div className="flex flex-wrap items-center gap-3  ml-auto">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-muted-foreground whitespace-nowrap">รูปแบบ:</span>
+                <SearchableSelect
+                  value={activeLayout ?? ''}
+                  onChange={(v) => setStatementLayout(v as StatementLayoutPreset | '')}
+                  options={[
+                    { value: '', label: 'มาตรฐาน' },
+                    ...STATEMENT_LAYOUT_PRESETS
+                      .filter((preset) => isStatementLayout(statementKind, preset))
+                      .map((preset) => ({ value: preset, label: STATEMENT_LAYOUTS[preset].label })),
+                  ]}
+                  className="w-[190px]"
+                />
+              </div>
+              {selectedReport === 'profit-loss' && !activeLayout && (
+              <>
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium text-muted-foreground whitespace-nowrap">มุมมอง:</span>
                 <SearchableSelect
@@ -2451,6 +2558,8 @@ function AccountingReportContent() {
                   />
                 </div>
               )}
+              </>
+              )}
             </div>
           )}
         </div>
@@ -2466,7 +2575,7 @@ function AccountingReportContent() {
           id={selectedReport}
           title={currentReport?.label || ''}
           description={currentReport?.description || ''}
-          headerExtra={selectedReport === 'balance-sheet' ? (
+          headerExtra={selectedReport === 'balance-sheet' && !activeLayout ? (
             <div className="flex items-center gap-2">
               <label className="text-sm text-muted-foreground whitespace-nowrap">ประเภท:</label>
               <SearchableSelect
@@ -2512,29 +2621,37 @@ function AccountingReportContent() {
               />
             </div>
           ) : undefined}
-          queryInfo={selectedReport === 'profit-loss' ? {
-            query: getProfitLossQuery(dateRange),
+          queryInfo={activeLayout && layoutAmountColumns.length > 0 ? {
+            query: selectedReport === 'balance-sheet'
+              ? getStatementBalancesQuery(layoutAmountColumns.map((column) => column.range.end), selectedBranches)
+              : getStatementMovementsQuery(layoutAmountColumns.map((column) => column.range), selectedBranches),
+            format: 'JSONEachRow'
+          } : selectedReport === 'profit-loss' ? {
+            query: getProfitLossQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'balance-sheet' ? {
-            query: getBalanceSheetQuery(dateRange),
+            query: getBalanceSheetQuery(dateRange, selectedBranches),
+            format: 'JSONEachRow'
+          } : selectedReport === 'trial-balance' ? {
+            query: getTrialBalanceQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'cash-flow' ? {
-            query: getCashFlowQuery(dateRange),
+            query: getCashFlowQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'ar-aging' ? {
-            query: getARAgingQuery(dateRange),
+            query: getARAgingQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'ap-aging' ? {
-            query: getAPAgingQuery(dateRange),
+            query: getAPAgingQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'revenue-breakdown' ? {
-            query: getRevenueBreakdownQuery(dateRange),
+            query: getRevenueBreakdownQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'expense-breakdown' ? {
-            query: getExpenseBreakdownQuery(dateRange),
+            query: getExpenseBreakdownQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'chart-of-accounts' ? {
-            query: getChartOfAccountsListQuery(dateRange),
+            query: getChartOfAccountsListQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : undefined}
           onExportExcel={getExportFunction()}
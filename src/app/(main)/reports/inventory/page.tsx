@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { useDateRangeStore } from '@/store/useDateRangeStore';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
-import { formatSelectedBranchNames, useBranchStore } from '@/store/useBranchStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
 import { DataCard } from '@/components/DataCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
@@ -17,8 +17,14 @@ import {
   AlertCircle,
   TrendingDown,
   RotateCw,
-  MapPin
+  MapPin,
+  Boxes,
+  Scale,
+  Layers,
+  Hourglass,
+  Archive
 } from 'lucide-react';
+import { InventoryValuationReport } from '@/components/inventory/InventoryValuationReport';
 import { getDateRange } from '@/lib/dateRanges';
 import { exportStyledReport } from '@/lib/exportExcel';
 import { exportStyledPdfReport } from '@/lib/exportPdf';
@@ -41,6 +47,25 @@ import {
   getInventoryTurnoverQuery,
   getStockByBranchQuery,
 } from '@/lib/data/inventory-queries';
+import { getInventoryBalanceQuery } from '@/lib/data/inventory-balance-queries';
+import { getValuationMovementsQuery } from '@/lib/data/inventory-valuation-queries';
+import { getDeadStockQuery } from '@/lib/data/inventory-aging-queries';
+import {
+  AGING_BUCKETS,
+  AGING_DIMENSIONS,
+  BALANCE_DIMENSIONS,
+  VALUATION_METHODS,
+  type AgingDimension,
+  type BalanceDimension,
+  type CostLayer,
+  type DeadStockItem,
+  type InventoryAging,
+  type InventoryBalance,
+  type InventoryValuation,
+  type ValuationMethod,
+} from '@/lib/inventory/types';
+import { methodValue } from '@/lib/inventory/valuation';
+import { AGING_BUCKET_FIELDS, agingTableRows, type AgingTableRow } from '@/lib/inventory/aging';
 
 // Report types
 type ReportType =
@@ -49,7 +74,12 @@ type ReportType =
   | 'overstock'
   | 'slow-moving'
   | 'turnover'
-  | 'by-branch';
+  | 'by-branch'
+  | 'balance'
+  | 'valuation'
+  | 'cost-layers'
+  | 'aging'
+  | 'dead-stock';
 
 const reportOptions: ReportOption<ReportType>[] = [
   {
@@ -88,22 +118,78 @@ const reportOptions: ReportOption<ReportType>[] = [
     icon: MapPin,
     description: 'มูลค่าสินค้าคงคลังแยกตามสาขา/คลัง',
   },
+  {
+    value: 'balance',
+    label: 'ยอดคงเหลือ ณ วันที่',
+    icon: Boxes,
+    description: 'ยอดสินค้าคงเหลือ ณ วันสุดท้ายของช่วง แยกตามกิจการ/คลัง/ชั้นวาง/สินค้า',
+  },
+  {
+    value: 'valuation',
+    label: 'ตีราคาสินค้าคงเหลือ',
+    icon: Scale,
+    description: 'มูลค่าตามรายการ ถัวเฉลี่ยเคลื่อนที่ และ FIFO เทียบกับยอดบัญชีสินค้าคงเหลือ',
+  },
+  {
+    value: 'cost-layers',
+    label: 'ชั้นต้นทุน FIFO',
+    icon: Layers,
+    description: 'ชั้นต้นทุนที่ยังเหลือ ณ วันสุดท้ายของช่วง เรียงจากรับเข้าเก่าสุด',
+  },
+  {
+    value: 'aging',
+    label: 'อายุสต็อก',
+    icon: Hourglass,
+    description: 'มูลค่าคงเหลือ ณ วันสุดท้ายของช่วง แบ่งตามอายุนับจากวันที่รับเข้า (ชั้นต้นทุน FIFO)',
+  },
+  {
+    value: 'dead-stock',
+    label: 'สินค้าไม่เคลื่อนไหว',
+    icon: Archive,
+    description: 'สินค้าคงเหลือ ณ วันสุดท้ายของช่วงที่ไม่มีการจ่ายออกตั้งแต่วันแรกของช่วง สำหรับพิจารณาตัดจำหน่าย',
+  },
 ];
 
+/** คอลัมน์ของแต่ละมิติในรายงานยอดคงเหลือ */
+const BALANCE_COLUMN_KEYS: Record<BalanceDimension, (keyof InventoryBalance)[]> = {
+  branch: ['branchSync', 'itemCount', 'qtyOnHand', 'inventoryValue'],
+  warehouse: ['branchSync', 'whName', 'itemCount', 'qtyOnHand', 'inventoryValue'],
+  shelf: ['branchSync', 'whName', 'shelfName', 'itemCount', 'qtyOnHand', 'inventoryValue'],
+  item: ['itemCode', 'itemName', 'qtyOnHand', 'inventoryValue'],
+};
+
+const BALANCE_HEADERS: Record<keyof InventoryBalance, string> = {
+  branchSync: 'กิจการ',
+  whCode: 'รหัสคลัง',
+  whName: 'คลัง',
+  shelfCode: 'รหัสชั้นวาง',
+  shelfName: 'ชั้นวาง',
+  itemCode: 'รหัสสินค้า',
+  itemName: 'ชื่อสินค้า',
+  itemCount: 'จำนวนรายการ',
+  qtyOnHand: 'คงเหลือ',
+  inventoryValue: 'มูลค่า',
+};
+
 export default function InventoryReportPage() {
   const { dateRange, setDateRange } = useDateRangeStore();
   const [selectedReport, setSelectedReport] = useState<ReportType>('stock-movement');
-  const asOfDate = new Date().toISOString().split('T')[0];
+  const [balanceDimension, setBalanceDimension] = useState<BalanceDimension>('warehouse');
+  const [valuationMethod, setValuationMethod] = useState<ValuationMethod>('fifo');
+  const [agingDimension, setAgingDimension] = useState<AgingDimension>('warehouse');
+  // Stock on hand is reported as of the last day of the selected range
+  const asOfDate = dateRange.end;
   const selectedBranches = useBranchStore((s) => s.selectedBranches);
   const availableBranches = useBranchStore((s) => s.availableBranches);
   const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
   const withBranchSubtitle = (detail: string) => `กิจการ: ${selectedBranchLabel} | ${detail}`;
 
   // Handle URL hash for report selection
-  useReportHash(reportOptions, setSelectedReport);
+  useReportHash(reportOptions, setSelectedReport, selectedReport);
 
   const { data: reportData, isLoading: loading, error: queryError, refetch } = useQuery({
-    queryKey: ['inventoryReportData', selectedReport, dateRange, selectedBranches],
+    queryKey: ['inventoryReportData', selectedReport, dateRange, selectedBranches, selectedReport === 'balance' ? balanceDimension : null],
     queryFn: async () => {
       const appendBranches = (params: URLSearchParams) => {
         if (!selectedBranches.includes('ALL')) {
@@ -155,6 +241,36 @@ export default function InventoryReportPage() {
           endpoint = `/api/inventory/by-branch?${params}`;
           break;
         }
+        case 'balance': {
+          const params = new URLSearchParams({ as_of_date: asOfDate, dimension: balanceDimension });
+          appendBranches(params);
+          endpoint = `/api/inventory/balance?${params}`;
+          break;
+        }
+        case 'valuation': {
+          const params = new URLSearchParams({ as_of_date: asOfDate });
+          appendBranches(params);
+          endpoint = `/api/inventory/valuation?${params}`;
+          break;
+        }
+        case 'cost-layers': {
+          const params = new URLSearchParams({ as_of_date: asOfDate });
+          appendBranches(params);
+          endpoint = `/api/inventory/cost-layers?${params}`;
+          break;
+        }
+        case 'aging': {
+          const params = new URLSearchParams({ as_of_date: asOfDate });
+          appendBranches(params);
+          endpoint = `/api/inventory/aging?${params}`;
+          break;
+        }
+        case 'dead-stock': {
+          const params = new URLSearchParams({ since_date: dateRange.start, as_of_date: asOfDate });
+          appendBranches(params);
+          endpoint = `/api/inventory/dead-stock?${params}`;
+          break;
+        }
       }
 
       const response = await fetch(endpoint);
@@ -173,6 +289,13 @@ export default function InventoryReportPage() {
   const slowMovingItems: SlowMovingItem[] = selectedReport === 'slow-moving' ? (reportData || []) : [];
   const inventoryTurnover: InventoryTurnover[] = selectedReport === 'turnover' ? (reportData || []) : [];
   const stockByBranch: StockByBranch[] = selectedReport === 'by-branch' ? (reportData || []) : [];
+  const inventoryBalance: InventoryBalance[] = selectedReport === 'balance' ? (reportData || []) : [];
+  const inventoryValuation: InventoryValuation | null = selectedReport === 'valuation' ? (reportData ?? null) : null;
+  const costLayers: CostLayer[] = selectedReport === 'cost-layers' ? (reportData || []) : [];
+  const inventoryAging: InventoryAging | null = selectedReport === 'aging' ? (reportData ?? null) : null;
+  const agingRows: AgingTableRow[] = agingTableRows(inventoryAging?.groups[agingDimension] ?? []);
+  const deadStockItems: DeadStockItem[] = selectedReport === 'dead-stock' ? (reportData || []) : [];
+  const branchName = (key: string) => availableBranches.find((b) => b.key === key)?.name || key;
 
   const fetchReportData = () => { refetch(); };
 
@@ -528,6 +651,349 @@ export default function InventoryReportPage() {
     },
   ];
 
+  // Column definitions for Inventory Balance (depends on the selected dimension)
+  const balanceColumns: ColumnDef<InventoryBalance>[] = BALANCE_COLUMN_KEYS[balanceDimension].map((key) => {
+    switch (key) {
+      case 'branchSync':
+        return { key, header: BALANCE_HEADERS[key], sortable: true, align: 'left', render: (item: InventoryBalance) => branchName(item.branchSync) };
+      case 'whName':
+        return {
+          key,
+          header: BALANCE_HEADERS[key],
+          sortable: true,
+          align: 'left',
+          render: (item: InventoryBalance) => (
+            <div>
+              <div className="font-medium">{item.whName}</div>
+              <div className="text-xs text-muted-foreground">{item.whCode}</div>
+            </div>
+          ),
+        };
+      case 'shelfName':
+        return {
+          key,
+          header: BALANCE_HEADERS[key],
+          sortable: true,
+          align: 'left',
+          render: (item: InventoryBalance) => (
+            <div>
+              <div className="font-medium">{item.shelfName || '-'}</div>
+              <div className="text-xs text-muted-foreground">{item.shelfCode}</div>
+            </div>
+          ),
+        };
+      case 'itemCode':
+        return { key, header: BALANCE_HEADERS[key], sortable: true, align: 'left', render: (item: InventoryBalance) => <span className="font-mono text-xs">{item.itemCode}</span> };
+      case 'inventoryValue':
+        return {
+          key,
+          header: BALANCE_HEADERS[key],
+          sortable: true,
+          align: 'right',
+          render: (item: InventoryBalance) => <span className="font-medium text-blue-600">฿{formatCurrency(item.inventoryValue)}</span>,
+        };
+      case 'itemCount':
+      case 'qtyOnHand':
+        return { key, header: BALANCE_HEADERS[key], sortable: true, align: 'right', render: (item: InventoryBalance) => formatNumber(item[key]) };
+      default:
+        return { key, header: BALANCE_HEADERS[key], sortable: true, align: 'left' };
+    }
+  });
+
+  /** ข้อมูลสำหรับส่งออกรายงานยอดคงเหลือ ตามคอลัมน์ของมิติที่เลือก (กิจการแสดงเป็นชื่อ คลัง/ชั้นวางพ่วงรหัส) */
+  const balanceExport = () => {
+    const keys = BALANCE_COLUMN_KEYS[balanceDimension];
+    return {
+      data: inventoryBalance.map((item) => ({
+        ...item,
+        branchSync: branchName(item.branchSync),
+        whName: `${item.whCode} ${item.whName}`.trim(),
+        shelfName: `${item.shelfCode} ${item.shelfName}`.trim(),
+      })),
+      headers: Object.fromEntries(keys.map((key) => [key, BALANCE_HEADERS[key]])),
+      filename: 'ยอดสินค้าคงเหลือ',
+      title: `รายงานยอดสินค้าคงเหลือแยกตาม${BALANCE_DIMENSIONS.find((d) => d.key === balanceDimension)?.label}`,
+      subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+      branch: reportBranch,
+      numberColumns: keys.filter((key) => key === 'itemCount' || key === 'qtyOnHand'),
+      currencyColumns: ['inventoryValue'],
+      summaryConfig: {
+        columns: {
+          qtyOnHand: 'sum' as const,
+          inventoryValue: 'sum' as const,
+        }
+      }
+    };
+  };
+
+  // Column definitions for FIFO Cost Layers
+  const costLayerColumns: ColumnDef<CostLayer>[] = [
+    {
+      key: 'itemName',
+      header: 'สินค้า',
+      sortable: true,
+      align: 'left',
+      render: (item: CostLayer) => (
+        <div>
+          <div className="font-medium">{item.itemName}</div>
+          <div className="text-xs text-muted-foreground font-mono">{item.itemCode}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'whName',
+      header: 'คลัง',
+      sortable: true,
+      align: 'left',
+      render: (item: CostLayer) => (
+        <div>
+          <div>{item.whName}</div>
+          <div className="text-xs text-muted-foreground">{branchName(item.branchSync)}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'receivedAt',
+      header: 'วันที่รับเข้า',
+      sortable: true,
+      align: 'left',
+      render: (item: CostLayer) => (
+        <div>
+          <div>{formatDate(item.receivedAt)}</div>
+          <div className="text-xs text-muted-foreground">{item.docNo}</div>
+        </div>
+      ),
+    },
+    { key: 'qty', header: 'คงเหลือ', sortable: true, align: 'right', render: (item: CostLayer) => formatNumber(item.qty) },
+    { key: 'unitCost', header: 'ต้นทุน/หน่วย', sortable: true, align: 'right', render: (item: CostLayer) => `฿${formatCurrency(item.unitCost)}` },
+    {
+      key: 'value',
+      header: 'มูลค่า',
+      sortable: true,
+      align: 'right',
+      render: (item: CostLayer) => <span className="font-medium text-blue-600">฿{formatCurrency(item.value)}</span>,
+    },
+    { key: 'ageDays', header: 'อายุ (วัน)', sortable: true, align: 'right', render: (item: CostLayer) => formatNumber(item.ageDays) },
+  ];
+
+  /** ข้อมูลสำหรับส่งออกรายงานตีราคา: กระทบยอดต่อกิจการ ผลต่างคิดจากวิธีที่เลือก */
+  const valuationExport = () => {
+    const methodLabel = VALUATION_METHODS.find((m) => m.key === valuationMethod)?.label;
+    return {
+      data: (inventoryValuation?.reconciliation ?? []).map((row) => ({
+        branchSync: branchName(row.branchSync),
+        qtyOnHand: row.qtyOnHand,
+        recordedValue: row.recordedValue,
+        movingAverageValue: row.movingAverageValue,
+        fifoValue: row.fifoValue,
+        ledgerValue: row.ledgerValue,
+        difference: methodValue(row, valuationMethod) - row.ledgerValue,
+      })),
+      headers: {
+        branchSync: 'กิจการ',
+        qtyOnHand: 'คงเหลือ',
+        ...Object.fromEntries(VALUATION_METHODS.map(({ field, label }) => [field, label])),
+        ledgerValue: 'ยอดบัญชี',
+        difference: `ผลต่าง (${methodLabel} - บัญชี)`,
+      },
+      filename: 'ตีราคาสินค้าคงเหลือ',
+      title: 'รายงานตีราคาสินค้าคงเหลือเทียบกับบัญชี',
+      subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+      branch: reportBranch,
+      numberColumns: ['qtyOnHand'],
+      currencyColumns: ['recordedValue', 'movingAverageValue', 'fifoValue', 'ledgerValue', 'difference'],
+      summaryConfig: {
+        columns: {
+          qtyOnHand: 'sum' as const,
+          recordedValue: 'sum' as const,
+          movingAverageValue: 'sum' as const,
+          fifoValue: 'sum' as const,
+          ledgerValue: 'sum' as const,
+          difference: 'sum' as const,
+        }
+      }
+    };
+  };
+
+  const costLayersExport = () => ({
+    data: costLayers.map((item) => ({
+      ...item,
+      branchSync: branchName(item.branchSync),
+      whName: `${item.whCode} ${item.whName}`.trim(),
+    })),
+    headers: {
+      itemCode: 'รหัสสินค้า',
+      itemName: 'ชื่อสินค้า',
+      branchSync: 'กิจการ',
+      whName: 'คลัง',
+      receivedAt: 'วันที่รับเข้า',
+      docNo: 'เลขที่เอกสาร',
+      qty: 'คงเหลือ',
+      unitCost: 'ต้นทุน/หน่วย',
+      value: 'มูลค่า',
+      ageDays: 'อายุ (วัน)',
+    },
+    filename: 'ชั้นต้นทุน FIFO',
+    title: 'รายงานชั้นต้นทุน FIFO คงเหลือ',
+    subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+    branch: reportBranch,
+    numberColumns: ['qty', 'ageDays'],
+    currencyColumns: ['unitCost', 'value'],
+    summaryConfig: {
+      columns: {
+        qty: 'sum' as const,
+        value: 'sum' as const,
+      }
+    }
+  });
+
+  // Column definitions for Inventory Aging (value per age bucket)
+  const agingDimensionLabel = AGING_DIMENSIONS.find((d) => d.key === agingDimension)?.label;
+  const agingColumns: ColumnDef<AgingTableRow>[] = [
+    {
+      key: 'label',
+      header: agingDimensionLabel || '',
+      sortable: true,
+      align: 'left',
+      render: (item: AgingTableRow) => (
+        <div>
+          <div className="font-medium">{item.label}</div>
+          {item.branchSync && <div className="text-xs text-muted-foreground">{branchName(item.branchSync)}</div>}
+        </div>
+      ),
+    },
+    { key: 'itemCount', header: 'จำนวนรายการ', sortable: true, align: 'right', render: (item: AgingTableRow) => formatNumber(item.itemCount) },
+    ...AGING_BUCKETS.map((bucket, index): ColumnDef<AgingTableRow> => ({
+      key: AGING_BUCKET_FIELDS[index],
+      header: bucket.label,
+      sortable: true,
+      align: 'right',
+      render: (item: AgingTableRow) => {
+        const value = item[AGING_BUCKET_FIELDS[index]];
+        return value ? <span className={index >= 3 ? 'text-red-600' : ''}>฿{formatCurrency(value)}</span> : '-';
+      },
+    })),
+    {
+      key: 'value',
+      header: 'มูลค่ารวม',
+      sortable: true,
+      align: 'right',
+      render: (item: AgingTableRow) => <span className="font-medium text-blue-600">฿{formatCurrency(item.value)}</span>,
+    },
+  ];
+
+  const agingExport = () => ({
+    data: agingRows.map((row) => ({
+      ...row,
+      label: row.branchSync ? `${row.label} (${branchName(row.branchSync)})` : row.label,
+    })),
+    headers: {
+      label: agingDimensionLabel || '',
+      itemCount: 'จำนวนรายการ',
+      ...Object.fromEntries(AGING_BUCKETS.map((bucket, index) => [AGING_BUCKET_FIELDS[index], bucket.label])),
+      value: 'มูลค่ารวม',
+    },
+    filename: 'อายุสต็อก',
+    title: `รายงานอายุสต็อกตามวันที่รับเข้า แยกตาม${agingDimensionLabel}`,
+    subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+    branch: reportBranch,
+    numberColumns: ['itemCount'],
+    currencyColumns: [...AGING_BUCKET_FIELDS, 'value'],
+    summaryConfig: {
+      columns: Object.fromEntries([...AGING_BUCKET_FIELDS, 'value'].map((key) => [key, 'sum' as const])),
+    }
+  });
+
+  // Column definitions for Dead Stock
+  const deadStockColumns: ColumnDef<DeadStockItem>[] = [
+    {
+      key: 'itemName',
+      header: 'สินค้า',
+      sortable: true,
+      align: 'left',
+      render: (item: DeadStockItem) => (
+        <div>
+          <div className="font-medium">{item.itemName}</div>
+          <div className="text-xs text-muted-foreground">
+            <span className="font-mono">{item.itemCode}</span>
+            {item.categoryName && ` • ${item.categoryName}`}
+            {item.brandName && ` • ${item.brandName}`}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'whName',
+      header: 'คลัง',
+      sortable: true,
+      align: 'left',
+      render: (item: DeadStockItem) => (
+        <div>
+          <div>{item.whName}</div>
+          <div className="text-xs text-muted-foreground">{branchName(item.branchSync)}</div>
+        </div>
+      ),
+    },
+    {
+      key: 'qtyOnHand',
+      header: 'คงเหลือ',
+      sortable: true,
+      align: 'right',
+      render: (item: DeadStockItem) => `${formatNumber(item.qtyOnHand)} ${item.unitName}`.trim(),
+    },
+    {
+      key: 'inventoryValue',
+      header: 'มูลค่า',
+      sortable: true,
+      align: 'right',
+      render: (item: DeadStockItem) => <span className="font-medium text-blue-600">฿{formatCurrency(item.inventoryValue)}</span>,
+    },
+    {
+      key: 'lastIssueDate',
+      header: 'จ่ายออกล่าสุด',
+      sortable: true,
+      align: 'left',
+      render: (item: DeadStockItem) => (item.lastIssueDate ? formatDate(item.lastIssueDate) : <span className="text-red-600">ไม่เคยจ่าย</span>),
+    },
+    { key: 'lastReceiptDate', header: 'รับเข้าล่าสุด', sortable: true, align: 'left', render: (item: DeadStockItem) => (item.lastReceiptDate ? formatDate(item.lastReceiptDate) : '-') },
+    { key: 'idleDays', header: 'ไม่เคลื่อนไหว (วัน)', sortable: true, align: 'right', render: (item: DeadStockItem) => (item.idleDays === null ? '-' : formatNumber(item.idleDays)) },
+  ];
+
+  /** ข้อมูลสำหรับส่งออกรายการสินค้าไม่เคลื่อนไหว เพื่อพิจารณาตัดจำหน่าย */
+  const deadStockExport = () => ({
+    data: deadStockItems.map((item) => ({
+      ...item,
+      branchSync: branchName(item.branchSync),
+      whName: `${item.whCode} ${item.whName}`.trim(),
+      lastIssueDate: item.lastIssueDate || 'ไม่เคยจ่าย',
+    })),
+    headers: {
+      itemCode: 'รหัสสินค้า',
+      itemName: 'ชื่อสินค้า',
+      categoryName: 'หมวดสินค้า',
+      brandName: 'แบรนด์',
+      branchSync: 'กิจการ',
+      whName: 'คลัง',
+      qtyOnHand: 'คงเหลือ',
+      unitName: 'หน่วย',
+      inventoryValue: 'มูลค่า',
+      lastIssueDate: 'จ่ายออกล่าสุด',
+      lastReceiptDate: 'รับเข้าล่าสุด',
+      idleDays: 'ไม่เคลื่อนไหว (วัน)',
+    },
+    filename: 'สินค้าไม่เคลื่อนไหว',
+    title: 'รายการสินค้าไม่เคลื่อนไหวเพื่อพิจารณาตัดจำหน่าย',
+    subtitle: withBranchSubtitle(`ไม่มีการจ่ายออกตั้งแต่ ${dateRange.start} | ณ วันที่ ${asOfDate}`),
+    branch: reportBranch,
+    numberColumns: ['qtyOnHand', 'idleDays'],
+    currencyColumns: ['inventoryValue'],
+    summaryConfig: {
+      columns: {
+        inventoryValue: 'sum' as const,
+      }
+    }
+  });
+
   // Get current report option
   const currentReport = reportOptions.find(opt => opt.value === selectedReport);
 
@@ -674,6 +1140,106 @@ export default function InventoryReportPage() {
           />
         );
 
+      case 'balance':
+        return (
+          <PaginatedTable
+            data={inventoryBalance}
+            columns={balanceColumns}
+            itemsPerPage={15}
+            emptyMessage="ไม่มีสินค้าคงเหลือ"
+            defaultSortKey="inventoryValue"
+            defaultSortOrder="desc"
+            keyExtractor={(item: InventoryBalance) => `${item.branchSync}|${item.whCode}|${item.shelfCode}|${item.itemCode}`}
+            showSummary={true}
+            summaryConfig={{
+              labelColSpan: 1,
+              values: {
+                qtyOnHand: (data) => formatNumber(data.reduce((sum, item) => sum + item.qtyOnHand, 0)),
+                inventoryValue: (data) => {
+                  const total = data.reduce((sum, item) => sum + item.inventoryValue, 0);
+                  return <span className="font-bold text-blue-600">฿{formatCurrency(total)}</span>;
+                }
+              }
+            }}
+          />
+        );
+
+      case 'valuation':
+        return <InventoryValuationReport valuation={inventoryValuation} method={valuationMethod} branchName={branchName} />;
+
+      case 'cost-layers':
+        return (
+          <PaginatedTable
+            data={costLayers}
+            columns={costLayerColumns}
+            itemsPerPage={15}
+            emptyMessage="ไม่มีชั้นต้นทุนคงเหลือ"
+            defaultSortKey="receivedAt"
+            defaultSortOrder="asc"
+            keyExtractor={(item: CostLayer, index) => `${item.branchSync}|${item.whCode}|${item.itemCode}|${item.docNo}|${index}`}
+            showSummary={true}
+            summaryConfig={{
+              labelColSpan: 3,
+              values: {
+                qty: (data) => formatNumber(data.reduce((sum, item) => sum + item.qty, 0)),
+                value: (data) => {
+                  const total = data.reduce((sum, item) => sum + item.value, 0);
+                  return <span className="font-bold text-blue-600">฿{formatCurrency(total)}</span>;
+                }
+              }
+            }}
+          />
+        );
+
+      case 'aging':
+        return (
+          <PaginatedTable
+            data={agingRows}
+            columns={agingColumns}
+            itemsPerPage={15}
+            emptyMessage="ไม่มีสินค้าคงเหลือ"
+            defaultSortKey="value"
+            defaultSortOrder="desc"
+            keyExtractor={(item: AgingTableRow) => item.key}
+            showSummary={true}
+            summaryConfig={{
+              labelColSpan: 2,
+              values: Object.fromEntries(
+                [...AGING_BUCKET_FIELDS, 'value' as const].map((key) => [
+                  key,
+                  (data: AgingTableRow[]) => {
+                    const total = data.reduce((sum, item) => sum + item[key], 0);
+                    return <span className="font-bold">฿{formatCurrency(total)}</span>;
+                  },
+                ])
+              ),
+            }}
+          />
+        );
+
+      case 'dead-stock':
+        return (
+          <PaginatedTable
+            data={deadStockItems}
+            columns={deadStockColumns}
+            itemsPerPage={15}
+            emptyMessage="ไม่มีสินค้าไม่เคลื่อนไหวในช่วงนี้"
+            defaultSortKey="inventoryValue"
+            defaultSortOrder="desc"
+            keyExtractor={(item: DeadStockItem) => `${item.branchSync}|${item.whCode}|${item.itemCode}`}
+            showSummary={true}
+            summaryConfig={{
+              labelColSpan: 3,
+              values: {
+                inventoryValue: (data) => {
+                  const total = data.reduce((sum, item) => sum + item.inventoryValue, 0);
+                  return <span className="font-bold text-blue-600">฿{formatCurrency(total)}</span>;
+                }
+              }
+            }}
+          />
+        );
+
       default:
         return null;
     }
@@ -690,6 +1256,7 @@ export default function InventoryReportPage() {
           sheetName: 'Stock Movement',
           title: 'รายงานการเคลื่อนไหวสต็อก (ซื้อเข้า vs ขายออก)',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['valueIn', 'valueOut'],
           summaryConfig: {
             columns: {
@@ -707,6 +1274,7 @@ export default function InventoryReportPage() {
           sheetName: 'Low Stock',
           title: 'รายงานสินค้าใกล้หมด',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'avgDailySales', 'daysOnHand'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -725,6 +1293,7 @@ export default function InventoryReportPage() {
           sheetName: 'Overstock',
           title: 'รายงานสินค้าเกินคลัง',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'avgDailySales', 'daysOnHand'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -743,6 +1312,7 @@ export default function InventoryReportPage() {
           sheetName: 'Slow Moving',
           title: 'รายงานสินค้าขายช้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'qtySold', 'daysOfStock'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -762,6 +1332,7 @@ export default function InventoryReportPage() {
           sheetName: 'Inventory Turnover',
           title: 'รายงานอัตราหมุนเวียนสินค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['avgInventoryValue', 'totalCOGS'],
           numberColumns: ['turnoverRatio', 'daysToSell'],
         });
@@ -774,6 +1345,7 @@ export default function InventoryReportPage() {
           sheetName: 'Stock by Branch',
           title: 'รายงานสต็อกตามสาขา',
           subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+          branch: reportBranch,
           numberColumns: ['itemCount', 'qtyOnHand'],
           currencyColumns: ['inventoryValue'],
           summaryConfig: {
@@ -785,6 +1357,21 @@ export default function InventoryReportPage() {
           }
         });
 
+      case 'balance':
+        return () => exportStyledReport({ ...balanceExport(), sheetName: 'Inventory Balance' });
+
+      case 'valuation':
+        return () => exportStyledReport({ ...valuationExport(), sheetName: 'Inventory Valuation' });
+
+      case 'cost-layers':
+        return () => exportStyledReport({ ...costLayersExport(), sheetName: 'FIFO Cost Layers' });
+
+      case 'aging':
+        return () => exportStyledReport({ ...agingExport(), sheetName: 'Inventory Aging' });
+
+      case 'dead-stock':
+        return () => exportStyledReport({ ...deadStockExport(), sheetName: 'Dead Stock' });
+
       default:
         return undefined;
     }
@@ -799,6 +1386,7 @@ export default function InventoryReportPage() {
           filename: 'การเคลื่อนไหวสต็อก',
           title: 'รายงานการเคลื่อนไหวสต็อก (ซื้อเข้า vs ขายออก)',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['valueIn', 'valueOut'],
           summaryConfig: {
             columns: {
@@ -815,6 +1403,7 @@ export default function InventoryReportPage() {
           filename: 'สินค้าใกล้หมด',
           title: 'รายงานสินค้าใกล้หมด',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'avgDailySales', 'daysOnHand'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -832,6 +1421,7 @@ export default function InventoryReportPage() {
           filename: 'สินค้าเกินคลัง',
           title: 'รายงานสินค้าเกินคลัง',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'avgDailySales', 'daysOnHand'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -849,6 +1439,7 @@ export default function InventoryReportPage() {
           filename: 'สินค้าขายช้า',
           title: 'รายงานสินค้าขายช้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['qtyOnHand', 'qtySold', 'daysOfStock'],
           currencyColumns: ['stockValue'],
           summaryConfig: {
@@ -867,6 +1458,7 @@ export default function InventoryReportPage() {
           filename: 'อัตราหมุนเวียนสินค้า',
           title: 'รายงานอัตราหมุนเวียนสินค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['avgInventoryValue', 'totalCOGS'],
           numberColumns: ['turnoverRatio', 'daysToSell'],
         });
@@ -878,6 +1470,7 @@ export default function InventoryReportPage() {
           filename: 'สต็อกตามสาขา',
           title: 'รายงานสต็อกตามสาขา',
           subtitle: withBranchSubtitle(`ณ วันที่ ${asOfDate}`),
+          branch: reportBranch,
           numberColumns: ['itemCount', 'qtyOnHand'],
           currencyColumns: ['inventoryValue'],
           summaryConfig: {
@@ -889,6 +1482,21 @@ export default function InventoryReportPage() {
           }
         });
 
+      case 'balance':
+        return () => exportStyledPdfReport(balanceExport());
+
+      case 'valuation':
+        return () => exportStyledPdfReport(valuationExport());
+
+      case 'cost-layers':
+        return () => exportStyledPdfReport(costLayersExport());
+
+      case 'aging':
+        return () => exportStyledPdfReport(agingExport());
+
+      case 'dead-stock':
+        return () => exportStyledPdfReport(deadStockExport());
+
       default:
         return undefined;
     }
@@ -944,27 +1552,78 @@ export default function InventoryReportPage() {
           title={currentReport?.label || ''}
           description={currentReport?.description || ''}
           queryInfo={selectedReport === 'stock-movement' ? {
-            query: getStockMovementQuery(dateRange),
+            query: getStockMovementQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'low-stock' ? {
-            query: getLowStockItemsQuery(dateRange),
+            query: getLowStockItemsQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'overstock' ? {
-            query: getOverstockItemsQuery(dateRange),
+            query: getOverstockItemsQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'slow-moving' ? {
-            query: getSlowMovingItemsQuery(dateRange),
+            query: getSlowMovingItemsQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'turnover' ? {
-            query: getInventoryTurnoverQuery(dateRange),
+            query: getInventoryTurnoverQuery(dateRange, selectedBranches),
             format: 'JSONEachRow'
           } : selectedReport === 'by-branch' ? {
-            query: getStockByBranchQuery(dateRange),
+            query: getStockByBranchQuery(asOfDate, selectedBranches),
+            format: 'JSONEachRow'
+          } : selectedReport === 'balance' ? {
+            query: getInventoryBalanceQuery(asOfDate, balanceDimension, selectedBranches),
+            format: 'JSONEachRow'
+          } : selectedReport === 'valuation' || selectedReport === 'cost-layers' || selectedReport === 'aging' ? {
+            query: getValuationMovementsQuery(asOfDate, selectedBranches),
+            format: 'JSONCompactEachRow'
+          } : selectedReport === 'dead-stock' ? {
+            query: getDeadStockQuery(dateRange.start, asOfDate, selectedBranches),
             format: 'JSONEachRow'
           } : undefined}
           onExportExcel={getExportFunction()}
           onExportPDF={getExportPdfFunction()}
         >
+          {selectedReport === 'balance' && (
+            <div className="inline-flex rounded-md border border-border overflow-hidden mb-4">
+              {BALANCE_DIMENSIONS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setBalanceDimension(key)}
+                  className={`px-3 py-2 text-sm ${balanceDimension === key ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedReport === 'valuation' && (
+            <div className="inline-flex rounded-md border border-border overflow-hidden mb-4">
+              {VALUATION_METHODS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setValuationMethod(key)}
+                  className={`px-3 py-2 text-sm ${valuationMethod === key ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          {selectedReport === 'aging' && (
+            <div className="inline-flex rounded-md border border-border overflow-hidden mb-4">
+              {AGING_DIMENSIONS.map(({ key, label }) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setAgingDimension(key)}
+                  className={`px-3 py-2 text-sm ${agingDimension === key ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
           {loading ? (
             <TableSkeleton rows={10} />
           ) : (
@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CalendarRange, TrendingUp } from 'lucide-react';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
+import { DataCard } from '@/components/DataCard';
+import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
+import { KPICard } from '@/components/KPICard';
+import { ChartSkeleton, KPICardSkeleton, TableSkeleton } from '@/components/LoadingSkeleton';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { CashForecastChart } from '@/components/purchase/CashForecastChart';
+import { PAYMENT_PLAN_QUERY_KEY, PaymentPlanTable } from '@/components/purchase/PaymentPlanTable';
+import { requestJson } from '@/lib/api-client';
+import { exportStyledReport } from '@/lib/exportExcel';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { getAPOpenInvoicesQuery } from '@/lib/data/purchase-queries';
+import {
+  CASH_FORECAST_CURRENCY_COLUMNS,
+  CASH_FORECAST_HEADERS,
+  PAYMENT_PLAN_CURRENCY_COLUMNS,
+  PAYMENT_PLAN_HEADERS,
+  paymentPlanRows,
+} from '@/lib/payables/plan';
+import {
+  DEFAULT_FORECAST_WEEKS,
+  FORECAST_WEEK_OPTIONS,
+  INFLOW_HISTORY_WEEKS,
+  type CashForecastWeek,
+  type PaymentPlan,
+} from '@/lib/payables/types';
+
+const signedClass = (value: number) => (value < 0 ? 'text-red-600' : 'text-green-600');
+
+export default function PayablesPage() {
+  const selectedBranches = useBranchStore((s) => s.selectedBranches);
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
+
+  const [weeks, setWeeks] = useState<number>(DEFAULT_FORECAST_WEEKS);
+
+  const { data: plan, isLoading, error, refetch } = useQuery({
+    queryKey: [...PAYMENT_PLAN_QUERY_KEY, weeks, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ weeks: String(weeks) });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<PaymentPlan>(`/api/purchase/payment-plan?${params}`);
+    },
+  });
+
+  const forecastColumns: ColumnDef<CashForecastWeek>[] = [
+    {
+      key: 'weekStart',
+      header: 'สัปดาห์',
+      align: 'left',
+      render: (week) => `${formatDate(week.weekStart)} – ${formatDate(week.weekEnd)}`,
+    },
+    { key: 'invoiceCount', header: 'จำนวนใบ', align: 'right', render: (week) => week.invoiceCount.toLocaleString('th-TH') },
+    { key: 'dueAmount', header: 'ครบกำหนด (ยังไม่นัด)', align: 'right', render: (week) => formatCurrency(week.dueAmount) },
+    { key: 'scheduledAmount', header: 'นัดจ่ายแล้ว', align: 'right', render: (week) => formatCurrency(week.scheduledAmount) },
+    { key: 'outflow', header: 'รวมเงินจ่าย', align: 'right', render: (week) => <span className="font-medium">{formatCurrency(week.outflow)}</span> },
+    { key: 'expectedInflow', header: 'เงินรับคาดการณ์', align: 'right', render: (week) => formatCurrency(week.expectedInflow) },
+    { key: 'net', header: 'สุทธิ', align: 'right', render: (week) => <span className={signedClass(week.net)}>{formatCurrency(week.net)}</span> },
+    {
+      key: 'cumulativeNet',
+      header: 'สุทธิสะสม',
+      align: 'right',
+      render: (week) => <span className={`font-medium ${signedClass(week.cumulativeNet)}`}>{formatCurrency(week.cumulativeNet)}</span>,
+    },
+  ];
+
+  const subtitle = `กิจการ: ${selectedBranchLabel} | ณ วันที่ ${plan ? formatDate(plan.today) : ''} | ประมาณการ ${weeks} สัปดาห์`;
+
+  const handleExportForecast = () => {
+    if (!plan) return;
+    exportStyledReport({
+      data: plan.weeks,
+      headers: CASH_FORECAST_HEADERS,
+      filename: 'ประมาณการเงินสดจ่ายเจ้าหนี้',
+      sheetName: 'ประมาณการเงินสด',
+      title: 'ประมาณการเงินสดจ่ายเจ้าหนี้รายสัปดาห์',
+      subtitle,
+      branch: reportBranch,
+      numberColumns: ['invoiceCount'],
+      currencyColumns: CASH_FORECAST_CURRENCY_COLUMNS,
+      summaryConfig: {
+        columns: { invoiceCount: 'sum', dueAmount: 'sum', scheduledAmount: 'sum', outflow: 'sum', expectedInflow: 'sum', net: 'sum' },
+      },
+    });
+  };
+
+  const handleExportPlan = () => {
+    if (!plan) return;
+    exportStyledReport({
+      data: paymentPlanRows(plan),
+      headers: PAYMENT_PLAN_HEADERS,
+      filename: 'แผนจ่ายเจ้าหนี้',
+      sheetName: 'แผนจ่ายเจ้าหนี้',
+      title: 'แผนจ่ายเจ้าหนี้',
+      subtitle,
+      branch: reportBranch,
+      currencyColumns: PAYMENT_PLAN_CURRENCY_COLUMNS,
+      summaryConfig: { columns: { outstanding: 'sum', plannedAmount: 'sum' } },
+    });
+  };
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: { opacity: 1, transition: { staggerChildren: 0.1 } },
+  };
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0, transition: { duration: 0.4 } },
+  };
+
+  return (
+    <PermissionGuard componentKey="purchase.ap_outstanding">
+      <motion.div className="space-y-6" variants={containerVariants} initial="hidden" animate="visible">
+        <motion.div variants={itemVariants} className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold tracking-tight">แผนจ่ายเจ้าหนี้</h1>
+            <p className="text-muted-foreground mt-1 text-sm">
+              ใบซื้อเงินเชื่อที่ค้างจ่ายจัดเป็นรายสัปดาห์ นัดวันจ่าย และประมาณการเงินสดที่ต้องใช้
+            </p>
+          </div>
+          <div className="inline-flex rounded-md border border-border overflow-hidden">
+            {FORECAST_WEEK_OPTIONS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setWeeks(option)}
+                className={`px-3 py-2 text-sm ${weeks === option ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+              >
+                {option} สัปดาห์
+              </button>
+            ))}
+          </div>
+        </motion.div>
+
+        {error && (
+          <motion.div variants={itemVariants}>
+            <ErrorDisplay error={error} onRetry={() => refetch()} />
+          </motion.div>
+        )}
+
+        <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-3">
+          {isLoading || !plan ? (
+            Array.from({ length: 3 }).map((_, i) => <KPICardSkeleton key={i} />)
+          ) : (
+            <>
+              <KPICard
+                title="เกินกำหนดยังไม่นัดจ่าย"
+                value={`฿${formatCurrency(plan.overdue.amount)}`}
+                subtitle={`${plan.overdue.count.toLocaleString('th-TH')} ใบ (รวมในสัปดาห์แรก)`}
+                icon={AlertTriangle}
+              />
+              <KPICard
+                title="ครบกำหนดหลังช่วงประมาณการ"
+                value={`฿${formatCurrency(plan.later.amount)}`}
+                subtitle={`${plan.later.count.toLocaleString('th-TH')} ใบ`}
+                icon={CalendarRange}
+              />
+              <KPICard
+                title="เงินรับเฉลี่ยต่อสัปดาห์"
+                value={`฿${formatCurrency(plan.averageWeeklyInflow)}`}
+                subtitle={`เฉลี่ย ${INFLOW_HISTORY_WEEKS} สัปดาห์ที่ผ่านมา`}
+                icon={TrendingUp}
+              />
+            </>
+          )}
+        </motion.div>
+
+        <motion.div variants={itemVariants}>
+          <ErrorBoundary>
+            <DataCard
+              id="cash-forecast"
+              title="ประมาณการเงินสดรายสัปดาห์"
+              description="เงินจ่ายเจ้าหนี้ตามวันนัดจ่ายหรือวันครบกำหนด เทียบเงินรับเฉลี่ยย้อนหลัง"
+              onExportExcel={handleExportForecast}
+            >
+              {isLoading || !plan ? (
+                <ChartSkeleton />
+              ) : (
+                <div className="space-y-4">
+                  <CashForecastChart data={plan.weeks} />
+                  <PaginatedTable
+                    data={plan.weeks}
+                    columns={forecastColumns}
+                    itemsPerPage={12}
+                    emptyMessage="ไม่มีข้อมูล"
+                    keyExtractor={(week) => week.weekStart}
+                  />
+                </div>
+              )}
+            </DataCard>
+          </ErrorBoundary>
+        </motion.div>
+
+        <motion.div variants={itemVariants}>
+          <ErrorBoundary>
+            <DataCard
+              id="payment-plan"
+              title="ใบซื้อค้างจ่าย"
+              description="เลือกใบซื้อแล้วกำหนดวันนัดจ่าย ใบที่นัดแล้วจะย้ายไปอยู่ในสัปดาห์ของวันนัด"
+              queryInfo={{ query: getAPOpenInvoicesQuery(selectedBranches), format: 'JSONEachRow' }}
+              onExportExcel={handleExportPlan}
+            >
+              {isLoading || !plan ? (
+                <TableSkeleton rows={10} />
+              ) : (
+                <PaymentPlanTable key={plan.today} invoices={plan.invoices} defaultDate={plan.today} />
+              )}
+            </DataCard>
+          </ErrorBoundary>
+        </motion.div>
+      </motion.div>
+    </PermissionGuard>
+  );
+}
@@ -0,0 +1,429 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { useDateRangeStore } from '@/store/useDateRangeStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore, type BranchInfo } from '@/store/useBranchStore';
+import { DataCard } from '@/components/DataCard';
+import { DateRangeFilter } from '@/components/DateRangeFilter';
+import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
+import { ChartSkeleton, TableSkeleton } from '@/components/LoadingSkeleton';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { PaymentFlowChart } from '@/components/payments/PaymentFlowChart';
+import { PaymentMethodChart } from '@/components/payments/PaymentMethodChart';
+import { requestJson } from '@/lib/api-client';
+import { exportStyledReport } from '@/lib/exportExcel';
+import { formatCurrency, formatPercent } from '@/lib/formatters';
+import {
+  getCardFeesQuery,
+  getCashInByBranchQuery,
+  getPaymentFlowQuery,
+  getPaymentMethodTrendQuery,
+  getWithholdingTaxQuery,
+  paymentPeriod,
+} from '@/lib/data/payments-queries';
+import type { DateRange } from '@/lib/data/types';
+import {
+  PAYMENT_METHODS,
+  type CardFee,
+  type CashInByBranch,
+  type PaymentFlow,
+  type PaymentMethodTrend,
+  type WithholdingTax,
+} from '@/lib/payments/types';
+
+const METHOD_HEADERS = Object.fromEntries(PAYMENT_METHODS.map(({ key, label }) => [key, label]));
+const METHOD_KEYS = PAYMENT_METHODS.map(({ key }) => key);
+const sumColumns = (keys: string[]) => Object.fromEntries(keys.map((key) => [key, 'sum' as const]));
+const sumOf = <T,>(data: T[], pick: (row: T) => number) => data.reduce((sum, row) => sum + pick(row), 0);
+
+interface SectionProps {
+  dateRange: DateRange;
+  selectedBranches: string[];
+  /** ข้อความกิจการและช่วงวันที่สำหรับหัวรายงาน */
+  subtitle: string;
+  reportBranch?: BranchInfo;
+}
+
+function usePaymentsReport<T>(endpoint: string, dateRange: DateRange, selectedBranches: string[]) {
+  return useQuery({
+    queryKey: ['payments', endpoint, dateRange, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ start_date: dateRange.start, end_date: dateRange.end });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<T[]>(`/api/payments/${endpoint}?${params}`);
+    },
+  });
+}
+
+function PaymentMethodSection({ dateRange, selectedBranches, subtitle, reportBranch }: SectionProps) {
+  const { data = [], isLoading, error, refetch } = usePaymentsReport<PaymentMethodTrend>('method-mix', dateRange, selectedBranches);
+  const totals = Object.fromEntries(METHOD_KEYS.map((key) => [key, sumOf(data, (row) => row[key])]));
+  const grandTotal = sumOf(data, (row) => row.total);
+
+  return (
+    <DataCard
+      id="payment-methods"
+      title="ช่องทางรับชำระ"
+      description={`เงินรับแยกเงินสด เงินโอน เช็ค บัตร คูปอง แต้ม และ Wallet ราย${paymentPeriod(dateRange) === 'day' ? 'วัน' : 'เดือน'}`}
+      queryInfo={{ query: getPaymentMethodTrendQuery(dateRange, selectedBranches), format: 'JSONEachRow' }}
+      onExportExcel={() =>
+        exportStyledReport({
+          data,
+          headers: { period: 'ช่วงเวลา', ...METHOD_HEADERS, total: 'รวมเงินรับ' },
+          filename: 'ช่องทางรับชำระ',
+          title: 'เงินรับแยกช่องทางชำระ',
+          subtitle,
+          branch: reportBranch,
+          currencyColumns: [...METHOD_KEYS, 'total'],
+          summaryConfig: { columns: sumColumns([...METHOD_KEYS, 'total']) },
+        })
+      }
+    >
+      {error ? (
+        <ErrorDisplay error={error} onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <ChartSkeleton />
+      ) : (
+        <div className="space-y-4">
+          <PaymentMethodChart data={data} />
+          {grandTotal !== 0 && (
+            <div className="grid gap-2 grid-cols-2 md:grid-cols-4">
+              {PAYMENT_METHODS.filter(({ key }) => totals[key] !== 0).map(({ key, label }) => (
+                <div key={key} className="rounded-md border border-border p-3">
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="font-semibold">฿{formatCurrency(totals[key])}</p>
+                  <p className="text-xs text-muted-foreground">{formatPercent((totals[key] / grandTotal) * 100)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </DataCard>
+  );
+}
+
+function PaymentFlowSection({ dateRange, selectedBranches, subtitle, reportBranch }: SectionProps) {
+  const { data = [], isLoading, error, refetch } = usePaymentsReport<PaymentFlow>('flow', dateRange, selectedBranches);
+
+  return (
+    <DataCard
+      id="payment-flow"
+      title="เงินรับ / เงินจ่าย"
+      description="รวมยอดรับเงิน (ลูกหนี้และอื่นๆ) เทียบยอดจ่ายเงิน (เจ้าหนี้และอื่นๆ)"
+      queryInfo={{ query: getPaymentFlowQuery(dateRange, selectedBranches), format: 'JSONEachRow' }}
+      onExportExcel={() =>
+        exportStyledReport({
+          data,
+          headers: {
+            period: 'ช่วงเวลา',
+            inflowCount: 'จำนวนใบรับ',
+            inflow: 'เงินรับ',
+            outflowCount: 'จำนวนใบจ่าย',
+            outflow: 'เงินจ่าย',
+            net: 'สุทธิ',
+          },
+          filename: 'เงินรับเงินจ่าย',
+          title: 'เงินรับเทียบเงินจ่าย',
+          subtitle,
+          branch: reportBranch,
+          numberColumns: ['inflowCount', 'outflowCount'],
+          currencyColumns: ['inflow', 'outflow', 'net'],
+          summaryConfig: { columns: sumColumns(['inflowCount', 'inflow', 'outflowCount', 'outflow', 'net']) },
+        })
+      }
+    >
+      {error ? (
+        <ErrorDisplay error={error} onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <ChartSkeleton />
+      ) : (
+        <PaymentFlowChart data={data} />
+      )}
+    </DataCard>
+  );
+}
+
+function CardFeesSection({ dateRange, selectedBranches, subtitle, reportBranch }: SectionProps) {
+  const { data = [], isLoading, error, refetch } = usePaymentsReport<CardFee>('card-fees', dateRange, selectedBranches);
+
+  const columns: ColumnDef<CardFee>[] = [
+    { key: 'period', header: 'ช่วงเวลา', align: 'left', sortable: true },
+    { key: 'docCount', header: 'จำนวนใบ', align: 'right', sortable: true, render: (row) => row.docCount.toLocaleString('th-TH') },
+    { key: 'cardAmount', header: 'ยอดรับบัตร', align: 'right', sortable: true, render: (row) => formatCurrency(row.cardAmount) },
+    { key: 'creditCharge', header: 'ค่า charge บัตร', align: 'right', sortable: true, render: (row) => formatCurrency(row.creditCharge) },
+    { key: 'feeRate', header: '% ค่าธรรมเนียม', align: 'right', sortable: true, render: (row) => formatPercent(row.feeRate) },
+  ];
+
+  return (
+    <DataCard
+      id="card-fees"
+      title="ค่าธรรมเนียมบัตรเครดิต"
+      description="ยอดรับชำระด้วยบัตรและค่า charge บัตรเครดิต"
+      queryInfo={{ query: getCardFeesQuery(dateRange, selectedBranches), format: 'JSONEachRow' }}
+      onExportExcel={() =>
+        exportStyledReport({
+          data,
+          headers: { period: 'ช่วงเวลา', docCount: 'จำนวนใบ', cardAmount: 'ยอดรับบัตร', creditCharge: 'ค่า charge บัตร', feeRate: '% ค่าธรรมเนียม' },
+          filename: 'ค่าธรรมเนียมบัตรเครดิต',
+          title: 'ค่าธรรมเนียมบัตรเครดิต',
+          subtitle,
+          branch: reportBranch,
+          numberColumns: ['docCount'],
+          currencyColumns: ['cardAmount', 'creditCharge'],
+          percentColumns: ['feeRate'],
+          summaryConfig: { columns: sumColumns(['docCount', 'cardAmount', 'creditCharge']) },
+        })
+      }
+    >
+      {error ? (
+        <ErrorDisplay error={error} onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <TableSkeleton rows={6} />
+      ) : (
+        <PaginatedTable
+          data={data}
+          columns={columns}
+          itemsPerPage={12}
+          emptyMessage="ไม่มีการรับชำระด้วยบัตรในช่วงนี้"
+          keyExtractor={(row) => row.period}
+          showSummary
+          summaryConfig={{
+            label: 'รวม',
+            values: {
+              docCount: (rows) => sumOf(rows, (row) => row.docCount).toLocaleString('th-TH'),
+              cardAmount: (rows) => formatCurrency(sumOf(rows, (row) => row.cardAmount)),
+              creditCharge: (rows) => formatCurrency(sumOf(rows, (row) => row.creditCharge)),
+              feeRate: (rows) => {
+                const card = sumOf(rows, (row) => row.cardAmount);
+                return formatPercent(card !== 0 ? (sumOf(rows, (row) => row.creditCharge) / card) * 100 : 0);
+              },
+            },
+          }}
+        />
+      )}
+    </DataCard>
+  );
+}
+
+function WithholdingTaxSection({ dateRange, selectedBranches, subtitle, reportBranch }: SectionProps) {
+  const { data = [], isLoading, error, refetch } = usePaymentsReport<WithholdingTax>('withholding-tax', dateRange, selectedBranches);
+
+  const columns: ColumnDef<WithholdingTax>[] = [
+    { key: 'period', header: 'ช่วงเวลา', align: 'left', sortable: true },
+    { key: 'docCount', header: 'จำนวนใบ', align: 'right', sortable: true, render: (row) => row.docCount.toLocaleString('th-TH') },
+    {
+      key: 'withheldOnPayments',
+      header: 'หักไว้ตอนจ่ายเงิน (ต้องนำส่ง)',
+      align: 'right',
+      sortable: true,
+      render: (row) => formatCurrency(row.withheldOnPayments),
+    },
+    {
+      key: 'withheldOnReceipts',
+      header: 'ถูกหักตอนรับเงิน',
+      align: 'right',
+      sortable: true,
+      render: (row) => formatCurrency(row.withheldOnReceipts),
+    },
+  ];
+
+  return (
+    <DataCard
+      id="withholding-tax"
+      title="ภาษีหัก ณ ที่จ่าย"
+      description="ภาษีที่หักไว้เมื่อจ่ายเงินให้เจ้าหนี้ และภาษีที่ลูกค้าหักไว้เมื่อรับเงิน"
+      queryInfo={{ query: getWithholdingTaxQuery(dateRange, selectedBranches), format: 'JSONEachRow' }}
+      onExportExcel={() =>
+        exportStyledReport({
+          data,
+          headers: {
+            period: 'ช่วงเวลา',
+            docCount: 'จำนวนใบ',
+            withheldOnPayments: 'หักไว้ตอนจ่ายเงิน',
+            withheldOnReceipts: 'ถูกหักตอนรับเงิน',
+          },
+          filename: 'ภาษีหัก ณ ที่จ่าย',
+          title: 'ภาษีหัก ณ ที่จ่าย',
+          subtitle,
+          branch: reportBranch,
+          numberColumns: ['docCount'],
+          currencyColumns: ['withheldOnPayments', 'withheldOnReceipts'],
+          summaryConfig: { columns: sumColumns(['docCount', 'withheldOnPayments', 'withheldOnReceipts']) },
+        })
+      }
+    >
+      {error ? (
+        <ErrorDisplay error={error} onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <TableSkeleton rows={6} />
+      ) : (
+        <PaginatedTable
+          data={data}
+          columns={columns}
+          itemsPerPage={12}
+          emptyMessage="ไม่มีภาษีหัก ณ ที่จ่ายในช่วงนี้"
+          keyExtractor={(row) => row.period}
+          showSummary
+          summaryConfig={{
+            label: 'รวม',
+            values: {
+              docCount: (rows) => sumOf(rows, (row) => row.docCount).toLocaleString('th-TH'),
+              withheldOnPayments: (rows) => formatCurrency(sumOf(rows, (row) => row.withheldOnPayments)),
+              withheldOnReceipts: (rows) => formatCurrency(sumOf(rows, (row) => row.withheldOnReceipts)),
+            },
+          }}
+        />
+      )}
+    </DataCard>
+  );
+}
+
+function CashInByBranchSection({ dateRange, selectedBranches, subtitle, reportBranch }: SectionProps) {
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const { data = [], isLoading, error, refetch } = usePaymentsReport<CashInByBranch>('by-branch', dateRange, selectedBranches);
+  const branchName = (key: string) => availableBranches.find((b) => b.key === key)?.name || key;
+
+  const columns: ColumnDef<CashInByBranch>[] = [
+    { key: 'branchSync', header: 'กิจการ', align: 'left', render: (row) => branchName(row.branchSync) },
+    { key: 'docCount', header: 'จำนวนใบ', align: 'right', sortable: true, render: (row) => row.docCount.toLocaleString('th-TH') },
+    ...PAYMENT_METHODS.map(
+      ({ key, label }): ColumnDef<CashInByBranch> => ({
+        key,
+        header: label,
+        align: 'right',
+        sortable: true,
+        render: (row) => formatCurrency(row[key]),
+      })
+    ),
+    { key: 'total', header: 'รวมเงินรับ', align: 'right', sortable: true, render: (row) => <span className="font-medium">{formatCurrency(row.total)}</span> },
+  ];
+
+  return (
+    <DataCard
+      id="cash-in-by-branch"
+      title="เงินรับตามกิจการ"
+      description="เงินรับของแต่ละกิจการแยกตามช่องทางชำระ"
+      queryInfo={{ query: getCashInByBranchQuery(dateRange, selectedBranches), format: 'JSONEachRow' }}
+      onExportExcel={() =>
+        exportStyledReport({
+          data: data.map((row) => ({ ...row, branchSync: branchName(row.branchSync) })),
+          headers: { branchSync: 'กิจการ', docCount: 'จำนวนใบ', ...METHOD_HEADERS, total: 'รวมเงินรับ' },
+          filename: 'เงินรับตามกิจการ',
+          title: 'เงินรับตามกิจการ',
+          subtitle,
+          branch: reportBranch,
+          numberColumns: ['docCount'],
+          currencyColumns: [...METHOD_KEYS, 'total'],
+          summaryConfig: { columns: sumColumns(['docCount', ...METHOD_KEYS, 'total']) },
+        })
+      }
+    >
+      {error ? (
+        <ErrorDisplay error={error} onRetry={() => refetch()} />
+      ) : isLoading ? (
+        <TableSkeleton rows={4} />
+      ) : (
+        <PaginatedTable
+          data={data}
+          columns={columns}
+          itemsPerPage={20}
+          emptyMessage="ไม่มีเงินรับในช่วงนี้"
+          keyExtractor={(row) => row.branchSync}
+          defaultSortKey="total"
+          defaultSortOrder="desc"
+          showSummary
+          summaryConfig={{
+            label: 'รวม',
+            values: Object.fromEntries(
+              ['docCount', ...METHOD_KEYS, 'total'].map((key) => [
+                key,
+                (rows: CashInByBranch[]) => {
+                  const total = sumOf(rows, (row) => Number(row[key as keyof CashInByBranch]) || 0);
+                  return key === 'docCount' ? total.toLocaleString('th-TH') : formatCurrency(total);
+                },
+              ])
+            ),
+          }}
+        />
+      )}
+    </DataCard>
+  );
+}
+
+export default function PaymentsPage() {
+  const { dateRange, setDateRange } = useDateRangeStore();
+  const selectedBranches = useBranchStore((s) => s.selectedBranches);
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+
+  const sectionProps: SectionProps = {
+    dateRange,
+    selectedBranches,
+    subtitle: `กิจการ: ${formatSelectedBranchNames(selectedBranches, availableBranches)} | ${dateRange.start} ถึง ${dateRange.end}`,
+    reportBranch: getReportBranch(selectedBranches, availableBranches),
+  };
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: { opacity: 1, transition: { staggerChildren: 0.1 } },
+  };
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0, transition: { duration: 0.4 } },
+  };
+
+  return (
+    <motion.div className="space-y-6" variants={containerVariants} initial="hidden" animate="visible">
+      <motion.div variants={itemVariants} className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+        <div className="flex-1">
+          <h1 className="text-3xl font-bold tracking-tight">การรับ/จ่ายเงิน</h1>
+          <p className="text-muted-foreground mt-1 text-sm">
+            ช่องทางชำระ เงินรับเทียบเงินจ่าย ค่าธรรมเนียมบัตร ภาษีหัก ณ ที่จ่าย และเงินรับตามกิจการ
+          </p>
+        </div>
+        <DateRangeFilter value={dateRange} onChange={setDateRange} />
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <ErrorBoundary>
+          <PermissionGuard componentKey="accounting.payment_methods">
+            <PaymentMethodSection {...sectionProps} />
+          </PermissionGuard>
+        </ErrorBoundary>
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <ErrorBoundary>
+          <PermissionGuard componentKey="accounting.payment_flow">
+            <PaymentFlowSection {...sectionProps} />
+          </PermissionGuard>
+        </ErrorBoundary>
+      </motion.div>
+
+      <motion.div variants={itemVariants} className="grid gap-6 grid-cols-1 lg:grid-cols-2">
+        <ErrorBoundary>
+          <PermissionGuard componentKey="accounting.card_fees">
+            <CardFeesSection {...sectionProps} />
+          </PermissionGuard>
+        </ErrorBoundary>
+        <ErrorBoundary>
+          <PermissionGuard componentKey="accounting.withholding_tax">
+            <WithholdingTaxSection {...sectionProps} />
+          </PermissionGuard>
+        </ErrorBoundary>
+      </motion.div>
+
+      <motion.div variants={itemVariants}>
+        <ErrorBoundary>
+          <PermissionGuard componentKey="accounting.cash_in_by_branch">
+            <CashInByBranchSection {...sectionProps} />
+          </PermissionGuard>
+        </ErrorBoundary>
+      </motion.div>
+    </motion.div>
+  );
+}
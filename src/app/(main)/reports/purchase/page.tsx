@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import { useDateRangeStore } from '@/store/useDateRangeStore';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
-import { formatSelectedBranchNames, useBranchStore } from '@/store/useBranchStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
 import { DataCard } from '@/components/DataCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
@@ -118,10 +118,11 @@ function PurchaseReportContent() {
   const selectedBranches = useBranchStore((s) => s.selectedBranches);
   const availableBranches = useBranchStore((s) => s.availableBranches);
   const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
   const withBranchSubtitle = (detail: string) => `กิจการ: ${selectedBranchLabel} | ${detail}`;
 
   // Handle URL hash for report selection
-  useReportHash(reportOptions, setSelectedReport);
+  useReportHash(reportOptions, setSelectedReport, selectedReport);
 
   // Effect to read accountCode from URL on load
   useEffect(() => {
@@ -1067,6 +1068,7 @@ function PurchaseReportContent() {
             sheetName: 'Purchase Analysis',
             title: `รายงานวิเคราะห์ยอดซื้อสินค้า - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount', 'qty'],
             numberColumns: [],
             summaryConfig: {
@@ -1091,6 +1093,7 @@ function PurchaseReportContent() {
             sheetName: 'Purchase Trend',
             title: 'รายงานแนวโน้มการจัดซื้อ',
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['totalPurchases', 'avgPOValue'],
             numberColumns: ['poCount'],
             summaryConfig: {
@@ -1111,6 +1114,7 @@ function PurchaseReportContent() {
           sheetName: 'Top Suppliers',
           title: 'รายงานซัพพลายเออร์ยอดนิยม',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount'],
           currencyColumns: ['totalPurchase', 'avgOrderValue'],
           summaryConfig: {
@@ -1134,6 +1138,7 @@ function PurchaseReportContent() {
             sheetName: 'By Category',
             title: `รายงานการซื้อตามหมวดหมู่ - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['totalQty'],
             currencyColumns: ['totalPurchaseValue'],
             summaryConfig: {
@@ -1153,6 +1158,7 @@ function PurchaseReportContent() {
           sheetName: 'By Brand',
           title: 'รายงานการซื้อตามแบรนด์',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['itemCount', 'totalQty'],
           currencyColumns: ['totalPurchase'],
           percentColumns: ['percentage'],
@@ -1172,6 +1178,7 @@ function PurchaseReportContent() {
           sheetName: 'AP Outstanding',
           title: 'รายงานสถานะเจ้าหนี้การค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['totalOutstanding', 'overdueAmount'],
           numberColumns: ['docCount'],
           summaryConfig: {
@@ -1206,6 +1213,7 @@ function PurchaseReportContent() {
             sheetName: 'Expense Items',
             title: `รายงานค่าใช้จ่ายตามผังบัญชี - ${accountName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
@@ -1246,6 +1254,7 @@ function PurchaseReportContent() {
             sheetName: 'Supplier Details',
             title: `รายงานรายละเอียดตามซัพพลายเออร์ - ${supplierName}`,
             subtitle: withBranchSubtitle(`ผังบัญชี: ${accountName} | ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
@@ -1283,6 +1292,7 @@ function PurchaseReportContent() {
             filename: `รายงานวิเคราะห์ยอดซื้อสินค้า_${categoryName}`,
             title: `รายงานวิเคราะห์ยอดซื้อสินค้า - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount', 'qty'],
             numberColumns: [],
             summaryConfig: {
@@ -1306,6 +1316,7 @@ function PurchaseReportContent() {
             filename: 'แนวโน้มการจัดซื้อ',
             title: 'รายงานแนวโน้มการจัดซื้อ',
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['totalPurchases', 'avgPOValue'],
             numberColumns: ['poCount'],
             summaryConfig: {
@@ -1325,6 +1336,7 @@ function PurchaseReportContent() {
           filename: 'ซัพพลายเออร์ยอดนิยม',
           title: 'รายงานซัพพลายเออร์ยอดนิยม',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount'],
           currencyColumns: ['totalPurchase', 'avgOrderValue'],
           summaryConfig: {
@@ -1347,6 +1359,7 @@ function PurchaseReportContent() {
             filename: `การซื้อตามหมวดหมู่_${categoryName}`,
             title: `รายงานการซื้อตามหมวดหมู่ - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['totalQty'],
             currencyColumns: ['totalPurchaseValue'],
             summaryConfig: {
@@ -1365,6 +1378,7 @@ function PurchaseReportContent() {
           filename: 'การซื้อตามแบรนด์',
           title: 'รายงานการซื้อตามแบรนด์',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['itemCount', 'totalQty'],
           currencyColumns: ['totalPurchase'],
           percentColumns: ['percentage'],
@@ -1383,6 +1397,7 @@ function PurchaseReportContent() {
           filename: 'สถานะเจ้าหนี้การค้า',
           title: 'รายงานสถานะเจ้าหนี้การค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           currencyColumns: ['totalOutstanding', 'overdueAmount'],
           numberColumns: ['docCount'],
           summaryConfig: {
@@ -1416,6 +1431,7 @@ function PurchaseReportContent() {
             filename: `ค่าใช้จ่ายตามผังบัญชี_${accountName}`,
             title: `รายงานค่าใช้จ่ายตามผังบัญชี - ${accountName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
@@ -1455,6 +1471,7 @@ function PurchaseReportContent() {
             filename: `รายละเอียดตามซัพพลายเออร์_${supplierName}_${accountName}`,
             title: `รายงานรายละเอียดตามซัพพลายเออร์ - ${supplierName}`,
             subtitle: withBranchSubtitle(`ผังบัญชี: ${accountName} | ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
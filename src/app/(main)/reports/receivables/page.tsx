@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { BellRing } from 'lucide-react';
+import { useDateRangeStore } from '@/store/useDateRangeStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
+import { DataCard } from '@/components/DataCard';
+import { DateRangeFilter } from '@/components/DateRangeFilter';
+import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { CustomerAgingTable } from '@/components/accounting/CustomerAgingTable';
+import { CustomerStatementPanel } from '@/components/accounting/CustomerStatementPanel';
+import { requestJson } from '@/lib/api-client';
+import { exportStyledPdfReport } from '@/lib/exportPdf';
+import { exportStyledReport } from '@/lib/exportExcel';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { getCustomerAgingQuery } from '@/lib/data/receivables-queries';
+import { AGING_BUCKETS, type BranchDSO, type ReceivablesSummary } from '@/lib/receivables/types';
+
+const AGING_EXPORT_HEADERS: Record<string, string> = {
+  customerCode: 'รหัสลูกค้า',
+  customerName: 'ชื่อลูกค้า',
+  invoiceCount: 'จำนวนใบ',
+  ...Object.fromEntries(AGING_BUCKETS.map(({ key, label }) => [key, label])),
+  total: 'รวมค้างชำระ',
+  dso: 'DSO (วัน)',
+};
+
+const AGING_EXPORT_CURRENCY_COLUMNS = [...AGING_BUCKETS.map(({ key }) => key), 'total'];
+
+export default function ReceivablesPage() {
+  const { dateRange, setDateRange } = useDateRangeStore();
+  const selectedBranches = useBranchStore((s) => s.selectedBranches);
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
+
+  /** ลูกค้าที่เปิดดูใบแจ้งยอด */
+  const [selectedCustomer, setSelectedCustomer] = useState<{ code: string; name: string } | null>(null);
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['receivables', dateRange, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ start_date: dateRange.start, end_date: dateRange.end });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<ReceivablesSummary>(`/api/accounting/receivables?${params}`);
+    },
+  });
+
+  const customers = data?.customers ?? [];
+  const followUps = data?.followUps ?? [];
+  const branchName = (key: string) => availableBranches.find((b) => b.key === key)?.name || key;
+
+  const branchColumns: ColumnDef<BranchDSO>[] = [
+    { key: 'branchSync', header: 'กิจการ', align: 'left', render: (row) => branchName(row.branchSync) },
+    { key: 'outstanding', header: 'ยอดค้างชำระ', align: 'right', sortable: true, render: (row) => formatCurrency(row.outstanding) },
+    { key: 'creditSales', header: 'ขายเชื่อในช่วง', align: 'right', sortable: true, render: (row) => formatCurrency(row.creditSales) },
+    {
+      key: 'dso',
+      header: 'DSO (วัน)',
+      align: 'right',
+      sortable: true,
+      render: (row) => (row.dso === null ? '-' : <span className="font-medium">{row.dso.toLocaleString('th-TH')}</span>),
+    },
+  ];
+
+  const agingExport = {
+    data: customers,
+    headers: AGING_EXPORT_HEADERS,
+    filename: 'รายงานอายุลูกหนี้รายตัว',
+    title: 'รายงานอายุลูกหนี้รายตัว',
+    subtitle: `กิจการ: ${selectedBranchLabel} | ใบแจ้งหนี้ถึงวันที่ ${dateRange.end} อายุหนี้ ณ วันนี้`,
+    branch: reportBranch,
+    numberColumns: ['invoiceCount', 'dso'],
+    currencyColumns: AGING_EXPORT_CURRENCY_COLUMNS,
+    summaryConfig: {
+      columns: Object.fromEntries(AGING_EXPORT_CURRENCY_COLUMNS.map((key) => [key, 'sum' as const])),
+    },
+  };
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: { opacity: 1, transition: { staggerChildren: 0.1 } },
+  };
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0, transition: { duration: 0.4 } },
+  };
+
+  return (
+    <PermissionGuard componentKey="accounting.ar_aging">
+      <motion.div className="space-y-6" variants={containerVariants} initial="hidden" animate="visible">
+        <motion.div variants={itemVariants} className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold tracking-tight">ลูกหนี้รายตัว</h1>
+            <p className="text-muted-foreground mt-1 text-sm">
+              อายุหนี้ต่อลูกค้า ใบแจ้งยอด DSO และการติดตามหนี้
+            </p>
+          </div>
+          <DateRangeFilter value={dateRange} onChange={setDateRange} />
+        </motion.div>
+
+        {error && (
+          <motion.div variants={itemVariants}>
+            <ErrorDisplay error={error} onRetry={() => refetch()} />
+          </motion.div>
+        )}
+
+        {followUps.length > 0 && (
+          <motion.div variants={itemVariants} className="rounded-lg border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-4">
+            <h2 className="font-semibold flex items-center gap-2 text-amber-800 dark:text-amber-300">
+              <BellRing className="h-4 w-4" />
+              ถึงกำหนดติดตาม {followUps.length} รายการ
+            </h2>
+            <ul className="mt-2 space-y-1 text-sm">
+              {followUps.map((note) => (
+                <li key={note.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedCustomer({ code: note.customerCode, name: note.customerName })}
+                    className="font-medium hover:underline"
+                  >
+                    {note.customerName || note.customerCode}
+                  </button>
+                  <span className="text-muted-foreground">
+                    {note.followUpDate && ` · ติดตาม ${formatDate(note.followUpDate)}`}
+                    {note.promisedDate && ` · นัดชำระ ${formatDate(note.promisedDate)}`}
+                    {` · ${note.note}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </motion.div>
+        )}
+
+        <motion.div variants={itemVariants}>
+          <ErrorBoundary>
+            <DataCard
+              id="customer-aging"
+              title={selectedCustomer ? 'ใบแจ้งยอดลูกหนี้' : 'อายุลูกหนี้รายตัว'}
+              description={
+                selectedCustomer
+                  ? 'ยอดยกมา ใบแจ้งหนี้เงินเชื่อ รับชำระ และบันทึกการติดตาม'
+                  : 'ยอดค้างของใบแจ้งหนี้เงินเชื่อทุกใบ แยกตามอายุหนี้ 0/30/60/90+ วัน กดที่ลูกค้าเพื่อดูใบแจ้งยอด'
+              }
+              queryInfo={
+                selectedCustomer ? undefined : { query: getCustomerAgingQuery(dateRange, selectedBranches), format: 'JSONEachRow' }
+              }
+              onExportExcel={selectedCustomer ? undefined : () => exportStyledReport(agingExport)}
+              onExportPDF={selectedCustomer ? undefined : () => exportStyledPdfReport(agingExport)}
+            >
+              {selectedCustomer ? (
+                <CustomerStatementPanel
+                  customerCode={selectedCustomer.code}
+                  customerName={selectedCustomer.name}
+                  dateRange={dateRange}
+                  selectedBranches={selectedBranches}
+                  branchLabel={selectedBranchLabel}
+                  reportBranch={reportBranch}
+                  onBack={() => setSelectedCustomer(null)}
+                />
+              ) : isLoading ? (
+                <TableSkeleton rows={10} />
+              ) : (
+                <CustomerAgingTable
+                  data={customers}
+                  onSelect={(customer) => setSelectedCustomer({ code: customer.customerCode, name: customer.customerName })}
+                />
+              )}
+            </DataCard>
+          </ErrorBoundary>
+        </motion.div>
+
+        <motion.div variants={itemVariants}>
+          <DataCard
+            id="branch-dso"
+            title="DSO ต่อกิจการ"
+            description="ระยะเวลาเก็บหนี้เฉลี่ย = ยอดค้างชำระ ÷ ยอดขายเชื่อในช่วง × จำนวนวันของช่วง"
+          >
+            {isLoading ? (
+              <TableSkeleton rows={4} />
+            ) : (
+              <PaginatedTable
+                data={data?.branches ?? []}
+                columns={branchColumns}
+                itemsPerPage={20}
+                emptyMessage="ไม่มีข้อมูลลูกหนี้"
+                keyExtractor={(row) => row.branchSync}
+              />
+            )}
+          </DataCard>
+        </motion.div>
+      </motion.div>
+    </PermissionGuard>
+  );
+}
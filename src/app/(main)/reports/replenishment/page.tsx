@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, ShoppingCart, Truck } from 'lucide-react';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
+import { DataCard } from '@/components/DataCard';
+import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
+import { KPICard } from '@/components/KPICard';
+import { KPICardSkeleton, TableSkeleton } from '@/components/LoadingSkeleton';
+import { PermissionGuard } from '@/components/PermissionGuard';
+import { REPLENISHMENT_QUERY_KEY, ReplenishmentTable } from '@/components/inventory/ReplenishmentTable';
+import { SuggestedOrderList } from '@/components/inventory/SuggestedOrderList';
+import { requestJson } from '@/lib/api-client';
+import { exportStyledReport } from '@/lib/exportExcel';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { getItemDemandQuery } from '@/lib/data/replenishment-queries';
+import {
+  SUGGESTED_ORDER_CURRENCY_COLUMNS,
+  SUGGESTED_ORDER_HEADERS,
+  SUGGESTED_ORDER_NUMBER_COLUMNS,
+  suggestedOrderRows,
+} from '@/lib/replenishment/plan';
+import {
+  DEFAULT_DEMAND_HISTORY_DAYS,
+  DEFAULT_SERVICE_LEVEL,
+  DEMAND_HISTORY_OPTIONS,
+  ORDER_CYCLE_DAYS,
+  SERVICE_LEVELS,
+  type ReplenishmentPlan,
+} from '@/lib/replenishment/types';
+
+const toggleClass = (active: boolean) => `px-3 py-2 text-sm ${active ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`;
+
+export default function ReplenishmentPage() {
+  const selectedBranches = useBranchStore((s) => s.selectedBranches);
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
+  const branchName = (key: string) => availableBranches.find((b) => b.key === key)?.name || key;
+
+  const [historyDays, setHistoryDays] = useState<number>(DEFAULT_DEMAND_HISTORY_DAYS);
+  const [serviceLevel, setServiceLevel] = useState<number>(DEFAULT_SERVICE_LEVEL);
+
+  const { data: plan, isLoading, error, refetch } = useQuery({
+    queryKey: [...REPLENISHMENT_QUERY_KEY, historyDays, serviceLevel, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ history_days: String(historyDays), service_level: String(serviceLevel) });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<ReplenishmentPlan>(`/api/inventory/replenishment?${params}`);
+    },
+  });
+
+  const orderLineCount = plan?.orders.reduce((sum, order) => sum + order.lines.length, 0) ?? 0;
+  const orderValue = plan?.orders.reduce((sum, order) => sum + order.totalValue, 0) ?? 0;
+  const subtitle = `กิจการ: ${selectedBranchLabel} | ณ วันที่ ${plan ? formatDate(plan.asOf) : ''} | ความต้องการ ${historyDays} วัน | ระดับบริการ ${serviceLevel}%`;
+
+  const handleExportOrders = () => {
+    if (!plan) return;
+    exportStyledReport({
+      data: suggestedOrderRows(plan),
+      headers: SUGGESTED_ORDER_HEADERS,
+      filename: 'ใบสั่งซื้อแนะนำ',
+      sheetName: 'ใบสั่งซื้อแนะนำ',
+      title: 'ใบสั่งซื้อแนะนำตามผู้จำหน่าย',
+      subtitle,
+      branch: reportBranch,
+      numberColumns: SUGGESTED_ORDER_NUMBER_COLUMNS,
+      currencyColumns: SUGGESTED_ORDER_CURRENCY_COLUMNS,
+      summaryConfig: { columns: { suggestedQty: 'sum', suggestedValue: 'sum' } },
+    });
+  };
+
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: { opacity: 1, transition: { staggerChildren: 0.1 } },
+  };
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0, transition: { duration: 0.4 } },
+  };
+
+  return (
+    <PermissionGuard componentKey="inventory.low_stock">
+      <motion.div className="space-y-6" variants={containerVariants} initial="hidden" animate="visible">
+        <motion.div variants={itemVariants} className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-4">
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold tracking-tight">แผนสั่งซื้อสินค้า</h1>
+            <p className="text-muted-foreground mt-1 text-sm">
+              จุดสั่งซื้อจากความต้องการย้อนหลังและระยะเวลารอสินค้า พร้อมใบสั่งซื้อแนะนำตามผู้จำหน่ายล่าสุด
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <div className="inline-flex rounded-md border border-border overflow-hidden">
+              {DEMAND_HISTORY_OPTIONS.map((option) => (
+                <button key={option} type="button" onClick={() => setHistoryDays(option)} className={toggleClass(historyDays === option)}>
+                  {option} วัน
+                </button>
+              ))}
+            </div>
+            <div className="inline-flex rounded-md border border-border overflow-hidden">
+              {SERVICE_LEVELS.map(({ key }) => (
+                <button key={key} type="button" onClick={() => setServiceLevel(key)} className={toggleClass(serviceLevel === key)}>
+                  {key}%
+                </button>
+              ))}
+            </div>
+          </div>
+        </motion.div>
+
+        {error && (
+          <motion.div variants={itemVariants}>
+            <ErrorDisplay error={error} onRetry={() => refetch()} />
+          </motion.div>
+        )}
+
+        <motion.div variants={itemVariants} className="grid gap-4 md:grid-cols-3">
+          {isLoading || !plan ? (
+            Array.from({ length: 3 }).map((_, i) => <KPICardSkeleton key={i} />)
+          ) : (
+            <>
+              <KPICard
+                title="สินค้าถึงจุดสั่งซื้อ"
+                value={orderLineCount.toLocaleString('th-TH')}
+                subtitle={`จาก ${plan.lines.length.toLocaleString('th-TH')} รายการที่มีการขาย`}
+                icon={AlertTriangle}
+              />
+              <KPICard
+                title="มูลค่าสั่งซื้อแนะนำ"
+                value={`฿${formatCurrency(orderValue)}`}
+                subtitle={`เติมถึงจุดสั่งซื้อ + ขาย ${ORDER_CYCLE_DAYS} วัน`}
+                icon={ShoppingCart}
+              />
+              <KPICard
+                title="ผู้จำหน่าย"
+                value={plan.orders.length.toLocaleString('th-TH')}
+                subtitle="ตามผู้จำหน่ายที่ซื้อล่าสุด"
+                icon={Truck}
+              />
+            </>
+          )}
+        </motion.div>
+
+        <motion.div variants={itemVariants}>
+          <ErrorBoundary>
+            <DataCard
+              id="suggested-orders"
+              title="ใบสั่งซื้อแนะนำ"
+              description="สินค้าที่คงเหลือไม่เกินจุดสั่งซื้อ จัดกลุ่มตามผู้จำหน่ายที่ซื้อล่าสุด"
+              onExportExcel={handleExportOrders}
+            >
+              {isLoading || !plan ? <TableSkeleton rows={8} /> : <SuggestedOrderList orders={plan.orders} branchName={branchName} />}
+            </DataCard>
+          </ErrorBoundary>
+        </motion.div>
+
+        <motion.div variants={itemVariants}>
+          <ErrorBoundary>
+            <DataCard
+              id="reorder-points"
+              title="จุดสั่งซื้อรายสินค้า"
+              description="สต็อกเผื่อ = z × ส่วนเบี่ยงเบนของยอดขายรายวัน × √ระยะเวลารอ · จุดสั่งซื้อ = ขายเฉลี่ย × ระยะเวลารอ + สต็อกเผื่อ"
+              queryInfo={plan ? { query: getItemDemandQuery(plan.asOf, historyDays, selectedBranches), format: 'JSONEachRow' } : undefined}
+            >
+              {isLoading || !plan ? <TableSkeleton rows={10} /> : <ReplenishmentTable lines={plan.lines} branchName={branchName} />}
+            </DataCard>
+          </ErrorBoundary>
+        </motion.div>
+      </motion.div>
+    </PermissionGuard>
+  );
+}
@@ -5,7 +5,7 @@ import { useSearchParams } from 'next/navigation';
 import { useDateRangeStore } from '@/store/useDateRangeStore';
 import { motion } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
-import { formatSelectedBranchNames, useBranchStore } from '@/store/useBranchStore';
+import { formatSelectedBranchNames, getReportBranch, useBranchStore } from '@/store/useBranchStore';
 import { DataCard } from '@/components/DataCard';
 import { DateRangeFilter } from '@/components/DateRangeFilter';
 import { ErrorBoundary, ErrorDisplay } from '@/components/ErrorBoundary';
@@ -104,13 +104,14 @@ function SalesReportContent() {
   const selectedBranches = useBranchStore((s) => s.selectedBranches);
   const availableBranches = useBranchStore((s) => s.availableBranches);
   const selectedBranchLabel = formatSelectedBranchNames(selectedBranches, availableBranches);
+  const reportBranch = getReportBranch(selectedBranches, availableBranches);
   const withBranchSubtitle = (detail: string) => `กิจการ: ${selectedBranchLabel} | ${detail}`;
 
   // Category filter for Sales Analysis report
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
 
   // Handle URL hash for report selection
-  useReportHash(reportOptions, setSelectedReport);
+  useReportHash(reportOptions, setSelectedReport, selectedReport);
 
   // ✅ อ่าน URL query params เมื่อเข้าหน้า (จากการกด drill-down ใน Dashboard)
   const searchParams = useSearchParams();
@@ -993,6 +994,7 @@ function SalesReportContent() {
             sheetName: 'Sales Analysis',
             title: `รายงานวิเคราะห์ยอดขาย - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'discountAmount', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
@@ -1013,6 +1015,7 @@ function SalesReportContent() {
           sheetName: 'Top Products',
           title: 'รายงานสินค้าขายดี',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['totalQtySold'],
           currencyColumns: ['totalSales', 'totalProfit'],
           percentColumns: ['profitMarginPct'],
@@ -1033,6 +1036,7 @@ function SalesReportContent() {
           sheetName: 'Sales by Branch',
           title: 'รายงานยอดขายตามสาขา',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount'],
           currencyColumns: ['totalSales'],
           summaryConfig: {
@@ -1056,6 +1060,7 @@ function SalesReportContent() {
             sheetName: 'Sales by Category',
             title: `รายงานยอดขายตามหมวดหมู่ - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['orderCount', 'totalQtySold'],
             currencyColumns: ['totalSales', 'totalProfit'],
             percentColumns: ['profitMarginPct'],
@@ -1078,6 +1083,7 @@ function SalesReportContent() {
           sheetName: 'Sales by Salesperson',
           title: 'รายงานยอดขายตามพนักงาน',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['customerCount', 'orderCount'],
           currencyColumns: ['totalSales', 'avgOrderValue'],
           summaryConfig: {
@@ -1097,6 +1103,7 @@ function SalesReportContent() {
           sheetName: 'Top Customers',
           title: 'รายงานลูกค้ารายสำคัญ',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount', 'daysSinceLastOrder'],
           currencyColumns: ['totalSpent', 'avgOrderValue'],
           summaryConfig: {
@@ -1116,6 +1123,7 @@ function SalesReportContent() {
           sheetName: 'AR Status',
           title: 'รายงานสถานะลูกหนี้การค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['invoiceCount'],
           currencyColumns: ['totalInvoiceAmount', 'totalPaid', 'totalOutstanding'],
           summaryConfig: {
@@ -1159,6 +1167,7 @@ function SalesReportContent() {
             filename: `รายงานวิเคราะห์ยอดขาย_${categoryName}`,
             title: `รายงานวิเคราะห์ยอดขาย - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             currencyColumns: ['price', 'discountAmount', 'totalAmount'],
             numberColumns: ['qty'],
             summaryConfig: {
@@ -1178,6 +1187,7 @@ function SalesReportContent() {
           filename: 'สินค้าขายดี',
           title: 'รายงานสินค้าขายดี',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['totalQtySold'],
           currencyColumns: ['totalSales', 'totalProfit'],
           percentColumns: ['profitMarginPct'],
@@ -1197,6 +1207,7 @@ function SalesReportContent() {
           filename: 'ยอดขายตามสาขา',
           title: 'รายงานยอดขายตามสาขา',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount'],
           currencyColumns: ['totalSales'],
           summaryConfig: {
@@ -1219,6 +1230,7 @@ function SalesReportContent() {
             filename: `ยอดขายตามหมวดหมู่_${categoryName}`,
             title: `รายงานยอดขายตามหมวดหมู่ - ${categoryName}`,
             subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+            branch: reportBranch,
             numberColumns: ['orderCount', 'totalQtySold'],
             currencyColumns: ['totalSales', 'totalProfit'],
             percentColumns: ['profitMarginPct'],
@@ -1240,6 +1252,7 @@ function SalesReportContent() {
           filename: 'ยอดขายตามพนักงาน',
           title: 'รายงานยอดขายตามพนักงาน',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['customerCount', 'orderCount'],
           currencyColumns: ['totalSales', 'avgOrderValue'],
           summaryConfig: {
@@ -1258,6 +1271,7 @@ function SalesReportContent() {
           filename: 'ลูกค้ารายสำคัญ',
           title: 'รายงานลูกค้ารายสำคัญ',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['orderCount', 'daysSinceLastOrder'],
           currencyColumns: ['totalSpent', 'avgOrderValue'],
           summaryConfig: {
@@ -1276,6 +1290,7 @@ function SalesReportContent() {
           filename: 'สถานะลูกหนี้การค้า',
           title: 'รายงานสถานะลูกหนี้การค้า',
           subtitle: withBranchSubtitle(`ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`),
+          branch: reportBranch,
           numberColumns: ['invoiceCount'],
           currencyColumns: ['totalInvoiceAmount', 'totalPaid', 'totalOutstanding'],
           summaryConfig: {
@@ -68,8 +68,8 @@ function SectionHeader({ icon, title, desc }: { icon: React.ReactNode; title: st
   );
 }
 
-function BranchDot({ idx }: { idx: number }) {
-  return <div className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', BRANCH_PALETTE[idx % BRANCH_PALETTE.length].light)} />;
+function BranchDot({ color }: { color: string }) {
+  return <div className="h-2.5 w-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />;
 }
 
 function LegendDot({ color, label }: { color: string; label: string }) {
@@ -187,7 +187,17 @@ export default function SalesComparisonPage() {
   };
 
   /* ─── Short branch name helper ─── */
-  const shortName = (name: string) => name.replace(/บริษัท\s*|จำกัด/g, '').trim().substring(0, 20);
+  /* ─── Branch registry helpers (colour / short name, palette as fallback) ─── */
+  const branchHex = useCallback(
+    (key: string, idx: number) =>
+      availableBranches.find(b => b.key === key)?.color || BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex,
+    [availableBranches]
+  );
+  const shortName = useCallback(
+    (d: { branchKey: string; branchName: string }) =>
+      (availableBranches.find(b => b.key === d.branchKey)?.shortName || d.branchName.replace(/บริษัท\s*|จำกัด/g, '').trim()).substring(0, 20),
+    [availableBranches]
+  );
 
   /* ─── Computed: totals ─── */
   const totals = useMemo(() => {
@@ -226,13 +236,13 @@ export default function SalesComparisonPage() {
     },
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     grid: { top: 30, right: 20, bottom: 50, left: 50, containLabel: true },
-    xAxis: { type: 'category', data: rankedData.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+    xAxis: { type: 'category', data: rankedData.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
     yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
     series: [
       { name: 'ยอดขาย', type: 'bar', data: rankedData.map(b => b.kpis?.totalSales?.value || 0), itemStyle: { color: '#6366f1', borderRadius: [4, 4, 0, 0] } },
       { name: 'กำไรขั้นต้น', type: 'bar', data: rankedData.map(b => b.kpis?.grossProfit?.value || 0), itemStyle: { color: '#10b981', borderRadius: [4, 4, 0, 0] } },
     ],
-  }), [rankedData]);
+  }), [rankedData, shortName]);
 
   /* 2. Sales Share - Donut Pie */
   const salesShareChart = useMemo(() => ({
@@ -246,19 +256,19 @@ export default function SalesComparisonPage() {
       itemStyle: { borderRadius: 6, borderColor: '#fff', borderWidth: 2 },
       label: { show: false },
       data: rankedData.map((b, i) => ({
-        name: shortName(b.branchName),
+        name: shortName(b),
         value: b.kpis?.totalSales?.value || 0,
-        itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+        itemStyle: { color: branchHex(b.branchKey, i) },
       })),
     }],
-  }), [rankedData]);
+  }), [rankedData, branchHex, shortName]);
 
   /* 3. Margin & Growth - Bar + Line Combo */
   const marginGrowthChart = useMemo(() => ({
     tooltip: { trigger: 'axis', axisPointer: { type: 'cross' } },
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     grid: { top: 30, right: 60, bottom: 50, left: 50, containLabel: true },
-    xAxis: { type: 'category', data: rankedData.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+    xAxis: { type: 'category', data: rankedData.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
     yAxis: [
       { type: 'value', name: 'Margin %', position: 'left', axisLabel: { formatter: '{value}%' } },
       { type: 'value', name: 'Growth %', position: 'right', axisLabel: { formatter: '{value}%' } },
@@ -267,14 +277,14 @@ export default function SalesComparisonPage() {
       { name: 'Gross Margin', type: 'bar', data: rankedData.map(b => b.kpis?.grossMarginPct || 0), itemStyle: { color: '#8b5cf6', borderRadius: [4, 4, 0, 0] } },
       { name: 'Sales Growth', type: 'line', yAxisIndex: 1, data: rankedData.map(b => b.kpis?.totalSales?.growthPercentage || 0), lineStyle: { width: 3 }, itemStyle: { color: '#10b981' }, symbol: 'circle', symbolSize: 8 },
     ],
-  }), [rankedData]);
+  }), [rankedData, shortName]);
 
   /* 4. Orders & Avg Order Value - Bar + Line */
   const ordersChart = useMemo(() => ({
     tooltip: { trigger: 'axis', axisPointer: { type: 'cross' } },
     legend: { bottom: 0, textStyle: { fontSize: 11 } },
     grid: { top: 30, right: 60, bottom: 50, left: 50, containLabel: true },
-    xAxis: { type: 'category', data: rankedData.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+    xAxis: { type: 'category', data: rankedData.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
     yAxis: [
       { type: 'value', name: 'ออเดอร์', position: 'left' },
       { type: 'value', name: '฿/ออเดอร์', position: 'right', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
@@ -283,7 +293,7 @@ export default function SalesComparisonPage() {
       { name: 'จำนวนออเดอร์', type: 'bar', data: rankedData.map(b => b.kpis?.totalOrders?.value || 0), itemStyle: { color: '#f59e0b', borderRadius: [4, 4, 0, 0] } },
       { name: 'เฉลี่ยต่อบิล', type: 'line', yAxisIndex: 1, data: rankedData.map(b => b.kpis?.avgOrderValue?.value || 0), lineStyle: { width: 3 }, itemStyle: { color: '#06b6d4' }, symbol: 'circle', symbolSize: 8 },
     ],
-  }), [rankedData]);
+  }), [rankedData, shortName]);
 
   /* 5. Sales Trend Multi-Line */
   const trendChart = useMemo(() => {
@@ -298,7 +308,7 @@ export default function SalesComparisonPage() {
       xAxis: { type: 'category', data: dates, axisLabel: { fontSize: 10 } },
       yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
       series: rankedData.map((b, i) => ({
-        name: shortName(b.branchName),
+        name: shortName(b),
         type: 'line',
         smooth: true,
         data: dates.map(d => {
@@ -306,12 +316,12 @@ export default function SalesComparisonPage() {
           return found ? found.sales : 0;
         }),
         lineStyle: { width: 2.5 },
-        itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+        itemStyle: { color: branchHex(b.branchKey, i) },
         symbol: 'circle',
         symbolSize: 6,
       })),
     };
-  }, [data, rankedData]);
+  }, [data, rankedData, branchHex, shortName]);
 
   /* 6. AR Outstanding - Stacked Bar */
   const arChart = useMemo(() => {
@@ -328,7 +338,7 @@ export default function SalesComparisonPage() {
       tooltip: { trigger: 'axis', axisPointer: { type: 'shadow' } },
       legend: { bottom: 0, textStyle: { fontSize: 11 } },
       grid: { top: 30, right: 20, bottom: 50, left: 50, containLabel: true },
-      xAxis: { type: 'category', data: rankedData.map(b => shortName(b.branchName)), axisLabel: { rotate: 20, fontSize: 10 } },
+      xAxis: { type: 'category', data: rankedData.map(b => shortName(b)), axisLabel: { rotate: 20, fontSize: 10 } },
       yAxis: { type: 'value', axisLabel: { formatter: (v: number) => `฿${fmtK(v)}` } },
       series: allStatus.map((status, sIdx) => ({
         name: statusMap[status] || status,
@@ -341,7 +351,7 @@ export default function SalesComparisonPage() {
         itemStyle: { color: colors[sIdx], borderRadius: sIdx === allStatus.length - 1 ? [4, 4, 0, 0] : [0, 0, 0, 0] },
       })),
     };
-  }, [rankedData]);
+  }, [rankedData, shortName]);
 
   /* 7. Top Products Comparison - Horizontal Bar */
   const topProductsChart = useMemo(() => {
@@ -349,9 +359,9 @@ export default function SalesComparisonPage() {
     rankedData.forEach((b, i) => {
       b.topProducts.slice(0, 2).forEach(p => {
         products.push({
-          name: `${p.itemName.substring(0, 18)} (${shortName(b.branchName).substring(0, 8)})`,
+          name: `${p.itemName.substring(0, 18)} (${shortName(b).substring(0, 8)})`,
           sales: p.totalSales,
-          color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex,
+          color: branchHex(b.branchKey, i),
         });
       });
     });
@@ -369,7 +379,7 @@ export default function SalesComparisonPage() {
         barWidth: '60%',
       }],
     };
-  }, [rankedData]);
+  }, [rankedData, branchHex, shortName]);
 
   /* 8. Customer Metrics - Radar Chart */
   const customerRadarChart = useMemo(() => {
@@ -393,16 +403,16 @@ export default function SalesComparisonPage() {
         data: rankedData.map((b, i) => {
           const topC = b.topCustomers[0];
           return {
-            name: shortName(b.branchName),
+            name: shortName(b),
             value: [b.topCustomers.length, topC?.totalSpent || 0, topC?.orderCount || 0],
-            lineStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
-            areaStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex, opacity: 0.15 },
-            itemStyle: { color: BRANCH_PALETTE[i % BRANCH_PALETTE.length].hex },
+            lineStyle: { color: branchHex(b.branchKey, i) },
+            areaStyle: { color: branchHex(b.branchKey, i), opacity: 0.15 },
+            itemStyle: { color: branchHex(b.branchKey, i) },
           };
         }),
       }],
     };
-  }, [data, rankedData]);
+  }, [data, rankedData, branchHex, shortName]);
 
   // Framer motion variants
   const containerVariants = {
@@ -554,7 +564,7 @@ export default function SalesComparisonPage() {
                         <td className="py-3 pl-6 pr-4">
                           {RankIcon ? <RankIcon className={cn('h-5 w-5', rankColors[idx])} /> : <span className="text-muted-foreground font-medium">{idx + 1}</span>}
                         </td>
-                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot idx={idx} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
+                        <td className="py-3 px-4"><div className="flex items-center gap-2"><BranchDot color={branchHex(d.branchKey, idx)} /><span className="font-semibold text-foreground">{d.branchName}</span></div></td>
                         <td className="py-3 px-4 text-right font-medium">{fmtShort(sales)} <GrowthBadge value={d.kpis?.totalSales?.growthPercentage} /></td>
                         <td className="py-3 px-4 text-right font-medium text-emerald-600">{fmtShort(profit)}</td>
                         <td className="py-3 px-4 text-right"><span className={cn('text-xs font-semibold px-2 py-1 rounded-lg', margin >= 30 ? 'bg-emerald-50 text-emerald-700' : margin >= 15 ? 'bg-amber-50 text-amber-700' : 'bg-rose-50 text-rose-700')}>{margin.toFixed(1)}%</span></td>
@@ -658,7 +668,7 @@ export default function SalesComparisonPage() {
               {rankedData.map((branch, idx) => (
                 <div key={branch.branchKey} className="space-y-3">
                   <div className="flex items-center gap-2">
-                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex }} />
+                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: branchHex(branch.branchKey, idx) }} />
                     <h4 className="font-semibold text-sm">{branch.branchName}</h4>
                   </div>
                   <div className="space-y-2">
@@ -685,7 +695,7 @@ export default function SalesComparisonPage() {
               {rankedData.map((branch, idx) => (
                 <div key={branch.branchKey} className="space-y-3">
                   <div className="flex items-center gap-2">
-                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex }} />
+                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: branchHex(branch.branchKey, idx) }} />
                     <h4 className="font-semibold text-sm">{branch.branchName}</h4>
                   </div>
                   <div className="space-y-2">
@@ -715,7 +725,7 @@ export default function SalesComparisonPage() {
               {rankedData.map((branch, idx) => (
                 <div key={branch.branchKey} className="space-y-3">
                   <div className="flex items-center gap-2">
-                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: BRANCH_PALETTE[idx % BRANCH_PALETTE.length].hex }} />
+                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: branchHex(branch.branchKey, idx) }} />
                     <h4 className="font-semibold text-sm">{branch.branchName}</h4>
                   </div>
                   <div className="space-y-2">
@@ -245,6 +245,7 @@ export default function SalesPage() {
               value={formatCurrency(kpis.totalSales.value)}
               trend={formatGrowthPercentage(kpis.totalSales.growthPercentage || 0)}
               trendUp={kpis.totalSales.trend === 'up'}
+              budget={kpis.totalSales.budget}
               icon={DollarSign}
               detailTitle="รายละเอียดยอดขายรวม"
               detailNote="สะท้อนยอดขายสุทธิรวมของช่วงเวลาที่เลือก"
@@ -262,7 +263,7 @@ export default function SalesPage() {
                 />
               }
               queryInfo={{
-                query: getTotalSalesQuery(dateRange),
+                query: getTotalSalesQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow',
               }}
             />
@@ -271,6 +272,7 @@ export default function SalesPage() {
               value={formatCurrency(kpis.grossProfit.value)}
               trend={formatGrowthPercentage(kpis.grossProfit.growthPercentage || 0)}
               trendUp={kpis.grossProfit.trend === 'up'}
+              budget={kpis.grossProfit.budget}
               icon={TrendingUp}
               subtitle={`Margin: ${(kpis.grossMarginPct ?? 0).toFixed(1)}%`}
               detailTitle="รายละเอียดกำไรขั้นต้น"
@@ -280,7 +282,7 @@ export default function SalesPage() {
                 { label: 'Gross Margin', value: `${(kpis.grossMarginPct ?? 0).toFixed(1)}%` },
               ]}
               queryInfo={{
-                query: getGrossProfitQuery(dateRange),
+                query: getGrossProfitQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow',
               }}
             />
@@ -306,7 +308,7 @@ export default function SalesPage() {
                 />
               }
               queryInfo={{
-                query: getTotalOrdersQuery(dateRange),
+                query: getTotalOrdersQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow',
               }}
             />
@@ -323,7 +325,7 @@ export default function SalesPage() {
                 { label: 'แนวโน้มมูลค่าต่อออเดอร์', value: kpis.avgOrderValue.trend === 'up' ? 'เพิ่มขึ้น' : 'ลดลง' },
               ]}
               queryInfo={{
-                query: getAvgOrderValueQuery(dateRange),
+                query: getAvgOrderValueQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow',
               }}
             />
@@ -339,7 +341,7 @@ export default function SalesPage() {
             description="ยอดขายและจำนวนออเดอร์รายวัน"
             linkTo="/reports/sales#sales-trend"
             queryInfo={{
-              query: getSalesTrendQuery(dateRange.start, dateRange.end),
+              query: getSalesTrendQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -363,7 +365,7 @@ export default function SalesPage() {
               description="เปรียบเทียบยอดขายของแต่ละหมวดหมู่"
               linkTo="/reports/sales#by-category"
               queryInfo={{
-                query: getSalesByCategoryDetailQuery(dateRange.start, dateRange.end),
+                query: getSalesByCategoryDetailQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow'
               }}
             >
@@ -383,7 +385,7 @@ export default function SalesPage() {
               description="รายการสินค้าที่มียอดขายสูงสุด"
               linkTo="/reports/sales#top-products"
               queryInfo={{
-                query: getTopProductsQuery(dateRange.start, dateRange.end),
+                query: getTopProductsQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow'
               }}
             >
@@ -406,7 +408,7 @@ export default function SalesPage() {
             description="ผลงานพนักงานขายแต่ละคน"
             linkTo="/reports/sales#by-salesperson"
             queryInfo={{
-              query: getSalesBySalespersonQuery(dateRange.start, dateRange.end),
+              query: getSalesBySalespersonQuery(dateRange, selectedBranches),
               format: 'JSONEachRow'
             }}
           >
@@ -429,7 +431,7 @@ export default function SalesPage() {
               description="ลูกค้าที่มียอดซื้อสูงสุด"
               linkTo="/reports/sales#top-customers"
               queryInfo={{
-                query: getTopCustomersQuery(dateRange.start, dateRange.end),
+                query: getTopCustomersQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow'
               }}
             >
@@ -449,7 +451,7 @@ export default function SalesPage() {
               description="สรุปยอดลูกหนี้ตามสถานะการชำระเงิน"
               linkTo="/reports/sales#ar-status"
               queryInfo={{
-                query: getARStatusQuery(dateRange.start, dateRange.end),
+                query: getARStatusQuery(dateRange, selectedBranches),
                 format: 'JSONEachRow'
               }}
             >
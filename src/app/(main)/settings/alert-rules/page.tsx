@@ -0,0 +1,355 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { BellRing, Plus, Save, Trash2, Loader2, Pencil } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { DATE_RANGES, RELATIVE_DATE_RANGE_KEYS, type RelativeDateRangeKey } from '@/lib/dateRanges';
+import { MODULES, MODULE_LABELS, usePermissions } from '@/lib/permissions';
+import { useBranchStore, formatSelectedBranchNames } from '@/store/useBranchStore';
+import {
+  ALERT_COMPARATORS,
+  ALERT_METRICS,
+  ALERT_SEVERITY_LABELS,
+  formatMetricValue,
+  type AlertComparator,
+  type AlertMetric,
+  type AlertMetricInfo,
+  type AlertRule,
+  type AlertSeverity,
+} from '@/lib/alerts/types';
+
+type RuleDraft = Pick<
+  AlertRule,
+  'name' | 'metric' | 'comparator' | 'threshold' | 'datePreset' | 'branches' | 'severity' | 'enabled'
+>;
+
+const RULES_QUERY_KEY = ['alerts', 'rules'];
+
+const metricEntries = Object.entries(ALERT_METRICS) as [AlertMetric, AlertMetricInfo][];
+
+const emptyRule: RuleDraft = {
+  name: '',
+  metric: 'sales.totalSales',
+  comparator: 'lt',
+  threshold: 0,
+  datePreset: 'THIS_MONTH',
+  branches: ['ALL'],
+  severity: 'warning',
+  enabled: true,
+};
+
+const STATE_LABELS: Record<string, { label: string; className: string }> = {
+  ok: { label: 'ปกติ', className: 'text-emerald-600' },
+  triggered: { label: 'เข้าเงื่อนไข', className: 'text-amber-600' },
+  error: { label: 'ผิดพลาด', className: 'text-destructive' },
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+function RuleForm({ rule, ruleId, onDone }: { rule: RuleDraft; ruleId?: string; onDone: () => void }) {
+  const queryClient = useQueryClient();
+  const { checkPermission } = usePermissions();
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const [draft, setDraft] = useState<RuleDraft>(rule);
+  const set = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => setDraft({ ...draft, [key]: value });
+
+  const metric: AlertMetricInfo = ALERT_METRICS[draft.metric];
+  const allBranches = draft.branches.includes('ALL');
+  const toggleBranch = (key: string) => {
+    const current = draft.branches.filter((b) => b !== 'ALL');
+    const next = current.includes(key) ? current.filter((b) => b !== key) : [...current, key];
+    set('branches', next.length === 0 ? ['ALL'] : next);
+  };
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['alerts'] });
+
+  const save = useMutation({
+    mutationFn: () => {
+      const body = JSON.stringify(draft);
+      return ruleId
+        ? requestJson<AlertRule>(`/api/alerts/rules/${ruleId}`, { method: 'PUT', body })
+        : requestJson<AlertRule>('/api/alerts/rules', { method: 'POST', body });
+    },
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => requestJson<void>(`/api/alerts/rules/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-border p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate();
+      }}
+    >
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ชื่อกฎ
+          <input
+            value={draft.name}
+            onChange={(e) => set('name', e.target.value)}
+            placeholder="เช่น ยอดขายเดือนนี้ต่ำกว่าเป้า"
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          KPI
+          <select
+            value={draft.metric}
+            onChange={(e) => set('metric', e.target.value as AlertMetric)}
+            className={inputClass}
+          >
+            {MODULES.map((module) => (
+              <optgroup key={module} label={MODULE_LABELS[module]}>
+                {metricEntries
+                  .filter(([, info]) => info.module === module && checkPermission(info.permission).allowed)
+                  .map(([key, info]) => (
+                    <option key={key} value={key}>
+                      {info.label}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[120px_1fr_1fr_1fr]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          เงื่อนไข
+          <select
+            value={draft.comparator}
+            onChange={(e) => set('comparator', e.target.value as AlertComparator)}
+            className={inputClass}
+          >
+            {(Object.keys(ALERT_COMPARATORS) as AlertComparator[]).map((c) => (
+              <option key={c} value={c}>
+                {ALERT_COMPARATORS[c]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          เกณฑ์ {metric.unit === 'currency' ? '(บาท)' : metric.unit === 'percent' ? '(%)' : ''}
+          <input
+            type="number"
+            step="any"
+            value={draft.threshold}
+            onChange={(e) => set('threshold', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ช่วงวันที่
+          <select
+            value={draft.datePreset}
+            onChange={(e) => set('datePreset', e.target.value as RelativeDateRangeKey)}
+            disabled={metric.asOfToday}
+            className={cn(inputClass, 'disabled:opacity-60')}
+          >
+            {RELATIVE_DATE_RANGE_KEYS.map((preset) => (
+              <option key={preset} value={preset}>
+                {metric.asOfToday ? 'ณ วันนี้' : DATE_RANGES[preset].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ระดับ
+          <select
+            value={draft.severity}
+            onChange={(e) => set('severity', e.target.value as AlertSeverity)}
+            className={inputClass}
+          >
+            {(Object.keys(ALERT_SEVERITY_LABELS) as AlertSeverity[]).map((s) => (
+              <option key={s} value={s}>
+                {ALERT_SEVERITY_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-1 text-xs text-muted-foreground">
+        กิจการ
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => set('branches', ['ALL'])}
+            className={cn(
+              'px-2.5 py-1 text-xs rounded-md border',
+              allBranches ? 'border-primary bg-primary/10 text-foreground' : 'border-border bg-background'
+            )}
+          >
+            ทุกกิจการที่มีสิทธิ์
+          </button>
+          {availableBranches.map((branch) => (
+            <button
+              key={branch.key}
+              type="button"
+              onClick={() => toggleBranch(branch.key)}
+              className={cn(
+                'px-2.5 py-1 text-xs rounded-md border',
+                draft.branches.includes(branch.key)
+                  ? 'border-primary bg-primary/10 text-foreground'
+                  : 'border-border bg-background'
+              )}
+            >
+              {branch.shortName || branch.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={draft.enabled} onChange={(e) => set('enabled', e.target.checked)} />
+        เปิดใช้งาน
+      </label>
+
+      {(save.error || remove.error) && <ErrorDisplay error={(save.error || remove.error)!} />}
+
+      <div className="flex justify-end gap-2">
+        {ruleId && (
+          <button
+            type="button"
+            onClick={() => confirm(`ลบกฎ "${rule.name}"?`) && remove.mutate()}
+            disabled={remove.isPending}
+            className="mr-auto inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            ลบ
+          </button>
+        )}
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm rounded-md hover:bg-muted">
+          ยกเลิก
+        </button>
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึกและตรวจทันที
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function AlertRulesPage() {
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const [editing, setEditing] = useState<{ rule: RuleDraft; id?: string } | null>(null);
+
+  const { data: rules = [], isLoading, error, refetch } = useQuery({
+    queryKey: RULES_QUERY_KEY,
+    queryFn: () => requestJson<AlertRule[]>('/api/alerts/rules'),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <BellRing className="h-6 w-6 text-primary" />
+            กฎแจ้งเตือน
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            ระบบตรวจ KPI ตามกฎเป็นรอบ และแจ้งเตือนเมื่อค่าเพิ่งเข้าเงื่อนไข (ไม่แจ้งซ้ำจนกว่าจะกลับเป็นปกติ)
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing({ rule: emptyRule })}
+          className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground"
+        >
+          <Plus className="h-4 w-4" />
+          เพิ่มกฎ
+        </button>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      {editing && (
+        <RuleForm key={editing.id ?? 'new'} rule={editing.rule} ruleId={editing.id} onDone={() => setEditing(null)} />
+      )}
+
+      {isLoading ? (
+        <TableSkeleton rows={4} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="py-2 px-3 font-medium">ชื่อ</th>
+                <th className="py-2 px-3 font-medium">เงื่อนไข</th>
+                <th className="py-2 px-3 font-medium">กิจการ</th>
+                <th className="py-2 px-3 font-medium">ระดับ</th>
+                <th className="py-2 px-3 font-medium">ค่าล่าสุด</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const metric: AlertMetricInfo = ALERT_METRICS[rule.metric];
+                const state = rule.state ? STATE_LABELS[rule.state] : null;
+                return (
+                  <tr key={rule.id} className={cn('border-b border-border/50 last:border-0', !rule.enabled && 'opacity-60')}>
+                    <td className="py-2 px-3 font-medium">{rule.name}</td>
+                    <td className="py-2 px-3">
+                      {metric.label} {ALERT_COMPARATORS[rule.comparator]} {formatMetricValue(rule.threshold, metric.unit)}
+                      <div className="text-xs text-muted-foreground">
+                        {metric.asOfToday ? 'ณ วันนี้' : DATE_RANGES[rule.datePreset].label}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3">{formatSelectedBranchNames(rule.branches, availableBranches)}</td>
+                    <td className="py-2 px-3">{ALERT_SEVERITY_LABELS[rule.severity]}</td>
+                    <td className="py-2 px-3">
+                      {rule.lastValue !== null ? formatMetricValue(rule.lastValue, metric.unit) : '-'}
+                      {state && (
+                        <div className={cn('text-xs', state.className)} title={rule.lastError ?? undefined}>
+                          {state.label}
+                          {rule.lastError && `: ${rule.lastError}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ rule, id: rule.id })}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                        แก้ไข
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {rules.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-6 text-center text-muted-foreground">
+                    ยังไม่มีกฎแจ้งเตือน
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Building2, Plus, Save, Trash2, Loader2, Lock, Pencil } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { ADMIN_ROLE_ID, usePermissions } from '@/lib/permissions';
+import { BRANCH_COLOR_PALETTE, type Branch } from '@/lib/branches/types';
+
+interface BranchRegistry {
+  branches: Branch[];
+  /** รหัสที่มีข้อมูลใน ClickHouse แต่ยังไม่ได้ลงทะเบียน */
+  unregistered: string[];
+}
+
+const REGISTRY_QUERY_KEY = ['branches', 'registry'];
+/** Query key ของ BranchSwitcher (รายชื่อกิจการที่เลือกได้) */
+const BRANCH_INIT_QUERY_KEY = ['branchInit'];
+
+function emptyBranch(code: string, sortOrder: number): Branch {
+  return {
+    code,
+    name: '',
+    shortName: '',
+    taxId: '',
+    address: '',
+    isActive: true,
+    color: BRANCH_COLOR_PALETTE[sortOrder % BRANCH_COLOR_PALETTE.length],
+    sortOrder,
+  };
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+function BranchForm({
+  branch,
+  isNew,
+  onDone,
+}: {
+  branch: Branch;
+  isNew: boolean;
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Branch>(branch);
+  const set = <K extends keyof Branch>(key: K, value: Branch[K]) => setDraft({ ...draft, [key]: value });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: REGISTRY_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: BRANCH_INIT_QUERY_KEY });
+  };
+
+  const save = useMutation({
+    mutationFn: () =>
+      isNew
+        ? requestJson<Branch>('/api/branches/registry', { method: 'POST', body: JSON.stringify(draft) })
+        : requestJson<Branch>(`/api/branches/registry/${encodeURIComponent(branch.code)}`, {
+            method: 'PUT',
+            body: JSON.stringify(draft),
+          }),
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () =>
+      requestJson<void>(`/api/branches/registry/${encodeURIComponent(branch.code)}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-border p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate();
+      }}
+    >
+      <div className="grid gap-3 sm:grid-cols-[160px_1fr_1fr]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          รหัสกิจการ (branch_sync)
+          <input
+            value={draft.code}
+            onChange={(e) => set('code', e.target.value)}
+            disabled={!isNew}
+            placeholder="เช่น b006"
+            className={cn(inputClass, 'disabled:opacity-60')}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ชื่อเต็ม
+          <input value={draft.name} onChange={(e) => set('name', e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ชื่อย่อ (ว่างไว้ = ตัดคำว่า บริษัท/จำกัด ออก)
+          <input value={draft.shortName} onChange={(e) => set('shortName', e.target.value)} className={inputClass} />
+        </label>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-[1fr_120px_120px]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          เลขประจำตัวผู้เสียภาษี
+          <input value={draft.taxId} onChange={(e) => set('taxId', e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          สี
+          <input
+            type="color"
+            value={draft.color || BRANCH_COLOR_PALETTE[0]}
+            onChange={(e) => set('color', e.target.value)}
+            className="block h-9 w-full rounded-md border border-border bg-background"
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ลำดับ
+          <input
+            type="number"
+            value={draft.sortOrder}
+            onChange={(e) => set('sortOrder', Number(e.target.value))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+      <label className="block space-y-1 text-xs text-muted-foreground">
+        ที่อยู่
+        <textarea
+          value={draft.address}
+          onChange={(e) => set('address', e.target.value)}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={draft.isActive} onChange={(e) => set('isActive', e.target.checked)} />
+        เปิดใช้งาน (แสดงในตัวเลือกกิจการและหน้าเปรียบเทียบ)
+      </label>
+
+      {(save.error || remove.error) && <ErrorDisplay error={(save.error || remove.error)!} />}
+
+      <div className="flex justify-end gap-2">
+        {!isNew && (
+          <button
+            type="button"
+            onClick={() => confirm(`ลบกิจการ "${branch.name}" ออกจากทะเบียน?`) && remove.mutate()}
+            disabled={remove.isPending}
+            className="mr-auto inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            ลบ
+          </button>
+        )}
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm rounded-md hover:bg-muted">
+          ยกเลิก
+        </button>
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function BranchesSettingsPage() {
+  const { user, loading: userLoading } = usePermissions();
+  const [editing, setEditing] = useState<{ branch: Branch; isNew: boolean } | null>(null);
+
+  const isAdmin = user?.role.id === ADMIN_ROLE_ID;
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: REGISTRY_QUERY_KEY,
+    queryFn: () => requestJson<BranchRegistry>('/api/branches/registry'),
+    enabled: isAdmin,
+  });
+  const branches = data?.branches ?? [];
+  const unregistered = data?.unregistered ?? [];
+  const nextSortOrder = branches.reduce((max, b) => Math.max(max, b.sortOrder + 1), 0);
+
+  if (userLoading) return <TableSkeleton />;
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 text-center">
+        <Lock className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <p className="text-sm text-muted-foreground">เฉพาะผู้ดูแลระบบเท่านั้นที่จัดการทะเบียนกิจการได้</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Building2 className="h-6 w-6 text-primary" />
+            ทะเบียนกิจการ
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            ชื่อ ชื่อย่อ เลขผู้เสียภาษี ที่อยู่ และสี ใช้ในตัวเลือกกิจการ หน้าเปรียบเทียบ และหัวรายงาน PDF/Excel
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing({ branch: emptyBranch('', nextSortOrder), isNew: true })}
+          className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground"
+        >
+          <Plus className="h-4 w-4" />
+          เพิ่มกิจการ
+        </button>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      {editing && (
+        <BranchForm
+          key={editing.isNew ? `new-${editing.branch.code}` : editing.branch.code}
+          branch={editing.branch}
+          isNew={editing.isNew}
+          onDone={() => setEditing(null)}
+        />
+      )}
+
+      {unregistered.length > 0 && (
+        <div className="rounded-lg border border-amber-300/60 bg-amber-50/50 dark:bg-amber-950/20 p-4 text-sm">
+          <p className="font-medium">พบรหัสกิจการในข้อมูลที่ยังไม่ได้ลงทะเบียน</p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {unregistered.map((code) => (
+              <button
+                key={code}
+                type="button"
+                onClick={() => setEditing({ branch: emptyBranch(code, nextSortOrder), isNew: true })}
+                className="inline-flex items-center gap-1 px-2.5 py-1 text-xs rounded-md border border-border bg-background hover:border-primary"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                {code}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <TableSkeleton rows={6} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="py-2 px-3 font-medium">ลำดับ</th>
+                <th className="py-2 px-3 font-medium">รหัส</th>
+                <th className="py-2 px-3 font-medium">ชื่อ</th>
+                <th className="py-2 px-3 font-medium">ชื่อย่อ</th>
+                <th className="py-2 px-3 font-medium">เลขผู้เสียภาษี</th>
+                <th className="py-2 px-3 font-medium">สถานะ</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {branches.map((branch) => (
+                <tr key={branch.code} className={cn('border-b border-border/50 last:border-0', !branch.isActive && 'opacity-60')}>
+                  <td className="py-2 px-3">{branch.sortOrder}</td>
+                  <td className="py-2 px-3 font-mono text-xs">{branch.code}</td>
+                  <td className="py-2 px-3">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className="h-3 w-3 rounded-full flex-shrink-0 border border-border"
+                        style={{ backgroundColor: branch.color || undefined }}
+                      />
+                      {branch.name}
+                    </div>
+                  </td>
+                  <td className="py-2 px-3">{branch.shortName}</td>
+                  <td className="py-2 px-3">{branch.taxId || '-'}</td>
+                  <td className="py-2 px-3">{branch.isActive ? 'ใช้งาน' : 'ปิดใช้งาน'}</td>
+                  <td className="py-2 px-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setEditing({ branch, isNew: false })}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                      แก้ไข
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {branches.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="py-6 text-center text-muted-foreground">
+                    ยังไม่มีกิจการในทะเบียน
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
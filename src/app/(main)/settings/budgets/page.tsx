@@ -0,0 +1,324 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Target, Save, Trash2, Loader2, Lock, Download, Upload, Plus } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { SearchableSelect } from '@/components/ui/SearchableSelect';
+import { ADMIN_ROLE_ID, usePermissions } from '@/lib/permissions';
+import { useBranchStore } from '@/store/useBranchStore';
+import { exportStyledReport } from '@/lib/exportExcel';
+import { formatCurrency } from '@/lib/formatters';
+import { BUDGET_SHEET_AMOUNT_COLUMNS, BUDGET_SHEET_HEADERS, budgetSheetRows, parseBudgetWorkbook } from '@/lib/budgets/excel';
+import { BUDGET_MONTH_LABELS, type BudgetAccount, type BudgetLine, type BudgetLineInput } from '@/lib/budgets/types';
+
+const BUDGET_QUERY_KEY = ['budgets'];
+
+const inputClass = 'px-3 py-2 text-sm rounded-md border border-border bg-background';
+const cellInputClass = 'w-28 px-2 py-1 text-right text-sm tabular-nums rounded border border-border/60 bg-background';
+
+const currentYear = new Date().getFullYear();
+const YEARS = [currentYear - 2, currentYear - 1, currentYear, currentYear + 1, currentYear + 2];
+
+interface GridRow extends BudgetAccount {
+  months: string[];
+  /** มีในฐานข้อมูลแล้ว (ลบได้ด้วย DELETE) */
+  saved: boolean;
+}
+
+const toText = (months: (number | null)[]) => months.map((amount) => (amount === null ? '' : String(amount)));
+const rowTotal = (months: string[]) => months.reduce((sum, amount) => sum + (Number(amount) || 0), 0);
+
+export default function BudgetSettingsPage() {
+  const { user, loading: userLoading } = usePermissions();
+  const queryClient = useQueryClient();
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const [year, setYear] = useState(currentYear);
+  const [selectedBranch, setSelectedBranch] = useState('');
+  /** ยอดที่แก้ไขแต่ยังไม่บันทึก ตามรหัสบัญชี */
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  /** บัญชีที่เพิ่มใหม่ในตาราง */
+  const [added, setAdded] = useState<BudgetAccount[]>([]);
+
+  const isAdmin = user?.role.id === ADMIN_ROLE_ID;
+  const branch = selectedBranch || availableBranches[0]?.key || '';
+
+  const { data: lines = [], isLoading, error, refetch } = useQuery({
+    queryKey: [...BUDGET_QUERY_KEY, year, branch],
+    queryFn: () => requestJson<BudgetLine[]>(`/api/budgets?year=${year}&branch=${encodeURIComponent(branch)}`),
+    enabled: isAdmin && !!branch,
+  });
+
+  const { data: accounts = [] } = useQuery({
+    queryKey: [...BUDGET_QUERY_KEY, 'accounts'],
+    queryFn: () => requestJson<BudgetAccount[]>('/api/budgets/accounts'),
+    enabled: isAdmin,
+  });
+
+  const resetDrafts = () => {
+    setDrafts({});
+    setAdded([]);
+  };
+
+  const putLines = (body: { year: number; lines: BudgetLineInput[] }) =>
+    requestJson<{ saved: number }>('/api/budgets', { method: 'PUT', body: JSON.stringify(body) });
+
+  const save = useMutation({
+    mutationFn: () =>
+      putLines({
+        year,
+        lines: Object.entries(drafts).map(([accountCode, months]) => ({ accountCode, branchSync: branch, months })),
+      }),
+    onSuccess: () => {
+      resetDrafts();
+      queryClient.invalidateQueries({ queryKey: BUDGET_QUERY_KEY });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (accountCode: string) =>
+      requestJson<void>(
+        `/api/budgets?year=${year}&account_code=${encodeURIComponent(accountCode)}&branch_sync=${encodeURIComponent(branch)}`,
+        { method: 'DELETE' }
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: BUDGET_QUERY_KEY }),
+  });
+
+  const importFile = useMutation({
+    mutationFn: async (file: File) => {
+      const imported = await parseBudgetWorkbook(await file.arrayBuffer());
+      const branches = new Set(imported.map((line) => line.branchSync));
+      if (!confirm(`นำเข้างบประมาณปี ${year} จำนวน ${imported.length} บรรทัด (${branches.size} กิจการ)? ยอดเดิมของบัญชีเดียวกันจะถูกแทนที่`)) {
+        return null;
+      }
+      return putLines({ year, lines: imported });
+    },
+    onSuccess: (result) => {
+      if (!result) return;
+      resetDrafts();
+      queryClient.invalidateQueries({ queryKey: BUDGET_QUERY_KEY });
+    },
+  });
+
+  const exportFile = useMutation({
+    mutationFn: async () => {
+      const allLines = await requestJson<BudgetLine[]>(`/api/budgets?year=${year}`);
+      await exportStyledReport({
+        data: budgetSheetRows(allLines, accounts, [branch]),
+        headers: BUDGET_SHEET_HEADERS,
+        filename: `งบประมาณ-${year}`,
+        sheetName: `งบประมาณ ${year}`,
+        title: `งบประมาณปี ${year}`,
+        subtitle: allLines.length === 0 ? 'แม่แบบ: กรอกยอดรายเดือนแล้วนำเข้ากลับ' : undefined,
+        currencyColumns: BUDGET_SHEET_AMOUNT_COLUMNS,
+      });
+    },
+  });
+
+  if (userLoading) return <TableSkeleton />;
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 text-center">
+        <Lock className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <p className="text-sm text-muted-foreground">เฉพาะผู้ดูแลระบบเท่านั้นที่แก้ไขงบประมาณได้</p>
+      </div>
+    );
+  }
+
+  const rows: GridRow[] = [
+    ...lines.map((line) => ({ ...line, months: drafts[line.accountCode] ?? toText(line.months), saved: true })),
+    ...added
+      .filter((account) => !lines.some((line) => line.accountCode === account.accountCode))
+      .map((account) => ({ ...account, months: drafts[account.accountCode] ?? Array(12).fill(''), saved: false })),
+  ];
+  const usedCodes = new Set(rows.map((row) => row.accountCode));
+  const accountOptions = accounts
+    .filter((account) => !usedCodes.has(account.accountCode))
+    .map((account) => ({ value: account.accountCode, label: `${account.accountCode} ${account.accountName}` }));
+  const hasDrafts = Object.keys(drafts).length > 0;
+
+  const setAmount = (row: GridRow, index: number, value: string) =>
+    setDrafts({ ...drafts, [row.accountCode]: row.months.map((amount, i) => (i === index ? value : amount)) });
+
+  const addAccount = (accountCode: string) => {
+    const account = accounts.find((a) => a.accountCode === accountCode);
+    if (account) setAdded([...added, account]);
+  };
+
+  const removeRow = (row: GridRow) => {
+    if (!confirm(`ลบงบประมาณปี ${year} ของบัญชี "${row.accountCode} ${row.accountName}"?`)) return;
+    setDrafts(Object.fromEntries(Object.entries(drafts).filter(([code]) => code !== row.accountCode)));
+    setAdded(added.filter((account) => account.accountCode !== row.accountCode));
+    if (row.saved) remove.mutate(row.accountCode);
+  };
+
+  const mutationError = save.error || remove.error || importFile.error || exportFile.error;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Target className="h-6 w-6 text-primary" />
+            งบประมาณ
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            ตั้งงบประมาณรายเดือนต่อบัญชีรายได้/ค่าใช้จ่ายและกิจการ ใช้เทียบผลจริงใน KPI งบกำไรขาดทุน และหน้าเปรียบเทียบกิจการ
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".xlsx"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile.mutate(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInput.current?.click()}
+            disabled={importFile.isPending}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          >
+            {importFile.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            นำเข้า Excel
+          </button>
+          <button
+            type="button"
+            onClick={() => exportFile.mutate()}
+            disabled={exportFile.isPending}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md border border-border hover:bg-muted disabled:opacity-50"
+          >
+            {exportFile.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            ส่งออก Excel
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ปีงบประมาณ
+          <select
+            value={year}
+            onChange={(e) => {
+              setYear(Number(e.target.value));
+              resetDrafts();
+            }}
+            className={`block ${inputClass}`}
+          >
+            {YEARS.map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          กิจการ
+          <select
+            value={branch}
+            onChange={(e) => {
+              setSelectedBranch(e.target.value);
+              resetDrafts();
+            }}
+            className={`block ${inputClass}`}
+          >
+            {availableBranches.map((b) => (
+              <option key={b.key} value={b.key}>{b.name}</option>
+            ))}
+          </select>
+        </label>
+        <div className="space-y-1 text-xs text-muted-foreground min-w-[280px]">
+          เพิ่มบัญชี
+          <SearchableSelect
+            value=""
+            onChange={addAccount}
+            options={accountOptions}
+            placeholder="เลือกบัญชีรายได้/ค่าใช้จ่าย..."
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => save.mutate()}
+          disabled={!hasDrafts || save.isPending}
+          className="ml-auto inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+      {mutationError && <ErrorDisplay error={mutationError} />}
+
+      {isLoading ? (
+        <TableSkeleton rows={8} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="sticky left-0 z-10 bg-muted py-2 px-3 font-medium min-w-[240px]">บัญชี</th>
+                {BUDGET_MONTH_LABELS.map((label) => (
+                  <th key={label} className="py-2 px-2 font-medium text-right">{label}</th>
+                ))}
+                <th className="py-2 px-3 font-medium text-right">รวมทั้งปี</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.accountCode} className="border-b border-border/50 last:border-0">
+                  <td className="sticky left-0 z-10 bg-background py-2 px-3">
+                    <span className="block">{row.accountName}</span>
+                    <span className="block text-xs text-muted-foreground font-mono">
+                      {row.accountCode} · {row.accountType === 'INCOME' ? 'รายได้' : 'ค่าใช้จ่าย'}
+                    </span>
+                  </td>
+                  {row.months.map((amount, index) => (
+                    <td key={index} className="py-2 px-1">
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={amount}
+                        onChange={(e) => setAmount(row, index, e.target.value)}
+                        className={cellInputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 px-3 text-right tabular-nums font-medium">{formatCurrency(rowTotal(row.months))}</td>
+                  <td className="py-2 px-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeRow(row)}
+                      disabled={remove.isPending}
+                      className="p-1.5 rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+                      title="ลบ"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {rows.length === 0 && (
+                <tr>
+                  <td colSpan={15} className="py-6 text-center text-muted-foreground">
+                    <Plus className="inline h-4 w-4 mr-1" />
+                    ยังไม่มีงบประมาณปี {year} ของกิจการนี้ เพิ่มบัญชีหรือนำเข้าจาก Excel
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
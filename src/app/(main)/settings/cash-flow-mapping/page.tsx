@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Droplets, Plus, Save, Trash2, Loader2, Lock, Pencil } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { ADMIN_ROLE_ID, usePermissions } from '@/lib/permissions';
+import {
+  CASH_FLOW_LINES,
+  CASH_FLOW_LINE_KEYS,
+  CASH_FLOW_SECTION_LABELS,
+  type CashFlowMapping,
+} from '@/lib/cash-flow/types';
+
+const MAPPING_QUERY_KEY = ['cash-flow', 'mapping'];
+/** Query key ของรายงานบัญชี (งบกระแสเงินสดคำนวณใหม่ตามผัง) */
+const REPORT_QUERY_KEY = ['accountingReportData'];
+
+const SECTION_LABELS = { cash: 'เงินสด', ...CASH_FLOW_SECTION_LABELS };
+
+const emptyMapping: CashFlowMapping = { id: '', accountPrefix: '', line: 'other_current_assets', note: '' };
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+function MappingForm({ mapping, onDone }: { mapping: CashFlowMapping; onDone: () => void }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<CashFlowMapping>(mapping);
+  const set = <K extends keyof CashFlowMapping>(key: K, value: CashFlowMapping[K]) => setDraft({ ...draft, [key]: value });
+  const isNew = !mapping.id;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: MAPPING_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: REPORT_QUERY_KEY });
+  };
+
+  const save = useMutation({
+    mutationFn: () =>
+      isNew
+        ? requestJson<CashFlowMapping>('/api/accounting/cash-flow/mapping', { method: 'POST', body: JSON.stringify(draft) })
+        : requestJson<CashFlowMapping>(`/api/accounting/cash-flow/mapping/${mapping.id}`, {
+            method: 'PUT',
+            body: JSON.stringify(draft),
+          }),
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => requestJson<void>(`/api/accounting/cash-flow/mapping/${mapping.id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidate();
+      onDone();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-border p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate();
+      }}
+    >
+      <div className="grid gap-3 sm:grid-cols-[160px_1fr_1fr]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          รหัสบัญชีขึ้นต้นด้วย
+          <input
+            value={draft.accountPrefix}
+            onChange={(e) => set('accountPrefix', e.target.value)}
+            placeholder="เช่น 113"
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          บรรทัดในงบกระแสเงินสด
+          <select
+            value={draft.line}
+            onChange={(e) => set('line', e.target.value as CashFlowMapping['line'])}
+            className={inputClass}
+          >
+            {CASH_FLOW_LINE_KEYS.filter((key) => key !== 'net_profit').map((key) => (
+              <option key={key} value={key}>
+                {SECTION_LABELS[CASH_FLOW_LINES[key].section]} — {CASH_FLOW_LINES[key].label}
+              </option>
+            ))}
+            <option value="net_profit">กำไรสะสม/ปิดบัญชี — {CASH_FLOW_LINES.net_profit.label}</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          หมายเหตุ
+          <input value={draft.note} onChange={(e) => set('note', e.target.value)} className={inputClass} />
+        </label>
+      </div>
+
+      {(save.error || remove.error) && <ErrorDisplay error={(save.error || remove.error)!} />}
+
+      <div className="flex justify-end gap-2">
+        {!isNew && (
+          <button
+            type="button"
+            onClick={() => confirm(`ลบกฎของรหัสบัญชี "${mapping.accountPrefix}"?`) && remove.mutate()}
+            disabled={remove.isPending}
+            className="mr-auto inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            ลบ
+          </button>
+        )}
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm rounded-md hover:bg-muted">
+          ยกเลิก
+        </button>
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function CashFlowMappingSettingsPage() {
+  const { user, loading: userLoading } = usePermissions();
+  const [editing, setEditing] = useState<CashFlowMapping | null>(null);
+
+  const isAdmin = user?.role.id === ADMIN_ROLE_ID;
+
+  const { data: mappings = [], isLoading, error, refetch } = useQuery({
+    queryKey: MAPPING_QUERY_KEY,
+    queryFn: () => requestJson<CashFlowMapping[]>('/api/accounting/cash-flow/mapping'),
+    enabled: isAdmin,
+  });
+
+  if (userLoading) return <TableSkeleton />;
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 text-center">
+        <Lock className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <p className="text-sm text-muted-foreground">เฉพาะผู้ดูแลระบบเท่านั้นที่แก้ไขผังกระแสเงินสดได้</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Droplets className="h-6 w-6 text-primary" />
+            ผังกระแสเงินสด
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            จับคู่รหัสบัญชีงบดุลกับบรรทัดของงบกระแสเงินสด (รหัสที่ยาวกว่าชนะ) บัญชีรายได้/ค่าใช้จ่ายรวมเป็นกำไรสุทธิเสมอ
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing(emptyMapping)}
+          className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground"
+        >
+          <Plus className="h-4 w-4" />
+          เพิ่มกฎ
+        </button>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      {editing && <MappingForm key={editing.id || 'new'} mapping={editing} onDone={() => setEditing(null)} />}
+
+      {isLoading ? (
+        <TableSkeleton rows={6} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="py-2 px-3 font-medium">รหัสบัญชีขึ้นต้นด้วย</th>
+                <th className="py-2 px-3 font-medium">กิจกรรม</th>
+                <th className="py-2 px-3 font-medium">บรรทัด</th>
+                <th className="py-2 px-3 font-medium">หมายเหตุ</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {mappings.map((mapping) => (
+                <tr key={mapping.id} className="border-b border-border/50 last:border-0">
+                  <td className="py-2 px-3 font-mono text-xs">{mapping.accountPrefix}</td>
+                  <td className="py-2 px-3">{SECTION_LABELS[CASH_FLOW_LINES[mapping.line]?.section] ?? '-'}</td>
+                  <td className="py-2 px-3">{CASH_FLOW_LINES[mapping.line]?.label ?? mapping.line}</td>
+                  <td className="py-2 px-3 text-muted-foreground">{mapping.note || '-'}</td>
+                  <td className="py-2 px-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(mapping)}
+                      className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                      แก้ไข
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {mappings.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="py-6 text-center text-muted-foreground">
+                    ยังไม่มีกฎ บัญชีทั้งหมดจะถูกจัดตามหมวดบัญชี
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
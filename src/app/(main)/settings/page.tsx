@@ -0,0 +1,71 @@
+'use client';
+
+import Link from 'next/link';
+import { Settings, Shield, Building2, Mail, BellRing, Droplets, Target, ChevronRight } from 'lucide-react';
+
+const settingsItems = [
+  {
+    href: '/settings/roles',
+    icon: Shield,
+    title: 'สิทธิ์ผู้ใช้',
+    description: 'จัดการ Role, สิทธิ์ราย Component และกำหนด Role ให้ผู้ใช้',
+  },
+  {
+    href: '/settings/branches',
+    icon: Building2,
+    title: 'ทะเบียนกิจการ',
+    description: 'ชื่อ ชื่อย่อ เลขผู้เสียภาษี ที่อยู่ สี และลำดับของแต่ละกิจการ',
+  },
+  {
+    href: '/settings/report-schedules',
+    icon: Mail,
+    title: 'ส่งรายงานทางอีเมล',
+    description: 'ตั้งเวลาส่งรายงาน PDF/Excel ให้ผู้รับทางอีเมลเป็นประจำ',
+  },
+  {
+    href: '/settings/alert-rules',
+    icon: BellRing,
+    title: 'กฎแจ้งเตือน',
+    description: 'แจ้งเตือนเมื่อ KPI ผ่านเกณฑ์ที่กำหนด แยกตามกิจการและระดับความรุนแรง',
+  },
+  {
+    href: '/settings/cash-flow-mapping',
+    icon: Droplets,
+    title: 'ผังกระแสเงินสด',
+    description: 'จับคู่รหัสบัญชีกับบรรทัดของงบกระแสเงินสด (เงินสด ลูกหนี้ สินค้า เจ้าหนี้ ลงทุน จัดหาเงิน)',
+  },
+  {
+    href: '/settings/budgets',
+    icon: Target,
+    title: 'งบประมาณ',
+    description: 'งบประมาณรายเดือนต่อบัญชีและกิจการ นำเข้า/ส่งออก Excel ใช้เทียบผลจริงใน KPI และงบกำไรขาดทุน',
+  },
+];
+
+export default function SettingsPage() {
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold flex items-center gap-2">
+        <Settings className="h-6 w-6 text-primary" />
+        ตั้งค่า
+      </h1>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        {settingsItems.map(({ href, icon: Icon, title, description }) => (
+          <Link
+            key={href}
+            href={href}
+            className="group flex items-start gap-3 rounded-xl border border-border bg-card p-5 hover:border-primary transition-colors"
+          >
+            <Icon className="h-5 w-5 text-primary mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold">{title}</p>
+              <p className="text-sm text-muted-foreground mt-1">{description}</p>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground group-hover:text-primary" />
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Mail, Plus, Save, Trash2, Loader2, Pencil, Send } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { DATE_RANGES, RELATIVE_DATE_RANGE_KEYS, type RelativeDateRangeKey } from '@/lib/dateRanges';
+import { useBranchStore, formatSelectedBranchNames } from '@/store/useBranchStore';
+import {
+  CRON_PRESETS,
+  REPORT_FORMATS,
+  REPORT_TYPES,
+  type ReportFormat,
+  type ReportSchedule,
+  type ReportType,
+} from '@/lib/reports/types';
+
+type ScheduleDraft = Pick<
+  ReportSchedule,
+  'name' | 'reportType' | 'datePreset' | 'branches' | 'format' | 'cron' | 'recipients' | 'enabled'
+>;
+
+const SCHEDULES_QUERY_KEY = ['reports', 'schedules'];
+
+const emptySchedule: ScheduleDraft = {
+  name: '',
+  reportType: 'profit-loss',
+  datePreset: 'LAST_MONTH',
+  branches: ['ALL'],
+  format: 'pdf',
+  cron: CRON_PRESETS[2].cron,
+  recipients: [],
+  enabled: true,
+};
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  success: { label: 'สำเร็จ', className: 'text-emerald-600' },
+  failed: { label: 'ล้มเหลว', className: 'text-destructive' },
+  skipped: { label: 'ข้าม', className: 'text-muted-foreground' },
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+function formatDateTime(value: string | null): string {
+  return value ? new Date(value).toLocaleString('th-TH', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+}
+
+function ScheduleForm({
+  schedule,
+  scheduleId,
+  onDone,
+}: {
+  schedule: ScheduleDraft;
+  /** undefined = สร้างใหม่ */
+  scheduleId?: string;
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const [draft, setDraft] = useState<ScheduleDraft>(schedule);
+  const [recipientsText, setRecipientsText] = useState(schedule.recipients.join(', '));
+  const set = <K extends keyof ScheduleDraft>(key: K, value: ScheduleDraft[K]) => setDraft({ ...draft, [key]: value });
+
+  const allBranches = draft.branches.includes('ALL');
+  const toggleBranch = (key: string) => {
+    const current = draft.branches.filter((b) => b !== 'ALL');
+    const next = current.includes(key) ? current.filter((b) => b !== key) : [...current, key];
+    set('branches', next.length === 0 ? ['ALL'] : next);
+  };
+
+  const save = useMutation({
+    mutationFn: () => {
+      const body = JSON.stringify({
+        ...draft,
+        recipients: recipientsText.split(/[\s,;]+/).filter(Boolean),
+      });
+      return scheduleId
+        ? requestJson<ReportSchedule>(`/api/reports/schedules/${scheduleId}`, { method: 'PUT', body })
+        : requestJson<ReportSchedule>('/api/reports/schedules', { method: 'POST', body });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      onDone();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => requestJson<void>(`/api/reports/schedules/${scheduleId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY });
+      onDone();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-border p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save.mutate();
+      }}
+    >
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr_160px]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ชื่อกำหนดการ
+          <input
+            value={draft.name}
+            onChange={(e) => set('name', e.target.value)}
+            placeholder="เช่น งบกำไรขาดทุนประจำเดือน"
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          รายงาน
+          <select
+            value={draft.reportType}
+            onChange={(e) => set('reportType', e.target.value as ReportType)}
+            className={inputClass}
+          >
+            {(Object.keys(REPORT_TYPES) as ReportType[]).map((type) => (
+              <option key={type} value={type}>
+                {REPORT_TYPES[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          รูปแบบไฟล์
+          <select
+            value={draft.format}
+            onChange={(e) => set('format', e.target.value as ReportFormat)}
+            className={inputClass}
+          >
+            {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {REPORT_FORMATS[format]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-[1fr_1fr_1fr]">
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ช่วงวันที่ (คำนวณ ณ เวลาที่ส่ง)
+          <select
+            value={draft.datePreset}
+            onChange={(e) => set('datePreset', e.target.value as RelativeDateRangeKey)}
+            className={inputClass}
+          >
+            {RELATIVE_DATE_RANGE_KEYS.map((preset) => (
+              <option key={preset} value={preset}>
+                {DATE_RANGES[preset].label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          ความถี่
+          <select
+            value={CRON_PRESETS.some((p) => p.cron === draft.cron) ? draft.cron : ''}
+            onChange={(e) => e.target.value && set('cron', e.target.value)}
+            className={inputClass}
+          >
+            {CRON_PRESETS.map((preset) => (
+              <option key={preset.cron} value={preset.cron}>
+                {preset.label}
+              </option>
+            ))}
+            <option value="">กำหนดเอง (cron)</option>
+          </select>
+        </label>
+        <label className="space-y-1 text-xs text-muted-foreground">
+          cron (นาที ชั่วโมง วันที่ เดือน วันในสัปดาห์)
+          <input
+            value={draft.cron}
+            onChange={(e) => set('cron', e.target.value)}
+            className={cn(inputClass, 'font-mono')}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-1 text-xs text-muted-foreground">
+        กิจการ
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => set('branches', ['ALL'])}
+            className={cn(
+              'px-2.5 py-1 text-xs rounded-md border',
+              allBranches ? 'border-primary bg-primary/10 text-foreground' : 'border-border bg-background'
+            )}
+          >
+            ทุกกิจการที่มีสิทธิ์
+          </button>
+          {availableBranches.map((branch) => (
+            <button
+              key={branch.key}
+              type="button"
+              onClick={() => toggleBranch(branch.key)}
+              className={cn(
+                'px-2.5 py-1 text-xs rounded-md border',
+                draft.branches.includes(branch.key)
+                  ? 'border-primary bg-primary/10 text-foreground'
+                  : 'border-border bg-background'
+              )}
+            >
+              {branch.shortName || branch.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-1 text-xs text-muted-foreground">
+        อีเมลผู้รับ (คั่นด้วย , หรือขึ้นบรรทัดใหม่)
+        <textarea
+          value={recipientsText}
+          onChange={(e) => setRecipientsText(e.target.value)}
+          rows={2}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={draft.enabled} onChange={(e) => set('enabled', e.target.checked)} />
+        เปิดใช้งาน
+      </label>
+
+      {(save.error || remove.error) && <ErrorDisplay error={(save.error || remove.error)!} />}
+
+      <div className="flex justify-end gap-2">
+        {scheduleId && (
+          <button
+            type="button"
+            onClick={() => confirm(`ลบกำหนดการ "${schedule.name}"?`) && remove.mutate()}
+            disabled={remove.isPending}
+            className="mr-auto inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+          >
+            <Trash2 className="h-4 w-4" />
+            ลบ
+          </button>
+        )}
+        <button type="button" onClick={onDone} className="px-3 py-1.5 text-sm rounded-md hover:bg-muted">
+          ยกเลิก
+        </button>
+        <button
+          type="submit"
+          disabled={save.isPending}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default function ReportSchedulesPage() {
+  const queryClient = useQueryClient();
+  const availableBranches = useBranchStore((s) => s.availableBranches);
+  const [editing, setEditing] = useState<{ schedule: ScheduleDraft; id?: string } | null>(null);
+
+  const { data: schedules = [], isLoading, error, refetch } = useQuery({
+    queryKey: SCHEDULES_QUERY_KEY,
+    queryFn: () => requestJson<ReportSchedule[]>('/api/reports/schedules'),
+  });
+
+  const runNow = useMutation({
+    mutationFn: (id: string) =>
+      requestJson<{ status: string; error?: string }>(`/api/reports/schedules/${id}/run`, { method: 'POST' }),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: SCHEDULES_QUERY_KEY }),
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Mail className="h-6 w-6 text-primary" />
+            ส่งรายงานทางอีเมล
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            ส่งรายงาน PDF/Excel ตามกำหนดเวลา โดยใช้สิทธิ์ของผู้สร้าง ณ เวลาที่ส่ง
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setEditing({ schedule: emptySchedule })}
+          className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground"
+        >
+          <Plus className="h-4 w-4" />
+          เพิ่มกำหนดการ
+        </button>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+      {runNow.error && <ErrorDisplay error={runNow.error} />}
+
+      {editing && (
+        <ScheduleForm
+          key={editing.id ?? 'new'}
+          schedule={editing.schedule}
+          scheduleId={editing.id}
+          onDone={() => setEditing(null)}
+        />
+      )}
+
+      {isLoading ? (
+        <TableSkeleton rows={4} />
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+                <th className="py-2 px-3 font-medium">ชื่อ</th>
+                <th className="py-2 px-3 font-medium">รายงาน</th>
+                <th className="py-2 px-3 font-medium">กิจการ</th>
+                <th className="py-2 px-3 font-medium">ความถี่</th>
+                <th className="py-2 px-3 font-medium">ผู้รับ</th>
+                <th className="py-2 px-3 font-medium">รอบถัดไป</th>
+                <th className="py-2 px-3 font-medium">ส่งล่าสุด</th>
+                <th className="py-2 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {schedules.map((schedule) => {
+                const status = schedule.lastStatus ? STATUS_LABELS[schedule.lastStatus] : null;
+                const preset = CRON_PRESETS.find((p) => p.cron === schedule.cron);
+                return (
+                  <tr
+                    key={schedule.id}
+                    className={cn('border-b border-border/50 last:border-0', !schedule.enabled && 'opacity-60')}
+                  >
+                    <td className="py-2 px-3">
+                      <div className="font-medium">{schedule.name}</div>
+                      <div className="text-xs text-muted-foreground">{schedule.createdByEmail}</div>
+                    </td>
+                    <td className="py-2 px-3">
+                      {REPORT_TYPES[schedule.reportType]}
+                      <div className="text-xs text-muted-foreground">
+                        {DATE_RANGES[schedule.datePreset].label} · {REPORT_FORMATS[schedule.format]}
+                      </div>
+                    </td>
+                    <td className="py-2 px-3">{formatSelectedBranchNames(schedule.branches, availableBranches)}</td>
+                    <td className="py-2 px-3">
+                      {preset ? preset.label : <span className="font-mono text-xs">{schedule.cron}</span>}
+                    </td>
+                    <td className="py-2 px-3 text-xs">{schedule.recipients.join(', ')}</td>
+                    <td className="py-2 px-3">{schedule.enabled ? formatDateTime(schedule.nextRunAt) : 'ปิดใช้งาน'}</td>
+                    <td className="py-2 px-3">
+                      {formatDateTime(schedule.lastRunAt)}
+                      {status && (
+                        <div className={cn('text-xs', status.className)} title={schedule.lastError ?? undefined}>
+                          {status.label}
+                          {schedule.lastError && `: ${schedule.lastError}`}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-right whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => runNow.mutate(schedule.id)}
+                        disabled={runNow.isPending}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted disabled:opacity-50"
+                      >
+                        {runNow.isPending && runNow.variables === schedule.id ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Send className="h-3.5 w-3.5" />
+                        )}
+                        ส่งทันที
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditing({ schedule, id: schedule.id })}
+                        className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-md hover:bg-muted"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                        แก้ไข
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+              {schedules.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="py-6 text-center text-muted-foreground">
+                    ยังไม่มีกำหนดการส่งรายงาน
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,458 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Shield, Plus, Save, Trash2, Users, Loader2, Lock, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import {
+  ADMIN_ROLE_ID,
+  CURRENT_USER_QUERY_KEY,
+  MODULES,
+  MODULE_COMPONENTS,
+  MODULE_LABELS,
+  PERMISSION_LEVELS,
+  PERMISSION_LEVEL_LABELS,
+  usePermissions,
+} from '@/lib/permissions';
+import type { ComponentKey, Module, ModulePermission, PermissionLevel, Role } from '@/lib/permissions';
+
+interface UserRoleAssignment {
+  userId: string;
+  name: string;
+  email: string;
+  roleId: string;
+  assigned: boolean;
+}
+
+const ROLES_QUERY_KEY = ['auth', 'roles'];
+const USER_ROLES_QUERY_KEY = ['auth', 'user-roles'];
+
+const levelStyles: Record<PermissionLevel, string> = {
+  none: 'bg-muted text-muted-foreground',
+  view: 'bg-blue-500/15 text-blue-600 dark:text-blue-400',
+  full: 'bg-emerald-500/15 text-emerald-600 dark:text-emerald-400',
+};
+
+function LevelPicker({
+  value,
+  onChange,
+  disabled,
+  inherited,
+}: {
+  value: PermissionLevel | undefined;
+  onChange: (level: PermissionLevel | undefined) => void;
+  disabled?: boolean;
+  /** Module level ที่ใช้เมื่อ Component ไม่ได้กำหนดเอง */
+  inherited?: PermissionLevel;
+}) {
+  return (
+    <div className="inline-flex rounded-md border border-border overflow-hidden">
+      {inherited !== undefined && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(undefined)}
+          className={cn(
+            'px-2.5 py-1 text-xs transition-colors disabled:cursor-not-allowed',
+            value === undefined ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'
+          )}
+          title={`ตาม Module (${PERMISSION_LEVEL_LABELS[inherited]})`}
+        >
+          ตาม Module
+        </button>
+      )}
+      {PERMISSION_LEVELS.map((level) => (
+        <button
+          key={level}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(level)}
+          className={cn(
+            'px-2.5 py-1 text-xs border-l border-border first:border-l-0 transition-colors disabled:cursor-not-allowed',
+            value === level ? levelStyles[level] + ' font-semibold' : 'hover:bg-muted'
+          )}
+        >
+          {PERMISSION_LEVEL_LABELS[level]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function PermissionMatrix({
+  permissions,
+  onChange,
+  readOnly,
+}: {
+  permissions: ModulePermission[];
+  onChange: (permissions: ModulePermission[]) => void;
+  readOnly: boolean;
+}) {
+  const update = (module: Module, patch: (p: ModulePermission) => ModulePermission) => {
+    onChange(permissions.map((p) => (p.module === module ? patch(p) : p)));
+  };
+
+  const setComponent = (module: Module, key: ComponentKey, level: PermissionLevel | undefined) => {
+    update(module, (p) => {
+      const components = { ...p.components };
+      if (level === undefined) delete components[key];
+      else components[key] = level;
+      return { ...p, components };
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {MODULES.map((module) => {
+        const permission = permissions.find((p) => p.module === module) ?? { module, level: 'none', components: {} };
+        return (
+          <div key={module} className="rounded-lg border border-border overflow-hidden">
+            <div className="flex items-center justify-between gap-3 px-4 py-3 bg-muted/40">
+              <span className="font-semibold text-sm">{MODULE_LABELS[module]}</span>
+              <LevelPicker
+                value={permission.level}
+                disabled={readOnly}
+                onChange={(level) => level && update(module, (p) => ({ ...p, level }))}
+              />
+            </div>
+            <div className="divide-y divide-border">
+              {MODULE_COMPONENTS[module].map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between gap-3 px-4 py-2">
+                  <div>
+                    <p className="text-sm">{label}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{key}</p>
+                  </div>
+                  <LevelPicker
+                    value={permission.components[key]}
+                    inherited={permission.level}
+                    disabled={readOnly || permission.level === 'none'}
+                    onChange={(level) => setComponent(module, key, level)}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function NewRoleForm({ onCreated, onCancel }: { onCreated: (role: Role) => void; onCancel: () => void }) {
+  const [id, setId] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  const create = useMutation({
+    mutationFn: () =>
+      requestJson<Role>('/api/auth/roles', {
+        method: 'POST',
+        body: JSON.stringify({ id, name, description, permissions: [] }),
+      }),
+    onSuccess: onCreated,
+  });
+
+  return (
+    <form
+      className="space-y-3 rounded-lg border border-border p-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        create.mutate();
+      }}
+    >
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          value={id}
+          onChange={(e) => setId(e.target.value)}
+          placeholder="รหัส เช่น warehouse"
+          className="px-3 py-2 text-sm rounded-md border border-border bg-background"
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="ชื่อ Role"
+          className="px-3 py-2 text-sm rounded-md border border-border bg-background"
+        />
+      </div>
+      <input
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="คำอธิบาย"
+        className="w-full px-3 py-2 text-sm rounded-md border border-border bg-background"
+      />
+      {create.error && <ErrorDisplay error={create.error} />}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 text-sm rounded-md hover:bg-muted">
+          ยกเลิก
+        </button>
+        <button
+          type="submit"
+          disabled={create.isPending}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+        >
+          {create.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          สร้าง Role
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function RoleEditor({ role, onDeleted }: { role: Role; onDeleted: () => void }) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<Role>(role);
+  const isAdminRole = role.id === ADMIN_ROLE_ID;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(role);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: CURRENT_USER_QUERY_KEY });
+  };
+
+  const save = useMutation({
+    mutationFn: () =>
+      requestJson<Role>(`/api/auth/roles/${encodeURIComponent(role.id)}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          ...(isAdminRole ? {} : { permissions: draft.permissions }),
+        }),
+      }),
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: () => requestJson<void>(`/api/auth/roles/${encodeURIComponent(role.id)}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      invalidate();
+      onDeleted();
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="flex-1 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full px-3 py-2 text-base font-semibold rounded-md border border-border bg-background"
+          />
+          <input
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            placeholder="คำอธิบาย"
+            className="w-full px-3 py-2 text-sm rounded-md border border-border bg-background"
+          />
+        </div>
+        <div className="flex gap-2">
+          {!isAdminRole && (
+            <button
+              type="button"
+              onClick={() => confirm(`ลบ Role "${role.name}" ?`) && remove.mutate()}
+              disabled={remove.isPending}
+              className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md text-destructive hover:bg-destructive/10 disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              ลบ
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => save.mutate()}
+            disabled={!isDirty || save.isPending}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground disabled:opacity-50"
+          >
+            {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            บันทึก
+          </button>
+        </div>
+      </div>
+
+      {(save.error || remove.error) && <ErrorDisplay error={(save.error || remove.error)!} />}
+
+      {isAdminRole && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Lock className="h-3.5 w-3.5" />
+          Role ผู้ดูแลระบบมีสิทธิ์เต็มทุก Component และเข้าถึงทุกกิจการ แก้ไขได้เฉพาะชื่อและคำอธิบาย
+        </p>
+      )}
+
+      <PermissionMatrix
+        permissions={draft.permissions}
+        readOnly={isAdminRole}
+        onChange={(permissions) => setDraft({ ...draft, permissions })}
+      />
+    </div>
+  );
+}
+
+function UserAssignments({ roles }: { roles: Role[] }) {
+  const queryClient = useQueryClient();
+  const { data: users = [], isLoading, error } = useQuery({
+    queryKey: USER_ROLES_QUERY_KEY,
+    queryFn: () => requestJson<UserRoleAssignment[]>('/api/auth/user-roles'),
+  });
+
+  const assign = useMutation({
+    mutationFn: ({ userId, roleId }: { userId: string; roleId: string | null }) =>
+      requestJson<void>(`/api/auth/user-roles/${encodeURIComponent(userId)}`, {
+        method: 'PUT',
+        body: JSON.stringify({ roleId }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_ROLES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: CURRENT_USER_QUERY_KEY });
+    },
+  });
+
+  if (isLoading) return <TableSkeleton rows={4} />;
+  if (error) return <ErrorDisplay error={error} />;
+
+  return (
+    <div className="overflow-x-auto">
+      {assign.error && <ErrorDisplay error={assign.error} className="mb-3" />}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">ผู้ใช้</th>
+            <th className="py-2 pr-4 font-medium">อีเมล</th>
+            <th className="py-2 font-medium">Role</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {users.map((user) => (
+            <tr key={user.userId}>
+              <td className="py-2 pr-4">{user.name || '-'}</td>
+              <td className="py-2 pr-4 text-muted-foreground">{user.email}</td>
+              <td className="py-2">
+                <select
+                  value={user.assigned ? user.roleId : ''}
+                  disabled={assign.isPending}
+                  onChange={(e) => assign.mutate({ userId: user.userId, roleId: e.target.value || null })}
+                  className="px-2 py-1 text-sm rounded-md border border-border bg-background"
+                >
+                  <option value="">
+                    ค่าเริ่มต้น ({roles.find((r) => r.id === user.roleId)?.name ?? user.roleId})
+                  </option>
+                  {roles.map((role) => (
+                    <option key={role.id} value={role.id}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function RolesSettingsPage() {
+  const { user, loading: userLoading } = usePermissions();
+  const [selectedRoleId, setSelectedRoleId] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const queryClient = useQueryClient();
+
+  const isAdmin = user?.role.id === ADMIN_ROLE_ID;
+
+  const { data: roles = [], isLoading, error, refetch } = useQuery({
+    queryKey: ROLES_QUERY_KEY,
+    queryFn: () => requestJson<Role[]>('/api/auth/roles'),
+    enabled: isAdmin,
+  });
+
+  const selectedRole = roles.find((r) => r.id === selectedRoleId) ?? roles[0];
+
+  if (userLoading) return <TableSkeleton />;
+
+  if (!isAdmin) {
+    return (
+      <div className="flex flex-col items-center justify-center p-12 text-center">
+        <Lock className="h-12 w-12 text-muted-foreground/50 mb-4" />
+        <p className="text-sm text-muted-foreground">เฉพาะผู้ดูแลระบบเท่านั้นที่จัดการสิทธิ์ผู้ใช้ได้</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Shield className="h-6 w-6 text-primary" />
+          สิทธิ์ผู้ใช้
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          กำหนดสิทธิ์ none / view / full ราย Component การเปลี่ยนแปลงมีผลกับ request ถัดไปของผู้ใช้
+        </p>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      <div className="grid gap-6 lg:grid-cols-[240px_1fr]">
+        <div className="space-y-2">
+          {isLoading ? (
+            <TableSkeleton rows={5} />
+          ) : (
+            roles.map((role) => (
+              <button
+                key={role.id}
+                type="button"
+                onClick={() => {
+                  setSelectedRoleId(role.id);
+                  setIsCreating(false);
+                }}
+                className={cn(
+                  'w-full text-left px-3 py-2 rounded-lg border transition-colors',
+                  selectedRole?.id === role.id && !isCreating
+                    ? 'border-primary bg-primary/5'
+                    : 'border-border hover:bg-muted'
+                )}
+              >
+                <p className="text-sm font-medium">{role.name}</p>
+                <p className="text-xs text-muted-foreground font-mono">{role.id}</p>
+              </button>
+            ))
+          )}
+          <button
+            type="button"
+            onClick={() => setIsCreating(true)}
+            className="w-full inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg border border-dashed border-border hover:bg-muted"
+          >
+            {isCreating ? <X className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+            เพิ่ม Role
+          </button>
+        </div>
+
+        <div className="rounded-xl border border-border bg-card p-4 sm:p-6">
+          {isCreating ? (
+            <NewRoleForm
+              onCancel={() => setIsCreating(false)}
+              onCreated={(role) => {
+                queryClient.invalidateQueries({ queryKey: ROLES_QUERY_KEY });
+                setSelectedRoleId(role.id);
+                setIsCreating(false);
+              }}
+            />
+          ) : selectedRole ? (
+            <RoleEditor key={selectedRole.id} role={selectedRole} onDeleted={() => setSelectedRoleId(null)} />
+          ) : null}
+        </div>
+      </div>
+
+      <div className="rounded-xl border border-border bg-card p-4 sm:p-6">
+        <h2 className="text-base font-bold flex items-center gap-2 mb-4">
+          <Users className="h-5 w-5 text-primary" />
+          ผู้ใช้และ Role
+        </h2>
+        <UserAssignments roles={roles} />
+      </div>
+    </div>
+  );
+}
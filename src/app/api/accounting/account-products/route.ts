@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAccountProducts } from '@/lib/data/accounting';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
@@ -17,13 +18,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const branches = searchParams.getAll('branch');
-    let normalizedBranches = branches;
-    if (branches.length === 0) {
-      normalizedBranches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      normalizedBranches = branches[0].split(',');
-    }
+    const normalizedBranches = await getAuthorizedBranches(searchParams);
 
     const cachedQuery = createCachedQuery(
       () => getAccountProducts({ start: startDate, end: endDate }, accountCode, normalizedBranches),
@@ -36,6 +31,6 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ success: true, data });
   } catch (error) {
     logError(error, 'GET /api/accounting/account-products');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
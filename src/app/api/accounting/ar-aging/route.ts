@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getARAgingData } from '@/lib/data/accounting';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
 
 export async function GET(request: Request) {
@@ -16,12 +17,7 @@ export async function GET(request: Request) {
       );
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const dateRange = { start: startDate, end: endDate };
 
@@ -40,6 +36,6 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     logError(error, 'GET /api/accounting/ar-aging');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
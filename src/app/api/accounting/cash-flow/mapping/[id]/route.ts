@@ -0,0 +1,38 @@
+/**
+ * PUT    /api/accounting/cash-flow/mapping/:id - แก้ไขกฎผังกระแสเงินสด (เฉพาะผู้ดูแลระบบ)
+ * DELETE /api/accounting/cash-flow/mapping/:id - ลบกฎ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteCashFlowMapping, updateCashFlowMapping } from '@/lib/cash-flow/store';
+import { requireAdmin } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+    const body = await request.json();
+    const mapping = await updateCashFlowMapping(id, body);
+
+    return NextResponse.json({ success: true, data: mapping });
+  } catch (error) {
+    logError(error, 'PUT /api/accounting/cash-flow/mapping/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { id } = await params;
+    await deleteCashFlowMapping(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/accounting/cash-flow/mapping/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
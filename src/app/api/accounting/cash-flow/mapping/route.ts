@@ -0,0 +1,34 @@
+/**
+ * GET  /api/accounting/cash-flow/mapping - ผังกระแสเงินสด (กฎจับคู่รหัสบัญชี → บรรทัดของงบ)
+ * POST /api/accounting/cash-flow/mapping - เพิ่มกฎ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createCashFlowMapping, listCashFlowMappings } from '@/lib/cash-flow/store';
+import { requireAdmin, requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    await requireUser();
+    const mappings = await listCashFlowMappings();
+
+    return NextResponse.json({ success: true, data: mappings });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/cash-flow/mapping');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const mapping = await createCashFlowMapping(body);
+
+    return NextResponse.json({ success: true, data: mapping }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/accounting/cash-flow/mapping');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
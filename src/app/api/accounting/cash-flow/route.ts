@@ -1,8 +1,15 @@
 import { NextResponse } from 'next/server';
-import { getCashFlowData } from '@/lib/data/accounting';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { getCashFlowAccounts } from '@/lib/data/accounting';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
+import { buildCashFlowStatement } from '@/lib/cash-flow/statement';
+import { listCashFlowMappings } from '@/lib/cash-flow/store';
 
+/**
+ * GET /api/accounting/cash-flow - งบกระแสเงินสดวิธีทางอ้อม (CashFlowStatement)
+ * ยอดบัญชีจาก ClickHouse ถูก cache ส่วนผังกระแสเงินสดอ่านใหม่ทุกครั้ง จึงเห็นผลทันทีที่แก้ผัง
+ */
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url);
@@ -18,20 +25,16 @@ export async function GET(request: Request) {
 
     const dateRange = { start: startDate, end: endDate };
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const cachedQuery = createCachedQuery(
-      () => getCashFlowData(dateRange, branches),
+      () => getCashFlowAccounts(dateRange, branches),
       ['accounting', 'cash-flow', startDate, endDate, ...branches],
       CacheDuration.MEDIUM
     );
 
-    const data = await cachedQuery();
+    const [accounts, mappings] = await Promise.all([cachedQuery(), listCashFlowMappings()]);
+    const data = buildCashFlowStatement(accounts, mappings);
 
     return NextResponse.json({
       success: true,
@@ -40,6 +43,6 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     logError(error, 'GET /api/accounting/cash-flow');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getChartOfAccountsList } from '@/lib/data/accounting';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
 
 export async function GET(request: Request) {
@@ -18,12 +19,7 @@ export async function GET(request: Request) {
 
     const dateRange = { start: startDate, end: endDate };
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const cachedQuery = createCachedQuery(
       () => getChartOfAccountsList(dateRange, branches),
@@ -36,6 +32,6 @@ export async function GET(request: Request) {
     return NextResponse.json({ success: true, data });
   } catch (error) {
     logError(error, 'GET /api/accounting/chart-of-accounts');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
\ No newline at end of file
@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
 import { getAccountingKPIs } from '@/lib/data/accounting';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
+import { withBudget } from '@/lib/budgets/budget';
+import { getBudgetTotals } from '@/lib/budgets/store';
 
 export async function GET(request: Request) {
   try {
@@ -18,12 +21,7 @@ export async function GET(request: Request) {
 
     const dateRange = { start: startDate, end: endDate };
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     // Cache for 5 minutes
     const cachedQuery = createCachedQuery(
@@ -32,7 +30,10 @@ export async function GET(request: Request) {
       CacheDuration.MEDIUM
     );
 
-    const data = await cachedQuery();
+    const [kpis, budget] = await Promise.all([cachedQuery(), getBudgetTotals(dateRange, branches)]);
+    const data = budget
+      ? { ...kpis, revenue: withBudget(kpis.revenue, budget.revenue), expenses: withBudget(kpis.expenses, budget.expenses) }
+      : kpis;
 
     return NextResponse.json({
       success: true,
@@ -41,6 +42,6 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     logError(error, 'GET /api/accounting/kpis');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -1,14 +1,9 @@
 import { NextResponse } from 'next/server';
 import { clickhouse } from '@/lib/clickhouse';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-
-function buildBranchFilterSql(branches?: string[]): string {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) return '';
-  if (branches.length === 1) return `AND branch_sync = '${branches[0]}'`;
-  const list = branches.map((b) => `'${b}'`).join(', ');
-  return `AND branch_sync IN (${list})`;
-}
+import { sql, toQuery, branchFilter, dateParams } from '@/lib/data/query-builder';
 
 /**
  * GET /api/accounting/profit-loss-detail
@@ -27,13 +22,11 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'start_date and end_date are required' }, { status: 400 });
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) branches = ['ALL'];
-    else if (branches.length === 1 && branches[0].includes(',')) branches = branches[0].split(',');
+    const branches = await getAuthorizedBranches(searchParams);
 
-    const branchFilter = buildBranchFilterSql(branches.includes('ALL') ? [] : branches);
+    const { start, end } = dateParams({ start: startDate, end: endDate });
 
-    const query = `
+    const query = toQuery(sql`
       SELECT
         account_type                                              AS accountType,
         account_code                                             AS accountCode,
@@ -59,16 +52,16 @@ export async function GET(request: Request) {
         ) AS amount
       FROM journal_transaction_detail
       WHERE account_type IN ('INCOME', 'EXPENSES')
-        AND date(doc_datetime) BETWEEN '${startDate}' AND '${endDate}'
-        ${branchFilter}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branchFilter(branches)}
       GROUP BY accountType, accountCode, accountName, plGroup, month
       HAVING amount != 0
       ORDER BY plGroup, accountCode ASC, month ASC
-    `;
+    `);
 
     const cachedQuery = createCachedQuery(
       async () => {
-        const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+        const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
         return result.json();
       },
       ['accounting', 'profit-loss-detail-v2', startDate, endDate, ...branches],
@@ -80,6 +73,6 @@ export async function GET(request: Request) {
     return NextResponse.json({ success: true, data: rows, timestamp: new Date().toISOString() });
   } catch (error) {
     logError(error, 'GET /api/accounting/profit-loss-detail');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -0,0 +1,42 @@
+/**
+ * GET /api/accounting/receivables/:customerCode/statement?start_date=&end_date=&branch=...
+ * ใบแจ้งยอดลูกหนี้: ยอดยกมา ใบแจ้งหนี้เงินเชื่อ รับชำระ และยอดคงเหลือ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getCustomerStatement } from '@/lib/data/receivables';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ customerCode: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { customerCode } = await params;
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    if (!startDate || !endDate) {
+      throw ErrorTypes.BAD_REQUEST('start_date and end_date are required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+    const dateRange = { start: startDate, end: endDate };
+
+    const cachedQuery = createCachedQuery(
+      () => getCustomerStatement(dateRange, customerCode, branches),
+      ['accounting', 'receivables', 'statement', customerCode, startDate, endDate, ...branches],
+      CacheDuration.SHORT
+    );
+    const statement = await cachedQuery();
+    if (!statement.customerName && statement.lines.length === 0) {
+      throw ErrorTypes.NOT_FOUND(`ไม่พบลูกค้า: ${customerCode}`);
+    }
+
+    return NextResponse.json({ success: true, data: statement, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/receivables/[customerCode]/statement');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * PUT    /api/accounting/receivables/notes/:id - แก้ไขบันทึกการติดตาม / ปิดงานติดตาม
+ * DELETE /api/accounting/receivables/notes/:id - ลบบันทึก
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeBranches } from '@/lib/branch-access';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { requireUser } from '@/lib/permissions/store';
+import { deleteCollectionNote, getCollectionNote, updateCollectionNote } from '@/lib/receivables/store';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser();
+    const { id } = await params;
+    const body = await request.json();
+    const existing = await getCollectionNote(id);
+    // กิจการเดิมของบันทึกและกิจการที่จะบันทึกลงไป (ค่าเดียวกับที่ store ตรวจ)
+    const branchSync = String(body?.branchSync ?? existing.branchSync).trim();
+    await authorizeBranches([...new Set([existing.branchSync || branchSync, branchSync])]);
+    const note = await updateCollectionNote(id, body);
+
+    return NextResponse.json({ success: true, data: note });
+  } catch (error) {
+    logError(error, 'PUT /api/accounting/receivables/notes/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser();
+    const { id } = await params;
+    const note = await getCollectionNote(id);
+    await authorizeBranches([note.branchSync].filter(Boolean));
+    await deleteCollectionNote(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/accounting/receivables/notes/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
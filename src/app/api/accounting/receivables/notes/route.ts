@@ -0,0 +1,41 @@
+/**
+ * GET  /api/accounting/receivables/notes?customer_code=&branch=... - บันทึกการติดตามหนี้
+ * POST /api/accounting/receivables/notes - เพิ่มบันทึก (ข้อความ วันนัดชำระ วันติดตามครั้งถัดไป)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeBranches, getAuthorizedBranches } from '@/lib/branch-access';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { requireUser } from '@/lib/permissions/store';
+import { createCollectionNote, listCollectionNotes } from '@/lib/receivables/store';
+
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser();
+    const { searchParams } = new URL(request.url);
+    const branches = await getAuthorizedBranches(searchParams);
+    const notes = await listCollectionNotes({
+      customerCode: searchParams.get('customer_code') ?? undefined,
+      branches,
+    });
+
+    return NextResponse.json({ success: true, data: notes });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/receivables/notes');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    await authorizeBranches([String(body?.branchSync ?? '').trim()]);
+    const note = await createCollectionNote(body, user.username);
+
+    return NextResponse.json({ success: true, data: note }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/accounting/receivables/notes');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/accounting/receivables?start_date=&end_date=&branch=...
+ * อายุหนี้ต่อลูกค้า (0/30/60/90+) DSO ต่อลูกค้าและกิจการ และบันทึกที่ถึงวันติดตาม
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getBranchDSO, getCustomerAging } from '@/lib/data/receivables';
+import { DATE_RANGES } from '@/lib/dateRanges';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { withCollectionNotes } from '@/lib/receivables/receivables';
+import { listCollectionNotes, listDueFollowUps } from '@/lib/receivables/store';
+import type { ReceivablesSummary } from '@/lib/receivables/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    if (!startDate || !endDate) {
+      throw ErrorTypes.BAD_REQUEST('start_date and end_date are required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+    const dateRange = { start: startDate, end: endDate };
+
+    const cachedQuery = createCachedQuery(
+      async () => {
+        const [customers, branchDSO] = await Promise.all([
+          getCustomerAging(dateRange, branches),
+          getBranchDSO(dateRange, branches),
+        ]);
+        return { customers, branches: branchDSO };
+      },
+      ['accounting', 'receivables', startDate, endDate, ...branches],
+      CacheDuration.SHORT
+    );
+
+    // บันทึกการติดตามอ่านสดทุกครั้ง ไม่ผ่าน cache
+    const [data, notes, followUps] = await Promise.all([
+      cachedQuery(),
+      listCollectionNotes({ branches, status: 'open' }),
+      listDueFollowUps(DATE_RANGES.TODAY.getValue().start, branches),
+    ]);
+    const summary: ReceivablesSummary = {
+      customers: withCollectionNotes(data.customers, notes),
+      branches: data.branches,
+      followUps,
+    };
+
+    return NextResponse.json({ success: true, data: summary, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/receivables');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { getStatementAccounts } from '@/lib/data/accounting';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { addBudgetColumn } from '@/lib/budgets/budget';
+import { getBudgetEntries } from '@/lib/budgets/store';
+import { createCachedQuery, CacheDuration } from '@/lib/cache';
+import { buildStatementColumns } from '@/lib/statements/layout';
+import { buildStatement } from '@/lib/statements/statement';
+import { isStatementLayout, type StatementAmountColumn, type StatementKind } from '@/lib/statements/types';
+
+/**
+ * GET /api/accounting/statement - งบการเงินหลายคอลัมน์ตามรูปแบบ (Statement)
+ * ?statement=profit-loss|balance-sheet&layout=months|quarters|period-vs-last-year|ytd-vs-last-year|management|budget-vs-actual
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const statement = searchParams.get('statement');
+    const layout = searchParams.get('layout') ?? '';
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'start_date and end_date are required' },
+        { status: 400 }
+      );
+    }
+    if (statement !== 'profit-loss' && statement !== 'balance-sheet') {
+      return NextResponse.json({ error: 'statement must be profit-loss or balance-sheet' }, { status: 400 });
+    }
+    const kind: StatementKind = statement;
+    if (!isStatementLayout(kind, layout)) {
+      return NextResponse.json({ error: `layout ${layout} is not available for ${kind}` }, { status: 400 });
+    }
+
+    const dateRange = { start: startDate, end: endDate };
+    const columns = buildStatementColumns(kind, layout, dateRange);
+    const amountColumns = columns.filter((column): column is StatementAmountColumn => column.kind === 'amount');
+    const actualColumns = amountColumns.filter((column) => column.source !== 'budget');
+    const budgetColumns = amountColumns.filter((column) => column.source === 'budget');
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getStatementAccounts(kind, actualColumns, branches),
+      ['accounting', 'statement', kind, layout, startDate, endDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    let accounts = await cachedQuery();
+    // งบประมาณอ่านใหม่ทุกครั้ง ไม่ผ่าน cache
+    for (const column of budgetColumns) {
+      accounts = addBudgetColumn(accounts, column.key, await getBudgetEntries(column.range, branches), column.range);
+    }
+    const data = buildStatement(kind, layout, dateRange, columns, accounts);
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/statement');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getTrialBalance } from '@/lib/data/accounting';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { createCachedQuery, CacheDuration } from '@/lib/cache';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+
+    if (!startDate || !endDate) {
+      return NextResponse.json(
+        { error: 'start_date and end_date are required' },
+        { status: 400 }
+      );
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const dateRange = { start: startDate, end: endDate };
+
+    const cachedQuery = createCachedQuery(
+      () => getTrialBalance(dateRange, branches),
+      ['accounting', 'trial-balance', startDate, endDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({
+      success: true,
+      data,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logError(error, 'GET /api/accounting/trial-balance');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
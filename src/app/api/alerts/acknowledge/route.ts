@@ -0,0 +1,26 @@
+/**
+ * POST /api/alerts/acknowledge - รับทราบการแจ้งเตือน
+ *
+ * Body: { ids: string[] }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { acknowledgeAlertEvents } from '@/lib/alerts/store';
+import { requireUser } from '@/lib/permissions/store';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const { ids } = (await request.json()) as { ids?: unknown };
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string')) {
+      throw ErrorTypes.BAD_REQUEST('ids ต้องเป็น array ของ string');
+    }
+    await acknowledgeAlertEvents(user, ids);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'POST /api/alerts/acknowledge');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * POST /api/alerts/read - ทำเครื่องหมายว่าอ่านแล้ว
+ *
+ * Body: { ids?: string[] } (ไม่ส่ง ids = ทั้งหมด)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { markAlertEventsRead } from '@/lib/alerts/store';
+import { requireUser } from '@/lib/permissions/store';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const { ids } = (await request.json().catch(() => ({}))) as { ids?: unknown };
+    if (ids !== undefined && !(Array.isArray(ids) && ids.every((id) => typeof id === 'string'))) {
+      throw ErrorTypes.BAD_REQUEST('ids ต้องเป็น array ของ string');
+    }
+    await markAlertEventsRead(user, ids);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'POST /api/alerts/read');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
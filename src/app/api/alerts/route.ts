@@ -1,15 +1,27 @@
-import { NextResponse } from 'next/server';
-import { getAlerts } from '@/lib/data';
+/**
+ * GET /api/alerts - ประวัติการแจ้งเตือนของผู้ใช้ พร้อมจำนวนที่ยังไม่อ่าน/ยังไม่รับทราบ
+ *
+ * Query: filter=all|unread|open (ค่าเริ่มต้น all), limit (1-100), offset
+ */
 
-export async function GET() {
-    try {
-        const data = await getAlerts();
-        return NextResponse.json(data);
-    } catch (error) {
-        console.error('Error in alerts API:', error);
-        return NextResponse.json(
-            { error: 'Failed to fetch alerts' },
-            { status: 500 }
-        );
-    }
+import { NextRequest, NextResponse } from 'next/server';
+import { listAlertEvents, type AlertEventFilter } from '@/lib/alerts/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const searchParams = request.nextUrl.searchParams;
+    const feed = await listAlertEvents(user, {
+      filter: (searchParams.get('filter') as AlertEventFilter) || 'all',
+      limit: parseInt(searchParams.get('limit') || '20', 10),
+      offset: parseInt(searchParams.get('offset') || '0', 10),
+    });
+
+    return NextResponse.json({ success: true, data: feed });
+  } catch (error) {
+    logError(error, 'GET /api/alerts');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
 }
@@ -0,0 +1,43 @@
+/**
+ * PUT    /api/alerts/rules/:id - แก้ไขกฎ แล้วประเมินใหม่ทันที
+ * DELETE /api/alerts/rules/:id - ลบกฎ (ประวัติการแจ้งเตือนยังอยู่)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateRule } from '@/lib/alerts/engine';
+import { deleteRule, getRule, updateRule } from '@/lib/alerts/store';
+import { getUser, requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const body = await request.json();
+    const rule = await updateRule(id, user, body);
+    if (rule.enabled) {
+      // ประเมินด้วยสิทธิ์ของเจ้าของกฎ (ผู้ดูแลระบบอาจแก้กฎของผู้อื่น)
+      await evaluateRule(rule, rule.createdBy === user.id ? user : await getUser(rule.createdBy));
+    }
+
+    return NextResponse.json({ success: true, data: await getRule(id, user) });
+  } catch (error) {
+    logError(error, 'PUT /api/alerts/rules/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    await deleteRule(id, user);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/alerts/rules/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
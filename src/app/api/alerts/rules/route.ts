@@ -0,0 +1,38 @@
+/**
+ * GET  /api/alerts/rules - กฎแจ้งเตือนของผู้ใช้ (ผู้ดูแลระบบเห็นทั้งหมด)
+ * POST /api/alerts/rules - สร้างกฎ แล้วประเมินทันทีหนึ่งรอบ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateRule } from '@/lib/alerts/engine';
+import { createRule, getRule, listRules } from '@/lib/alerts/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const rules = await listRules(user);
+
+    return NextResponse.json({ success: true, data: rules });
+  } catch (error) {
+    logError(error, 'GET /api/alerts/rules');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    const rule = await createRule(user, body);
+    if (rule.enabled) {
+      await evaluateRule(rule, user);
+    }
+
+    return NextResponse.json({ success: true, data: await getRule(rule.id, user) }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/alerts/rules');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
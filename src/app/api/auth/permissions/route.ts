@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getMockCurrentUser } from '@/lib/permissions';
+import { getCurrentUser } from '@/lib/permissions/store';
 import type { ComponentKey, Module } from '@/lib/permissions/types';
 
 export async function GET(request: NextRequest) {
@@ -14,7 +14,7 @@ export async function GET(request: NextRequest) {
     const module = searchParams.get('module') as Module | null;
 
     // ดึงข้อมูล User
-    const user = getMockCurrentUser();
+    const user = await getCurrentUser();
 
     if (!user) {
       return NextResponse.json(
@@ -0,0 +1,55 @@
+/**
+ * GET    /api/auth/roles/:roleId - ดึง Role พร้อม Permission matrix
+ * PUT    /api/auth/roles/:roleId - แก้ไขชื่อ/คำอธิบาย/สิทธิ์ (เฉพาะผู้ดูแลระบบ)
+ * DELETE /api/auth/roles/:roleId - ลบ Role ที่ไม่มีผู้ใช้ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRole, getRole, requireAdmin, requireUser, updateRole } from '@/lib/permissions/store';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ roleId: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser();
+    const { roleId } = await params;
+    const role = await getRole(roleId);
+
+    if (!role) {
+      throw ErrorTypes.NOT_FOUND(`ไม่พบ Role: ${roleId}`);
+    }
+
+    return NextResponse.json({ success: true, data: role });
+  } catch (error) {
+    logError(error, 'GET /api/auth/roles/[roleId]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { roleId } = await params;
+    const body = await request.json();
+    const role = await updateRole(roleId, body);
+
+    return NextResponse.json({ success: true, data: role });
+  } catch (error) {
+    logError(error, 'PUT /api/auth/roles/[roleId]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { roleId } = await params;
+    await deleteRole(roleId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/auth/roles/[roleId]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
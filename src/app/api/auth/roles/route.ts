@@ -1,29 +1,36 @@
 /**
- * GET /api/auth/roles
- * ดึงรายการ Roles ทั้งหมดในระบบ
+ * GET  /api/auth/roles - รายการ Roles ทั้งหมดในระบบ
+ * POST /api/auth/roles - สร้าง Role ใหม่ (เฉพาะผู้ดูแลระบบ)
  */
 
-import { NextResponse } from 'next/server';
-import { AdminRole, ManagerRole, SalesRole, PurchaseRole, AccountantRole } from '@/lib/permissions';
+import { NextRequest, NextResponse } from 'next/server';
+import { createRole, listRoles, requireAdmin, requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
 
 export async function GET() {
   try {
-    // ในโปรเจคจริง จะดึงจาก Database
-    // ตอนนี้ใช้ Mock Data
-    const roles = [AdminRole, ManagerRole, SalesRole, PurchaseRole, AccountantRole];
+    await requireUser();
+    const roles = await listRoles();
 
     return NextResponse.json({
       success: true,
       data: roles,
     });
   } catch (error) {
-    console.error('Error fetching roles:', error);
-    return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to fetch roles',
-      },
-      { status: 500 }
-    );
+    logError(error, 'GET /api/auth/roles');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const role = await createRole(body);
+
+    return NextResponse.json({ success: true, data: role }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/auth/roles');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
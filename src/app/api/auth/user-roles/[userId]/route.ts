@@ -0,0 +1,30 @@
+/**
+ * PUT /api/auth/user-roles/:userId
+ * กำหนด Role ให้ผู้ใช้ body: { roleId: string | null } (null = ใช้ Role เริ่มต้น)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin, setUserRole } from '@/lib/permissions/store';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    await requireAdmin();
+    const { userId } = await params;
+    const { roleId } = await request.json();
+
+    if (roleId !== null && typeof roleId !== 'string') {
+      throw ErrorTypes.BAD_REQUEST('roleId ต้องเป็น string หรือ null');
+    }
+
+    await setUserRole(userId, roleId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'PUT /api/auth/user-roles/[userId]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * GET /api/auth/user-roles
+ * รายชื่อผู้ใช้ทั้งหมดพร้อม Role ที่ได้รับ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextResponse } from 'next/server';
+import { listUserRoles, requireAdmin } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    await requireAdmin();
+    const users = await listUserRoles();
+
+    return NextResponse.json({ success: true, data: users });
+  } catch (error) {
+    logError(error, 'GET /api/auth/user-roles');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -4,13 +4,12 @@
  */
 
 import { NextResponse } from 'next/server';
-import { getMockCurrentUser } from '@/lib/permissions';
+import { getCurrentUser } from '@/lib/permissions/store';
 
 export async function GET() {
   try {
-    // ในโปรเจคจริง จะตรวจสอบ Session/Token และดึงข้อมูลจาก Database
-    // ตอนนี้ใช้ Mock Data
-    const user = getMockCurrentUser();
+    // Role อ่านจากฐานข้อมูลทุกครั้ง การแก้ไขสิทธิ์จึงมีผลใน request ถัดไป
+    const user = await getCurrentUser();
 
     if (!user) {
       return NextResponse.json(
@@ -0,0 +1,38 @@
+/**
+ * PUT    /api/branches/registry/:code - แก้ไขข้อมูลกิจการ (เฉพาะผู้ดูแลระบบ)
+ * DELETE /api/branches/registry/:code - ลบกิจการออกจากทะเบียน (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteBranch, updateBranch } from '@/lib/branches/store';
+import { requireAdmin } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ code: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { code } = await params;
+    const body = await request.json();
+    const branch = await updateBranch(code, body);
+
+    return NextResponse.json({ success: true, data: branch });
+  } catch (error) {
+    logError(error, 'PUT /api/branches/registry/[code]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireAdmin();
+    const { code } = await params;
+    await deleteBranch(code);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/branches/registry/[code]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
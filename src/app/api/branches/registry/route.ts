@@ -0,0 +1,38 @@
+/**
+ * GET  /api/branches/registry - ทะเบียนกิจการทั้งหมด + รหัสใน ClickHouse ที่ยังไม่ได้ลงทะเบียน (เฉพาะผู้ดูแลระบบ)
+ * POST /api/branches/registry - เพิ่มกิจการ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createBranch, listBranchCodesInData, listBranches } from '@/lib/branches/store';
+import { requireAdmin } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    await requireAdmin();
+    const [branches, dataCodes] = await Promise.all([listBranches(), listBranchCodesInData()]);
+    const registered = new Set(branches.map((b) => b.code));
+
+    return NextResponse.json({
+      success: true,
+      data: { branches, unregistered: dataCodes.filter((code) => !registered.has(code)) },
+    });
+  } catch (error) {
+    logError(error, 'GET /api/branches/registry');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const branch = await createBranch(body);
+
+    return NextResponse.json({ success: true, data: branch }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/branches/registry');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -1,51 +1,53 @@
 import { NextResponse } from 'next/server';
-import { clickhouse } from '@/lib/clickhouse';
-
-// Branch mapping configuration
-const BRANCH_MAPPING: Record<string, string> = {
-    'b000': 'บริษัท ช้าง สยาม กัมปนี จำกัด',
-    'b001': 'บริษัท ช้างสยามรวย จำกัด',
-    'b002': 'บริษัท ช้าง ทรัพย์ ทวี จำกัด',
-    'b003': 'บริษัท ชาวทะเลเฮฮา จำกัด',
-    'b004': 'บริษัท ดีจิงจัง 5665 จำกัด',
-    'b005': 'บริษัท ฮอมฮัก จำกัด',
-};
+import { getBranchAccess } from '@/lib/branch-access';
+import { listBranchCodesInData, listBranches } from '@/lib/branches/store';
+import { fallbackBranchName } from '@/lib/branches/types';
+import { getErrorStatus } from '@/lib/errors';
 
+/**
+ * GET /api/branches - ตัวเลือกกิจการสำหรับ BranchSwitcher
+ *
+ * กิจการที่เปิดใช้งานในทะเบียน (เรียงตามลำดับที่กำหนด) ตามด้วยรหัสที่มีข้อมูลใน ClickHouse
+ * แต่ยังไม่ได้ลงทะเบียน กรองตามสิทธิ์ allowed_branches ของผู้ใช้
+ */
 export async function GET() {
     try {
-        // Query distinct branch_sync from ClickHouse
-        const query = `
-            SELECT DISTINCT branch_sync
-            FROM saleinvoice_transaction
-            WHERE branch_sync != ''
-            ORDER BY branch_sync
-        `;
+        const [registry, dataCodes, access] = await Promise.all([
+            listBranches(),
+            listBranchCodesInData(),
+            getBranchAccess(),
+        ]);
 
-        const result = await clickhouse.query({
-            query,
-            format: 'JSONEachRow',
-        });
+        const registered = new Set(registry.map(b => b.code));
+        const entries = [
+            ...registry
+                .filter(b => b.isActive)
+                .map(b => ({
+                    key: b.code,
+                    name: b.name,
+                    shortName: b.shortName,
+                    color: b.color || undefined,
+                    taxId: b.taxId || undefined,
+                    address: b.address || undefined,
+                })),
+            ...dataCodes
+                .filter(code => !registered.has(code))
+                .map(code => ({ key: code, name: fallbackBranchName(code) })),
+        ];
 
-        const data = await result.json();
+        const visible = access.unrestricted
+            ? entries
+            : entries.filter(b => access.branches.includes(b.key));
 
-        // Transform to branch info format using the mapping
-        const branches = [
+        return NextResponse.json([
             { key: 'ALL', name: 'ทุกกิจการ' }, // All branches option
-            ...data.map((row: any) => {
-                const branchCode = row.branch_sync;
-                return {
-                    key: branchCode,
-                    name: BRANCH_MAPPING[branchCode] || `กิจการ ${branchCode}`, // Fallback if not in mapping
-                };
-            })
-        ];
-
-        return NextResponse.json(branches);
+            ...visible,
+        ]);
     } catch (error) {
         console.error('Failed to fetch branches:', error);
         return NextResponse.json(
-            { error: 'Failed to fetch branches from ClickHouse' },
-            { status: 500 }
+            { error: 'Failed to fetch branches' },
+            { status: getErrorStatus(error) }
         );
     }
 }
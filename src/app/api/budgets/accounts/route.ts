@@ -0,0 +1,21 @@
+/**
+ * GET /api/budgets/accounts - บัญชีรายได้/ค่าใช้จ่ายที่ตั้งงบประมาณได้
+ */
+
+import { NextResponse } from 'next/server';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getBudgetAccounts } from '@/lib/data/accounting';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { requireUser } from '@/lib/permissions/store';
+
+export async function GET() {
+  try {
+    await requireUser();
+    const accounts = await createCachedQuery(getBudgetAccounts, ['budgets', 'accounts'], CacheDuration.LONG)();
+
+    return NextResponse.json({ success: true, data: accounts });
+  } catch (error) {
+    logError(error, 'GET /api/budgets/accounts');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
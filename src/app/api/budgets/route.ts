@@ -0,0 +1,65 @@
+/**
+ * GET    /api/budgets?year=2026&branch=... - งบประมาณของปี (บัญชี × กิจการ × เดือน)
+ * PUT    /api/budgets                      - บันทึก/นำเข้างบประมาณ { year, lines } (เฉพาะผู้ดูแลระบบ)
+ * DELETE /api/budgets?year=&account_code=&branch_sync= - ลบงบประมาณทั้งปีของบัญชีในกิจการ (เฉพาะผู้ดูแลระบบ)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { deleteBudgetLine, listBudgetLines, saveBudgetLines } from '@/lib/budgets/store';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getBudgetAccounts } from '@/lib/data/accounting';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { requireAdmin } from '@/lib/permissions/store';
+
+function yearParam(value: string | null): number {
+  if (!value) throw ErrorTypes.BAD_REQUEST('year is required');
+  if (!/^\d{4}$/.test(value)) throw ErrorTypes.BAD_REQUEST('year must be a four-digit integer');
+  return Number(value);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = yearParam(searchParams.get('year'));
+    const branches = await getAuthorizedBranches(searchParams);
+    const lines = await listBudgetLines(year, branches);
+
+    return NextResponse.json({ success: true, data: lines });
+  } catch (error) {
+    logError(error, 'GET /api/budgets');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const body = await request.json();
+    const accounts = await createCachedQuery(getBudgetAccounts, ['budgets', 'accounts'], CacheDuration.LONG)();
+    const saved = await saveBudgetLines(Number(body.year), body.lines, accounts);
+
+    return NextResponse.json({ success: true, data: { saved } });
+  } catch (error) {
+    logError(error, 'PUT /api/budgets');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireAdmin();
+    const { searchParams } = new URL(request.url);
+    const accountCode = searchParams.get('account_code');
+    const branchSync = searchParams.get('branch_sync');
+    if (!accountCode || !branchSync) {
+      throw ErrorTypes.BAD_REQUEST('account_code and branch_sync are required');
+    }
+    await deleteBudgetLine(yearParam(searchParams.get('year')), accountCode, branchSync);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/budgets');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GET    /api/chat/conversations/:id - บทสนทนาพร้อมข้อความทั้งหมด (ใช้เปิดต่อ)
+ * PUT    /api/chat/conversations/:id - เปลี่ยนชื่อ { title }
+ * DELETE /api/chat/conversations/:id - ลบบทสนทนาและข้อความ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteConversation, getConversationDetail, renameConversation } from '@/lib/chat/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const conversation = await getConversationDetail(id, user);
+
+    return NextResponse.json({ success: true, data: conversation });
+  } catch (error) {
+    logError(error, 'GET /api/chat/conversations/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const body = await request.json();
+    const conversation = await renameConversation(id, user, body.title);
+
+    return NextResponse.json({ success: true, data: conversation });
+  } catch (error) {
+    logError(error, 'PUT /api/chat/conversations/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    await deleteConversation(id, user);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/chat/conversations/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
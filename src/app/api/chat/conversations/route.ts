@@ -0,0 +1,20 @@
+/**
+ * GET /api/chat/conversations - บทสนทนา AI ของผู้ใช้ (ล่าสุดก่อน)
+ */
+
+import { NextResponse } from 'next/server';
+import { listConversations } from '@/lib/chat/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const conversations = await listConversations(user);
+
+    return NextResponse.json({ success: true, data: conversations });
+  } catch (error) {
+    logError(error, 'GET /api/chat/conversations');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
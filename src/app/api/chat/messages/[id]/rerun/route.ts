@@ -0,0 +1,31 @@
+/**
+ * POST /api/chat/messages/:id/rerun - รัน SQL ที่บันทึกไว้กับคำตอบอีกครั้ง
+ * Body: { index: number } ลำดับของ query ในข้อความ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runChatQuery } from '@/lib/chat/sql';
+import { getMessage } from '@/lib/chat/store';
+import { requireUser } from '@/lib/permissions/store';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const { index } = await request.json();
+    const message = await getMessage(id, user);
+    const query = message.queries[Number(index)];
+    if (!query) {
+      throw ErrorTypes.NOT_FOUND(`ไม่พบ SQL ลำดับที่ ${index}`);
+    }
+
+    const result = await runChatQuery(query.sql, user);
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    logError(error, 'POST /api/chat/messages/[id]/rerun');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
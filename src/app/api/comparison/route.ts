@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getBranchComparisonData } from '@/lib/data/comparison';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: Request) {
   try {
@@ -8,12 +9,7 @@ export async function GET(request: Request) {
     const startDate = searchParams.get('start_date') || undefined;
     const endDate = searchParams.get('end_date') || undefined;
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const data = await getBranchComparisonData(startDate, endDate, branches);
 
@@ -24,6 +20,6 @@ export async function GET(request: Request) {
     });
   } catch (error) {
     logError(error, 'GET /api/comparison');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
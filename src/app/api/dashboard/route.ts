@@ -1,42 +1,35 @@
 /**
  * GET /api/dashboard
- * ดึงข้อมูล KPIs, Recent Sales, และ Alerts สำหรับหน้า Dashboard
+ * ดึงข้อมูล KPIs และ Recent Sales สำหรับหน้า Dashboard (การแจ้งเตือนอยู่ที่ /api/alerts)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getDashboardKPIs, getRecentSales, getDashboardAlerts } from '@/lib/data/dashboard';
+import { getDashboardKPIs, getRecentSales } from '@/lib/data/dashboard';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const branches = searchParams.getAll('branch');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     const salesLimit = parseInt(searchParams.get('salesLimit') || '10', 10);
     
-    let normalizedBranches = branches;
-    if (branches.length === 0) {
-      normalizedBranches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      normalizedBranches = branches[0].split(',');
-    }
+    const normalizedBranches = await getAuthorizedBranches(searchParams);
 
     const dateRange = startDate && endDate ? { start: startDate, end: endDate } : undefined;
 
     const cachedQuery = createCachedQuery(
       async () => {
-        const [kpis, recentSales, alerts] = await Promise.all([
+        const [kpis, recentSales] = await Promise.all([
           getDashboardKPIs(normalizedBranches, dateRange),
           getRecentSales(normalizedBranches, dateRange, salesLimit),
-          getDashboardAlerts(normalizedBranches),
         ]);
 
         return {
           ...kpis,
           recentSales,
-          alerts,
         };
       },
       ['dashboard', 'overview', ...normalizedBranches, startDate || '', endDate || '', String(salesLimit)],
@@ -49,6 +42,6 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('API Error:', error); // Debug log
     logError(error, 'GET /api/dashboard');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -0,0 +1,36 @@
+/**
+ * GET /api/inventory/aging?as_of_date=&branch=...
+ * อายุสต็อกคงเหลือตามวันที่รับเข้า (ชั้นต้นทุน FIFO) แบ่งช่วง 0–30 / 31–90 / 91–180 / 181–365 / เกิน 365 วัน
+ * รวมทั้งหมดและแยกตามคลัง หมวดสินค้า แบรนด์
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getInventoryAging } from '@/lib/data/inventory-valuation';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const asOfDate = searchParams.get('as_of_date');
+    if (!asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('as_of_date is required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getInventoryAging(asOfDate, branches),
+      ['inventory', 'aging', asOfDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/aging');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /api/inventory/balance?as_of_date=&dimension=branch|warehouse|shelf|item&branch=...
+ * ยอดสินค้าคงเหลือ ณ วันที่ จากความเคลื่อนไหวทั้งหมดจนถึงวันนั้น จัดกลุ่มตามมิติที่เลือก
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getInventoryBalance } from '@/lib/data/inventory-balance';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { isBalanceDimension } from '@/lib/inventory/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const asOfDate = searchParams.get('as_of_date');
+    const dimension = searchParams.get('dimension') || 'warehouse';
+    if (!asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('as_of_date is required');
+    }
+    if (!isBalanceDimension(dimension)) {
+      throw ErrorTypes.BAD_REQUEST('dimension must be branch, warehouse, shelf or item');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getInventoryBalance(asOfDate, dimension, branches),
+      ['inventory', 'balance', asOfDate, dimension, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/balance');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
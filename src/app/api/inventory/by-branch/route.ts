@@ -1,31 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getStockByBranch } from '@/lib/data/inventory';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const startDate = searchParams.get('start_date');
-    const endDate = searchParams.get('end_date');
+    // Stock on hand as of as_of_date, or as of the end of the selected range
+    const asOfDate = searchParams.get('as_of_date') || searchParams.get('end_date');
 
-    if (!startDate || !endDate) {
+    if (!asOfDate) {
       return NextResponse.json(
-        { success: false, error: 'Missing required parameters: start_date, end_date' },
+        { success: false, error: 'Missing required parameter: as_of_date or end_date' },
         { status: 400 }
       );
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const cachedQuery = createCachedQuery(
-      () => getStockByBranch({ start: startDate, end: endDate }, branches),
-      ['inventory', 'by-branch', startDate, endDate, ...branches],
+      () => getStockByBranch(asOfDate, branches),
+      ['inventory', 'by-branch', asOfDate, ...branches],
       CacheDuration.MEDIUM
     );
 
@@ -37,6 +33,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     logError(error, 'GET /api/inventory/by-branch');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
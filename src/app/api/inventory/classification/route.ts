@@ -0,0 +1,43 @@
+/**
+ * GET /api/inventory/classification?start_date=&end_date=&metric=sales|profit&branch=...
+ * จัดกลุ่มสินค้า ABC (ยอดขาย/กำไรขั้นต้น) และ XYZ (ความแปรผันของยอดจ่ายรายสัปดาห์) ในช่วงวันที่
+ * ผลจาก ClickHouse ไม่ขึ้นกับเกณฑ์ จึง cache ครั้งเดียวแล้วจัดกลุ่มใหม่ตาม metric
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getItemSalesDemand } from '@/lib/data/inventory-classification';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { classifyItems } from '@/lib/inventory/classification';
+import { CLASSIFICATION_METRICS, isClassificationMetric } from '@/lib/inventory/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    const metric = searchParams.get('metric') || 'sales';
+    if (!startDate || !endDate) {
+      throw ErrorTypes.BAD_REQUEST('start_date and end_date are required');
+    }
+    if (!isClassificationMetric(metric)) {
+      throw ErrorTypes.BAD_REQUEST(`metric must be one of ${CLASSIFICATION_METRICS.map((m) => m.key).join(', ')}`);
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getItemSalesDemand({ start: startDate, end: endDate }, branches),
+      ['inventory', 'classification', startDate, endDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = classifyItems(await cachedQuery(), metric, startDate, endDate);
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/classification');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * GET /api/inventory/cost-layers?as_of_date=&wh_code=&item_code=&branch=...
+ * ชั้นต้นทุน FIFO ที่ยังเหลือ ณ วันที่ เรียงจากเก่าไปใหม่ กรองคลังหรือสินค้าได้
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getCostLayers } from '@/lib/data/inventory-valuation';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const asOfDate = searchParams.get('as_of_date');
+    const whCode = searchParams.get('wh_code') || undefined;
+    const itemCode = searchParams.get('item_code') || undefined;
+    if (!asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('as_of_date is required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getCostLayers(asOfDate, branches, { whCode, itemCode }),
+      ['inventory', 'cost-layers', asOfDate, whCode ?? '', itemCode ?? '', ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/cost-layers');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * GET /api/inventory/dead-stock?since_date=&as_of_date=&branch=...
+ * สินค้าคงเหลือ ณ as_of_date ที่ไม่มีการจ่ายออกตั้งแต่ since_date (หรือไม่เคยจ่าย) มูลค่ามากก่อน
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getDeadStock } from '@/lib/data/inventory-aging';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sinceDate = searchParams.get('since_date');
+    const asOfDate = searchParams.get('as_of_date');
+    if (!sinceDate || !asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('since_date and as_of_date are required');
+    }
+    if (sinceDate > asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('since_date must not be after as_of_date');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getDeadStock(sinceDate, asOfDate, branches),
+      ['inventory', 'dead-stock', sinceDate, asOfDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/dead-stock');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getInventoryKPIs } from '@/lib/data/inventory';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,12 +17,7 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
     const cachedQuery = createCachedQuery(
       () => getInventoryKPIs({ start: startDate, end: endDate }, branches),
@@ -37,6 +33,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     logError(error, 'GET /api/inventory/kpis');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
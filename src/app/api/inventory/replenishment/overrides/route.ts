@@ -0,0 +1,45 @@
+/**
+ * PUT    /api/inventory/replenishment/overrides { items: [{ branchSync, itemCode, leadTimeDays?, minOrderQty?, note? }] }
+ *        - กำหนดระยะเวลารอสินค้า/ยอดสั่งขั้นต่ำต่อสินค้า
+ * DELETE /api/inventory/replenishment/overrides?branch_sync=&item_code= - กลับไปใช้ค่าที่คำนวณ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeBranches } from '@/lib/branch-access';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { requireUser } from '@/lib/permissions/store';
+import { deleteReplenishmentOverride, saveReplenishmentOverrides } from '@/lib/replenishment/store';
+import type { ReplenishmentOverrideInput } from '@/lib/replenishment/types';
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    const items: ReplenishmentOverrideInput[] = Array.isArray(body?.items) ? body.items : [];
+    await authorizeBranches([...new Set(items.map((item) => String(item.branchSync ?? '')))].filter(Boolean));
+    const saved = await saveReplenishmentOverrides(items, user.username);
+
+    return NextResponse.json({ success: true, data: { saved } });
+  } catch (error) {
+    logError(error, 'PUT /api/inventory/replenishment/overrides');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const branchSync = searchParams.get('branch_sync');
+    const itemCode = searchParams.get('item_code');
+    if (!branchSync || !itemCode) {
+      throw ErrorTypes.BAD_REQUEST('branch_sync and item_code are required');
+    }
+    await authorizeBranches([branchSync]);
+    await deleteReplenishmentOverride(branchSync, itemCode);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/inventory/replenishment/overrides');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * GET /api/inventory/replenishment?as_of_date=&history_days=90&service_level=95&branch=...
+ * จุดสั่งซื้อต่อสินค้าและคลัง และใบสั่งซื้อแนะนำจัดกลุ่มตามผู้จำหน่ายล่าสุด (as_of_date ค่าเริ่มต้น = วันนี้)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getItemDemand, getLastSuppliers, getSupplierLeadTimes } from '@/lib/data/replenishment';
+import { DATE_RANGES } from '@/lib/dateRanges';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { buildReplenishmentPlan } from '@/lib/replenishment/plan';
+import { listReplenishmentOverrides } from '@/lib/replenishment/store';
+import {
+  DEFAULT_DEMAND_HISTORY_DAYS,
+  DEFAULT_SERVICE_LEVEL,
+  DEMAND_HISTORY_OPTIONS,
+  SERVICE_LEVELS,
+} from '@/lib/replenishment/types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const asOfDate = searchParams.get('as_of_date') || DATE_RANGES.TODAY.getValue().start;
+    const historyDays = Number(searchParams.get('history_days') ?? DEFAULT_DEMAND_HISTORY_DAYS);
+    const serviceLevel = Number(searchParams.get('service_level') ?? DEFAULT_SERVICE_LEVEL);
+    if (!DATE_PATTERN.test(asOfDate) || Number.isNaN(Date.parse(asOfDate))) {
+      throw ErrorTypes.BAD_REQUEST('as_of_date must be a date (YYYY-MM-DD)');
+    }
+    if (!DEMAND_HISTORY_OPTIONS.some((option) => option === historyDays)) {
+      throw ErrorTypes.BAD_REQUEST(`history_days must be one of ${DEMAND_HISTORY_OPTIONS.join(', ')}`);
+    }
+    if (!SERVICE_LEVELS.some((level) => level.key === serviceLevel)) {
+      throw ErrorTypes.BAD_REQUEST(`service_level must be one of ${SERVICE_LEVELS.map((level) => level.key).join(', ')}`);
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      async () => {
+        const [demand, suppliers, leadTimes] = await Promise.all([
+          getItemDemand(asOfDate, historyDays, branches),
+          getLastSuppliers(asOfDate, branches),
+          getSupplierLeadTimes(asOfDate, branches),
+        ]);
+        return { demand, suppliers, leadTimes };
+      },
+      ['inventory', 'replenishment', asOfDate, String(historyDays), ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    // ค่าที่กำหนดเองอ่านสดทุกครั้ง ไม่ผ่าน cache
+    const [{ demand, suppliers, leadTimes }, overrides] = await Promise.all([cachedQuery(), listReplenishmentOverrides(branches)]);
+    const data = buildReplenishmentPlan({ asOf: asOfDate, historyDays, serviceLevel, demand, suppliers, leadTimes, overrides });
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/replenishment');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
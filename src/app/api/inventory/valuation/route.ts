@@ -0,0 +1,45 @@
+/**
+ * GET /api/inventory/valuation?as_of_date=&branch=...
+ * ตีราคาสินค้าคงเหลือ ณ วันที่ (ตามรายการ / ถัวเฉลี่ยเคลื่อนที่ / FIFO) และกระทบยอดกับบัญชีสินค้าคงเหลือ
+ * ผลจาก ClickHouse ถูก cache ส่วนผังกระแสเงินสด (ใช้ระบุบัญชีสินค้าคงเหลือ) อ่านใหม่ทุกครั้ง
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { listCashFlowMappings } from '@/lib/cash-flow/store';
+import { getAssetAccountBalances } from '@/lib/data/accounting';
+import { getStockValuation } from '@/lib/data/inventory-valuation';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { buildInventoryValuation } from '@/lib/inventory/valuation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const asOfDate = searchParams.get('as_of_date');
+    if (!asOfDate) {
+      throw ErrorTypes.BAD_REQUEST('as_of_date is required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedStock = createCachedQuery(
+      () => getStockValuation(asOfDate, branches),
+      ['inventory', 'valuation', asOfDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+    const cachedAccounts = createCachedQuery(
+      () => getAssetAccountBalances(asOfDate, branches),
+      ['accounting', 'asset-balances', asOfDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const [stock, accounts, mappings] = await Promise.all([cachedStock(), cachedAccounts(), listCashFlowMappings()]);
+    const data = buildInventoryValuation(asOfDate, stock, accounts, mappings);
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/inventory/valuation');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * GET /api/payments/by-branch?start_date=&end_date=&branch=...
+ * เงินรับต่อกิจการแยกช่องทางชำระ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getCashInByBranch } from '@/lib/data/payments';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get('start_date');
+    const endDate = searchParams.get('end_date');
+    if (!startDate || !endDate) {
+      throw ErrorTypes.BAD_REQUEST('start_date and end_date are required');
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+
+    const cachedQuery = createCachedQuery(
+      () => getCashInByBranch({ start: startDate, end: endDate }, branches),
+      ['payments', 'by-branch', startDate, endDate, ...branches],
+      CacheDuration.MEDIUM
+    );
+
+    const data = await cachedQuery();
+
+    return NextResponse.json({ success: true, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/payments/by-branch');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
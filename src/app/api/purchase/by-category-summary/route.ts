@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPurchaseByCategorySummary } from '@/lib/data/purchase';
 import type { DateRange } from '@/lib/data/types';
+import { getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export const dynamic = 'force-dynamic';
 
@@ -9,7 +11,6 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const startDate = searchParams.get('start_date');
     const endDate = searchParams.get('end_date');
-    const branches = searchParams.getAll('branch');
     const accountType = searchParams.get('account_type') as 'EXPENSES' | 'ASSETS' | null;
 
     if (!startDate || !endDate) {
@@ -19,6 +20,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const branches = await getAuthorizedBranches(searchParams);
+
     const dateRange: DateRange = {
       start: startDate,
       end: endDate,
@@ -26,7 +29,7 @@ export async function GET(request: NextRequest) {
 
     const data = await getPurchaseByCategorySummary(
       dateRange,
-      branches.length > 0 ? branches : undefined,
+      branches,
       accountType || 'EXPENSES'
     );
 
@@ -35,7 +38,7 @@ export async function GET(request: NextRequest) {
     console.error('Error in purchase by category summary API:', error);
     return NextResponse.json(
       { error: 'Failed to fetch purchase by category summary data' },
-      { status: 500 }
+      { status: getErrorStatus(error) }
     );
   }
 }
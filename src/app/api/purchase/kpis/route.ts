@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPurchaseKPIs } from '@/lib/data/purchase';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { withBudget } from '@/lib/budgets/budget';
+import { getBudgetTotals } from '@/lib/budgets/store';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,20 +19,18 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
+    const dateRange = { start: startDate, end: endDate };
     const cachedQuery = createCachedQuery(
-      () => getPurchaseKPIs({ start: startDate, end: endDate }, branches),
+      () => getPurchaseKPIs(dateRange, branches),
       ['purchase', 'kpis', startDate, endDate, ...branches],
       CacheDuration.MEDIUM
     );
 
-    const data = await cachedQuery();
+    const [kpis, budget] = await Promise.all([cachedQuery(), getBudgetTotals(dateRange, branches)]);
+    // ยอดซื้อเทียบงบต้นทุนขาย (บัญชี 51)
+    const data = budget ? { ...kpis, totalPurchases: withBudget(kpis.totalPurchases, budget.costOfSales) } : kpis;
 
     return NextResponse.json({
       success: true,
@@ -37,6 +38,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     logError(error, 'GET /api/purchase/kpis');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
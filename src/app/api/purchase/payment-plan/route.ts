@@ -0,0 +1,47 @@
+/**
+ * GET /api/purchase/payment-plan?weeks=8&branch=...
+ * แผนจ่ายเจ้าหนี้: ใบซื้อเงินเชื่อที่ค้างจ่ายจัดเป็นรายสัปดาห์ เทียบเงินรับเฉลี่ยย้อนหลัง
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorizedBranches } from '@/lib/branch-access';
+import { CacheDuration, createCachedQuery } from '@/lib/cache';
+import { getAPOpenInvoices, getWeeklyReceipts } from '@/lib/data/purchase';
+import { DATE_RANGES } from '@/lib/dateRanges';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { addDays, buildPaymentPlan, startOfWeek, withSchedules } from '@/lib/payables/plan';
+import { listPaymentSchedules } from '@/lib/payables/store';
+import { DEFAULT_FORECAST_WEEKS, FORECAST_WEEK_OPTIONS, INFLOW_HISTORY_WEEKS } from '@/lib/payables/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const weeks = Number(searchParams.get('weeks') ?? DEFAULT_FORECAST_WEEKS);
+    if (!FORECAST_WEEK_OPTIONS.some((option) => option === weeks)) {
+      throw ErrorTypes.BAD_REQUEST(`weeks must be one of ${FORECAST_WEEK_OPTIONS.join(', ')}`);
+    }
+
+    const branches = await getAuthorizedBranches(searchParams);
+    const today = DATE_RANGES.TODAY.getValue().start;
+    const thisWeek = startOfWeek(today);
+    const inflowRange = { start: addDays(thisWeek, -7 * INFLOW_HISTORY_WEEKS), end: addDays(thisWeek, -1) };
+
+    const cachedQuery = createCachedQuery(
+      async () => {
+        const [invoices, inflows] = await Promise.all([getAPOpenInvoices(branches), getWeeklyReceipts(inflowRange, branches)]);
+        return { invoices, inflows };
+      },
+      ['purchase', 'payment-plan', today, ...branches],
+      CacheDuration.SHORT
+    );
+
+    // การนัดจ่ายอ่านสดทุกครั้ง ไม่ผ่าน cache
+    const [{ invoices, inflows }, schedules] = await Promise.all([cachedQuery(), listPaymentSchedules(branches)]);
+    const plan = buildPaymentPlan(withSchedules(invoices, schedules), inflows, today, weeks);
+
+    return NextResponse.json({ success: true, data: plan, timestamp: new Date().toISOString() });
+  } catch (error) {
+    logError(error, 'GET /api/purchase/payment-plan');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * PUT    /api/purchase/payment-plan/schedule { items: [{ branchSync, docNo, scheduledDate, amount?, note? }] }
+ *        - นัดจ่าย/เลื่อนวันจ่ายใบซื้อ
+ * DELETE /api/purchase/payment-plan/schedule?branch_sync=&doc_no= - ยกเลิกการนัดจ่าย
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeBranches } from '@/lib/branch-access';
+import { ErrorTypes, formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+import { schedulePayments, unschedulePayment } from '@/lib/payables/store';
+import type { PaymentScheduleInput } from '@/lib/payables/types';
+import { requireUser } from '@/lib/permissions/store';
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    const items: PaymentScheduleInput[] = Array.isArray(body?.items) ? body.items : [];
+    await authorizeBranches([...new Set(items.map((item) => String(item.branchSync ?? '')))].filter(Boolean));
+    const saved = await schedulePayments(items, user.username);
+
+    return NextResponse.json({ success: true, data: { saved } });
+  } catch (error) {
+    logError(error, 'PUT /api/purchase/payment-plan/schedule');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const branchSync = searchParams.get('branch_sync');
+    const docNo = searchParams.get('doc_no');
+    if (!branchSync || !docNo) {
+      throw ErrorTypes.BAD_REQUEST('branch_sync and doc_no are required');
+    }
+    await authorizeBranches([branchSync]);
+    await unschedulePayment(branchSync, docNo);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/purchase/payment-plan/schedule');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -1,8 +1,17 @@
+/**
+ * GET /api/reports/accounting/[accountCode] - บัญชีแยกประเภทของบัญชี พร้อมยอดคงเหลือสะสม
+ *
+ * Query: start_date, end_date, branch, page (เริ่ม 1), page_size (1-200, ค่าเริ่มต้น 50)
+ */
+
 import { NextResponse } from 'next/server';
-import { getAccountProducts, getAccountPurchaseItems, getAccountType } from '@/lib/data/accounting';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { getGeneralLedger } from '@/lib/data/accounting';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
 
+const MAX_PAGE_SIZE = 200;
+
 export async function GET(
   request: Request,
   { params }: { params: Promise<{ accountCode: string }> }
@@ -20,28 +29,16 @@ export async function GET(
       );
     }
 
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(searchParams.get('page_size') || '50', 10) || 50));
+
     const dateRange = { start: startDate, end: endDate };
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
-    // ตรวจสอบ account_type เพื่อเรียกใช้ function ที่ถูกต้อง
-    const accountType = await getAccountType(accountCode);
-    
     const cachedQuery = createCachedQuery(
-      () => {
-        // INCOME/REVENUE ใช้ sales query, EXPENSES ใช้ purchase query
-        if (accountType === 'INCOME' || accountType === 'REVENUE') {
-          return getAccountProducts(dateRange, accountCode, branches);
-        } else {
-          return getAccountPurchaseItems(dateRange, accountCode, branches);
-        }
-      },
-      ['reports', 'accounting', accountType === 'INCOME' || accountType === 'REVENUE' ? 'products' : 'purchases', accountCode, startDate, endDate, ...branches],
+      () => getGeneralLedger(dateRange, accountCode, branches, page, pageSize),
+      ['reports', 'accounting', 'ledger', accountCode, startDate, endDate, String(page), String(pageSize), ...branches],
       CacheDuration.MEDIUM
     );
 
@@ -50,6 +47,6 @@ export async function GET(
     return NextResponse.json({ success: true, data });
   } catch (error) {
     logError(error, 'GET /api/reports/accounting/[accountCode]');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
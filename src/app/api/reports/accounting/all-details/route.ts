@@ -1,18 +1,9 @@
 import { NextResponse } from 'next/server';
 import { clickhouse } from '@/lib/clickhouse';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-
-function buildBranchFilterSql(branches?: string[]): string {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return '';
-  }
-  if (branches.length === 1) {
-    return `AND branch_sync = '${branches[0]}'`;
-  }
-  const branchList = branches.map(b => `'${b}'`).join(', ');
-  return `AND branch_sync IN (${branchList})`;
-}
+import { sql, raw, toQuery, param, branchFilter, dateParams } from '@/lib/data/query-builder';
 
 export async function GET(request: Request) {
   try {
@@ -28,21 +19,16 @@ export async function GET(request: Request) {
       );
     }
 
-    let branches = searchParams.getAll('branch');
-    if (branches.length === 0) {
-      branches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      branches = branches[0].split(',');
-    }
+    const branches = await getAuthorizedBranches(searchParams);
 
-    const branchFilter = buildBranchFilterSql(branches);
+    const { start, end } = dateParams({ start: startDate, end: endDate });
 
     // สร้างคิวรี่ต่างกันตาม account_type
     // INCOME ใช้ saleinvoice_transaction_detail
     // EXPENSES ใช้ purchase_transaction_detail
     const isIncome = accountType === 'INCOME';
     
-    const query = `
+    const query = toQuery(sql`
       WITH journal_docs AS (
         SELECT
           doc_no,
@@ -56,9 +42,9 @@ export async function GET(request: Request) {
           account_code,
           account_name
         FROM journal_transaction_detail
-        WHERE account_type = '${accountType}'
-          AND date(doc_datetime) BETWEEN '${startDate}' AND '${endDate}'
-          ${branchFilter}
+        WHERE account_type = ${param('account_type', 'String', accountType)}
+          AND date(doc_datetime) BETWEEN ${start} AND ${end}
+          ${branchFilter(branches)}
           AND (credit - debit) != 0
       )
       SELECT
@@ -71,7 +57,7 @@ export async function GET(request: Request) {
         jd.debit                                             AS debit,
         jd.credit                                            AS credit,
         jd.amount                                            AS amount,
-        ${isIncome 
+        ${raw(isIncome
           ? `COALESCE(std.item_code, '-')                         AS itemCode,
         COALESCE(std.item_name, 'ไม่มีรายการสินค้า')          AS itemName,
         COALESCE(NULLIF(std.item_category_code, ''), 'N/A')  AS categoryCode,
@@ -88,9 +74,9 @@ export async function GET(request: Request) {
         COALESCE(ptd.qty, 0)                                 AS qty,
         COALESCE(ptd.price, 0)                               AS price,
         COALESCE(ptd.sum_amount, 0)                          AS itemAmount`
-        }
+        )}
       FROM journal_docs jd
-      ${isIncome 
+      ${raw(isIncome
         ? `LEFT JOIN saleinvoice_transaction_detail std
         ON jd.doc_no = std.doc_no
         AND jd.branch_sync = std.branch_sync
@@ -108,13 +94,13 @@ export async function GET(request: Request) {
           OR ptd.item_category_name LIKE CONCAT('%', TRIM(SUBSTRING_INDEX(jd.account_name, '-', -1)), '%')
           OR TRIM(SUBSTRING_INDEX(jd.account_name, '-', -1)) LIKE CONCAT('%', ptd.item_category_name, '%')
         )`
-      }
-      ORDER BY jd.doc_datetime DESC, jd.doc_no DESC, jd.account_code ASC, ${isIncome ? 'std' : 'ptd'}.item_code ASC
-    `;
+      )}
+      ORDER BY jd.doc_datetime DESC, jd.doc_no DESC, jd.account_code ASC, ${raw(isIncome ? 'std' : 'ptd')}.item_code ASC
+    `);
 
     const cachedQuery = createCachedQuery(
       async () => {
-        const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+        const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
         const data = await result.json();
         return data.map((row: any) => ({
           docDate: row.docDate ?? '',
@@ -145,6 +131,6 @@ export async function GET(request: Request) {
     return NextResponse.json({ success: true, data });
   } catch (error) {
     logError(error, 'GET /api/reports/accounting/all-details');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -0,0 +1,38 @@
+/**
+ * PUT    /api/reports/schedules/:id - แก้ไขกำหนดการ
+ * DELETE /api/reports/schedules/:id - ลบกำหนดการ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSchedule, updateSchedule } from '@/lib/reports/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const body = await request.json();
+    const schedule = await updateSchedule(id, user, body);
+
+    return NextResponse.json({ success: true, data: schedule });
+  } catch (error) {
+    logError(error, 'PUT /api/reports/schedules/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    await deleteSchedule(id, user);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/reports/schedules/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
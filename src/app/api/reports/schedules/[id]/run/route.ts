@@ -0,0 +1,25 @@
+/**
+ * POST /api/reports/schedules/:id/run - ส่งรายงานทันที (ไม่เลื่อนรอบถัดไป)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSchedule } from '@/lib/reports/store';
+import { runSchedule } from '@/lib/reports/scheduler';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const schedule = await getSchedule(id, user);
+    const result = await runSchedule(schedule, false);
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    logError(error, 'POST /api/reports/schedules/[id]/run');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * GET  /api/reports/schedules - กำหนดการส่งรายงานของผู้ใช้ (ผู้ดูแลระบบเห็นทั้งหมด)
+ * POST /api/reports/schedules - สร้างกำหนดการ
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSchedule, listSchedules } from '@/lib/reports/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const schedules = await listSchedules(user);
+
+    return NextResponse.json({ success: true, data: schedules });
+  } catch (error) {
+    logError(error, 'GET /api/reports/schedules');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    const schedule = await createSchedule(user, body);
+
+    return NextResponse.json({ success: true, data: schedule }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/reports/schedules');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
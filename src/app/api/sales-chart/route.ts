@@ -6,21 +6,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSalesChartData } from '@/lib/data/dashboard';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
-    const branches = searchParams.getAll('branch');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
     
-    let normalizedBranches = branches;
-    if (branches.length === 0) {
-      normalizedBranches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      normalizedBranches = branches[0].split(',');
-    }
+    const normalizedBranches = await getAuthorizedBranches(searchParams);
 
     const dateRange = startDate && endDate ? { start: startDate, end: endDate } : undefined;
 
@@ -37,6 +32,6 @@ export async function GET(request: NextRequest) {
     return NextResponse.json(data);
   } catch (error) {
     logError(error, 'GET /api/sales-chart');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSalesAnalysisData } from '@/lib/data/sales';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
     try {
@@ -16,13 +17,7 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        const branches = searchParams.getAll('branch');
-        let normalizedBranches = branches;
-        if (branches.length === 0) {
-            normalizedBranches = ['ALL'];
-        } else if (branches.length === 1 && branches[0].includes(',')) {
-            normalizedBranches = branches[0].split(',');
-        }
+        const normalizedBranches = await getAuthorizedBranches(searchParams);
 
         const cachedQuery = createCachedQuery(
             () => getSalesAnalysisData({ start: startDate, end: endDate }, normalizedBranches),
@@ -38,6 +33,6 @@ export async function GET(request: NextRequest) {
         });
     } catch (error) {
         logError(error, 'GET /api/sales/analysis');
-        return NextResponse.json(formatErrorResponse(error), { status: 500 });
+        return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
     }
 }
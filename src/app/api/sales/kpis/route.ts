@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSalesKPIs } from '@/lib/data/sales';
 import { createCachedQuery, CacheDuration } from '@/lib/cache';
-import { formatErrorResponse, logError } from '@/lib/errors';
+import { withBudget } from '@/lib/budgets/budget';
+import { getBudgetTotals } from '@/lib/budgets/store';
+import { formatErrorResponse, logError, getErrorStatus } from '@/lib/errors';
+import { getAuthorizedBranches } from '@/lib/branch-access';
 
 export async function GET(request: NextRequest) {
   try {
@@ -16,21 +19,23 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const branches = searchParams.getAll('branch');
-    let normalizedBranches = branches;
-    if (branches.length === 0) {
-      normalizedBranches = ['ALL'];
-    } else if (branches.length === 1 && branches[0].includes(',')) {
-      normalizedBranches = branches[0].split(',');
-    }
+    const normalizedBranches = await getAuthorizedBranches(searchParams);
 
+    const dateRange = { start: startDate, end: endDate };
     const cachedQuery = createCachedQuery(
-      () => getSalesKPIs({ start: startDate, end: endDate }, normalizedBranches),
+      () => getSalesKPIs(dateRange, normalizedBranches),
       ['sales', 'kpis', startDate, endDate, ...normalizedBranches],
       CacheDuration.MEDIUM
     );
 
-    const data = await cachedQuery();
+    const [kpis, budget] = await Promise.all([cachedQuery(), getBudgetTotals(dateRange, normalizedBranches)]);
+    const data = budget
+      ? {
+          ...kpis,
+          totalSales: withBudget(kpis.totalSales, budget.revenue),
+          grossProfit: withBudget(kpis.grossProfit, budget.revenue - budget.costOfSales),
+        }
+      : kpis;
 
     return NextResponse.json({
       success: true,
@@ -38,6 +43,6 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     logError(error, 'GET /api/sales/kpis');
-    return NextResponse.json(formatErrorResponse(error), { status: 500 });
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
   }
 }
@@ -0,0 +1,38 @@
+/**
+ * PUT    /api/views/:id - แก้ชื่อ/ปักหมุด/บันทึกสถานะใหม่ { name?, path?, state?, pinned? }
+ * DELETE /api/views/:id - ลบมุมมอง
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSavedView, updateSavedView } from '@/lib/views/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    const body = await request.json();
+    const view = await updateSavedView(id, user, body);
+
+    return NextResponse.json({ success: true, data: view });
+  } catch (error) {
+    logError(error, 'PUT /api/views/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser();
+    const { id } = await params;
+    await deleteSavedView(id, user);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logError(error, 'DELETE /api/views/[id]');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * GET  /api/views - มุมมองที่ผู้ใช้บันทึกไว้ (ปักหมุดก่อน)
+ * POST /api/views - บันทึกมุมมอง { name, path, state, pinned? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSavedView, listSavedViews } from '@/lib/views/store';
+import { requireUser } from '@/lib/permissions/store';
+import { formatErrorResponse, getErrorStatus, logError } from '@/lib/errors';
+
+export async function GET() {
+  try {
+    const user = await requireUser();
+    const views = await listSavedViews(user);
+
+    return NextResponse.json({ success: true, data: views });
+  } catch (error) {
+    logError(error, 'GET /api/views');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser();
+    const body = await request.json();
+    const view = await createSavedView(user, body);
+
+    return NextResponse.json({ success: true, data: view }, { status: 201 });
+  } catch (error) {
+    logError(error, 'POST /api/views');
+    return NextResponse.json(formatErrorResponse(error), { status: getErrorStatus(error) });
+  }
+}
@@ -1,16 +1,10 @@
+import Link from 'next/link';
 import { AlertTriangle, CheckCircle, Info, XCircle, Bell } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface Alert {
-    id: number;
-    type: 'info' | 'warning' | 'success' | 'error';
-    title: string;
-    message: string;
-    timestamp?: string;
-}
+import type { AlertEvent } from '@/lib/alerts/types';
 
 interface AlertsCardProps {
-    alerts: Alert[];
+    alerts: AlertEvent[];
 }
 
 const alertConfig = {
@@ -66,7 +60,7 @@ export function AlertsCard({ alerts }: AlertsCardProps) {
             </div>
             <div className="divide-y divide-[hsl(var(--border))]">
                 {alerts.map((alert) => {
-                    const config = alertConfig[alert.type];
+                    const config = alertConfig[alert.severity];
                     const Icon = config.icon;
 
                     return (
@@ -77,14 +71,12 @@ export function AlertsCard({ alerts }: AlertsCardProps) {
                             <div className="flex-1">
                                 <div className="flex items-start justify-between gap-2">
                                     <p className="text-sm font-medium text-[hsl(var(--foreground))]">{alert.title}</p>
-                                    {alert.timestamp && (
-                                        <span className="whitespace-nowrap text-xs text-[hsl(var(--muted-foreground))]">
-                                            {new Date(alert.timestamp).toLocaleDateString('th-TH', {
-                                                hour: '2-digit',
-                                                minute: '2-digit'
-                                            })}
-                                        </span>
-                                    )}
+                                    <span className="whitespace-nowrap text-xs text-[hsl(var(--muted-foreground))]">
+                                        {new Date(alert.triggeredAt).toLocaleDateString('th-TH', {
+                                            hour: '2-digit',
+                                            minute: '2-digit'
+                                        })}
+                                    </span>
                                 </div>
                                 <p className="mt-1 text-sm text-[hsl(var(--muted-foreground))] leading-relaxed">
                                     {alert.message}
@@ -95,9 +87,9 @@ export function AlertsCard({ alerts }: AlertsCardProps) {
                 })}
             </div>
             <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--muted))/30] px-6 py-3">
-                <button className="text-xs font-medium text-[hsl(var(--primary))] hover:underline">
+                <Link href="/alerts" className="text-xs font-medium text-[hsl(var(--primary))] hover:underline">
                     View all notifications
-                </button>
+                </Link>
             </div>
         </div>
     );
@@ -0,0 +1,46 @@
+'use client';
+
+import { AlertCircle, CheckCircle2, Database, Globe, Loader2 } from 'lucide-react';
+import type { ChatTurnProgress } from '@/lib/chat/client';
+
+/**
+ * Live progress of a running chat turn: queries / web searches and the current status
+ */
+export default function ChatActivity({ progress, compact = false }: { progress: ChatTurnProgress; compact?: boolean }) {
+  if (progress.steps.length === 0 && !progress.status) return null;
+
+  return (
+    <div className={`space-y-1.5 ${compact ? 'text-xs' : 'text-sm'} text-gray-500 dark:text-gray-400`}>
+      {progress.steps.map((step, index) => (
+        <div key={index} className="flex items-start gap-2">
+          {step.status === 'running' ? (
+            <Loader2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 animate-spin" />
+          ) : step.status === 'error' ? (
+            <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-red-500" />
+          ) : (
+            <CheckCircle2 className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-green-600" />
+          )}
+          {step.kind === 'query' ? (
+            <Database className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          ) : (
+            <Globe className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          )}
+          <div className="min-w-0 flex-1">
+            <p className={`truncate ${step.kind === 'query' ? 'font-mono text-xs' : ''}`} title={step.text}>
+              {step.text}
+            </p>
+            {step.detail && (
+              <p className={`text-xs ${step.status === 'error' ? 'text-red-600 dark:text-red-400' : ''}`}>{step.detail}</p>
+            )}
+          </div>
+        </div>
+      ))}
+      {progress.status && (
+        <div className="flex items-center gap-2">
+          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          <span>{progress.status}...</span>
+        </div>
+      )}
+    </div>
+  );
+}
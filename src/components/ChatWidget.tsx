@@ -1,8 +1,10 @@
 'use client';
 
-import { MessageCircle, X, Send, Loader2, Database } from 'lucide-react';
+import { MessageCircle, X, Send, Loader2, Database, Square } from 'lucide-react';
 import { useState, useEffect, useRef } from 'react';
+import ChatActivity from './ChatActivity';
 import MarkdownRenderer from './MarkdownRenderer';
+import { sendChatMessage, type ChatTurnProgress } from '@/lib/chat/client';
 
 interface Message {
   id: string;
@@ -14,14 +16,29 @@ export default function ChatWidget() {
   const [isOpen, setIsOpen] = useState(false);
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
+  // บทสนทนาบน server (ประวัติเปิดต่อได้ที่หน้า /chat-bot)
+  const [conversationId, setConversationId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // query / web search ของรอบที่กำลังตอบ
+  const [progress, setProgress] = useState<ChatTurnProgress | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, progress]);
+
+  const setAssistantContent = (update: (content: string) => string) => {
+    setMessages((prev) => {
+      const lastMsg = prev[prev.length - 1];
+      if (lastMsg?.role === 'assistant') {
+        return [...prev.slice(0, -1), { ...lastMsg, content: update(lastMsg.content) }];
+      }
+      return [...prev, { id: (Date.now() + 1).toString(), role: 'assistant', content: update('') }];
+    });
+  };
 
   const sendMessage = async (text: string) => {
     if (!text.trim()) return;
@@ -32,66 +49,34 @@ export default function ChatWidget() {
       content: text,
     };
 
-    const allMessages = [...messages, userMessage];
-    setMessages(allMessages);
+    setMessages([...messages, userMessage]);
     setInput('');
     setIsLoading(true);
     setError(null);
 
-    try {
-      const response = await fetch('/api/chat-direct', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          messages: allMessages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Request failed');
-      }
-
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantContent = '';
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          assistantContent += chunk;
+    const controller = new AbortController();
+    abortRef.current = controller;
 
+    try {
+      const result = await sendChatMessage({
+        conversationId,
+        message: text,
+        signal: controller.signal,
+        onProgress: (next) => {
+          setProgress(next);
           // Update assistant message in real-time
-          setMessages((prev) => {
-            const lastMsg = prev[prev.length - 1];
-            if (lastMsg?.role === 'assistant') {
-              return [
-                ...prev.slice(0, -1),
-                { ...lastMsg, content: assistantContent },
-              ];
-            } else {
-              return [
-                ...prev,
-                {
-                  id: (Date.now() + 1).toString(),
-                  role: 'assistant',
-                  content: assistantContent,
-                },
-              ];
-            }
-          });
-        }
-      }
+          if (next.answer) setAssistantContent(() => next.answer);
+        },
+      });
+      if (result.conversationId) setConversationId(result.conversationId);
+      if (result.cancelled) setAssistantContent((content) => `${content}\n\n_(ยกเลิกโดยผู้ใช้)_`.trim());
+      if (result.error) setError(result.error);
     } catch (err) {
       console.error('[ChatWidget] Error:', err);
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
+      abortRef.current = null;
+      setProgress(null);
       setIsLoading(false);
     }
   };
@@ -186,12 +171,18 @@ export default function ChatWidget() {
             {/* Thinking indicator */}
             {isLoading && (
               <div className="flex justify-start">
-                <div className="bg-gray-100 dark:bg-gray-700 rounded-lg px-4 py-2 flex items-center gap-2">
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  <span className="text-sm text-gray-600 dark:text-gray-300">
-                    Querying database...
-                  </span>
-                </div>
+                {progress && (progress.steps.length > 0 || progress.status) ? (
+                  <div className="bg-gray-100 dark:bg-gray-700 rounded-lg px-4 py-2 max-w-[85%]">
+                    <ChatActivity progress={progress} compact />
+                  </div>
+                ) : (
+                  <div className="bg-gray-100 dark:bg-gray-700 rounded-lg px-4 py-2 flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    <span className="text-sm text-gray-600 dark:text-gray-300">
+                      Querying database...
+                    </span>
+                  </div>
+                )}
               </div>
             )}
 
@@ -216,14 +207,26 @@ export default function ChatWidget() {
                 disabled={isLoading}
                 className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white disabled:opacity-50 disabled:cursor-not-allowed"
               />
-              <button
-                type="submit"
-                disabled={isLoading || !input.trim()}
-                className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                aria-label="Send message"
-              >
-                <Send className="w-5 h-5" />
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  onClick={() => abortRef.current?.abort()}
+                  className="bg-gray-700 hover:bg-gray-800 text-white rounded-lg px-4 py-2 transition-colors"
+                  aria-label="Stop generating"
+                  title="หยุด"
+                >
+                  <Square className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!input.trim()}
+                  className="bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-4 py-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Send message"
+                >
+                  <Send className="w-5 h-5" />
+                </button>
+              )}
             </div>
           </form>
         </div>
@@ -5,9 +5,10 @@ import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useRouter } from 'next/navigation';
 import { ExternalLink, MoreVertical, Database, X, Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { inlineParams, type BuiltQuery } from '@/lib/data/query-builder';
 
 interface QueryInfo {
-    query: string;
+    query: string | BuiltQuery;
     format?: string;
 }
 
@@ -58,7 +59,7 @@ function QueryModal({
 
     const copyToClipboard = async () => {
         try {
-            await navigator.clipboard.writeText(queryInfo.query.trim());
+            await navigator.clipboard.writeText(inlineParams(queryInfo.query));
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         } catch (err) {
@@ -153,7 +154,7 @@ function QueryModal({
                     </button>
                     <pre className="text-xs bg-[hsl(var(--muted))] p-4  rounded-md overflow-x-auto max-h-[60vh] overflow-y-auto">
                         <code className="text-[hsl(var(--foreground))] whitespace-pre-wrap break-words font-mono">
-                            {queryInfo.query.trim()}
+                            {inlineParams(queryInfo.query)}
                         </code>
                     </pre>
                 </div>
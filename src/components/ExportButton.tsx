@@ -1,7 +1,7 @@
 'use client';
 
 import { Download } from 'lucide-react';
-import { BranchComparisonData } from '@/lib/data/comparison';
+import type { BranchComparisonData } from '@/lib/data/comparison';
 
 interface ExportButtonProps {
     data: BranchComparisonData[];
@@ -19,6 +19,8 @@ export function ExportButton({ data, filename = 'branch-comparison.csv' }: Expor
             'Margin %',
             'Avg Ticket',
             'Growth %',
+            'Sales Budget',
+            'Budget Achievement %',
             'Inventory Value',
             'Inventory Turnover',
             'Dead Stock',
@@ -34,6 +36,8 @@ export function ExportButton({ data, filename = 'branch-comparison.csv' }: Expor
             branch.profitMargin.toFixed(2),
             branch.avgTicketSize.toFixed(2),
             branch.salesGrowth.toFixed(2),
+            branch.salesBudget?.budget.toFixed(2) ?? '',
+            branch.salesBudget?.achievementPct?.toFixed(2) ?? '',
             branch.inventoryValue.toFixed(2),
             branch.inventoryTurnover.toFixed(2),
             branch.deadStockValue.toFixed(2),
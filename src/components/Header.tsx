@@ -9,6 +9,7 @@ import { cn } from '@/lib/utils';
 import { useComparison } from '@/lib/ComparisonContext';
 import { useSidebar } from '@/lib/SidebarContext';
 import { NotificationPanel } from './NotificationPanel';
+import { ViewMenu } from './layout/ViewMenu';
 
 const pageNames: Record<string, string> = {
     '/': 'ภาพรวมธุรกิจ',
@@ -17,6 +18,7 @@ const pageNames: Record<string, string> = {
     '/sales': 'การขาย',
     '/inventory': 'คลังสินค้า',
     '/settings': 'ตั้งค่า',
+    '/alerts': 'การแจ้งเตือน',
     '/comparison': 'เปรียบเทียบกิจการ',
     '/accounting/comparison': 'เปรียบเทียบการเงิน',
     '/sales/comparison': 'เปรียบเทียบการขาย',
@@ -25,7 +27,11 @@ const pageNames: Record<string, string> = {
     '/reports/sales': 'รายงานการขาย',
     '/reports/purchase': 'รายงานการจัดซื้อ',
     '/reports/inventory': 'รายงานคลังสินค้า',
+    '/reports/replenishment': 'แผนสั่งซื้อสินค้า',
     '/reports/accounting': 'รายงานการเงิน',
+    '/reports/receivables': 'ลูกหนี้รายตัว',
+    '/reports/payables': 'แผนจ่ายเจ้าหนี้',
+    '/reports/payments': 'การรับ/จ่ายเงิน',
     '/test-chat': 'ทดสอบ Chat',
 };
 
@@ -152,6 +158,9 @@ export function Header() {
                     )}
                 </button>
 
+                {/* Saved views / share link */}
+                <ViewMenu />
+
                 {/* Notifications */}
                 <NotificationPanel />
             </div>
@@ -5,9 +5,12 @@ import { cn } from '@/lib/utils';
 import { ReactNode, useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
 import { KPIDetailModal, type KPIDetailActionButton, type KPIDetailItem } from '@/components/KPIDetailModal';
+import { inlineParams, type BuiltQuery } from '@/lib/data/query-builder';
+import type { KPIBudget } from '@/lib/budgets/types';
+import { formatCurrency } from '@/lib/formatters';
 
 interface QueryInfo {
-    query: string;
+    query: string | BuiltQuery;
     format?: string;
 }
 
@@ -27,6 +30,10 @@ interface KPICardProps {
     detailContent?: ReactNode;
     detailActionButton?: KPIDetailActionButton;
     expandHref?: string;
+    /** งบประมาณของช่วงเดียวกัน (จาก KPIData.budget) */
+    budget?: KPIBudget;
+    /** ต่ำกว่างบถือว่าดี (ค่าใช้จ่าย ยอดซื้อ) */
+    budgetLowerIsBetter?: boolean;
 }
 
 
@@ -63,7 +70,7 @@ function QueryModal({
 
     const copyToClipboard = async () => {
         try {
-            await navigator.clipboard.writeText(queryInfo.query.trim());
+            await navigator.clipboard.writeText(inlineParams(queryInfo.query));
             setCopied(true);
             setTimeout(() => setCopied(false), 2000);
         } catch (err) {
@@ -159,7 +166,7 @@ function QueryModal({
                     </button>
                     <pre className="text-xs bg-[hsl(var(--muted))] p-4 rounded-md overflow-x-auto max-h-[60vh] overflow-y-auto">
                         <code className="text-[hsl(var(--foreground))] whitespace-pre-wrap break-words font-mono">
-                            {queryInfo.query.trim()}
+                            {inlineParams(queryInfo.query)}
                         </code>
                     </pre>
                 </div>
@@ -170,6 +177,34 @@ function QueryModal({
     );
 }
 
+/** ผลจริงเทียบงบประมาณ: แถบ % ที่ทำได้ และผลต่าง */
+function BudgetLine({ budget, lowerIsBetter }: { budget: KPIBudget; lowerIsBetter?: boolean }) {
+    const favourable = lowerIsBetter ? budget.variance <= 0 : budget.variance >= 0;
+    const achievement = budget.achievementPct;
+
+    return (
+        <div className="mt-3 space-y-1">
+            <div className="flex items-center justify-between text-xs text-[hsl(var(--muted-foreground))]">
+                <span>งบประมาณ {formatCurrency(budget.budget)}</span>
+                {achievement !== null && (
+                    <span className={cn('font-medium', favourable ? 'text-emerald-600' : 'text-rose-600')}>
+                        {achievement.toFixed(1)}%
+                    </span>
+                )}
+            </div>
+            <div className="h-1.5 w-full overflow-hidden rounded-full bg-[hsl(var(--muted))]">
+                <div
+                    className={cn('h-full rounded-full', favourable ? 'bg-emerald-500' : 'bg-rose-500')}
+                    style={{ width: `${Math.min(Math.max(achievement ?? 0, 0), 100)}%` }}
+                />
+            </div>
+            <p className={cn('text-xs', favourable ? 'text-emerald-600' : 'text-rose-600')}>
+                {budget.variance >= 0 ? 'สูงกว่างบ' : 'ต่ำกว่างบ'} {formatCurrency(Math.abs(budget.variance))}
+            </p>
+        </div>
+    );
+}
+
 export function KPICard({
     title,
     value,
@@ -186,6 +221,8 @@ export function KPICard({
     detailContent,
     detailActionButton,
     expandHref,
+    budget,
+    budgetLowerIsBetter,
 }: KPICardProps) {
     const [showQueryPopup, setShowQueryPopup] = useState(false);
     const [showDetailPopup, setShowDetailPopup] = useState(false);
@@ -293,6 +330,7 @@ export function KPICard({
                             {description}
                         </p>
                     )}
+                    {budget && <BudgetLine budget={budget} lowerIsBetter={budgetLowerIsBetter} />}
                 </div>
 
                 {/* Decorative gradient blob */}
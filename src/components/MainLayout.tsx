@@ -4,6 +4,7 @@ import { Sidebar } from '@/components/Sidebar';
 import { Header } from '@/components/Header';
 import { SidebarProvider, useSidebar } from '@/lib/SidebarContext';
 import { useBranchAutoSwitch } from '@/hooks/useBranchAutoSwitch';
+import { useViewStateRestore } from '@/hooks/useViewState';
 import { cn } from '@/lib/utils';
 
 function MainLayoutContent({ children }: { children: React.ReactNode }) {
@@ -12,6 +13,9 @@ function MainLayoutContent({ children }: { children: React.ReactNode }) {
   // Auto-switch from "ALL" to "B1" when leaving comparison page
   useBranchAutoSwitch();
 
+  // Apply the view (dates, branches, sort) carried in a shared or saved URL
+  useViewStateRestore();
+
   return (
     <div className="min-h-screen overflow-x-hidden">
       <Sidebar />
@@ -2,18 +2,11 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
+import Link from 'next/link';
 import { Bell, AlertTriangle, CheckCircle, Info, XCircle, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { useQuery } from '@tanstack/react-query';
-import { useBranchStore } from '@/store/useBranchStore';
-
-interface Alert {
-  id: number;
-  type: 'info' | 'warning' | 'success' | 'error';
-  title: string;
-  message: string;
-  timestamp?: string;
-}
+import { useAlertActions, useAlertFeed } from '@/hooks/useAlerts';
+import type { AlertEvent } from '@/lib/alerts/types';
 
 const alertConfig = {
   info: {
@@ -63,35 +56,20 @@ function formatRelativeTime(timestamp?: string): string {
 
 export function NotificationPanel() {
   const [isOpen, setIsOpen] = useState(false);
-  const [readIds, setReadIds] = useState<Set<number>>(new Set());
   const [mounted, setMounted] = useState(false);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const panelRef = useRef<HTMLDivElement>(null);
-  const selectedBranches = useBranchStore((s) => s.selectedBranches);
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  // Fetch alerts from the same API as dashboard
-  const { data } = useQuery({
-    queryKey: ['dashboardAlerts', selectedBranches],
-    queryFn: async () => {
-      const params = new URLSearchParams();
-      if (!selectedBranches.includes('ALL')) {
-        selectedBranches.forEach((b) => params.append('branch', b));
-      }
-      const queryParams = params.toString() ? `?${params.toString()}` : '';
-      const res = await fetch(`/api/dashboard${queryParams}`);
-      if (!res.ok) return { alerts: [] };
-      const json = await res.json();
-      return json;
-    },
-    staleTime: 60_000,
-  });
+  // Alert history from the rules engine (not tied to the selected branches)
+  const { data } = useAlertFeed('all', 20);
+  const { markRead: markReadMutation, acknowledge } = useAlertActions();
 
-  const alerts: Alert[] = data?.alerts || [];
-  const unreadCount = alerts.filter((a) => !readIds.has(a.id)).length;
+  const alerts: AlertEvent[] = data?.events || [];
+  const unreadCount = data?.unreadCount ?? 0;
 
   // Close on outside click
   useEffect(() => {
@@ -121,11 +99,11 @@ export function NotificationPanel() {
   }, [isOpen]);
 
   const markAllRead = () => {
-    setReadIds(new Set(alerts.map((a) => a.id)));
+    markReadMutation.mutate(undefined);
   };
 
-  const markRead = (id: number) => {
-    setReadIds((prev) => new Set([...prev, id]));
+  const markRead = (alert: AlertEvent) => {
+    if (!alert.readAt) markReadMutation.mutate([alert.id]);
   };
 
   // Calculate panel position from button
@@ -194,16 +172,19 @@ export function NotificationPanel() {
           ) : (
             <div className="divide-y divide-[hsl(var(--border))]">
               {alerts.map((alert) => {
-                const config = alertConfig[alert.type];
+                const config = alertConfig[alert.severity];
                 const Icon = config.icon;
-                const isRead = readIds.has(alert.id);
+                const isRead = alert.readAt !== null;
 
                 return (
-                  <button
+                  <div
                     key={alert.id}
-                    onClick={() => markRead(alert.id)}
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => markRead(alert)}
+                    onKeyDown={(e) => e.key === 'Enter' && markRead(alert)}
                     className={cn(
-                      'w-full text-left flex gap-4 px-5 py-4 transition-colors hover:bg-[hsl(var(--muted)/50)]',
+                      'w-full text-left flex gap-4 px-5 py-4 transition-colors hover:bg-[hsl(var(--muted)/50)] cursor-pointer',
                       'border-l-[3px]',
                       isRead ? 'border-l-transparent opacity-60' : config.border
                     )}
@@ -229,13 +210,27 @@ export function NotificationPanel() {
                       <p className="mt-1 text-xs text-[hsl(var(--muted-foreground))] leading-relaxed line-clamp-2">
                         {alert.message}
                       </p>
-                      {alert.timestamp && (
-                        <p className="mt-1.5 text-[10px] text-[hsl(var(--muted-foreground))]">
-                          {formatRelativeTime(alert.timestamp)}
+                      <div className="mt-1.5 flex items-center justify-between gap-2">
+                        <p className="text-[10px] text-[hsl(var(--muted-foreground))]">
+                          {formatRelativeTime(alert.triggeredAt)}
                         </p>
-                      )}
+                        {alert.acknowledgedAt ? (
+                          <span className="text-[10px] text-[hsl(var(--muted-foreground))]">รับทราบแล้ว</span>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              acknowledge.mutate([alert.id]);
+                            }}
+                            className="text-[10px] font-medium text-[hsl(var(--primary))] hover:underline"
+                          >
+                            รับทราบ
+                          </button>
+                        )}
+                      </div>
                     </div>
-                  </button>
+                  </div>
                 );
               })}
             </div>
@@ -246,11 +241,15 @@ export function NotificationPanel() {
         {alerts.length > 0 && (
           <div className="border-t border-[hsl(var(--border))] bg-[hsl(var(--muted)/30)] px-5 py-3 flex items-center justify-between">
             <p className="text-xs text-[hsl(var(--muted-foreground))]">
-              {alerts.length} รายการทั้งหมด
+              ยังไม่รับทราบ {data?.openCount ?? 0} รายการ
             </p>
-            <button className="text-xs font-medium text-[hsl(var(--primary))] hover:underline">
-              ดูทั้งหมด
-            </button>
+            <Link
+              href="/alerts"
+              onClick={() => setIsOpen(false)}
+              className="text-xs font-medium text-[hsl(var(--primary))] hover:underline"
+            >
+              ดูประวัติทั้งหมด
+            </Link>
           </div>
         )}
       </div>
@@ -277,9 +276,11 @@ export function NotificationPanel() {
         <Bell className="h-5 w-5" />
         {/* Unread badge */}
         {unreadCount > 0 && (
-          <span className="absolute right-1.5 top-1.5 flex h-2 w-2 items-center justify-center">
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center">
             <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75" />
-            <span className="relative inline-flex rounded-full h-2 w-2 bg-red-500" />
+            <span className="relative inline-flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-bold leading-none text-white">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
           </span>
         )}
       </button>
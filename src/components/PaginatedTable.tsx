@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, ReactNode, useEffect } from 'react';
+import { usePathname } from 'next/navigation';
 import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Database } from 'lucide-react';
+import { useViewStore } from '@/store/useViewStore';
 
 export interface ColumnDef<T> {
   key: string;
@@ -51,6 +53,7 @@ interface PaginatedTableProps<T> {
   totalItems?: number;
   currentPage?: number;
   onPageChange?: (page: number) => void;
+  onPageSizeChange?: (pageSize: number) => void;
   paginationClassName?: string;
   onRowClick?: (item: T) => void;
 }
@@ -70,11 +73,28 @@ export function PaginatedTable<T = any>({
   totalItems = 0,
   currentPage: externalPage = 1,
   onPageChange,
+  onPageSizeChange,
   paginationClassName,
   onRowClick,
 }: PaginatedTableProps<T>) {
-  const [sortKey, setSortKey] = useState<string | null>(defaultSortKey || null);
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(defaultSortOrder);
+  const [localSortKey, setSortKey] = useState<string | null>(defaultSortKey || null);
+  const [localSortOrder, setSortOrder] = useState<'asc' | 'desc'>(defaultSortOrder);
+
+  // การเรียงที่เป็นส่วนของ view (ลิงก์แชร์/มุมมองที่บันทึก) มีผลเหนือการเรียงในตาราง
+  const pathname = usePathname();
+  const tableSort = useViewStore((s) => s.tableSort);
+  const setTableSort = useViewStore((s) => s.setTableSort);
+  const sortableKeys = columns.filter((column) => column.sortable).map((column) => column.key);
+  const tableSignature = sortableKeys.join(',');
+  const viewSort =
+    tableSort &&
+    tableSort.path === pathname &&
+    sortableKeys.includes(tableSort.key) &&
+    (!tableSort.table || tableSort.table === tableSignature)
+      ? tableSort
+      : null;
+  const sortKey = viewSort ? viewSort.key : localSortKey;
+  const sortOrder = viewSort ? viewSort.order : localSortOrder;
   const [internalPage, setInternalPage] = useState(1);
   const [pageSize, setPageSize] = useState(itemsPerPage);
 
@@ -98,12 +118,10 @@ export function PaginatedTable<T = any>({
   // Sort handler
   const handleSort = (key: string) => {
     // ... (same sort logic)
-    if (sortKey === key) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortKey(key);
-      setSortOrder('desc');
-    }
+    const nextOrder = sortKey === key && sortOrder === 'desc' ? 'asc' : 'desc';
+    setSortKey(key);
+    setSortOrder(nextOrder);
+    setTableSort({ path: pathname, table: tableSignature, key, order: nextOrder });
     if (!manualPagination) setInternalPage(1);
   };
 
@@ -170,6 +188,7 @@ export function PaginatedTable<T = any>({
     if (!manualPagination) {
       setInternalPage(1);
     } else {
+      onPageSizeChange?.(newSize);
       onPageChange?.(1);
     }
   };
@@ -329,7 +348,7 @@ export function PaginatedTable<T = any>({
               <option value={50}>50</option>
               <option value={100}>100</option>
             </select>
-            <span className="whitespace-nowrap">จาก {sortedData.length} รายการ</span>
+            <span className="whitespace-nowrap">จาก {manualPagination ? totalItems : sortedData.length} รายการ</span>
           </div>
 
 
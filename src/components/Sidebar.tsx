@@ -19,12 +19,17 @@ import {
     FileText,
     TrendingUp,
     Wallet,
+    CalendarClock,
+    Banknote,
     BarChart3,
-    ClipboardList
+    ClipboardList,
+    PackagePlus,
+    Star
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useSidebar } from '@/lib/SidebarContext';
 import { useComparison } from '@/lib/ComparisonContext';
+import { useOpenView, useSavedViews } from '@/hooks/useViewState';
 // auth-client removed temporarily — will be added back when auth system is ready
 
 const menuItems = [
@@ -50,8 +55,12 @@ const reportMenu = {
     icon: FileText,
     subItems: [
         { name: 'รายงานบัญชี', icon: Calculator, href: '/reports/accounting' },
+        { name: 'ลูกหนี้รายตัว', icon: Wallet, href: '/reports/receivables' },
+        { name: 'แผนจ่ายเจ้าหนี้', icon: CalendarClock, href: '/reports/payables' },
+        { name: 'การรับ/จ่ายเงิน', icon: Banknote, href: '/reports/payments' },
         { name: 'รายงานการขาย', icon: TrendingUp, href: '/reports/sales' },
         { name: 'รายงานสินค้าคงคลัง', icon: BarChart3, href: '/reports/inventory' },
+        { name: 'แผนสั่งซื้อสินค้า', icon: PackagePlus, href: '/reports/replenishment' },
         { name: 'รายงานการจัดซื้อ', icon: ClipboardList, href: '/reports/purchase' },
     ]
 };
@@ -84,6 +93,9 @@ export function Sidebar() {
     const { isCollapsed, toggleSidebar, isMobileSidebarOpen, closeMobileSidebar, setIsCollapsed } = useSidebar();
     const { isComparisonMode } = useComparison();
     const [isReportOpen, setIsReportOpen] = useState(false);
+    const { data: savedViews = [] } = useSavedViews();
+    const pinnedViews = savedViews.filter((view) => view.pinned);
+    const openView = useOpenView();
 
     // Check if any report submenu is active
     const isReportActive = reportMenu.subItems.some(item => pathname.startsWith(item.href));
@@ -282,6 +294,36 @@ export function Sidebar() {
                     </motion.nav>
                 </div>
 
+                {/* Favorites: saved views pinned from the header menu */}
+                {pinnedViews.length > 0 && (
+                    <div>
+                        {!displayCollapsed && (
+                            <p className="px-4 text-xs font-semibold text-[hsl(var(--muted-foreground))] uppercase tracking-wider mb-3">
+                                Favorites
+                            </p>
+                        )}
+                        <nav className="space-y-1">
+                            {pinnedViews.map((view) => (
+                                <button
+                                    key={view.id}
+                                    onClick={() => {
+                                        handleNavClick();
+                                        openView(view).catch((error) => console.error('Failed to open view:', error));
+                                    }}
+                                    title={displayCollapsed ? view.name : undefined}
+                                    className={cn(
+                                        "w-full flex items-center gap-3 py-2.5 text-sm font-medium rounded-xl text-[hsl(var(--muted-foreground))] hover:bg-[hsl(var(--accent))] hover:text-[hsl(var(--accent-foreground))] transition-all duration-200 group",
+                                        displayCollapsed ? "px-3 justify-center" : "px-4"
+                                    )}
+                                >
+                                    <Star className="h-4 w-4 text-amber-500 flex-shrink-0" />
+                                    {!displayCollapsed && <span className="flex-1 truncate text-left">{view.name}</span>}
+                                </button>
+                            ))}
+                        </nav>
+                    </div>
+                )}
+
                 <div>
                     {!displayCollapsed && (
                         <p className="px-4 text-xs font-semibold text-[hsl(var(--muted-foreground))] uppercase tracking-wider mb-3">
@@ -2,49 +2,55 @@
 
 import { useEffect, useRef } from 'react';
 import * as echarts from 'echarts';
-import type { BalanceSheetItem } from '@/lib/data/types';
+import { AlertTriangle } from 'lucide-react';
+import { formatCurrency } from '@/lib/formatters';
+import type { BalanceSheetData } from '@/lib/data/types';
 
 interface BalanceSheetChartProps {
-  data: BalanceSheetItem[];
+  data: BalanceSheetData | null | undefined;
   height?: string;
 }
 
+const SIDES = ['สินทรัพย์', 'หนี้สิน + ส่วนของผู้ถือหุ้น'];
+
+/**
+ * สินทรัพย์เทียบกับหนี้สิน + ส่วนของผู้ถือหุ้น + กำไรที่ยังไม่ปิดบัญชี ณ วันที่ของงบ
+ * ผลต่างที่ทำให้งบไม่สมดุลแสดงเป็นแท่งสีแดง
+ */
 export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
+  const isEmpty = !data || data.items.length === 0;
 
   useEffect(() => {
-    if (!chartRef.current || data.length === 0) return;
+    if (!chartRef.current || !data || isEmpty) return;
 
     const chart = echarts.init(chartRef.current);
+    const { check } = data;
 
-    // Group by account type
-    const groupedData = data.reduce((acc, item) => {
-      if (!acc[item.typeName]) {
-        acc[item.typeName] = [];
-      }
-      acc[item.typeName].push(item);
-      return acc;
-    }, {} as Record<string, BalanceSheetItem[]>);
-
-    const categories = Object.keys(groupedData);
-    const series = categories.map(category => ({
-      name: category,
-      type: 'bar',
+    const stack = (name: string, color: string, values: [number, number]) => ({
+      name,
+      type: 'bar' as const,
       stack: 'total',
-      data: categories.map(cat =>
-        cat === category
-          ? groupedData[cat].reduce((sum, item) => sum + item.balance, 0)
-          : 0
-      ),
-      itemStyle: {
-        color:
-          category === 'สินทรัพย์'
-            ? '#10b981'
-            : category === 'หนี้สิน'
-            ? '#ef4444'
-            : '#3b82f6',
-      },
-    }));
+      data: values,
+      itemStyle: { color },
+    });
+
+    const series = [
+      stack('สินทรัพย์', '#10b981', [check.assets, 0]),
+      stack('หนี้สิน', '#ef4444', [0, check.liabilities]),
+      stack('ส่วนของผู้ถือหุ้น', '#3b82f6', [0, check.equity]),
+      stack('กำไรที่ยังไม่ปิดบัญชี', '#8b5cf6', [0, check.currentYearEarnings + check.unclosedEarnings]),
+      ...(check.balanced
+        ? []
+        : [
+            // Fill the short side so the gap is visible
+            stack(
+              'ผลต่าง',
+              '#dc2626',
+              check.difference > 0 ? [0, check.difference] : [-check.difference, 0]
+            ),
+          ]),
+    ];
 
     const option: echarts.EChartsOption = {
       tooltip: {
@@ -55,7 +61,7 @@ export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartP
         formatter: (params: any) => {
           let result = `<div style="font-weight: bold; margin-bottom: 4px;">${params[0].axisValue}</div>`;
           params.forEach((item: any) => {
-            if (item.value > 0) {
+            if (item.value !== 0) {
               const value = Number(item.value).toLocaleString('th-TH', {
                 minimumFractionDigits: 2,
                 maximumFractionDigits: 2,
@@ -71,7 +77,7 @@ export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartP
         },
       },
       legend: {
-        data: categories,
+        data: series.map(s => s.name),
         bottom: 0,
       },
       grid: {
@@ -83,15 +89,16 @@ export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartP
       },
       xAxis: {
         type: 'category',
-        data: categories,
+        data: SIDES,
       },
       yAxis: {
         type: 'value',
         axisLabel: {
           formatter: (value: number) => {
-            return value >= 1000000
+            const abs = Math.abs(value);
+            return abs >= 1000000
               ? `${(value / 1000000).toFixed(1)}M`
-              : value >= 1000
+              : abs >= 1000
               ? `${(value / 1000).toFixed(0)}K`
               : value.toString();
           },
@@ -109,9 +116,9 @@ export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartP
       resizeObserver.disconnect();
       chart.dispose();
     };
-  }, [data]);
+  }, [data, isEmpty]);
 
-  if (data.length === 0) {
+  if (isEmpty) {
     return (
       <div className="flex items-center justify-center" style={{ height }}>
         <p className="text-muted-foreground">ไม่มีข้อมูล</p>
@@ -119,5 +126,15 @@ export function BalanceSheetChart({ data, height = '400px' }: BalanceSheetChartP
     );
   }
 
-  return <div ref={chartRef} style={{ height, width: '100%' }} />;
+  return (
+    <div>
+      {!data.check.balanced && (
+        <p className="flex items-center gap-1.5 mb-2 text-xs text-red-600">
+          <AlertTriangle className="h-3.5 w-3.5" />
+          งบดุลไม่สมดุล ต่างกัน ฿{formatCurrency(data.check.difference)}
+        </p>
+      )}
+      <div ref={chartRef} style={{ height, width: '100%' }} />
+    </div>
+  );
 }
@@ -0,0 +1,58 @@
+'use client';
+
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import type { BalanceSheetCheck as BalanceSheetCheckData } from '@/lib/data/types';
+
+interface BalanceSheetCheckProps {
+  check: BalanceSheetCheckData;
+  asOfDate: string;
+}
+
+/**
+ * สรุปสมการงบดุล: สินทรัพย์ = หนี้สิน + ส่วนของผู้ถือหุ้น + กำไรที่ยังไม่ปิดบัญชี
+ */
+export function BalanceSheetCheck({ check, asOfDate }: BalanceSheetCheckProps) {
+  const terms = [
+    { label: 'สินทรัพย์', value: check.assets },
+    { label: 'หนี้สิน', value: check.liabilities },
+    { label: 'ส่วนของผู้ถือหุ้น', value: check.equity },
+    { label: 'กำไรปีปัจจุบัน', value: check.currentYearEarnings },
+    ...(check.unclosedEarnings !== 0 ? [{ label: 'กำไรปีก่อนที่ยังไม่ปิดบัญชี', value: check.unclosedEarnings }] : []),
+  ];
+
+  return (
+    <div
+      className={cn(
+        'rounded-lg border p-3 text-sm space-y-2',
+        check.balanced
+          ? 'border-green-300/60 bg-green-50/50 dark:bg-green-950/20'
+          : 'border-red-300/60 bg-red-50/60 dark:bg-red-950/20'
+      )}
+    >
+      <div className="flex items-center gap-2 font-medium">
+        {check.balanced ? (
+          <>
+            <CheckCircle2 className="h-4 w-4 text-green-600" />
+            งบดุลสมดุล ณ วันที่ {asOfDate}
+          </>
+        ) : (
+          <>
+            <AlertTriangle className="h-4 w-4 text-red-600" />
+            <span className="text-red-700 dark:text-red-400">
+              งบดุลไม่สมดุล ณ วันที่ {asOfDate}: ต่างกัน ฿{formatCurrency(check.difference)}
+            </span>
+          </>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-muted-foreground">
+        {terms.map((term) => (
+          <span key={term.label}>
+            {term.label}: <span className="font-medium text-foreground">฿{formatCurrency(term.value)}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
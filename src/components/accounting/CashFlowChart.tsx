@@ -2,23 +2,46 @@
 
 import { useEffect, useRef } from 'react';
 import * as echarts from 'echarts';
-import type { CashFlowData } from '@/lib/data/types';
+import type { CashFlowStatement } from '@/lib/cash-flow/types';
 
 interface CashFlowChartProps {
-  data: CashFlowData[];
+  data: CashFlowStatement | null | undefined;
   height?: string;
 }
 
+const ACTIVITY_LABELS = {
+  Operating: 'ดำเนินงาน',
+  Investing: 'ลงทุน',
+  Financing: 'จัดหาเงิน',
+};
+
+const compact = (value: number) => {
+  const abs = Math.abs(value);
+  return abs >= 1000000
+    ? `${(value / 1000000).toFixed(1)}M`
+    : abs >= 1000
+    ? `${(value / 1000).toFixed(0)}K`
+    : value.toFixed(0);
+};
+
+/**
+ * เงินสดต้นงวด → กระแสเงินสดสุทธิแต่ละกิจกรรม → เงินสดปลายงวด
+ */
 export function CashFlowChart({ data, height = '350px' }: CashFlowChartProps) {
   const chartRef = useRef<HTMLDivElement>(null);
+  const isEmpty = !data || (data.activities.every(a => a.netCashFlow === 0) && data.openingCash === 0 && data.closingCash === 0);
 
   useEffect(() => {
-    if (!chartRef.current || data.length === 0) return;
+    if (!chartRef.current || !data || isEmpty) return;
 
     const chart = echarts.init(chartRef.current);
 
-    const activities = data.map(d => d.activityType);
-    const cashFlows = data.map(d => d.netCashFlow);
+    const activities = ['เงินสดต้นงวด', ...data.activities.map(d => ACTIVITY_LABELS[d.activityType]), 'เงินสดปลายงวด'];
+    const cashFlows = [
+      { value: data.openingCash, itemStyle: { color: '#3b82f6' } },
+      ...data.activities.map(d => ({ value: d.netCashFlow })),
+      { value: data.closingCash, itemStyle: { color: '#3b82f6' } },
+    ];
 
     const option: echarts.EChartsOption = {
       tooltip: {
@@ -35,7 +58,7 @@ export function CashFlowChart({ data, height = '350px' }: CashFlowChartProps) {
           return `<div>
             <div style="font-weight: bold; margin-bottom: 4px;">${item.axisValue}</div>
             <div style="display: flex; align-items: center; gap: 8px;">
-              <span>กระแสเงินสดสุทธิ:</span>
+              <span>${item.dataIndex === 0 || item.dataIndex === activities.length - 1 ? 'ยอดเงินสด' : 'กระแสเงินสดสุทธิ'}:</span>
               <span style="font-weight: 600; color: ${item.value >= 0 ? '#10b981' : '#ef4444'};">฿${value}</span>
             </div>
           </div>`;
@@ -55,13 +78,7 @@ export function CashFlowChart({ data, height = '350px' }: CashFlowChartProps) {
       yAxis: {
         type: 'value',
         axisLabel: {
-          formatter: (value: number) => {
-            return value >= 1000000
-              ? `${(value / 1000000).toFixed(1)}M`
-              : value >= 1000
-              ? `${(value / 1000).toFixed(0)}K`
-              : value.toString();
-          },
+          formatter: (value: number) => compact(value),
         },
       },
       series: [
@@ -77,15 +94,7 @@ export function CashFlowChart({ data, height = '350px' }: CashFlowChartProps) {
           label: {
             show: true,
             position: 'top',
-            formatter: (params: any) => {
-              const value = Number(params.value);
-              if (value >= 1000000) {
-                return `${(value / 1000000).toFixed(1)}M`;
-              } else if (value >= 1000) {
-                return `${(value / 1000).toFixed(0)}K`;
-              }
-              return value.toFixed(0);
-            },
+            formatter: (params: any) => compact(Number(params.value)),
           },
         },
       ],
@@ -100,9 +109,9 @@ export function CashFlowChart({ data, height = '350px' }: CashFlowChartProps) {
       resizeObserver.disconnect();
       chart.dispose();
     };
-  }, [data]);
+  }, [data, isEmpty]);
 
-  if (data.length === 0) {
+  if (isEmpty) {
     return (
       <div className="flex items-center justify-center" style={{ height }}>
         <p className="text-muted-foreground">ไม่มีข้อมูล</p>
@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency } from '@/lib/formatters';
+import { cashFlowStatementRows } from '@/lib/cash-flow/statement';
+import type { CashFlowStatement } from '@/lib/cash-flow/types';
+
+interface CashFlowStatementTableProps {
+  statement: CashFlowStatement | null | undefined;
+}
+
+const amountCls = (amount: number) => (amount < 0 ? 'text-red-600' : '');
+
+/** ตัวเลขแบบงบการเงิน: ค่าติดลบอยู่ในวงเล็บ */
+const formatAmount = (amount: number) =>
+  amount < 0 ? `(${formatCurrency(Math.abs(amount))})` : formatCurrency(amount);
+
+/**
+ * งบกระแสเงินสดวิธีทางอ้อม กดที่บรรทัดเพื่อดูรายบัญชี
+ */
+export function CashFlowStatementTable({ statement }: CashFlowStatementTableProps) {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  if (!statement) {
+    return <p className="py-8 text-center text-muted-foreground">ไม่มีข้อมูลกระแสเงินสด</p>;
+  }
+
+  const rows = cashFlowStatementRows(statement);
+  const toggle = (key: string) =>
+    setExpanded((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  return (
+    <div className="space-y-4">
+      {statement.difference !== 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-300/60 bg-red-50/60 dark:bg-red-950/20 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />
+          <p>
+            เงินสดปลายงวดจากงบไม่ตรงกับยอดบัญชีเงินสด/ธนาคาร ต่างกัน ฿{formatCurrency(statement.difference)}
+            {' '}ตรวจสอบรายการบัญชีที่เดบิตไม่เท่ากับเครดิตในช่วงนี้
+          </p>
+        </div>
+      )}
+      {statement.unmappedAccounts.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-300/60 bg-amber-50/50 dark:bg-amber-950/20 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 flex-shrink-0" />
+          <div>
+            <p>
+              มี {statement.unmappedAccounts.length} บัญชีที่ยังไม่ได้จัดเข้าผังกระแสเงินสด (แสดงในบรรทัด &quot;อื่น&quot; ตามหมวดบัญชี):{' '}
+              <span className="font-mono text-xs">
+                {statement.unmappedAccounts.map((a) => a.accountCode).join(', ')}
+              </span>
+            </p>
+            <Link href="/settings/cash-flow-mapping" className="text-primary hover:underline">
+              ตั้งค่าผังกระแสเงินสด
+            </Link>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+              <th className="py-2 px-4 font-medium">รายการ</th>
+              <th className="py-2 px-4 font-medium text-right">จำนวนเงิน (บาท)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              if (row.kind === 'section') {
+                return (
+                  <tr key={row.key} className="bg-muted/20">
+                    <td colSpan={2} className="py-2 px-4 font-semibold">{row.label}</td>
+                  </tr>
+                );
+              }
+
+              const line = row.kind === 'line' ? statement.lines.find((l) => l.line === row.key) : undefined;
+              const isOpen = expanded.includes(row.key);
+              const amount = row.amount ?? 0;
+
+              return [
+                <tr
+                  key={row.key}
+                  onClick={line?.accounts.length ? () => toggle(row.key) : undefined}
+                  className={cn(
+                    'border-b border-border/40',
+                    line?.accounts.length && 'cursor-pointer hover:bg-muted/20',
+                    (row.kind === 'subtotal' || row.kind === 'total') && 'font-semibold',
+                    row.kind === 'total' && 'bg-muted/30'
+                  )}
+                >
+                  <td className={cn('py-2 px-4', row.kind === 'line' && 'pl-8')}>
+                    <span className="inline-flex items-center gap-1">
+                      {line?.accounts.length ? (
+                        isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />
+                      ) : null}
+                      {row.label}
+                    </span>
+                  </td>
+                  <td className={cn('py-2 px-4 text-right tabular-nums', amountCls(amount))}>{formatAmount(amount)}</td>
+                </tr>,
+                ...(isOpen && line
+                  ? line.accounts.map((account) => (
+                      <tr key={`${row.key}-${account.accountCode}`} className="border-b border-border/20 text-xs text-muted-foreground">
+                        <td className="py-1.5 px-4 pl-14">
+                          <span className="font-mono">{account.accountCode}</span> {account.accountName}
+                        </td>
+                        <td className={cn('py-1.5 px-4 text-right tabular-nums', amountCls(account.amount))}>
+                          {formatAmount(account.amount)}
+                        </td>
+                      </tr>
+                    ))
+                  : []),
+              ];
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CalendarClock, Check, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import type { CollectionNote, CollectionNoteInput } from '@/lib/receivables/types';
+
+interface CollectionNotesPanelProps {
+  customerCode: string;
+  customerName: string;
+  selectedBranches: string[];
+}
+
+export const COLLECTION_NOTES_QUERY_KEY = ['collectionNotes'];
+
+const inputClass = 'px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+const emptyForm = { note: '', promisedDate: '', promisedAmount: '', followUpDate: '' };
+
+/**
+ * บันทึกการติดตามหนี้ของลูกค้า: เพิ่มบันทึก วันนัดชำระ วันติดตามครั้งถัดไป และปิดงานติดตาม
+ */
+export function CollectionNotesPanel({ customerCode, customerName, selectedBranches }: CollectionNotesPanelProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState(emptyForm);
+
+  // บันทึกใหม่ต้องผูกกับกิจการ จึงเพิ่มได้เมื่อเลือกกิจการเดียว
+  const branchSync = selectedBranches.length === 1 && selectedBranches[0] !== 'ALL' ? selectedBranches[0] : '';
+
+  const { data: notes = [], error, refetch } = useQuery({
+    queryKey: [...COLLECTION_NOTES_QUERY_KEY, customerCode, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ customer_code: customerCode });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<CollectionNote[]>(`/api/accounting/receivables/notes?${params}`);
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: COLLECTION_NOTES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: ['receivables'] });
+  };
+
+  const create = useMutation({
+    mutationFn: () =>
+      requestJson<CollectionNote>('/api/accounting/receivables/notes', {
+        method: 'POST',
+        body: JSON.stringify({ ...form, customerCode, customerName, branchSync }),
+      }),
+    onSuccess: () => {
+      setForm(emptyForm);
+      invalidate();
+    },
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, input }: { id: string; input: CollectionNoteInput }) =>
+      requestJson<CollectionNote>(`/api/accounting/receivables/notes/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => requestJson<void>(`/api/accounting/receivables/notes/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+  });
+
+  const mutationError = create.error || update.error || remove.error;
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <h4 className="font-semibold flex items-center gap-2">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        บันทึกการติดตามหนี้
+      </h4>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+      {mutationError && <ErrorDisplay error={mutationError} />}
+
+      <form
+        className="grid gap-3 sm:grid-cols-[1fr_auto_auto_auto_auto] items-end"
+        onSubmit={(e) => {
+          e.preventDefault();
+          create.mutate();
+        }}
+      >
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>รายละเอียด</span>
+          <input
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            placeholder="เช่น โทรติดตาม ลูกค้าแจ้งจะโอนภายในสัปดาห์หน้า"
+            className={`${inputClass} w-full`}
+            required
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>วันนัดชำระ</span>
+          <input
+            type="date"
+            value={form.promisedDate}
+            onChange={(e) => setForm({ ...form, promisedDate: e.target.value })}
+            className={`${inputClass} block`}
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>ยอดนัดชำระ</span>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={form.promisedAmount}
+            onChange={(e) => setForm({ ...form, promisedAmount: e.target.value })}
+            className={`${inputClass} block w-32 text-right`}
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>ติดตามครั้งถัดไป</span>
+          <input
+            type="date"
+            value={form.followUpDate}
+            onChange={(e) => setForm({ ...form, followUpDate: e.target.value })}
+            className={`${inputClass} block`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={create.isPending || !form.note.trim() || !branchSync}
+          className="inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {create.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </form>
+      {!branchSync && <p className="text-xs text-muted-foreground">เลือกกิจการเดียวเพื่อเพิ่มบันทึกการติดตาม</p>}
+
+      {notes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">ยังไม่มีบันทึกการติดตาม</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {notes.map((note) => (
+            <li key={note.id} className={`py-3 flex flex-wrap items-start gap-3 ${note.status === 'done' ? 'opacity-60' : ''}`}>
+              <div className="flex-1 min-w-[200px]">
+                <p className="text-sm">{note.note}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {note.createdBy} · {formatDate(note.createdAt)}
+                  {note.branchSync && ` · ${note.branchSync}`}
+                </p>
+              </div>
+              <div className="text-xs text-right space-y-0.5">
+                {note.promisedDate && (
+                  <p className="text-blue-600">
+                    นัดชำระ {formatDate(note.promisedDate)}
+                    {note.promisedAmount !== null && ` ฿${formatCurrency(note.promisedAmount)}`}
+                  </p>
+                )}
+                {note.followUpDate && <p>ติดตาม {formatDate(note.followUpDate)}</p>}
+              </div>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  title={note.status === 'open' ? 'ปิดงานติดตาม' : 'เปิดงานติดตามอีกครั้ง'}
+                  onClick={() => update.mutate({ id: note.id, input: { status: note.status === 'open' ? 'done' : 'open' } })}
+                  className="p-1.5 rounded-md hover:bg-muted"
+                >
+                  {note.status === 'open' ? <Check className="h-4 w-4 text-green-600" /> : <RotateCcw className="h-4 w-4" />}
+                </button>
+                <button
+                  type="button"
+                  title="ลบบันทึก"
+                  onClick={() => {
+                    if (confirm('ลบบันทึกการติดตามนี้?')) remove.mutate(note.id);
+                  }}
+                  className="p-1.5 rounded-md hover:bg-muted"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
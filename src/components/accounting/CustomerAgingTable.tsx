@@ -0,0 +1,101 @@
+'use client';
+
+import { PaginatedTable, type ColumnDef, type SummaryConfig } from '../PaginatedTable';
+import { formatCurrency, formatDate, formatInteger } from '@/lib/formatters';
+import { AGING_BUCKETS, type AgingBucketKey, type CustomerAging } from '@/lib/receivables/types';
+
+interface CustomerAgingTableProps {
+  data: CustomerAging[];
+  onSelect: (customer: CustomerAging) => void;
+}
+
+const bucketColors: Record<AgingBucketKey, string> = {
+  notDue: 'text-green-600',
+  days1to30: 'text-yellow-600',
+  days31to60: 'text-orange-600',
+  days61to90: 'text-red-600',
+  over90: 'text-red-700 font-semibold',
+};
+
+const amount = (value: number, className = '') => (value ? <span className={className}>{formatCurrency(value)}</span> : '-');
+
+const sumOf = (key: AgingBucketKey | 'total') => (data: CustomerAging[]) =>
+  formatCurrency(data.reduce((sum, item) => sum + item[key], 0));
+
+const summaryConfig: SummaryConfig<CustomerAging> = {
+  values: {
+    ...Object.fromEntries(AGING_BUCKETS.map(({ key }) => [key, sumOf(key)])),
+    total: sumOf('total'),
+  },
+};
+
+const columns: ColumnDef<CustomerAging>[] = [
+  {
+    key: 'customerName',
+    header: 'ลูกค้า',
+    sortable: true,
+    align: 'left',
+    render: (item) => (
+      <div>
+        <div className="font-medium">{item.customerName}</div>
+        <div className="text-xs text-muted-foreground">
+          {item.customerCode} · {formatInteger(item.invoiceCount)} ใบ
+        </div>
+      </div>
+    ),
+  },
+  ...AGING_BUCKETS.map(({ key, label }): ColumnDef<CustomerAging> => ({
+    key,
+    header: label,
+    sortable: true,
+    align: 'right',
+    render: (item) => amount(item[key], bucketColors[key]),
+  })),
+  {
+    key: 'total',
+    header: 'รวมค้างชำระ',
+    sortable: true,
+    align: 'right',
+    render: (item) => <span className="font-medium">฿{formatCurrency(item.total)}</span>,
+  },
+  {
+    key: 'dso',
+    header: 'DSO (วัน)',
+    sortable: true,
+    align: 'right',
+    render: (item) => (item.dso === null ? '-' : item.dso.toLocaleString('th-TH')),
+  },
+  {
+    key: 'nextFollowUp',
+    header: 'ติดตาม / นัดชำระ',
+    align: 'center',
+    render: (item) => (
+      <div className="text-xs">
+        {item.nextFollowUp && <div>ติดตาม {formatDate(item.nextFollowUp)}</div>}
+        {item.promisedDate && <div className="text-blue-600">นัด {formatDate(item.promisedDate)}</div>}
+        {!item.nextFollowUp && !item.promisedDate && <span className="text-muted-foreground">-</span>}
+      </div>
+    ),
+  },
+];
+
+/**
+ * อายุหนี้ต่อลูกค้า กดที่แถวเพื่อเปิดใบแจ้งยอดและบันทึกการติดตาม
+ */
+export function CustomerAgingTable({ data, onSelect }: CustomerAgingTableProps) {
+  return (
+    <PaginatedTable
+      data={data}
+      columns={columns}
+      itemsPerPage={20}
+      emptyMessage="ไม่มีลูกหนี้ค้างชำระ"
+      defaultSortKey="total"
+      defaultSortOrder="desc"
+      keyExtractor={(item) => item.customerCode}
+      showSummary={true}
+      summaryConfig={summaryConfig}
+      onRowClick={onSelect}
+      rowClassName={() => 'cursor-pointer'}
+    />
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, FileSpreadsheet, FileText } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { exportStyledReport, type ReportBranchInfo } from '@/lib/exportExcel';
+import { exportStyledPdfReport } from '@/lib/exportPdf';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import {
+  CUSTOMER_STATEMENT_CURRENCY_COLUMNS,
+  CUSTOMER_STATEMENT_HEADERS,
+  customerStatementRows,
+  type CustomerStatementRow,
+} from '@/lib/receivables/receivables';
+import { AGING_BUCKETS, type CustomerStatement, type CustomerStatementLine } from '@/lib/receivables/types';
+import type { DateRange } from '@/lib/data/types';
+import { CollectionNotesPanel } from './CollectionNotesPanel';
+
+interface CustomerStatementPanelProps {
+  customerCode: string;
+  customerName: string;
+  dateRange: DateRange;
+  selectedBranches: string[];
+  /** ชื่อกิจการที่เลือก สำหรับหัวรายงาน */
+  branchLabel: string;
+  reportBranch?: ReportBranchInfo;
+  onBack: () => void;
+}
+
+const columns: ColumnDef<CustomerStatementLine>[] = [
+  {
+    key: 'date',
+    header: 'วันที่',
+    align: 'left',
+    render: (line) => formatDate(line.date),
+  },
+  {
+    key: 'docNo',
+    header: 'เลขที่เอกสาร',
+    align: 'left',
+    render: (line) => <span className="font-mono text-xs">{line.docNo}</span>,
+  },
+  {
+    key: 'kind',
+    header: 'รายการ',
+    align: 'left',
+    render: (line) =>
+      line.kind === 'invoice' ? 'ใบแจ้งหนี้' : <span className="text-green-600">รับชำระ</span>,
+  },
+  {
+    key: 'dueDate',
+    header: 'ครบกำหนด',
+    align: 'center',
+    render: (line) => (line.dueDate ? formatDate(line.dueDate) : ''),
+  },
+  {
+    key: 'debit',
+    header: 'ตั้งหนี้',
+    align: 'right',
+    render: (line) => (line.debit ? formatCurrency(line.debit) : ''),
+  },
+  {
+    key: 'credit',
+    header: 'รับชำระ',
+    align: 'right',
+    render: (line) => (line.credit ? formatCurrency(line.credit) : ''),
+  },
+  {
+    key: 'balance',
+    header: 'ยอดคงเหลือ',
+    align: 'right',
+    render: (line) => <span className="font-medium">{formatCurrency(line.balance)}</span>,
+  },
+];
+
+/**
+ * ใบแจ้งยอดลูกหนี้รายตัว: ยอดยกมา ใบแจ้งหนี้ รับชำระ อายุหนี้ปัจจุบัน และบันทึกการติดตาม
+ */
+export function CustomerStatementPanel({
+  customerCode,
+  customerName,
+  dateRange,
+  selectedBranches,
+  branchLabel,
+  reportBranch,
+  onBack,
+}: CustomerStatementPanelProps) {
+  const { data: statement, isLoading, error, refetch } = useQuery({
+    queryKey: ['customerStatement', customerCode, dateRange, selectedBranches],
+    queryFn: () => {
+      const params = new URLSearchParams({ start_date: dateRange.start, end_date: dateRange.end });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<CustomerStatement>(
+        `/api/accounting/receivables/${encodeURIComponent(customerCode)}/statement?${params}`
+      );
+    },
+  });
+
+  const exportOptions = (current: CustomerStatement) => ({
+    data: customerStatementRows(current),
+    headers: CUSTOMER_STATEMENT_HEADERS,
+    filename: `ใบแจ้งยอดลูกหนี้_${customerCode}`,
+    title: 'ใบแจ้งยอดลูกหนี้ (Customer Statement)',
+    subtitle: `ลูกค้า: ${current.customerName || customerName} (${customerCode}) | กิจการ: ${branchLabel} | ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`,
+    branch: reportBranch,
+    currencyColumns: CUSTOMER_STATEMENT_CURRENCY_COLUMNS,
+    rowStyle: (row: CustomerStatementRow) => row.style,
+  });
+
+  const aging = statement?.aging;
+  const summary = statement && [
+    { label: 'ยอดยกมา', value: statement.openingBalance },
+    { label: 'ตั้งหนี้ในช่วง', value: statement.lines.reduce((sum, line) => sum + line.debit, 0) },
+    { label: 'รับชำระในช่วง', value: statement.lines.reduce((sum, line) => sum + line.credit, 0) },
+    { label: 'ยอดคงเหลือ', value: statement.closingBalance },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-border hover:bg-muted"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          ลูกหนี้ทั้งหมด
+        </button>
+        <h3 className="font-semibold">
+          {statement?.customerName || customerName} <span className="font-mono text-sm text-muted-foreground">{customerCode}</span>
+        </h3>
+        {statement && (
+          <div className="ml-auto flex gap-2">
+            <button
+              type="button"
+              onClick={() => exportStyledReport({ ...exportOptions(statement), sheetName: 'ใบแจ้งยอด' })}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-border hover:bg-muted"
+            >
+              <FileSpreadsheet className="h-4 w-4 text-green-600" />
+              Excel
+            </button>
+            <button
+              type="button"
+              onClick={() => exportStyledPdfReport(exportOptions(statement))}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-border hover:bg-muted"
+            >
+              <FileText className="h-4 w-4 text-red-600" />
+              PDF
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      {summary && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {summary.map((item) => (
+            <div key={item.label} className="rounded-lg border border-border p-3">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="font-semibold">฿{formatCurrency(item.value)}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {aging && (
+        <div className="grid grid-cols-2 sm:grid-cols-6 gap-3">
+          {AGING_BUCKETS.map(({ key, label }) => (
+            <div key={key} className="rounded-lg bg-muted/40 p-3">
+              <p className="text-xs text-muted-foreground">{label}</p>
+              <p className="text-sm font-medium">{formatCurrency(aging[key])}</p>
+            </div>
+          ))}
+          <div className="rounded-lg bg-muted/40 p-3">
+            <p className="text-xs text-muted-foreground">DSO</p>
+            <p className="text-sm font-medium">
+              {aging.dso === null ? '-' : `${aging.dso.toLocaleString('th-TH')} วัน`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <TableSkeleton rows={10} />
+      ) : (
+        <PaginatedTable
+          data={statement?.lines || []}
+          columns={columns}
+          itemsPerPage={50}
+          emptyMessage="ไม่มีรายการในช่วงวันที่นี้"
+          keyExtractor={(line, index) => `${line.kind}-${line.docNo}-${index}`}
+        />
+      )}
+
+      <CollectionNotesPanel
+        customerCode={customerCode}
+        customerName={statement?.customerName || customerName}
+        selectedBranches={selectedBranches}
+      />
+    </div>
+  );
+}
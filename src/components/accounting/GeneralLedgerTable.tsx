@@ -0,0 +1,150 @@
+'use client';
+
+import { useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { TableSkeleton } from '@/components/LoadingSkeleton';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { formatCurrency, formatDate, formatDebitCredit } from '@/lib/formatters';
+import type { DateRange, GeneralLedger, GeneralLedgerLine } from '@/lib/data/types';
+
+interface GeneralLedgerTableProps {
+  accountCode: string;
+  dateRange: DateRange;
+  selectedBranches: string[];
+  onBack: () => void;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const columns: ColumnDef<GeneralLedgerLine>[] = [
+  {
+    key: 'docDate',
+    header: 'วันที่',
+    align: 'left',
+    render: (line) => formatDate(line.docDate),
+  },
+  {
+    key: 'docNo',
+    header: 'เลขที่เอกสาร',
+    align: 'left',
+    render: (line) => <span className="font-mono text-xs">{line.docNo}</span>,
+  },
+  {
+    key: 'bookName',
+    header: 'สมุดรายวัน',
+    align: 'left',
+    render: (line) => line.bookName || line.bookCode,
+  },
+  {
+    key: 'periodNumber',
+    header: 'งวด',
+    align: 'center',
+    render: (line) => `${line.periodNumber}/${line.accountYear}`,
+  },
+  {
+    key: 'branchName',
+    header: 'กิจการ',
+    align: 'left',
+  },
+  {
+    key: 'debit',
+    header: 'เดบิต',
+    align: 'right',
+    render: (line) => (line.debit ? formatCurrency(line.debit) : ''),
+  },
+  {
+    key: 'credit',
+    header: 'เครดิต',
+    align: 'right',
+    render: (line) => (line.credit ? formatCurrency(line.credit) : ''),
+  },
+  {
+    key: 'balance',
+    header: 'ยอดคงเหลือ',
+    align: 'right',
+    render: (line) => <span className="font-medium">{formatDebitCredit(line.balance)}</span>,
+  },
+];
+
+/**
+ * บัญชีแยกประเภท: ทุกรายการของบัญชีในช่วงวันที่พร้อมยอดคงเหลือสะสม แบ่งหน้าที่ server
+ */
+export function GeneralLedgerTable({ accountCode, dateRange, selectedBranches, onBack }: GeneralLedgerTableProps) {
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+
+  const { data: ledger, isLoading, error, refetch } = useQuery({
+    queryKey: ['generalLedger', accountCode, dateRange, selectedBranches, page, pageSize],
+    queryFn: () => {
+      const params = new URLSearchParams({
+        start_date: dateRange.start,
+        end_date: dateRange.end,
+        page: String(page),
+        page_size: String(pageSize),
+      });
+      if (!selectedBranches.includes('ALL')) {
+        selectedBranches.forEach((b) => params.append('branch', b));
+      }
+      return requestJson<GeneralLedger>(`/api/reports/accounting/${encodeURIComponent(accountCode)}?${params}`);
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  const summary = ledger && [
+    { label: 'ยอดยกมา', value: formatDebitCredit(ledger.opening) },
+    { label: 'เดบิตรวม', value: formatCurrency(ledger.totalDebit) },
+    { label: 'เครดิตรวม', value: formatCurrency(ledger.totalCredit) },
+    { label: 'ยอดคงเหลือ', value: formatDebitCredit(ledger.closing) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md border border-border hover:bg-muted"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          งบทดลอง
+        </button>
+        <h3 className="font-semibold">
+          <span className="font-mono">{accountCode}</span> {ledger?.accountName}
+        </h3>
+      </div>
+
+      {error && <ErrorDisplay error={error} onRetry={() => refetch()} />}
+
+      {summary && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {summary.map((item) => (
+            <div key={item.label} className="rounded-lg border border-border p-3">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="font-semibold">฿{item.value}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <TableSkeleton rows={10} />
+      ) : (
+        <PaginatedTable
+          data={ledger?.lines || []}
+          columns={columns}
+          itemsPerPage={DEFAULT_PAGE_SIZE}
+          emptyMessage="ไม่มีรายการในช่วงวันที่นี้"
+          keyExtractor={(line, index) => `${line.docNo}-${index}`}
+          manualPagination={true}
+          totalItems={ledger?.total || 0}
+          currentPage={page}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { formatCurrency } from '@/lib/formatters';
+import type { Statement, StatementColumn, StatementLine } from '@/lib/statements/types';
+
+interface StatementLayoutTableProps {
+  statement: Statement | null | undefined;
+  loading?: boolean;
+}
+
+const cellCls = 'px-4 py-2 text-right tabular-nums text-sm whitespace-nowrap min-w-[130px]';
+
+/** สีของผลต่าง: เพิ่มขึ้นดี (รายได้/กำไร) หรือเพิ่มขึ้นแย่ (ค่าใช้จ่าย) */
+function varianceClass(value: number, line: StatementLine): string {
+  if (value === 0) return '';
+  const favourable = line.adverseIncrease ? value < 0 : value > 0;
+  return favourable ? 'text-green-600' : 'text-red-600';
+}
+
+function formatValue(value: number | null | undefined, column: StatementColumn): string {
+  if (value === null || value === undefined || value === 0) return '-';
+  if (column.kind === 'variance-pct') return `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+  if (column.kind === 'variance') return `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+  return formatCurrency(value);
+}
+
+/** เส้นแบ่งก่อนคอลัมน์รวมและกลุ่มผลต่าง */
+function columnBorder(column: StatementColumn, index: number, columns: StatementColumn[]): string {
+  const previous = columns[index - 1];
+  const startsGroup = column.kind === 'amount'
+    ? column.emphasis || previous?.kind !== 'amount'
+    : previous?.kind === 'amount';
+  return startsGroup && index > 0 ? 'border-l border-border/40' : '';
+}
+
+/**
+ * งบการเงินหลายคอลัมน์ (รายเดือน รายไตรมาส สะสมต้นปี เทียบปีก่อน) จาก /api/accounting/statement
+ */
+export function StatementLayoutTable({ statement, loading }: StatementLayoutTableProps) {
+  if (loading) {
+    return (
+      <div className="space-y-2 py-4">
+        {[...Array(12)].map((_, i) => (
+          <div key={i} className="h-8 bg-muted animate-pulse rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!statement || statement.lines.every((line) => line.kind !== 'account')) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground text-sm">
+        ไม่มีข้อมูลงบการเงินในช่วงที่เลือก
+      </div>
+    );
+  }
+
+  const { columns, lines } = statement;
+
+  const renderCells = (line: StatementLine, textCls: string) =>
+    columns.map((column, index) => {
+      const value = line.values[column.key];
+      const emphasis = column.kind === 'amount' && column.emphasis ? 'font-medium bg-muted/10' : '';
+      const color = column.kind === 'amount'
+        ? (value ?? 0) < 0 ? 'text-destructive' : ''
+        : varianceClass(value ?? 0, line);
+      return (
+        <td key={column.key} className={`${cellCls} ${textCls} ${emphasis} ${color} ${columnBorder(column, index, columns)}`}>
+          {formatValue(value, column)}
+        </td>
+      );
+    });
+
+  return (
+    <div className="overflow-auto w-full">
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b border-border text-xs text-muted-foreground">
+            <th className="sticky left-0 z-10 px-12 py-3 text-center font-medium min-w-[300px] bg-background">รายการ</th>
+            {columns.map((column, index) => (
+              <th key={column.key} className={`${cellCls} font-medium py-3 ${columnBorder(column, index, columns)}`}>
+                <span className={column.kind === 'amount' && column.emphasis ? 'font-semibold text-foreground' : ''}>
+                  {column.label}
+                </span>
+                {column.kind === 'amount' && (
+                  <span className="block text-[10px] font-normal text-muted-foreground/80">{column.period}</span>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+
+        <tbody>
+          {lines.map((line, index) => {
+            switch (line.kind) {
+              case 'section':
+                return (
+                  <tr key={index} className="border-b border-border">
+                    <td
+                      colSpan={columns.length + 1}
+                      className="sticky left-0 px-4 py-2 font-semibold text-foreground text-xs uppercase tracking-wider bg-background"
+                    >
+                      {line.label}
+                    </td>
+                  </tr>
+                );
+              case 'account':
+                return (
+                  <tr key={index} className="border-b border-border/40 hover:bg-muted/20 transition-colors">
+                    <td className="sticky left-0 z-10 px-12 py-2 text-sm min-w-[300px] bg-background">
+                      <span className="text-foreground">{line.label}</span>
+                      {line.accountCode && (
+                        <span className="block text-xs text-muted-foreground font-mono">{line.accountCode}</span>
+                      )}
+                    </td>
+                    {renderCells(line, '')}
+                  </tr>
+                );
+              case 'subtotal':
+                return (
+                  <tr key={index} className="bg-muted/7 border-b border-border">
+                    <td className="sticky left-0 z-10 bg-muted/5 px-6 py-2 text-xs font-bold text-foreground/100">
+                      {line.label}
+                    </td>
+                    {renderCells(line, 'text-xs font-bold')}
+                  </tr>
+                );
+              case 'total':
+                return (
+                  <tr key={index} className="border-t border-border font-bold">
+                    <td className="sticky left-0 z-10 px-4 py-3 text-sm bg-background">{line.label}</td>
+                    {renderCells(line, 'py-3')}
+                  </tr>
+                );
+            }
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
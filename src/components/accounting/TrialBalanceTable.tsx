@@ -0,0 +1,98 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { formatCurrency, formatDebitCredit } from '@/lib/formatters';
+import type { TrialBalanceItem } from '@/lib/data/types';
+
+interface TrialBalanceTableProps {
+  data: TrialBalanceItem[];
+  /** กดที่บัญชีเพื่อดูบัญชีแยกประเภท */
+  onSelectAccount: (accountCode: string) => void;
+}
+
+const sum = (data: TrialBalanceItem[], key: 'opening' | 'debit' | 'credit' | 'closing') =>
+  data.reduce((total, item) => total + item[key], 0);
+
+/**
+ * งบทดลอง: ยอดยกมา เดบิต เครดิต และยอดคงเหลือต่อบัญชี
+ */
+export function TrialBalanceTable({ data, onSelectAccount }: TrialBalanceTableProps) {
+  const difference = Math.round((sum(data, 'debit') - sum(data, 'credit')) * 100) / 100;
+
+  const columns: ColumnDef<TrialBalanceItem>[] = [
+    {
+      key: 'accountCode',
+      header: 'รหัสบัญชี',
+      sortable: true,
+      align: 'left',
+      render: (item) => <span className="font-mono text-xs">{item.accountCode}</span>,
+    },
+    {
+      key: 'accountName',
+      header: 'ชื่อบัญชี',
+      sortable: true,
+      align: 'left',
+      render: (item) => <span className="text-blue-600 hover:underline dark:text-blue-400">{item.accountName}</span>,
+    },
+    {
+      key: 'opening',
+      header: 'ยอดยกมา',
+      sortable: true,
+      align: 'right',
+      render: (item) => formatDebitCredit(item.opening),
+    },
+    {
+      key: 'debit',
+      header: 'เดบิต',
+      sortable: true,
+      align: 'right',
+      render: (item) => formatCurrency(item.debit),
+    },
+    {
+      key: 'credit',
+      header: 'เครดิต',
+      sortable: true,
+      align: 'right',
+      render: (item) => formatCurrency(item.credit),
+    },
+    {
+      key: 'closing',
+      header: 'ยอดคงเหลือ',
+      sortable: true,
+      align: 'right',
+      render: (item) => <span className="font-medium">{formatDebitCredit(item.closing)}</span>,
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {difference !== 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-300/60 bg-red-50/60 dark:bg-red-950/20 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-red-600 flex-shrink-0" />
+          <p>ยอดเดบิตและเครดิตในช่วงนี้ไม่เท่ากัน ต่างกัน ฿{formatCurrency(difference)}</p>
+        </div>
+      )}
+      <PaginatedTable
+        data={data}
+        columns={columns}
+        itemsPerPage={25}
+        emptyMessage="ไม่มีข้อมูลงบทดลอง"
+        defaultSortKey="accountCode"
+        defaultSortOrder="asc"
+        keyExtractor={(item) => item.accountCode}
+        onRowClick={(item) => onSelectAccount(item.accountCode)}
+        showSummary={true}
+        summaryConfig={{
+          labelColSpan: 2,
+          values: {
+            opening: (rows) => <span className="font-bold">{formatDebitCredit(sum(rows, 'opening'))}</span>,
+            debit: (rows) => <span className="font-bold">{formatCurrency(sum(rows, 'debit'))}</span>,
+            credit: (rows) => <span className="font-bold">{formatCurrency(sum(rows, 'credit'))}</span>,
+            closing: (rows) => <span className="font-bold">{formatDebitCredit(sum(rows, 'closing'))}</span>,
+          },
+        }}
+      />
+    </div>
+  );
+}
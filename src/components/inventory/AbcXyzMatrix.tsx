@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+import { formatCurrency } from '@/lib/formatters';
+import { EMPTY_CLASS_FILTER } from '@/lib/inventory/classification';
+import {
+  ABC_CLASSES,
+  CLASSIFICATION_METRICS,
+  XYZ_CLASSES,
+  type ClassFilter,
+  type ClassificationCell,
+  type ClassificationMetric,
+} from '@/lib/inventory/types';
+
+interface AbcXyzMatrixProps {
+  matrix: ClassificationCell[];
+  metric: ClassificationMetric;
+  filter: ClassFilter;
+  onSelect: (filter: ClassFilter) => void;
+  height?: string;
+}
+
+/** A อยู่บนสุด */
+const ABC_ROWS = [...ABC_CLASSES].reverse();
+
+/**
+ * ตาราง 3×3 ABC (แถว) × XYZ (คอลัมน์) สีเข้มตามมูลค่า กดที่ช่องเพื่อกรองรายการ กดซ้ำเพื่อยกเลิก
+ */
+export function AbcXyzMatrix({ matrix, metric, filter, onSelect, height = '360px' }: AbcXyzMatrixProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+
+    const chart = echarts.init(chartRef.current);
+    const metricLabel = CLASSIFICATION_METRICS.find((m) => m.key === metric)?.label ?? '';
+    const maxValue = Math.max(1, ...matrix.map((cell) => cell.value));
+    const cellAt = (x: number, y: number) =>
+      matrix.find((cell) => cell.xyzClass === XYZ_CLASSES[x].key && cell.abcClass === ABC_ROWS[y].key);
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        formatter: (params) => {
+          const [x, y] = (params as { value: number[] }).value;
+          const cell = cellAt(x, y);
+          if (!cell) return '';
+          return `<div>
+            <div style="font-weight: bold; margin-bottom: 4px;">กลุ่ม ${cell.abcClass}${cell.xyzClass}</div>
+            <div>${ABC_ROWS[y].description} · ${XYZ_CLASSES[x].description}</div>
+            <div>${cell.itemCount.toLocaleString('th-TH')} รายการ</div>
+            <div>${metricLabel} ฿${formatCurrency(cell.value)}</div>
+          </div>`;
+        },
+      },
+      grid: { left: 40, right: 10, top: 10, bottom: 30 },
+      xAxis: { type: 'category', data: XYZ_CLASSES.map((c) => c.label), splitArea: { show: true } },
+      yAxis: { type: 'category', data: ABC_ROWS.map((c) => c.label), splitArea: { show: true } },
+      visualMap: { show: false, min: 0, max: maxValue, inRange: { color: ['#eff6ff', '#1d4ed8'] } },
+      series: [
+        {
+          name: 'ABC/XYZ',
+          type: 'heatmap',
+          data: XYZ_CLASSES.flatMap((xyz, x) =>
+            ABC_ROWS.map((abc, y) => {
+              const cell = cellAt(x, y);
+              const selected = filter.abcClass === abc.key && filter.xyzClass === xyz.key;
+              return {
+                value: [x, y, cell?.value ?? 0],
+                itemStyle: selected ? { borderColor: '#f97316', borderWidth: 3 } : { borderColor: '#fff', borderWidth: 2 },
+              };
+            })
+          ),
+          label: {
+            show: true,
+            formatter: (params) => {
+              const [x, y] = (params as { value: number[] }).value;
+              const cell = cellAt(x, y);
+              return `${ABC_ROWS[y].key}${XYZ_CLASSES[x].key}\n${(cell?.itemCount ?? 0).toLocaleString('th-TH')} รายการ`;
+            },
+          },
+          emphasis: { itemStyle: { shadowBlur: 8, shadowColor: 'rgba(0, 0, 0, 0.3)' } },
+        },
+      ],
+    };
+
+    chart.setOption(option);
+
+    chart.on('click', (params) => {
+      const [x, y] = params.value as number[];
+      const abcClass = ABC_ROWS[y].key;
+      const xyzClass = XYZ_CLASSES[x].key;
+      const isSelected = filter.abcClass === abcClass && filter.xyzClass === xyzClass;
+      onSelect(isSelected ? EMPTY_CLASS_FILTER : { abcClass, xyzClass });
+    });
+
+    const resizeObserver = new ResizeObserver(() => { if (!chart.isDisposed()) chart.resize(); });
+    resizeObserver.observe(chartRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.off('click');
+      chart.dispose();
+    };
+  }, [matrix, metric, filter, onSelect]);
+
+  return <div ref={chartRef} style={{ height, width: '100%' }} />;
+}
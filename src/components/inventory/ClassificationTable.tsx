@@ -0,0 +1,138 @@
+'use client';
+
+import { RotateCcw } from 'lucide-react';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { formatCurrency, formatNumber, formatPercent } from '@/lib/formatters';
+import { EMPTY_CLASS_FILTER, isClassFilterActive, matchesClassFilter } from '@/lib/inventory/classification';
+import {
+  ABC_CLASSES,
+  XYZ_CLASSES,
+  type ClassFilter,
+  type ItemClassification,
+} from '@/lib/inventory/types';
+
+interface ClassificationTableProps {
+  items: ItemClassification[];
+  filter: ClassFilter;
+  onFilterChange: (filter: ClassFilter) => void;
+}
+
+const ABC_COLORS: Record<string, string> = {
+  A: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/40 dark:text-emerald-400',
+  B: 'bg-amber-100 text-amber-700 dark:bg-amber-950/40 dark:text-amber-400',
+  C: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const toggleClass = (active: boolean) => `px-3 py-2 text-sm ${active ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`;
+
+/**
+ * รายการสินค้าตามกลุ่ม ABC/XYZ ที่เลือก (จากตารางหรือปุ่มกรอง)
+ */
+export function ClassificationTable({ items, filter, onFilterChange }: ClassificationTableProps) {
+  const filteredItems = items.filter((item) => matchesClassFilter(item, filter));
+
+  const columns: ColumnDef<ItemClassification>[] = [
+    {
+      key: 'abcClass',
+      header: 'กลุ่ม',
+      align: 'center',
+      sortable: true,
+      render: (item) => (
+        <span className={`inline-block rounded px-1.5 py-0.5 text-xs font-semibold ${ABC_COLORS[item.abcClass]}`}>
+          {item.abcClass}{item.xyzClass}
+        </span>
+      ),
+    },
+    {
+      key: 'itemName',
+      header: 'สินค้า',
+      align: 'left',
+      sortable: true,
+      render: (item) => (
+        <div>
+          <p className="font-medium">{item.itemName}</p>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-mono">{item.itemCode}</span>
+            {item.categoryName && ` • ${item.categoryName}`}
+          </p>
+        </div>
+      ),
+    },
+    { key: 'salesValue', header: 'ยอดขาย', align: 'right', sortable: true, render: (item) => `฿${formatCurrency(item.salesValue)}` },
+    { key: 'grossProfit', header: 'กำไรขั้นต้น', align: 'right', sortable: true, render: (item) => `฿${formatCurrency(item.grossProfit)}` },
+    {
+      key: 'cumulativeShare',
+      header: 'สัดส่วนสะสม',
+      align: 'right',
+      sortable: true,
+      render: (item) => (
+        <div>
+          <p>{formatPercent(item.cumulativeShare * 100)}</p>
+          <p className="text-xs text-muted-foreground">{formatPercent(item.share * 100)}</p>
+        </div>
+      ),
+    },
+    { key: 'avgWeeklyDemand', header: 'จ่ายเฉลี่ย/สัปดาห์', align: 'right', sortable: true, render: (item) => formatNumber(item.avgWeeklyDemand) },
+    {
+      key: 'demandCv',
+      header: 'CV',
+      align: 'right',
+      sortable: true,
+      render: (item) => (item.demandCv === null ? '-' : formatNumber(item.demandCv)),
+    },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="inline-flex rounded-md border border-border overflow-hidden">
+          {ABC_CLASSES.map(({ key, description }) => (
+            <button
+              key={key}
+              type="button"
+              title={description}
+              onClick={() => onFilterChange({ ...filter, abcClass: filter.abcClass === key ? null : key })}
+              className={toggleClass(filter.abcClass === key)}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+        <div className="inline-flex rounded-md border border-border overflow-hidden">
+          {XYZ_CLASSES.map(({ key, description }) => (
+            <button
+              key={key}
+              type="button"
+              title={description}
+              onClick={() => onFilterChange({ ...filter, xyzClass: filter.xyzClass === key ? null : key })}
+              className={toggleClass(filter.xyzClass === key)}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+        {isClassFilterActive(filter) && (
+          <button
+            type="button"
+            title="ล้างตัวกรอง"
+            onClick={() => onFilterChange(EMPTY_CLASS_FILTER)}
+            className="p-2 rounded-md hover:bg-muted"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </button>
+        )}
+        <p className="text-sm text-muted-foreground ml-auto">
+          {filteredItems.length.toLocaleString('th-TH')} จาก {items.length.toLocaleString('th-TH')} รายการ
+        </p>
+      </div>
+
+      <PaginatedTable
+        data={filteredItems}
+        columns={columns}
+        itemsPerPage={10}
+        emptyMessage="ไม่มีสินค้าในกลุ่มนี้"
+        keyExtractor={(item) => item.itemCode}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { PaginatedTable, type ColumnDef } from '../PaginatedTable';
+import { VALUATION_METHODS, type InventoryValuation, type ItemValuation, type ValuationMethod, type WarehouseValuation } from '@/lib/inventory/types';
+import { methodValue } from '@/lib/inventory/valuation';
+
+interface InventoryValuationReportProps {
+  valuation: InventoryValuation | null | undefined;
+  /** วิธีที่ใช้เทียบกับยอดบัญชี */
+  method: ValuationMethod;
+  branchName: (key: string) => string;
+}
+
+const diffCls = (amount: number) => (Math.abs(amount) < 0.005 ? 'text-muted-foreground' : amount < 0 ? 'text-red-600' : 'text-amber-600');
+
+const valueColumns = <T extends WarehouseValuation | ItemValuation>(method: ValuationMethod): ColumnDef<T>[] =>
+  VALUATION_METHODS.map(({ key, label, field }) => ({
+    key: field,
+    header: label,
+    sortable: true,
+    align: 'right' as const,
+    render: (item: T) => (
+      <span className={cn('tabular-nums', key === method && 'font-medium text-blue-600')}>฿{formatCurrency(item[field])}</span>
+    ),
+  }));
+
+/**
+ * รายงานตีราคาสินค้าคงเหลือ: กระทบยอดกับบัญชีสินค้าคงเหลือต่อกิจการ (กดเพื่อดูรายบัญชี)
+ * ตามด้วยมูลค่าแต่ละวิธีต่อคลังและสินค้าที่มูลค่าสูงสุด
+ */
+export function InventoryValuationReport({ valuation, method, branchName }: InventoryValuationReportProps) {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  if (!valuation) {
+    return <p className="py-8 text-center text-muted-foreground">ไม่มีข้อมูลการตีราคาสินค้า</p>;
+  }
+
+  const toggle = (key: string) =>
+    setExpanded((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  const methodLabel = VALUATION_METHODS.find((m) => m.key === method)?.label;
+  const noAccounts = valuation.reconciliation.every((row) => row.accounts.length === 0);
+
+  const warehouseColumns: ColumnDef<WarehouseValuation>[] = [
+    { key: 'branchSync', header: 'กิจการ', sortable: true, align: 'left', render: (item) => branchName(item.branchSync) },
+    {
+      key: 'whName',
+      header: 'คลัง',
+      sortable: true,
+      align: 'left',
+      render: (item) => (
+        <div>
+          <div className="font-medium">{item.whName}</div>
+          <div className="text-xs text-muted-foreground">{item.whCode}</div>
+        </div>
+      ),
+    },
+    { key: 'itemCount', header: 'จำนวนรายการ', sortable: true, align: 'right', render: (item) => formatNumber(item.itemCount) },
+    { key: 'qtyOnHand', header: 'คงเหลือ', sortable: true, align: 'right', render: (item) => formatNumber(item.qtyOnHand) },
+    ...valueColumns<WarehouseValuation>(method),
+  ];
+
+  const itemColumns: ColumnDef<ItemValuation>[] = [
+    {
+      key: 'itemName',
+      header: 'สินค้า',
+      sortable: true,
+      align: 'left',
+      render: (item) => (
+        <div>
+          <div className="font-medium">{item.itemName}</div>
+          <div className="text-xs text-muted-foreground font-mono">{item.itemCode}</div>
+        </div>
+      ),
+    },
+    { key: 'whName', header: 'คลัง', sortable: true, align: 'left' },
+    {
+      key: 'qtyOnHand',
+      header: 'คงเหลือ',
+      sortable: true,
+      align: 'right',
+      render: (item) => (
+        <span className={cn(item.shortageQty > 0 && 'text-red-600')} title={item.shortageQty > 0 ? `จ่ายเกิน ${formatNumber(item.shortageQty)}` : undefined}>
+          {formatNumber(item.qtyOnHand)}
+        </span>
+      ),
+    },
+    ...valueColumns<ItemValuation>(method),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {noAccounts && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-300/60 bg-amber-50/50 dark:bg-amber-950/20 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-600 flex-shrink-0" />
+          <div>
+            <p>ไม่พบบัญชีสินค้าคงเหลือ ระบบใช้บัญชีที่จัดไว้ในบรรทัด &quot;(เพิ่มขึ้น) ลดลงในสินค้าคงเหลือ&quot; ของผังกระแสเงินสด</p>
+            <Link href="/settings/cash-flow-mapping" className="text-primary hover:underline">
+              ตั้งค่าผังกระแสเงินสด
+            </Link>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+              <th className="py-2 px-4 font-medium">กิจการ</th>
+              {VALUATION_METHODS.map(({ key, label }) => (
+                <th key={key} className={cn('py-2 px-4 font-medium text-right', key === method && 'text-foreground')}>{label}</th>
+              ))}
+              <th className="py-2 px-4 font-medium text-right">ยอดบัญชี</th>
+              <th className="py-2 px-4 font-medium text-right">ผลต่าง ({methodLabel} - บัญชี)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {valuation.reconciliation.map((row) => {
+              const isOpen = expanded.includes(row.branchSync);
+              const difference = methodValue(row, method) - row.ledgerValue;
+              return [
+                <tr
+                  key={row.branchSync}
+                  onClick={row.accounts.length ? () => toggle(row.branchSync) : undefined}
+                  className={cn('border-b border-border/40', row.accounts.length && 'cursor-pointer hover:bg-muted/20')}
+                >
+                  <td className="py-2 px-4">
+                    <span className="inline-flex items-center gap-1">
+                      {row.accounts.length ? (
+                        isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />
+                      ) : null}
+                      {branchName(row.branchSync)}
+                    </span>
+                  </td>
+                  {VALUATION_METHODS.map(({ key, field }) => (
+                    <td key={key} className={cn('py-2 px-4 text-right tabular-nums', key === method && 'font-medium')}>
+                      {formatCurrency(row[field])}
+                    </td>
+                  ))}
+                  <td className="py-2 px-4 text-right tabular-nums">{formatCurrency(row.ledgerValue)}</td>
+                  <td className={cn('py-2 px-4 text-right tabular-nums font-medium', diffCls(difference))}>{formatCurrency(difference)}</td>
+                </tr>,
+                ...(isOpen
+                  ? row.accounts.map((account) => (
+                      <tr key={`${row.branchSync}-${account.accountCode}`} className="border-b border-border/20 text-xs text-muted-foreground">
+                        <td colSpan={VALUATION_METHODS.length + 1} className="py-1.5 px-4 pl-10">
+                          <span className="font-mono">{account.accountCode}</span> {account.accountName}
+                        </td>
+                        <td className="py-1.5 px-4 text-right tabular-nums">{formatCurrency(account.balance)}</td>
+                        <td />
+                      </tr>
+                    ))
+                  : []),
+              ];
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">มูลค่าตามคลัง</h3>
+        <PaginatedTable
+          data={valuation.warehouses}
+          columns={warehouseColumns}
+          itemsPerPage={10}
+          emptyMessage="ไม่มีสินค้าคงเหลือ"
+          keyExtractor={(item) => `${item.branchSync}|${item.whCode}`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">สินค้าที่มูลค่า FIFO สูงสุด</h3>
+        <PaginatedTable
+          data={valuation.items}
+          columns={itemColumns}
+          itemsPerPage={15}
+          emptyMessage="ไม่มีสินค้าคงเหลือ"
+          keyExtractor={(item) => `${item.branchSync}|${item.whCode}|${item.itemCode}`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Save, X } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import { LEAD_TIME_SOURCE_LABELS } from '@/lib/replenishment/plan';
+import type { ReplenishmentLine } from '@/lib/replenishment/types';
+
+interface ReplenishmentTableProps {
+  lines: ReplenishmentLine[];
+  branchName: (key: string) => string;
+}
+
+export const REPLENISHMENT_QUERY_KEY = ['replenishment'];
+
+const inputClass = 'px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+const lineKey = (line: ReplenishmentLine) => `${line.branchSync}|${line.whCode}|${line.itemCode}`;
+
+/**
+ * จุดสั่งซื้อรายสินค้าและคลัง เลือกหลายรายการเพื่อกำหนดระยะเวลารอสินค้า/ยอดสั่งขั้นต่ำ
+ * ค่าที่กำหนดใช้กับสินค้านั้นทุกคลังของกิจการ
+ */
+export function ReplenishmentTable({ lines, branchName }: ReplenishmentTableProps) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [leadTimeDays, setLeadTimeDays] = useState('');
+  const [minOrderQty, setMinOrderQty] = useState('');
+  const [note, setNote] = useState('');
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: REPLENISHMENT_QUERY_KEY });
+
+  const save = useMutation({
+    mutationFn: () => {
+      const items = new Map<string, { branchSync: string; itemCode: string }>();
+      for (const line of lines) {
+        if (selected.has(lineKey(line))) {
+          items.set(`${line.branchSync}|${line.itemCode}`, { branchSync: line.branchSync, itemCode: line.itemCode });
+        }
+      }
+      return requestJson<{ saved: number }>('/api/inventory/replenishment/overrides', {
+        method: 'PUT',
+        body: JSON.stringify({
+          items: [...items.values()].map((item) => ({ ...item, leadTimeDays, minOrderQty, note })),
+        }),
+      });
+    },
+    onSuccess: () => {
+      setSelected(new Set());
+      setLeadTimeDays('');
+      setMinOrderQty('');
+      setNote('');
+      invalidate();
+    },
+  });
+
+  const clear = useMutation({
+    mutationFn: (line: ReplenishmentLine) => {
+      const params = new URLSearchParams({ branch_sync: line.branchSync, item_code: line.itemCode });
+      return requestJson<void>(`/api/inventory/replenishment/overrides?${params}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidate,
+  });
+
+  const mutationError = save.error || clear.error;
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelected(next);
+  };
+
+  const columns: ColumnDef<ReplenishmentLine>[] = [
+    {
+      key: 'select',
+      header: 'เลือก',
+      align: 'center',
+      render: (line) => (
+        <input
+          type="checkbox"
+          aria-label={`เลือก ${line.itemCode}`}
+          checked={selected.has(lineKey(line))}
+          onChange={() => toggle(lineKey(line))}
+        />
+      ),
+    },
+    {
+      key: 'itemName',
+      header: 'สินค้า',
+      align: 'left',
+      sortable: true,
+      render: (line) => (
+        <div>
+          <p className="font-medium">{line.itemName}</p>
+          <p className="text-xs text-muted-foreground font-mono">{line.itemCode}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'whName',
+      header: 'คลัง',
+      align: 'left',
+      sortable: true,
+      render: (line) => (
+        <div>
+          <p>{line.whName}</p>
+          <p className="text-xs text-muted-foreground">{branchName(line.branchSync)}</p>
+        </div>
+      ),
+    },
+    { key: 'qtyOnHand', header: 'คงเหลือ', align: 'right', sortable: true, render: (line) => formatNumber(line.qtyOnHand) },
+    {
+      key: 'avgDailyDemand',
+      header: 'ขายเฉลี่ย/วัน',
+      align: 'right',
+      sortable: true,
+      render: (line) => (
+        <div>
+          <p>{formatNumber(line.avgDailyDemand)}</p>
+          <p className="text-xs text-muted-foreground">±{formatNumber(line.demandStdDev)}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'leadTimeDays',
+      header: 'รอสินค้า (วัน)',
+      align: 'right',
+      sortable: true,
+      render: (line) => (
+        <div>
+          <p>{formatNumber(line.leadTimeDays)}</p>
+          <p className="text-xs text-muted-foreground">{LEAD_TIME_SOURCE_LABELS[line.leadTimeSource]}</p>
+        </div>
+      ),
+    },
+    { key: 'safetyStock', header: 'สต็อกเผื่อ', align: 'right', sortable: true, render: (line) => formatNumber(line.safetyStock) },
+    { key: 'reorderPoint', header: 'จุดสั่งซื้อ', align: 'right', sortable: true, render: (line) => formatNumber(line.reorderPoint) },
+    {
+      key: 'daysOfCover',
+      header: 'พอขาย (วัน)',
+      align: 'right',
+      sortable: true,
+      render: (line) => (
+        <span className={line.qtyOnHand <= line.reorderPoint ? 'text-red-600 font-medium' : ''}>{formatNumber(line.daysOfCover)}</span>
+      ),
+    },
+    {
+      key: 'suggestedQty',
+      header: 'แนะนำสั่ง',
+      align: 'right',
+      sortable: true,
+      render: (line) =>
+        line.suggestedQty > 0 ? (
+          <div>
+            <p className="font-medium">{formatNumber(line.suggestedQty)}</p>
+            <p className="text-xs text-muted-foreground">฿{formatCurrency(line.suggestedValue)}</p>
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'override',
+      header: 'กำหนดเอง',
+      align: 'left',
+      render: (line) =>
+        line.override && (
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground flex-1">
+              {line.override.leadTimeDays != null && `รอ ${formatNumber(line.override.leadTimeDays)} วัน `}
+              {line.override.minOrderQty != null && `ขั้นต่ำ ${formatNumber(line.override.minOrderQty)} `}
+              {line.override.note && `· ${line.override.note}`}
+            </span>
+            <button
+              type="button"
+              title="ใช้ค่าที่คำนวณ"
+              onClick={() => clear.mutate(line)}
+              disabled={clear.isPending}
+              className="p-1 rounded-md hover:bg-muted disabled:opacity-50"
+            >
+              <X className="h-4 w-4 text-red-600" />
+            </button>
+          </div>
+        ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {mutationError && <ErrorDisplay error={mutationError} />}
+
+      <form
+        className="flex flex-wrap items-end gap-3 rounded-lg border border-border p-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save.mutate();
+        }}
+      >
+        <p className="text-sm flex-1 min-w-[200px]">
+          เลือกแล้ว <span className="font-semibold">{selected.size.toLocaleString('th-TH')}</span> รายการ
+        </p>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>ระยะเวลารอสินค้า (วัน)</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={leadTimeDays}
+            onChange={(e) => setLeadTimeDays(e.target.value)}
+            className={`${inputClass} block w-36`}
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>ยอดสั่งขั้นต่ำ</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={minOrderQty}
+            onChange={(e) => setMinOrderQty(e.target.value)}
+            className={`${inputClass} block w-36`}
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>หมายเหตุ</span>
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="เช่น สั่งเป็นลัง 12 ชิ้น"
+            className={`${inputClass} block w-56`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={save.isPending || selected.size === 0 || (!leadTimeDays && !minOrderQty)}
+          className="inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          บันทึก
+        </button>
+      </form>
+
+      <PaginatedTable
+        data={lines}
+        columns={columns}
+        itemsPerPage={20}
+        emptyMessage="ไม่มีสินค้าที่มีการขายในช่วงนี้"
+        keyExtractor={lineKey}
+        rowClassName={(line) => (selected.has(lineKey(line)) ? 'bg-primary/5' : '')}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCurrency, formatNumber } from '@/lib/formatters';
+import type { SupplierOrder } from '@/lib/replenishment/types';
+
+interface SuggestedOrderListProps {
+  orders: SupplierOrder[];
+  branchName: (key: string) => string;
+}
+
+const orderKey = (order: SupplierOrder) => `${order.branchSync}|${order.supplierCode}`;
+
+/**
+ * ใบสั่งซื้อแนะนำต่อผู้จำหน่าย กดที่ผู้จำหน่ายเพื่อดูรายการสินค้า
+ */
+export function SuggestedOrderList({ orders, branchName }: SuggestedOrderListProps) {
+  const [expanded, setExpanded] = useState<string[]>([]);
+
+  if (orders.length === 0) {
+    return <p className="py-8 text-center text-muted-foreground">ยังไม่มีสินค้าที่ถึงจุดสั่งซื้อ</p>;
+  }
+
+  const toggle = (key: string) =>
+    setExpanded((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-border">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border bg-muted/40 text-left text-muted-foreground">
+            <th className="py-2 px-4 font-medium">ผู้จำหน่าย / สินค้า</th>
+            <th className="py-2 px-4 font-medium">คลัง</th>
+            <th className="py-2 px-4 font-medium text-right">คงเหลือ</th>
+            <th className="py-2 px-4 font-medium text-right">จุดสั่งซื้อ</th>
+            <th className="py-2 px-4 font-medium text-right">แนะนำสั่ง</th>
+            <th className="py-2 px-4 font-medium text-right">มูลค่าสั่ง</th>
+          </tr>
+        </thead>
+        <tbody>
+          {orders.map((order) => {
+            const key = orderKey(order);
+            const isOpen = expanded.includes(key);
+            return [
+              <tr key={key} onClick={() => toggle(key)} className="border-b border-border/40 cursor-pointer hover:bg-muted/20 font-medium">
+                <td className="py-2 px-4">
+                  <span className="inline-flex items-center gap-1">
+                    {isOpen ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+                    {order.supplierName || 'ไม่พบประวัติซื้อ'}
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {order.supplierCode} · {branchName(order.branchSync)}
+                    </span>
+                  </span>
+                </td>
+                <td className="py-2 px-4 text-muted-foreground font-normal" colSpan={3}>
+                  {order.lines.length.toLocaleString('th-TH')} รายการ
+                </td>
+                <td />
+                <td className="py-2 px-4 text-right tabular-nums text-blue-600">฿{formatCurrency(order.totalValue)}</td>
+              </tr>,
+              ...(isOpen
+                ? order.lines.map((line) => (
+                    <tr key={`${key}|${line.whCode}|${line.itemCode}`} className="border-b border-border/20 text-xs">
+                      <td className="py-1.5 px-4 pl-10">
+                        <span className="font-mono text-muted-foreground">{line.itemCode}</span> {line.itemName}
+                      </td>
+                      <td className="py-1.5 px-4 text-muted-foreground">{line.whName}</td>
+                      <td className={cn('py-1.5 px-4 text-right tabular-nums', line.qtyOnHand <= 0 && 'text-red-600')}>
+                        {formatNumber(line.qtyOnHand)}
+                      </td>
+                      <td className="py-1.5 px-4 text-right tabular-nums">{formatNumber(line.reorderPoint)}</td>
+                      <td className="py-1.5 px-4 text-right tabular-nums font-medium">
+                        {formatNumber(line.suggestedQty)} {line.unitName}
+                      </td>
+                      <td className="py-1.5 px-4 text-right tabular-nums">฿{formatCurrency(line.suggestedValue)}</td>
+                    </tr>
+                  ))
+                : []),
+            ];
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { usePathname } from 'next/navigation';
+import { Bookmark, Check, Link2, Loader2, Pin, PinOff, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { buildViewUrl } from '@/lib/views/state';
+import { VIEW_NAME_MAX_LENGTH } from '@/lib/views/types';
+import { getCurrentViewState, useOpenView, useSavedViewActions, useSavedViews } from '@/hooks/useViewState';
+
+/**
+ * Header menu: copy a link to the current view, save it by name,
+ * and open / pin / delete the views saved on this page
+ */
+export function ViewMenu() {
+  const pathname = usePathname();
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+  const [panelPos, setPanelPos] = useState({ top: 0, right: 0 });
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const { data: views = [] } = useSavedViews();
+  const { create, update, remove } = useSavedViewActions();
+  const openView = useOpenView();
+  const pageViews = views.filter((view) => view.path === pathname);
+
+  // Close on outside click / Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    function handleClickOutside(e: MouseEvent) {
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(e.target as Node) &&
+        buttonRef.current &&
+        !buttonRef.current.contains(e.target as Node)
+      ) {
+        setIsOpen(false);
+      }
+    }
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') setIsOpen(false);
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  // Position the panel under the button (the panel only renders after a click, so always on the client)
+  const handleToggle = () => {
+    if (!isOpen && buttonRef.current) {
+      const rect = buttonRef.current.getBoundingClientRect();
+      setPanelPos({ top: rect.bottom + 8, right: window.innerWidth - rect.right });
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  const handleCopyLink = async () => {
+    const url = buildViewUrl(`${pathname}${window.location.search}`, getCurrentViewState(pathname));
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${url}`);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy link:', error);
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    create.mutate(
+      { name: trimmed, path: pathname, state: getCurrentViewState(pathname) },
+      { onSuccess: () => setName('') }
+    );
+  };
+
+  const panel = isOpen ? createPortal(
+    <div
+      ref={panelRef}
+      style={{ top: panelPos.top, right: panelPos.right }}
+      className="fixed z-[9999] w-[340px] max-h-[80vh] flex flex-col rounded-2xl border border-[hsl(var(--border))] bg-[hsl(var(--card))] shadow-2xl overflow-hidden animate-in fade-in slide-in-from-top-2 duration-200"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-5 py-4 border-b border-[hsl(var(--border))]">
+        <div className="flex items-center gap-2">
+          <Bookmark className="h-5 w-5 text-[hsl(var(--primary))]" />
+          <span className="font-semibold text-[hsl(var(--foreground))]">มุมมองที่บันทึก</span>
+        </div>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="p-1.5 rounded-lg hover:bg-[hsl(var(--muted))] transition-colors"
+          aria-label="ปิด"
+        >
+          <X className="h-4 w-4 text-[hsl(var(--muted-foreground))]" />
+        </button>
+      </div>
+
+      {/* Share + save */}
+      <div className="space-y-3 px-5 py-4 border-b border-[hsl(var(--border))]">
+        <button
+          type="button"
+          onClick={handleCopyLink}
+          className="w-full inline-flex items-center justify-center gap-2 h-9 rounded-lg border border-[hsl(var(--border))] text-sm font-medium hover:bg-[hsl(var(--accent))] transition-colors"
+        >
+          {copied ? <Check className="h-4 w-4 text-emerald-600" /> : <Link2 className="h-4 w-4" />}
+          {copied ? 'คัดลอกลิงก์แล้ว' : 'คัดลอกลิงก์มุมมองนี้'}
+        </button>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={VIEW_NAME_MAX_LENGTH}
+            placeholder="ตั้งชื่อมุมมอง..."
+            className="h-9 flex-1 min-w-0 rounded-lg border border-[hsl(var(--border))] bg-[hsl(var(--background))] px-3 text-sm focus:outline-none focus:ring-2 focus:ring-[hsl(var(--ring))]"
+          />
+          <button
+            type="submit"
+            disabled={!name.trim() || create.isPending}
+            className="inline-flex items-center gap-1 h-9 px-3 rounded-lg bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50"
+          >
+            {create.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            บันทึก
+          </button>
+        </form>
+        {create.error && <p className="text-xs text-rose-600">{create.error.message}</p>}
+      </div>
+
+      {/* Views of this page */}
+      <div className="overflow-y-auto flex-1">
+        {pageViews.length === 0 ? (
+          <p className="py-8 text-center text-sm text-[hsl(var(--muted-foreground))]">ยังไม่มีมุมมองที่บันทึกในหน้านี้</p>
+        ) : (
+          <div className="divide-y divide-[hsl(var(--border))]">
+            {pageViews.map((view) => (
+              <div key={view.id} className="flex items-center gap-2 px-5 py-2.5 hover:bg-[hsl(var(--muted)/50)]">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsOpen(false);
+                    openView(view).catch((error) => console.error('Failed to open view:', error));
+                  }}
+                  className="flex-1 min-w-0 truncate text-left text-sm text-[hsl(var(--foreground))] hover:text-[hsl(var(--primary))]"
+                >
+                  {view.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update.mutate({ id: view.id, pinned: !view.pinned })}
+                  className={cn(
+                    'p-1.5 rounded-lg hover:bg-[hsl(var(--muted))] transition-colors',
+                    view.pinned ? 'text-[hsl(var(--primary))]' : 'text-[hsl(var(--muted-foreground))]'
+                  )}
+                  aria-label={view.pinned ? 'เลิกปักหมุด' : 'ปักหมุดในรายการโปรด'}
+                  title={view.pinned ? 'เลิกปักหมุด' : 'ปักหมุดในรายการโปรด'}
+                >
+                  {view.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`ลบมุมมอง "${view.name}"?`)) remove.mutate(view.id);
+                  }}
+                  className="p-1.5 rounded-lg text-[hsl(var(--muted-foreground))] hover:bg-[hsl(var(--muted))] hover:text-rose-600 transition-colors"
+                  aria-label="ลบมุมมอง"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  ) : null;
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={handleToggle}
+        className={cn(
+          'rounded-lg p-2 transition-all focus:outline-none focus:ring-2 focus:ring-[hsl(var(--ring))]',
+          isOpen
+            ? 'bg-[hsl(var(--primary)/10)] text-[hsl(var(--primary))]'
+            : 'hover:bg-[hsl(var(--accent))] text-[hsl(var(--muted-foreground))] hover:text-[hsl(var(--foreground))]'
+        )}
+        aria-label="มุมมองที่บันทึก"
+        aria-expanded={isOpen}
+      >
+        <Bookmark className="h-5 w-5" />
+      </button>
+
+      {panel}
+    </>
+  );
+}
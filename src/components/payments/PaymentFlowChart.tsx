@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+import type { PaymentFlow } from '@/lib/payments/types';
+
+interface PaymentFlowChartProps {
+  data: PaymentFlow[];
+  height?: string;
+}
+
+const compact = (value: number) => {
+  const abs = Math.abs(value);
+  return abs >= 1000000
+    ? `${(value / 1000000).toFixed(1)}M`
+    : abs >= 1000
+    ? `${(value / 1000).toFixed(0)}K`
+    : value.toFixed(0);
+};
+
+/**
+ * เงินรับเทียบเงินจ่ายต่อช่วงเวลา พร้อมเส้นสุทธิ
+ */
+export function PaymentFlowChart({ data, height = '350px' }: PaymentFlowChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || data.length === 0) return;
+
+    const chart = echarts.init(chartRef.current);
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        trigger: 'axis',
+        formatter: (params) => {
+          const items = params as { dataIndex: number; marker: string; seriesName: string; value: number }[];
+          let result = `<div style="font-weight: bold; margin-bottom: 8px;">${data[items[0].dataIndex].period}</div>`;
+          items.forEach((item) => {
+            result += `<div style="margin-bottom: 4px;">${item.marker} ${item.seriesName}: <strong>฿${item.value.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong></div>`;
+          });
+          return result;
+        },
+      },
+      legend: { data: ['เงินรับ', 'เงินจ่าย', 'สุทธิ'], top: 0 },
+      grid: { left: 70, right: 30, bottom: 50, top: 50, containLabel: false },
+      xAxis: { type: 'category', data: data.map((row) => row.period) },
+      yAxis: { type: 'value', axisLabel: { formatter: (value: number) => compact(value) } },
+      series: [
+        { name: 'เงินรับ', type: 'bar', data: data.map((row) => row.inflow), itemStyle: { color: '#22c55e' } },
+        { name: 'เงินจ่าย', type: 'bar', data: data.map((row) => row.outflow), itemStyle: { color: '#ef4444' } },
+        { name: 'สุทธิ', type: 'line', data: data.map((row) => row.net), itemStyle: { color: '#3b82f6' }, smooth: true },
+      ],
+    };
+
+    chart.setOption(option);
+
+    const resizeObserver = new ResizeObserver(() => { if (!chart.isDisposed()) chart.resize(); });
+    resizeObserver.observe(chartRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.dispose();
+    };
+  }, [data]);
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center" style={{ height }}>
+        <p className="text-muted-foreground text-sm">ไม่มีข้อมูล</p>
+      </div>
+    );
+  }
+
+  return <div ref={chartRef} style={{ height, width: '100%' }} />;
+}
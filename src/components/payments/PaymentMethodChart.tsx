@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+import { PAYMENT_METHODS, type PaymentMethodTrend } from '@/lib/payments/types';
+
+interface PaymentMethodChartProps {
+  data: PaymentMethodTrend[];
+  height?: string;
+}
+
+const METHOD_COLORS = ['#22c55e', '#3b82f6', '#a855f7', '#f97316', '#eab308', '#ec4899', '#14b8a6', '#94a3b8'];
+
+const compact = (value: number) => {
+  const abs = Math.abs(value);
+  return abs >= 1000000
+    ? `${(value / 1000000).toFixed(1)}M`
+    : abs >= 1000
+    ? `${(value / 1000).toFixed(0)}K`
+    : value.toFixed(0);
+};
+
+/**
+ * สัดส่วนเงินรับแยกช่องทางชำระต่อช่วงเวลา (stacked bar)
+ */
+export function PaymentMethodChart({ data, height = '350px' }: PaymentMethodChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || data.length === 0) return;
+
+    const chart = echarts.init(chartRef.current);
+    // ซ่อนช่องทางที่ไม่มียอดทั้งช่วง
+    const methods = PAYMENT_METHODS.map((method, index) => ({ ...method, color: METHOD_COLORS[index] })).filter((method) =>
+      data.some((row) => row[method.key] !== 0)
+    );
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        trigger: 'axis',
+        axisPointer: { type: 'shadow' },
+        formatter: (params) => {
+          const items = params as { dataIndex: number; marker: string; seriesName: string; value: number }[];
+          const row = data[items[0].dataIndex];
+          let result = `<div style="font-weight: bold; margin-bottom: 8px;">${row.period}</div>`;
+          items.forEach((item) => {
+            const share = row.total !== 0 ? ` (${((item.value / row.total) * 100).toFixed(1)}%)` : '';
+            result += `<div style="margin-bottom: 4px;">${item.marker} ${item.seriesName}: <strong>฿${item.value.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</strong>${share}</div>`;
+          });
+          return result;
+        },
+      },
+      legend: { data: methods.map((method) => method.label), top: 0 },
+      grid: { left: 70, right: 30, bottom: 50, top: 50, containLabel: false },
+      xAxis: { type: 'category', data: data.map((row) => row.period) },
+      yAxis: { type: 'value', axisLabel: { formatter: (value: number) => compact(value) } },
+      series: methods.map((method) => ({
+        name: method.label,
+        type: 'bar',
+        stack: 'methods',
+        data: data.map((row) => row[method.key]),
+        itemStyle: { color: method.color },
+      })),
+    };
+
+    chart.setOption(option);
+
+    const resizeObserver = new ResizeObserver(() => { if (!chart.isDisposed()) chart.resize(); });
+    resizeObserver.observe(chartRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.dispose();
+    };
+  }, [data]);
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center" style={{ height }}>
+        <p className="text-muted-foreground text-sm">ไม่มีข้อมูล</p>
+      </div>
+    );
+  }
+
+  return <div ref={chartRef} style={{ height, width: '100%' }} />;
+}
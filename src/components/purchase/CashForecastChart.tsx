@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import * as echarts from 'echarts';
+import { formatDate } from '@/lib/formatters';
+import type { CashForecastWeek } from '@/lib/payables/types';
+
+interface CashForecastChartProps {
+  data: CashForecastWeek[];
+  height?: string;
+}
+
+const compact = (value: number) => {
+  const abs = Math.abs(value);
+  return abs >= 1000000
+    ? `${(value / 1000000).toFixed(1)}M`
+    : abs >= 1000
+    ? `${(value / 1000).toFixed(0)}K`
+    : value.toFixed(0);
+};
+
+/**
+ * เงินจ่ายเจ้าหนี้รายสัปดาห์ (ครบกำหนด + นัดจ่าย) เทียบเงินรับคาดการณ์ และยอดสุทธิสะสม
+ */
+export function CashForecastChart({ data, height = '350px' }: CashForecastChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || data.length === 0) return;
+
+    const chart = echarts.init(chartRef.current);
+    const money = (value: number) => `฿${value.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+    const option: echarts.EChartsOption = {
+      tooltip: {
+        trigger: 'axis',
+        formatter: (params) => {
+          const items = params as { dataIndex: number; marker: string; seriesName: string; value: number }[];
+          const week = data[items[0].dataIndex];
+          let result = `<div style="font-weight: bold; margin-bottom: 8px;">${formatDate(week.weekStart)} – ${formatDate(week.weekEnd)}</div>`;
+          items.forEach((param) => {
+            result += `<div style="margin-bottom: 4px;">${param.marker} ${param.seriesName}: <strong>${money(Math.abs(Number(param.value)))}</strong></div>`;
+          });
+          return result;
+        },
+      },
+      legend: {
+        data: ['ครบกำหนด', 'นัดจ่ายแล้ว', 'เงินรับคาดการณ์', 'สุทธิสะสม'],
+        top: 0,
+      },
+      grid: { left: 70, right: 30, bottom: 50, top: 50, containLabel: false },
+      xAxis: {
+        type: 'category',
+        data: data.map((week) => formatDate(week.weekStart)),
+      },
+      yAxis: {
+        type: 'value',
+        axisLabel: { formatter: (value: number) => compact(value) },
+      },
+      series: [
+        {
+          name: 'ครบกำหนด',
+          type: 'bar',
+          stack: 'outflow',
+          data: data.map((week) => -week.dueAmount),
+          itemStyle: { color: '#f97316' },
+        },
+        {
+          name: 'นัดจ่ายแล้ว',
+          type: 'bar',
+          stack: 'outflow',
+          data: data.map((week) => -week.scheduledAmount),
+          itemStyle: { color: '#ef4444' },
+        },
+        {
+          name: 'เงินรับคาดการณ์',
+          type: 'bar',
+          data: data.map((week) => week.expectedInflow),
+          itemStyle: { color: '#22c55e' },
+        },
+        {
+          name: 'สุทธิสะสม',
+          type: 'line',
+          data: data.map((week) => week.cumulativeNet),
+          itemStyle: { color: '#3b82f6' },
+          smooth: true,
+        },
+      ],
+    };
+
+    chart.setOption(option);
+
+    const resizeObserver = new ResizeObserver(() => { if (!chart.isDisposed()) chart.resize(); });
+    resizeObserver.observe(chartRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.dispose();
+    };
+  }, [data]);
+
+  if (data.length === 0) {
+    return (
+      <div className="flex items-center justify-center" style={{ height }}>
+        <p className="text-muted-foreground text-sm">ไม่มีข้อมูล</p>
+      </div>
+    );
+  }
+
+  return <div ref={chartRef} style={{ height, width: '100%' }} />;
+}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarCheck, Loader2, X } from 'lucide-react';
+import { requestJson } from '@/lib/api-client';
+import { ErrorDisplay } from '@/components/ErrorBoundary';
+import { PaginatedTable, type ColumnDef } from '@/components/PaginatedTable';
+import { formatCurrency, formatDate } from '@/lib/formatters';
+import { plannedPaymentAmount, plannedPaymentDate } from '@/lib/payables/plan';
+import type { PayableInvoice } from '@/lib/payables/types';
+
+interface PaymentPlanTableProps {
+  invoices: PayableInvoice[];
+  /** วันที่เริ่มต้นในช่องวันนัดจ่าย */
+  defaultDate: string;
+}
+
+export const PAYMENT_PLAN_QUERY_KEY = ['paymentPlan'];
+
+const inputClass = 'px-3 py-2 text-sm rounded-md border border-border bg-background';
+
+const invoiceKey = (invoice: PayableInvoice) => `${invoice.branchSync}|${invoice.docNo}`;
+
+function StatusBadge({ invoice }: { invoice: PayableInvoice }) {
+  if (invoice.schedule) {
+    return <span className="px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300">นัดจ่ายแล้ว</span>;
+  }
+  if (invoice.daysOverdue > 0) {
+    return (
+      <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700 dark:bg-red-950/50 dark:text-red-300">
+        เกินกำหนด {invoice.daysOverdue.toLocaleString('th-TH')} วัน
+      </span>
+    );
+  }
+  return <span className="px-2 py-0.5 rounded-full text-xs bg-muted text-muted-foreground">รอจ่าย</span>;
+}
+
+/**
+ * ใบซื้อเงินเชื่อที่ค้างจ่าย เรียงตามวันที่จะจ่าย เลือกหลายใบเพื่อนัดจ่ายพร้อมกัน หรือยกเลิกการนัดรายใบ
+ */
+export function PaymentPlanTable({ invoices, defaultDate }: PaymentPlanTableProps) {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [scheduledDate, setScheduledDate] = useState(defaultDate);
+  const [note, setNote] = useState('');
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: PAYMENT_PLAN_QUERY_KEY });
+
+  const schedule = useMutation({
+    mutationFn: () =>
+      requestJson<{ saved: number }>('/api/purchase/payment-plan/schedule', {
+        method: 'PUT',
+        body: JSON.stringify({
+          items: invoices
+            .filter((invoice) => selected.has(invoiceKey(invoice)))
+            .map((invoice) => ({ branchSync: invoice.branchSync, docNo: invoice.docNo, scheduledDate, note })),
+        }),
+      }),
+    onSuccess: () => {
+      setSelected(new Set());
+      setNote('');
+      invalidate();
+    },
+  });
+
+  const unschedule = useMutation({
+    mutationFn: (invoice: PayableInvoice) => {
+      const params = new URLSearchParams({ branch_sync: invoice.branchSync, doc_no: invoice.docNo });
+      return requestJson<void>(`/api/purchase/payment-plan/schedule?${params}`, { method: 'DELETE' });
+    },
+    onSuccess: invalidate,
+  });
+
+  const mutationError = schedule.error || unschedule.error;
+
+  const toggle = (key: string) => {
+    const next = new Set(selected);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelected(next);
+  };
+
+  const sorted = [...invoices].sort(
+    (a, b) => plannedPaymentDate(a).localeCompare(plannedPaymentDate(b)) || a.supplierName.localeCompare(b.supplierName)
+  );
+  const selectedTotal = invoices
+    .filter((invoice) => selected.has(invoiceKey(invoice)))
+    .reduce((sum, invoice) => sum + plannedPaymentAmount(invoice), 0);
+
+  const columns: ColumnDef<PayableInvoice>[] = [
+    {
+      key: 'select',
+      header: 'เลือก',
+      align: 'center',
+      render: (invoice) => (
+        <input
+          type="checkbox"
+          aria-label={`เลือก ${invoice.docNo}`}
+          checked={selected.has(invoiceKey(invoice))}
+          onChange={() => toggle(invoiceKey(invoice))}
+        />
+      ),
+    },
+    { key: 'plannedDate', header: 'วันที่จ่าย', align: 'left', render: (invoice) => formatDate(plannedPaymentDate(invoice)) },
+    { key: 'status', header: 'สถานะ', align: 'left', render: (invoice) => <StatusBadge invoice={invoice} /> },
+    {
+      key: 'supplierName',
+      header: 'เจ้าหนี้',
+      align: 'left',
+      sortable: true,
+      render: (invoice) => (
+        <div>
+          <p className="font-medium">{invoice.supplierName || invoice.supplierCode}</p>
+          <p className="text-xs text-muted-foreground">{invoice.supplierCode}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'docNo',
+      header: 'เลขที่เอกสาร',
+      align: 'left',
+      render: (invoice) => (
+        <div>
+          <p>{invoice.docNo}</p>
+          <p className="text-xs text-muted-foreground">{invoice.branchSync}</p>
+        </div>
+      ),
+    },
+    { key: 'dueDate', header: 'วันครบกำหนด', align: 'left', sortable: true, render: (invoice) => formatDate(invoice.dueDate) },
+    { key: 'outstanding', header: 'ยอดค้างจ่าย', align: 'right', sortable: true, render: (invoice) => formatCurrency(invoice.outstanding) },
+    {
+      key: 'note',
+      header: 'หมายเหตุ',
+      align: 'left',
+      render: (invoice) =>
+        invoice.schedule && (
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-muted-foreground flex-1">
+              {invoice.schedule.note || '-'} · {invoice.schedule.createdBy}
+            </span>
+            <button
+              type="button"
+              title="ยกเลิกการนัดจ่าย"
+              onClick={() => unschedule.mutate(invoice)}
+              disabled={unschedule.isPending}
+              className="p-1 rounded-md hover:bg-muted disabled:opacity-50"
+            >
+              <X className="h-4 w-4 text-red-600" />
+            </button>
+          </div>
+        ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {mutationError && <ErrorDisplay error={mutationError} />}
+
+      <form
+        className="flex flex-wrap items-end gap-3 rounded-lg border border-border p-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          schedule.mutate();
+        }}
+      >
+        <p className="text-sm flex-1 min-w-[200px]">
+          เลือกแล้ว <span className="font-semibold">{selected.size.toLocaleString('th-TH')}</span> ใบ
+          {selected.size > 0 && <span className="text-muted-foreground"> · ฿{formatCurrency(selectedTotal)}</span>}
+        </p>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>วันนัดจ่าย</span>
+          <input
+            type="date"
+            value={scheduledDate}
+            onChange={(e) => setScheduledDate(e.target.value)}
+            className={`${inputClass} block`}
+            required
+          />
+        </label>
+        <label className="text-xs text-muted-foreground space-y-1">
+          <span>หมายเหตุ</span>
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="เช่น จ่ายเช็ครอบวันศุกร์"
+            className={`${inputClass} block w-56`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={schedule.isPending || selected.size === 0 || !scheduledDate}
+          className="inline-flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-md bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          {schedule.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarCheck className="h-4 w-4" />}
+          นัดจ่าย
+        </button>
+      </form>
+
+      <PaginatedTable
+        data={sorted}
+        columns={columns}
+        itemsPerPage={20}
+        emptyMessage="ไม่มีใบซื้อเงินเชื่อที่ค้างจ่าย"
+        keyExtractor={invoiceKey}
+        rowClassName={(invoice) => (selected.has(invoiceKey(invoice)) ? 'bg-primary/5' : '')}
+        showSummary
+        summaryConfig={{
+          label: 'รวม',
+          labelColSpan: 6,
+          values: { outstanding: (data) => formatCurrency(data.reduce((sum, invoice) => sum + invoice.outstanding, 0)) },
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { requestJson } from '@/lib/api-client';
+import type { AlertFeed } from '@/lib/alerts/types';
+
+export type AlertFeedFilter = 'all' | 'unread' | 'open';
+
+const ALERTS_QUERY_KEY = ['alerts'];
+
+/**
+ * Alert history of the signed-in user (NotificationPanel, dashboard card, /alerts page)
+ * Polls every minute so the unread badge follows the background evaluator.
+ */
+export function useAlertFeed(filter: AlertFeedFilter = 'all', limit = 20, offset = 0) {
+  return useQuery({
+    queryKey: [...ALERTS_QUERY_KEY, 'feed', filter, limit, offset],
+    queryFn: () => requestJson<AlertFeed>(`/api/alerts?filter=${filter}&limit=${limit}&offset=${offset}`),
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+}
+
+/**
+ * Mark alerts as read (`undefined` = all) or acknowledge them
+ */
+export function useAlertActions() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ALERTS_QUERY_KEY });
+
+  const markRead = useMutation({
+    mutationFn: (ids?: string[]) =>
+      requestJson<void>('/api/alerts/read', { method: 'POST', body: JSON.stringify({ ids }) }),
+    onSuccess: invalidate,
+  });
+
+  const acknowledge = useMutation({
+    mutationFn: (ids: string[]) =>
+      requestJson<void>('/api/alerts/acknowledge', { method: 'POST', body: JSON.stringify({ ids }) }),
+    onSuccess: invalidate,
+  });
+
+  return { markRead, acknowledge };
+}
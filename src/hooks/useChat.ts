@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { requestJson } from '@/lib/api-client';
+import type { ChatConversation, ChatConversationDetail, ChatQueryResult } from '@/lib/chat/types';
+
+export const CHAT_QUERY_KEY = ['chat'];
+
+export const conversationQueryKey = (id: string) => [...CHAT_QUERY_KEY, 'conversation', id];
+
+export const fetchConversation = (id: string) =>
+  requestJson<ChatConversationDetail>(`/api/chat/conversations/${id}`);
+
+/**
+ * Past AI conversations of the signed-in user, most recent first
+ */
+export function useConversations() {
+  return useQuery({
+    queryKey: [...CHAT_QUERY_KEY, 'conversations'],
+    queryFn: () => requestJson<ChatConversation[]>('/api/chat/conversations'),
+  });
+}
+
+/**
+ * One conversation with its messages (`null` = new chat, nothing to load)
+ */
+export function useConversation(id: string | null) {
+  return useQuery({
+    queryKey: conversationQueryKey(id ?? ''),
+    queryFn: () => fetchConversation(id!),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Rename / delete a conversation
+ */
+export function useConversationActions() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: CHAT_QUERY_KEY });
+
+  const rename = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      requestJson<ChatConversation>(`/api/chat/conversations/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ title }),
+      }),
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => requestJson<void>(`/api/chat/conversations/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+  });
+
+  return { rename, remove };
+}
+
+/**
+ * Run a saved SQL query of an assistant message again
+ */
+export function useRerunQuery(messageId: string) {
+  return useMutation({
+    mutationFn: (index: number) =>
+      requestJson<ChatQueryResult>(`/api/chat/messages/${messageId}/rerun`, {
+        method: 'POST',
+        body: JSON.stringify({ index }),
+      }),
+  });
+}
@@ -3,11 +3,14 @@ import type { ReportOption } from '@/components/ReportTypeSelector';
 
 /**
  * Custom hook to handle URL hash-based report selection
- * Reads initial hash on mount and listens for hash changes
+ * Reads initial hash on mount and listens for hash changes.
+ * When selectedReport is given the hash follows it, so the URL (and shared views)
+ * always name the report on screen.
  */
 export function useReportHash<T extends string>(
     reportOptions: ReportOption<T>[],
-    setSelectedReport: React.Dispatch<React.SetStateAction<T>>
+    setSelectedReport: React.Dispatch<React.SetStateAction<T>>,
+    selectedReport?: T
 ) {
     // Read URL hash on mount and select corresponding report
     useEffect(() => {
@@ -29,4 +32,10 @@ export function useReportHash<T extends string>(
         window.addEventListener('hashchange', handleHashChange);
         return () => window.removeEventListener('hashchange', handleHashChange);
     }, [reportOptions, setSelectedReport]);
+
+    // Keep the hash in sync with the selected report (replaceState: no history entry, no hashchange)
+    useEffect(() => {
+        if (!selectedReport || window.location.hash.replace('#', '') === selectedReport) return;
+        window.history.replaceState(window.history.state, '', `${window.location.pathname}${window.location.search}#${selectedReport}`);
+    }, [selectedReport]);
 }
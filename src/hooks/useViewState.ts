@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { setSelectedBranch } from '@/app/actions/branch-actions';
+import { requestJson } from '@/lib/api-client';
+import { buildViewUrl, decodeViewState, hasViewState, matchDateRangePreset, resolveViewDateRange } from '@/lib/views/state';
+import type { SavedView, SavedViewInput, ViewState } from '@/lib/views/types';
+import { useBranchStore } from '@/store/useBranchStore';
+import { useDateRangeStore } from '@/store/useDateRangeStore';
+import { useUIStore } from '@/store/useUIStore';
+import { useViewStore } from '@/store/useViewStore';
+
+const SAVED_VIEWS_QUERY_KEY = ['savedViews'];
+
+/**
+ * View state of the page on screen, read from the stores and the report hash
+ */
+export function getCurrentViewState(pathname: string): ViewState {
+  const { dateRange } = useDateRangeStore.getState();
+  const { selectedBranches } = useBranchStore.getState();
+  const { tableSort } = useViewStore.getState();
+  const preset = matchDateRangePreset(dateRange);
+  const report = window.location.hash.replace('#', '');
+
+  return {
+    ...(preset ? { preset } : { dateRange }),
+    branches: selectedBranches,
+    ...(report && { report }),
+    ...(pathname.startsWith('/reports/') && useUIStore.getState().isComparisonMode && { compare: true }),
+    ...(tableSort?.path === pathname && { sort: { key: tableSort.key, order: tableSort.order } }),
+  };
+}
+
+/**
+ * Apply a view to the stores of `pathname`. Needs the branch list to be loaded.
+ */
+async function applyViewState(state: ViewState, pathname: string, queryClient: QueryClient) {
+  const dateRange = resolveViewDateRange(state);
+  if (dateRange) useDateRangeStore.getState().setDateRange(dateRange);
+
+  // Comparison mode is a toggle on the report pages only; other pages have their own /comparison route
+  if (pathname.startsWith('/reports/')) useUIStore.getState().setComparisonMode(state.compare === true);
+
+  useViewStore.getState().setTableSort(state.sort ? { path: pathname, ...state.sort } : null);
+
+  const { availableBranches, selectedBranches, setSelectedBranches } = useBranchStore.getState();
+  const validKeys = availableBranches.map((b) => b.key);
+  const branches = state.branches?.includes('ALL')
+    ? ['ALL']
+    : state.branches?.filter((key) => validKeys.includes(key));
+  // 'ALL' outside comparison pages would be switched back to B1 by useBranchAutoSwitch
+  const allowed = branches && branches.length > 0 && (branches[0] !== 'ALL' || pathname.includes('/comparison'));
+  if (!allowed || branches.join(',') === selectedBranches.join(',')) return;
+
+  await setSelectedBranch(branches);
+  setSelectedBranches(branches);
+  await queryClient.invalidateQueries({ predicate: (q) => q.queryKey[0] !== 'branchInit' });
+}
+
+/**
+ * Restore the view encoded in the URL (shared link or saved view) whenever the page changes.
+ * Waits for BranchSwitcher to load the branch list so the cookie selection does not overwrite it.
+ */
+export function useViewStateRestore() {
+  const pathname = usePathname();
+  const queryClient = useQueryClient();
+  const isLoaded = useBranchStore((s) => s.isLoaded);
+  const appliedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const key = `${pathname}${window.location.search}`;
+    if (!isLoaded || appliedRef.current === key) return;
+    appliedRef.current = key;
+    if (!hasViewState(window.location.search)) return;
+
+    const state = decodeViewState(window.location.search, window.location.hash);
+    applyViewState(state, pathname, queryClient).catch((error) => {
+      console.error('Failed to restore view:', error);
+    });
+  }, [pathname, isLoaded, queryClient]);
+}
+
+/**
+ * Open a saved view: navigate to its page, or apply it in place when already there
+ */
+export function useOpenView() {
+  const pathname = usePathname();
+  const router = useRouter();
+  const queryClient = useQueryClient();
+
+  return async (view: Pick<SavedView, 'path' | 'state'>) => {
+    const url = buildViewUrl(view.path, view.state);
+    if (view.path !== pathname) {
+      router.push(url);
+      return;
+    }
+    window.history.replaceState(window.history.state, '', url.split('#')[0]);
+    // Setting the hash fires hashchange, which useReportHash listens to
+    if (view.state.report) window.location.hash = view.state.report;
+    await applyViewState(view.state, pathname, queryClient);
+  };
+}
+
+/**
+ * Saved views of the signed-in user (pinned first)
+ */
+export function useSavedViews() {
+  return useQuery({
+    queryKey: SAVED_VIEWS_QUERY_KEY,
+    queryFn: () => requestJson<SavedView[]>('/api/views'),
+    staleTime: 5 * 60_000,
+  });
+}
+
+/**
+ * Create, update (rename / pin) and delete saved views
+ */
+export function useSavedViewActions() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_QUERY_KEY });
+
+  const create = useMutation({
+    mutationFn: (input: SavedViewInput) =>
+      requestJson<SavedView>('/api/views', { method: 'POST', body: JSON.stringify(input) }),
+    onSuccess: invalidate,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, ...input }: SavedViewInput & { id: string }) =>
+      requestJson<SavedView>(`/api/views/${id}`, { method: 'PUT', body: JSON.stringify(input) }),
+    onSuccess: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => requestJson<void>(`/api/views/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+  });
+
+  return { create, update, remove };
+}
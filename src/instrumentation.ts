@@ -0,0 +1,18 @@
+// Runs once when the Next.js server starts.
+// Starts the background jobs in the Node.js runtime: scheduled report e-mails (lib/reports/scheduler)
+// and alert rule evaluation (lib/alerts/engine). Set REPORT_SCHEDULER=off / ALERT_EVALUATOR=off
+// on extra instances so each job runs once.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  if (process.env.REPORT_SCHEDULER !== 'off') {
+    const { startReportScheduler } = await import('./lib/reports/scheduler');
+    startReportScheduler();
+  }
+
+  if (process.env.ALERT_EVALUATOR !== 'off') {
+    const { startAlertEvaluator } = await import('./lib/alerts/engine');
+    startAlertEvaluator();
+  }
+}
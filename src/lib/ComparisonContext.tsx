@@ -12,13 +12,10 @@
  * Internally it simply reads from the Zustand stores.
  */
 
-import { useBranchStore } from '@/store/useBranchStore';
+import { useBranchStore, type BranchInfo } from '@/store/useBranchStore';
 import { useUIStore } from '@/store/useUIStore';
 
-export interface BranchInfo {
-  key: string;
-  name: string;
-}
+export type { BranchInfo };
 
 export interface ComparisonContextType {
   selectedBranches: string[];
@@ -0,0 +1,107 @@
+/**
+ * Alert Rules Engine
+ * ประเมินกฎแจ้งเตือนเป็นรอบ (เริ่มจาก instrumentation.ts) ด้วยสิทธิ์ของเจ้าของกฎ ณ เวลาที่ประเมิน
+ * แจ้งเตือนเมื่อกฎเปลี่ยนจากไม่เข้าเงื่อนไขเป็นเข้าเงื่อนไข ไม่แจ้งซ้ำทุกรอบ
+ */
+
+import 'server-only';
+
+import { startBackgroundJob } from '../background-job';
+import { branchAccessOf, resolveBranches } from '../branch-access';
+import { getDateRange } from '../dateRanges';
+import { logError } from '../errors';
+import { checkComponentPermission } from '../permissions/check';
+import { getUser } from '../permissions/store';
+import type { User } from '../permissions/types';
+import { METRIC_SOURCES, metricSourceOf, type MetricValues } from './metrics';
+import { listEnabledRules, recordRuleEvaluation } from './store';
+import { ALERT_COMPARATORS, ALERT_METRICS, compareMetric, formatMetricValue, type AlertMetricInfo, type AlertRule } from './types';
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+type MetricCache = Map<string, Promise<MetricValues>>;
+
+/**
+ * ค่า KPI ของกฎ ใช้ผลร่วมกันระหว่างกฎที่ใช้แหล่งข้อมูล ช่วงวันที่ และกิจการเดียวกันในรอบเดียวกัน
+ */
+async function readMetric(rule: AlertRule, branches: string[], cache: MetricCache): Promise<number> {
+  const metric: AlertMetricInfo = ALERT_METRICS[rule.metric];
+  const sourceKey = metricSourceOf(rule.metric);
+  const dateRange = getDateRange(metric.asOfToday ? 'TODAY' : rule.datePreset);
+  const cacheKey = [sourceKey, dateRange.start, dateRange.end, ...branches].join('|');
+
+  let values = cache.get(cacheKey);
+  if (!values) {
+    values = METRIC_SOURCES[sourceKey].fetch(dateRange, branches);
+    cache.set(cacheKey, values);
+  }
+  return (await values)[rule.metric] ?? 0;
+}
+
+export async function evaluateRule(
+  rule: AlertRule,
+  owner: User | null,
+  cache: MetricCache = new Map()
+): Promise<void> {
+  const evaluatedAt = new Date();
+
+  try {
+    if (!owner) {
+      throw new Error('ไม่พบเจ้าของกฎ');
+    }
+
+    const metric: AlertMetricInfo = ALERT_METRICS[rule.metric];
+    if (!checkComponentPermission(owner, metric.permission).allowed) {
+      throw new Error(`เจ้าของกฎไม่มีสิทธิ์ดู KPI: ${metric.label}`);
+    }
+
+    const branches = resolveBranches(rule.branches, branchAccessOf(owner));
+    const value = await readMetric(rule, branches, cache);
+    const triggered = compareMetric(value, rule.comparator, rule.threshold);
+
+    await recordRuleEvaluation(rule, {
+      state: triggered ? 'triggered' : 'ok',
+      value,
+      evaluatedAt,
+      event:
+        triggered && rule.state !== 'triggered'
+          ? {
+              title: rule.name,
+              message: `${metric.label} ${formatMetricValue(value, metric.unit)} (เกณฑ์ ${ALERT_COMPARATORS[rule.comparator]} ${formatMetricValue(rule.threshold, metric.unit)})`,
+            }
+          : undefined,
+    });
+  } catch (error) {
+    logError(error, `alert-rule:${rule.id}`);
+    await recordRuleEvaluation(rule, {
+      state: 'error',
+      value: null,
+      error: error instanceof Error ? error.message : String(error),
+      evaluatedAt,
+    });
+  }
+}
+
+/**
+ * ประเมินกฎที่เปิดใช้งานทั้งหมด ทีละกฎ
+ */
+export async function evaluateAlertRules(): Promise<number> {
+  const rules = await listEnabledRules();
+  const owners = new Map<string, User | null>();
+  const cache: MetricCache = new Map();
+
+  for (const rule of rules) {
+    if (!owners.has(rule.createdBy)) {
+      owners.set(rule.createdBy, await getUser(rule.createdBy));
+    }
+    await evaluateRule(rule, owners.get(rule.createdBy) ?? null, cache);
+  }
+  return rules.length;
+}
+
+export function startAlertEvaluator(): void {
+  const minutes = Number(process.env.ALERT_EVAL_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES;
+  startBackgroundJob('alert-evaluator', minutes * 60_000, async () => {
+    await evaluateAlertRules();
+  });
+}
@@ -0,0 +1,91 @@
+/**
+ * Alert Metrics
+ * ดึงค่า KPI สำหรับประเมินกฎแจ้งเตือน จัดกลุ่มตามฟังก์ชันใน lib/data เพื่อ query ครั้งเดียวต่อกลุ่ม
+ */
+
+import 'server-only';
+
+import { getAccountingKPIs } from '../data/accounting';
+import { getInventoryKPIs } from '../data/inventory';
+import { getPurchaseKPIs } from '../data/purchase';
+import { getOverdueAR, getSalesKPIs } from '../data/sales';
+import type { DateRange } from '../data/types';
+import type { AlertMetric } from './types';
+
+export type MetricValues = Partial<Record<AlertMetric, number>>;
+
+interface MetricSource {
+  metrics: AlertMetric[];
+  fetch: (dateRange: DateRange, branches: string[]) => Promise<MetricValues>;
+}
+
+export const METRIC_SOURCES: Record<string, MetricSource> = {
+  sales: {
+    metrics: ['sales.totalSales', 'sales.grossProfit', 'sales.grossMarginPct', 'sales.totalOrders', 'sales.avgOrderValue'],
+    fetch: async (dateRange, branches) => {
+      const kpis = await getSalesKPIs(dateRange, branches);
+      return {
+        'sales.totalSales': kpis.totalSales.value,
+        'sales.grossProfit': kpis.grossProfit.value,
+        'sales.grossMarginPct': kpis.grossMarginPct ?? 0,
+        'sales.totalOrders': kpis.totalOrders.value,
+        'sales.avgOrderValue': kpis.avgOrderValue.value,
+      };
+    },
+  },
+  overdueAR: {
+    metrics: ['sales.overdueInvoices', 'sales.overdueAmount'],
+    fetch: async (_dateRange, branches) => {
+      const overdue = await getOverdueAR(branches);
+      return {
+        'sales.overdueInvoices': overdue.invoiceCount,
+        'sales.overdueAmount': overdue.outstanding,
+      };
+    },
+  },
+  purchase: {
+    metrics: ['purchase.totalPurchases', 'purchase.totalItemsPurchased', 'purchase.totalPOCount', 'purchase.avgPOValue'],
+    fetch: async (dateRange, branches) => {
+      const kpis = await getPurchaseKPIs(dateRange, branches);
+      return {
+        'purchase.totalPurchases': kpis.totalPurchases.value,
+        'purchase.totalItemsPurchased': kpis.totalItemsPurchased.value,
+        'purchase.totalPOCount': kpis.totalPOCount.value,
+        'purchase.avgPOValue': kpis.avgPOValue.value,
+      };
+    },
+  },
+  inventory: {
+    metrics: ['inventory.totalInventoryValue', 'inventory.totalItems', 'inventory.lowStockItems', 'inventory.overstockItems'],
+    fetch: async (dateRange, branches) => {
+      const kpis = await getInventoryKPIs(dateRange, branches);
+      return {
+        'inventory.totalInventoryValue': kpis.totalInventoryValue.value,
+        'inventory.totalItems': kpis.totalItems.value,
+        'inventory.lowStockItems': kpis.lowStockItems.value,
+        'inventory.overstockItems': kpis.overstockItems.value,
+      };
+    },
+  },
+  accounting: {
+    metrics: ['accounting.assets', 'accounting.liabilities', 'accounting.equity', 'accounting.revenue', 'accounting.expenses'],
+    fetch: async (dateRange, branches) => {
+      const kpis = await getAccountingKPIs(dateRange, branches);
+      return {
+        'accounting.assets': kpis.assets.value,
+        'accounting.liabilities': kpis.liabilities.value,
+        'accounting.equity': kpis.equity.value,
+        'accounting.revenue': kpis.revenue.value,
+        'accounting.expenses': kpis.expenses.value,
+      };
+    },
+  },
+};
+
+export function metricSourceOf(metric: AlertMetric): string {
+  const entry = Object.entries(METRIC_SOURCES).find(([, source]) => source.metrics.includes(metric));
+  if (!entry) {
+    throw new Error(`ไม่พบแหล่งข้อมูลของ metric: ${metric}`);
+  }
+  return entry[0];
+}
@@ -0,0 +1,477 @@
+/**
+ * Alert Rule Store
+ * กฎแจ้งเตือนและประวัติการแจ้งเตือน เก็บในฐานข้อมูล auth (libsql)
+ * กฎเป็นของผู้สร้าง (ผู้ดูแลระบบเห็นทั้งหมด) การแจ้งเตือนส่งถึงเจ้าของกฎ พร้อมสถานะอ่าน/รับทราบ
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { InValue, Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { branchAccessOf, resolveBranches } from '../branch-access';
+import { RELATIVE_DATE_RANGE_KEYS, type RelativeDateRangeKey } from '../dateRanges';
+import { ErrorTypes } from '../errors';
+import { checkComponentPermission } from '../permissions/check';
+import { ADMIN_ROLE_ID } from '../permissions/constants';
+import type { User } from '../permissions/types';
+import {
+  ALERT_COMPARATORS,
+  ALERT_METRICS,
+  ALERT_SEVERITY_LABELS,
+  type AlertComparator,
+  type AlertEvent,
+  type AlertFeed,
+  type AlertMetric,
+  type AlertRule,
+  type AlertRuleInput,
+  type AlertRuleState,
+  type AlertSeverity,
+} from './types';
+
+/** กฎตั้งต้นของผู้ใช้ทุกคน (เดิม hard-code ไว้ใน getDashboardAlerts) */
+const DEFAULT_RULES: Required<Omit<AlertRuleInput, 'enabled'>>[] = [
+  {
+    name: 'สินค้าใกล้หมด',
+    metric: 'inventory.lowStockItems',
+    comparator: 'gt',
+    threshold: 0,
+    datePreset: 'LAST_30_DAYS',
+    branches: ['ALL'],
+    severity: 'warning',
+  },
+  {
+    name: 'สินค้าเกินคลัง',
+    metric: 'inventory.overstockItems',
+    comparator: 'gt',
+    threshold: 0,
+    datePreset: 'LAST_30_DAYS',
+    branches: ['ALL'],
+    severity: 'info',
+  },
+  {
+    name: 'ลูกหนี้ค้างชำระ',
+    metric: 'sales.overdueInvoices',
+    comparator: 'gt',
+    threshold: 0,
+    datePreset: 'TODAY',
+    branches: ['ALL'],
+    severity: 'error',
+  },
+];
+
+const MAX_EVENTS_PAGE = 100;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS alert_rule (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    comparator TEXT NOT NULL,
+    threshold REAL NOT NULL,
+    date_preset TEXT NOT NULL,
+    branches TEXT NOT NULL DEFAULT '["ALL"]',
+    severity TEXT NOT NULL DEFAULT 'warning',
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT NOT NULL,
+    state TEXT,
+    last_value REAL,
+    last_evaluated_at TEXT,
+    last_error TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  `CREATE TABLE IF NOT EXISTS alert_event (
+    id TEXT PRIMARY KEY,
+    rule_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    title TEXT NOT NULL,
+    message TEXT NOT NULL,
+    metric TEXT NOT NULL,
+    value REAL NOT NULL,
+    threshold REAL NOT NULL,
+    triggered_at TEXT NOT NULL,
+    read_at TEXT,
+    acknowledged_at TEXT
+  )`,
+  'CREATE INDEX IF NOT EXISTS alert_event_user ON alert_event (user_id, triggered_at)',
+  `CREATE TABLE IF NOT EXISTS alert_rule_seed (
+    user_id TEXT PRIMARY KEY,
+    seeded_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function parseBranches(raw: unknown): string[] {
+  try {
+    const parsed = JSON.parse(String(raw ?? '[]'));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToRule(row: Row): AlertRule {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    metric: String(row.metric) as AlertMetric,
+    comparator: String(row.comparator) as AlertComparator,
+    threshold: Number(row.threshold),
+    datePreset: String(row.date_preset) as RelativeDateRangeKey,
+    branches: parseBranches(row.branches),
+    severity: String(row.severity) as AlertSeverity,
+    enabled: Number(row.enabled) === 1,
+    createdBy: String(row.created_by),
+    state: row.state ? (String(row.state) as AlertRuleState) : null,
+    lastValue: row.last_value === null || row.last_value === undefined ? null : Number(row.last_value),
+    lastEvaluatedAt: row.last_evaluated_at ? String(row.last_evaluated_at) : null,
+    lastError: row.last_error ? String(row.last_error) : null,
+  };
+}
+
+function rowToEvent(row: Row): AlertEvent {
+  return {
+    id: String(row.id),
+    ruleId: String(row.rule_id),
+    severity: String(row.severity) as AlertSeverity,
+    title: String(row.title),
+    message: String(row.message),
+    metric: String(row.metric) as AlertMetric,
+    value: Number(row.value),
+    threshold: Number(row.threshold),
+    triggeredAt: String(row.triggered_at),
+    readAt: row.read_at ? String(row.read_at) : null,
+    acknowledgedAt: row.acknowledged_at ? String(row.acknowledged_at) : null,
+  };
+}
+
+/**
+ * รวมข้อมูลที่ส่งมากับค่าเดิม แล้วตรวจสอบความถูกต้องและสิทธิ์ของผู้บันทึก
+ * @throws APIError 400 / 403
+ */
+function normalizeRule(user: User, input: AlertRuleInput, existing?: AlertRule) {
+  const name = (input.name ?? existing?.name ?? '').trim();
+  if (!name) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อกฎ');
+  }
+
+  const metric = input.metric ?? existing?.metric;
+  if (!metric || !(metric in ALERT_METRICS)) {
+    throw ErrorTypes.BAD_REQUEST('KPI ไม่ถูกต้อง');
+  }
+
+  const comparator = input.comparator ?? existing?.comparator ?? 'gt';
+  if (!(comparator in ALERT_COMPARATORS)) {
+    throw ErrorTypes.BAD_REQUEST('เงื่อนไขเปรียบเทียบไม่ถูกต้อง');
+  }
+
+  const threshold = Number(input.threshold ?? existing?.threshold);
+  if (!Number.isFinite(threshold)) {
+    throw ErrorTypes.BAD_REQUEST('เกณฑ์ต้องเป็นตัวเลข');
+  }
+
+  const datePreset = input.datePreset ?? existing?.datePreset ?? 'THIS_MONTH';
+  if (!RELATIVE_DATE_RANGE_KEYS.includes(datePreset)) {
+    throw ErrorTypes.BAD_REQUEST('ช่วงวันที่ไม่ถูกต้อง');
+  }
+
+  const severity = input.severity ?? existing?.severity ?? 'warning';
+  if (!(severity in ALERT_SEVERITY_LABELS)) {
+    throw ErrorTypes.BAD_REQUEST('ระดับความรุนแรงไม่ถูกต้อง');
+  }
+
+  const branches = input.branches ?? existing?.branches ?? ['ALL'];
+  if (!Array.isArray(branches) || branches.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาเลือกกิจการอย่างน้อย 1 กิจการ');
+  }
+
+  const permission = checkComponentPermission(user, ALERT_METRICS[metric].permission);
+  if (!permission.allowed) {
+    throw ErrorTypes.FORBIDDEN(`ไม่มีสิทธิ์ดู KPI: ${ALERT_METRICS[metric].label}`);
+  }
+  resolveBranches(branches, branchAccessOf(user));
+
+  return {
+    name,
+    metric,
+    comparator,
+    threshold,
+    datePreset,
+    severity,
+    branches: branches.map(String),
+    enabled: Boolean(input.enabled ?? existing?.enabled ?? true),
+  };
+}
+
+function canManage(rule: AlertRule, user: User): boolean {
+  return user.role.id === ADMIN_ROLE_ID || rule.createdBy === user.id;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * สร้างกฎตั้งต้นให้ผู้ใช้ครั้งแรกที่เปิดรายการกฎหรือการแจ้งเตือน (เฉพาะ KPI ที่ผู้ใช้มีสิทธิ์)
+ */
+async function seedDefaultRules(user: User): Promise<void> {
+  const seeded = await authDb.execute({ sql: 'SELECT 1 FROM alert_rule_seed WHERE user_id = ?', args: [user.id] });
+  if (seeded.rows.length > 0) return;
+
+  const rules = DEFAULT_RULES.filter((rule) => checkComponentPermission(user, ALERT_METRICS[rule.metric].permission).allowed);
+  await authDb.batch(
+    [
+      ...rules.map((rule) => ({
+        sql: `INSERT INTO alert_rule (id, name, metric, comparator, threshold, date_preset, branches, severity, created_by)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          randomUUID(),
+          rule.name,
+          rule.metric,
+          rule.comparator,
+          rule.threshold,
+          rule.datePreset,
+          JSON.stringify(rule.branches),
+          rule.severity,
+          user.id,
+        ],
+      })),
+      { sql: 'INSERT OR IGNORE INTO alert_rule_seed (user_id) VALUES (?)', args: [user.id] },
+    ],
+    'write'
+  );
+}
+
+export async function listRules(user: User): Promise<AlertRule[]> {
+  await ensureSchema();
+  await seedDefaultRules(user);
+  const result =
+    user.role.id === ADMIN_ROLE_ID
+      ? await authDb.execute('SELECT * FROM alert_rule ORDER BY created_at, id')
+      : await authDb.execute({
+          sql: 'SELECT * FROM alert_rule WHERE created_by = ? ORDER BY created_at, id',
+          args: [user.id],
+        });
+  return result.rows.map(rowToRule);
+}
+
+async function findRule(id: string): Promise<AlertRule | null> {
+  await ensureSchema();
+  const result = await authDb.execute({ sql: 'SELECT * FROM alert_rule WHERE id = ?', args: [id] });
+  return result.rows[0] ? rowToRule(result.rows[0]) : null;
+}
+
+/**
+ * @throws APIError 404 เมื่อไม่พบ หรือเป็นกฎของผู้อื่น
+ */
+export async function getRule(id: string, user: User): Promise<AlertRule> {
+  const rule = await findRule(id);
+  if (!rule || !canManage(rule, user)) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบกฎแจ้งเตือน: ${id}`);
+  }
+  return rule;
+}
+
+export async function createRule(user: User, input: AlertRuleInput): Promise<AlertRule> {
+  await ensureSchema();
+  const values = normalizeRule(user, input);
+  const id = randomUUID();
+
+  await authDb.execute({
+    sql: `INSERT INTO alert_rule (id, name, metric, comparator, threshold, date_preset, branches, severity, enabled, created_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      values.name,
+      values.metric,
+      values.comparator,
+      values.threshold,
+      values.datePreset,
+      JSON.stringify(values.branches),
+      values.severity,
+      values.enabled ? 1 : 0,
+      user.id,
+    ],
+  });
+
+  return (await findRule(id))!;
+}
+
+/**
+ * แก้ไขกฎ เงื่อนไขที่เปลี่ยนจะล้างสถานะเดิม เพื่อให้รอบถัดไปแจ้งเตือนใหม่ได้
+ */
+export async function updateRule(id: string, user: User, input: AlertRuleInput): Promise<AlertRule> {
+  const existing = await getRule(id, user);
+  const values = normalizeRule(user, input, existing);
+
+  await authDb.execute({
+    sql: `UPDATE alert_rule SET
+            name = ?, metric = ?, comparator = ?, threshold = ?, date_preset = ?, branches = ?,
+            severity = ?, enabled = ?, state = NULL, last_error = NULL, updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [
+      values.name,
+      values.metric,
+      values.comparator,
+      values.threshold,
+      values.datePreset,
+      JSON.stringify(values.branches),
+      values.severity,
+      values.enabled ? 1 : 0,
+      id,
+    ],
+  });
+
+  return (await findRule(id))!;
+}
+
+/**
+ * ลบกฎ ประวัติการแจ้งเตือนเดิมยังอยู่
+ */
+export async function deleteRule(id: string, user: User): Promise<void> {
+  await getRule(id, user);
+  await authDb.execute({ sql: 'DELETE FROM alert_rule WHERE id = ?', args: [id] });
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+export async function listEnabledRules(): Promise<AlertRule[]> {
+  await ensureSchema();
+  const result = await authDb.execute('SELECT * FROM alert_rule WHERE enabled = 1 ORDER BY created_by, id');
+  return result.rows.map(rowToRule);
+}
+
+/**
+ * บันทึกผลการประเมิน และสร้างการแจ้งเตือนเมื่อกฎเพิ่งเข้าเงื่อนไข
+ */
+export async function recordRuleEvaluation(
+  rule: AlertRule,
+  result: {
+    state: AlertRuleState;
+    value: number | null;
+    error?: string;
+    evaluatedAt: Date;
+    event?: { title: string; message: string };
+  }
+): Promise<void> {
+  await ensureSchema();
+  const evaluatedAt = result.evaluatedAt.toISOString();
+  const statements: { sql: string; args: InValue[] }[] = [
+    {
+      sql: `UPDATE alert_rule SET state = ?, last_value = ?, last_evaluated_at = ?, last_error = ? WHERE id = ?`,
+      args: [result.state, result.value, evaluatedAt, result.error ?? null, rule.id],
+    },
+  ];
+
+  if (result.event && result.value !== null) {
+    statements.push({
+      sql: `INSERT INTO alert_event (id, rule_id, user_id, severity, title, message, metric, value, threshold, triggered_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        randomUUID(),
+        rule.id,
+        rule.createdBy,
+        rule.severity,
+        result.event.title,
+        result.event.message,
+        rule.metric,
+        result.value,
+        rule.threshold,
+        evaluatedAt,
+      ],
+    });
+  }
+
+  await authDb.batch(statements, 'write');
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+export type AlertEventFilter = 'all' | 'unread' | 'open';
+
+const EVENT_FILTERS: Record<AlertEventFilter, string> = {
+  all: '',
+  unread: 'AND read_at IS NULL',
+  open: 'AND acknowledged_at IS NULL',
+};
+
+export async function listAlertEvents(
+  user: User,
+  options: { filter?: AlertEventFilter; limit?: number; offset?: number } = {}
+): Promise<AlertFeed> {
+  await ensureSchema();
+  await seedDefaultRules(user);
+  const filter = EVENT_FILTERS[options.filter ?? 'all'] ?? '';
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), MAX_EVENTS_PAGE);
+  const offset = Math.max(options.offset ?? 0, 0);
+
+  const [events, counts] = await authDb.batch(
+    [
+      {
+        sql: `SELECT * FROM alert_event WHERE user_id = ? ${filter} ORDER BY triggered_at DESC, id LIMIT ? OFFSET ?`,
+        args: [user.id, limit, offset],
+      },
+      {
+        sql: `SELECT
+                coalesce(sum(read_at IS NULL), 0) AS unread,
+                coalesce(sum(acknowledged_at IS NULL), 0) AS open
+              FROM alert_event WHERE user_id = ?`,
+        args: [user.id],
+      },
+    ],
+    'read'
+  );
+
+  const row = counts.rows[0];
+  return {
+    events: events.rows.map(rowToEvent),
+    unreadCount: Number(row?.unread) || 0,
+    openCount: Number(row?.open) || 0,
+  };
+}
+
+function idsClause(ids: string[] | undefined): { sql: string; args: string[] } {
+  if (!ids) return { sql: '', args: [] };
+  return { sql: `AND id IN (${ids.map(() => '?').join(', ')})`, args: ids };
+}
+
+/**
+ * ทำเครื่องหมายว่าอ่านแล้ว (ไม่ส่ง ids = ทั้งหมด)
+ */
+export async function markAlertEventsRead(user: User, ids?: string[]): Promise<void> {
+  if (ids && ids.length === 0) return;
+  await ensureSchema();
+  const clause = idsClause(ids);
+  await authDb.execute({
+    sql: `UPDATE alert_event SET read_at = ? WHERE user_id = ? AND read_at IS NULL ${clause.sql}`,
+    args: [new Date().toISOString(), user.id, ...clause.args],
+  });
+}
+
+/**
+ * รับทราบการแจ้งเตือน (นับว่าอ่านแล้วด้วย)
+ */
+export async function acknowledgeAlertEvents(user: User, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await ensureSchema();
+  const now = new Date().toISOString();
+  const clause = idsClause(ids);
+  await authDb.execute({
+    sql: `UPDATE alert_event SET acknowledged_at = ?, read_at = coalesce(read_at, ?)
+          WHERE user_id = ? AND acknowledged_at IS NULL ${clause.sql}`,
+    args: [now, now, user.id, ...clause.args],
+  });
+}
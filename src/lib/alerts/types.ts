@@ -0,0 +1,155 @@
+/**
+ * Alert Rule Types
+ * KPI ที่ตั้งกฎแจ้งเตือนได้ การเทียบค่ากับเกณฑ์ ระดับความรุนแรง กฎ และประวัติการแจ้งเตือน
+ */
+
+import type { RelativeDateRangeKey } from '../dateRanges';
+import type { ComponentKey, Module } from '../permissions/types';
+import { formatCurrency, formatNumber } from '../utils';
+
+export type MetricUnit = 'currency' | 'count' | 'percent';
+
+export interface AlertMetricInfo {
+  label: string;
+  module: Module;
+  unit: MetricUnit;
+  /** สิทธิ์ที่ต้องมีจึงจะตั้งกฎ/เห็นการแจ้งเตือนของ metric นี้ */
+  permission: ComponentKey;
+  /** ค่า ณ วันนี้ ไม่ใช้ช่วงวันที่ของกฎ */
+  asOfToday?: boolean;
+}
+
+/** KPI ที่ตั้งกฎได้ (ค่าจาก getSalesKPIs / getInventoryKPIs / getPurchaseKPIs / getAccountingKPIs) */
+export const ALERT_METRICS = {
+  'sales.totalSales': { label: 'ยอดขายรวม', module: 'sales', unit: 'currency', permission: 'sales.kpis' },
+  'sales.grossProfit': { label: 'กำไรขั้นต้น', module: 'sales', unit: 'currency', permission: 'sales.kpis' },
+  'sales.grossMarginPct': { label: 'อัตรากำไรขั้นต้น (%)', module: 'sales', unit: 'percent', permission: 'sales.kpis' },
+  'sales.totalOrders': { label: 'จำนวนออเดอร์', module: 'sales', unit: 'count', permission: 'sales.kpis' },
+  'sales.avgOrderValue': { label: 'ยอดเฉลี่ยต่อออเดอร์', module: 'sales', unit: 'currency', permission: 'sales.kpis' },
+  'sales.overdueInvoices': {
+    label: 'บิลลูกหนี้เกินกำหนดชำระ',
+    module: 'sales',
+    unit: 'count',
+    permission: 'sales.ar_status',
+    asOfToday: true,
+  },
+  'sales.overdueAmount': {
+    label: 'ยอดลูกหนี้เกินกำหนดชำระ',
+    module: 'sales',
+    unit: 'currency',
+    permission: 'sales.ar_status',
+    asOfToday: true,
+  },
+  'purchase.totalPurchases': { label: 'ยอดซื้อรวม', module: 'purchase', unit: 'currency', permission: 'purchase.kpis' },
+  'purchase.totalItemsPurchased': { label: 'จำนวนสินค้าที่ซื้อ', module: 'purchase', unit: 'count', permission: 'purchase.kpis' },
+  'purchase.totalPOCount': { label: 'จำนวนใบสั่งซื้อ', module: 'purchase', unit: 'count', permission: 'purchase.kpis' },
+  'purchase.avgPOValue': { label: 'ยอดเฉลี่ยต่อใบสั่งซื้อ', module: 'purchase', unit: 'currency', permission: 'purchase.kpis' },
+  'inventory.totalInventoryValue': { label: 'มูลค่าสินค้าคงคลัง', module: 'inventory', unit: 'currency', permission: 'inventory.kpis' },
+  'inventory.totalItems': { label: 'จำนวนรายการสินค้า', module: 'inventory', unit: 'count', permission: 'inventory.kpis' },
+  'inventory.lowStockItems': {
+    label: 'สินค้าใกล้หมด (ใช้ได้ ≤ 7 วัน)',
+    module: 'inventory',
+    unit: 'count',
+    permission: 'inventory.low_stock',
+  },
+  'inventory.overstockItems': {
+    label: 'สินค้าเกินคลัง (ขายได้ > 90 วัน)',
+    module: 'inventory',
+    unit: 'count',
+    permission: 'inventory.overstock',
+  },
+  'accounting.assets': { label: 'สินทรัพย์', module: 'accounting', unit: 'currency', permission: 'accounting.kpis' },
+  'accounting.liabilities': { label: 'หนี้สิน', module: 'accounting', unit: 'currency', permission: 'accounting.kpis' },
+  'accounting.equity': { label: 'ส่วนของผู้ถือหุ้น', module: 'accounting', unit: 'currency', permission: 'accounting.kpis' },
+  'accounting.revenue': { label: 'รายได้', module: 'accounting', unit: 'currency', permission: 'accounting.kpis' },
+  'accounting.expenses': { label: 'ค่าใช้จ่าย', module: 'accounting', unit: 'currency', permission: 'accounting.kpis' },
+} as const satisfies Record<string, AlertMetricInfo>;
+
+export type AlertMetric = keyof typeof ALERT_METRICS;
+
+export function formatMetricValue(value: number, unit: MetricUnit): string {
+  if (unit === 'currency') return formatCurrency(value);
+  if (unit === 'percent') return `${formatNumber(value)}%`;
+  return formatNumber(value, 0);
+}
+
+export const ALERT_COMPARATORS = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+} as const;
+
+export type AlertComparator = keyof typeof ALERT_COMPARATORS;
+
+export function compareMetric(value: number, comparator: AlertComparator, threshold: number): boolean {
+  switch (comparator) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return value === threshold;
+  }
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'error';
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  info: 'แจ้งให้ทราบ',
+  warning: 'เตือน',
+  error: 'วิกฤต',
+};
+
+/** ok = ไม่เข้าเงื่อนไข, triggered = เข้าเงื่อนไข (แจ้งเตือนแล้ว), error = ประเมินไม่สำเร็จ */
+export type AlertRuleState = 'ok' | 'triggered' | 'error';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  /** ช่วงวันที่ที่ใช้คำนวณ KPI (คำนวณใหม่ทุกรอบ) */
+  datePreset: RelativeDateRangeKey;
+  /** รหัสกิจการ หรือ ['ALL'] (ตีความตามสิทธิ์ของเจ้าของกฎตอนประเมิน) */
+  branches: string[];
+  severity: AlertSeverity;
+  enabled: boolean;
+  createdBy: string;
+  state: AlertRuleState | null;
+  lastValue: number | null;
+  lastEvaluatedAt: string | null;
+  lastError: string | null;
+}
+
+export type AlertRuleInput = Partial<
+  Pick<AlertRule, 'name' | 'metric' | 'comparator' | 'threshold' | 'datePreset' | 'branches' | 'severity' | 'enabled'>
+>;
+
+/** การแจ้งเตือนหนึ่งครั้ง เกิดเมื่อกฎเปลี่ยนจากไม่เข้าเงื่อนไขเป็นเข้าเงื่อนไข */
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  metric: AlertMetric;
+  value: number;
+  threshold: number;
+  triggeredAt: string;
+  readAt: string | null;
+  acknowledgedAt: string | null;
+}
+
+export interface AlertFeed {
+  events: AlertEvent[];
+  unreadCount: number;
+  /** ยังไม่กดรับทราบ */
+  openCount: number;
+}
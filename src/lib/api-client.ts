@@ -0,0 +1,16 @@
+/**
+ * Client-side helper for the JSON API routes that answer
+ * `{ success, data }` on success and `formatErrorResponse()` on failure.
+ */
+
+export async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const json = await res.json();
+  if (!res.ok || json.success === false) {
+    throw new Error(json.error || `Request failed (${res.status})`);
+  }
+  return json.data as T;
+}
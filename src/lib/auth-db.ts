@@ -0,0 +1,31 @@
+import { createClient } from "@libsql/client";
+
+// Local dev: file:./auth.db | Production (Turso): uses TURSO_DATABASE_URL
+// Shared by better-auth and the app tables (roles, branches, ...)
+export const authDb = createClient({
+  url: process.env.TURSO_DATABASE_URL ?? "file:./auth.db",
+  authToken: process.env.TURSO_AUTH_TOKEN,
+});
+
+/**
+ * Memoized `CREATE TABLE IF NOT EXISTS ...` runner for app tables.
+ * Each store calls the returned function before its first query.
+ *
+ * @param seed - Optional step run after the tables exist (e.g. insert defaults)
+ */
+export function defineSchema(statements: string[], seed?: () => Promise<void>) {
+  let ready: Promise<void> | null = null;
+
+  return function ensureSchema(): Promise<void> {
+    if (!ready) {
+      ready = (async () => {
+        await authDb.batch(statements, "write");
+        if (seed) await seed();
+      })().catch((error) => {
+        ready = null; // retry on next call
+        throw error;
+      });
+    }
+    return ready;
+  };
+}
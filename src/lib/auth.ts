@@ -1,23 +1,17 @@
 import { betterAuth } from "better-auth";
-import { createClient } from "@libsql/client";
 import { LibsqlDialect } from "kysely-libsql";
+import { authDb } from "./auth-db";
 
 const allowedEmails = (process.env.ALLOWED_EMAILS ?? "")
   .split(",")
   .map((e) => e.trim())
   .filter(Boolean);
 
-// Local dev: file:./auth.db | Production (Turso): uses TURSO_DATABASE_URL
-const client = createClient({
-  url: process.env.TURSO_DATABASE_URL ?? "file:./auth.db",
-  authToken: process.env.TURSO_AUTH_TOKEN,
-});
-
 export const auth = betterAuth({
   secret: process.env.BETTER_AUTH_SECRET!,
   baseURL: process.env.BETTER_AUTH_URL!,
   database: {
-    dialect: new LibsqlDialect({ client }),
+    dialect: new LibsqlDialect({ client: authDb }),
     type: "sqlite",
   },
   user: {
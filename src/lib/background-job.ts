@@ -0,0 +1,37 @@
+// In-process interval jobs started from instrumentation.ts (report e-mails, alert rules).
+// State lives on globalThis so dev server reloads (HMR) don't start a second timer,
+// and a run is skipped while the previous one is still going.
+
+import 'server-only';
+
+import { logError } from './errors';
+
+interface JobState {
+  timer: ReturnType<typeof setInterval>;
+  running: boolean;
+}
+
+const globalForJobs = globalThis as typeof globalThis & { __backgroundJobs?: Map<string, JobState> };
+
+export function startBackgroundJob(name: string, intervalMs: number, run: () => Promise<void>): void {
+  const jobs = (globalForJobs.__backgroundJobs ??= new Map());
+  if (jobs.has(name)) return;
+
+  const state: JobState = {
+    running: false,
+    timer: setInterval(async () => {
+      if (state.running) return;
+      state.running = true;
+      try {
+        await run();
+      } catch (error) {
+        logError(error, name);
+      } finally {
+        state.running = false;
+      }
+    }, intervalMs),
+  };
+
+  jobs.set(name, state);
+  console.info(`[${name}] started (every ${Math.round(intervalMs / 1000)}s)`);
+}
@@ -0,0 +1,73 @@
+// Branch access rules
+//
+// Pure part of branch-level row security: parse the `branch` query param and intersect it
+// with what a user may read. lib/branch-access.ts applies these to the current session.
+
+import { ErrorTypes } from './errors';
+import { ADMIN_ROLE_ID } from './permissions/constants';
+import type { User } from './permissions/types';
+
+const ALL = 'ALL';
+const WILDCARD = '*';
+
+export interface BranchAccess {
+  /** User may read every branch (admin or allowed_branches contains '*') */
+  unrestricted: boolean;
+  /** Branch codes from allowed_branches; empty when unrestricted */
+  branches: string[];
+}
+
+/**
+ * Branch access of a given user (for background jobs without a session)
+ */
+export function branchAccessOf(user: User): BranchAccess {
+  const branches = user.allowed_branches ?? [];
+
+  if (user.role.id === ADMIN_ROLE_ID || branches.includes(WILDCARD)) {
+    return { unrestricted: true, branches: [] };
+  }
+  return { unrestricted: false, branches };
+}
+
+/**
+ * Normalize the `branch` query param: repeated (?branch=a&branch=b),
+ * comma separated (?branch=a,b) or missing (→ ['ALL'])
+ */
+export function parseBranchParam(searchParams: URLSearchParams): string[] {
+  const branches = searchParams
+    .getAll('branch')
+    .flatMap(b => b.split(','))
+    .map(b => b.trim())
+    .filter(Boolean);
+  return branches.length === 0 ? [ALL] : branches;
+}
+
+/**
+ * Intersect a requested branch list with what the user may read.
+ *
+ * - Unrestricted users get the request back unchanged ('ALL' stays 'ALL')
+ * - 'ALL' from a restricted user becomes their allowed branches
+ * - Any branch outside the allowed list is rejected, not silently dropped
+ *
+ * @throws APIError 403 when a requested branch is not allowed or the user has no branches
+ */
+export function resolveBranches(requested: string[], access: BranchAccess): string[] {
+  const branches = requested.length === 0 ? [ALL] : requested;
+  if (access.unrestricted) {
+    return branches;
+  }
+
+  if (access.branches.length === 0) {
+    throw ErrorTypes.FORBIDDEN('ไม่มีสิทธิ์เข้าถึงข้อมูลกิจการใด');
+  }
+
+  if (branches.includes(ALL)) {
+    return [...access.branches];
+  }
+
+  const denied = branches.filter(b => !access.branches.includes(b));
+  if (denied.length > 0) {
+    throw ErrorTypes.FORBIDDEN(`ไม่มีสิทธิ์เข้าถึงข้อมูลกิจการ: ${denied.join(', ')}`);
+  }
+  return branches;
+}
@@ -0,0 +1,38 @@
+// Branch-level row security
+//
+// Every API route resolves the `branch` query param through getAuthorizedBranches()
+// before calling into lib/data, so data functions only ever see branches the
+// signed-in user may read. The resolved list is also what goes into cache keys.
+
+import 'server-only';
+
+import { requireUser } from './permissions/store';
+import { branchAccessOf, parseBranchParam, resolveBranches, type BranchAccess } from './branch-access-check';
+
+export * from './branch-access-check';
+
+/**
+ * Read the branch access of the current session
+ * @throws APIError 401 when there is no session
+ */
+export async function getBranchAccess(): Promise<BranchAccess> {
+  return branchAccessOf(await requireUser());
+}
+
+/**
+ * resolveBranches() against the current session
+ */
+export async function authorizeBranches(requested: string[]): Promise<string[]> {
+  return resolveBranches(requested, await getBranchAccess());
+}
+
+/**
+ * Parse and authorize the `branch` query param of an API request
+ *
+ * @example
+ * const branches = await getAuthorizedBranches(searchParams);
+ * const data = await getSalesKPIs(dateRange, branches);
+ */
+export async function getAuthorizedBranches(searchParams: URLSearchParams): Promise<string[]> {
+  return authorizeBranches(parseBranchParam(searchParams));
+}
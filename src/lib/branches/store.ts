@@ -0,0 +1,215 @@
+/**
+ * Branch Registry Store
+ * ทะเบียนกิจการ (ชื่อ, ชื่อย่อ, เลขผู้เสียภาษี, ที่อยู่, สี, ลำดับ) เก็บในฐานข้อมูล auth (libsql)
+ * แทน BRANCH_MAPPING ที่เคย hard-code ไว้ใน API และ data layer
+ */
+
+import 'server-only';
+
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { clickhouse } from '../clickhouse';
+import { ErrorTypes } from '../errors';
+import { BRANCH_COLOR_PALETTE, deriveShortName, type Branch, type BranchInput } from './types';
+
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/** ข้อมูลตั้งต้น (เดิมคือ BRANCH_MAPPING) ใช้ครั้งแรกที่ตารางยังว่าง */
+const DEFAULT_BRANCHES: [code: string, name: string][] = [
+  ['b000', 'บริษัท ช้าง สยาม กัมปนี จำกัด'],
+  ['b001', 'บริษัท ช้างสยามรวย จำกัด'],
+  ['b002', 'บริษัท ช้าง ทรัพย์ ทวี จำกัด'],
+  ['b003', 'บริษัท ชาวทะเลเฮฮา จำกัด'],
+  ['b004', 'บริษัท ดีจิงจัง 5665 จำกัด'],
+  ['b005', 'บริษัท ฮอมฮัก จำกัด'],
+];
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema(
+  [
+    `CREATE TABLE IF NOT EXISTS branch (
+      code TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      short_name TEXT NOT NULL DEFAULT '',
+      tax_id TEXT NOT NULL DEFAULT '',
+      address TEXT NOT NULL DEFAULT '',
+      is_active INTEGER NOT NULL DEFAULT 1,
+      color TEXT NOT NULL DEFAULT '',
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`,
+  ],
+  async () => {
+    const result = await authDb.execute('SELECT count(*) AS count FROM branch');
+    if (Number(result.rows[0]?.count) > 0) return;
+    await authDb.batch(
+      DEFAULT_BRANCHES.map(([code, name], index) =>
+        branchWriteStatement({
+          code,
+          name,
+          shortName: deriveShortName(name),
+          taxId: '',
+          address: '',
+          isActive: true,
+          color: BRANCH_COLOR_PALETTE[index % BRANCH_COLOR_PALETTE.length],
+          sortOrder: index,
+        })
+      ),
+      'write'
+    );
+  }
+);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function rowToBranch(row: Row): Branch {
+  return {
+    code: String(row.code),
+    name: String(row.name),
+    shortName: String(row.short_name || '') || deriveShortName(String(row.name)),
+    taxId: String(row.tax_id ?? ''),
+    address: String(row.address ?? ''),
+    isActive: Number(row.is_active) === 1,
+    color: String(row.color ?? ''),
+    sortOrder: Number(row.sort_order) || 0,
+  };
+}
+
+function branchWriteStatement(branch: Branch) {
+  return {
+    sql: `INSERT INTO branch (code, name, short_name, tax_id, address, is_active, color, sort_order)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(code) DO UPDATE SET
+            name = excluded.name, short_name = excluded.short_name, tax_id = excluded.tax_id,
+            address = excluded.address, is_active = excluded.is_active, color = excluded.color,
+            sort_order = excluded.sort_order, updated_at = datetime('now')`,
+    args: [
+      branch.code,
+      branch.name,
+      branch.shortName,
+      branch.taxId,
+      branch.address,
+      branch.isActive ? 1 : 0,
+      branch.color,
+      branch.sortOrder,
+    ],
+  };
+}
+
+/**
+ * รวมข้อมูลที่ส่งมากับค่าเดิม แล้วตรวจสอบความถูกต้อง
+ */
+function normalizeBranch(code: string, input: BranchInput, existing?: Branch): Branch {
+  const pick = <K extends keyof Branch>(key: K, fallback: Branch[K]): Branch[K] =>
+    input[key] !== undefined ? (input[key] as Branch[K]) : existing ? existing[key] : fallback;
+
+  const name = String(pick('name', '')).trim();
+  if (!name) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อกิจการ');
+  }
+
+  const color = String(pick('color', '')).trim();
+  if (color && !COLOR_PATTERN.test(color)) {
+    throw ErrorTypes.BAD_REQUEST('สีต้องอยู่ในรูปแบบ #rrggbb');
+  }
+
+  const sortOrder = Number(pick('sortOrder', 0));
+  if (!Number.isInteger(sortOrder)) {
+    throw ErrorTypes.BAD_REQUEST('ลำดับต้องเป็นจำนวนเต็ม');
+  }
+
+  return {
+    code,
+    name,
+    shortName: String(pick('shortName', '')).trim() || deriveShortName(name),
+    taxId: String(pick('taxId', '')).trim(),
+    address: String(pick('address', '')).trim(),
+    isActive: Boolean(pick('isActive', true)),
+    color,
+    sortOrder,
+  };
+}
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+/**
+ * รายการกิจการทั้งหมดในทะเบียน เรียงตาม sort_order
+ */
+export async function listBranches(options: { activeOnly?: boolean } = {}): Promise<Branch[]> {
+  await ensureSchema();
+  const result = await authDb.execute(
+    `SELECT * FROM branch ${options.activeOnly ? 'WHERE is_active = 1' : ''} ORDER BY sort_order, code`
+  );
+  return result.rows.map(rowToBranch);
+}
+
+export async function getBranch(code: string): Promise<Branch | null> {
+  await ensureSchema();
+  const result = await authDb.execute({ sql: 'SELECT * FROM branch WHERE code = ?', args: [code] });
+  return result.rows[0] ? rowToBranch(result.rows[0]) : null;
+}
+
+export async function createBranch(input: BranchInput): Promise<Branch> {
+  const code = input.code?.trim() ?? '';
+  if (!BRANCH_CODE_PATTERN.test(code)) {
+    throw ErrorTypes.BAD_REQUEST('รหัสกิจการต้องเป็น A-Z, a-z, 0-9, _ หรือ - ความยาวไม่เกิน 32 ตัวอักษร');
+  }
+  if (await getBranch(code)) {
+    throw ErrorTypes.CONFLICT(`มีกิจการรหัส ${code} อยู่แล้ว`);
+  }
+
+  const branch = normalizeBranch(code, input);
+  await authDb.execute(branchWriteStatement(branch));
+  return branch;
+}
+
+export async function updateBranch(code: string, input: BranchInput): Promise<Branch> {
+  const existing = await getBranch(code);
+  if (!existing) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบกิจการ: ${code}`);
+  }
+
+  const branch = normalizeBranch(code, input, existing);
+  await authDb.execute(branchWriteStatement(branch));
+  return branch;
+}
+
+/**
+ * ลบกิจการออกจากทะเบียน ข้อมูลใน ClickHouse ยังอยู่และจะแสดงด้วยชื่อสำรอง
+ */
+export async function deleteBranch(code: string): Promise<void> {
+  if (!(await getBranch(code))) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบกิจการ: ${code}`);
+  }
+  await authDb.execute({ sql: 'DELETE FROM branch WHERE code = ?', args: [code] });
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+/**
+ * รหัสกิจการที่มีข้อมูลขายใน ClickHouse (รวมรหัสที่ยังไม่ได้ลงทะเบียน)
+ */
+export async function listBranchCodesInData(): Promise<string[]> {
+  const result = await clickhouse.query({
+    query: `
+      SELECT DISTINCT branch_sync
+      FROM saleinvoice_transaction
+      WHERE branch_sync != ''
+      ORDER BY branch_sync
+    `,
+    format: 'JSONEachRow',
+  });
+  const rows: { branch_sync: string }[] = await result.json();
+  return rows.map((row) => row.branch_sync);
+}
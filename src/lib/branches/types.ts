@@ -0,0 +1,41 @@
+/**
+ * Branch Registry Types
+ * ข้อมูลกิจการ (branch_sync) ที่ผู้ดูแลระบบกำหนดเอง ชุดสีประจำกิจการ และชื่อย่อ/ชื่อสำรอง
+ * เมื่อกิจการยังไม่ได้ลงทะเบียน
+ */
+
+export interface Branch {
+  /** รหัสกิจการ ตรงกับ branch_sync / wh_code ใน ClickHouse */
+  code: string;
+  /** ชื่อเต็ม ใช้ในหัวรายงานและตัวเลือกกิจการ */
+  name: string;
+  /** ชื่อย่อ ใช้ในกราฟและตารางเปรียบเทียบ */
+  shortName: string;
+  taxId: string;
+  address: string;
+  isActive: boolean;
+  /** สีประจำกิจการ (#rrggbb) */
+  color: string;
+  sortOrder: number;
+}
+
+export type BranchInput = Partial<Branch>;
+
+/** สีเริ่มต้นตามลำดับ ใช้เมื่อกิจการยังไม่ได้กำหนดสี */
+export const BRANCH_COLOR_PALETTE = [
+  '#6366f1', '#10b981', '#f59e0b', '#f43f5e', '#06b6d4', '#8b5cf6', '#f97316', '#14b8a6',
+];
+
+/**
+ * ตัดคำนำหน้า/ท้ายนิติบุคคลออกจากชื่อเต็ม ใช้เป็นชื่อย่อเมื่อยังไม่ได้กำหนด
+ */
+export function deriveShortName(name: string): string {
+  return name.replace(/^บริษัท\s*/, '').replace(/\s*จำกัด(\s*\(มหาชน\))?$/, '').trim() || name;
+}
+
+/**
+ * ชื่อที่ใช้แสดงสำหรับรหัสกิจการที่ไม่มีในทะเบียน
+ */
+export function fallbackBranchName(code: string): string {
+  return `กิจการ ${code}`;
+}
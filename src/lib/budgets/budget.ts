@@ -0,0 +1,134 @@
+/**
+ * Budget calculations
+ *
+ * Budgets are stored per calendar month. A date range that covers part of a month
+ * gets the budget of that month pro rata by days, so a KPI for 1–15 June is compared
+ * with half of the June budget. Amounts stay positive in the account's normal
+ * direction; statement rows convert them to debit - credit.
+ * Computes the budget totals per category and branch, the actual-vs-budget variance
+ * attached to KPIs, and the budget column of the financial statements.
+ */
+
+import type { DateRange, KPIData } from '../data/types';
+import type { StatementAccountRow } from '../statements/types';
+import {
+  BUDGET_CATEGORIES,
+  type BudgetCategory,
+  type BudgetEntry,
+  type BudgetTotals,
+  type KPIBudget,
+} from './types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** จำนวนวันระหว่างวันที่ YYYY-MM-DD สองวัน (รวมทั้งสองวัน) */
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+/** เดือน YYYY-MM แรกและสุดท้ายที่ช่วงวันที่ครอบคลุม */
+export function budgetMonthBounds(range: DateRange): { from: string; to: string } {
+  return { from: range.start.slice(0, 7), to: range.end.slice(0, 7) };
+}
+
+/**
+ * สัดส่วนของเดือน (YYYY-MM) ที่อยู่ในช่วงวันที่ 0–1
+ */
+export function monthShare(month: string, range: DateRange): number {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const days = daysInMonth(year, monthNumber);
+  const first = `${month}-01`;
+  const last = `${month}-${String(days).padStart(2, '0')}`;
+  const start = range.start > first ? range.start : first;
+  const end = range.end < last ? range.end : last;
+  return start > end ? 0 : daysBetween(start, end) / days;
+}
+
+/** งบประมาณในช่วงวันที่ของแต่ละรายการ (ตัดตามสัดส่วนวัน) */
+function prorated(entries: BudgetEntry[], range: DateRange): { entry: BudgetEntry; amount: number }[] {
+  return entries
+    .map((entry) => ({ entry, amount: entry.amount * monthShare(entry.month, range) }))
+    .filter(({ amount }) => amount !== 0);
+}
+
+export function isBudgetCategory(entry: Pick<BudgetEntry, 'accountCode' | 'accountType'>, category: BudgetCategory): boolean {
+  const { accountType, prefix } = BUDGET_CATEGORIES[category];
+  return entry.accountType === accountType && (!prefix || entry.accountCode.startsWith(prefix));
+}
+
+/**
+ * ยอดงบประมาณรวมต่อหมวดในช่วงวันที่ (null เมื่อช่วงนี้ไม่มีงบประมาณเลย)
+ */
+export function budgetTotals(entries: BudgetEntry[], range: DateRange): BudgetTotals | null {
+  const amounts = prorated(entries, range);
+  if (amounts.length === 0) return null;
+
+  const total = (category: BudgetCategory) =>
+    round2(amounts.reduce((sum, { entry, amount }) => sum + (isBudgetCategory(entry, category) ? amount : 0), 0));
+  return { revenue: total('revenue'), expenses: total('expenses'), costOfSales: total('costOfSales') };
+}
+
+/**
+ * งบประมาณในช่วงวันที่ แยกตามกิจการ
+ */
+export function budgetTotalsByBranch(entries: BudgetEntry[], range: DateRange): Map<string, BudgetTotals> {
+  const byBranch = new Map<string, BudgetEntry[]>();
+  for (const entry of entries) {
+    byBranch.set(entry.branchSync, [...(byBranch.get(entry.branchSync) ?? []), entry]);
+  }
+
+  const totals = new Map<string, BudgetTotals>();
+  for (const [branch, branchEntries] of byBranch) {
+    const branchTotals = budgetTotals(branchEntries, range);
+    if (branchTotals) totals.set(branch, branchTotals);
+  }
+  return totals;
+}
+
+/**
+ * เทียบผลจริงกับงบประมาณ (undefined เมื่อไม่มีงบประมาณ)
+ */
+export function compareWithBudget(actual: number, budget: number | null | undefined): KPIBudget | undefined {
+  if (budget === null || budget === undefined) return undefined;
+  return {
+    budget,
+    variance: round2(actual - budget),
+    achievementPct: budget === 0 ? null : round2((actual / budget) * 100),
+  };
+}
+
+/**
+ * เพิ่มงบประมาณลงใน KPI (คืน KPI เดิมเมื่อไม่มีงบประมาณ)
+ */
+export function withBudget(kpi: KPIData, budget: number | null | undefined): KPIData {
+  const comparison = compareWithBudget(kpi.value, budget);
+  return comparison ? { ...kpi, budget: comparison } : kpi;
+}
+
+/**
+ * เติมคอลัมน์งบประมาณลงในยอดต่อบัญชีของงบกำไรขาดทุน
+ * งบประมาณแปลงเป็น debit - credit ให้ตรงกับยอดจริง (รายได้ติดลบ)
+ */
+export function addBudgetColumn(
+  rows: StatementAccountRow[],
+  columnKey: string,
+  entries: BudgetEntry[],
+  range: DateRange
+): StatementAccountRow[] {
+  const accounts = new Map(rows.map((row) => [row.accountCode, { ...row, values: { ...row.values } }]));
+
+  for (const { entry, amount } of prorated(entries, range)) {
+    let account = accounts.get(entry.accountCode);
+    if (!account) {
+      account = { accountCode: entry.accountCode, accountName: entry.accountName, accountType: entry.accountType, values: {} };
+      accounts.set(entry.accountCode, account);
+    }
+    const sign = entry.accountType === 'INCOME' ? -1 : 1;
+    account.values[columnKey] = round2((account.values[columnKey] ?? 0) + sign * amount);
+  }
+  return [...accounts.values()];
+}
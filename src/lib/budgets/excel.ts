@@ -0,0 +1,118 @@
+/**
+ * Budget Excel import/export
+ *
+ * The export is a regular styled report (exportStyledReport) with one row per
+ * account × branch and one column per month, so a downloaded file can be edited
+ * and uploaded again. The parser looks for the header row by its labels instead of
+ * a fixed position, which skips the report title lines and the summary row.
+ * Runs in the browser (exceljs), no server imports.
+ */
+
+import ExcelJS from 'exceljs';
+import { ErrorTypes } from '../errors';
+import { BUDGET_MONTH_LABELS, type BudgetAccount, type BudgetLine, type BudgetLineInput } from './types';
+
+const ACCOUNT_HEADER = 'รหัสบัญชี';
+const BRANCH_HEADER = 'กิจการ';
+/** แถวที่ค้นหาหัวตาราง (หัวรายงานใช้ไม่กี่แถวแรก) */
+const HEADER_SEARCH_ROWS = 15;
+
+const monthKey = (index: number) => `m${index + 1}`;
+
+/** หัวคอลัมน์สำหรับ exportStyledReport */
+export const BUDGET_SHEET_HEADERS: Record<string, string> = {
+  accountCode: ACCOUNT_HEADER,
+  accountName: 'ชื่อบัญชี',
+  branchSync: BRANCH_HEADER,
+  ...Object.fromEntries(BUDGET_MONTH_LABELS.map((label, index) => [monthKey(index), label])),
+  total: 'รวมทั้งปี',
+};
+
+export const BUDGET_SHEET_AMOUNT_COLUMNS = [...BUDGET_MONTH_LABELS.map((_, index) => monthKey(index)), 'total'];
+
+/**
+ * แถวของไฟล์ Excel จากงบประมาณของปี
+ * ถ้ายังไม่มีงบประมาณ ใช้บัญชีที่ตั้งงบได้ × กิจการที่เลือกเป็นแม่แบบ (ยอดว่าง)
+ */
+export function budgetSheetRows(lines: BudgetLine[], templateAccounts: BudgetAccount[] = [], templateBranches: string[] = []) {
+  const source: Pick<BudgetLine, 'accountCode' | 'accountName' | 'branchSync' | 'months'>[] =
+    lines.length > 0
+      ? lines
+      : templateBranches.flatMap((branchSync) =>
+          templateAccounts.map((account) => ({ ...account, branchSync, months: Array(12).fill(null) }))
+        );
+
+  return source.map((line) => ({
+    accountCode: line.accountCode,
+    accountName: line.accountName,
+    branchSync: line.branchSync,
+    ...Object.fromEntries(line.months.map((amount, index) => [monthKey(index), amount ?? ''])),
+    total: line.months.some((amount) => amount !== null)
+      ? line.months.reduce<number>((sum, amount) => sum + (amount ?? 0), 0)
+      : '',
+  }));
+}
+
+/** ค่าของเซลล์เป็นข้อความ/ตัวเลข (สูตร → ผลลัพธ์, rich text → ข้อความ) */
+function cellValue(cell: ExcelJS.Cell): string | number | null {
+  const value = cell.value;
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'object') {
+    if ('result' in value) return typeof value.result === 'number' ? value.result : String(value.result ?? '');
+    if ('richText' in value) return value.richText.map((part) => part.text).join('');
+    if ('text' in value) return String(value.text);
+  }
+  return String(value);
+}
+
+const text = (value: string | number | null) => (value === null ? '' : String(value).trim());
+
+/**
+ * อ่านงบประมาณจากไฟล์ Excel (แผ่นแรก) เป็นบรรทัดสำหรับ PUT /api/budgets
+ * แถวที่ไม่มีรหัสบัญชี (เช่นแถวรวม) จะถูกข้าม
+ * @throws APIError 400 เมื่อไม่พบหัวตารางหรือไม่มีข้อมูล
+ */
+export async function parseBudgetWorkbook(buffer: ArrayBuffer): Promise<BudgetLineInput[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw ErrorTypes.BAD_REQUEST('ไม่พบแผ่นงานในไฟล์');
+  }
+
+  let headerRow = 0;
+  const columns: { account?: number; branch?: number; months: (number | undefined)[] } = { months: [] };
+  for (let rowNumber = 1; rowNumber <= Math.min(worksheet.rowCount, HEADER_SEARCH_ROWS) && !headerRow; rowNumber++) {
+    const labels = new Map<string, number>();
+    worksheet.getRow(rowNumber).eachCell((cell, columnNumber) => labels.set(text(cellValue(cell)), columnNumber));
+    if (labels.has(ACCOUNT_HEADER) && labels.has(BRANCH_HEADER)) {
+      headerRow = rowNumber;
+      columns.account = labels.get(ACCOUNT_HEADER);
+      columns.branch = labels.get(BRANCH_HEADER);
+      columns.months = BUDGET_MONTH_LABELS.map((label) => labels.get(label));
+    }
+  }
+  if (!headerRow || columns.months.every((column) => column === undefined)) {
+    throw ErrorTypes.BAD_REQUEST(
+      `ไม่พบหัวตาราง: ต้องมีคอลัมน์ "${ACCOUNT_HEADER}", "${BRANCH_HEADER}" และเดือน ${BUDGET_MONTH_LABELS[0]}–${BUDGET_MONTH_LABELS[11]}`
+    );
+  }
+
+  const lines: BudgetLineInput[] = [];
+  for (let rowNumber = headerRow + 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    const accountCode = text(cellValue(row.getCell(columns.account!)));
+    if (!accountCode) continue;
+    lines.push({
+      accountCode,
+      branchSync: text(cellValue(row.getCell(columns.branch!))),
+      months: columns.months.map((column) => (column === undefined ? null : cellValue(row.getCell(column)))),
+    });
+  }
+
+  if (lines.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('ไม่พบบรรทัดงบประมาณในไฟล์');
+  }
+  return lines;
+}
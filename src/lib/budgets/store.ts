@@ -0,0 +1,222 @@
+/**
+ * Budget Store
+ * งบประมาณรายบัญชี × กิจการ × เดือน เก็บในฐานข้อมูล auth (libsql) แก้ไขได้เฉพาะผู้ดูแลระบบ
+ */
+
+import 'server-only';
+
+import type { InStatement, Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import type { DateRange } from '../data/types';
+import { ErrorTypes } from '../errors';
+import { budgetMonthBounds, budgetTotals } from './budget';
+import {
+  BUDGET_ACCOUNT_TYPES,
+  type BudgetAccount,
+  type BudgetEntry,
+  type BudgetLine,
+  type BudgetLineInput,
+  type BudgetTotals,
+} from './types';
+
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MIN_YEAR = 2000;
+const MAX_YEAR = 2100;
+/** จำนวนบรรทัดสูงสุดต่อการบันทึกหนึ่งครั้ง (นำเข้าจาก Excel) */
+const MAX_LINES = 5000;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS budget (
+    account_code TEXT NOT NULL,
+    branch_sync TEXT NOT NULL,
+    month TEXT NOT NULL,
+    amount REAL NOT NULL,
+    account_name TEXT NOT NULL DEFAULT '',
+    account_type TEXT NOT NULL,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (account_code, branch_sync, month)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_budget_month ON budget(month, branch_sync)',
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function rowToEntry(row: Row): BudgetEntry {
+  return {
+    accountCode: String(row.account_code),
+    accountName: String(row.account_name ?? ''),
+    accountType: String(row.account_type),
+    branchSync: String(row.branch_sync),
+    month: String(row.month),
+    amount: Number(row.amount) || 0,
+  };
+}
+
+/** เงื่อนไขกิจการ ('ALL' หรือว่าง = ทุกกิจการ) */
+function branchCondition(branches?: string[]): { sql: string; args: string[] } {
+  if (!branches || branches.length === 0 || branches.includes('ALL')) {
+    return { sql: '', args: [] };
+  }
+  return { sql: ` AND branch_sync IN (${branches.map(() => '?').join(', ')})`, args: branches };
+}
+
+/**
+ * @throws APIError 400
+ */
+function validateYear(year: number): number {
+  if (!Number.isInteger(year) || year < MIN_YEAR || year > MAX_YEAR) {
+    throw ErrorTypes.BAD_REQUEST(`ปีงบประมาณต้องอยู่ระหว่าง ${MIN_YEAR}–${MAX_YEAR}`);
+  }
+  return year;
+}
+
+/** ยอดของเดือน (null = ลบงบของเดือนนั้น) */
+function parseAmount(value: BudgetLineInput['months'][number], label: string): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+  if (!Number.isFinite(amount)) {
+    throw ErrorTypes.BAD_REQUEST(`ยอดงบประมาณไม่ถูกต้อง: ${label}`);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+const monthKey = (year: number, index: number) => `${year}-${String(index + 1).padStart(2, '0')}`;
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+/**
+ * งบประมาณของปี เป็นบรรทัดบัญชี × กิจการ เรียงตามกิจการและรหัสบัญชี
+ */
+export async function listBudgetLines(year: number, branches?: string[]): Promise<BudgetLine[]> {
+  validateYear(year);
+  await ensureSchema();
+  const filter = branchCondition(branches);
+  const result = await authDb.execute({
+    sql: `SELECT * FROM budget WHERE month BETWEEN ? AND ?${filter.sql} ORDER BY branch_sync, account_code, month`,
+    args: [`${year}-01`, `${year}-12`, ...filter.args],
+  });
+
+  const lines = new Map<string, BudgetLine>();
+  for (const entry of result.rows.map(rowToEntry)) {
+    const key = `${entry.branchSync}|${entry.accountCode}`;
+    let line = lines.get(key);
+    if (!line) {
+      line = { ...entry, year, months: Array(12).fill(null) };
+      lines.set(key, line);
+    }
+    line.months[Number(entry.month.slice(5, 7)) - 1] = entry.amount;
+  }
+  return [...lines.values()];
+}
+
+/**
+ * งบประมาณรายเดือนของทุกเดือนที่ช่วงวันที่ครอบคลุม (ยังไม่ตัดตามสัดส่วนวัน ดู budgetTotals)
+ */
+export async function getBudgetEntries(dateRange: DateRange, branches?: string[]): Promise<BudgetEntry[]> {
+  await ensureSchema();
+  const { from, to } = budgetMonthBounds(dateRange);
+  const filter = branchCondition(branches);
+  const result = await authDb.execute({
+    sql: `SELECT * FROM budget WHERE month BETWEEN ? AND ?${filter.sql}`,
+    args: [from, to, ...filter.args],
+  });
+  return result.rows.map(rowToEntry);
+}
+
+/**
+ * งบประมาณรวมต่อหมวดในช่วงวันที่ ตัดเดือนแรก/สุดท้ายตามสัดส่วนวัน (null เมื่อไม่มีงบประมาณ)
+ */
+export async function getBudgetTotals(dateRange: DateRange, branches?: string[]): Promise<BudgetTotals | null> {
+  return budgetTotals(await getBudgetEntries(dateRange, branches), dateRange);
+}
+
+/**
+ * บันทึกงบประมาณของปี (upsert รายเดือน เดือนที่ว่างจะถูกลบ)
+ * accounts คือผังบัญชีที่ตั้งงบได้ ใช้ตรวจรหัสบัญชีและเก็บชื่อ/ประเภทบัญชี
+ * @returns จำนวนบรรทัดที่บันทึก
+ * @throws APIError 400 เมื่อข้อมูลไม่ถูกต้องหรือมีรหัสบัญชีที่ไม่รู้จัก
+ */
+export async function saveBudgetLines(year: number, inputs: BudgetLineInput[], accounts: BudgetAccount[]): Promise<number> {
+  validateYear(year);
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('ไม่มีบรรทัดงบประมาณที่จะบันทึก');
+  }
+  if (inputs.length > MAX_LINES) {
+    throw ErrorTypes.BAD_REQUEST(`บันทึกได้ครั้งละไม่เกิน ${MAX_LINES} บรรทัด`);
+  }
+
+  const accountMap = new Map(accounts.map((account) => [account.accountCode, account]));
+  const unknown = new Set<string>();
+  const statements: InStatement[] = [];
+
+  for (const input of inputs) {
+    const accountCode = String(input.accountCode ?? '').trim();
+    const branchSync = String(input.branchSync ?? '').trim();
+    const account = accountMap.get(accountCode);
+    if (!account || !BUDGET_ACCOUNT_TYPES.includes(account.accountType)) {
+      unknown.add(accountCode || '(ว่าง)');
+      continue;
+    }
+    if (!BRANCH_CODE_PATTERN.test(branchSync)) {
+      throw ErrorTypes.BAD_REQUEST(`รหัสกิจการไม่ถูกต้อง: ${branchSync || '(ว่าง)'} (บัญชี ${accountCode})`);
+    }
+    if (!Array.isArray(input.months) || input.months.length > 12) {
+      throw ErrorTypes.BAD_REQUEST(`งบประมาณของบัญชี ${accountCode} ต้องเป็นยอดรายเดือนไม่เกิน 12 เดือน`);
+    }
+
+    for (let index = 0; index < 12; index++) {
+      const month = monthKey(year, index);
+      const amount = parseAmount(input.months[index], `${accountCode} ${branchSync} ${month}`);
+      statements.push(
+        amount === null
+          ? {
+              sql: 'DELETE FROM budget WHERE account_code = ? AND branch_sync = ? AND month = ?',
+              args: [accountCode, branchSync, month],
+            }
+          : {
+              sql: `INSERT INTO budget (account_code, branch_sync, month, amount, account_name, account_type)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                    ON CONFLICT (account_code, branch_sync, month) DO UPDATE SET
+                      amount = excluded.amount,
+                      account_name = excluded.account_name,
+                      account_type = excluded.account_type,
+                      updated_at = datetime('now')`,
+              args: [accountCode, branchSync, month, amount, account.accountName, account.accountType],
+            }
+      );
+    }
+  }
+
+  if (unknown.size > 0) {
+    throw ErrorTypes.BAD_REQUEST(
+      `ไม่พบรหัสบัญชีรายได้/ค่าใช้จ่าย: ${[...unknown].slice(0, 20).join(', ')}${unknown.size > 20 ? ' …' : ''}`
+    );
+  }
+
+  await ensureSchema();
+  await authDb.batch(statements, 'write');
+  return inputs.length;
+}
+
+/**
+ * ลบงบประมาณทั้งปีของบัญชีหนึ่งในกิจการหนึ่ง
+ */
+export async function deleteBudgetLine(year: number, accountCode: string, branchSync: string): Promise<void> {
+  validateYear(year);
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'DELETE FROM budget WHERE account_code = ? AND branch_sync = ? AND month BETWEEN ? AND ?',
+    args: [accountCode, branchSync, `${year}-01`, `${year}-12`],
+  });
+  if (result.rowsAffected === 0) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบงบประมาณปี ${year} ของบัญชี ${accountCode} กิจการ ${branchSync}`);
+  }
+}
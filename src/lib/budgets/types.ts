@@ -0,0 +1,68 @@
+/**
+ * Budget Types
+ * งบประมาณรายบัญชี ต่อกิจการ ต่อเดือน (เฉพาะบัญชีรายได้/ค่าใช้จ่าย) หมวดที่ใช้เทียบกับ KPI
+ * และผลเทียบยอดจริงกับงบประมาณ
+ */
+
+/** หมวดงบประมาณที่ใช้เทียบกับ KPI */
+export type BudgetCategory = 'revenue' | 'expenses' | 'costOfSales';
+
+export const BUDGET_CATEGORIES: Record<BudgetCategory, { label: string; accountType: string; prefix?: string }> = {
+  revenue: { label: 'รายได้', accountType: 'INCOME' },
+  expenses: { label: 'ค่าใช้จ่าย', accountType: 'EXPENSES' },
+  costOfSales: { label: 'ต้นทุนขาย', accountType: 'EXPENSES', prefix: '51' },
+};
+
+/** ประเภทบัญชีที่ตั้งงบประมาณได้ */
+export const BUDGET_ACCOUNT_TYPES = ['INCOME', 'EXPENSES'];
+
+/** หัวคอลัมน์เดือน ม.ค.–ธ.ค. (ใช้ทั้งหน้าจอและไฟล์ Excel) */
+export const BUDGET_MONTH_LABELS = [
+  'ม.ค.', 'ก.พ.', 'มี.ค.', 'เม.ย.', 'พ.ค.', 'มิ.ย.', 'ก.ค.', 'ส.ค.', 'ก.ย.', 'ต.ค.', 'พ.ย.', 'ธ.ค.',
+];
+
+/**
+ * งบประมาณหนึ่งบรรทัด: บัญชี × กิจการ × ปี
+ * ยอดเป็นบวกตามยอดปกติของบัญชี (รายได้และค่าใช้จ่ายเป็นบวก)
+ */
+export interface BudgetLine {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  branchSync: string;
+  year: number;
+  /** ยอดรายเดือน index 0 = ม.ค. (null = ไม่ได้ตั้งงบ) */
+  months: (number | null)[];
+}
+
+export interface BudgetLineInput {
+  accountCode: string;
+  branchSync: string;
+  months: (number | string | null | undefined)[];
+}
+
+/** บัญชีที่ตั้งงบประมาณได้ (จากผังบัญชีใน ClickHouse) */
+export interface BudgetAccount {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+}
+
+/** งบประมาณของเดือนหนึ่ง (ระดับที่เก็บในฐานข้อมูล) */
+export interface BudgetEntry extends BudgetAccount {
+  branchSync: string;
+  /** YYYY-MM */
+  month: string;
+  amount: number;
+}
+
+export type BudgetTotals = Record<BudgetCategory, number>;
+
+/** งบประมาณเทียบผลจริงของ KPI */
+export interface KPIBudget {
+  budget: number;
+  /** ผลจริง - งบประมาณ */
+  variance: number;
+  /** ผลจริงคิดเป็น % ของงบประมาณ (null เมื่องบเป็นศูนย์) */
+  achievementPct: number | null;
+}
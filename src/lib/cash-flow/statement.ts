@@ -0,0 +1,156 @@
+/**
+ * Cash flow statement (indirect method) from per-account journal balances
+ *
+ * Every journal entry balances, so the change in cash equals minus the movement
+ * (debit - credit) of every other account: net profit from INCOME/EXPENSES plus
+ * the change of each balance-sheet account, grouped into lines by the mapping.
+ * Opening and closing cash are the cash-line accounts; `difference` is what the mapping misses.
+ */
+
+import type { CashFlowData } from '../data/types';
+import {
+  CASH_FLOW_LINES,
+  CASH_FLOW_LINE_KEYS,
+  CASH_FLOW_SECTION_LABELS,
+  findCashFlowMapping,
+  type CashFlowAccountRow,
+  type CashFlowLineAmount,
+  type CashFlowLineKey,
+  type CashFlowMapping,
+  type CashFlowStatement,
+  type CashFlowStatementRow,
+} from './types';
+
+const SECTIONS = ['operating', 'investing', 'financing'] as const;
+
+const ACTIVITY_BY_SECTION = {
+  operating: 'Operating',
+  investing: 'Investing',
+  financing: 'Financing',
+} as const;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** บรรทัดสำรองของบัญชีที่ไม่มีกฎจับคู่ */
+function fallbackLine(accountType: string): CashFlowLineKey {
+  switch (accountType) {
+    case 'INCOME':
+    case 'EXPENSES':
+      return 'net_profit';
+    case 'LIABILITIES':
+      return 'other_current_liabilities';
+    case 'EQUITY':
+      return 'equity';
+    default:
+      return 'other_current_assets';
+  }
+}
+
+export function buildCashFlowStatement(rows: CashFlowAccountRow[], mappings: CashFlowMapping[]): CashFlowStatement {
+  const lines = new Map<CashFlowLineKey, CashFlowLineAmount>();
+  const statement: CashFlowStatement = {
+    lines: [],
+    activities: [],
+    netChange: 0,
+    openingCash: 0,
+    closingCash: 0,
+    cashAccounts: [],
+    difference: 0,
+    unmappedAccounts: [],
+  };
+
+  for (const row of rows) {
+    const isProfitAccount = row.accountType === 'INCOME' || row.accountType === 'EXPENSES';
+    const mapping = isProfitAccount ? null : findCashFlowMapping(row.accountCode, mappings);
+    const key = mapping?.line ?? fallbackLine(row.accountType);
+
+    if (key === 'cash') {
+      statement.openingCash += row.opening;
+      statement.closingCash += row.opening + row.movement;
+      statement.cashAccounts.push({
+        accountCode: row.accountCode,
+        accountName: row.accountName,
+        opening: row.opening,
+        closing: row.opening + row.movement,
+      });
+      continue;
+    }
+    if (row.movement === 0) continue;
+
+    const account = { accountCode: row.accountCode, accountName: row.accountName, amount: -row.movement };
+    if (!mapping && !isProfitAccount) statement.unmappedAccounts.push(account);
+
+    const info = CASH_FLOW_LINES[key];
+    const line = lines.get(key) ?? {
+      line: key,
+      label: info.label,
+      section: info.section as CashFlowLineAmount['section'],
+      amount: 0,
+      accounts: [],
+    };
+    line.amount += account.amount;
+    line.accounts.push(account);
+    lines.set(key, line);
+  }
+
+  // Net profit is always shown, the other lines only when they moved
+  if (!lines.has('net_profit')) {
+    lines.set('net_profit', { line: 'net_profit', label: CASH_FLOW_LINES.net_profit.label, section: 'operating', amount: 0, accounts: [] });
+  }
+  statement.lines = CASH_FLOW_LINE_KEYS.flatMap((key) => {
+    const line = lines.get(key);
+    return line ? [{ ...line, amount: round2(line.amount) }] : [];
+  });
+
+  statement.activities = SECTIONS.map((section): CashFlowData => {
+    const amounts = statement.lines.filter((line) => line.section === section).map((line) => line.amount);
+    return {
+      activityType: ACTIVITY_BY_SECTION[section],
+      inflow: round2(amounts.filter((a) => a > 0).reduce((sum, a) => sum + a, 0)),
+      outflow: round2(-amounts.filter((a) => a < 0).reduce((sum, a) => sum + a, 0)),
+      netCashFlow: round2(amounts.reduce((sum, a) => sum + a, 0)),
+    };
+  });
+
+  statement.netChange = round2(statement.activities.reduce((sum, a) => sum + a.netCashFlow, 0));
+  statement.openingCash = round2(statement.openingCash);
+  statement.closingCash = round2(statement.closingCash);
+  statement.difference = round2(statement.openingCash + statement.netChange - statement.closingCash);
+  return statement;
+}
+
+/**
+ * งบในรูปแบบแถว: แต่ละกิจกรรม (หัวข้อ, บรรทัด, ยอดสุทธิ) แล้วกระทบยอดเงินสดต้นงวด/ปลายงวด
+ */
+export function cashFlowStatementRows(statement: CashFlowStatement): CashFlowStatementRow[] {
+  const rows: CashFlowStatementRow[] = [];
+
+  SECTIONS.forEach((section, index) => {
+    rows.push({ key: section, label: CASH_FLOW_SECTION_LABELS[section], amount: null, kind: 'section' });
+    for (const line of statement.lines.filter((l) => l.section === section)) {
+      rows.push({ key: line.line, label: line.label, amount: line.amount, kind: 'line' });
+    }
+    rows.push({
+      key: `${section}-total`,
+      label: `เงินสดสุทธิ${CASH_FLOW_SECTION_LABELS[section].replace('กระแสเงินสด', '')}`,
+      amount: statement.activities[index]?.netCashFlow ?? 0,
+      kind: 'subtotal',
+    });
+  });
+
+  rows.push(
+    { key: 'net-change', label: 'เงินสดและรายการเทียบเท่าเงินสดเพิ่มขึ้น (ลดลง) สุทธิ', amount: statement.netChange, kind: 'total' },
+    { key: 'opening-cash', label: 'เงินสดและรายการเทียบเท่าเงินสดต้นงวด', amount: statement.openingCash, kind: 'reconciliation' },
+    {
+      key: 'computed-closing',
+      label: 'เงินสดและรายการเทียบเท่าเงินสดปลายงวด',
+      amount: round2(statement.openingCash + statement.netChange),
+      kind: 'total',
+    },
+    { key: 'book-closing', label: 'เงินสดปลายงวดตามบัญชีเงินสด/ธนาคาร', amount: statement.closingCash, kind: 'reconciliation' }
+  );
+  if (statement.difference !== 0) {
+    rows.push({ key: 'difference', label: 'ผลต่างที่กระทบยอดไม่ได้', amount: statement.difference, kind: 'reconciliation' });
+  }
+  return rows;
+}
@@ -0,0 +1,151 @@
+/**
+ * Cash Flow Mapping Store
+ * กฎจับคู่ผังบัญชี → บรรทัดงบกระแสเงินสด เก็บในฐานข้อมูล auth (libsql) แก้ไขได้เฉพาะผู้ดูแลระบบ
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import { CASH_FLOW_LINES, type CashFlowLineKey, type CashFlowMapping, type CashFlowMappingInput } from './types';
+
+const ACCOUNT_PREFIX_PATTERN = /^[A-Za-z0-9.-]{1,20}$/;
+
+/** ผังตั้งต้นตามผังบัญชีมาตรฐาน (1 สินทรัพย์, 2 หนี้สิน, 3 ทุน) ใช้ครั้งแรกที่ตารางยังว่าง */
+const DEFAULT_MAPPINGS: [prefix: string, line: CashFlowLineKey, note: string][] = [
+  ['111', 'cash', 'เงินสดและเงินฝากธนาคาร'],
+  ['113', 'receivables', 'ลูกหนี้การค้า'],
+  ['115', 'inventory', 'สินค้าคงเหลือ'],
+  ['11', 'other_current_assets', 'สินทรัพย์หมุนเวียนอื่น'],
+  ['12', 'investing', 'สินทรัพย์ไม่หมุนเวียน'],
+  ['211', 'borrowings', 'เงินเบิกเกินบัญชีและเงินกู้ยืมระยะสั้น'],
+  ['212', 'payables', 'เจ้าหนี้การค้า'],
+  ['21', 'other_current_liabilities', 'หนี้สินหมุนเวียนอื่น'],
+  ['22', 'borrowings', 'หนี้สินไม่หมุนเวียน'],
+  ['3', 'equity', 'ส่วนของผู้ถือหุ้น'],
+];
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema(
+  [
+    `CREATE TABLE IF NOT EXISTS cash_flow_mapping (
+      id TEXT PRIMARY KEY,
+      account_prefix TEXT NOT NULL UNIQUE,
+      line TEXT NOT NULL,
+      note TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`,
+  ],
+  async () => {
+    const result = await authDb.execute('SELECT count(*) AS count FROM cash_flow_mapping');
+    if (Number(result.rows[0]?.count) > 0) return;
+    await authDb.batch(
+      DEFAULT_MAPPINGS.map(([prefix, line, note]) => ({
+        sql: 'INSERT INTO cash_flow_mapping (id, account_prefix, line, note) VALUES (?, ?, ?, ?)',
+        args: [randomUUID(), prefix, line, note],
+      })),
+      'write'
+    );
+  }
+);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function rowToMapping(row: Row): CashFlowMapping {
+  return {
+    id: String(row.id),
+    accountPrefix: String(row.account_prefix),
+    line: String(row.line) as CashFlowLineKey,
+    note: String(row.note ?? ''),
+  };
+}
+
+/**
+ * รวมข้อมูลที่ส่งมากับค่าเดิม แล้วตรวจสอบความถูกต้อง
+ * @throws APIError 400
+ */
+function normalizeMapping(input: CashFlowMappingInput, existing?: CashFlowMapping) {
+  const accountPrefix = String(input.accountPrefix ?? existing?.accountPrefix ?? '').trim();
+  if (!ACCOUNT_PREFIX_PATTERN.test(accountPrefix)) {
+    throw ErrorTypes.BAD_REQUEST('รหัสบัญชีต้องเป็น A-Z, 0-9, . หรือ - ความยาวไม่เกิน 20 ตัวอักษร');
+  }
+
+  const line = input.line ?? existing?.line;
+  if (!line || !(line in CASH_FLOW_LINES)) {
+    throw ErrorTypes.BAD_REQUEST('บรรทัดงบกระแสเงินสดไม่ถูกต้อง');
+  }
+
+  return { accountPrefix, line, note: String(input.note ?? existing?.note ?? '').trim() };
+}
+
+async function assertPrefixAvailable(accountPrefix: string, exceptId?: string): Promise<void> {
+  const result = await authDb.execute({
+    sql: 'SELECT id FROM cash_flow_mapping WHERE account_prefix = ?',
+    args: [accountPrefix],
+  });
+  const id = result.rows[0]?.id;
+  if (id !== undefined && String(id) !== exceptId) {
+    throw ErrorTypes.CONFLICT(`มีกฎของรหัสบัญชี ${accountPrefix} อยู่แล้ว`);
+  }
+}
+
+// ============================================================================
+// Mappings
+// ============================================================================
+
+/**
+ * กฎทั้งหมด เรียงตามรหัสบัญชี
+ */
+export async function listCashFlowMappings(): Promise<CashFlowMapping[]> {
+  await ensureSchema();
+  const result = await authDb.execute('SELECT * FROM cash_flow_mapping ORDER BY account_prefix');
+  return result.rows.map(rowToMapping);
+}
+
+async function getCashFlowMapping(id: string): Promise<CashFlowMapping> {
+  await ensureSchema();
+  const result = await authDb.execute({ sql: 'SELECT * FROM cash_flow_mapping WHERE id = ?', args: [id] });
+  if (!result.rows[0]) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบกฎผังกระแสเงินสด: ${id}`);
+  }
+  return rowToMapping(result.rows[0]);
+}
+
+export async function createCashFlowMapping(input: CashFlowMappingInput): Promise<CashFlowMapping> {
+  await ensureSchema();
+  const values = normalizeMapping(input);
+  await assertPrefixAvailable(values.accountPrefix);
+
+  const mapping = { id: randomUUID(), ...values };
+  await authDb.execute({
+    sql: 'INSERT INTO cash_flow_mapping (id, account_prefix, line, note) VALUES (?, ?, ?, ?)',
+    args: [mapping.id, mapping.accountPrefix, mapping.line, mapping.note],
+  });
+  return mapping;
+}
+
+export async function updateCashFlowMapping(id: string, input: CashFlowMappingInput): Promise<CashFlowMapping> {
+  const existing = await getCashFlowMapping(id);
+  const values = normalizeMapping(input, existing);
+  await assertPrefixAvailable(values.accountPrefix, id);
+
+  await authDb.execute({
+    sql: `UPDATE cash_flow_mapping SET account_prefix = ?, line = ?, note = ?, updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [values.accountPrefix, values.line, values.note, id],
+  });
+  return { id, ...values };
+}
+
+export async function deleteCashFlowMapping(id: string): Promise<void> {
+  await getCashFlowMapping(id);
+  await authDb.execute({ sql: 'DELETE FROM cash_flow_mapping WHERE id = ?', args: [id] });
+}
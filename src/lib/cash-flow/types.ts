@@ -0,0 +1,122 @@
+/**
+ * Cash Flow Mapping Types
+ * ผังบัญชี → บรรทัดของงบกระแสเงินสด (วิธีทางอ้อม) และโครงสร้างงบที่คำนวณจากยอดต่อบัญชี
+ */
+
+import type { CashFlowData } from '../data/types';
+
+export type CashFlowSection = 'cash' | 'operating' | 'investing' | 'financing';
+
+export interface CashFlowLineInfo {
+  label: string;
+  section: CashFlowSection;
+}
+
+/** บรรทัดของงบ เรียงตามลำดับที่แสดง */
+export const CASH_FLOW_LINES = {
+  cash: { label: 'เงินสดและรายการเทียบเท่าเงินสด', section: 'cash' },
+  net_profit: { label: 'กำไร (ขาดทุน) สุทธิ', section: 'operating' },
+  non_cash: { label: 'ค่าเสื่อมราคาและรายการที่ไม่ใช่เงินสด', section: 'operating' },
+  receivables: { label: '(เพิ่มขึ้น) ลดลงในลูกหนี้การค้า', section: 'operating' },
+  inventory: { label: '(เพิ่มขึ้น) ลดลงในสินค้าคงเหลือ', section: 'operating' },
+  other_current_assets: { label: '(เพิ่มขึ้น) ลดลงในสินทรัพย์อื่น', section: 'operating' },
+  payables: { label: 'เพิ่มขึ้น (ลดลง) ในเจ้าหนี้การค้า', section: 'operating' },
+  other_current_liabilities: { label: 'เพิ่มขึ้น (ลดลง) ในหนี้สินอื่น', section: 'operating' },
+  investing: { label: 'ซื้อ/ขายสินทรัพย์ถาวรและเงินลงทุน', section: 'investing' },
+  borrowings: { label: 'เงินกู้ยืมเพิ่มขึ้น (ลดลง)', section: 'financing' },
+  equity: { label: 'ทุน เงินปันผล และส่วนของผู้ถือหุ้นอื่น', section: 'financing' },
+} as const satisfies Record<string, CashFlowLineInfo>;
+
+export type CashFlowLineKey = keyof typeof CASH_FLOW_LINES;
+
+export const CASH_FLOW_LINE_KEYS = Object.keys(CASH_FLOW_LINES) as CashFlowLineKey[];
+
+export const CASH_FLOW_SECTION_LABELS: Record<Exclude<CashFlowSection, 'cash'>, string> = {
+  operating: 'กระแสเงินสดจากกิจกรรมดำเนินงาน',
+  investing: 'กระแสเงินสดจากกิจกรรมลงทุน',
+  financing: 'กระแสเงินสดจากกิจกรรมจัดหาเงิน',
+};
+
+/** กฎจับคู่: รหัสบัญชีที่ขึ้นต้นด้วย accountPrefix ไปอยู่บรรทัด line (prefix ที่ยาวที่สุดชนะ) */
+export interface CashFlowMapping {
+  id: string;
+  accountPrefix: string;
+  line: CashFlowLineKey;
+  note: string;
+}
+
+export type CashFlowMappingInput = Partial<Omit<CashFlowMapping, 'id'>>;
+
+/**
+ * กฎที่ตรงกับรหัสบัญชีนี้ (prefix ยาวที่สุด) หรือ null
+ */
+export function findCashFlowMapping(accountCode: string, mappings: CashFlowMapping[]): CashFlowMapping | null {
+  let match: CashFlowMapping | null = null;
+  for (const mapping of mappings) {
+    if (accountCode.startsWith(mapping.accountPrefix) && mapping.accountPrefix.length > (match?.accountPrefix.length ?? -1)) {
+      match = mapping;
+    }
+  }
+  return match;
+}
+
+// ============================================================================
+// Statement
+// ============================================================================
+
+/** ยอดต่อบัญชีจาก journal (เดบิต - เครดิต) */
+export interface CashFlowAccountRow {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  /** ยอดสะสมก่อนวันเริ่มต้น */
+  opening: number;
+  /** ความเคลื่อนไหวในช่วงวันที่ */
+  movement: number;
+}
+
+export interface CashFlowAccountAmount {
+  accountCode: string;
+  accountName: string;
+  amount: number;
+}
+
+export interface CashFlowLineAmount {
+  line: CashFlowLineKey;
+  label: string;
+  section: Exclude<CashFlowSection, 'cash'>;
+  /** ผลต่อเงินสด (+ = เงินสดเพิ่ม) */
+  amount: number;
+  accounts: CashFlowAccountAmount[];
+}
+
+export interface CashFlowCashAccount {
+  accountCode: string;
+  accountName: string;
+  opening: number;
+  closing: number;
+}
+
+export interface CashFlowStatement {
+  lines: CashFlowLineAmount[];
+  /** สรุปรายกิจกรรม (CashFlowChart / หน้าเปรียบเทียบ) */
+  activities: CashFlowData[];
+  netChange: number;
+  openingCash: number;
+  closingCash: number;
+  cashAccounts: CashFlowCashAccount[];
+  /** เงินสดต้นงวด + เปลี่ยนแปลงสุทธิ - เงินสดปลายงวดตามบัญชี (≠ 0 = journal ไม่สมดุล) */
+  difference: number;
+  /** บัญชีงบดุลที่ไม่มีกฎจับคู่ (จัดเข้าบรรทัดอื่น ๆ ตามหมวดบัญชี) */
+  unmappedAccounts: CashFlowAccountAmount[];
+}
+
+export type CashFlowRowKind = 'section' | 'line' | 'subtotal' | 'total' | 'reconciliation';
+
+/** แถวของงบสำหรับตารางและ export */
+export interface CashFlowStatementRow {
+  key: string;
+  label: string;
+  amount: number | null;
+  kind: CashFlowRowKind;
+}
@@ -0,0 +1,158 @@
+/**
+ * Tool loop of the AI Data Assistant: ask the model, run the tools it calls
+ * (executeQuery / webSearch), send the results back, until it answers in text.
+ *
+ * Provider and tool execution are injected, so the loop runs offline with the
+ * mock provider (scripts/test-chat-agent.ts). Pure module (no server-only).
+ */
+
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMToolCall,
+  LLMToolDeclaration,
+  LLMToolResult,
+  LLMUsage,
+} from '../llm/types';
+import type { ChatHistoryTurn } from './history';
+import type { ChatQueryRecord, ChatStreamEvent } from './types';
+
+/** Tools offered to the model (the schema is cached in the system prompt, so no discovery tools) */
+export const CHAT_TOOLS: LLMToolDeclaration[] = [
+  {
+    name: 'executeQuery',
+    description:
+      'Execute a SELECT query on ClickHouse. The database schema is already provided in the system instructions, so you can write queries directly without needing to discover the schema.',
+    parameters: {
+      type: 'object',
+      properties: {
+        sql: { type: 'string', description: 'The SELECT SQL query to execute' },
+      },
+      required: ['sql'],
+    },
+  },
+  {
+    name: 'webSearch',
+    description:
+      'Search the web for external information to analyze causes, trends, or context. Use this when you need information outside the database such as economic news, market trends, holidays, or events that might explain data patterns.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'The search query in Thai or English' },
+      },
+      required: ['query'],
+    },
+  },
+];
+
+/** Result of one tool call */
+export interface ChatToolOutcome {
+  /** Sent back to the model */
+  response: unknown;
+  /** executeQuery: SQL record saved with the answer */
+  query?: ChatQueryRecord;
+  /** webSearch: number of results */
+  resultCount?: number;
+}
+
+export type ChatToolExecutor = (call: LLMToolCall) => Promise<ChatToolOutcome>;
+
+export interface ChatTurnOptions {
+  provider: LLMProvider;
+  system: string;
+  history: ChatHistoryTurn[];
+  question: string;
+  executeTool: ChatToolExecutor;
+  /** Progress events (query / search / text) */
+  send: (event: ChatStreamEvent) => void;
+  signal?: AbortSignal;
+  maxIterations?: number;
+}
+
+export interface ChatTurnResult {
+  answer: string;
+  queries: ChatQueryRecord[];
+  iterations: number;
+  usage: LLMUsage;
+  /** Stopped by the signal; answer and queries are what was done so far */
+  cancelled: boolean;
+}
+
+const DEFAULT_MAX_ITERATIONS = 20;
+
+/**
+ * Run one chat turn
+ * @throws the provider / tool error unless the turn was cancelled
+ */
+export async function runChatTurn({
+  provider,
+  system,
+  history,
+  question,
+  executeTool,
+  send,
+  signal,
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+}: ChatTurnOptions): Promise<ChatTurnResult> {
+  const messages: LLMMessage[] = [...history.map((turn) => ({ ...turn })), { role: 'user', content: question }];
+  const queries: ChatQueryRecord[] = [];
+  const usage: LLMUsage = { promptTokens: 0, responseTokens: 0, totalTokens: 0 };
+  let answer = '';
+  let iterations = 0;
+
+  try {
+    while (iterations < maxIterations && !signal?.aborted) {
+      iterations++;
+
+      const response = await provider.chat({
+        system,
+        messages,
+        tools: CHAT_TOOLS,
+        signal,
+        onText: (delta) => {
+          answer += delta;
+          send({ type: 'text', delta });
+        },
+      });
+      if (response.usage) {
+        usage.promptTokens += response.usage.promptTokens;
+        usage.responseTokens += response.usage.responseTokens;
+        usage.totalTokens += response.usage.totalTokens;
+      }
+
+      // No tool calls: the streamed text is the final answer
+      if (response.toolCalls.length === 0) break;
+
+      messages.push({ role: 'assistant', content: response.text, toolCalls: response.toolCalls });
+      const results: LLMToolResult[] = [];
+      for (const call of response.toolCalls) {
+        if (signal?.aborted) break;
+
+        if (call.name === 'executeQuery') send({ type: 'query', sql: String(call.args.sql ?? '') });
+        if (call.name === 'webSearch') send({ type: 'search', query: String(call.args.query ?? '') });
+
+        const outcome = await executeTool(call);
+
+        if (call.name === 'executeQuery') {
+          const record = outcome.query ?? { sql: String(call.args.sql ?? ''), rowCount: null, error: null };
+          queries.push(record);
+          send({ type: 'query_result', ...record });
+        }
+        if (call.name === 'webSearch') {
+          send({ type: 'search_result', query: String(call.args.query ?? ''), resultCount: outcome.resultCount ?? 0 });
+        }
+
+        results.push({ callId: call.id, name: call.name, response: outcome.response });
+      }
+      messages.push({ role: 'tool', results });
+    }
+
+    if (iterations >= maxIterations) {
+      console.log('[Chat] WARNING: Max iterations reached!');
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  }
+
+  return { answer, queries, iterations, usage, cancelled: Boolean(signal?.aborted) };
+}
@@ -0,0 +1,149 @@
+/**
+ * Client-side helper for POST /api/chat-direct (ChatBot page and ChatWidget)
+ * Reads the NDJSON event stream and folds it into the progress of the running turn.
+ */
+
+import type { ChatStreamEvent } from './types';
+
+/** Tool call shown while the answer is being prepared */
+export interface ChatStep {
+  kind: 'query' | 'search';
+  /** SQL text or search query */
+  text: string;
+  status: 'running' | 'done' | 'error';
+  /** Row count / result count / error message */
+  detail?: string;
+}
+
+export interface ChatTurnProgress {
+  answer: string;
+  steps: ChatStep[];
+  status: string | null;
+}
+
+export const EMPTY_TURN: ChatTurnProgress = { answer: '', steps: [], status: null };
+
+function finishLastStep(steps: ChatStep[], kind: ChatStep['kind'], update: Partial<ChatStep>): ChatStep[] {
+  const index = steps.findLastIndex((step) => step.kind === kind && step.status === 'running');
+  return index === -1 ? steps : steps.map((step, i) => (i === index ? { ...step, ...update } : step));
+}
+
+/**
+ * Apply one stream event to the turn progress
+ */
+export function reduceChatEvent(progress: ChatTurnProgress, event: ChatStreamEvent): ChatTurnProgress {
+  switch (event.type) {
+    case 'status':
+      return { ...progress, status: event.message };
+    case 'query':
+      return {
+        ...progress,
+        status: 'กำลังรัน query',
+        steps: [...progress.steps, { kind: 'query', text: event.sql, status: 'running' }],
+      };
+    case 'query_result':
+      return {
+        ...progress,
+        status: 'กำลังวิเคราะห์ผลลัพธ์',
+        steps: finishLastStep(
+          progress.steps,
+          'query',
+          event.error
+            ? { status: 'error', detail: event.error }
+            : { status: 'done', detail: `${event.rowCount ?? 0} แถว` }
+        ),
+      };
+    case 'search':
+      return {
+        ...progress,
+        status: 'กำลังค้นหาข้อมูลบนเว็บ',
+        steps: [...progress.steps, { kind: 'search', text: event.query, status: 'running' }],
+      };
+    case 'search_result':
+      return {
+        ...progress,
+        steps: finishLastStep(progress.steps, 'search', { status: 'done', detail: `${event.resultCount} ผลลัพธ์` }),
+      };
+    case 'text':
+      return { ...progress, status: null, answer: progress.answer + event.delta };
+    default:
+      return progress;
+  }
+}
+
+export interface SendChatOptions {
+  /** ว่างไว้ = เริ่มบทสนทนาใหม่ */
+  conversationId?: string | null;
+  message: string;
+  /** Abort = ยกเลิกรอบนี้ (server บันทึกคำตอบบางส่วนไว้) */
+  signal?: AbortSignal;
+  /** เรียกทุกครั้งที่ progress เปลี่ยน */
+  onProgress: (progress: ChatTurnProgress) => void;
+}
+
+export interface SendChatResult {
+  /** id ของบทสนทนา (ใหม่หรือเดิม) หรือ null ถ้ายกเลิกก่อนเริ่ม */
+  conversationId: string | null;
+  cancelled: boolean;
+  /** error event ระหว่าง stream (คำถามถูกบันทึกแล้ว แต่ไม่มีคำตอบ) */
+  error?: string;
+}
+
+/**
+ * ส่งคำถามแล้วอ่าน event stream จนจบ
+ * @throws Error เมื่อ server ปฏิเสธคำขอก่อนเริ่ม stream
+ */
+export async function sendChatMessage({
+  conversationId,
+  message,
+  signal,
+  onProgress,
+}: SendChatOptions): Promise<SendChatResult> {
+  let currentId = conversationId || null;
+  let progress = EMPTY_TURN;
+
+  try {
+    const response = await fetch('/api/chat-direct', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ conversationId: conversationId || undefined, message }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Request failed');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as ChatStreamEvent;
+        if (event.type === 'conversation') currentId = event.conversationId;
+        if (event.type === 'error') return { conversationId: currentId, cancelled: false, error: event.message };
+        if (event.type === 'done') return { conversationId: currentId, cancelled: event.cancelled };
+
+        progress = reduceChatEvent(progress, event);
+        onProgress(progress);
+      }
+    }
+
+    return { conversationId: currentId, cancelled: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { conversationId: currentId, cancelled: true };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Chat history window for the model
+ * ส่งเฉพาะข้อความล่าสุดให้โมเดล ข้อความที่เก่ากว่านั้นสรุปรวมไว้ในบทสนทนา (สรุปเพิ่มทีละชุด ไม่สรุปใหม่ทุกรอบ)
+ */
+
+import 'server-only';
+
+import { getLLMProvider } from '../llm';
+import { getConversationSummary, saveConversationSummary } from './store';
+import type { ChatMessage, ChatRole } from './types';
+
+/** จำนวนข้อความล่าสุดที่ส่งให้โมเดลแบบเต็ม */
+const MAX_HISTORY_MESSAGES = Number(process.env.CHAT_HISTORY_MAX_MESSAGES) || 20;
+/** สรุปเมื่อมีข้อความเกินหน้าต่างสะสมครบจำนวนนี้ */
+const SUMMARY_BATCH = 10;
+/** ตัดข้อความยาว ๆ (เช่นตารางผลลัพธ์) ก่อนส่งเป็น history */
+const MAX_MESSAGE_CHARS = 4000;
+
+export interface ChatHistoryTurn {
+  role: ChatRole;
+  content: string;
+}
+
+function clip(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n…(ตัดทอน)` : text;
+}
+
+async function summarize(previousSummary: string, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages
+    .map((m) => `${m.role === 'user' ? 'ผู้ใช้' : 'AI'}: ${clip(m.content, 1500)}`)
+    .join('\n\n');
+  const prompt = [
+    'สรุปบทสนทนาต่อไปนี้เป็นภาษาไทยไม่เกิน 200 คำ เก็บคำถามหลัก ตัวเลขสำคัญ ช่วงวันที่ กิจการ และข้อสรุปที่ได้',
+    previousSummary && `สรุปเดิม:\n${previousSummary}`,
+    `บทสนทนาเพิ่มเติม:\n${transcript}`,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return getLLMProvider().generateText(prompt);
+}
+
+/**
+ * History ที่จะส่งให้โมเดลสำหรับบทสนทนานี้ (ไม่รวมข้อความใหม่ที่กำลังถาม)
+ * ถ้าสรุปไม่สำเร็จ จะตัดข้อความเก่าทิ้งแทน
+ */
+export async function buildModelHistory(conversationId: string, messages: ChatMessage[]): Promise<ChatHistoryTurn[]> {
+  let { summary, summarizedCount } = await getConversationSummary(conversationId);
+
+  const cutoff = messages.length - MAX_HISTORY_MESSAGES;
+  if (cutoff - summarizedCount >= SUMMARY_BATCH) {
+    try {
+      summary = await summarize(summary, messages.slice(summarizedCount, cutoff));
+      summarizedCount = cutoff;
+      await saveConversationSummary(conversationId, summary, summarizedCount);
+    } catch (error) {
+      console.error('[Chat] Failed to summarize history, truncating instead:', error);
+    }
+  }
+
+  const start = Math.max(summarizedCount, cutoff - SUMMARY_BATCH + 1, 0);
+  const turns: ChatHistoryTurn[] = [];
+  if (summary) {
+    turns.push(
+      { role: 'user', content: `สรุปบทสนทนาก่อนหน้านี้:\n${summary}` },
+      { role: 'assistant', content: 'รับทราบ' }
+    );
+  }
+
+  for (const message of messages.slice(start)) {
+    const content = clip(message.content, MAX_MESSAGE_CHARS);
+    const last = turns[turns.length - 1];
+    // คำถามที่ไม่ได้คำตอบ (เช่นเกิด error) ทำให้มีข้อความ role เดียวกันติดกัน
+    if (last?.role === message.role) {
+      last.content += `\n\n${content}`;
+    } else {
+      turns.push({ role: message.role, content });
+    }
+  }
+
+  // history ต้องเริ่มด้วยข้อความของผู้ใช้ (Gemini บังคับ)
+  while (turns[0]?.role === 'assistant') turns.shift();
+  // และสลับผู้ใช้/โมเดล ข้อความใหม่ที่จะส่งต่อท้ายเป็นของผู้ใช้
+  if (turns[turns.length - 1]?.role === 'user') {
+    turns.push({ role: 'assistant', content: '(ไม่มีคำตอบ)' });
+  }
+  return turns;
+}
@@ -0,0 +1,236 @@
+/**
+ * SQL sandbox for the AI chat executeQuery tool
+ *
+ * Tokenizes the statement (strings, quoted identifiers and comments aside) and checks it:
+ * - exactly one SELECT / WITH statement
+ * - no write/DDL/admin keywords, INTO OUTFILE, FORMAT or SETTINGS clauses
+ * - every table after FROM / JOIN / IN is an allowlisted table of the current database
+ *   (no db-qualified names such as system.*, no table functions such as url()/file()/remote())
+ * - no denylisted functions (sleep, joinGet, dictGet, ...)
+ * then wraps it in an outer query with a forced LIMIT.
+ *
+ * Pure module (no server-only) so scripts/test-sql-sandbox.ts can run it directly.
+ */
+
+import { ErrorTypes } from '../errors';
+
+type TokenType = 'word' | 'quoted' | 'string' | 'number' | 'symbol';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  /** Offset just past the token in the original SQL */
+  end: number;
+}
+
+export interface SqlGuardOptions {
+  /** Tables the query may read (current database, unqualified names) */
+  allowedTables: Iterable<string>;
+  /** Outer LIMIT applied to every query */
+  maxRows: number;
+}
+
+export interface GuardedQuery {
+  /** Query to run: the original statement wrapped with a LIMIT */
+  sql: string;
+  /** Allowlisted tables the statement reads */
+  tables: string[];
+}
+
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'ALTER', 'DROP', 'CREATE', 'ATTACH', 'DETACH', 'RENAME', 'TRUNCATE',
+  'EXCHANGE', 'UNDROP', 'OPTIMIZE', 'SYSTEM', 'KILL', 'GRANT', 'REVOKE', 'SET', 'SETTINGS', 'INTO',
+  'OUTFILE', 'INFILE', 'BACKUP', 'RESTORE', 'WATCH', 'USE', 'INFORMATION_SCHEMA',
+]);
+
+/** Functions that reach outside the allowlisted tables or stall the server */
+const FORBIDDEN_FUNCTIONS = new Set([
+  'url', 'urlcluster', 'file', 'filecluster', 'remote', 'remotesecure', 'cluster', 'clusterallreplicas',
+  's3', 's3cluster', 'gcs', 'hdfs', 'hdfscluster', 'azureblobstorage', 'azureblobstoragecluster',
+  'mysql', 'postgresql', 'mongodb', 'redis', 'sqlite', 'jdbc', 'odbc', 'executable', 'executablepool',
+  'input', 'dictionary', 'merge', 'mergetreeindex', 'numbers', 'numbers_mt', 'zeros', 'zeros_mt',
+  'generaterandom', 'generate_series', 'loop', 'fuzzjson', 'fuzzquery', 'sleep', 'sleepeachrow',
+  'joinget', 'joingetornull', 'getsetting', 'getmacro', 'hascolumnintable', 'filesystemavailable',
+  'filesystemcapacity', 'filesystemunreserved',
+]);
+const FORBIDDEN_FUNCTION_PREFIXES = ['dictget', 'dicthas', 'iceberg', 'deltalake', 'hudi'];
+
+/** Clauses that end a FROM list (a comma after them is not another table) */
+const FROM_LIST_END = new Set([
+  'WHERE', 'PREWHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'EXCEPT', 'INTERSECT',
+  'WINDOW', 'QUALIFY', 'ARRAY', 'ON', 'USING',
+]);
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+function reject(message: string): never {
+  throw ErrorTypes.BAD_REQUEST(`SQL ไม่ผ่านการตรวจสอบ: ${message}`);
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      if (end === -1) reject('comment ไม่ปิด');
+      i = end + 2;
+    } else if (ch === "'" || ch === '`' || ch === '"') {
+      let value = '';
+      let j = i + 1;
+      for (;;) {
+        if (j >= sql.length) reject('string หรือชื่อที่อยู่ในเครื่องหมายคำพูดไม่ปิด');
+        if (sql[j] === '\\') {
+          value += sql[j + 1] ?? '';
+          j += 2;
+        } else if (sql[j] === ch && sql[j + 1] === ch) {
+          value += ch;
+          j += 2;
+        } else if (sql[j] === ch) {
+          break;
+        } else {
+          value += sql[j++];
+        }
+      }
+      tokens.push({ type: ch === "'" ? 'string' : 'quoted', value, end: j + 1 });
+      i = j + 1;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(sql.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'word', value: match[0], end: i });
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9][0-9A-Za-z_.]*/.exec(sql.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], end: i });
+    } else if (ch === '$' || ch === '#') {
+      reject(`ไม่รองรับเครื่องหมาย ${ch}`);
+    } else {
+      i++;
+      tokens.push({ type: 'symbol', value: ch, end: i });
+    }
+  }
+
+  return tokens;
+}
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.type === 'word' && words.includes(token.value.toUpperCase());
+
+const isSymbol = (token: Token | undefined, symbol: string) => token?.type === 'symbol' && token.value === symbol;
+
+const isName = (token: Token | undefined) => token?.type === 'word' || token?.type === 'quoted';
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a chat query against the sandbox rules and wrap it with a LIMIT
+ * @throws APIError 400 with the reason when the query is not allowed
+ */
+export function guardChatQuery(sql: string, options: SqlGuardOptions): GuardedQuery {
+  const tokens = tokenize(sql);
+
+  // Trailing semicolons are fine, anything after one is a second statement
+  while (isSymbol(tokens[tokens.length - 1], ';')) tokens.pop();
+  if (tokens.length === 0) reject('ไม่มีคำสั่ง');
+  if (tokens.some((t) => isSymbol(t, ';'))) reject('รันได้ครั้งละหนึ่งคำสั่งเท่านั้น');
+
+  const first = tokens.find((t) => !isSymbol(t, '('));
+  if (!isWord(first, 'SELECT', 'WITH')) reject('อนุญาตเฉพาะคำสั่ง SELECT');
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!isName(token)) continue;
+    const isCall = isSymbol(tokens[i + 1], '(');
+
+    // format() is a string function, FORMAT <name> is an output clause
+    if (token.type === 'word' && !isCall) {
+      const upper = token.value.toUpperCase();
+      if (upper === 'FORMAT') reject('ห้ามกำหนด FORMAT');
+      if (FORBIDDEN_KEYWORDS.has(upper)) reject(`ห้ามใช้คำสั่ง ${upper}`);
+    }
+
+    if (isCall) {
+      const lower = token.value.toLowerCase();
+      if (FORBIDDEN_FUNCTIONS.has(lower) || FORBIDDEN_FUNCTION_PREFIXES.some((p) => lower.startsWith(p))) {
+        reject(`ห้ามใช้ฟังก์ชัน ${token.value}()`);
+      }
+    }
+  }
+
+  const allowed = new Set(options.allowedTables);
+  // CTE names: <name> AS ( SELECT ...
+  const cteNames = new Set<string>();
+  for (let i = 0; i + 3 < tokens.length; i++) {
+    if (isName(tokens[i]) && isWord(tokens[i + 1], 'AS') && isSymbol(tokens[i + 2], '(') && isWord(tokens[i + 3], 'SELECT', 'WITH')) {
+      cteNames.add(tokens[i].value);
+    }
+  }
+
+  const tables = new Set<string>();
+
+  /** Check the table reference starting at `index` */
+  const readTable = (index: number): void => {
+    const token = tokens[index];
+    if (isSymbol(token, '(')) return; // subquery, checked as part of the token stream
+    if (!isName(token)) reject('ไม่พบชื่อตารางหลัง FROM/JOIN');
+    if (isSymbol(tokens[index + 1], '.')) reject(`ห้ามอ้างตารางข้ามฐานข้อมูล (${token.value}.${tokens[index + 2]?.value ?? ''})`);
+    if (isSymbol(tokens[index + 1], '(')) reject(`ห้ามใช้ table function ${token.value}()`);
+
+    if (!cteNames.has(token.value)) {
+      if (!allowed.has(token.value)) reject(`ไม่อนุญาตให้อ่านตาราง ${token.value}`);
+      tables.add(token.value);
+    }
+  };
+
+  // Paren frames: FROM names a table at the top level and in subqueries (including
+  // FROM-first syntax), but not inside calls such as EXTRACT(YEAR FROM d)
+  const frames: { call: boolean; first?: Token; inFrom: boolean }[] = [{ call: false, inFrom: false }];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const frame = frames[frames.length - 1];
+    frame.first ??= token;
+    const tableContext = !frame.call || isWord(frame.first, 'SELECT', 'WITH', 'FROM');
+
+    if (isSymbol(token, '(')) {
+      frames.push({ call: isName(tokens[i - 1]), inFrom: false });
+    } else if (isSymbol(token, ')')) {
+      if (frames.length === 1) reject('วงเล็บไม่สมดุล');
+      frames.pop();
+    } else if (isWord(token, 'SELECT')) {
+      frame.inFrom = false;
+    } else if (isWord(token, 'FROM') && tableContext) {
+      frame.inFrom = true;
+      readTable(i + 1);
+    } else if (isSymbol(token, ',') && frame.inFrom) {
+      // Comma join: FROM a x, b y
+      readTable(i + 1);
+    } else if (isWord(token, 'JOIN') && !isWord(tokens[i - 1], 'ARRAY')) {
+      readTable(i + 1);
+    } else if (isWord(token, 'IN') && tableContext && isName(tokens[i + 1]) && !isSymbol(tokens[i + 2], '(')) {
+      // x IN table_name reads a whole table
+      readTable(i + 1);
+    } else if (token.type === 'word' && FROM_LIST_END.has(token.value.toUpperCase())) {
+      frame.inFrom = false;
+    }
+  }
+  if (frames.length !== 1) reject('วงเล็บไม่สมดุล');
+
+  // Cut at the last token: drops trailing semicolons and comments
+  const statement = sql.slice(0, tokens[tokens.length - 1].end).trim();
+  return {
+    sql: `SELECT * FROM (\n${statement}\n) LIMIT ${options.maxRows}`,
+    tables: [...tables],
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * SQL execution for the AI chat (executeQuery tool and "run again" from history)
+ * Every query goes through the sandbox in ./sql-guard and runs read-only with
+ * resource limits and the user's branch filter.
+ */
+
+import 'server-only';
+
+import { branchAccessOf } from '../branch-access';
+import { getClickHouse } from '../clickhouse';
+import { ErrorTypes } from '../errors';
+import type { User } from '../permissions/types';
+import { getSchemaCache } from '../schemaCache';
+import { guardChatQuery } from './sql-guard';
+import { CHAT_QUERY_ROW_LIMIT, type ChatQueryResult } from './types';
+
+/** Rows a chat query may return (the model and UI see the first CHAT_QUERY_ROW_LIMIT) */
+const MAX_RESULT_ROWS = 1000;
+const MAX_EXECUTION_SECONDS = Number(process.env.CHAT_SQL_MAX_EXECUTION_SECONDS) || 15;
+const MAX_ROWS_TO_READ = Number(process.env.CHAT_SQL_MAX_ROWS_TO_READ) || 50_000_000;
+
+const BRANCH_COLUMN = 'branch_sync';
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * ClickHouse `additional_table_filters` value restricting every branch-aware table
+ * (tables with a branch_sync column) to the user's allowed branches.
+ * Null when the user may read all branches.
+ */
+function branchTableFilters(user: User, branchTables: string[]): string | null {
+  const access = branchAccessOf(user);
+  if (access.unrestricted) return null;
+  if (access.branches.length === 0) {
+    throw ErrorTypes.FORBIDDEN('ไม่มีสิทธิ์เข้าถึงข้อมูลกิจการใด');
+  }
+  if (access.branches.some((b) => !BRANCH_CODE_PATTERN.test(b))) {
+    throw ErrorTypes.FORBIDDEN('รหัสกิจการในสิทธิ์ผู้ใช้ไม่ถูกต้อง');
+  }
+
+  const inList = access.branches.map((b) => `\\'${b}\\'`).join(', ');
+  const entries = branchTables.map((table) => `'${table}': '${BRANCH_COLUMN} IN (${inList})'`);
+  return entries.length > 0 ? `{${entries.join(', ')}}` : null;
+}
+
+/**
+ * รัน SELECT ของ AI chat ด้วยสิทธิ์ของผู้ใช้ แล้วคืนไม่เกิน CHAT_QUERY_ROW_LIMIT แถว
+ * @throws APIError 400 เมื่อ SQL ไม่ผ่าน sandbox, 403 เมื่อผู้ใช้ไม่มีสิทธิ์กิจการใด
+ */
+export async function runChatQuery(sql: string, user: User): Promise<ChatQueryResult> {
+  const schema = await getSchemaCache();
+  const guarded = guardChatQuery(sql, {
+    allowedTables: schema.map((table) => table.tableName),
+    maxRows: MAX_RESULT_ROWS,
+  });
+  const branchTables = schema
+    .filter((table) => table.columns.some((c) => c.name === BRANCH_COLUMN))
+    .map((table) => table.tableName);
+  const tableFilters = branchTableFilters(user, branchTables);
+
+  const clickhouse = await getClickHouse();
+  const result = await clickhouse.query({
+    query: guarded.sql,
+    format: 'JSONEachRow',
+    clickhouse_settings: {
+      // 2 = read-only for data, while still accepting the limits below in the same request
+      readonly: '2',
+      max_execution_time: MAX_EXECUTION_SECONDS,
+      max_result_rows: String(MAX_RESULT_ROWS),
+      result_overflow_mode: 'break',
+      max_rows_to_read: String(MAX_ROWS_TO_READ),
+      read_overflow_mode: 'throw',
+      ...(tableFilters && { additional_table_filters: tableFilters }),
+    },
+  });
+  const rows: Record<string, unknown>[] = await result.json();
+
+  return { sql: sql.trim(), rowCount: rows.length, rows: rows.slice(0, CHAT_QUERY_ROW_LIMIT) };
+}
@@ -0,0 +1,250 @@
+/**
+ * AI Chat History Store
+ * บทสนทนาและข้อความของผู้ใช้แต่ละคน เก็บในฐานข้อมูล auth (libsql)
+ * ผู้ใช้เห็นเฉพาะบทสนทนาของตัวเอง
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import type { User } from '../permissions/types';
+import {
+  CHAT_TITLE_MAX_LENGTH,
+  type ChatConversation,
+  type ChatConversationDetail,
+  type ChatMessage,
+  type ChatQueryRecord,
+  type ChatRole,
+} from './types';
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS chat_conversation (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL DEFAULT '',
+    summarized_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  'CREATE INDEX IF NOT EXISTS chat_conversation_user ON chat_conversation (user_id, updated_at)',
+  `CREATE TABLE IF NOT EXISTS chat_message (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    queries TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  'CREATE UNIQUE INDEX IF NOT EXISTS chat_message_seq ON chat_message (conversation_id, seq)',
+]);
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+function parseQueries(raw: unknown): ChatQueryRecord[] {
+  try {
+    const parsed = JSON.parse(String(raw ?? '[]'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToConversation(row: Row): ChatConversation {
+  return {
+    id: String(row.id),
+    title: String(row.title),
+    messageCount: Number(row.message_count) || 0,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+function rowToMessage(row: Row): ChatMessage {
+  return {
+    id: String(row.id),
+    role: String(row.role) as ChatRole,
+    content: String(row.content),
+    queries: parseQueries(row.queries),
+    createdAt: String(row.created_at),
+  };
+}
+
+function normalizeTitle(title: unknown): string {
+  const value = String(title ?? '').replace(/\s+/g, ' ').trim();
+  if (!value) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อบทสนทนา');
+  }
+  return value.slice(0, CHAT_TITLE_MAX_LENGTH);
+}
+
+const CONVERSATION_COLUMNS = `c.id, c.title, c.created_at, c.updated_at,
+  (SELECT count(*) FROM chat_message m WHERE m.conversation_id = c.id) AS message_count`;
+
+// ============================================================================
+// Conversations
+// ============================================================================
+
+/**
+ * บทสนทนาของผู้ใช้ ล่าสุดก่อน
+ */
+export async function listConversations(user: User): Promise<ChatConversation[]> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: `SELECT ${CONVERSATION_COLUMNS} FROM chat_conversation c
+          WHERE c.user_id = ?
+          ORDER BY c.updated_at DESC, c.id`,
+    args: [user.id],
+  });
+  return result.rows.map(rowToConversation);
+}
+
+/**
+ * @throws APIError 404 เมื่อไม่พบ หรือเป็นบทสนทนาของผู้อื่น
+ */
+export async function getConversation(id: string, user: User): Promise<ChatConversation> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: `SELECT ${CONVERSATION_COLUMNS} FROM chat_conversation c WHERE c.id = ? AND c.user_id = ?`,
+    args: [id, user.id],
+  });
+  if (!result.rows[0]) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบบทสนทนา: ${id}`);
+  }
+  return rowToConversation(result.rows[0]);
+}
+
+export async function getConversationDetail(id: string, user: User): Promise<ChatConversationDetail> {
+  const conversation = await getConversation(id, user);
+  return { ...conversation, messages: await listMessages(id) };
+}
+
+export async function createConversation(user: User, title: string): Promise<ChatConversation> {
+  await ensureSchema();
+  const id = randomUUID();
+  await authDb.execute({
+    sql: 'INSERT INTO chat_conversation (id, user_id, title) VALUES (?, ?, ?)',
+    args: [id, user.id, normalizeTitle(title)],
+  });
+  return getConversation(id, user);
+}
+
+export async function renameConversation(id: string, user: User, title: unknown): Promise<ChatConversation> {
+  await getConversation(id, user);
+  await authDb.execute({
+    sql: `UPDATE chat_conversation SET title = ?, updated_at = datetime('now') WHERE id = ?`,
+    args: [normalizeTitle(title), id],
+  });
+  return getConversation(id, user);
+}
+
+export async function deleteConversation(id: string, user: User): Promise<void> {
+  await getConversation(id, user);
+  await authDb.batch(
+    [
+      { sql: 'DELETE FROM chat_message WHERE conversation_id = ?', args: [id] },
+      { sql: 'DELETE FROM chat_conversation WHERE id = ?', args: [id] },
+    ],
+    'write'
+  );
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+export async function listMessages(conversationId: string): Promise<ChatMessage[]> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT * FROM chat_message WHERE conversation_id = ? ORDER BY seq',
+    args: [conversationId],
+  });
+  return result.rows.map(rowToMessage);
+}
+
+/**
+ * เพิ่มข้อความท้ายบทสนทนา (ไม่ตรวจเจ้าของ ผู้เรียกต้องผ่าน getConversation มาก่อน)
+ */
+export async function appendMessage(
+  conversationId: string,
+  message: { role: ChatRole; content: string; queries?: ChatQueryRecord[] }
+): Promise<ChatMessage> {
+  await ensureSchema();
+  const id = randomUUID();
+  await authDb.batch(
+    [
+      {
+        sql: `INSERT INTO chat_message (id, conversation_id, seq, role, content, queries)
+              VALUES (?, ?, (SELECT coalesce(max(seq), 0) + 1 FROM chat_message WHERE conversation_id = ?), ?, ?, ?)`,
+        args: [id, conversationId, conversationId, message.role, message.content, JSON.stringify(message.queries ?? [])],
+      },
+      {
+        sql: `UPDATE chat_conversation SET updated_at = datetime('now') WHERE id = ?`,
+        args: [conversationId],
+      },
+    ],
+    'write'
+  );
+
+  const result = await authDb.execute({ sql: 'SELECT * FROM chat_message WHERE id = ?', args: [id] });
+  return rowToMessage(result.rows[0]);
+}
+
+/**
+ * ข้อความในบทสนทนาของผู้ใช้ (ใช้ตอนรัน SQL ซ้ำ)
+ * @throws APIError 404 เมื่อไม่พบ หรือเป็นข้อความในบทสนทนาของผู้อื่น
+ */
+export async function getMessage(id: string, user: User): Promise<ChatMessage> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: `SELECT m.* FROM chat_message m
+          JOIN chat_conversation c ON c.id = m.conversation_id
+          WHERE m.id = ? AND c.user_id = ?`,
+    args: [id, user.id],
+  });
+  if (!result.rows[0]) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบข้อความ: ${id}`);
+  }
+  return rowToMessage(result.rows[0]);
+}
+
+// ============================================================================
+// Summary
+// ============================================================================
+
+/**
+ * สรุปข้อความเก่าที่ตัดออกจาก context แล้ว (summarizedCount = จำนวนข้อความแรกที่รวมอยู่ในสรุป)
+ */
+export async function getConversationSummary(
+  conversationId: string
+): Promise<{ summary: string; summarizedCount: number }> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT summary, summarized_count FROM chat_conversation WHERE id = ?',
+    args: [conversationId],
+  });
+  const row = result.rows[0];
+  return { summary: String(row?.summary ?? ''), summarizedCount: Number(row?.summarized_count) || 0 };
+}
+
+export async function saveConversationSummary(
+  conversationId: string,
+  summary: string,
+  summarizedCount: number
+): Promise<void> {
+  await ensureSchema();
+  await authDb.execute({
+    sql: 'UPDATE chat_conversation SET summary = ?, summarized_count = ? WHERE id = ?',
+    args: [summary, summarizedCount, conversationId],
+  });
+}
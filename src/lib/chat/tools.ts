@@ -0,0 +1,142 @@
+/**
+ * Tool execution for the AI chat (server side of CHAT_TOOLS in ./agent)
+ * executeQuery runs in the SQL sandbox with the user's branch access.
+ */
+
+import 'server-only';
+
+import type { User } from '../permissions/types';
+import type { ChatToolExecutor } from './agent';
+import { runChatQuery } from './sql';
+
+// Web search function using Serper API (primary) or SerpApi (fallback)
+async function performWebSearch(query: string): Promise<{
+  results: Array<{ title: string; url: string; snippet: string }>;
+  message: string;
+}> {
+  console.log('[Tool] webSearch called:', query);
+
+  // Primary: Use Serper API if configured (faster, more free quota)
+  const serperApiKey = process.env.SERPER_API_KEY;
+  if (serperApiKey) {
+    try {
+      console.log('[webSearch] Using Serper API');
+      const response = await fetch('https://google.serper.dev/search', {
+        method: 'POST',
+        headers: {
+          'X-API-KEY': serperApiKey,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          q: query,
+          gl: 'th',
+          hl: 'th',
+          num: 5,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.organic && data.organic.length > 0) {
+        const results = data.organic.map((item: { title: string; link: string; snippet?: string }) => ({
+          title: item.title,
+          url: item.link,
+          snippet: item.snippet || '',
+        }));
+
+        console.log(`[webSearch] Serper found ${results.length} results`);
+        return {
+          results,
+          message: `Found ${results.length} search results for "${query}"`,
+        };
+      }
+    } catch (error) {
+      console.error('[webSearch] Serper API error:', error);
+    }
+  }
+
+  // Fallback: Use SerpApi if configured
+  const serpApiKey = process.env.SERPAPI_API_KEY;
+  if (serpApiKey) {
+    try {
+      console.log('[webSearch] Using SerpApi (fallback)');
+      const params = new URLSearchParams({
+        api_key: serpApiKey,
+        engine: 'google',
+        q: query,
+        gl: 'th',
+        hl: 'th',
+        num: '5',
+      });
+      const response = await fetch(`https://serpapi.com/search?${params}`);
+      const data = await response.json();
+
+      if (data.organic_results && data.organic_results.length > 0) {
+        const results = data.organic_results.map((item: { title: string; link: string; snippet?: string }) => ({
+          title: item.title,
+          url: item.link,
+          snippet: item.snippet || '',
+        }));
+
+        console.log(`[webSearch] SerpApi found ${results.length} results`);
+        return {
+          results,
+          message: `Found ${results.length} search results for "${query}"`,
+        };
+      }
+    } catch (error) {
+      console.error('[webSearch] SerpApi error:', error);
+    }
+  }
+
+  // Final fallback: Return a message that search is not configured
+  return {
+    results: [],
+    message: `Web search is not configured. Please set SERPER_API_KEY or SERPAPI_API_KEY in environment variables. Query was: "${query}"`,
+  };
+}
+
+/**
+ * Tool executor for one chat turn of this user
+ */
+export function createChatToolExecutor(user: User): ChatToolExecutor {
+  return async (call) => {
+    switch (call.name) {
+      case 'executeQuery': {
+        console.log('[Tool] executeQuery called');
+        const sql = String(call.args.sql ?? '');
+        try {
+          const result = await runChatQuery(sql, user);
+          return {
+            response: {
+              query: result.sql,
+              rowCount: result.rowCount,
+              data: result.rows,
+              message: `Query returned ${result.rowCount} rows`,
+            },
+            query: { sql: result.sql, rowCount: result.rowCount, error: null },
+          };
+        } catch (queryError: unknown) {
+          const errorMsg = queryError instanceof Error ? queryError.message : 'Unknown query error';
+          console.error('[Tool] executeQuery error:', errorMsg);
+          return {
+            response: {
+              error: `SQL Error: ${errorMsg}`,
+              failedQuery: sql,
+              suggestion:
+                'Please check table/column names from the schema provided in system instructions, then try again with correct names. Only plain SELECT queries on the listed tables are allowed (no system tables, table functions, FORMAT or SETTINGS).',
+            },
+            query: { sql, rowCount: null, error: errorMsg },
+          };
+        }
+      }
+
+      case 'webSearch': {
+        const result = await performWebSearch(String(call.args.query ?? ''));
+        return { response: result, resultCount: result.results.length };
+      }
+
+      default:
+        return { response: { error: 'Unknown tool' } };
+    }
+  };
+}
@@ -0,0 +1,65 @@
+/**
+ * AI Chat Types
+ * บทสนทนา ข้อความ (พร้อม SQL ที่รัน) และ event ที่ stream จาก /api/chat-direct ของ AI Data Assistant
+ */
+
+export type ChatRole = 'user' | 'assistant';
+
+/** SQL ที่ AI รันระหว่างตอบ เก็บไว้ให้รันซ้ำภายหลังได้ */
+export interface ChatQueryRecord {
+  sql: string;
+  rowCount: number | null;
+  error: string | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  queries: ChatQueryRecord[];
+  createdAt: string;
+}
+
+export interface ChatConversation {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatConversationDetail extends ChatConversation {
+  messages: ChatMessage[];
+}
+
+/** ผลการรัน SQL ซ้ำ (ตัดไว้ที่ CHAT_QUERY_ROW_LIMIT แถว) */
+export interface ChatQueryResult {
+  sql: string;
+  rowCount: number;
+  rows: Record<string, unknown>[];
+}
+
+/**
+ * NDJSON events of POST /api/chat-direct (one JSON object per line)
+ */
+export type ChatStreamEvent =
+  | { type: 'conversation'; conversationId: string }
+  | { type: 'status'; message: string }
+  | { type: 'query'; sql: string }
+  | ({ type: 'query_result' } & ChatQueryRecord)
+  | { type: 'search'; query: string }
+  | { type: 'search_result'; query: string; resultCount: number }
+  | { type: 'text'; delta: string }
+  | { type: 'done'; messageId: string; cancelled: boolean }
+  | { type: 'error'; message: string };
+
+export const CHAT_TITLE_MAX_LENGTH = 100;
+export const CHAT_QUERY_ROW_LIMIT = 100;
+
+/**
+ * ชื่อบทสนทนาเริ่มต้นจากข้อความแรกของผู้ใช้
+ */
+export function deriveChatTitle(message: string): string {
+  const title = message.replace(/\s+/g, ' ').trim();
+  return title.length > 60 ? `${title.slice(0, 60)}…` : title || 'บทสนทนาใหม่';
+}
@@ -126,83 +126,6 @@ export async function getRevenueVsExpenseData() {
     }
 }
 
-export async function getAlerts() {
-    try {
-        const alerts: any[] = [];
-
-        // ตรวจสอบบิลค้างชำระ
-        const overdueQuery = await clickhouse.query({
-            query: `
-                SELECT count() as count
-                FROM payment_transaction
-                WHERE doc_datetime < now() - INTERVAL 30 DAY
-            `,
-            format: 'JSONEachRow',
-        });
-        const [overdue] = await overdueQuery.json() as any[];
-        if (overdue?.count > 0) {
-            alerts.push({
-                id: 'overdue-invoices',
-                type: 'warning',
-                title: 'บิลค้างชำระ',
-                message: `มีบิลค้างชำระ ${overdue.count} รายการที่เกิน 30 วัน`,
-                timestamp: new Date(),
-            });
-        }
-
-        // ตรวจสอบสต็อกใกล้หมด
-        const lowStockQuery = await clickhouse.query({
-            query: `
-                SELECT 
-                    item_code,
-                    item_name,
-                    sum(qty) as qty
-                FROM stock_transaction
-                GROUP BY item_code, item_name
-                HAVING qty < 10 AND qty > 0
-                LIMIT 5
-            `,
-            format: 'JSONEachRow',
-        });
-        const lowStock = await lowStockQuery.json() as any[];
-        if (lowStock.length > 0) {
-            alerts.push({
-                id: 'low-stock',
-                type: 'urgent',
-                title: 'สต็อกใกล้หมด',
-                message: `มีสินค้า ${lowStock.length} รายการที่สต็อกเหลือน้อย`,
-                timestamp: new Date(),
-            });
-        }
-
-        // ตรวจสอบใบสั่งซื้อรออนุมัติ (ใบสั่งซื้อที่สร้างใหม่ภายใน 7 วัน)
-        const pendingPOQuery = await clickhouse.query({
-            query: `
-                SELECT count() as count
-                FROM purchase_transaction
-                WHERE doc_datetime >= now() - INTERVAL 7 DAY
-            `,
-            format: 'JSONEachRow',
-        });
-        const [pendingPO] = await pendingPOQuery.json() as any[];
-        if (pendingPO?.count > 0) {
-            alerts.push({
-                id: 'pending-po',
-                type: 'info',
-                title: 'ใบสั่งซื้อรอตรวจสอบ',
-                message: `มีใบสั่งซื้อ ${pendingPO.count} รายการภายใน 7 วันที่ผ่านมา`,
-                timestamp: new Date(),
-            });
-        }
-
-        return alerts;
-    } catch (error) {
-        console.error('Error fetching alerts:', error);
-        return [];
-    }
-}
-
-// ===== Dashboard Stats (Legacy) =====
 export async function getDashboardStats() {
     try {
         const totalSalesQuery = await clickhouse.query({
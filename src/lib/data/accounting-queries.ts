@@ -2,222 +2,402 @@
 
 import type { DateRange } from './types';
 import { getPreviousPeriod } from '@/lib/comparison';
-
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-function buildBranchFilterSql(branches?: string[]): string {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return '';
-  }
-  if (branches.length === 1) {
-    return `AND branch_sync = '${branches[0]}'`;
-  }
-  const branchList = branches.map(b => `'${b}'`).join(', ');
-  return `AND branch_sync IN (${branchList})`;
-}
+import {
+  sql,
+  toQuery,
+  param,
+  raw,
+  join,
+  empty,
+  branchFilter,
+  dateParams,
+  type BuiltQuery,
+  type QueryParam,
+  type SqlFragment,
+} from './query-builder';
 
 // ============================================================================
 // Query Export Functions (for View SQL Query feature)
 // ============================================================================
 
-export function getAssetsQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getAssetsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateParams(dateRange);
+  const previous = dateParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       SUM(debit - credit) as current_value,
       (SELECT SUM(debit - credit)
        FROM journal_transaction_detail
        WHERE account_type = 'ASSETS'
-         AND date(doc_datetime) BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}'
-         ${branchFilter}) as previous_value
+         AND date(doc_datetime) BETWEEN ${previous.start} AND ${previous.end}
+         ${branches}) as previous_value
     FROM journal_transaction_detail
     WHERE account_type = 'ASSETS'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+      AND date(doc_datetime) BETWEEN ${current.start} AND ${current.end}
+      ${branches}
+  `);
 }
 
-export function getLiabilitiesQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getLiabilitiesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateParams(dateRange);
+  const previous = dateParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       SUM(credit - debit) as current_value,
       (SELECT SUM(credit - debit)
        FROM journal_transaction_detail
        WHERE account_type = 'LIABILITIES'
-         AND date(doc_datetime) BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}'
-         ${branchFilter}) as previous_value
+         AND date(doc_datetime) BETWEEN ${previous.start} AND ${previous.end}
+         ${branches}) as previous_value
     FROM journal_transaction_detail
     WHERE account_type = 'LIABILITIES'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+      AND date(doc_datetime) BETWEEN ${current.start} AND ${current.end}
+      ${branches}
+  `);
 }
 
-export function getEquityQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getEquityQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateParams(dateRange);
+  const previous = dateParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       SUM(credit - debit) as current_value,
       (SELECT SUM(credit - debit)
        FROM journal_transaction_detail
        WHERE account_type = 'EQUITY'
-         AND date(doc_datetime) BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}'
-         ${branchFilter}) as previous_value
+         AND date(doc_datetime) BETWEEN ${previous.start} AND ${previous.end}
+         ${branches}) as previous_value
     FROM journal_transaction_detail
     WHERE account_type = 'EQUITY'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+      AND date(doc_datetime) BETWEEN ${current.start} AND ${current.end}
+      ${branches}
+  `);
 }
 
-export function getRevenueQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getRevenueQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateParams(dateRange);
+  const previous = dateParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       SUM(credit - debit) as current_value,
       (SELECT SUM(credit - debit)
        FROM journal_transaction_detail
        WHERE account_type = 'INCOME'
-         AND date(doc_datetime) BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}'
-         ${branchFilter}) as previous_value
+         AND date(doc_datetime) BETWEEN ${previous.start} AND ${previous.end}
+         ${branches}) as previous_value
     FROM journal_transaction_detail
     WHERE account_type = 'INCOME'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+      AND date(doc_datetime) BETWEEN ${current.start} AND ${current.end}
+      ${branches}
+  `);
 }
 
-export function getExpensesQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getExpensesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateParams(dateRange);
+  const previous = dateParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       SUM(debit - credit) as current_value,
       (SELECT SUM(debit - credit)
        FROM journal_transaction_detail
        WHERE account_type = 'EXPENSES'
-         AND date(doc_datetime) BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}'
-         ${branchFilter}) as previous_value
+         AND date(doc_datetime) BETWEEN ${previous.start} AND ${previous.end}
+         ${branches}) as previous_value
     FROM journal_transaction_detail
     WHERE account_type = 'EXPENSES'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+      AND date(doc_datetime) BETWEEN ${current.start} AND ${current.end}
+      ${branches}
+  `);
 }
 
 // Query string functions for DataCard queryInfo
-export function getProfitLossQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getProfitLossQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       toStartOfMonth(doc_datetime) as month,
       sum(if(account_type = 'INCOME', credit - debit, 0)) as revenue,
       sum(if(account_type = 'EXPENSES', debit - credit, 0)) as expenses,
       revenue - expenses as netProfit
     FROM journal_transaction_detail
-    WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
+    WHERE doc_datetime BETWEEN ${start} AND ${end}
+      ${branches}
     GROUP BY month
     ORDER BY month ASC
-  `;
+  `);
 }
 
-export function getBalanceSheetQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+/**
+ * journal_transaction_detail ที่ตัดยอดซ้ำของรายการยอดยกมา (period_number = 0) ออกแล้ว
+ *
+ * ปีฐานของแต่ละกิจการคือ account_year ล่าสุดที่มีรายการถึงวัน anchor
+ * - ถ้าปีฐานมีรายการยอดยกมา ไม่นับรายการของปีก่อนหน้า (ยอดยกมาแทนแล้ว)
+ * - ยอดยกมาของปีหลังปีฐานไม่นับ เพราะรายการของปีฐานอยู่ในช่วงอยู่แล้ว
+ * คอลัมน์เพิ่ม: is_opening_entry (รายการยอดยกมา), is_prior_year (ปีก่อนปีฐาน)
+ */
+function ledgerJournal(anchor: QueryParam, branchSync?: string[]): SqlFragment {
+  const branches = branchFilter(branchSync);
+  return sql`(
     SELECT
-      substring(account_code, 1, 1) as accountType,
-      account_type,
-      CASE
-        WHEN account_type = 'ASSETS' THEN 'สินทรัพย์'
-        WHEN account_type = 'LIABILITIES' THEN 'หนี้สิน'
-        WHEN account_type = 'EQUITY' THEN 'ส่วนของผู้ถือหุ้น'
-      END as typeName,
-      account_code,
-      account_name,
-      if(account_type = 'ASSETS', sum(debit - credit), sum(credit - debit)) as balance
-    FROM journal_transaction_detail
-    WHERE (account_type = 'ASSETS' OR account_type = 'LIABILITIES' OR account_type = 'EQUITY')
-      AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-    GROUP BY account_type, accountType, typeName, account_code, account_name
+      j.doc_datetime AS doc_datetime,
+      j.doc_no AS doc_no,
+      j.book_code AS book_code,
+      j.book_name AS book_name,
+      j.account_code AS account_code,
+      j.account_name AS account_name,
+      j.account_type AS account_type,
+      j.account_year AS account_year,
+      j.period_number AS period_number,
+      j.debit AS debit,
+      j.credit AS credit,
+      j.branch_sync AS branch_sync,
+      j.branch_sync_name AS branch_sync_name,
+      match(j.period_number, '^0+$') AS is_opening_entry,
+      j.account_year < y.base_year AS is_prior_year
+    FROM journal_transaction_detail AS j
+    LEFT JOIN (
+      SELECT branch_sync, max(account_year) AS base_year
+      FROM journal_transaction_detail
+      WHERE date(doc_datetime) <= ${anchor}
+        ${branches}
+      GROUP BY branch_sync
+    ) AS y ON j.branch_sync = y.branch_sync
+    WHERE 1 = 1
+      ${branchFilter(branchSync, 'j.branch_sync')}
+      AND (
+        y.base_year = ''
+        OR j.account_year >= y.base_year
+        OR (j.branch_sync, y.base_year) NOT IN (
+          SELECT branch_sync, account_year
+          FROM journal_transaction_detail
+          WHERE match(period_number, '^0+$')
+            ${branches}
+        )
+      )
+      AND NOT (match(j.period_number, '^0+$') AND y.base_year != '' AND j.account_year > y.base_year)
+  )`;
+}
+
+/**
+ * ยอดสะสมต่อบัญชี ณ วันสิ้นสุดของช่วง (งบดุลไม่ขึ้นกับวันเริ่มต้น)
+ * opening = ยอดต้นปีบัญชี (ยอดยกมา + ปีก่อน), balance = ยอด ณ วันที่ (ทั้งคู่เป็น debit - credit)
+ * บัญชีรายได้/ค่าใช้จ่ายรวมอยู่ด้วยเพื่อคำนวณกำไรที่ยังไม่ปิดเข้าส่วนของผู้ถือหุ้น
+ */
+export function getBalanceSheetQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  return toQuery(sql`
+    SELECT
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      sumIf(debit - credit, is_prior_year OR is_opening_entry) AS opening,
+      sum(debit - credit) AS balance
+    FROM ${ledgerJournal(end, branchSync)}
+    WHERE date(doc_datetime) <= ${end}
+    GROUP BY account_code
+    HAVING opening != 0 OR balance != 0
     ORDER BY account_code ASC
-  `;
+  `);
 }
 
-export function getCashFlowQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
-    SELECT 'Operating' as activityType,
-      sum(if(account_type = 'INCOME', credit - debit, 0)) as revenue,
-      sum(if(account_type = 'EXPENSES', debit - credit, 0)) as expenses,
-      revenue - expenses as netCashFlow
-    FROM journal_transaction_detail
-    WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-    
-    UNION ALL
-    
-    SELECT 'Investing', 0, sum(debit - credit), -sum(debit - credit)
-    FROM journal_transaction_detail
-    WHERE account_code LIKE '12%'
-      AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-    
-    UNION ALL
-    
-    SELECT 'Financing', sum(credit - debit), 0, sum(credit - debit)
+/**
+ * งบทดลอง: ยอดยกมา ณ วันเริ่มต้น เดบิต/เครดิตในช่วง และยอดคงเหลือ ณ วันสิ้นสุด (debit - credit)
+ */
+export function getTrialBalanceQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+    SELECT
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      sumIf(debit - credit, date(doc_datetime) < ${start} OR is_opening_entry) AS opening,
+      sumIf(debit, date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS periodDebit,
+      sumIf(credit, date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS periodCredit,
+      opening + periodDebit - periodCredit AS closing
+    FROM ${ledgerJournal(start, branchSync)}
+    WHERE date(doc_datetime) <= ${end}
+    GROUP BY account_code
+    HAVING opening != 0 OR periodDebit != 0 OR periodCredit != 0
+    ORDER BY account_code ASC
+  `);
+}
+
+/**
+ * งบการเงินหลายคอลัมน์ (งบกำไรขาดทุน): ยอดเคลื่อนไหว debit - credit ของบัญชีรายได้/ค่าใช้จ่าย
+ * ต่อช่วงวันที่ของแต่ละคอลัมน์ (c0, c1, ...) อ่านข้อมูลรอบเดียว
+ */
+export function getStatementMovementsQuery(ranges: DateRange[], branchSync?: string[]): BuiltQuery {
+  const columns = ranges.map((range, index) => {
+    const { start, end } = dateParams(range, `c${index}_`);
+    return sql`sumIf(debit - credit, date(doc_datetime) BETWEEN ${start} AND ${end}) AS ${raw(`c${index}`)}`;
+  });
+  const { start, end } = dateParams({
+    start: ranges.reduce((min, range) => (range.start < min ? range.start : min), ranges[0].start),
+    end: ranges.reduce((max, range) => (range.end > max ? range.end : max), ranges[0].end),
+  });
+  return toQuery(sql`
+    SELECT
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      ${join(columns, ',\n      ')}
     FROM journal_transaction_detail
-    WHERE (account_code LIKE '21%' OR account_type = 'EQUITY')
-      AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-  `;
+    WHERE account_type IN ('INCOME', 'EXPENSES')
+      AND date(doc_datetime) BETWEEN ${start} AND ${end}
+      AND NOT match(period_number, '^0+$')
+      ${branchFilter(branchSync)}
+    GROUP BY account_code
+    ORDER BY account_code ASC
+  `);
 }
 
-export function getARAgingQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+/**
+ * งบการเงินหลายคอลัมน์ (งบดุล): ยอดคงเหลือ debit - credit ทุกบัญชี ณ แต่ละวัน (point = ลำดับคอลัมน์)
+ * แต่ละวันใช้ยอดยกมาของปีบัญชีของวันนั้นเอง เหมือน getBalanceSheetQuery
+ */
+export function getStatementBalancesQuery(asOfDates: string[], branchSync?: string[]): BuiltQuery {
+  const points = asOfDates.map((date, index) => {
+    const asOf = param(`as_of_${index}`, 'Date', date);
+    return sql`
     SELECT
-      customer_code as code,
-      customer_name as name,
-      doc_no as docNo,
-      toTimeZone(doc_datetime, 'Asia/Bangkok') as docDate,
-      due_date as dueDate,
-      total_amount as totalAmount,
-      sum_pay_money as paidAmount,
-      total_amount - sum_pay_money as outstanding,
-      dateDiff('day', due_date, now()) as daysOverdue,
-      CASE
-        WHEN dateDiff('day', due_date, now()) <= 0 THEN 'ยังไม่ครบกำหนด'
-        WHEN dateDiff('day', due_date, now()) <= 30 THEN '1-30 วัน'
-        WHEN dateDiff('day', due_date, now()) <= 60 THEN '31-60 วัน'
-        WHEN dateDiff('day', due_date, now()) <= 90 THEN '61-90 วัน'
-        ELSE 'เกิน 90 วัน'
-      END as agingBucket
-    FROM saleinvoice_transaction
-    WHERE status_payment IN ('Outstanding', 'Partially Paid')
-      AND status_cancel != 'Cancel'
-      AND doc_type = 'CREDIT'
-      AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
-    ORDER BY daysOverdue DESC
-    LIMIT 100
-  `;
+      ${raw(String(index))} AS point,
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      sum(debit - credit) AS balance
+    FROM ${ledgerJournal(asOf, branchSync)}
+    WHERE date(doc_datetime) <= ${asOf}
+    GROUP BY account_code
+    HAVING balance != 0`;
+  });
+  return toQuery(join(points, '\n    UNION ALL'));
+}
+
+/**
+ * ยอดคงเหลือ debit - credit ของบัญชีสินทรัพย์ต่อกิจการ ณ วันที่ (ใช้ยอดยกมาแบบเดียวกับงบดุล)
+ * ใช้กระทบยอดมูลค่าสินค้าคงเหลือกับบัญชี
+ */
+export function getAssetBalancesByBranchQuery(asOfDate: string, branchSync?: string[]): BuiltQuery {
+  const asOf = param('as_of_date', 'Date', asOfDate);
+  return toQuery(sql`
+    SELECT
+      branch_sync AS branchSync,
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      sum(debit - credit) AS balance
+    FROM ${ledgerJournal(asOf, branchSync)}
+    WHERE date(doc_datetime) <= ${asOf}
+      AND account_type = 'ASSETS'
+    GROUP BY branch_sync, account_code
+    HAVING balance != 0
+    ORDER BY branch_sync, account_code
+  `);
+}
+
+/**
+ * ยอดรวมของบัญชีแยกประเภท: ยอดยกมา เดบิต/เครดิตรวม และจำนวนรายการในช่วง
+ */
+export function getGeneralLedgerSummaryQuery(
+  dateRange: DateRange,
+  accountCode: string,
+  branchSync?: string[]
+): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+    SELECT
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      sumIf(debit - credit, date(doc_datetime) < ${start} OR is_opening_entry) AS opening,
+      sumIf(debit, date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS totalDebit,
+      sumIf(credit, date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS totalCredit,
+      countIf(date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS lineCount
+    FROM ${ledgerJournal(start, branchSync)}
+    WHERE account_code = ${param('account_code', 'String', accountCode)}
+      AND date(doc_datetime) <= ${end}
+  `);
 }
 
-export function getAPAgingQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+/**
+ * รายการบัญชีแยกประเภททีละหน้า movementToDate = ผลรวม debit - credit ตั้งแต่ต้นช่วงถึงรายการนั้น
+ * (ยอดคงเหลือสะสม = ยอดยกมา + movementToDate)
+ */
+export function getGeneralLedgerLinesQuery(
+  dateRange: DateRange,
+  accountCode: string,
+  branchSync: string[] | undefined,
+  page: number,
+  pageSize: number
+): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
     SELECT
-      supplier_code as code,
-      supplier_name as name,
+      toTimeZone(doc_datetime, 'Asia/Bangkok') AS docDate,
+      doc_no AS docNo,
+      book_code AS bookCode,
+      book_name AS bookName,
+      account_year AS accountYear,
+      period_number AS periodNumber,
+      branch_sync_name AS branchName,
+      debit,
+      credit,
+      sum(debit - credit) OVER (
+        ORDER BY doc_datetime, doc_no, branch_sync, debit, credit
+        ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW
+      ) AS movementToDate
+    FROM ${ledgerJournal(start, branchSync)}
+    WHERE account_code = ${param('account_code', 'String', accountCode)}
+      AND date(doc_datetime) BETWEEN ${start} AND ${end}
+      AND NOT is_opening_entry
+    ORDER BY doc_datetime, doc_no, branch_sync, debit, credit
+    LIMIT ${param('limit', 'UInt32', pageSize)}
+    OFFSET ${param('offset', 'UInt32', (page - 1) * pageSize)}
+  `);
+}
+
+/**
+ * ยอดต่อบัญชีสำหรับงบกระแสเงินสด: ยอดสะสมก่อนวันเริ่มต้น (opening) และความเคลื่อนไหวในช่วง (movement)
+ * แบบเดียวกับงบทดลอง: รายการยอดยกมานับเป็นยอดต้นงวด ไม่นับเป็นความเคลื่อนไหว
+ * จัดเป็นบรรทัดของงบด้วย buildCashFlowStatement ตามผังกระแสเงินสดที่ตั้งค่าไว้
+ */
+export function getCashFlowQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+    SELECT
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      any(account_type) AS accountType,
+      sumIf(debit - credit, date(doc_datetime) < ${start} OR is_opening_entry) AS opening,
+      sumIf(debit - credit, date(doc_datetime) >= ${start} AND NOT is_opening_entry) AS movement
+    FROM ${ledgerJournal(start, branchSync)}
+    WHERE date(doc_datetime) <= ${end}
+    GROUP BY account_code
+    HAVING opening != 0 OR movement != 0
+    ORDER BY account_code ASC
+  `);
+}
+
+/**
+ * เอกสารเงินเชื่อที่ยังค้างชำระ พร้อมอายุหนี้นับจากวันครบกำหนดถึงวันนี้
+ * scope = เงื่อนไขเพิ่มเติม (ช่วงวันที่เอกสาร / LIMIT) ของแต่ละการใช้งาน
+ */
+function openCreditDocsQuery(
+  table: 'saleinvoice_transaction' | 'purchase_transaction',
+  party: 'customer' | 'supplier',
+  branchSync: string[] | undefined,
+  dateScope: SqlFragment,
+  limit: SqlFragment
+): BuiltQuery {
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+    SELECT
+      ${raw(`${party}_code`)} as code,
+      ${raw(`${party}_name`)} as name,
       doc_no as docNo,
       toTimeZone(doc_datetime, 'Asia/Bangkok') as docDate,
       due_date as dueDate,
@@ -232,20 +412,58 @@ export function getAPAgingQuery(dateRange: DateRange, branchSync?: string[]): st
         WHEN dateDiff('day', due_date, now()) <= 90 THEN '61-90 วัน'
         ELSE 'เกิน 90 วัน'
       END as agingBucket
-    FROM purchase_transaction
+    FROM ${raw(table)}
     WHERE status_payment IN ('Outstanding', 'Partially Paid')
       AND status_cancel != 'Cancel'
       AND doc_type = 'CREDIT'
-      AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
+      ${dateScope}
+      ${branches}
     ORDER BY daysOverdue DESC
-    LIMIT 100
-  `;
+    ${limit}
+  `);
+}
+
+export function getARAgingQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return openCreditDocsQuery(
+    'saleinvoice_transaction',
+    'customer',
+    branchSync,
+    sql`AND doc_datetime BETWEEN ${start} AND ${end}`,
+    sql`LIMIT 100`
+  );
 }
 
-export function getRevenueBreakdownQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getAPAgingQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return openCreditDocsQuery(
+    'purchase_transaction',
+    'supplier',
+    branchSync,
+    sql`AND doc_datetime BETWEEN ${start} AND ${end}`,
+    sql`LIMIT 100`
+  );
+}
+
+/**
+ * ลูกหนี้คงค้างทั้งหมด ณ วันนี้ (ทุกเอกสารที่ยังค้าง ไม่จำกัดช่วงวันที่และจำนวนแถว)
+ * ใช้กับรายงานที่ส่งตามกำหนดการซึ่งแสดงสถานะ ณ วันที่ส่ง
+ */
+export function getAROutstandingAsOfTodayQuery(branchSync?: string[]): BuiltQuery {
+  return openCreditDocsQuery('saleinvoice_transaction', 'customer', branchSync, empty, empty);
+}
+
+/**
+ * เจ้าหนี้คงค้างทั้งหมด ณ วันนี้ (ทุกเอกสารที่ยังค้าง ไม่จำกัดช่วงวันที่และจำนวนแถว)
+ */
+export function getAPOutstandingAsOfTodayQuery(branchSync?: string[]): BuiltQuery {
+  return openCreditDocsQuery('purchase_transaction', 'supplier', branchSync, empty, empty);
+}
+
+export function getRevenueBreakdownQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       account_code AS accountGroup,
       account_name AS accountName,
@@ -254,22 +472,23 @@ export function getRevenueBreakdownQuery(dateRange: DateRange, branchSync?: stri
         SELECT sum(credit - debit)
         FROM journal_transaction_detail
         WHERE account_type = 'INCOME'
-          AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-          ${branchFilter}
+          AND date(doc_datetime) BETWEEN ${start} AND ${end}
+          ${branches}
       )) * 100 AS percentage
     FROM journal_transaction_detail
     WHERE account_type = 'INCOME'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
+      AND date(doc_datetime) BETWEEN ${start} AND ${end}
+      ${branches}
     GROUP BY account_code, account_name
     HAVING amount != 0
     ORDER BY amount DESC
-  `;
+  `);
 }
 
-export function getExpenseBreakdownQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getExpenseBreakdownQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     SELECT
       account_code AS accountGroup,
       account_name AS accountName,
@@ -278,22 +497,23 @@ export function getExpenseBreakdownQuery(dateRange: DateRange, branchSync?: stri
         SELECT sum(debit - credit)
         FROM journal_transaction_detail
         WHERE account_type = 'EXPENSES'
-          AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-          ${branchFilter}
+          AND date(doc_datetime) BETWEEN ${start} AND ${end}
+          ${branches}
       )) * 100 AS percentage
     FROM journal_transaction_detail
     WHERE account_type = 'EXPENSES'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
+      AND date(doc_datetime) BETWEEN ${start} AND ${end}
+      ${branches}
     GROUP BY account_code, account_name
     HAVING amount != 0
     ORDER BY amount DESC
-  `;
+  `);
 }
 
-export function getProfitLossByProductCategoryQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getProfitLossByProductCategoryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     WITH sales AS (
       SELECT
         doc_no,
@@ -304,8 +524,8 @@ export function getProfitLossByProductCategoryQuery(dateRange: DateRange, branch
         SUM(sum_of_cost) AS sum_of_cost
       FROM saleinvoice_transaction_detail
       WHERE status_cancel != 'Cancel'
-        AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-        ${branchFilter}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
       GROUP BY doc_no, branch_sync, item_category_code, item_category_name
     ),
     journals AS (
@@ -319,8 +539,8 @@ export function getProfitLossByProductCategoryQuery(dateRange: DateRange, branch
         SUM(debit - credit) AS debit_net
       FROM journal_transaction_detail
       WHERE account_type IN ('INCOME', 'EQUITY', 'EXPENSES')
-        AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-        ${branchFilter}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
       GROUP BY doc_no, branch_sync, account_type, account_code, account_name
     )
     SELECT
@@ -337,30 +557,46 @@ export function getProfitLossByProductCategoryQuery(dateRange: DateRange, branch
       ON s.doc_no = j.doc_no AND s.branch_sync = j.branch_sync
     GROUP BY s.item_category_code, s.item_category_name, j.account_type, j.account_code, j.account_name
     ORDER BY j.account_type, revenue DESC
-  `;
+  `);
 }
 
 /**
  * Query to get account type (INCOME, EXPENSES, etc.) for a specific account code
  */
-export function getAccountTypeQuery(accountCode: string): string {
-  return `
+export function getAccountTypeQuery(accountCode: string): BuiltQuery {
+  return toQuery(sql`
     SELECT DISTINCT account_type
     FROM journal_transaction_detail
-    WHERE account_code = '${accountCode}'
+    WHERE account_code = ${param('account_code', 'String', accountCode)}
     LIMIT 1
-  `;
+  `);
+}
+
+/** Income and expense accounts that can carry a budget (see lib/budgets) */
+export function getBudgetAccountsQuery(): BuiltQuery {
+  return toQuery(sql`
+    SELECT
+      account_code AS accountCode,
+      any(account_name) AS accountName,
+      upper(any(account_type)) AS accountType
+    FROM journal_transaction_detail
+    WHERE upper(account_type) IN ('INCOME', 'EXPENSES')
+      AND account_code != ''
+    GROUP BY account_code
+    ORDER BY account_code
+  `);
 }
 
-export function getChartOfAccountsListQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+export function getChartOfAccountsListQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     WITH sales AS (
       SELECT DISTINCT doc_no, branch_sync
       FROM saleinvoice_transaction_detail
       WHERE status_cancel != 'Cancel'
-        AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-        ${branchFilter}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
     )
     SELECT
       j.account_code AS accountCode,
@@ -370,21 +606,22 @@ export function getChartOfAccountsListQuery(dateRange: DateRange, branchSync?: s
       COUNT(DISTINCT j.doc_no) AS docCount
     FROM journal_transaction_detail j
     INNER JOIN sales s ON j.doc_no = s.doc_no AND j.branch_sync = s.branch_sync
-    WHERE date(j.doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-      ${branchFilter}
+    WHERE date(j.doc_datetime) BETWEEN ${start} AND ${end}
+      ${branches}
     GROUP BY j.account_code, j.account_name, j.account_type
     HAVING netAmount != 0
     ORDER BY j.account_type, j.account_code
-  `;
+  `);
 }
 
 export function getAccountProductsQuery(
   dateRange: DateRange,
   accountCode: string,
   branchSync?: string[]
-): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     WITH journal_docs AS (
       SELECT DISTINCT
         doc_no,
@@ -398,9 +635,9 @@ export function getAccountProductsQuery(
         account_code,
         account_name
       FROM journal_transaction_detail
-      WHERE account_code = '${accountCode}'
-        AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-        ${branchFilter}
+      WHERE account_code = ${param('account_code', 'String', accountCode)}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
         AND (credit - debit) != 0
     )
     SELECT
@@ -431,16 +668,17 @@ export function getAccountProductsQuery(
         OR TRIM(SUBSTRING_INDEX(jd.account_name, '-', -1)) LIKE CONCAT('%', std.item_category_name, '%')
       )
     ORDER BY jd.doc_datetime DESC, jd.doc_no DESC, std.item_code ASC
-  `;
+  `);
 }
 
 export function getAccountPurchaseItemsQuery(
   dateRange: DateRange,
   accountCode: string,
   branchSync?: string[]
-): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
+): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
     WITH journal_docs AS (
       SELECT DISTINCT
         doc_no,
@@ -454,9 +692,9 @@ export function getAccountPurchaseItemsQuery(
         account_code,
         account_name
       FROM journal_transaction_detail
-      WHERE account_code = '${accountCode}'
-        AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-        ${branchFilter}
+      WHERE account_code = ${param('account_code', 'String', accountCode)}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
         AND (credit - debit) != 0
     )
     SELECT
@@ -486,5 +724,5 @@ export function getAccountPurchaseItemsQuery(
         OR TRIM(SUBSTRING_INDEX(jd.account_name, '-', -1)) LIKE CONCAT('%', ptd.item_category_name, '%')
       )
     ORDER BY jd.doc_datetime DESC, jd.doc_no DESC, ptd.item_code ASC
-  `;
+  `);
 }
@@ -7,11 +7,18 @@ import type {
   AccountingKPIs,
   ProfitLossData,
   BalanceSheetItem,
-  CashFlowData,
+  BalanceSheetData,
+  TrialBalanceItem,
+  GeneralLedger,
+  GeneralLedgerLine,
   AgingItem,
   CategoryBreakdown,
   KPIData,
 } from './types';
+import type { BudgetAccount } from '@/lib/budgets/types';
+import type { CashFlowAccountRow } from '@/lib/cash-flow/types';
+import type { BranchAccountBalance } from '@/lib/inventory/types';
+import type { StatementAccountRow, StatementAmountColumn, StatementKind } from '@/lib/statements/types';
 import { calculateGrowth } from '@/lib/comparison';
 import {
   getAssetsQuery,
@@ -21,15 +28,24 @@ import {
   getExpensesQuery,
   getProfitLossQuery,
   getBalanceSheetQuery,
+  getTrialBalanceQuery,
+  getGeneralLedgerSummaryQuery,
+  getGeneralLedgerLinesQuery,
+  getStatementMovementsQuery,
+  getStatementBalancesQuery,
+  getAssetBalancesByBranchQuery,
   getCashFlowQuery,
   getARAgingQuery,
   getAPAgingQuery,
+  getAROutstandingAsOfTodayQuery,
+  getAPOutstandingAsOfTodayQuery,
   getRevenueBreakdownQuery,
   getExpenseBreakdownQuery,
   getProfitLossByProductCategoryQuery,
   getAccountProductsQuery,
   getAccountPurchaseItemsQuery,
   getAccountTypeQuery,
+  getBudgetAccountsQuery,
   getChartOfAccountsListQuery,
 } from './accounting-queries';
 
@@ -60,14 +76,14 @@ export async function getAccountingKPIs(dateRange: DateRange, branchSync?: strin
     console.log('[Income Query]:', revenueQuery);
     console.log('[Expenses Query]:', expensesQuery);
 
-    // Execute queries in parallel (NO query_params needed since dates are hardcoded)
+    // Execute queries in parallel
     const [assetsResult, liabilitiesResult, equityResult, revenueResult, expensesResult] =
       await Promise.all([
-        clickhouse.query({ query: assetsQuery, format: 'JSONEachRow' }),
-        clickhouse.query({ query: liabilitiesQuery, format: 'JSONEachRow' }),
-        clickhouse.query({ query: equityQuery, format: 'JSONEachRow' }),
-        clickhouse.query({ query: revenueQuery, format: 'JSONEachRow' }),
-        clickhouse.query({ query: expensesQuery, format: 'JSONEachRow' }),
+        clickhouse.query({ ...assetsQuery, format: 'JSONEachRow' }),
+        clickhouse.query({ ...liabilitiesQuery, format: 'JSONEachRow' }),
+        clickhouse.query({ ...equityQuery, format: 'JSONEachRow' }),
+        clickhouse.query({ ...revenueQuery, format: 'JSONEachRow' }),
+        clickhouse.query({ ...expensesQuery, format: 'JSONEachRow' }),
       ]);
 
     const assetsData = await assetsResult.json();
@@ -121,8 +137,7 @@ export async function getProfitLossData(dateRange: DateRange, branchSync?: strin
     const query = getProfitLossQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
+      ...query,
       format: 'JSONEachRow',
     });
 
@@ -139,28 +154,73 @@ export async function getProfitLossData(dateRange: DateRange, branchSync?: strin
   }
 }
 
+const BALANCE_SHEET_TYPES: Record<string, { prefix: string; typeName: string; sign: 1 | -1 }> = {
+  ASSETS: { prefix: 'A', typeName: 'สินทรัพย์', sign: 1 },
+  LIABILITIES: { prefix: 'L', typeName: 'หนี้สิน', sign: -1 },
+  EQUITY: { prefix: 'E', typeName: 'ส่วนของผู้ถือหุ้น', sign: -1 },
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
 /**
- * Get Balance Sheet data
+ * Get the point-in-time balance sheet as of dateRange.end, with the balance check
  */
-export async function getBalanceSheetData(dateRange: DateRange, branchSync?: string[]): Promise<BalanceSheetItem[]> {
+export async function getBalanceSheetData(dateRange: DateRange, branchSync?: string[]): Promise<BalanceSheetData> {
   try {
     const query = getBalanceSheetQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
+      ...query,
       format: 'JSONEachRow',
     });
 
-    const data = await result.json();
-    return data.map((row: any) => ({
-      accountType: row.accountType,
-      account_type: row.account_type, // Map the full account type (ASSETS, LIABILITIES, EQUITY)
-      typeName: row.typeName,
-      accountCode: row.account_code,
-      accountName: row.account_name,
-      balance: Number(row.balance) || 0,
-    }));
+    const rows: any[] = await result.json();
+    const items: BalanceSheetItem[] = [];
+    const totals = { ASSETS: 0, LIABILITIES: 0, EQUITY: 0 };
+    let currentYearEarnings = 0;
+    let unclosedEarnings = 0;
+
+    for (const row of rows) {
+      const accountType = String(row.accountType).toUpperCase();
+      const opening = Number(row.opening) || 0;
+      const balance = Number(row.balance) || 0;
+
+      const type = BALANCE_SHEET_TYPES[accountType];
+      if (type) {
+        items.push({
+          accountType: type.prefix,
+          account_type: accountType,
+          typeName: type.typeName,
+          accountCode: row.accountCode,
+          accountName: row.accountName,
+          opening: type.sign * opening,
+          balance: type.sign * balance,
+        });
+        totals[accountType as keyof typeof totals] += type.sign * balance;
+      } else if (accountType === 'INCOME' || accountType === 'EXPENSES') {
+        // Closed years net to zero here: closing entries moved them into equity
+        unclosedEarnings -= opening;
+        currentYearEarnings -= balance - opening;
+      }
+    }
+
+    const difference = roundCurrency(
+      totals.ASSETS - totals.LIABILITIES - totals.EQUITY - currentYearEarnings - unclosedEarnings
+    );
+
+    return {
+      asOfDate: dateRange.end,
+      items,
+      check: {
+        assets: roundCurrency(totals.ASSETS),
+        liabilities: roundCurrency(totals.LIABILITIES),
+        equity: roundCurrency(totals.EQUITY),
+        currentYearEarnings: roundCurrency(currentYearEarnings),
+        unclosedEarnings: roundCurrency(unclosedEarnings),
+        difference,
+        balanced: difference === 0,
+      },
+    };
   } catch (error) {
     console.error('Error fetching balance sheet data:', error);
     throw error;
@@ -168,24 +228,152 @@ export async function getBalanceSheetData(dateRange: DateRange, branchSync?: str
 }
 
 /**
- * Get Cash Flow data
+ * Get the trial balance for the period
  */
-export async function getCashFlowData(dateRange: DateRange, branchSync?: string[]): Promise<CashFlowData[]> {
+export async function getTrialBalance(dateRange: DateRange, branchSync?: string[]): Promise<TrialBalanceItem[]> {
+  try {
+    const query = getTrialBalanceQuery(dateRange, branchSync);
+
+    const result = await clickhouse.query({
+      ...query,
+      format: 'JSONEachRow',
+    });
+
+    const data: Record<string, string | number>[] = await result.json();
+    return data.map((row) => ({
+      accountCode: String(row.accountCode),
+      accountName: String(row.accountName),
+      accountType: String(row.accountType),
+      opening: Number(row.opening) || 0,
+      debit: Number(row.periodDebit) || 0,
+      credit: Number(row.periodCredit) || 0,
+      closing: Number(row.closing) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching trial balance:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get one page of the general ledger of an account, with running balances
+ */
+export async function getGeneralLedger(
+  dateRange: DateRange,
+  accountCode: string,
+  branchSync: string[] | undefined,
+  page: number,
+  pageSize: number
+): Promise<GeneralLedger> {
+  try {
+    const [summaryResult, linesResult] = await Promise.all([
+      clickhouse.query({ ...getGeneralLedgerSummaryQuery(dateRange, accountCode, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({
+        ...getGeneralLedgerLinesQuery(dateRange, accountCode, branchSync, page, pageSize),
+        format: 'JSONEachRow',
+      }),
+    ]);
+
+    const [summary]: Record<string, string | number>[] = await summaryResult.json();
+    const rows: (Omit<GeneralLedgerLine, 'balance'> & { movementToDate: number })[] = await linesResult.json();
+
+    const opening = Number(summary?.opening) || 0;
+    const totalDebit = Number(summary?.totalDebit) || 0;
+    const totalCredit = Number(summary?.totalCredit) || 0;
+
+    return {
+      accountCode,
+      accountName: String(summary?.accountName ?? ''),
+      accountType: String(summary?.accountType ?? ''),
+      opening,
+      totalDebit,
+      totalCredit,
+      closing: opening + totalDebit - totalCredit,
+      lines: rows.map(({ movementToDate, ...row }) => ({
+        ...row,
+        debit: Number(row.debit) || 0,
+        credit: Number(row.credit) || 0,
+        balance: opening + (Number(movementToDate) || 0),
+      })),
+      total: Number(summary?.lineCount) || 0,
+      page,
+      pageSize,
+    };
+  } catch (error) {
+    console.error('Error fetching general ledger:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get per-account amounts for each amount column of a statement layout (see buildStatement)
+ * งบกำไรขาดทุน: ยอดเคลื่อนไหวในช่วงของคอลัมน์, งบดุล: ยอดคงเหลือ ณ วันสิ้นสุดของคอลัมน์ (debit - credit)
+ */
+export async function getStatementAccounts(
+  kind: StatementKind,
+  columns: StatementAmountColumn[],
+  branchSync?: string[]
+): Promise<StatementAccountRow[]> {
+  try {
+    const isProfitLoss = kind === 'profit-loss';
+    const query = isProfitLoss
+      ? getStatementMovementsQuery(columns.map((column) => column.range), branchSync)
+      : getStatementBalancesQuery(columns.map((column) => column.range.end), branchSync);
+
+    const result = await clickhouse.query({
+      ...query,
+      format: 'JSONEachRow',
+    });
+
+    const data: Record<string, string | number>[] = await result.json();
+    const accounts = new Map<string, StatementAccountRow>();
+    for (const row of data) {
+      const accountCode = String(row.accountCode);
+      let account = accounts.get(accountCode);
+      if (!account) {
+        account = {
+          accountCode,
+          accountName: String(row.accountName ?? ''),
+          accountType: String(row.accountType ?? '').toUpperCase(),
+          values: {},
+        };
+        accounts.set(accountCode, account);
+      }
+
+      if (isProfitLoss) {
+        columns.forEach((column, index) => {
+          account.values[column.key] = Number(row[`c${index}`]) || 0;
+        });
+      } else {
+        account.values[columns[Number(row.point)].key] = Number(row.balance) || 0;
+      }
+    }
+    return [...accounts.values()];
+  } catch (error) {
+    console.error('Error fetching statement data:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get per-account balances for the cash flow statement (see buildCashFlowStatement)
+ */
+export async function getCashFlowAccounts(dateRange: DateRange, branchSync?: string[]): Promise<CashFlowAccountRow[]> {
   try {
     const query = getCashFlowQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
+      ...query,
       format: 'JSONEachRow',
     });
 
     const data = await result.json();
     return data.map((row: any) => ({
-      activityType: row.activityType as 'Operating' | 'Investing' | 'Financing',
-      revenue: Number(row.revenue) || 0,
-      expenses: Number(row.expenses) || 0,
-      netCashFlow: Number(row.netCashFlow) || 0,
+      accountCode: String(row.accountCode),
+      accountName: String(row.accountName ?? ''),
+      accountType: String(row.accountType ?? ''),
+      opening: Number(row.opening) || 0,
+      movement: Number(row.movement) || 0,
     }));
   } catch (error) {
     console.error('Error fetching cash flow data:', error);
@@ -193,6 +381,44 @@ export async function getCashFlowData(dateRange: DateRange, branchSync?: string[
   }
 }
 
+/**
+ * Get asset account balances per branch as of a date (inventory valuation reconciliation)
+ */
+export async function getAssetAccountBalances(asOfDate: string, branchSync?: string[]): Promise<BranchAccountBalance[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getAssetBalancesByBranchQuery(asOfDate, branchSync),
+      format: 'JSONEachRow',
+    });
+
+    const data: Record<string, string | number>[] = await result.json();
+    return data.map((row) => ({
+      branchSync: String(row.branchSync),
+      accountCode: String(row.accountCode),
+      accountName: String(row.accountName ?? ''),
+      balance: Number(row.balance) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching asset account balances:', error);
+    throw error;
+  }
+}
+
+function toAgingItem(row: any): AgingItem {
+  return {
+    code: row.code,
+    name: row.name,
+    docNo: row.docNo,
+    docDate: row.docDate,
+    dueDate: row.dueDate,
+    totalAmount: Number(row.totalAmount) || 0,
+    paidAmount: Number(row.paidAmount) || 0,
+    outstanding: Number(row.outstanding) || 0,
+    daysOverdue: Number(row.daysOverdue) || 0,
+    agingBucket: row.agingBucket,
+  };
+}
+
 /**
  * Get AR (Accounts Receivable) Aging data
  */
@@ -201,24 +427,12 @@ export async function getARAgingData(dateRange: DateRange, branchSync?: string[]
     const query = getARAgingQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
-      format: 'JSONEachRow'
+      ...query,
+      format: 'JSONEachRow',
     });
     const data = await result.json();
 
-    return data.map((row: any) => ({
-      code: row.code,
-      name: row.name,
-      docNo: row.docNo,
-      docDate: row.docDate,
-      dueDate: row.dueDate,
-      totalAmount: Number(row.totalAmount) || 0,
-      paidAmount: Number(row.paidAmount) || 0,
-      outstanding: Number(row.outstanding) || 0,
-      daysOverdue: Number(row.daysOverdue) || 0,
-      agingBucket: row.agingBucket,
-    }));
+    return data.map(toAgingItem);
   } catch (error) {
     console.error('Error fetching AR aging data:', error);
     throw error;
@@ -233,30 +447,54 @@ export async function getAPAgingData(dateRange: DateRange, branchSync?: string[]
     const query = getAPAgingQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
-      format: 'JSONEachRow'
+      ...query,
+      format: 'JSONEachRow',
     });
     const data = await result.json();
 
-    return data.map((row: any) => ({
-      code: row.code,
-      name: row.name,
-      docNo: row.docNo,
-      docDate: row.docDate,
-      dueDate: row.dueDate,
-      totalAmount: Number(row.totalAmount) || 0,
-      paidAmount: Number(row.paidAmount) || 0,
-      outstanding: Number(row.outstanding) || 0,
-      daysOverdue: Number(row.daysOverdue) || 0,
-      agingBucket: row.agingBucket,
-    }));
+    return data.map(toAgingItem);
   } catch (error) {
     console.error('Error fetching AP aging data:', error);
     throw error;
   }
 }
 
+/**
+ * Get every outstanding AR document as of today (no date range, no row limit)
+ */
+export async function getAROutstandingAsOfToday(branchSync?: string[]): Promise<AgingItem[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getAROutstandingAsOfTodayQuery(branchSync),
+      format: 'JSONEachRow',
+    });
+    const data = await result.json();
+
+    return data.map(toAgingItem);
+  } catch (error) {
+    console.error('Error fetching outstanding AR:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get every outstanding AP document as of today (no date range, no row limit)
+ */
+export async function getAPOutstandingAsOfToday(branchSync?: string[]): Promise<AgingItem[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getAPOutstandingAsOfTodayQuery(branchSync),
+      format: 'JSONEachRow',
+    });
+    const data = await result.json();
+
+    return data.map(toAgingItem);
+  } catch (error) {
+    console.error('Error fetching outstanding AP:', error);
+    throw error;
+  }
+}
+
 /**
  * Get Revenue breakdown by category
  */
@@ -265,8 +503,7 @@ export async function getRevenueBreakdown(dateRange: DateRange, branchSync?: str
     const query = getRevenueBreakdownQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
+      ...query,
       format: 'JSONEachRow',
     });
 
@@ -291,8 +528,7 @@ export async function getExpenseBreakdown(dateRange: DateRange, branchSync?: str
     const query = getExpenseBreakdownQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
-      query_params: { start_date: dateRange.start, end_date: dateRange.end },
+      ...query,
       format: 'JSONEachRow',
     });
 
@@ -319,7 +555,7 @@ export async function getAccountProducts(
 ): Promise<import('./types').AccountProductItem[]> {
   try {
     const query = getAccountProductsQuery(dateRange, accountCode, branchSync);
-    const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+    const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
     const data = await result.json();
     return data.map((row: any) => ({
       docDate: row.docDate ?? '',
@@ -354,7 +590,7 @@ export async function getAccountPurchaseItems(
 ): Promise<import('./types').AccountProductItem[]> {
   try {
     const query = getAccountPurchaseItemsQuery(dateRange, accountCode, branchSync);
-    const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+    const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
     const data = await result.json();
     return data.map((row: any) => ({
       docDate: row.docDate ?? '',
@@ -385,7 +621,7 @@ export async function getAccountPurchaseItems(
 export async function getAccountType(accountCode: string): Promise<string> {
   try {
     const query = getAccountTypeQuery(accountCode);
-    const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+    const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
     const data = await result.json();
     if (data.length === 0 || !data[0].account_type) {
       return 'UNKNOWN';
@@ -397,6 +633,24 @@ export async function getAccountType(accountCode: string): Promise<string> {
   }
 }
 
+/**
+ * Income and expense accounts that can carry a budget
+ */
+export async function getBudgetAccounts(): Promise<BudgetAccount[]> {
+  try {
+    const result = await clickhouse.query({ ...getBudgetAccountsQuery(), format: 'JSONEachRow' });
+    const data: Record<string, string>[] = await result.json();
+    return data.map((row) => ({
+      accountCode: String(row.accountCode),
+      accountName: String(row.accountName ?? ''),
+      accountType: String(row.accountType),
+    }));
+  } catch (error) {
+    console.error('Error fetching budget accounts:', error);
+    throw error;
+  }
+}
+
 /**
  * Get Profit & Loss breakdown by product category (JOIN sales + journal)
  */
@@ -408,7 +662,7 @@ export async function getProfitLossByProductCategory(
     const query = getProfitLossByProductCategoryQuery(dateRange, branchSync);
 
     const result = await clickhouse.query({
-      query,
+      ...query,
       format: 'JSONEachRow',
     });
 
@@ -438,7 +692,7 @@ export async function getChartOfAccountsList(
 ): Promise<import('./types').ChartOfAccountItem[]> {
   try {
     const query = getChartOfAccountsListQuery(dateRange, branchSync);
-    const result = await clickhouse.query({ query, format: 'JSONEachRow' });
+    const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
     const data = await result.json();
     return data.map((row: any) => ({
       accountCode: row.accountCode ?? '',
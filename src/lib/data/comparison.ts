@@ -1,13 +1,22 @@
 import { clickhouse } from '../clickhouse';
+import { listBranches } from '../branches/store';
+import { fallbackBranchName } from '../branches/types';
+import { branchFilter } from './query-builder';
+import { budgetTotalsByBranch, compareWithBudget } from '../budgets/budget';
+import { getBudgetEntries } from '../budgets/store';
+import type { KPIBudget } from '../budgets/types';
 
 export interface BranchComparisonData {
   branchKey: string;
   branchName: string;
+  branchShortName: string;
+  branchColor?: string;
   totalSales: number;
   totalOrders: number;
   totalExpense: number;
   netProfit: number;
   salesGrowth: number; // vs previous period
+  salesBudget: KPIBudget | null; // vs revenue budget (null when the branch has no budget)
   avgTicketSize: number;
   profitMargin: number;
 
@@ -28,35 +37,6 @@ export interface BranchComparisonData {
   monthlySales: Array<{ month: string; sales: number }>;
 }
 
-// Branch mapping configuration (duplicated from api/branches/route.ts to keep data layer independent)
-const BRANCH_MAPPING: Record<string, string> = {
-  'b000': 'บริษัท ช้าง สยาม กัมปนี จำกัด',
-  'b001': 'บริษัท ช้างสยามรวย จำกัด',
-  'b002': 'บริษัท ช้าง ทรัพย์ ทวี จำกัด',
-  'b003': 'บริษัท ชาวทะเลเฮฮา จำกัด',
-  'b004': 'บริษัท ดีจิงจัง 5665 จำกัด',
-  'b005': 'บริษัท ฮอมฮัก จำกัด',
-};
-
-// Helper to build branch filter
-function buildBranchFilter(branches?: string[]): { sql: string; params: Record<string, any> } {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return { sql: '', params: {} };
-  }
-
-  if (branches.length === 1) {
-    return {
-      sql: 'AND branch_sync = {branchSync:String}',
-      params: { branchSync: branches[0] }
-    };
-  }
-
-  return {
-    sql: 'AND branch_sync IN {branchList:Array(String)}',
-    params: { branchList: branches }
-  };
-}
-
 export async function getBranchComparisonData(startDate?: string, endDate?: string, branchSync?: string[]): Promise<BranchComparisonData[]> {
   try {
     const today = new Date();
@@ -65,9 +45,7 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
     const currentEnd = endDate || today.toISOString().split('T')[0];
 
     // Build branch filter
-    const branchFilter = buildBranchFilter(branchSync);
-    const filterSql = branchFilter.sql;
-    const filterParams = branchFilter.params;
+    const { sql: filterSql, params: filterParams } = branchFilter(branchSync);
 
     // Calculate previous period for growth (Same duration as selected period)
     const start = new Date(currentStart);
@@ -132,7 +110,7 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
       FROM stock_transaction
       WHERE toDate(doc_datetime) <= toDate({currentEnd:String})
         AND wh_code != ''
-        ${filterSql.replace(/branch_sync/g, 'wh_code')}
+        ${branchFilter(branchSync, 'wh_code').sql}
       GROUP BY wh_code
       HAVING sum(qty) > 0
     `;
@@ -174,7 +152,7 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
         AND toDate(si.doc_datetime) >= toDate({currentStart:String})
         AND toDate(si.doc_datetime) <= toDate({currentEnd:String})
         AND si.branch_sync != ''
-        ${filterSql.replace(/branch_sync/g, 'si.branch_sync')}
+        ${branchFilter(branchSync, 'si.branch_sync').sql}
       GROUP BY si.branch_sync, sid.item_name
       ORDER BY si.branch_sync ASC, sales DESC
     `;
@@ -207,7 +185,7 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
         FROM stock_transaction
         WHERE toDate(doc_datetime) <= toDate({currentEnd:String})
           AND wh_code != ''
-          ${filterSql.replace(/branch_sync/g, 'wh_code')}
+          ${branchFilter(branchSync, 'wh_code').sql}
         GROUP BY wh_code, item_code
         HAVING sum(qty) > 0
       ) stock
@@ -333,10 +311,14 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
       });
     });
 
-    // Consolidate branch keys – only include selected branches (or all if 'ALL')
+    // Consolidate branch keys – only include selected branches (or all active if 'ALL')
+    const registry = await listBranches();
+    const currentRange = { start: currentStart, end: currentEnd };
+    const budgets = budgetTotalsByBranch(await getBudgetEntries(currentRange, branchSync), currentRange);
+    const registryMap = new Map(registry.map(b => [b.code, b]));
     const wantedKeys = (!branchSync || branchSync.length === 0 || branchSync.includes('ALL'))
-      ? Object.keys(BRANCH_MAPPING)
-      : branchSync.filter(k => BRANCH_MAPPING[k]);
+      ? registry.filter(b => b.isActive).map(b => b.code)
+      : branchSync;
 
     const allBranches = new Set([
       ...salesMap.keys(),
@@ -347,8 +329,9 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
     const comparisonData: BranchComparisonData[] = [];
 
     allBranches.forEach((key) => {
-      // Filter out empty or unknown keys if necessary, but here we include all strictly
-      if (!BRANCH_MAPPING[key]) return; // Skip if not in our known list (optional)
+      // Skip empty keys and branches deactivated in the registry
+      const branch = registryMap.get(key);
+      if (!key || branch?.isActive === false) return;
 
       const sales = salesMap.get(key);
       const expense = expenseMap.get(key);
@@ -395,12 +378,15 @@ export async function getBranchComparisonData(startDate?: string, endDate?: stri
 
       comparisonData.push({
         branchKey: key,
-        branchName: BRANCH_MAPPING[key] || `กิจการ ${key}`,
+        branchName: branch?.name || fallbackBranchName(key),
+        branchShortName: branch?.shortName || fallbackBranchName(key),
+        branchColor: branch?.color || undefined,
         totalSales: currentSalesVal,
         totalOrders: totalOrders,
         totalExpense: currentExpenseVal,
         netProfit: netProfit,
         salesGrowth: growth,
+        salesBudget: compareWithBudget(currentSalesVal, budgets.get(key)?.revenue) ?? null,
         avgTicketSize,
         profitMargin,
         inventoryValue,
@@ -5,6 +5,8 @@
 
 import { clickhouse } from '../clickhouse';
 import type { DateRange } from './types';
+import { branchFilter as buildBranchFilter } from './query-builder';
+import { summaryTablesReady, getSalesTotalsSummaryQuery } from './summaries';
 
 export interface DashboardKPIs {
   totalSales: number;
@@ -47,34 +49,6 @@ export interface RecentSale {
   branchName?: string;
 }
 
-export interface Alert {
-  id: number;
-  type: 'info' | 'warning' | 'error';  // ตรงกับ alertConfig ใน AlertsCard.tsx
-  title: string;
-  message: string;
-  severity: 'info' | 'warning' | 'error';
-  timestamp: string;
-}
-
-// Helper to build branch filter
-function buildBranchFilter(branches?: string[]): { sql: string; params: Record<string, any> } {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return { sql: '', params: {} };
-  }
-
-  if (branches.length === 1) {
-    return {
-      sql: 'AND branch_sync = {branchSync:String}',
-      params: { branchSync: branches[0] }
-    };
-  }
-
-  return {
-    sql: 'AND branch_sync IN {branchList:Array(String)}',
-    params: { branchList: branches }
-  };
-}
-
 /**
  * Get Dashboard KPIs
  * ดึง KPIs หลักสำหรับ Dashboard
@@ -90,6 +64,14 @@ export async function getDashboardKPIs(branchSync?: string[], dateRange?: DateRa
     const prevEndDate = new Date(new Date(startDate).getTime() - 86400000).toISOString().split('T')[0]; // วันก่อน startDate
     const prevStartDate = new Date(new Date(prevEndDate).getTime() - (daysDiff - 1) * 86400000).toISOString().split('T')[0];
 
+    if (await summaryTablesReady()) {
+      return await getDashboardKPIsFromSummaries(
+        { start: startDate, end: endDate },
+        { start: prevStartDate, end: prevEndDate },
+        branchSync
+      );
+    }
+
     const branchFilter = buildBranchFilter(branchSync);
 
     // ยอดขายช่วงเวลาที่เลือก
@@ -172,6 +154,29 @@ export async function getDashboardKPIs(branchSync?: string[], dateRange?: DateRa
   }
 }
 
+/**
+ * Dashboard KPIs จากตารางสรุปยอดขายรายวัน (ช่วงปัจจุบันและก่อนหน้าในการอ่านครั้งเดียว)
+ */
+async function getDashboardKPIsFromSummaries(current: DateRange, previous: DateRange, branchSync?: string[]): Promise<DashboardKPIs> {
+  const result = await clickhouse.query({
+    ...getSalesTotalsSummaryQuery(current, previous, branchSync),
+    format: 'JSONEachRow',
+  });
+  const row = ((await result.json())[0] || {}) as Record<string, unknown>;
+  const value = (key: string) => Number(row[key]) || 0;
+
+  return {
+    totalSales: value('current_sales'),
+    salesGrowth: calcGrowthPct(value('current_sales'), value('previous_sales')),
+    totalOrders: value('current_orders'),
+    ordersGrowth: calcGrowthPct(value('current_orders'), value('previous_orders')),
+    totalCustomers: value('current_customers'),
+    customersGrowth: calcGrowthPct(value('current_customers'), value('previous_customers')),
+    avgOrderValue: value('current_avg_order'),
+    avgOrderGrowth: calcGrowthPct(value('current_avg_order'), value('previous_avg_order')),
+  };
+}
+
 /**
  * Get Sales Chart Data
  * ดึงข้อมูลกราฟยอดขายตามช่วงวันที่
@@ -365,7 +370,7 @@ export async function getRecentSales(branchSync?: string[], dateRange?: DateRang
 
     query += `
       ORDER BY doc_datetime DESC
-      LIMIT ${limit}
+      LIMIT {limit:UInt32}
     `;
 
     const result = await clickhouse.query({
@@ -373,6 +378,7 @@ export async function getRecentSales(branchSync?: string[], dateRange?: DateRang
       query_params: {
         startDate,
         endDate,
+        limit,
         ...branchFilter.params
       },
       format: 'JSONEachRow',
@@ -392,129 +398,3 @@ export async function getRecentSales(branchSync?: string[], dateRange?: DateRang
     throw error;
   }
 }
-
-/**
- * Get Dashboard Alerts
- * ดึงการแจ้งเตือนสำคัญต่างๆ
- */
-export async function getDashboardAlerts(branchSync?: string[]): Promise<Alert[]> {
-  try {
-    const alerts: Alert[] = [];
-    const today = new Date().toISOString().split('T')[0];
-    const branchFilter = buildBranchFilter(branchSync);
-
-    // 1. Low Stock Items
-    // ใช้ subquery GROUP BY item_code เพื่อนับจำนวนสินค้า (SKU)
-    // threshold = Days on Hand <= 7 (อิงจากอัตราขายย้อนหลัง 30 วัน)
-    const lowStockQuery = `
-      SELECT count(*) as count
-      FROM (
-        SELECT
-          item_code,
-          sum(qty) as totalQty,
-          abs(sumIf(qty, qty < 0 AND toDate(doc_datetime) >= toDate({today:String}) - INTERVAL 30 DAY)) as totalOut30d,
-          totalOut30d / 30 as avgDailyOut,
-          if(avgDailyOut > 0, totalQty / avgDailyOut, 999999) as daysOnHand
-        FROM stock_transaction
-        WHERE toDate(doc_datetime) <= toDate({today:String})
-          ${branchFilter.sql}
-        GROUP BY item_code
-        HAVING totalQty > 0 AND avgDailyOut > 0 AND daysOnHand <= 7
-      )
-    `;
-
-    // 2. Overstock Items
-    // threshold = Days on Hand > 90 (อิงจากอัตราขายย้อนหลัง 30 วัน)
-    const overstockQuery = `
-      SELECT count(*) as count
-      FROM (
-        SELECT
-          item_code,
-          sum(qty) as totalQty,
-          abs(sumIf(qty, qty < 0 AND toDate(doc_datetime) >= toDate({today:String}) - INTERVAL 30 DAY)) as totalOut30d,
-          totalOut30d / 30 as avgDailyOut,
-          if(avgDailyOut > 0, totalQty / avgDailyOut, 999999) as daysOnHand
-        FROM stock_transaction
-        WHERE toDate(doc_datetime) <= toDate({today:String})
-          ${branchFilter.sql}
-        GROUP BY item_code
-        HAVING totalQty > 0 AND daysOnHand > 90
-      )
-    `;
-
-    // 3. Overdue Payments (AR)
-    // นับเอกสารขายที่ค้างชำระเกินกำหนด
-    const overdueQuery = `
-      SELECT count(*) as count, sum(outstanding) as amount
-      FROM (
-        SELECT
-          doc_no,
-          total_amount - sum_pay_money as outstanding
-        FROM saleinvoice_transaction
-        WHERE status_cancel != 'Cancel'
-          AND status_payment != 'Fully Paid'
-          AND due_date < today()
-          AND (total_amount - sum_pay_money) > 0
-          ${branchFilter.sql}
-      )
-    `;
-
-    const queryParams = {
-      today,
-      ...branchFilter.params
-    };
-
-    const [lowStockRes, overstockRes, overdueRes] = await Promise.all([
-      clickhouse.query({ query: lowStockQuery, query_params: queryParams, format: 'JSONEachRow' }),
-      clickhouse.query({ query: overstockQuery, query_params: queryParams, format: 'JSONEachRow' }),
-      clickhouse.query({ query: overdueQuery, query_params: queryParams, format: 'JSONEachRow' }),
-    ]);
-
-    const lowStockData = (await lowStockRes.json())[0] as Record<string, unknown> | undefined;
-    const overstockData = (await overstockRes.json())[0] as Record<string, unknown> | undefined;
-    const overdueData = (await overdueRes.json())[0] as Record<string, unknown> | undefined;
-
-    const lowStockCount = Number(lowStockData?.count) || 0;
-    const overstockCount = Number(overstockData?.count) || 0;
-    const overdueCount = Number(overdueData?.count) || 0;
-    const overdueAmount = Number(overdueData?.amount) || 0;
-
-    if (lowStockCount > 0) {
-      alerts.push({
-        id: 1,
-        type: 'warning',
-        title: 'สินค้าใกล้หมด',
-        message: `มีสินค้า ${lowStockCount} SKU ที่สต็อกคงเหลือใช้งานได้ ≤ 7 วัน`,
-        severity: 'warning',
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    if (overstockCount > 0) {
-      alerts.push({
-        id: 2,
-        type: 'info',
-        title: 'สินค้าเกินคลัง',
-        message: `มีสินค้า ${overstockCount} SKU ที่คาดว่าจะขายได้นานกว่า > 90 วัน`,
-        severity: 'info',
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    if (overdueCount > 0) {
-      alerts.push({
-        id: 3,
-        type: 'error',
-        title: 'ลูกหนี้ค้างชำระ',
-        message: `มี ${overdueCount} บิลเกินกำหนดชำระ มูลค่า ฿${overdueAmount.toLocaleString('th-TH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
-        severity: 'error',
-        timestamp: new Date().toISOString(),
-      });
-    }
-
-    return alerts;
-  } catch (error) {
-    console.error('Error fetching dashboard alerts:', error);
-    return [];
-  }
-}
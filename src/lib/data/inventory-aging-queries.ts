@@ -0,0 +1,43 @@
+// Inventory aging queries - Pure functions safe for client-side usage
+//
+// Aging by receipt date is replayed from the valuation movements (inventory-valuation-queries.ts);
+// dead stock is stock on hand whose last issue (qty < 0) is before a date, or that was never issued.
+
+import { sql, toQuery, raw, param, branchFilter, type BuiltQuery } from './query-builder';
+import { asOfParam } from './inventory-balance-queries';
+
+/** จำนวนรายการสูงสุดของรายงานสินค้าไม่เคลื่อนไหว */
+const DEAD_STOCK_LIMIT = 1000;
+
+/**
+ * Stock on hand per branch / warehouse / item as of a date with no issue from sinceDate onwards,
+ * highest value first
+ */
+export function getDeadStockQuery(sinceDate: string, asOf: string, branchSync?: string[]): BuiltQuery {
+  const since = param('since_date', 'Date', sinceDate);
+  return toQuery(sql`
+SELECT
+  branch_sync AS branchSync,
+  wh_code AS whCode,
+  any(wh_name) AS whName,
+  item_code AS itemCode,
+  any(item_name) AS itemName,
+  any(item_category_name) AS categoryName,
+  any(item_brand_name) AS brandName,
+  any(ic_unit_name) AS unitName,
+  sum(qty) AS qtyOnHand,
+  sum(qty * cost) AS inventoryValue,
+  countIf(qty > 0) AS receiptCount,
+  countIf(qty < 0) AS issueCount,
+  if(receiptCount > 0, toString(toDate(maxIf(doc_datetime, qty > 0))), '') AS lastReceiptDate,
+  if(issueCount > 0, toString(toDate(maxIf(doc_datetime, qty < 0))), '') AS lastIssueDate
+FROM stock_transaction
+WHERE toDate(doc_datetime) <= ${asOfParam(asOf)}
+  ${branchFilter(branchSync)}
+GROUP BY branch_sync, wh_code, item_code
+HAVING qtyOnHand > 0
+  AND (issueCount = 0 OR toDate(maxIf(doc_datetime, qty < 0)) < ${since})
+ORDER BY inventoryValue DESC
+${raw(`LIMIT ${DEAD_STOCK_LIMIT}`)}
+  `);
+}
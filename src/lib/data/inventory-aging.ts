@@ -0,0 +1,48 @@
+// Inventory aging data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import { ageInDays } from '@/lib/inventory/aging';
+import type { DeadStockItem } from '@/lib/inventory/types';
+import { getDeadStockQuery } from './inventory-aging-queries';
+
+export * from './inventory-aging-queries';
+
+type Row = Record<string, string | number>;
+
+/**
+ * Get stock on hand as of a date with no issue since sinceDate
+ */
+export async function getDeadStock(sinceDate: string, asOf: string, branchSync?: string[]): Promise<DeadStockItem[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getDeadStockQuery(sinceDate, asOf, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => {
+      const lastReceiptDate = String(row.lastReceiptDate ?? '');
+      const lastIssueDate = String(row.lastIssueDate ?? '');
+      // Idle since the last issue, or the last receipt if never issued; neither (e.g. only adjustments) = unknown
+      const idleSince = lastIssueDate || lastReceiptDate;
+      return {
+        branchSync: String(row.branchSync),
+        whCode: String(row.whCode),
+        whName: String(row.whName || row.whCode),
+        itemCode: String(row.itemCode),
+        itemName: String(row.itemName || row.itemCode),
+        categoryName: String(row.categoryName ?? ''),
+        brandName: String(row.brandName ?? ''),
+        unitName: String(row.unitName ?? ''),
+        qtyOnHand: Number(row.qtyOnHand) || 0,
+        inventoryValue: Number(row.inventoryValue) || 0,
+        lastReceiptDate,
+        lastIssueDate,
+        idleDays: idleSince ? ageInDays(asOf, idleSince) : null,
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching dead stock:', error);
+    throw error;
+  }
+}
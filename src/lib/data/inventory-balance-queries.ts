@@ -0,0 +1,82 @@
+// Inventory balance queries - Pure functions safe for client-side usage
+//
+// On-hand stock as of a date is the sum of every stock_transaction movement up to the
+// end of that day (qty > 0 in, qty < 0 out), valued at qty * cost. Balances are kept per
+// branch / warehouse (wh_code) / shelf (shelf_code) / item; a location that went negative
+// (issued more than received) holds nothing and is left out.
+
+import { sql, toQuery, raw, join, empty, param, branchFilter, type BuiltQuery, type QueryParam, type SqlFragment } from './query-builder';
+import type { BalanceDimension } from '@/lib/inventory/types';
+
+/**
+ * ยอดคงเหลือต่อกิจการ/คลัง/ชั้นวาง/สินค้า ณ สิ้นวัน asOf
+ * คอลัมน์: branch_sync, wh_code, shelf_code, item_code, *_label (ชื่อ), balance_qty (> 0), balance_value
+ */
+export function stockBalance(asOf: QueryParam, branchSync?: string[]): SqlFragment {
+  return sql`(
+  SELECT
+    branch_sync,
+    wh_code,
+    shelf_code,
+    item_code,
+    any(wh_name) AS wh_label,
+    any(shelf_name) AS shelf_label,
+    any(item_name) AS item_label,
+    any(item_category_name) AS category_label,
+    any(item_brand_name) AS brand_label,
+    sum(qty) AS balance_qty,
+    sum(qty * cost) AS balance_value
+  FROM stock_transaction
+  WHERE toDate(doc_datetime) <= ${asOf}
+    ${branchFilter(branchSync)}
+  GROUP BY branch_sync, wh_code, shelf_code, item_code
+  HAVING balance_qty > 0
+)`;
+}
+
+/** วันที่ของยอดคงเหลือ (YYYY-MM-DD) */
+export function asOfParam(asOf: string): QueryParam {
+  return param('as_of_date', 'Date', asOf);
+}
+
+/** คอลัมน์ผลลัพธ์ กับคอลัมน์จัดกลุ่มที่ต้องมีจึงจะแสดงค่า */
+const BALANCE_FIELDS = [
+  { alias: 'branchSync', expr: 'branch_sync', key: 'branch_sync' },
+  { alias: 'whCode', expr: 'wh_code', key: 'wh_code' },
+  { alias: 'whName', expr: 'any(wh_label)', key: 'wh_code' },
+  { alias: 'shelfCode', expr: 'shelf_code', key: 'shelf_code' },
+  { alias: 'shelfName', expr: 'any(shelf_label)', key: 'shelf_code' },
+  { alias: 'itemCode', expr: 'item_code', key: 'item_code' },
+  { alias: 'itemName', expr: 'any(item_label)', key: 'item_code' },
+];
+
+const DIMENSION_GROUPS: Record<BalanceDimension, string[]> = {
+  branch: ['branch_sync'],
+  warehouse: ['branch_sync', 'wh_code'],
+  shelf: ['branch_sync', 'wh_code', 'shelf_code'],
+  item: ['item_code'],
+};
+
+/** มิติสินค้ามีได้หลายพันรายการ แสดงเฉพาะมูลค่าสูงสุด */
+const ITEM_LIMIT = 1000;
+
+/**
+ * ยอดคงเหลือ ณ วันที่ จัดกลุ่มตามกิจการ คลัง ชั้นวาง หรือสินค้า เรียงตามมูลค่า
+ */
+export function getInventoryBalanceQuery(asOf: string, dimension: BalanceDimension, branchSync?: string[]): BuiltQuery {
+  const groups = DIMENSION_GROUPS[dimension];
+  const fields = BALANCE_FIELDS.map(({ alias, expr, key }) =>
+    raw(`${groups.includes(key) ? expr : "''"} AS ${alias}`)
+  );
+  return toQuery(sql`
+SELECT
+  ${join(fields, ',\n  ')},
+  uniqExact(item_code) AS itemCount,
+  sum(balance_qty) AS qtyOnHand,
+  sum(balance_value) AS inventoryValue
+FROM ${stockBalance(asOfParam(asOf), branchSync)}
+GROUP BY ${raw(groups.join(', '))}
+ORDER BY inventoryValue DESC
+${dimension === 'item' ? raw(`LIMIT ${ITEM_LIMIT}`) : empty}
+  `);
+}
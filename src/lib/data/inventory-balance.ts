@@ -0,0 +1,42 @@
+// Inventory balance data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type { BalanceDimension, InventoryBalance } from '@/lib/inventory/types';
+import { getInventoryBalanceQuery } from './inventory-balance-queries';
+
+export * from './inventory-balance-queries';
+
+type Row = Record<string, string | number>;
+
+/**
+ * Get stock on hand as of a date (YYYY-MM-DD) grouped by branch, warehouse, shelf or item
+ */
+export async function getInventoryBalance(
+  asOf: string,
+  dimension: BalanceDimension,
+  branchSync?: string[]
+): Promise<InventoryBalance[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getInventoryBalanceQuery(asOf, dimension, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => ({
+      branchSync: String(row.branchSync),
+      whCode: String(row.whCode),
+      whName: String(row.whName || row.whCode),
+      shelfCode: String(row.shelfCode),
+      shelfName: String(row.shelfName || row.shelfCode),
+      itemCode: String(row.itemCode),
+      itemName: String(row.itemName || row.itemCode),
+      itemCount: Number(row.itemCount) || 0,
+      qtyOnHand: Number(row.qtyOnHand) || 0,
+      inventoryValue: Number(row.inventoryValue) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching inventory balance:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,61 @@
+// Inventory classification queries - Pure functions safe for client-side usage
+//
+// Sales value and gross profit come from saleinvoice_transaction_detail, demand variability
+// from weekly stock_transaction issues (qty < 0). Items with either one are returned.
+
+import type { DateRange } from './types';
+import { sql, toQuery, dateParams, branchFilter, type BuiltQuery } from './query-builder';
+
+/**
+ * Sales value, gross profit and weekly issue statistics per item in a date range
+ */
+export function getItemSalesDemandQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT
+  item_code AS itemCode,
+  if(sales.sale_item_label != '', sales.sale_item_label, demand.stock_item_label) AS itemName,
+  if(sales.sale_category_label != '', sales.sale_category_label, demand.stock_category_label) AS categoryName,
+  sales.sales_value AS salesValue,
+  sales.gross_profit AS grossProfit,
+  demand.total_out AS totalOut,
+  demand.total_out_squared AS totalOutSquared
+FROM (
+  SELECT
+    sid.item_code AS item_code,
+    any(sid.item_name) AS sale_item_label,
+    any(sid.item_category_name) AS sale_category_label,
+    sum(sid.sum_amount) AS sales_value,
+    sum(sid.sum_amount - sid.sum_of_cost) AS gross_profit
+  FROM saleinvoice_transaction_detail sid
+  JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
+  WHERE si.status_cancel != 'Cancel'
+    AND toDate(si.doc_datetime) BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'si.branch_sync')}
+  GROUP BY sid.item_code
+) sales
+FULL OUTER JOIN (
+  SELECT
+    item_code,
+    any(item_label) AS stock_item_label,
+    any(category_label) AS stock_category_label,
+    sum(week_out) AS total_out,
+    sum(week_out * week_out) AS total_out_squared
+  FROM (
+    SELECT
+      item_code,
+      toMonday(doc_datetime) AS week,
+      any(item_name) AS item_label,
+      any(item_category_name) AS category_label,
+      abs(sumIf(qty, qty < 0)) AS week_out
+    FROM stock_transaction
+    WHERE toDate(doc_datetime) BETWEEN ${start} AND ${end}
+      ${branchFilter(branchSync)}
+    GROUP BY item_code, week
+    HAVING week_out > 0
+  )
+  GROUP BY item_code
+) demand USING (item_code)
+WHERE item_code != ''
+  `);
+}
@@ -0,0 +1,36 @@
+// Inventory classification data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type { ItemSalesDemand } from '@/lib/inventory/types';
+import type { DateRange } from './types';
+import { getItemSalesDemandQuery } from './inventory-classification-queries';
+
+export * from './inventory-classification-queries';
+
+type Row = Record<string, string | number>;
+
+/**
+ * Get sales value, gross profit and weekly issue statistics per item
+ */
+export async function getItemSalesDemand(dateRange: DateRange, branchSync?: string[]): Promise<ItemSalesDemand[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getItemSalesDemandQuery(dateRange, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => ({
+      itemCode: String(row.itemCode),
+      itemName: String(row.itemName || row.itemCode),
+      categoryName: String(row.categoryName ?? ''),
+      salesValue: Number(row.salesValue) || 0,
+      grossProfit: Number(row.grossProfit) || 0,
+      totalOut: Number(row.totalOut) || 0,
+      totalOutSquared: Number(row.totalOutSquared) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching item sales and demand:', error);
+    throw error;
+  }
+}
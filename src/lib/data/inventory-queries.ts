@@ -1,149 +1,209 @@
 // Inventory data queries - Pure functions safe for client-side usage
+//
+// Stock on hand comes from the as-of balance in inventory-balance-queries.ts: every
+// movement up to the end of the selected range, not just the movements inside it.
 
 import type { DateRange } from './types';
-import { getPreviousPeriod } from '@/lib/comparison';
+import { sql, toQuery, branchFilter, dateParams, param, type BuiltQuery, type SqlFragment } from './query-builder';
+import { stockBalance, asOfParam } from './inventory-balance-queries';
+import { subtractDays } from '@/lib/dateRanges';
 
 // ============================================================================
-// Query Export Functions (for View SQL Query feature)
+// Query Functions - Used by inventory.ts and the View SQL feature
 // ============================================================================
 
-export function getInventoryValueQuery(dateRange: DateRange): string {
-    return `SELECT
-  sum(total_value) as current_value
-FROM (
-  SELECT
-    item_code,
-    sum(qty) as total_qty,
-    sum(qty * cost) as total_value
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-  GROUP BY item_code
-  HAVING total_qty > 0
-)`;
+/**
+ * Inventory value on hand at the end of the range
+ */
+export function getInventoryValueQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT
+  sum(balance_value) as current_value
+FROM ${stockBalance(end, branchSync)}
+  `);
 }
 
-export function getTotalItemsQuery(dateRange: DateRange): string {
-    return `SELECT
-  count(*) as current_value
-FROM (
+/**
+ * Count of unique items on hand at the end of the range
+ */
+export function getTotalItemsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT
+  uniqExact(item_code) as current_value
+FROM ${stockBalance(end, branchSync)}
+  `);
+}
+
+/**
+ * Per item: stock on hand at the end of the range and Days on Hand from the
+ * average daily outflow within the range
+ */
+function itemStockCover(dateRange: DateRange, branchSync?: string[]): SqlFragment {
+  const { start, end } = dateParams(dateRange);
+  return sql`(
   SELECT
-    item_code,
-    sum(qty) as total_qty
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-  GROUP BY item_code
-  HAVING total_qty > 0
+    b.item_code as itemCode,
+    itemName,
+    categoryName,
+    brandName,
+    whName,
+    currentStock,
+    stockValue,
+    coalesce(o.total_out, 0) as totalOut,
+    greatest(1, dateDiff('day', ${start}, ${end})) as daysPeriod,
+    totalOut / daysPeriod as avgDailySales,
+    if(avgDailySales > 0, currentStock / avgDailySales, 999999) as daysOnHand
+  FROM (
+    SELECT
+      item_code,
+      any(item_label) as itemName,
+      any(category_label) as categoryName,
+      any(brand_label) as brandName,
+      any(wh_label) as whName,
+      sum(balance_qty) as currentStock,
+      sum(balance_value) as stockValue
+    FROM ${stockBalance(end, branchSync)}
+    GROUP BY item_code
+  ) b
+  LEFT JOIN (
+    SELECT
+      item_code,
+      abs(sumIf(qty, qty < 0)) as total_out
+    FROM stock_transaction
+    WHERE toDate(doc_datetime) BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync)}
+    GROUP BY item_code
+  ) o ON b.item_code = o.item_code
 )`;
 }
 
-export function getLowStockCountQuery(dateRange: DateRange): string {
-    return `SELECT
+/**
+ * Count of items with Days on Hand <= 7
+ */
+export function getLowStockCountQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
   count(*) as current_value
-FROM (
-  SELECT
-    item_code,
-    sum(qty) as total_qty
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-  GROUP BY item_code
-  HAVING total_qty > 0 AND total_qty <= 10
-)`;
+FROM ${itemStockCover(dateRange, branchSync)}
+WHERE avgDailySales > 0 AND daysOnHand <= 7
+  `);
 }
 
-export function getOverstockCountQuery(dateRange: DateRange): string {
-    return `SELECT
+/**
+ * Count of items with Days on Hand > 90
+ */
+export function getOverstockCountQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
   count(*) as current_value
-FROM (
-  SELECT
-    item_code,
-    sum(qty) as total_qty
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-  GROUP BY item_code
-  HAVING total_qty > 1000
-)`;
+FROM ${itemStockCover(dateRange, branchSync)}
+WHERE daysOnHand > 90
+  `);
 }
 
-export function getStockMovementQuery(dateRange: DateRange): string {
-    return `-- Stock Movement: Purchases (Value) vs Sales (Value)
+/**
+ * Stock Movement: Purchases (Value) vs Sales (Value) per day
+ */
+export function getStockMovementQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
 SELECT
   toStartOfDay(st.doc_datetime) AS date,
   greatest(0, abs(sum(CASE WHEN pt.doc_no != '' THEN st.amount ELSE 0 END))) AS purchaseValue,
   greatest(0, abs(sum(CASE WHEN si.doc_no != '' THEN st.amount ELSE 0 END))) AS saleValue
 FROM stock_transaction st
 LEFT JOIN (
-  SELECT DISTINCT doc_no, branch_sync FROM purchase_transaction WHERE status_cancel != 'Cancel'
+  SELECT DISTINCT doc_no, branch_sync
+  FROM purchase_transaction
+  WHERE status_cancel != 'Cancel'
+  ${branchFilter(branchSync)}
 ) pt ON st.doc_no = pt.doc_no AND st.branch_sync = pt.branch_sync
 LEFT JOIN (
-  SELECT DISTINCT doc_no, branch_sync FROM saleinvoice_transaction WHERE status_cancel != 'Cancel'
+  SELECT DISTINCT doc_no, branch_sync
+  FROM saleinvoice_transaction
+  WHERE status_cancel != 'Cancel'
+  ${branchFilter(branchSync)}
 ) si ON st.doc_no = si.doc_no AND st.branch_sync = si.branch_sync
-WHERE st.doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+WHERE st.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'st.branch_sync')}
 GROUP BY date
-ORDER BY date ASC`;
+ORDER BY date ASC
+  `);
 }
 
-export function getLowStockItemsQuery(dateRange: DateRange): string {
-    return `SELECT
-  item_code as itemCode,
-  any(item_name) as itemName,
-  any(item_category_name) as categoryName,
-  any(item_brand_name) as brandName,
-  any(wh_name) as whName,
-  any(wh_name) as branchName,
-  sum(qty) as currentStock,
-  10 as reorderPoint,
-  if(sum(qty) > 0, sum(qty * cost) / sum(qty), 0) as costAvg
-FROM stock_transaction
-WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-GROUP BY item_code
-HAVING currentStock > 0 AND currentStock <= 10
-ORDER BY currentStock ASC
-LIMIT 50`;
+/**
+ * Items with Days on Hand <= 7
+ */
+export function getLowStockItemsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  itemCode,
+  itemName,
+  categoryName,
+  brandName,
+  whName,
+  whName as branchName,
+  currentStock,
+  stockValue,
+  avgDailySales,
+  daysOnHand
+FROM ${itemStockCover(dateRange, branchSync)}
+WHERE avgDailySales > 0 AND daysOnHand <= 7
+ORDER BY daysOnHand ASC
+  `);
 }
 
-export function getOverstockItemsQuery(dateRange: DateRange): string {
-    return `SELECT
-  item_code as itemCode,
-  any(item_name) as itemName,
-  any(item_category_name) as categoryName,
-  any(item_brand_name) as brandName,
-  any(wh_name) as branchName,
-  sum(qty) as currentStock,
-  1000 as maxStockLevel,
-  if(sum(qty) > 0, sum(qty * cost) / sum(qty), 0) as costAvg
-FROM stock_transaction
-WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-GROUP BY item_code
-HAVING currentStock > 1000
-ORDER BY currentStock DESC
-LIMIT 50`;
+/**
+ * Items with Days on Hand > 90
+ */
+export function getOverstockItemsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  itemCode,
+  itemName,
+  categoryName,
+  brandName,
+  whName as branchName,
+  currentStock,
+  stockValue,
+  avgDailySales,
+  daysOnHand
+FROM ${itemStockCover(dateRange, branchSync)}
+WHERE daysOnHand > 90
+ORDER BY daysOnHand DESC
+  `);
 }
 
-export function getSlowMovingItemsQuery(dateRange: DateRange): string {
-    return `SELECT
+/**
+ * Items whose stock on hand at the end of the range covers more than 90 days of sales in the range
+ */
+export function getSlowMovingItemsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT
   stock.item_code as itemCode,
-  stock.item_name as itemName,
+  stock.itemName as itemName,
   stock.categoryName as categoryName,
   stock.brandName as brandName,
   stock.currentStock as currentStock,
   stock.costAvg as costAvg,
   stock.stockValue as stockValue,
   coalesce(sales.qty_sold, 0) as qtySold,
-  dateDiff('day', toDate('${dateRange.start}'), toDate('${dateRange.end}')) as daysPeriod,
+  greatest(1, dateDiff('day', ${start}, ${end})) as daysPeriod,
   if(sales.qty_sold > 0, stock.currentStock / (sales.qty_sold / daysPeriod), 999) as daysOfStock
 FROM (
   SELECT
     item_code,
-    any(item_name) as item_name,
-    any(item_category_name) as categoryName,
-    any(item_brand_name) as brandName,
-    sum(qty) as currentStock,
-    if(sum(qty) > 0, sum(qty * cost) / sum(qty), 0) as costAvg,
-    sum(qty * cost) as stockValue
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+    any(item_label) as itemName,
+    any(category_label) as categoryName,
+    any(brand_label) as brandName,
+    sum(balance_qty) as currentStock,
+    sum(balance_value) / currentStock as costAvg,
+    sum(balance_value) as stockValue
+  FROM ${stockBalance(end, branchSync)}
   GROUP BY item_code
-  HAVING currentStock > 0
 ) stock
 LEFT JOIN (
   SELECT
@@ -152,16 +212,25 @@ LEFT JOIN (
   FROM saleinvoice_transaction_detail sid
   JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
   WHERE si.status_cancel != 'Cancel'
-    AND toDate(si.doc_datetime) BETWEEN toDate('${dateRange.start}') AND toDate('${dateRange.end}')
+    AND toDate(si.doc_datetime) BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'si.branch_sync')}
   GROUP BY sid.item_code
 ) sales ON stock.item_code = sales.item_code
 WHERE daysOfStock > 90
 ORDER BY stockValue DESC
-LIMIT 50`;
+LIMIT 50
+  `);
 }
 
-export function getInventoryTurnoverQuery(dateRange: DateRange): string {
-    return `SELECT
+/**
+ * Inventory turnover by category: COGS in the range over the average of the
+ * stock value on hand before the range and at its end
+ */
+export function getInventoryTurnoverQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const opening = param('opening_date', 'Date', subtractDays(dateRange.start, 1));
+  return toQuery(sql`
+SELECT
   stock.categoryName as categoryName,
   stock.avgInventoryValue as avgInventoryValue,
   coalesce(sales.totalCOGS, 0) as totalCOGS,
@@ -169,12 +238,15 @@ export function getInventoryTurnoverQuery(dateRange: DateRange): string {
   if(turnoverRatio > 0, 365 / turnoverRatio, 0) as daysToSell
 FROM (
   SELECT
-    item_category_name as categoryName,
-    sum(qty * cost) as avgInventoryValue
-  FROM stock_transaction
-  WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-    AND item_category_name != ''
-  GROUP BY item_category_name
+    category_label as categoryName,
+    (sumIf(balance_value, point = 'opening') + sumIf(balance_value, point = 'closing')) / 2 as avgInventoryValue
+  FROM (
+    SELECT 'opening' as point, category_label, balance_value FROM ${stockBalance(opening, branchSync)}
+    UNION ALL
+    SELECT 'closing' as point, category_label, balance_value FROM ${stockBalance(end, branchSync)}
+  )
+  WHERE category_label != ''
+  GROUP BY category_label
   HAVING avgInventoryValue > 0
 ) stock
 LEFT JOIN (
@@ -184,24 +256,29 @@ LEFT JOIN (
   FROM saleinvoice_transaction_detail sid
   JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
   WHERE si.status_cancel != 'Cancel'
-    AND si.doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+    AND toDate(si.doc_datetime) BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'si.branch_sync')}
   GROUP BY sid.item_category_name
 ) sales ON stock.categoryName = sales.categoryName
 ORDER BY turnoverRatio DESC
-LIMIT 15`;
+LIMIT 15
+  `);
 }
 
-export function getStockByBranchQuery(dateRange: DateRange): string {
-    return `SELECT
+/**
+ * Stock on hand by warehouse as of a date (stock_transaction has no branch_code, wh_code is used instead)
+ */
+export function getStockByBranchQuery(asOf: string, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
   wh_code as branchCode,
-  any(wh_name) as branchName,
-  count(DISTINCT item_code) as itemCount,
-  sum(qty) as qtyOnHand,
-  sum(qty * cost) as inventoryValue
-FROM stock_transaction
-WHERE doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-  AND wh_code != ''
+  any(wh_label) as branchName,
+  uniqExact(item_code) as itemCount,
+  sum(balance_qty) as qtyOnHand,
+  sum(balance_value) as inventoryValue
+FROM ${stockBalance(asOfParam(asOf), branchSync)}
+WHERE wh_code != ''
 GROUP BY wh_code
-HAVING qtyOnHand > 0
-ORDER BY inventoryValue DESC`;
+ORDER BY inventoryValue DESC
+  `);
 }
@@ -0,0 +1,42 @@
+// Inventory valuation queries - Pure functions safe for client-side usage
+//
+// Movements are summed per document and direction, then ordered per branch / warehouse /
+// item by time with receipts first, ready for replayItem (src/lib/inventory/valuation.ts).
+
+import { sql, toQuery, param, empty, branchFilter, type BuiltQuery } from './query-builder';
+import { asOfParam } from './inventory-balance-queries';
+
+export interface ValuationFilter {
+  whCode?: string;
+  itemCode?: string;
+}
+
+/**
+ * Stock movements up to the end of asOf for the valuation replay
+ * Columns (JSONCompactEachRow order): branch_sync, wh_code, wh_label, item_code, item_label,
+ * doc_datetime, doc_no, move_qty, move_amount, is_receipt, category_label, brand_label
+ */
+export function getValuationMovementsQuery(asOf: string, branchSync?: string[], filter: ValuationFilter = {}): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  branch_sync,
+  wh_code,
+  any(wh_name) AS wh_label,
+  item_code,
+  any(item_name) AS item_label,
+  doc_datetime,
+  doc_no,
+  sum(qty) AS move_qty,
+  sum(qty * cost) AS move_amount,
+  qty > 0 AS is_receipt,
+  any(item_category_name) AS category_label,
+  any(item_brand_name) AS brand_label
+FROM stock_transaction
+WHERE toDate(doc_datetime) <= ${asOfParam(asOf)}
+  ${branchFilter(branchSync)}
+  ${filter.whCode ? sql`AND wh_code = ${param('wh_code', 'String', filter.whCode)}` : empty}
+  ${filter.itemCode ? sql`AND item_code = ${param('item_code', 'String', filter.itemCode)}` : empty}
+GROUP BY branch_sync, wh_code, item_code, doc_datetime, doc_no, is_receipt
+ORDER BY branch_sync, wh_code, item_code, doc_datetime, is_receipt DESC, doc_no
+  `);
+}
@@ -0,0 +1,208 @@
+// Inventory valuation data for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type {
+  BranchValuation,
+  CostLayer,
+  InventoryAging,
+  ItemValuation,
+  StockValuation,
+  WarehouseValuation,
+} from '@/lib/inventory/types';
+import { ageInDays, buildInventoryAging, type AgingItem } from '@/lib/inventory/aging';
+import { addValues, EMPTY_VALUES, replayItem, type ItemReplay, type ValuationMovement } from '@/lib/inventory/valuation';
+import { getValuationMovementsQuery, type ValuationFilter } from './inventory-valuation-queries';
+
+export * from './inventory-valuation-queries';
+
+/** จำนวนสินค้าสูงสุดที่ส่งกลับในรายงานตีราคา */
+const MAX_ITEMS = 500;
+/** จำนวนชั้นต้นทุนสูงสุดที่ส่งกลับ */
+const MAX_LAYERS = 2000;
+
+type Cell = string | number;
+
+interface ItemKey {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  brandName: string;
+}
+
+/**
+ * Stream the movements (ordered per branch / warehouse / item) and replay each item in turn,
+ * so only one item's history is held in memory at a time
+ */
+async function replayStock(
+  asOf: string,
+  branchSync: string[] | undefined,
+  filter: ValuationFilter,
+  onItem: (item: ItemKey, replay: ItemReplay) => void
+): Promise<void> {
+  const result = await clickhouse.query({
+    ...getValuationMovementsQuery(asOf, branchSync, filter),
+    format: 'JSONCompactEachRow',
+  });
+
+  let current: ItemKey | null = null;
+  let movements: ValuationMovement[] = [];
+  const flush = () => {
+    if (current && movements.length > 0) onItem(current, replayItem(movements));
+    movements = [];
+  };
+
+  for await (const rows of result.stream()) {
+    for (const row of rows as { json<T>(): T }[]) {
+      const [branch, whCode, whName, itemCode, itemName, docDatetime, docNo, qty, amount, , categoryName, brandName] =
+        row.json<Cell[]>();
+      if (
+        !current ||
+        current.branchSync !== branch ||
+        current.whCode !== whCode ||
+        current.itemCode !== itemCode
+      ) {
+        flush();
+        current = {
+          branchSync: String(branch),
+          whCode: String(whCode),
+          whName: String(whName || whCode),
+          itemCode: String(itemCode),
+          itemName: String(itemName || itemCode),
+          categoryName: String(categoryName ?? ''),
+          brandName: String(brandName ?? ''),
+        };
+      }
+      movements.push({
+        docDatetime: String(docDatetime),
+        docNo: String(docNo),
+        qty: Number(qty) || 0,
+        amount: Number(amount) || 0,
+      });
+    }
+  }
+  flush();
+}
+
+/**
+ * Value stock as of a date (YYYY-MM-DD) by recorded cost, moving average and FIFO,
+ * summed per branch and warehouse, with the items of highest FIFO value
+ */
+export async function getStockValuation(asOf: string, branchSync?: string[]): Promise<StockValuation> {
+  try {
+    const branches = new Map<string, BranchValuation>();
+    const warehouses = new Map<string, WarehouseValuation>();
+    const items: ItemValuation[] = [];
+
+    await replayStock(asOf, branchSync, {}, (key, replay) => {
+      const values = {
+        qtyOnHand: replay.qtyOnHand,
+        recordedValue: replay.recordedValue,
+        movingAverageValue: replay.movingAverageValue,
+        fifoValue: replay.fifoValue,
+        shortageQty: replay.shortageQty,
+      };
+      if (
+        Math.abs(values.qtyOnHand) < 1e-9 &&
+        !values.recordedValue &&
+        !values.movingAverageValue &&
+        !values.fifoValue
+      ) {
+        return;
+      }
+
+      let branch = branches.get(key.branchSync);
+      if (!branch) {
+        branch = { branchSync: key.branchSync, ...EMPTY_VALUES };
+        branches.set(key.branchSync, branch);
+      }
+      addValues(branch, values);
+
+      const warehouseKey = `${key.branchSync}|${key.whCode}`;
+      let warehouse = warehouses.get(warehouseKey);
+      if (!warehouse) {
+        warehouse = { branchSync: key.branchSync, whCode: key.whCode, whName: key.whName, itemCount: 0, ...EMPTY_VALUES };
+        warehouses.set(warehouseKey, warehouse);
+      }
+      addValues(warehouse, values);
+      if (values.qtyOnHand > 0) warehouse.itemCount += 1;
+
+      items.push({ ...key, ...values });
+    });
+
+    return {
+      branches: [...branches.values()],
+      warehouses: [...warehouses.values()].sort((a, b) => b.fifoValue - a.fifoValue),
+      items: items.sort((a, b) => b.fifoValue - a.fifoValue).slice(0, MAX_ITEMS),
+    };
+  } catch (error) {
+    console.error('Error fetching stock valuation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the FIFO cost layers still open as of a date (YYYY-MM-DD), oldest first
+ */
+export async function getCostLayers(
+  asOf: string,
+  branchSync?: string[],
+  filter: ValuationFilter = {}
+): Promise<CostLayer[]> {
+  try {
+    const layers: CostLayer[] = [];
+
+    await replayStock(asOf, branchSync, filter, (key, replay) => {
+      for (const layer of replay.layers) {
+        layers.push({
+          ...key,
+          receivedAt: layer.receivedAt,
+          docNo: layer.docNo,
+          qty: layer.qty,
+          unitCost: layer.unitCost,
+          value: layer.qty * layer.unitCost,
+          ageDays: ageInDays(asOf, layer.receivedAt),
+        });
+      }
+    });
+
+    return layers.sort((a, b) => a.receivedAt.localeCompare(b.receivedAt)).slice(0, MAX_LAYERS);
+  } catch (error) {
+    console.error('Error fetching cost layers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Age the stock on hand as of a date (YYYY-MM-DD) by the receipt date of its open FIFO layers,
+ * in total and per warehouse / category / brand
+ */
+export async function getInventoryAging(asOf: string, branchSync?: string[]): Promise<InventoryAging> {
+  try {
+    const items: AgingItem[] = [];
+
+    await replayStock(asOf, branchSync, {}, (key, replay) => {
+      if (replay.layers.length === 0) return;
+      items.push({
+        branchSync: key.branchSync,
+        whCode: key.whCode,
+        whName: key.whName,
+        categoryName: key.categoryName,
+        brandName: key.brandName,
+        layers: replay.layers.map((layer) => ({
+          ageDays: ageInDays(asOf, layer.receivedAt),
+          qty: layer.qty,
+          value: layer.qty * layer.unitCost,
+        })),
+      });
+    });
+
+    return buildInventoryAging(asOf, items);
+  } catch (error) {
+    console.error('Error fetching inventory aging:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,124 @@
+// Payment analytics queries - Pure functions safe for client-side usage
+//
+// payment_transaction holds one row per receipt (pay_type = 'in') or payment
+// (pay_type = 'out') with the amount split by method. Cancelled documents are left out.
+
+import type { DateRange } from './types';
+import { sql, toQuery, raw, join, branchFilter, dateParams, type BuiltQuery, type SqlFragment } from './query-builder';
+import { PAYMENT_METHODS, type PaymentPeriod } from '@/lib/payments/types';
+
+const DAY_MS = 86_400_000;
+
+/** ช่วงไม่เกิน 31 วันจัดกลุ่มรายวัน นอกนั้นรายเดือน */
+export function paymentPeriod(dateRange: DateRange): PaymentPeriod {
+  const days = (Date.parse(dateRange.end) - Date.parse(dateRange.start)) / DAY_MS + 1;
+  return days <= 31 ? 'day' : 'month';
+}
+
+function periodColumn(dateRange: DateRange): SqlFragment {
+  return paymentPeriod(dateRange) === 'day'
+    ? raw(`toString(date(doc_datetime)) AS period`)
+    : raw(`formatDateTime(toStartOfMonth(doc_datetime), '%Y-%m') AS period`);
+}
+
+/** sum(...) ของทุกช่องทาง ตั้งชื่อคอลัมน์ตาม key */
+const methodSums: SqlFragment = join(
+  PAYMENT_METHODS.map(({ key, columns }) => raw(`sum(${columns.join(' + ')}) AS ${key}`))
+);
+
+function paymentWhere(dateRange: DateRange, branchSync?: string[]): SqlFragment {
+  const { start, end } = dateParams(dateRange);
+  return sql`WHERE status_cancel != 'Cancel'
+  AND date(doc_datetime) BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}`;
+}
+
+/**
+ * เงินรับแยกช่องทางชำระต่อวัน/เดือน
+ */
+export function getPaymentMethodTrendQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  ${periodColumn(dateRange)},
+  ${methodSums},
+  sum(total_amount_pay) AS total
+FROM payment_transaction
+${paymentWhere(dateRange, branchSync)}
+  AND pay_type = 'in'
+GROUP BY period
+ORDER BY period
+  `);
+}
+
+/**
+ * เงินรับ (in) เทียบเงินจ่าย (out) ต่อวัน/เดือน
+ */
+export function getPaymentFlowQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  ${periodColumn(dateRange)},
+  sumIf(total_amount_pay, pay_type = 'in') AS inflow,
+  sumIf(total_amount_pay, pay_type = 'out') AS outflow,
+  countIf(pay_type = 'in') AS inflowCount,
+  countIf(pay_type = 'out') AS outflowCount
+FROM payment_transaction
+${paymentWhere(dateRange, branchSync)}
+GROUP BY period
+ORDER BY period
+  `);
+}
+
+/**
+ * ยอดรับบัตรเครดิตและค่า charge บัตรต่อวัน/เดือน
+ */
+export function getCardFeesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  ${periodColumn(dateRange)},
+  sum(card_amount) AS cardAmount,
+  sum(total_credit_charge) AS creditCharge,
+  countIf(card_amount != 0 OR total_credit_charge != 0) AS docCount
+FROM payment_transaction
+${paymentWhere(dateRange, branchSync)}
+  AND pay_type = 'in'
+GROUP BY period
+HAVING cardAmount != 0 OR creditCharge != 0
+ORDER BY period
+  `);
+}
+
+/**
+ * ภาษีหัก ณ ที่จ่ายฝั่งรับเงินและฝั่งจ่ายเงินต่อวัน/เดือน
+ */
+export function getWithholdingTaxQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  ${periodColumn(dateRange)},
+  sumIf(total_tax_at_pay, pay_type = 'in') AS withheldOnReceipts,
+  sumIf(total_tax_at_pay, pay_type = 'out') AS withheldOnPayments,
+  countIf(total_tax_at_pay != 0) AS docCount
+FROM payment_transaction
+${paymentWhere(dateRange, branchSync)}
+GROUP BY period
+HAVING withheldOnReceipts != 0 OR withheldOnPayments != 0
+ORDER BY period
+  `);
+}
+
+/**
+ * เงินรับต่อกิจการแยกช่องทางชำระ
+ */
+export function getCashInByBranchQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  branch_sync AS branchSync,
+  ${methodSums},
+  sum(total_amount_pay) AS total,
+  count() AS docCount
+FROM payment_transaction
+${paymentWhere(dateRange, branchSync)}
+  AND pay_type = 'in'
+GROUP BY branch_sync
+ORDER BY total DESC
+  `);
+}
@@ -0,0 +1,135 @@
+// Payment analytics data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type { DateRange } from './types';
+import type { BuiltQuery } from './query-builder';
+import {
+  PAYMENT_METHODS,
+  type CardFee,
+  type CashInByBranch,
+  type PaymentFlow,
+  type PaymentMethodAmounts,
+  type PaymentMethodTrend,
+  type WithholdingTax,
+} from '@/lib/payments/types';
+import {
+  getPaymentMethodTrendQuery,
+  getPaymentFlowQuery,
+  getCardFeesQuery,
+  getWithholdingTaxQuery,
+  getCashInByBranchQuery,
+} from './payments-queries';
+
+export * from './payments-queries';
+
+type Row = Record<string, string | number>;
+
+async function queryRows(query: BuiltQuery): Promise<Row[]> {
+  const result = await clickhouse.query({ ...query, format: 'JSONEachRow' });
+  return result.json();
+}
+
+function methodAmounts(row: Row): PaymentMethodAmounts {
+  return Object.fromEntries(PAYMENT_METHODS.map(({ key }) => [key, Number(row[key]) || 0])) as PaymentMethodAmounts;
+}
+
+/**
+ * Get cash receipts split by payment method per day/month
+ */
+export async function getPaymentMethodTrend(dateRange: DateRange, branchSync?: string[]): Promise<PaymentMethodTrend[]> {
+  try {
+    const rows = await queryRows(getPaymentMethodTrendQuery(dateRange, branchSync));
+    return rows.map((row) => ({
+      period: String(row.period),
+      ...methodAmounts(row),
+      total: Number(row.total) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching payment method trend:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get money in vs money out per day/month
+ */
+export async function getPaymentFlow(dateRange: DateRange, branchSync?: string[]): Promise<PaymentFlow[]> {
+  try {
+    const rows = await queryRows(getPaymentFlowQuery(dateRange, branchSync));
+    return rows.map((row) => {
+      const inflow = Number(row.inflow) || 0;
+      const outflow = Number(row.outflow) || 0;
+      return {
+        period: String(row.period),
+        inflow,
+        outflow,
+        net: inflow - outflow,
+        inflowCount: Number(row.inflowCount) || 0,
+        outflowCount: Number(row.outflowCount) || 0,
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching payment flow:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get credit card receipts and card charges per day/month
+ */
+export async function getCardFees(dateRange: DateRange, branchSync?: string[]): Promise<CardFee[]> {
+  try {
+    const rows = await queryRows(getCardFeesQuery(dateRange, branchSync));
+    return rows.map((row) => {
+      const cardAmount = Number(row.cardAmount) || 0;
+      const creditCharge = Number(row.creditCharge) || 0;
+      return {
+        period: String(row.period),
+        cardAmount,
+        creditCharge,
+        feeRate: cardAmount !== 0 ? (creditCharge / cardAmount) * 100 : 0,
+        docCount: Number(row.docCount) || 0,
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching card fees:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get withholding tax on receipts and on payments per day/month
+ */
+export async function getWithholdingTax(dateRange: DateRange, branchSync?: string[]): Promise<WithholdingTax[]> {
+  try {
+    const rows = await queryRows(getWithholdingTaxQuery(dateRange, branchSync));
+    return rows.map((row) => ({
+      period: String(row.period),
+      withheldOnReceipts: Number(row.withheldOnReceipts) || 0,
+      withheldOnPayments: Number(row.withheldOnPayments) || 0,
+      docCount: Number(row.docCount) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching withholding tax:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get cash receipts per branch split by payment method
+ */
+export async function getCashInByBranch(dateRange: DateRange, branchSync?: string[]): Promise<CashInByBranch[]> {
+  try {
+    const rows = await queryRows(getCashInByBranchQuery(dateRange, branchSync));
+    return rows.map((row) => ({
+      branchSync: String(row.branchSync),
+      ...methodAmounts(row),
+      total: Number(row.total) || 0,
+      docCount: Number(row.docCount) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching cash-in by branch:', error);
+    throw error;
+  }
+}
@@ -2,97 +2,129 @@
 
 import type { DateRange } from './types';
 import { getPreviousPeriod } from '@/lib/comparison';
+import { sql, toQuery, raw, param, empty, branchFilter, dateParams, dateTimeParams, type BuiltQuery } from './query-builder';
 
 // ============================================================================
-// Query Export Functions for View SQL Query Feature
+// Query Functions - Used by purchase.ts and the View SQL feature
 // ============================================================================
 
 /**
  * Get Total Purchases Query
  */
-export function getTotalPurchasesQuery(dateRange: DateRange): string {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    return `SELECT
+export function getTotalPurchasesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   sum(total_amount) as current_value,
   (SELECT sum(total_amount)
    FROM purchase_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start} 00:00:00' AND '${previousPeriod.end} 23:59:59') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Total Items Purchased Query
  */
-export function getTotalItemsPurchasedQuery(dateRange: DateRange): string {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    return `SELECT
+export function getTotalItemsPurchasedQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync, 'pt.branch_sync');
+  return toQuery(sql`
+SELECT
   sum(qty) as current_value,
   (SELECT sum(qty)
    FROM purchase_transaction_detail ptd
    JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
    WHERE pt.status_cancel != 'Cancel'
-     AND pt.doc_datetime BETWEEN '${previousPeriod.start} 00:00:00' AND '${previousPeriod.end} 23:59:59') as previous_value
+     AND pt.doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM purchase_transaction_detail ptd
 JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
 WHERE pt.status_cancel != 'Cancel'
-  AND pt.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'`;
+  AND pt.doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Total Orders Query
  */
-export function getTotalOrdersQuery(dateRange: DateRange): string {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    return `SELECT
+export function getTotalOrdersQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   count(DISTINCT doc_no, branch_sync) as current_value,
   (SELECT count(DISTINCT doc_no, branch_sync)
    FROM purchase_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start} 00:00:00' AND '${previousPeriod.end} 23:59:59') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Average Order Value Query
  */
-export function getAvgOrderValueQuery(dateRange: DateRange): string {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    return `SELECT
+export function getAvgOrderValueQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   avg(total_amount) as current_value,
   (SELECT avg(total_amount)
    FROM purchase_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start} 00:00:00' AND '${previousPeriod.end} 23:59:59') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Purchase Trend Query
  */
-export function getPurchaseTrendQuery(dateRange: DateRange): string {
-    return `SELECT
+export function getPurchaseTrendQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
   formatDateTime(toStartOfMonth(doc_datetime), '%Y-%m') as month,
   sum(total_amount) as totalPurchases,
   count(DISTINCT doc_no, branch_sync) as poCount
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
 GROUP BY month
-ORDER BY month ASC`;
+ORDER BY month ASC
+  `);
 }
 
 /**
  * Get Top Suppliers Query
+ * @param limit - Row limit, 0 for all suppliers
  */
-export function getTopSuppliersQuery(dateRange: DateRange): string {
-    return `SELECT
+export function getTopSuppliersQuery(dateRange: DateRange, branchSync?: string[], limit: number = 20): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
   supplier_code as supplierCode,
   supplier_name as supplierName,
   count(DISTINCT doc_no, branch_sync) as poCount,
@@ -102,63 +134,82 @@ export function getTopSuppliersQuery(dateRange: DateRange): string {
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
   AND supplier_code != ''
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
 GROUP BY supplier_code, supplier_name
 ORDER BY totalPurchases DESC
-LIMIT 20`;
+${limit > 0 ? sql`LIMIT ${param('limit', 'UInt32', limit)}` : empty}
+  `);
 }
 
 /**
- * Get Purchase By Category Query
+ * Get Purchase By Category Query (item level)
  */
-export function getPurchaseByCategoryQuery(dateRange: DateRange): string {
-    return `SELECT
+export function getPurchaseByCategoryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
   COALESCE(NULLIF(ptd.item_category_code, ''), 'N/A') as categoryCode,
   COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
+  ptd.item_code as itemCode,
+  ptd.item_name as itemName,
   sum(ptd.qty) as totalQty,
   sum(ptd.sum_amount) as totalPurchaseValue,
   count(DISTINCT ptd.item_code) as uniqueItems
 FROM purchase_transaction_detail ptd
 JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
 WHERE pt.status_cancel != 'Cancel'
-  AND pt.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
-GROUP BY categoryCode, categoryName
-ORDER BY totalPurchaseValue DESC
-LIMIT 15`;
+  AND pt.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'pt.branch_sync')}
+GROUP BY categoryCode, categoryName, ptd.item_code, ptd.item_name
+ORDER BY categoryName ASC, totalPurchaseValue DESC
+  `);
 }
 
 /**
  * Get Purchase By Brand Query
  */
-export function getPurchaseByBrandQuery(dateRange: DateRange): string {
-    return `SELECT
-  COALESCE(NULLIF(ptd.item_brand_code, ''), 'N/A') as brandCode,
-  COALESCE(NULLIF(ptd.item_brand_name, ''), 'ไม่ระบุแบรนด์') as brandName,
+export function getPurchaseByBrandQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
+  ptd.item_brand_code as brandCode,
+  ptd.item_brand_name as brandName,
   sum(ptd.sum_amount) as totalPurchaseValue,
   uniq(ptd.item_code) as uniqueItems
 FROM purchase_transaction_detail ptd
 JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
 WHERE pt.status_cancel != 'Cancel'
-  AND pt.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
-GROUP BY brandCode, brandName
+  AND pt.doc_datetime BETWEEN ${start} AND ${end}
+  AND ptd.item_brand_name != ''
+  ${branchFilter(branchSync, 'pt.branch_sync')}
+GROUP BY ptd.item_brand_code, ptd.item_brand_name
 ORDER BY totalPurchaseValue DESC
-LIMIT 15`;
+LIMIT 15
+  `);
 }
 
 /**
- * Get Purchase By Category Summary Query
+ * Get Purchase By Category Summary Query (ผังบัญชีจาก journal_transaction_detail)
  */
-export function getPurchaseByCategorySummaryQuery(dateRange: DateRange, accountType: 'EXPENSES' | 'ASSETS' = 'EXPENSES'): string {
-    return `WITH journal_summary AS (
-  SELECT 
+export function getPurchaseByCategorySummaryQuery(
+  dateRange: DateRange,
+  accountType: 'EXPENSES' | 'ASSETS' = 'EXPENSES',
+  branchSync?: string[]
+): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+WITH journal_summary AS (
+  SELECT
     doc_no,
     branch_sync,
     account_code,
     account_name,
     sum(debit - credit) as amount
   FROM journal_transaction_detail
-  WHERE account_type = '${accountType}'
-    AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+  WHERE account_type = ${param('account_type', 'String', accountType)}
+    AND doc_datetime BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync)}
   GROUP BY doc_no, branch_sync, account_code, account_name
   HAVING amount != 0
 ),
@@ -170,7 +221,8 @@ purchase_summary AS (
   FROM purchase_transaction_detail ptd
   JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
   WHERE pt.status_cancel != 'Cancel'
-    AND pt.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+    AND pt.doc_datetime BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'ptd.branch_sync')}
   GROUP BY ptd.doc_no, ptd.branch_sync
 )
 SELECT
@@ -182,14 +234,42 @@ SELECT
 FROM journal_summary j
 JOIN purchase_summary p ON j.doc_no = p.doc_no AND j.branch_sync = p.branch_sync
 GROUP BY j.account_code, j.account_name
-ORDER BY totalPurchaseValue DESC`;
+ORDER BY totalPurchaseValue DESC
+  `);
+}
+
+/**
+ * Get Purchase Analysis Query (detailed purchase line items)
+ */
+export function getPurchaseAnalysisQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
+  COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
+  toDate(toTimeZone(pt.doc_datetime, 'Asia/Bangkok')) as docDate,
+  pt.doc_no as docNo,
+  ptd.item_code as itemCode,
+  ptd.item_name as itemName,
+  ptd.unit_code as unitCode,
+  ptd.qty as qty,
+  ptd.sum_amount / NULLIF(ptd.qty, 0) as price,
+  ptd.sum_amount as totalAmount
+FROM purchase_transaction_detail ptd
+JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
+WHERE pt.status_cancel != 'Cancel'
+  AND pt.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'pt.branch_sync')}
+ORDER BY categoryName, docDate, docNo
+  `);
 }
 
 /**
  * Get AP Outstanding Query
  */
-export function getAPOutstandingQuery(dateRange: DateRange): string {
-    return `SELECT
+export function getAPOutstandingQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
   supplier_code as supplierCode,
   supplier_name as supplierName,
   sum(total_amount - sum_pay_money) as totalOutstanding,
@@ -198,22 +278,147 @@ export function getAPOutstandingQuery(dateRange: DateRange): string {
 FROM purchase_transaction
 WHERE status_cancel != 'Cancel'
   AND doc_type = 'CREDIT'
-  AND doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+  AND doc_datetime BETWEEN ${start} AND ${end}
   AND total_amount > sum_pay_money
+  ${branchFilter(branchSync)}
 GROUP BY supplier_code, supplier_name
 ORDER BY totalOutstanding DESC
-LIMIT 20`;
+LIMIT 20
+  `);
+}
+
+/**
+ * Get open credit purchases for payment planning (every unpaid document, regardless of date range)
+ */
+export function getAPOpenInvoicesQuery(branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  branch_sync as branchSync,
+  doc_no as docNo,
+  supplier_code as supplierCode,
+  supplier_name as supplierName,
+  toString(date(toTimeZone(doc_datetime, 'Asia/Bangkok'))) as docDate,
+  toString(due_date) as dueDate,
+  total_amount - sum_pay_money as outstanding,
+  dateDiff('day', due_date, today()) as daysOverdue
+FROM purchase_transaction
+WHERE status_cancel != 'Cancel'
+  AND doc_type = 'CREDIT'
+  AND status_payment IN ('Outstanding', 'Partially Paid')
+  AND total_amount > sum_pay_money
+  ${branchFilter(branchSync)}
+ORDER BY due_date, supplier_name, doc_no
+  `);
+}
+
+/**
+ * Get weekly cash receipts (payment_transaction, pay_type = 'in') for the cash forecast
+ */
+export function getWeeklyReceiptsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT
+  toString(toMonday(date(doc_datetime))) as weekStart,
+  sum(total_amount_pay) as amount
+FROM payment_transaction
+WHERE status_cancel != 'Cancel'
+  AND pay_type = 'in'
+  AND date(doc_datetime) BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
+GROUP BY weekStart
+ORDER BY weekStart
+  `);
+}
+
+/**
+ * Get Purchase by Product Category Query (joined with journal accounts)
+ */
+export function getPurchaseByProductCategoryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+WITH purchases AS (
+  SELECT
+    ptd.doc_no,
+    ptd.branch_sync,
+    if(ptd.item_category_code = '' OR ptd.item_category_code IS NULL, 'OTHER', ptd.item_category_code) AS item_category_code,
+    if(ptd.item_category_name = '' OR ptd.item_category_name IS NULL, 'N/A', ptd.item_category_name) AS item_category_name,
+    SUM(ptd.sum_amount) AS sum_amount,
+    SUM(ptd.qty) AS qty
+  FROM purchase_transaction_detail ptd
+  WHERE ptd.doc_no IN (
+    SELECT doc_no FROM purchase_transaction WHERE status_cancel != 'Cancel'
+  )
+    AND ptd.doc_datetime BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'ptd.branch_sync')}
+  GROUP BY ptd.doc_no, ptd.branch_sync, item_category_code, item_category_name
+),
+journals AS (
+  SELECT
+    doc_no,
+    branch_sync,
+    account_type,
+    account_code,
+    account_name,
+    SUM(credit - debit) AS credit_net,
+    SUM(debit - credit) AS debit_net
+  FROM journal_transaction_detail
+  WHERE account_type IN ('EXPENSES', 'ASSETS', 'LIABILITIES')
+    AND doc_datetime BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync)}
+  GROUP BY doc_no, branch_sync, account_type, account_code, account_name
+)
+SELECT
+  p.item_category_code AS categoryCode,
+  p.item_category_name AS categoryName,
+  j.account_type AS accountType,
+  j.account_code AS accountCode,
+  j.account_name AS accountName,
+  SUM(if(j.account_type = 'EXPENSES', j.debit_net, 0)) AS expenses,
+  SUM(if(j.account_type = 'ASSETS', j.debit_net, 0)) AS assets,
+  SUM(if(j.account_type = 'LIABILITIES', j.credit_net, 0)) AS liabilities,
+  SUM(p.sum_amount) AS totalPurchaseValue,
+  SUM(p.qty) AS totalQty
+FROM purchases p
+INNER JOIN journals j
+  ON p.doc_no = j.doc_no AND p.branch_sync = j.branch_sync
+GROUP BY p.item_category_code, p.item_category_name, j.account_type, j.account_code, j.account_name
+ORDER BY j.account_type, totalPurchaseValue DESC
+  `);
 }
 
 /**
- * Helper function to build branch filter SQL
+ * Get Chart of Accounts Query joined with purchase documents
  */
-function buildBranchFilterSql(branchSync?: string[]): string {
-  if (!branchSync || branchSync.length === 0 || branchSync.includes('ALL')) {
-    return '';
-  }
-  const branches = branchSync.map(b => `'${b}'`).join(', ');
-  return `AND branch_sync IN (${branches})`;
+export function getPurchaseChartOfAccountsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+WITH purchases AS (
+  SELECT DISTINCT
+    ptd.doc_no,
+    ptd.branch_sync
+  FROM purchase_transaction_detail ptd
+  JOIN purchase_transaction pt
+    ON ptd.doc_no = pt.doc_no
+    AND ptd.branch_sync = pt.branch_sync
+  WHERE pt.status_cancel != 'Cancel'
+    AND pt.doc_datetime BETWEEN ${start} AND ${end}
+    ${branchFilter(branchSync, 'pt.branch_sync')}
+)
+SELECT
+  j.account_code AS accountCode,
+  j.account_name AS accountName,
+  j.account_type AS accountType,
+  SUM(j.debit - j.credit) AS netAmount,
+  COUNT(DISTINCT j.doc_no, j.branch_sync) AS docCount
+FROM journal_transaction_detail j
+INNER JOIN purchases p
+  ON j.doc_no = p.doc_no AND j.branch_sync = p.branch_sync
+WHERE j.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'j.branch_sync')}
+GROUP BY j.account_code, j.account_name, j.account_type
+HAVING netAmount != 0
+ORDER BY j.account_type, j.account_code
+  `);
 }
 
 /**
@@ -221,58 +426,59 @@ function buildBranchFilterSql(branchSync?: string[]): string {
  * Groups purchase expenses by account code from journal_transaction_detail
  * Only shows EXPENSES accounts that have purchase documents
  */
-export function getPurchaseExpenseBreakdownQuery(dateRange: DateRange, branchSync?: string[]): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  return `
-    SELECT
-      account_code AS accountGroup,
-      account_name AS accountName,
-      sum(debit - credit) AS amount,
-      (amount / (
-        SELECT sum(debit - credit)
-        FROM journal_transaction_detail
-        WHERE account_type = 'EXPENSES'
-          AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-          AND doc_no IN (
-            SELECT DISTINCT doc_no
-            FROM purchase_transaction
-            WHERE status_cancel != 'Cancel'
-              AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
-          )
-          ${branchFilter}
-      )) * 100 AS percentage
+export function getPurchaseExpenseBreakdownQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
+  account_code AS accountGroup,
+  account_name AS accountName,
+  sum(debit - credit) AS amount,
+  (amount / (
+    SELECT sum(debit - credit)
     FROM journal_transaction_detail
     WHERE account_type = 'EXPENSES'
-      AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+      AND doc_datetime BETWEEN ${start} AND ${end}
       AND doc_no IN (
         SELECT DISTINCT doc_no
         FROM purchase_transaction
         WHERE status_cancel != 'Cancel'
-          AND date(doc_datetime) BETWEEN '${dateRange.start}' AND '${dateRange.end}'
+          AND doc_datetime BETWEEN ${start} AND ${end}
       )
-      ${branchFilter}
-    GROUP BY account_code, account_name
-    HAVING amount != 0
-    ORDER BY amount DESC
-  `;
+      ${branches}
+  )) * 100 AS percentage
+FROM journal_transaction_detail
+WHERE account_type = 'EXPENSES'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  AND doc_no IN (
+    SELECT DISTINCT doc_no
+    FROM purchase_transaction
+    WHERE status_cancel != 'Cancel'
+      AND doc_datetime BETWEEN ${start} AND ${end}
+  )
+  ${branches}
+GROUP BY account_code, account_name
+HAVING amount != 0
+ORDER BY amount DESC
+  `);
 }
 
 /**
  * Get Purchase Items by Account Code
- * Shows detailed purchase items for a specific account
+ * Shows detailed purchase items for a specific account, or all EXPENSES accounts for 'ALL'
  */
 export function getPurchaseItemsByAccountQuery(
   dateRange: DateRange,
   accountCode: string = 'ALL',
   branchSync?: string[]
-): string {
-  const branchFilter = buildBranchFilterSql(branchSync);
-  
+): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
   const accountFilter = accountCode && accountCode !== 'ALL'
-    ? `AND j.account_code = '${accountCode}'`
-    : `AND j.account_type = 'EXPENSES'`;
+    ? sql`AND j.account_code = ${param('account_code', 'String', accountCode)}`
+    : raw(`AND j.account_type = 'EXPENSES'`);
 
-  return `SELECT
+  return toQuery(sql`
+SELECT
   DATE(ptd.doc_datetime) AS docDate,
   ptd.doc_no AS docNo,
   ptd.item_code AS itemCode,
@@ -285,19 +491,61 @@ export function getPurchaseItemsByAccountQuery(
   ptd.price AS price,
   ptd.sum_amount AS totalAmount
 FROM purchase_transaction_detail ptd
-JOIN purchase_transaction pt 
-  ON ptd.doc_no = pt.doc_no 
+JOIN purchase_transaction pt
+  ON ptd.doc_no = pt.doc_no
   AND ptd.branch_sync = pt.branch_sync
 WHERE pt.status_cancel != 'Cancel'
-  AND pt.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+  AND pt.doc_datetime BETWEEN ${start} AND ${end}
   AND ptd.doc_no IN (
     SELECT DISTINCT j.doc_no
     FROM journal_transaction_detail j
-    WHERE j.doc_datetime BETWEEN '${dateRange.start} 00:00:00' AND '${dateRange.end} 23:59:59'
+    WHERE j.doc_datetime BETWEEN ${start} AND ${end}
       ${accountFilter}
-      ${branchFilter}
+      ${branchFilter(branchSync, 'j.branch_sync')}
   )
-  ${branchFilter.replace(/branch_sync/g, 'pt.branch_sync')}
-ORDER BY ptd.doc_datetime DESC, ptd.doc_no DESC, ptd.item_code ASC
-LIMIT 1000`;
+  ${branchFilter(branchSync, 'pt.branch_sync')}
+ORDER BY ptd.doc_datetime DESC, ptd.doc_no DESC
+  `);
+}
+
+/**
+ * Get Supplier PO Details Query
+ * Includes Account Mapping and Item Categories
+ */
+export function getSupplierPODetailsQuery(
+  dateRange: DateRange,
+  supplierCode: string,
+  branchSync?: string[]
+): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
+  DATE(pt.doc_datetime) as docDate,
+  pt.doc_no as docNo,
+  pt.supplier_code as supplierCode,
+  pt.supplier_name as supplierName,
+  j.account_code as accountCode,
+  j.account_name as accountName,
+  COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
+  COALESCE(NULLIF(ptd.item_category_code, ''), 'N/A') as categoryCode,
+  ptd.item_code as itemCode,
+  ptd.item_name as itemName,
+  ptd.unit_code as unitCode,
+  ptd.qty as qty,
+  ptd.price as price,
+  ptd.sum_amount as totalAmount
+FROM purchase_transaction pt
+LEFT JOIN purchase_transaction_detail ptd
+  ON pt.doc_no = ptd.doc_no
+  AND pt.branch_sync = ptd.branch_sync
+LEFT JOIN journal_transaction_detail j
+  ON pt.doc_no = j.doc_no
+  AND pt.branch_sync = j.branch_sync
+  AND j.account_type IN ('EXPENSES', 'ASSETS')
+WHERE pt.status_cancel != 'Cancel'
+  AND pt.supplier_code = ${param('supplier_code', 'String', supplierCode)}
+  AND pt.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'pt.branch_sync')}
+ORDER BY pt.doc_datetime DESC, pt.doc_no DESC
+  `);
 }
@@ -13,58 +13,33 @@ import type {
   KPIData,
   SupplierPODetail,
 } from './types';
-import { calculateGrowth, getPreviousPeriod } from '@/lib/comparison';
+import type { PayableInvoice, WeeklyInflow } from '@/lib/payables/types';
+import { addDays } from '@/lib/payables/plan';
+import { calculateGrowth } from '@/lib/comparison';
+import {
+  getTotalPurchasesQuery,
+  getTotalItemsPurchasedQuery,
+  getTotalOrdersQuery,
+  getAvgOrderValueQuery,
+  getPurchaseTrendQuery,
+  getTopSuppliersQuery,
+  getPurchaseByCategoryQuery,
+  getPurchaseByCategorySummaryQuery,
+  getPurchaseAnalysisQuery,
+  getPurchaseByBrandQuery,
+  getAPOutstandingQuery,
+  getAPOpenInvoicesQuery,
+  getWeeklyReceiptsQuery,
+  getPurchaseByProductCategoryQuery,
+  getPurchaseChartOfAccountsQuery,
+  getPurchaseItemsByAccountQuery,
+  getPurchaseExpenseBreakdownQuery,
+  getSupplierPODetailsQuery,
+} from './purchase-queries';
 
 // Re-export query functions for convenience (server-side usage only)
 export * from './purchase-queries';
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Build branch filter SQL clause and parameters
- * Handles single branch, multiple branches, or ALL branches
- */
-function buildBranchFilter(branches?: string[]): { sql: string; params: Record<string, any> } {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return { sql: '', params: {} };
-  }
-
-  if (branches.length === 1) {
-    return {
-      sql: 'AND branch_sync = {branchSync:String}',
-      params: { branchSync: branches[0] }
-    };
-  }
-
-  return {
-    sql: 'AND branch_sync IN {branchList:Array(String)}',
-    params: { branchList: branches }
-  };
-}
-
-function getNextDate(dateString: string): string {
-  const [year, month, day] = dateString.split('-').map(Number);
-  const date = new Date(Date.UTC(year, month - 1, day));
-  date.setUTCDate(date.getUTCDate() + 1);
-  return date.toISOString().slice(0, 10);
-}
-
-/**
- * Build date-time range parameters for BETWEEN queries (inclusive end)
- * Returns start_date at 00:00:00 and end_date at 23:59:59
- */
-function buildDateTimeRangeParamsInclusive(dateRange: DateRange): {
-  start_date: string;
-  end_date: string;
-} {
-  return {
-    start_date: `${dateRange.start} 00:00:00`,
-    end_date: `${dateRange.end} 23:59:59`,
-  };
-}
-
 // ============================================================================
 // Data Fetching Functions
 // ============================================================================
@@ -74,90 +49,11 @@ function buildDateTimeRangeParamsInclusive(dateRange: DateRange): {
  */
 export async function getPurchaseKPIs(dateRange: DateRange, branchSync?: string[]): Promise<PurchaseKPIs> {
   try {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-    const prevDateParams = buildDateTimeRangeParamsInclusive(previousPeriod);
-
-    // Total Purchases
-    const purchaseQuery = `
-      SELECT
-        sum(total_amount) as current_value,
-        (SELECT sum(total_amount)
-         FROM purchase_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    // Total Items Purchased
-    const itemsQuery = `
-      SELECT
-        sum(qty) as current_value,
-        (SELECT sum(qty)
-         FROM purchase_transaction_detail ptd
-         JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-         WHERE pt.status_cancel != 'Cancel'
-           AND pt.doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-        ) as previous_value
-      FROM purchase_transaction_detail ptd
-      JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-    `;
-
-    // Total Orders
-    const ordersQuery = `
-      SELECT
-        count(DISTINCT doc_no, branch_sync) as current_value,
-        (SELECT count(DISTINCT doc_no, branch_sync)
-         FROM purchase_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    // Average Order Value
-    const avgOrderQuery = `
-      SELECT
-        avg(total_amount) as current_value,
-        (SELECT avg(total_amount)
-         FROM purchase_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    const params = {
-      start_date: dateParams.start_date,
-      end_date: dateParams.end_date,
-      previous_start: prevDateParams.start_date,
-      previous_end: prevDateParams.end_date,
-      ...branchFilter.params
-    };
-
     const [purchaseResult, itemsResult, ordersResult, avgOrderResult] = await Promise.all([
-      clickhouse.query({ query: purchaseQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: itemsQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: ordersQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: avgOrderQuery, query_params: params, format: 'JSONEachRow' }),
+      clickhouse.query({ ...getTotalPurchasesQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getTotalItemsPurchasedQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getTotalOrdersQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getAvgOrderValueQuery(dateRange, branchSync), format: 'JSONEachRow' }),
     ]);
 
     const purchaseData = await purchaseResult.json();
@@ -218,29 +114,8 @@ export async function getPurchaseKPIs(dateRange: DateRange, branchSync?: string[
  */
 export async function getPurchaseTrendData(dateRange: DateRange, branchSync?: string[]): Promise<PurchaseTrendData[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        formatDateTime(toStartOfMonth(doc_datetime), '%Y-%m') as month,
-        sum(total_amount) as totalPurchases,
-        count(DISTINCT doc_no, branch_sync) as poCount
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-      GROUP BY month
-      ORDER BY month ASC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseTrendQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -261,34 +136,8 @@ export async function getPurchaseTrendData(dateRange: DateRange, branchSync?: st
  */
 export async function getTopSuppliers(dateRange: DateRange, branchSync?: string[], limit: number = 20): Promise<TopSupplier[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        supplier_code as supplierCode,
-        supplier_name as supplierName,
-        count(DISTINCT doc_no, branch_sync) as poCount,
-        sum(total_amount) as totalPurchases,
-        avg(total_amount) as avgPOValue,
-        max(doc_datetime) as lastPurchaseDate
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND supplier_code != ''
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-      GROUP BY supplier_code, supplier_name
-      ORDER BY totalPurchases DESC
-      ${limit > 0 ? `LIMIT ${limit}` : ''}
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getTopSuppliersQuery(dateRange, branchSync, limit),
       format: 'JSONEachRow',
     });
 
@@ -312,34 +161,8 @@ export async function getTopSuppliers(dateRange: DateRange, branchSync?: string[
  */
 export async function getPurchaseByCategory(dateRange: DateRange, branchSync?: string[]): Promise<PurchaseByCategory[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        COALESCE(NULLIF(ptd.item_category_code, ''), 'N/A') as categoryCode,
-        COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        ptd.item_code as itemCode,
-        ptd.item_name as itemName,
-        sum(ptd.qty) as totalQty,
-        sum(ptd.sum_amount) as totalPurchaseValue,
-        count(DISTINCT ptd.item_code) as uniqueItems
-      FROM purchase_transaction_detail ptd
-      JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      GROUP BY categoryCode, categoryName, ptd.item_code, ptd.item_name
-      ORDER BY categoryName ASC, totalPurchaseValue DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseByCategoryQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -370,55 +193,8 @@ export async function getPurchaseByCategorySummary(
   accountType: 'EXPENSES' | 'ASSETS' = 'EXPENSES'
 ): Promise<PurchaseByCategory[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      WITH journal_summary AS (
-        SELECT 
-          doc_no,
-          branch_sync,
-          account_code,
-          account_name,
-          sum(debit - credit) as amount
-        FROM journal_transaction_detail
-        WHERE account_type = {account_type:String}
-          AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-          ${branchFilter.sql}
-        GROUP BY doc_no, branch_sync, account_code, account_name
-        HAVING amount != 0
-      ),
-      purchase_summary AS (
-        SELECT
-          ptd.doc_no,
-          ptd.branch_sync,
-          sum(ptd.qty) as total_qty
-        FROM purchase_transaction_detail ptd
-        JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-        WHERE pt.status_cancel != 'Cancel'
-          AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-          ${branchFilter.sql.replace(/branch_sync/g, 'ptd.branch_sync')}
-        GROUP BY ptd.doc_no, ptd.branch_sync
-      )
-      SELECT
-        j.account_code as categoryCode,
-        j.account_name as categoryName,
-        sum(j.amount) as totalPurchaseValue,
-        count(DISTINCT j.doc_no, j.branch_sync) as orderCount,
-        sum(p.total_qty) as totalQty
-      FROM journal_summary j
-      JOIN purchase_summary p ON j.doc_no = p.doc_no AND j.branch_sync = p.branch_sync
-      GROUP BY j.account_code, j.account_name
-      ORDER BY totalPurchaseValue DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        account_type: accountType,
-        ...branchFilter.params
-      },
+      ...getPurchaseByCategorySummaryQuery(dateRange, accountType, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -444,35 +220,8 @@ export async function getPurchaseByCategorySummary(
  */
 export async function getPurchaseAnalysisData(dateRange: DateRange, branchSync?: string[]): Promise<import('./types').PurchaseAnalysisData[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    const query = `
-      SELECT
-        COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        toDate(toTimeZone(pt.doc_datetime, 'Asia/Bangkok')) as docDate,
-        pt.doc_no as docNo,
-        ptd.item_code as itemCode,
-        ptd.item_name as itemName,
-        ptd.unit_code as unitCode,
-        ptd.qty as qty,
-        ptd.sum_amount / NULLIF(ptd.qty, 0) as price,
-        ptd.sum_amount as totalAmount
-      FROM purchase_transaction_detail ptd
-      JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      ORDER BY categoryName, docDate, docNo
-    `;
-
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseAnalysisQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -499,32 +248,8 @@ export async function getPurchaseAnalysisData(dateRange: DateRange, branchSync?:
  */
 export async function getPurchaseByBrand(dateRange: DateRange, branchSync?: string[]): Promise<PurchaseByBrand[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    const query = `
-      SELECT
-        ptd.item_brand_code as brandCode,
-        ptd.item_brand_name as brandName,
-        sum(ptd.sum_amount) as totalPurchaseValue,
-        uniq(ptd.item_code) as uniqueItems
-      FROM purchase_transaction_detail ptd
-      JOIN purchase_transaction pt ON ptd.doc_no = pt.doc_no AND ptd.branch_sync = pt.branch_sync
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND ptd.item_brand_name != ''
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      GROUP BY ptd.item_brand_code, ptd.item_brand_name
-      ORDER BY totalPurchaseValue DESC
-      LIMIT 15
-    `;
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseByBrandQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -546,33 +271,8 @@ export async function getPurchaseByBrand(dateRange: DateRange, branchSync?: stri
  */
 export async function getAPOutstanding(dateRange: DateRange, branchSync?: string[]): Promise<APOutstanding[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        supplier_code as supplierCode,
-        supplier_name as supplierName,
-        sum(total_amount - sum_pay_money) as totalOutstanding,
-        sum(CASE WHEN due_date < today() AND total_amount > sum_pay_money THEN total_amount - sum_pay_money ELSE 0 END) as overdueAmount,
-        count(DISTINCT doc_no, branch_sync) as docCount
-      FROM purchase_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_type = 'CREDIT'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND total_amount > sum_pay_money
-        ${branchFilter.sql}
-      GROUP BY supplier_code, supplier_name
-      ORDER BY totalOutstanding DESC
-      LIMIT 20
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getAPOutstandingQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -590,6 +290,51 @@ export async function getAPOutstanding(dateRange: DateRange, branchSync?: string
   }
 }
 
+/**
+ * Get every open credit purchase for the AP payment plan
+ */
+export async function getAPOpenInvoices(branchSync?: string[]): Promise<PayableInvoice[]> {
+  try {
+    const result = await clickhouse.query({ ...getAPOpenInvoicesQuery(branchSync), format: 'JSONEachRow' });
+    const data: Record<string, string | number>[] = await result.json();
+    return data.map((row) => ({
+      branchSync: String(row.branchSync),
+      docNo: String(row.docNo),
+      supplierCode: String(row.supplierCode ?? ''),
+      supplierName: String(row.supplierName || 'ไม่ระบุ'),
+      docDate: String(row.docDate),
+      dueDate: String(row.dueDate),
+      outstanding: Number(row.outstanding) || 0,
+      daysOverdue: Number(row.daysOverdue) || 0,
+      schedule: null,
+    }));
+  } catch (error) {
+    console.error('Error fetching open AP invoices:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get cash receipts per week (Monday start); weeks without receipts are returned as 0
+ * @param dateRange - Must start on a Monday
+ */
+export async function getWeeklyReceipts(dateRange: DateRange, branchSync?: string[]): Promise<WeeklyInflow[]> {
+  try {
+    const result = await clickhouse.query({ ...getWeeklyReceiptsQuery(dateRange, branchSync), format: 'JSONEachRow' });
+    const data: Record<string, string | number>[] = await result.json();
+    const amounts = new Map(data.map((row) => [String(row.weekStart), Number(row.amount) || 0]));
+
+    const weeks: WeeklyInflow[] = [];
+    for (let weekStart = dateRange.start; weekStart <= dateRange.end; weekStart = addDays(weekStart, 7)) {
+      weeks.push({ weekStart, amount: amounts.get(weekStart) ?? 0 });
+    }
+    return weeks;
+  } catch (error) {
+    console.error('Error fetching weekly receipts:', error);
+    throw error;
+  }
+}
+
 /**
  * Get Purchase data joined with Journal by Product Category
  * Similar to sales P&L by product category but for purchases
@@ -599,62 +344,8 @@ export async function getPurchaseByProductCategory(
   branchSync?: string[]
 ): Promise<import('./types').PurchaseAccountData[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-    const query = `WITH purchases AS (
-SELECT
-ptd.doc_no,
-ptd.branch_sync,
-if(ptd.item_category_code = '' OR ptd.item_category_code IS NULL, 'OTHER', ptd.item_category_code) AS item_category_code,
-if(ptd.item_category_name = '' OR ptd.item_category_name IS NULL, 'N/A', ptd.item_category_name) AS item_category_name,
-SUM(ptd.sum_amount) AS sum_amount,
-SUM(ptd.qty) AS qty
-FROM purchase_transaction_detail ptd
-WHERE ptd.doc_no IN (
-SELECT doc_no FROM purchase_transaction WHERE status_cancel != 'Cancel'
-)
-AND ptd.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-${branchFilter.sql.replace(/branch_sync/g, 'ptd.branch_sync')}
-GROUP BY ptd.doc_no, ptd.branch_sync, item_category_code, item_category_name
-),
-journals AS (
-SELECT
-doc_no,
-branch_sync,
-account_type,
-account_code,
-account_name,
-SUM(credit - debit) AS credit_net,
-SUM(debit - credit) AS debit_net
-FROM journal_transaction_detail
-WHERE account_type IN ('EXPENSES', 'ASSETS', 'LIABILITIES')
-AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-${branchFilter.sql}
-GROUP BY doc_no, branch_sync, account_type, account_code, account_name
-)
-SELECT
-p.item_category_code AS categoryCode,
-p.item_category_name AS categoryName,
-j.account_type AS accountType,
-j.account_code AS accountCode,
-j.account_name AS accountName,
-SUM(if(j.account_type = 'EXPENSES', j.debit_net, 0)) AS expenses,
-SUM(if(j.account_type = 'ASSETS', j.debit_net, 0)) AS assets,
-SUM(if(j.account_type = 'LIABILITIES', j.credit_net, 0)) AS liabilities,
-SUM(p.sum_amount) AS totalPurchaseValue,
-SUM(p.qty) AS totalQty
-FROM purchases p
-INNER JOIN journals j
-ON p.doc_no = j.doc_no AND p.branch_sync = j.branch_sync
-GROUP BY p.item_category_code, p.item_category_name, j.account_type, j.account_code, j.account_name
-ORDER BY j.account_type, totalPurchaseValue DESC`;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseByProductCategoryQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -685,43 +376,8 @@ export async function getPurchaseChartOfAccounts(
   branchSync?: string[]
 ): Promise<import('./types').PurchaseChartOfAccountItem[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-    const query = `
-      WITH purchases AS (
-        SELECT DISTINCT 
-          ptd.doc_no, 
-          ptd.branch_sync
-        FROM purchase_transaction_detail ptd
-        JOIN purchase_transaction pt 
-          ON ptd.doc_no = pt.doc_no 
-          AND ptd.branch_sync = pt.branch_sync
-        WHERE pt.status_cancel != 'Cancel'
-          AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-          ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      )
-      SELECT
-        j.account_code AS accountCode,
-        j.account_name AS accountName,
-        j.account_type AS accountType,
-        SUM(j.debit - j.credit) AS netAmount,
-        COUNT(DISTINCT j.doc_no, j.branch_sync) AS docCount
-      FROM journal_transaction_detail j
-      INNER JOIN purchases p 
-        ON j.doc_no = p.doc_no AND j.branch_sync = p.branch_sync
-      WHERE j.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-      GROUP BY j.account_code, j.account_name, j.account_type
-      HAVING netAmount != 0
-      ORDER BY j.account_type, j.account_code
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseChartOfAccountsQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -749,57 +405,8 @@ export async function getPurchaseItemsByAccount(
   branchSync?: string[]
 ): Promise<import('./types').PurchaseItemsByAccount[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-
-    // If no specific account, get all EXPENSES accounts
-    const accountFilter = accountCode && accountCode !== 'ALL'
-      ? `AND j.account_code = {account_code:String}`
-      : `AND j.account_type = 'EXPENSES'`;
-
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        DATE(ptd.doc_datetime) AS docDate,
-        ptd.doc_no AS docNo,
-        ptd.item_code AS itemCode,
-        ptd.item_name AS itemName,
-        COALESCE(NULLIF(ptd.item_category_code, ''), 'N/A') AS categoryCode,
-        COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') AS categoryName,
-        COALESCE(NULLIF(ptd.item_brand_name, ''), 'ไม่ระบุแบรนด์') AS brandName,
-        ptd.unit_code AS unitCode,
-        ptd.qty AS qty,
-        ptd.price AS price,
-        ptd.sum_amount AS totalAmount
-      FROM purchase_transaction_detail ptd
-      JOIN purchase_transaction pt 
-        ON ptd.doc_no = pt.doc_no 
-        AND ptd.branch_sync = pt.branch_sync
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND ptd.doc_no IN (
-          SELECT DISTINCT j.doc_no
-          FROM journal_transaction_detail j
-          WHERE j.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-            ${accountFilter}
-            ${branchFilter.sql}
-        )
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      ORDER BY ptd.doc_datetime DESC, ptd.doc_no DESC
-    `;
-
-    const queryParams: any = {
-      ...dateParams,
-      ...branchFilter.params
-    };
-    
-    if (accountCode && accountCode !== 'ALL') {
-      queryParams.account_code = accountCode;
-    }
-
     const result = await clickhouse.query({
-      query,
-      query_params: queryParams,
+      ...getPurchaseItemsByAccountQuery(dateRange, accountCode, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -832,48 +439,8 @@ export async function getPurchaseExpenseBreakdown(
   branchSync?: string[]
 ): Promise<import('./types').CategoryBreakdown[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        account_code AS accountGroup,
-        account_name AS accountName,
-        sum(debit - credit) AS amount,
-        (amount / (
-          SELECT sum(debit - credit)
-          FROM journal_transaction_detail
-          WHERE account_type = 'EXPENSES'
-            AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-            AND doc_no IN (
-              SELECT DISTINCT doc_no
-              FROM purchase_transaction
-              WHERE status_cancel != 'Cancel'
-                AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-            )
-            ${branchFilter.sql}
-        )) * 100 AS percentage
-      FROM journal_transaction_detail
-      WHERE account_type = 'EXPENSES'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND doc_no IN (
-          SELECT DISTINCT doc_no
-          FROM purchase_transaction
-          WHERE status_cancel != 'Cancel'
-            AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        )
-        ${branchFilter.sql}
-      GROUP BY account_code, account_name
-      HAVING amount != 0
-      ORDER BY amount DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getPurchaseExpenseBreakdownQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -900,47 +467,8 @@ export async function getSupplierPODetails(
   branchSync?: string[]
 ): Promise<SupplierPODetail[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        DATE(pt.doc_datetime) as docDate,
-        pt.doc_no as docNo,
-        pt.supplier_code as supplierCode,
-        pt.supplier_name as supplierName,
-        j.account_code as accountCode,
-        j.account_name as accountName,
-        COALESCE(NULLIF(ptd.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        COALESCE(NULLIF(ptd.item_category_code, ''), 'N/A') as categoryCode,
-        ptd.item_code as itemCode,
-        ptd.item_name as itemName,
-        ptd.unit_code as unitCode,
-        ptd.qty as qty,
-        ptd.price as price,
-        ptd.sum_amount as totalAmount
-      FROM purchase_transaction pt
-      LEFT JOIN purchase_transaction_detail ptd 
-        ON pt.doc_no = ptd.doc_no 
-        AND pt.branch_sync = ptd.branch_sync
-      LEFT JOIN journal_transaction_detail j 
-        ON pt.doc_no = j.doc_no 
-        AND pt.branch_sync = j.branch_sync 
-        AND j.account_type IN ('EXPENSES', 'ASSETS')
-      WHERE pt.status_cancel != 'Cancel'
-        AND pt.supplier_code = {supplier_code:String}
-        AND pt.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'pt.branch_sync')}
-      ORDER BY pt.doc_datetime DESC, pt.doc_no DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params,
-        supplier_code: supplierCode
-      },
+      ...getSupplierPODetailsQuery(dateRange, supplierCode, branchSync),
       format: 'JSONEachRow',
     });
 
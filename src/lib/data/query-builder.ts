@@ -0,0 +1,204 @@
+// Parameterized SQL builder - Pure functions safe for client-side usage
+//
+// Every query in lib/data goes through `sql` so that values never get pasted
+// into the SQL text. Values become ClickHouse `{name:Type}` placeholders and
+// travel separately as `query_params`.
+
+import type { DateRange } from './types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ParamType =
+  | 'String'
+  | 'Date'
+  | 'DateTime'
+  | 'Int32'
+  | 'UInt32'
+  | 'Float64'
+  | 'Array(String)';
+
+export type ParamValue = string | number | string[];
+
+export type QueryParams = Record<string, ParamValue>;
+
+/**
+ * A piece of SQL text together with the parameters its placeholders refer to
+ */
+export interface SqlFragment {
+  readonly sql: string;
+  readonly params: QueryParams;
+}
+
+/**
+ * A finished query, shaped so it can be spread into clickhouse.query()
+ *
+ * @example
+ * const result = await clickhouse.query({ ...getTotalSalesQuery(dateRange), format: 'JSONEachRow' });
+ */
+export interface BuiltQuery {
+  query: string;
+  query_params: QueryParams;
+}
+
+/**
+ * A single bound value. Create with param() and interpolate into sql``.
+ */
+export interface QueryParam {
+  readonly kind: 'param';
+  readonly name: string;
+  readonly type: ParamType;
+  readonly value: ParamValue;
+}
+
+export type SqlValue = SqlFragment | QueryParam;
+
+// ============================================================================
+// Core
+// ============================================================================
+
+const PARAM_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export function param(name: string, type: ParamType, value: ParamValue): QueryParam {
+  if (!PARAM_NAME.test(name)) {
+    throw new Error(`Invalid query parameter name: ${name}`);
+  }
+  return { kind: 'param', name, type, value };
+}
+
+function isQueryParam(value: SqlValue): value is QueryParam {
+  return (value as QueryParam).kind === 'param';
+}
+
+function mergeParams(target: QueryParams, source: QueryParams): void {
+  for (const [name, value] of Object.entries(source)) {
+    if (name in target && JSON.stringify(target[name]) !== JSON.stringify(value)) {
+      throw new Error(`Conflicting values for query parameter "${name}"`);
+    }
+    target[name] = value;
+  }
+}
+
+/**
+ * Tagged template that turns interpolated params into placeholders and
+ * inlines nested fragments. Plain strings are rejected on purpose: use raw()
+ * for trusted SQL text such as column names.
+ *
+ * @example
+ * const { start, end } = dateTimeParams(dateRange);
+ * sql`SELECT sum(total_amount) FROM saleinvoice_transaction
+ *     WHERE doc_datetime BETWEEN ${start} AND ${end} ${branchFilter(branches)}`
+ */
+export function sql(strings: TemplateStringsArray, ...values: SqlValue[]): SqlFragment {
+  let text = strings[0];
+  const params: QueryParams = {};
+
+  values.forEach((value, i) => {
+    if (isQueryParam(value)) {
+      text += `{${value.name}:${value.type}}`;
+      mergeParams(params, { [value.name]: value.value });
+    } else {
+      text += value.sql;
+      mergeParams(params, value.params);
+    }
+    text += strings[i + 1];
+  });
+
+  return { sql: text, params };
+}
+
+/**
+ * Trusted SQL text (identifiers, keywords). Never pass user input here.
+ */
+export function raw(text: string): SqlFragment {
+  return { sql: text, params: {} };
+}
+
+export const empty: SqlFragment = raw('');
+
+/**
+ * Join fragments with a separator, merging their params
+ */
+export function join(fragments: SqlFragment[], separator: string = ', '): SqlFragment {
+  const params: QueryParams = {};
+  fragments.forEach(f => mergeParams(params, f.params));
+  return { sql: fragments.map(f => f.sql).join(separator), params };
+}
+
+/**
+ * Finish a fragment into the shape clickhouse.query() expects
+ */
+export function toQuery(fragment: SqlFragment): BuiltQuery {
+  return { query: fragment.sql.trim(), query_params: { ...fragment.params } };
+}
+
+// ============================================================================
+// Common Filters
+// ============================================================================
+
+/**
+ * Branch filter clause. Empty for no selection or 'ALL'.
+ *
+ * @param branches - Selected branch_sync codes
+ * @param column - Qualified column to filter, e.g. 'si.branch_sync'
+ */
+export function branchFilter(branches?: string[], column: string = 'branch_sync'): SqlFragment {
+  if (!branches || branches.length === 0 || branches.includes('ALL')) {
+    return empty;
+  }
+  return sql`AND ${raw(column)} IN ${param('branches', 'Array(String)', branches)}`;
+}
+
+/**
+ * Day-granularity bounds of a range as Date params: `{prefix}start_date`, `{prefix}end_date`
+ * Use with `date(col) BETWEEN start AND end`.
+ */
+export function dateParams(range: DateRange, prefix: string = ''): { start: QueryParam; end: QueryParam } {
+  return {
+    start: param(`${prefix}start_date`, 'Date', range.start),
+    end: param(`${prefix}end_date`, 'Date', range.end),
+  };
+}
+
+/**
+ * Inclusive timestamp bounds of a range (00:00:00 to 23:59:59) as String params:
+ * `{prefix}start_time`, `{prefix}end_time`. Use with `col BETWEEN start AND end`.
+ */
+export function dateTimeParams(range: DateRange, prefix: string = ''): { start: QueryParam; end: QueryParam } {
+  return {
+    start: param(`${prefix}start_time`, 'String', `${range.start} 00:00:00`),
+    end: param(`${prefix}end_time`, 'String', `${range.end} 23:59:59`),
+  };
+}
+
+// ============================================================================
+// Display
+// ============================================================================
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function formatLiteral(type: string, value: ParamValue | undefined): string {
+  if (value === undefined) return 'NULL';
+  if (Array.isArray(value)) {
+    const inner = type.replace(/^Array\((.*)\)$/, '$1');
+    return `[${(value as ParamValue[]).map(v => formatLiteral(inner, v)).join(', ')}]`;
+  }
+  if (typeof value === 'number' || /^(U?Int|Float|Decimal)/.test(type)) {
+    return String(value);
+  }
+  return quote(String(value));
+}
+
+/**
+ * Render a query with its params inlined as literals.
+ * For display (View SQL, copy to clipboard) only - never execute the result.
+ */
+export function inlineParams(query: BuiltQuery | string): string {
+  if (typeof query === 'string') return query.trim();
+  return query.query.replace(/\{([A-Za-z_][A-Za-z0-9_]*):([^{}]+)\}/g, (match, name: string, type: string) =>
+    name in query.query_params ? formatLiteral(type, query.query_params[name]) : match
+  );
+}
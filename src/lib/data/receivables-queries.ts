@@ -0,0 +1,182 @@
+// Receivables data queries - Pure functions safe for client-side usage
+//
+// Open items come from saleinvoice_transaction (CREDIT invoices that are not fully
+// paid) and are aged from the due date to today, regardless of the selected range,
+// so every open invoice issued up to the end date is counted. The range is used for
+// credit sales (DSO) and for the statement lines.
+//
+// payment_transaction has no customer code, only debtor_creditor_name. Receipts are
+// matched to a customer by the names used on that customer's invoices, and receipts
+// whose doc_no is one of the customer's cash sales are left out (the cash sale never
+// became a receivable).
+
+import type { DateRange } from './types';
+import { sql, toQuery, param, branchFilter, dateParams, empty, type BuiltQuery, type SqlFragment } from './query-builder';
+
+const openCreditInvoice = sql`
+  status_payment IN ('Outstanding', 'Partially Paid')
+  AND status_cancel != 'Cancel'
+  AND doc_type = 'CREDIT'
+`;
+
+const creditInvoice = sql`status_cancel != 'Cancel' AND doc_type = 'CREDIT'`;
+
+function customerFilter(customerCode?: string): SqlFragment {
+  return customerCode ? sql`AND customer_code = ${param('customer_code', 'String', customerCode)}` : empty;
+}
+
+/**
+ * อายุหนี้ต่อลูกค้า: ยอดค้างแยกช่วง 0/1-30/31-60/61-90/90+ วันนับจากวันครบกำหนด
+ */
+export function getCustomerAgingQuery(dateRange: DateRange, branchSync?: string[], customerCode?: string): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+    SELECT
+      customer_code AS customerCode,
+      any(customer_name) AS customerName,
+      count() AS invoiceCount,
+      sumIf(outstanding, daysOverdue <= 0) AS notDue,
+      sumIf(outstanding, daysOverdue BETWEEN 1 AND 30) AS days1to30,
+      sumIf(outstanding, daysOverdue BETWEEN 31 AND 60) AS days31to60,
+      sumIf(outstanding, daysOverdue BETWEEN 61 AND 90) AS days61to90,
+      sumIf(outstanding, daysOverdue > 90) AS over90,
+      sum(outstanding) AS total,
+      greatest(max(daysOverdue), 0) AS oldestDaysOverdue
+    FROM (
+      SELECT
+        customer_code,
+        customer_name,
+        total_amount - sum_pay_money AS outstanding,
+        dateDiff('day', due_date, today()) AS daysOverdue
+      FROM saleinvoice_transaction
+      WHERE ${openCreditInvoice}
+        AND date(doc_datetime) <= ${end}
+        ${branches}
+        ${customerFilter(customerCode)}
+    )
+    GROUP BY customer_code
+    HAVING total > 0
+    ORDER BY total DESC
+  `);
+}
+
+/**
+ * ยอดขายเงินเชื่อต่อลูกค้าในช่วงวันที่ (ตัวหารของ DSO)
+ */
+export function getCustomerCreditSalesQuery(dateRange: DateRange, branchSync?: string[], customerCode?: string): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+    SELECT
+      customer_code AS customerCode,
+      sum(total_amount) AS creditSales
+    FROM saleinvoice_transaction
+    WHERE ${creditInvoice}
+      AND date(doc_datetime) BETWEEN ${start} AND ${end}
+      ${branches}
+      ${customerFilter(customerCode)}
+    GROUP BY customer_code
+  `);
+}
+
+/**
+ * ยอดค้างและยอดขายเงินเชื่อต่อกิจการ สำหรับ DSO รายกิจการ
+ */
+export function getBranchReceivablesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+    SELECT
+      branch_sync AS branchSync,
+      sumIf(total_amount - sum_pay_money, status_payment IN ('Outstanding', 'Partially Paid')) AS outstanding,
+      sumIf(total_amount, date(doc_datetime) >= ${start}) AS creditSales
+    FROM saleinvoice_transaction
+    WHERE ${creditInvoice}
+      AND date(doc_datetime) <= ${end}
+      ${branches}
+    GROUP BY branch_sync
+    ORDER BY branch_sync
+  `);
+}
+
+/** ใบเสร็จรับเงินของลูกค้า (จับคู่ตามชื่อ ดูหมายเหตุด้านบน) */
+function customerReceipts(customerCode: string, branches: SqlFragment): SqlFragment {
+  const code = param('customer_code', 'String', customerCode);
+  return sql`
+    status_cancel != 'Cancel'
+    AND pay_type = 'in'
+    AND debtor_creditor_type = 'CUSTOMER'
+    AND debtor_creditor_name IN (
+      SELECT DISTINCT customer_name FROM saleinvoice_transaction WHERE customer_code = ${code}
+    )
+    AND doc_no NOT IN (
+      SELECT doc_no FROM saleinvoice_transaction WHERE customer_code = ${code} AND doc_type = 'CASH'
+    )
+    ${branches}
+  `;
+}
+
+/**
+ * ยอดยกมาของใบแจ้งยอด: ใบแจ้งหนี้เงินเชื่อและรับชำระก่อนวันเริ่มต้น
+ */
+export function getCustomerStatementOpeningQuery(dateRange: DateRange, customerCode: string, branchSync?: string[]): BuiltQuery {
+  const { start } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  const code = param('customer_code', 'String', customerCode);
+  return toQuery(sql`
+    SELECT
+      (SELECT any(customer_name) FROM saleinvoice_transaction WHERE customer_code = ${code}) AS customerName,
+      (
+        SELECT sum(total_amount) FROM saleinvoice_transaction
+        WHERE ${creditInvoice}
+          AND customer_code = ${code}
+          AND date(doc_datetime) < ${start}
+          ${branches}
+      ) AS invoiced,
+      (
+        SELECT sum(total_amount_pay) FROM payment_transaction
+        WHERE ${customerReceipts(customerCode, branches)}
+          AND date(doc_datetime) < ${start}
+      ) AS received
+  `);
+}
+
+/**
+ * รายการในใบแจ้งยอด: ใบแจ้งหนี้เงินเชื่อและรับชำระในช่วงวันที่ เรียงตามวันที่
+ */
+export function getCustomerStatementLinesQuery(dateRange: DateRange, customerCode: string, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateParams(dateRange);
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+    SELECT docDate, docNo, kind, dueDate, debit, credit
+    FROM (
+      SELECT
+        toString(date(toTimeZone(doc_datetime, 'Asia/Bangkok'))) AS docDate,
+        doc_no AS docNo,
+        'invoice' AS kind,
+        toString(due_date) AS dueDate,
+        total_amount AS debit,
+        0 AS credit
+      FROM saleinvoice_transaction
+      WHERE ${creditInvoice}
+        AND customer_code = ${param('customer_code', 'String', customerCode)}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+        ${branches}
+
+      UNION ALL
+
+      SELECT
+        toString(date(toTimeZone(doc_datetime, 'Asia/Bangkok'))) AS docDate,
+        doc_no AS docNo,
+        'payment' AS kind,
+        '' AS dueDate,
+        0 AS debit,
+        total_amount_pay AS credit
+      FROM payment_transaction
+      WHERE ${customerReceipts(customerCode, branches)}
+        AND date(doc_datetime) BETWEEN ${start} AND ${end}
+    )
+    ORDER BY docDate, kind, docNo
+  `);
+}
@@ -0,0 +1,119 @@
+// Customer receivables data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type { DateRange } from './types';
+import type { BranchDSO, CustomerAging, CustomerStatement } from '@/lib/receivables/types';
+import { buildCustomerStatement, daysSalesOutstanding } from '@/lib/receivables/receivables';
+import {
+  getCustomerAgingQuery,
+  getCustomerCreditSalesQuery,
+  getBranchReceivablesQuery,
+  getCustomerStatementOpeningQuery,
+  getCustomerStatementLinesQuery,
+} from './receivables-queries';
+
+export * from './receivables-queries';
+
+/**
+ * Get outstanding balance per customer, split into aging buckets, with DSO
+ */
+export async function getCustomerAging(
+  dateRange: DateRange,
+  branchSync?: string[],
+  customerCode?: string
+): Promise<CustomerAging[]> {
+  try {
+    const [agingResult, salesResult] = await Promise.all([
+      clickhouse.query({ ...getCustomerAgingQuery(dateRange, branchSync, customerCode), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getCustomerCreditSalesQuery(dateRange, branchSync, customerCode), format: 'JSONEachRow' }),
+    ]);
+    const rows: Record<string, string | number>[] = await agingResult.json();
+    const sales: Record<string, string | number>[] = await salesResult.json();
+    const creditSales = new Map(sales.map((row) => [String(row.customerCode), Number(row.creditSales) || 0]));
+
+    return rows.map((row) => {
+      const total = Number(row.total) || 0;
+      const customerSales = creditSales.get(String(row.customerCode)) ?? 0;
+      return {
+        customerCode: String(row.customerCode),
+        customerName: String(row.customerName ?? ''),
+        invoiceCount: Number(row.invoiceCount) || 0,
+        notDue: Number(row.notDue) || 0,
+        days1to30: Number(row.days1to30) || 0,
+        days31to60: Number(row.days31to60) || 0,
+        days61to90: Number(row.days61to90) || 0,
+        over90: Number(row.over90) || 0,
+        total,
+        oldestDaysOverdue: Number(row.oldestDaysOverdue) || 0,
+        creditSales: customerSales,
+        dso: daysSalesOutstanding(total, customerSales, dateRange),
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching customer aging:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get outstanding balance, credit sales and DSO per branch
+ */
+export async function getBranchDSO(dateRange: DateRange, branchSync?: string[]): Promise<BranchDSO[]> {
+  try {
+    const result = await clickhouse.query({ ...getBranchReceivablesQuery(dateRange, branchSync), format: 'JSONEachRow' });
+    const data: Record<string, string | number>[] = await result.json();
+
+    return data.map((row) => {
+      const outstanding = Number(row.outstanding) || 0;
+      const creditSales = Number(row.creditSales) || 0;
+      return {
+        branchSync: String(row.branchSync),
+        outstanding,
+        creditSales,
+        dso: daysSalesOutstanding(outstanding, creditSales, dateRange),
+      };
+    });
+  } catch (error) {
+    console.error('Error fetching branch DSO:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get a customer statement: opening balance, invoices and receipts in the range, current aging
+ */
+export async function getCustomerStatement(
+  dateRange: DateRange,
+  customerCode: string,
+  branchSync?: string[]
+): Promise<CustomerStatement> {
+  try {
+    const [openingResult, linesResult, aging] = await Promise.all([
+      clickhouse.query({ ...getCustomerStatementOpeningQuery(dateRange, customerCode, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getCustomerStatementLinesQuery(dateRange, customerCode, branchSync), format: 'JSONEachRow' }),
+      getCustomerAging(dateRange, branchSync, customerCode),
+    ]);
+    const [opening]: Record<string, string | number | null>[] = await openingResult.json();
+    const lines: Record<string, string | number>[] = await linesResult.json();
+
+    return buildCustomerStatement({
+      customerCode,
+      customerName: String(opening?.customerName ?? ''),
+      dateRange,
+      openingBalance: (Number(opening?.invoiced) || 0) - (Number(opening?.received) || 0),
+      lines: lines.map((row) => ({
+        date: String(row.docDate),
+        docNo: String(row.docNo),
+        kind: row.kind === 'payment' ? 'payment' : 'invoice',
+        dueDate: row.dueDate ? String(row.dueDate) : null,
+        debit: Number(row.debit) || 0,
+        credit: Number(row.credit) || 0,
+      })),
+      aging: aging[0] ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching customer statement:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,121 @@
+// Replenishment queries - Pure functions safe for client-side usage
+//
+// Demand comes from stock_transaction issues (qty < 0) per branch / warehouse / item,
+// lead time from the gap between a purchase line and the next stock receipt of that item (ASOF JOIN).
+
+import { subtractDays } from '@/lib/dateRanges';
+import { LEAD_TIME_HISTORY_DAYS } from '@/lib/replenishment/types';
+import { sql, toQuery, param, branchFilter, type BuiltQuery } from './query-builder';
+import { asOfParam } from './inventory-balance-queries';
+
+/**
+ * Stock on hand as of a date with daily issue statistics over the last historyDays
+ * (only items that were issued in that window)
+ */
+export function getItemDemandQuery(asOf: string, historyDays: number, branchSync?: string[]): BuiltQuery {
+  const historyStart = param('history_start', 'Date', subtractDays(asOf, historyDays));
+  return toQuery(sql`
+SELECT
+  branch_sync AS branchSync,
+  wh_code AS whCode,
+  any(wh_label) AS whName,
+  item_code AS itemCode,
+  any(item_label) AS itemName,
+  any(unit_label) AS unitName,
+  sum(day_qty) AS qtyOnHand,
+  if(qtyOnHand > 0, sum(day_value) / qtyOnHand, 0) AS unitCost,
+  sum(day_out) AS totalOut,
+  sum(day_out * day_out) AS totalOutSquared,
+  countIf(day_out > 0) AS demandDays
+FROM (
+  SELECT
+    branch_sync,
+    wh_code,
+    item_code,
+    toDate(doc_datetime) AS day,
+    any(wh_name) AS wh_label,
+    any(item_name) AS item_label,
+    any(ic_unit_name) AS unit_label,
+    sum(qty) AS day_qty,
+    sum(qty * cost) AS day_value,
+    if(day > ${historyStart}, abs(sumIf(qty, qty < 0)), 0) AS day_out
+  FROM stock_transaction
+  WHERE toDate(doc_datetime) <= ${asOfParam(asOf)}
+    ${branchFilter(branchSync)}
+  GROUP BY branch_sync, wh_code, item_code, day
+)
+GROUP BY branch_sync, wh_code, item_code
+HAVING totalOut > 0
+  `);
+}
+
+/**
+ * Supplier, date and price of the latest purchase of each item up to a date
+ */
+export function getLastSuppliersQuery(asOf: string, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  d.branch_sync AS branchSync,
+  d.item_code AS itemCode,
+  argMax(p.supplier_code, p.doc_datetime) AS supplierCode,
+  argMax(p.supplier_name, p.doc_datetime) AS supplierName,
+  toString(toDate(max(p.doc_datetime))) AS lastPurchaseDate,
+  argMax(d.price, p.doc_datetime) AS lastPrice
+FROM purchase_transaction_detail d
+INNER JOIN purchase_transaction p ON p.branch_sync = d.branch_sync AND p.doc_no = d.doc_no
+WHERE p.status_cancel != 'Cancel'
+  AND p.supplier_code != ''
+  AND toDate(p.doc_datetime) <= ${asOfParam(asOf)}
+  ${branchFilter(branchSync, 'd.branch_sync')}
+GROUP BY d.branch_sync, d.item_code
+  `);
+}
+
+/**
+ * Days from each purchase line to the first later stock receipt (qty > 0) of the same item
+ * in the same branch, per supplier, over the last LEAD_TIME_HISTORY_DAYS. Receipts on the
+ * purchase date are the purchase posting itself, so only later days count; lines never
+ * received in the window are left out
+ */
+export function getSupplierLeadTimesQuery(asOf: string, branchSync?: string[]): BuiltQuery {
+  const end = asOfParam(asOf);
+  const start = param('lead_time_start', 'Date', subtractDays(asOf, LEAD_TIME_HISTORY_DAYS));
+  return toQuery(sql`
+SELECT
+  branch_sync AS branchSync,
+  supplier_code AS supplierCode,
+  avg(lead_days) AS avgLeadDays,
+  max(lead_days) AS maxLeadDays,
+  count() AS receiptCount
+FROM (
+  SELECT
+    o.branch_sync AS branch_sync,
+    o.supplier_code AS supplier_code,
+    dateDiff('day', o.order_day, r.received_day) AS lead_days
+  FROM (
+    SELECT DISTINCT
+      d.branch_sync AS branch_sync,
+      d.doc_no AS doc_no,
+      d.item_code AS item_code,
+      toDate(d.doc_datetime) AS order_day,
+      p.supplier_code AS supplier_code
+    FROM purchase_transaction_detail d
+    JOIN purchase_transaction p ON d.doc_no = p.doc_no AND d.branch_sync = p.branch_sync
+    WHERE p.status_cancel != 'Cancel'
+      AND p.supplier_code != ''
+      AND d.item_code != ''
+      AND toDate(p.doc_datetime) BETWEEN ${start} AND ${end}
+      ${branchFilter(branchSync, 'p.branch_sync')}
+  ) o
+  ASOF INNER JOIN (
+    SELECT DISTINCT branch_sync, item_code, toDate(doc_datetime) AS received_day
+    FROM stock_transaction
+    WHERE qty > 0
+      AND toDate(doc_datetime) BETWEEN ${start} AND ${end}
+      ${branchFilter(branchSync)}
+  ) r ON r.branch_sync = o.branch_sync AND r.item_code = o.item_code AND o.order_day < r.received_day
+)
+WHERE lead_days > 0
+GROUP BY branch_sync, supplier_code
+  `);
+}
@@ -0,0 +1,86 @@
+// Replenishment data queries for ClickHouse
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import type { ItemDemand, LastSupplier, SupplierLeadTime } from '@/lib/replenishment/types';
+import { getItemDemandQuery, getLastSuppliersQuery, getSupplierLeadTimesQuery } from './replenishment-queries';
+
+export * from './replenishment-queries';
+
+type Row = Record<string, string | number>;
+
+/**
+ * Get stock on hand and daily demand statistics per branch / warehouse / item
+ */
+export async function getItemDemand(asOf: string, historyDays: number, branchSync?: string[]): Promise<ItemDemand[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getItemDemandQuery(asOf, historyDays, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => ({
+      branchSync: String(row.branchSync),
+      whCode: String(row.whCode),
+      whName: String(row.whName || row.whCode),
+      itemCode: String(row.itemCode),
+      itemName: String(row.itemName || row.itemCode),
+      unitName: String(row.unitName ?? ''),
+      qtyOnHand: Number(row.qtyOnHand) || 0,
+      unitCost: Number(row.unitCost) || 0,
+      totalOut: Number(row.totalOut) || 0,
+      totalOutSquared: Number(row.totalOutSquared) || 0,
+      demandDays: Number(row.demandDays) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching item demand:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the latest supplier of each item
+ */
+export async function getLastSuppliers(asOf: string, branchSync?: string[]): Promise<LastSupplier[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getLastSuppliersQuery(asOf, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => ({
+      branchSync: String(row.branchSync),
+      itemCode: String(row.itemCode),
+      supplierCode: String(row.supplierCode),
+      supplierName: String(row.supplierName || row.supplierCode),
+      lastPurchaseDate: String(row.lastPurchaseDate),
+      lastPrice: Number(row.lastPrice) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching last suppliers:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the observed purchase-to-receipt lead time per supplier
+ */
+export async function getSupplierLeadTimes(asOf: string, branchSync?: string[]): Promise<SupplierLeadTime[]> {
+  try {
+    const result = await clickhouse.query({
+      ...getSupplierLeadTimesQuery(asOf, branchSync),
+      format: 'JSONEachRow',
+    });
+    const rows: Row[] = await result.json();
+    return rows.map((row) => ({
+      branchSync: String(row.branchSync),
+      supplierCode: String(row.supplierCode),
+      avgLeadDays: Number(row.avgLeadDays) || 0,
+      maxLeadDays: Number(row.maxLeadDays) || 0,
+      receiptCount: Number(row.receiptCount) || 0,
+    }));
+  } catch (error) {
+    console.error('Error fetching supplier lead times:', error);
+    throw error;
+  }
+}
@@ -2,99 +2,127 @@
 
 import type { DateRange } from './types';
 import { getPreviousPeriod } from '@/lib/comparison';
+import { sql, toQuery, branchFilter, dateTimeParams, type BuiltQuery } from './query-builder';
 
 // ============================================
-// SQL Query Functions - Generate queries with actual dates
+// SQL Query Functions - Used by sales.ts and the View SQL feature
 // ============================================
 
 /**
  * Get Total Sales KPI Query
  */
-export function getTotalSalesQuery(dateRange: DateRange): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  return `SELECT
+export function getTotalSalesQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   sum(total_amount) as current_value,
   (SELECT sum(total_amount)
    FROM saleinvoice_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Gross Profit KPI Query
  */
-export function getGrossProfitQuery(dateRange: DateRange): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  return `SELECT
+export function getGrossProfitQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  return toQuery(sql`
+SELECT
   sum(sid.sum_amount - sid.sum_of_cost) as current_value,
+  sum(sid.sum_amount) as revenue,
   (SELECT sum(sid2.sum_amount - sid2.sum_of_cost)
    FROM saleinvoice_transaction_detail sid2
    JOIN saleinvoice_transaction si2 ON sid2.doc_no = si2.doc_no AND sid2.branch_sync = si2.branch_sync
    WHERE si2.status_cancel != 'Cancel'
-     AND si2.doc_datetime BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}') as previous_value
+     AND si2.doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branchFilter(branchSync, 'si2.branch_sync')}) as previous_value
 FROM saleinvoice_transaction_detail sid
 JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
 WHERE si.status_cancel != 'Cancel'
-  AND si.doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'`;
+  AND si.doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branchFilter(branchSync, 'si.branch_sync')}
+  `);
 }
 
 /**
  * Get Total Orders KPI Query
  */
-export function getTotalOrdersQuery(dateRange: DateRange): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  return `SELECT
+export function getTotalOrdersQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   count(DISTINCT doc_no) as current_value,
   (SELECT count(DISTINCT doc_no)
    FROM saleinvoice_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
  * Get Average Order Value KPI Query
  */
-export function getAvgOrderValueQuery(dateRange: DateRange): string {
-  const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-  return `SELECT
+export function getAvgOrderValueQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const current = dateTimeParams(dateRange);
+  const previous = dateTimeParams(getPreviousPeriod(dateRange, 'PreviousPeriod'), 'previous_');
+  const branches = branchFilter(branchSync);
+  return toQuery(sql`
+SELECT
   avg(total_amount) as current_value,
   (SELECT avg(total_amount)
    FROM saleinvoice_transaction
    WHERE status_cancel != 'Cancel'
-     AND doc_datetime BETWEEN '${previousPeriod.start}' AND '${previousPeriod.end}') as previous_value
+     AND doc_datetime BETWEEN ${previous.start} AND ${previous.end}
+     ${branches}) as previous_value
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${dateRange.start}' AND '${dateRange.end}'`;
+  AND doc_datetime BETWEEN ${current.start} AND ${current.end}
+  ${branches}
+  `);
 }
 
 /**
- * Get Sales Trend Query with actual dates
+ * Get Sales Trend Query
  */
-export function getSalesTrendQuery(startDate: string, endDate: string): string {
-  return `
+export function getSalesTrendQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   toStartOfDay(doc_datetime) as date,
   sum(total_amount) as sales,
   count(DISTINCT doc_no) as orderCount
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
 GROUP BY date
 ORDER BY date ASC
-  `.trim();
+  `);
 }
 
 /**
- * Get Top Products Query with actual dates
+ * Get Top Products Query
  */
-export function getTopProductsQuery(startDate: string, endDate: string): string {
-  return `
+export function getTopProductsQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   sid.item_code as itemCode,
   sid.item_name as itemName,
@@ -107,18 +135,20 @@ SELECT
 FROM saleinvoice_transaction_detail sid
 JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
 WHERE si.status_cancel != 'Cancel'
-  AND si.doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND si.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'si.branch_sync')}
 GROUP BY sid.item_code, sid.item_name, sid.item_brand_name, sid.item_category_name
 ORDER BY totalSales DESC
 LIMIT 10
-  `.trim();
+  `);
 }
 
 /**
- * Get Sales by Branch Query with actual dates
+ * Get Sales by Branch Query
  */
-export function getSalesByBranchQuery(startDate: string, endDate: string): string {
-  return `
+export function getSalesByBranchQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   branch_code as branchCode,
   branch_name as branchName,
@@ -126,18 +156,20 @@ SELECT
   sum(total_amount) as totalSales
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND doc_datetime BETWEEN ${start} AND ${end}
   AND branch_code != ''
+  ${branchFilter(branchSync)}
 GROUP BY branch_code, branch_name
 ORDER BY totalSales DESC
-  `.trim();
+  `);
 }
 
 /**
- * Get Sales by Salesperson Query with actual dates
+ * Get Sales by Salesperson Query
  */
-export function getSalesBySalespersonQuery(startDate: string, endDate: string): string {
-  return `
+export function getSalesBySalespersonQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   sale_code as saleCode,
   sale_name as saleName,
@@ -147,19 +179,21 @@ SELECT
   uniq(customer_code) as customerCount
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
-  AND doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND doc_datetime BETWEEN ${start} AND ${end}
   AND sale_code != ''
+  ${branchFilter(branchSync)}
 GROUP BY sale_code, sale_name
 ORDER BY totalSales DESC
 LIMIT 20
-  `.trim();
+  `);
 }
 
 /**
- * Get Top Customers Query with actual dates
+ * Get Top Customers Query
  */
-export function getTopCustomersQuery(startDate: string, endDate: string): string {
-  return `
+export function getTopCustomersQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   customer_code as customerCode,
   customer_name as customerName,
@@ -171,18 +205,20 @@ SELECT
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
   AND customer_code != ''
-  AND doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
 GROUP BY customer_code, customer_name
 ORDER BY totalSpent DESC
 LIMIT 20
-  `.trim();
+  `);
 }
 
 /**
- * Get AR Status Query with actual dates
+ * Get AR Status Query
  */
-export function getARStatusQuery(startDate: string, endDate: string): string {
-  return `
+export function getARStatusQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   status_payment as statusPayment,
   count(DISTINCT doc_no) as invoiceCount,
@@ -192,38 +228,60 @@ SELECT
 FROM saleinvoice_transaction
 WHERE status_cancel != 'Cancel'
   AND doc_type = 'CREDIT'
-  AND doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync)}
 GROUP BY statusPayment
 ORDER BY totalOutstanding DESC
-  `.trim();
+  `);
 }
 
 /**
- * Get Sales by Category Summary Query with actual dates
+ * Get Overdue AR Query (as of today)
+ * เอกสารขายที่เกินกำหนดชำระและยังมียอดค้าง
+ */
+export function getOverdueARQuery(branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT
+  count(*) as invoiceCount,
+  sum(total_amount - sum_pay_money) as outstanding
+FROM saleinvoice_transaction
+WHERE status_cancel != 'Cancel'
+  AND status_payment != 'Fully Paid'
+  AND due_date < today()
+  AND (total_amount - sum_pay_money) > 0
+  ${branchFilter(branchSync)}
+  `);
+}
+
+/**
+ * Get Sales by Category Summary Query
  * Aggregates sales by category across selected branches
  */
-export function getSalesByCategorySummaryQuery(startDate: string, endDate: string): string {
-  return `
+export function getSalesByCategorySummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
-  COALESCE(NULLIF(sid.item_category_code, ''), 'ไม่ระบุ') as categoryCode,
+  COALESCE(NULLIF(sid.item_category_code, ''), 'N/A') as categoryCode,
   COALESCE(NULLIF(sid.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
   sum(sid.sum_amount) as totalSales,
   count(DISTINCT si.doc_no) as orderCount
 FROM saleinvoice_transaction_detail sid
 JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
 WHERE si.status_cancel != 'Cancel'
-  AND si.doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND si.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'si.branch_sync')}
 GROUP BY categoryCode, categoryName
 ORDER BY totalSales DESC
-  `.trim();
+  `);
 }
 
 /**
- * Get Sales by Category Detail Query with actual dates
+ * Get Sales by Category Detail Query
  * Returns detailed item-level sales data grouped by category (matches actual API data)
  */
-export function getSalesByCategoryDetailQuery(startDate: string, endDate: string): string {
-  return `
+export function getSalesByCategoryDetailQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
 SELECT
   'All' as branchName,
   COALESCE(NULLIF(sid.item_category_code, ''), 'N/A') as categoryCode,
@@ -238,33 +296,36 @@ SELECT
 FROM saleinvoice_transaction_detail sid
 JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
 WHERE si.status_cancel != 'Cancel'
-  AND si.doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND si.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'si.branch_sync')}
 GROUP BY categoryCode, categoryName, sid.item_code, sid.item_name
 ORDER BY categoryName ASC, totalSales DESC
-  `.trim();
+  `);
 }
 
 /**
- * Get Sales Analysis Query with actual dates
+ * Get Sales Analysis Query
  * Detailed sales transaction data by category
  */
-export function getSalesAnalysisQuery(startDate: string, endDate: string): string {
-  return `
-  SELECT
+export function getSalesAnalysisQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { start, end } = dateTimeParams(dateRange);
+  return toQuery(sql`
+SELECT
   COALESCE(NULLIF(sid.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-    toDate(toTimeZone(si.doc_datetime, 'Asia/Bangkok')) as docDate,
-    si.doc_no as docNo,
-    sid.item_code as itemCode,
-    sid.item_name as itemName,
-    sid.unit_code as unitCode,
-    sid.qty as qty,
-    sid.sum_amount / NULLIF(sid.qty, 0) as price,
-    sid.discount_amount as discountAmount,
-    sid.sum_amount as totalAmount
+  toDate(toTimeZone(si.doc_datetime, 'Asia/Bangkok')) as docDate,
+  si.doc_no as docNo,
+  sid.item_code as itemCode,
+  sid.item_name as itemName,
+  sid.unit_code as unitCode,
+  sid.qty as qty,
+  sid.sum_amount / NULLIF(sid.qty, 0) as price,
+  sid.discount_amount as discountAmount,
+  sid.sum_amount as totalAmount
 FROM saleinvoice_transaction_detail sid
 JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
 WHERE si.status_cancel != 'Cancel'
-  AND si.doc_datetime BETWEEN '${startDate}' AND '${endDate}'
+  AND si.doc_datetime BETWEEN ${start} AND ${end}
+  ${branchFilter(branchSync, 'si.branch_sync')}
 ORDER BY categoryName, docDate, docNo
-    `.trim();
+  `);
 }
@@ -13,70 +13,31 @@ import type {
   SalesAnalysisData,
   TopCustomer,
   ARStatus,
+  OverdueARSummary,
   KPIData,
 } from './types';
 import { calculateGrowth, getPreviousPeriod } from '@/lib/comparison';
+import { summaryTablesReady, getSalesTotalsSummaryQuery, getGrossProfitSummaryQuery } from './summaries';
+import {
+  getTotalSalesQuery,
+  getGrossProfitQuery,
+  getTotalOrdersQuery,
+  getAvgOrderValueQuery,
+  getSalesTrendQuery,
+  getTopProductsQuery,
+  getSalesByBranchQuery,
+  getSalesBySalespersonQuery,
+  getTopCustomersQuery,
+  getARStatusQuery,
+  getOverdueARQuery,
+  getSalesByCategoryDetailQuery,
+  getSalesByCategorySummaryQuery,
+  getSalesAnalysisQuery,
+} from './sales-queries';
 
 // Re-export query functions for convenience (server-side usage only)
 export * from './sales-queries';
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
-
-/**
- * Build branch filter SQL clause and parameters
- * Handles single branch, multiple branches, or ALL branches
- */
-function buildBranchFilter(branches?: string[]): { sql: string; params: Record<string, any> } {
-  if (!branches || branches.length === 0 || branches.includes('ALL')) {
-    return { sql: '', params: {} };
-  }
-
-  if (branches.length === 1) {
-    return {
-      sql: 'AND branch_sync = {branchSync:String}',
-      params: { branchSync: branches[0] }
-    };
-  }
-
-  return {
-    sql: 'AND branch_sync IN {branchList:Array(String)}',
-    params: { branchList: branches }
-  };
-}
-
-function getNextDate(dateString: string): string {
-  const [year, month, day] = dateString.split('-').map(Number);
-  const date = new Date(Date.UTC(year, month - 1, day));
-  date.setUTCDate(date.getUTCDate() + 1);
-  return date.toISOString().slice(0, 10);
-}
-
-function buildDateTimeRangeParams(dateRange: DateRange): {
-  start_date: string;
-  end_date_exclusive: string;
-} {
-  return {
-    start_date: `${dateRange.start} 00:00:00`,
-    end_date_exclusive: `${getNextDate(dateRange.end)} 00:00:00`,
-  };
-}
-
-/**
- * Build date-time range parameters for BETWEEN queries (inclusive end)
- * Returns start_date at 00:00:00 and end_date at 23:59:59
- */
-function buildDateTimeRangeParamsInclusive(dateRange: DateRange): {
-  start_date: string;
-  end_date: string;
-} {
-  return {
-    start_date: `${dateRange.start} 00:00:00`,
-    end_date: `${dateRange.end} 23:59:59`,
-  };
-}
-
 // ============================================================================
 // Data Fetching Functions
 // ============================================================================
@@ -86,91 +47,15 @@ function buildDateTimeRangeParamsInclusive(dateRange: DateRange): {
  */
 export async function getSalesKPIs(dateRange: DateRange, branchSync?: string[]): Promise<SalesKPIs> {
   try {
-    const previousPeriod = getPreviousPeriod(dateRange, 'PreviousPeriod');
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-    const prevDateParams = buildDateTimeRangeParamsInclusive(previousPeriod);
-
-    // Total Sales
-    const salesQuery = `
-      SELECT
-        sum(total_amount) as current_value,
-        (SELECT sum(total_amount)
-         FROM saleinvoice_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    // Gross Profit
-    const profitQuery = `
-      SELECT
-        sum(sid.sum_amount - sid.sum_of_cost) as current_value,
-        sum(sid.sum_amount) as revenue,
-        (SELECT sum(sid2.sum_amount - sid2.sum_of_cost)
-         FROM saleinvoice_transaction_detail sid2
-         JOIN saleinvoice_transaction si2 ON sid2.doc_no = si2.doc_no AND sid2.branch_sync = si2.branch_sync
-         WHERE si2.status_cancel != 'Cancel'
-           AND si2.doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql.replace(/branch_sync/g, 'si2.branch_sync')}
-        ) as previous_value
-      FROM saleinvoice_transaction_detail sid
-      JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
-      WHERE si.status_cancel != 'Cancel'
-        AND si.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'si.branch_sync')}
-    `;
-
-    // Total Orders
-    const ordersQuery = `
-      SELECT
-        count(DISTINCT doc_no) as current_value,
-        (SELECT count(DISTINCT doc_no)
-         FROM saleinvoice_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    // Average Order Value
-    const avgOrderQuery = `
-      SELECT
-        avg(total_amount) as current_value,
-        (SELECT avg(total_amount)
-         FROM saleinvoice_transaction
-         WHERE status_cancel != 'Cancel'
-           AND doc_datetime BETWEEN {previous_start:String} AND {previous_end:String}
-           ${branchFilter.sql}
-        ) as previous_value
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-    `;
-
-    const params = {
-      start_date: dateParams.start_date,
-      end_date: dateParams.end_date,
-      previous_start: prevDateParams.start_date,
-      previous_end: prevDateParams.end_date,
-      ...branchFilter.params
-    };
+    if (await summaryTablesReady()) {
+      return await getSalesKPIsFromSummaries(dateRange, branchSync);
+    }
 
     const [salesResult, profitResult, ordersResult, avgOrderResult] = await Promise.all([
-      clickhouse.query({ query: salesQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: profitQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: ordersQuery, query_params: params, format: 'JSONEachRow' }),
-      clickhouse.query({ query: avgOrderQuery, query_params: params, format: 'JSONEachRow' }),
+      clickhouse.query({ ...getTotalSalesQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getGrossProfitQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getTotalOrdersQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+      clickhouse.query({ ...getAvgOrderValueQuery(dateRange, branchSync), format: 'JSONEachRow' }),
     ]);
 
     const salesData = await salesResult.json();
@@ -180,17 +65,7 @@ export async function getSalesKPIs(dateRange: DateRange, branchSync?: string[]):
 
     const createKPI = (data: any[]): KPIData => {
       const row = data[0] || { current_value: 0, previous_value: 0 };
-      const current = Number(row.current_value) || 0;
-      const previous = Number(row.previous_value) || 0;
-      const growth = calculateGrowth(current, previous);
-
-      return {
-        value: current,
-        previousValue: previous,
-        growth: growth.value,
-        growthPercentage: growth.percentage,
-        trend: growth.trend,
-      };
+      return toKPI(row.current_value, row.previous_value);
     };
 
     const profitRow = (profitData[0] || { current_value: 0, revenue: 0 }) as Record<string, unknown>;
@@ -211,34 +86,51 @@ export async function getSalesKPIs(dateRange: DateRange, branchSync?: string[]):
   }
 }
 
+function toKPI(currentValue: unknown, previousValue: unknown): KPIData {
+  const current = Number(currentValue) || 0;
+  const previous = Number(previousValue) || 0;
+  const growth = calculateGrowth(current, previous);
+
+  return {
+    value: current,
+    previousValue: previous,
+    growth: growth.value,
+    growthPercentage: growth.percentage,
+    trend: growth.trend,
+  };
+}
+
+/**
+ * Sales KPIs from the daily summary tables (current and previous period in one scan)
+ */
+async function getSalesKPIsFromSummaries(dateRange: DateRange, branchSync?: string[]): Promise<SalesKPIs> {
+  const previous = getPreviousPeriod(dateRange, 'PreviousPeriod');
+  const [totalsResult, profitResult] = await Promise.all([
+    clickhouse.query({ ...getSalesTotalsSummaryQuery(dateRange, previous, branchSync), format: 'JSONEachRow' }),
+    clickhouse.query({ ...getGrossProfitSummaryQuery(dateRange, branchSync), format: 'JSONEachRow' }),
+  ]);
+  const totals = ((await totalsResult.json())[0] || {}) as Record<string, unknown>;
+  const profit = ((await profitResult.json())[0] || {}) as Record<string, unknown>;
+
+  const grossProfit = Number(profit.current_value) || 0;
+  const revenue = Number(profit.revenue) || 0;
+
+  return {
+    totalSales: toKPI(totals.current_sales, totals.previous_sales),
+    grossProfit: toKPI(profit.current_value, profit.previous_value),
+    totalOrders: toKPI(totals.current_orders, totals.previous_orders),
+    avgOrderValue: toKPI(totals.current_avg_order, totals.previous_avg_order),
+    grossMarginPct: revenue > 0 ? (grossProfit / revenue) * 100 : 0,
+  };
+}
+
 /**
  * Get Sales Trend data by day/month
  */
 export async function getSalesTrendData(dateRange: DateRange, branchSync?: string[]): Promise<SalesTrendData[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParams(dateRange);
-
-    const query = `
-      SELECT
-        toStartOfDay(doc_datetime) as date,
-        sum(total_amount) as sales,
-        count(DISTINCT doc_no) as orderCount
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime >= {start_date:String}
-        AND doc_datetime < {end_date_exclusive:String}
-        ${branchFilter.sql}
-      GROUP BY date
-      ORDER BY date ASC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesTrendQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -259,35 +151,8 @@ export async function getSalesTrendData(dateRange: DateRange, branchSync?: strin
  */
 export async function getTopProducts(dateRange: DateRange, branchSync?: string[]): Promise<TopProduct[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        sid.item_code as itemCode,
-        sid.item_name as itemName,
-        sid.item_brand_name as brandName,
-        sid.item_category_name as categoryName,
-        sum(sid.qty) as totalQtySold,
-        sum(sid.sum_amount) as totalSales,
-        sum(sid.sum_amount - sid.sum_of_cost) as totalProfit,
-        (totalProfit / totalSales) * 100 as profitMarginPct
-      FROM saleinvoice_transaction_detail sid
-      JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
-      WHERE si.status_cancel != 'Cancel'
-        AND si.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'si.branch_sync')}
-      GROUP BY sid.item_code, sid.item_name, sid.item_brand_name, sid.item_category_name
-      ORDER BY totalSales DESC
-      LIMIT 10
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getTopProductsQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -313,30 +178,8 @@ export async function getTopProducts(dateRange: DateRange, branchSync?: string[]
  */
 export async function getSalesByBranch(dateRange: DateRange, branchSync?: string[]): Promise<SalesByBranch[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        branch_code as branchCode,
-        branch_name as branchName,
-        count(DISTINCT doc_no) as orderCount,
-        sum(total_amount) as totalSales
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND branch_code != ''
-        ${branchFilter.sql}
-      GROUP BY branch_code, branch_name
-      ORDER BY totalSales DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesByBranchQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -358,33 +201,8 @@ export async function getSalesByBranch(dateRange: DateRange, branchSync?: string
  */
 export async function getSalesBySalesperson(dateRange: DateRange, branchSync?: string[]): Promise<SalesBySalesperson[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        sale_code as saleCode,
-        sale_name as saleName,
-        count(DISTINCT doc_no) as orderCount,
-        sum(total_amount) as totalSales,
-        avg(total_amount) as avgOrderValue,
-        uniq(customer_code) as customerCount
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        AND sale_code != ''
-        ${branchFilter.sql}
-      GROUP BY sale_code, sale_name
-      ORDER BY totalSales DESC
-      LIMIT 20
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesBySalespersonQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -408,35 +226,8 @@ export async function getSalesBySalesperson(dateRange: DateRange, branchSync?: s
  */
 export async function getTopCustomers(dateRange: DateRange, branchSync?: string[]): Promise<TopCustomer[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParams(dateRange);
-
-    const query = `
-      SELECT
-        customer_code as customerCode,
-        customer_name as customerName,
-        count(DISTINCT doc_no) as orderCount,
-        sum(total_amount) as totalSpent,
-        avg(total_amount) as avgOrderValue,
-        max(doc_datetime) as lastOrderDate,
-        dateDiff('day', lastOrderDate, now()) as daysSinceLastOrder
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND customer_code != ''
-        AND doc_datetime >= {start_date:String}
-        AND doc_datetime < {end_date_exclusive:String}
-        ${branchFilter.sql}
-      GROUP BY customer_code, customer_name
-      ORDER BY totalSpent DESC
-      LIMIT 20
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getTopCustomersQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -461,31 +252,8 @@ export async function getTopCustomers(dateRange: DateRange, branchSync?: string[
  */
 export async function getARStatus(dateRange: DateRange, branchSync?: string[]): Promise<ARStatus[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        status_payment as statusPayment,
-        count(DISTINCT doc_no) as invoiceCount,
-        sum(total_amount) as totalInvoiceAmount,
-        sum(sum_pay_money) as totalPaid,
-        sum(total_amount - sum_pay_money) as totalOutstanding
-      FROM saleinvoice_transaction
-      WHERE status_cancel != 'Cancel'
-        AND doc_type = 'CREDIT'
-        AND doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql}
-      GROUP BY statusPayment
-      ORDER BY totalOutstanding DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getARStatusQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -503,42 +271,35 @@ export async function getARStatus(dateRange: DateRange, branchSync?: string[]):
   }
 }
 
+/**
+ * Get Overdue AR Summary (as of today)
+ */
+export async function getOverdueAR(branchSync?: string[]): Promise<OverdueARSummary> {
+  try {
+    const result = await clickhouse.query({
+      ...getOverdueARQuery(branchSync),
+      format: 'JSONEachRow',
+    });
+
+    const data = await result.json();
+    const row = (data[0] ?? {}) as Record<string, unknown>;
+    return {
+      invoiceCount: Number(row.invoiceCount) || 0,
+      outstanding: Number(row.outstanding) || 0,
+    };
+  } catch (error) {
+    console.error('Error fetching overdue AR:', error);
+    throw error;
+  }
+}
+
 /**
  * Get Sales by Category
  */
 export async function getSalesByCategory(dateRange: DateRange, branchSync?: string[]): Promise<SalesByCategory[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParams(dateRange);
-
-    const query = `
-      SELECT
-        'All' as branchName,
-        COALESCE(NULLIF(sid.item_category_code, ''), 'N/A') as categoryCode,
-        COALESCE(NULLIF(sid.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        sid.item_code as itemCode,
-        sid.item_name as itemName,
-        count(DISTINCT si.doc_no) as orderCount,
-        sum(sid.qty) as totalQtySold,
-        sum(sid.sum_amount) as totalSales,
-        sum(sid.sum_amount - sid.sum_of_cost) as totalProfit,
-        (totalProfit / totalSales) * 100 as profitMarginPct
-      FROM saleinvoice_transaction_detail sid
-      JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
-      WHERE si.status_cancel != 'Cancel'
-        AND si.doc_datetime >= {start_date:String}
-        AND si.doc_datetime < {end_date_exclusive:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'si.branch_sync')}
-      GROUP BY categoryCode, categoryName, sid.item_code, sid.item_name
-      ORDER BY categoryName ASC, totalSales DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesByCategoryDetailQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -566,30 +327,8 @@ export async function getSalesByCategory(dateRange: DateRange, branchSync?: stri
  */
 export async function getSalesByCategorySummary(dateRange: DateRange, branchSync?: string[]): Promise<SalesByCategory[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        COALESCE(NULLIF(sid.item_category_code, ''), 'N/A') as categoryCode,
-        COALESCE(NULLIF(sid.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        sum(sid.sum_amount) as totalSales,
-        count(DISTINCT si.doc_no) as orderCount
-      FROM saleinvoice_transaction_detail sid
-      JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
-      WHERE si.status_cancel != 'Cancel'
-        AND si.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'si.branch_sync')}
-      GROUP BY categoryCode, categoryName
-      ORDER BY totalSales DESC
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesByCategorySummaryQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
@@ -617,35 +356,8 @@ export async function getSalesByCategorySummary(dateRange: DateRange, branchSync
  */
 export async function getSalesAnalysisData(dateRange: DateRange, branchSync?: string[]): Promise<SalesAnalysisData[]> {
   try {
-    const branchFilter = buildBranchFilter(branchSync);
-    const dateParams = buildDateTimeRangeParamsInclusive(dateRange);
-
-    const query = `
-      SELECT
-        COALESCE(NULLIF(sid.item_category_name, ''), 'ไม่ระบุหมวดหมู่') as categoryName,
-        toDate(toTimeZone(si.doc_datetime, 'Asia/Bangkok')) as docDate,
-        si.doc_no as docNo,
-        sid.item_code as itemCode,
-        sid.item_name as itemName,
-        sid.unit_code as unitCode,
-        sid.qty as qty,
-        sid.sum_amount / NULLIF(sid.qty, 0) as price,
-        sid.discount_amount as discountAmount,
-        sid.sum_amount as totalAmount
-      FROM saleinvoice_transaction_detail sid
-      JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
-      WHERE si.status_cancel != 'Cancel'
-        AND si.doc_datetime BETWEEN {start_date:String} AND {end_date:String}
-        ${branchFilter.sql.replace(/branch_sync/g, 'si.branch_sync')}
-      ORDER BY categoryName, docDate, docNo
-    `;
-
     const result = await clickhouse.query({
-      query,
-      query_params: {
-        ...dateParams,
-        ...branchFilter.params
-      },
+      ...getSalesAnalysisQuery(dateRange, branchSync),
       format: 'JSONEachRow',
     });
 
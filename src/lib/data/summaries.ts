@@ -0,0 +1,38 @@
+// Summary table availability for the data layer
+import 'server-only';
+
+import { clickhouse } from '@/lib/clickhouse';
+import { SUMMARY_TABLES, getSummaryTableColumns } from './summary-tables';
+
+export * from './summary-queries';
+
+const CHECK_TTL_MS = 5 * 60_000;
+
+let lastCheck: { ready: boolean; at: number } | null = null;
+
+/**
+ * Whether every summary table exists with its current columns (checked at most every 5 minutes).
+ * Before scripts/migrate-summary-tables.ts has run, or while a table still has the columns of
+ * an older version, KPIs keep reading the raw tables.
+ * Set CLICKHOUSE_SUMMARY_TABLES=off to force the raw queries.
+ */
+export async function summaryTablesReady(): Promise<boolean> {
+  if (process.env.CLICKHOUSE_SUMMARY_TABLES === 'off') return false;
+  if (lastCheck && Date.now() - lastCheck.at < CHECK_TTL_MS) return lastCheck.ready;
+
+  const columns = SUMMARY_TABLES.flatMap((table) => getSummaryTableColumns(table).map((column) => `${table.name}.${column.name}`));
+  try {
+    const result = await clickhouse.query({
+      query: `SELECT count() AS found FROM system.columns
+              WHERE database = currentDatabase() AND concat(table, '.', name) IN {columns:Array(String)}`,
+      query_params: { columns },
+      format: 'JSONEachRow',
+    });
+    const rows = (await result.json()) as { found: string | number }[];
+    lastCheck = { ready: Number(rows[0]?.found) === columns.length, at: Date.now() };
+  } catch (error) {
+    console.error('Error checking summary tables:', error);
+    lastCheck = { ready: false, at: Date.now() };
+  }
+  return lastCheck.ready;
+}
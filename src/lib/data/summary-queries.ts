@@ -0,0 +1,163 @@
+// KPI queries on the summary tables - Pure functions safe for client-side usage
+//
+// Same results as the raw KPI queries in sales-queries.ts / inventory-queries.ts and the
+// dashboard, computed from daily summaries. The current and previous periods come out of
+// one scan instead of a second subquery.
+
+import type { DateRange } from './types';
+import { getPreviousPeriod } from '@/lib/comparison';
+import { sql, toQuery, raw, branchFilter, dateParams, type BuiltQuery, type QueryParam, type SqlFragment } from './query-builder';
+import { SALES_DAILY, SALES_ITEM_DAILY, STOCK_DAILY, type SummaryTable } from './summary-tables';
+
+type DayCondition = (day: SqlFragment) => SqlFragment;
+
+/**
+ * Daily rows of a summary: summarised days from the summary table, later days
+ * aggregated from the raw table with the summary's own SELECT
+ *
+ * @param inRange - Condition on the day column, e.g. day => sql`${day} BETWEEN ...`
+ */
+export function summarySource(table: SummaryTable, inRange: DayCondition, branchSync?: string[]): SqlFragment {
+  const until = raw(`(SELECT max(day) FROM ${table.name})`);
+  const rawDay = raw(`toDate(${table.dateColumn})`);
+  return sql`(
+SELECT * FROM ${raw(table.name)}
+WHERE day <= ${until}
+  AND ${inRange(raw('day'))}
+  ${branchFilter(branchSync)}
+UNION ALL
+${table.select(sql`AND ${rawDay} > ${until}
+  AND ${inRange(rawDay)}
+  ${branchFilter(branchSync, table.branchColumn)}`)}
+)`;
+}
+
+function between(range: DateRange, prefix: string = ''): DayCondition {
+  const { start, end } = dateParams(range, prefix);
+  return (day) => sql`${day} BETWEEN ${start} AND ${end}`;
+}
+
+function either(a: DayCondition, b: DayCondition): DayCondition {
+  return (day) => sql`(${a(day)} OR ${b(day)})`;
+}
+
+/**
+ * Sales, orders, customers and average order value of two periods
+ * (dashboard KPIs and sales KPIs)
+ */
+export function getSalesTotalsSummaryQuery(current: DateRange, previous: DateRange, branchSync?: string[]): BuiltQuery {
+  const inCurrent = between(current)(raw('day'));
+  const inPrevious = between(previous, 'previous_')(raw('day'));
+  return toQuery(sql`
+SELECT
+  sumIf(sales, ${inCurrent}) AS current_sales,
+  sumIf(sales, ${inPrevious}) AS previous_sales,
+  uniqExactMergeIf(orders, ${inCurrent}) AS current_orders,
+  uniqExactMergeIf(orders, ${inPrevious}) AS previous_orders,
+  uniqMergeIf(customers, ${inCurrent}) AS current_customers,
+  uniqMergeIf(customers, ${inPrevious}) AS previous_customers,
+  if(sumIf(doc_rows, ${inCurrent}) = 0, 0, current_sales / sumIf(doc_rows, ${inCurrent})) AS current_avg_order,
+  if(sumIf(doc_rows, ${inPrevious}) = 0, 0, previous_sales / sumIf(doc_rows, ${inPrevious})) AS previous_avg_order
+FROM ${summarySource(SALES_DAILY, either(between(current), between(previous, 'previous_')), branchSync)}
+  `);
+}
+
+/**
+ * Gross profit KPI (same columns as getGrossProfitQuery)
+ */
+export function getGrossProfitSummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const previous = getPreviousPeriod(dateRange, 'PreviousPeriod');
+  const inCurrent = between(dateRange)(raw('day'));
+  const inPrevious = between(previous, 'previous_')(raw('day'));
+  return toQuery(sql`
+SELECT
+  sumIf(sum_amount - sum_of_cost, ${inCurrent}) AS current_value,
+  sumIf(sum_amount, ${inCurrent}) AS revenue,
+  sumIf(sum_amount - sum_of_cost, ${inPrevious}) AS previous_value
+FROM ${summarySource(SALES_ITEM_DAILY, either(between(dateRange), between(previous, 'previous_')), branchSync)}
+  `);
+}
+
+/** ยอดคงเหลือต่อกิจการ/คลัง/ชั้นวาง/สินค้า ณ สิ้นวัน asOf (เหมือน stockBalance) */
+function stockBalance(asOf: QueryParam, branchSync?: string[]): SqlFragment {
+  return sql`(
+  SELECT
+    branch_sync,
+    wh_code,
+    shelf_code,
+    item_code,
+    sum(qty) AS balance_qty,
+    sum(value) AS balance_value
+  FROM ${summarySource(STOCK_DAILY, (day) => sql`${day} <= ${asOf}`, branchSync)}
+  GROUP BY branch_sync, wh_code, shelf_code, item_code
+  HAVING balance_qty > 0
+)`;
+}
+
+/**
+ * Inventory value on hand at the end of the range (same column as getInventoryValueQuery)
+ */
+export function getInventoryValueSummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT sum(balance_value) AS current_value
+FROM ${stockBalance(end, branchSync)}
+  `);
+}
+
+/**
+ * Count of items on hand at the end of the range (same column as getTotalItemsQuery)
+ */
+export function getTotalItemsSummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  const { end } = dateParams(dateRange);
+  return toQuery(sql`
+SELECT uniqExact(item_code) AS current_value
+FROM ${stockBalance(end, branchSync)}
+  `);
+}
+
+/** Days on Hand ต่อสินค้า ณ วันสิ้นสุดช่วง */
+function daysOnHand(dateRange: DateRange, branchSync?: string[]): SqlFragment {
+  const { start, end } = dateParams(dateRange);
+  return sql`(
+  SELECT
+    b.item_code AS item_code,
+    total_qty,
+    coalesce(o.total_out, 0) AS out_qty,
+    greatest(1, dateDiff('day', ${start}, ${end})) AS days_period,
+    out_qty / days_period AS avg_daily_out,
+    if(avg_daily_out > 0, total_qty / avg_daily_out, 999999) AS days_on_hand
+  FROM (
+    SELECT item_code, sum(balance_qty) AS total_qty
+    FROM ${stockBalance(end, branchSync)}
+    GROUP BY item_code
+  ) b
+  LEFT JOIN (
+    SELECT item_code, abs(sum(qty_out)) AS total_out
+    FROM ${summarySource(STOCK_DAILY, between(dateRange), branchSync)}
+    GROUP BY item_code
+  ) o ON b.item_code = o.item_code
+)`;
+}
+
+/**
+ * Count of items with Days on Hand <= 7 (same column as getLowStockCountQuery)
+ */
+export function getLowStockCountSummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT count(*) AS current_value
+FROM ${daysOnHand(dateRange, branchSync)}
+WHERE avg_daily_out > 0 AND days_on_hand <= 7
+  `);
+}
+
+/**
+ * Count of items with Days on Hand > 90 (same column as getOverstockCountQuery)
+ */
+export function getOverstockCountSummaryQuery(dateRange: DateRange, branchSync?: string[]): BuiltQuery {
+  return toQuery(sql`
+SELECT count(*) AS current_value
+FROM ${daysOnHand(dateRange, branchSync)}
+WHERE days_on_hand > 90
+  `);
+}
@@ -0,0 +1,176 @@
+// Pre-aggregated summary tables - Pure definitions safe for client-side usage
+//
+// Each summary is a daily aggregate of a raw table, kept up to date by a refreshable
+// materialized view that recomputes every closed day (doc_datetime < today()) on a schedule.
+// A full recompute (instead of an insert-triggered view) keeps the summary correct when CDC
+// replays an update or a document is cancelled after the fact.
+//
+// Queries read a summary up to its last day and aggregate the raw rows after that day with
+// the same SELECT, so results match the raw queries even while a refresh is pending.
+// Created by scripts/migrate-summary-tables.ts.
+
+import { sql, raw, type SqlFragment } from './query-builder';
+
+export interface SummaryTable {
+  /** ตารางสรุป (ปลายทางของ materialized view) */
+  name: string;
+  /** refreshable materialized view ที่เติมข้อมูล */
+  view: string;
+  description: string;
+  /** คอลัมน์ของตาราง (DDL) ต้องตรงกับลำดับและชนิดของ select() */
+  columns: string[];
+  orderBy: string;
+  /** คอลัมน์วันที่เอกสารของตารางดิบใน select() */
+  dateColumn: string;
+  /** คอลัมน์ branch_sync ของตารางดิบใน select() */
+  branchColumn: string;
+  /**
+   * SELECT รวมรายวันจากตารางดิบ
+   * @param where - เงื่อนไขเพิ่มเติม ขึ้นต้นด้วย AND
+   */
+  select: (where: SqlFragment) => SqlFragment;
+}
+
+/** รอบการคำนวณตารางสรุปใหม่ */
+export const SUMMARY_REFRESH_INTERVAL = 'EVERY 10 MINUTE';
+
+/**
+ * ยอดขายรายวันต่อกิจการ (หัวเอกสารขาย ไม่รวมเอกสารยกเลิก)
+ * orders / customers เก็บเป็น state เพื่อนับไม่ซ้ำข้ามวันและข้ามกิจการได้ตรงกับ count(DISTINCT)
+ */
+export const SALES_DAILY: SummaryTable = {
+  name: 'sales_daily_summary',
+  view: 'sales_daily_summary_mv',
+  description: 'ยอดขายรายวันต่อกิจการ',
+  columns: [
+    'day Date',
+    'branch_sync String',
+    'sales Float64',
+    'doc_rows UInt64',
+    'orders AggregateFunction(uniqExact, String)',
+    'customers AggregateFunction(uniq, String)',
+  ],
+  orderBy: 'branch_sync, day',
+  dateColumn: 'doc_datetime',
+  branchColumn: 'branch_sync',
+  select: (where) => sql`
+SELECT
+  toDate(doc_datetime) AS day,
+  branch_sync,
+  toFloat64(sum(total_amount)) AS sales,
+  count() AS doc_rows,
+  uniqExactState(toString(doc_no)) AS orders,
+  uniqState(toString(customer_code)) AS customers
+FROM saleinvoice_transaction
+WHERE status_cancel != 'Cancel'
+  ${where}
+GROUP BY day, branch_sync`,
+};
+
+/**
+ * ยอดขายรายวันต่อกิจการ/สินค้า/ลูกค้า (รายละเอียดเอกสารขาย ใช้วันที่และสถานะยกเลิกจากหัวเอกสาร)
+ */
+export const SALES_ITEM_DAILY: SummaryTable = {
+  name: 'sales_item_daily_summary',
+  view: 'sales_item_daily_summary_mv',
+  description: 'ยอดขายรายวันต่อกิจการ สินค้า และลูกค้า',
+  columns: [
+    'day Date',
+    'branch_sync String',
+    'item_code String',
+    'customer_code String',
+    'qty Float64',
+    'sum_amount Float64',
+    'sum_of_cost Float64',
+  ],
+  orderBy: 'branch_sync, day, item_code, customer_code',
+  dateColumn: 'si.doc_datetime',
+  branchColumn: 'si.branch_sync',
+  select: (where) => sql`
+SELECT
+  toDate(si.doc_datetime) AS day,
+  si.branch_sync AS branch_sync,
+  sid.item_code AS item_code,
+  si.customer_code AS customer_code,
+  toFloat64(sum(sid.qty)) AS qty,
+  toFloat64(sum(sid.sum_amount)) AS sum_amount,
+  toFloat64(sum(sid.sum_of_cost)) AS sum_of_cost
+FROM saleinvoice_transaction_detail sid
+JOIN saleinvoice_transaction si ON sid.doc_no = si.doc_no AND sid.branch_sync = si.branch_sync
+WHERE si.status_cancel != 'Cancel'
+  ${where}
+GROUP BY day, branch_sync, item_code, customer_code`,
+};
+
+/**
+ * การเคลื่อนไหวสต็อกรายวันต่อกิจการ/คลัง/ชั้นวาง/สินค้า
+ * รวมทุกวันจนถึงวันใดก็ได้ยอดคงเหลือ ณ วันนั้น (เหมือน stockBalance ใน inventory-balance-queries.ts)
+ */
+export const STOCK_DAILY: SummaryTable = {
+  name: 'stock_daily_summary',
+  view: 'stock_daily_summary_mv',
+  description: 'การเคลื่อนไหวสต็อกรายวันต่อกิจการ คลัง ชั้นวาง และสินค้า',
+  columns: [
+    'day Date',
+    'branch_sync String',
+    'wh_code String',
+    'shelf_code String',
+    'item_code String',
+    'qty Float64',
+    'value Float64',
+    'qty_out Float64',
+  ],
+  orderBy: 'branch_sync, day, wh_code, shelf_code, item_code',
+  dateColumn: 'st.doc_datetime',
+  branchColumn: 'st.branch_sync',
+  select: (where) => sql`
+SELECT
+  toDate(st.doc_datetime) AS day,
+  st.branch_sync AS branch_sync,
+  st.wh_code AS wh_code,
+  st.shelf_code AS shelf_code,
+  st.item_code AS item_code,
+  toFloat64(sum(st.qty)) AS qty,
+  toFloat64(sum(st.qty * st.cost)) AS value,
+  toFloat64(sumIf(st.qty, st.qty < 0)) AS qty_out
+FROM stock_transaction st
+WHERE 1 = 1
+  ${where}
+GROUP BY day, branch_sync, wh_code, shelf_code, item_code`,
+};
+
+export const SUMMARY_TABLES: SummaryTable[] = [SALES_DAILY, SALES_ITEM_DAILY, STOCK_DAILY];
+
+/**
+ * DDL ของตารางสรุปและ refreshable materialized view (ต้องการ ClickHouse 24.10 ขึ้นไป)
+ * ตารางสรุปสร้างก่อน view เสมอ view จะคำนวณครั้งแรกทันทีที่สร้าง
+ */
+export function getSummaryTableDDL(table: SummaryTable): string[] {
+  const closedDays = sql`AND ${raw(table.dateColumn)} < toDateTime(today())`;
+  return [
+    `CREATE TABLE IF NOT EXISTS ${table.name}
+(
+  ${table.columns.join(',\n  ')}
+)
+ENGINE = MergeTree
+ORDER BY (${table.orderBy})
+COMMENT '${table.description}'`,
+    `CREATE MATERIALIZED VIEW IF NOT EXISTS ${table.view}
+REFRESH ${SUMMARY_REFRESH_INTERVAL}
+TO ${table.name}
+AS ${table.select(closedDays).sql.trim()}`,
+  ];
+}
+
+/** ชื่อและชนิดของคอลัมน์ตาม DDL ใช้ตรวจว่าตารางที่มีอยู่สร้างจากโครงสร้างปัจจุบันหรือไม่ */
+export function getSummaryTableColumns(table: SummaryTable): { name: string; type: string }[] {
+  return table.columns.map((column) => {
+    const [name, ...type] = column.split(' ');
+    return { name, type: type.join(' ') };
+  });
+}
+
+/** คำสั่งลบตารางสรุปและ view (ใช้กับ --drop และเมื่อโครงสร้างตารางเดิมไม่ตรง) */
+export function getSummaryTableDropDDL(table: SummaryTable): string[] {
+  return [`DROP VIEW IF EXISTS ${table.view}`, `DROP TABLE IF EXISTS ${table.name}`];
+}
@@ -1,5 +1,7 @@
 // TypeScript Types and Interfaces for MIS Dashboard
 
+import type { KPIBudget } from '../budgets/types';
+
 // ============================================
 // Common Types
 // ============================================
@@ -15,6 +17,8 @@ export interface KPIData {
   growth?: number;
   growthPercentage?: number;
   trend?: 'up' | 'down' | 'neutral';
+  /** งบประมาณของช่วงเดียวกัน (มีเมื่อตั้งงบประมาณไว้) */
+  budget?: KPIBudget;
 }
 
 export interface ChartDataPoint {
@@ -48,13 +52,85 @@ export interface BalanceSheetItem {
   typeName: string;
   accountCode: string;
   accountName: string;
+  /** ยอดต้นปีบัญชี */
+  opening: number;
+  /** ยอด ณ วันที่ของงบ */
   balance: number;
 }
 
+/**
+ * สมการงบดุล: สินทรัพย์ = หนี้สิน + ส่วนของผู้ถือหุ้น + กำไรที่ยังไม่ปิดบัญชี
+ */
+export interface BalanceSheetCheck {
+  assets: number;
+  liabilities: number;
+  equity: number;
+  /** กำไรสุทธิของปีบัญชีปัจจุบันจนถึงวันที่ของงบ */
+  currentYearEarnings: number;
+  /** กำไรปีก่อน ๆ ที่ยังไม่ได้ปิดเข้าส่วนของผู้ถือหุ้น */
+  unclosedEarnings: number;
+  /** สินทรัพย์ - (หนี้สิน + ส่วนของผู้ถือหุ้น + กำไร) */
+  difference: number;
+  balanced: boolean;
+}
+
+export interface BalanceSheetData {
+  asOfDate: string;
+  items: BalanceSheetItem[];
+  check: BalanceSheetCheck;
+}
+
+/**
+ * บรรทัดงบทดลอง ยอดเป็น debit - credit (ติดลบ = ยอดเครดิต)
+ */
+export interface TrialBalanceItem {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  opening: number;
+  debit: number;
+  credit: number;
+  closing: number;
+}
+
+export interface GeneralLedgerLine {
+  docDate: string;
+  docNo: string;
+  bookCode: string;
+  bookName: string;
+  accountYear: string;
+  periodNumber: string;
+  branchName: string;
+  debit: number;
+  credit: number;
+  /** ยอดคงเหลือสะสมหลังรายการนี้ (debit - credit) */
+  balance: number;
+}
+
+/**
+ * บัญชีแยกประเภทของหนึ่งบัญชีในช่วงวันที่ (แบ่งหน้าที่ server)
+ */
+export interface GeneralLedger {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  opening: number;
+  totalDebit: number;
+  totalCredit: number;
+  closing: number;
+  lines: GeneralLedgerLine[];
+  /** จำนวนรายการทั้งหมดในช่วง */
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 export interface CashFlowData {
   activityType: 'Operating' | 'Investing' | 'Financing';
-  revenue: number;
-  expenses: number;
+  /** ผลรวมบรรทัดที่เพิ่มเงินสด */
+  inflow: number;
+  /** ผลรวมบรรทัดที่ลดเงินสด (ค่าบวก) */
+  outflow: number;
   netCashFlow: number;
 }
 
@@ -173,6 +249,11 @@ export interface TopCustomer {
   daysSinceLastOrder: number;
 }
 
+export interface OverdueARSummary {
+  invoiceCount: number;
+  outstanding: number;
+}
+
 export interface ARStatus {
   statusPayment: string;
   invoiceCount: number;
@@ -150,6 +150,13 @@ export const DATE_RANGES = {
 
 export type DateRangeKey = keyof typeof DATE_RANGES;
 
+/** Presets that are recalculated on every use (for saved schedules and alert rules) */
+export type RelativeDateRangeKey = Exclude<DateRangeKey, 'CUSTOM'>;
+
+export const RELATIVE_DATE_RANGE_KEYS = (Object.keys(DATE_RANGES) as DateRangeKey[]).filter(
+  (key): key is RelativeDateRangeKey => key !== 'CUSTOM'
+);
+
 /**
  * Get DateRange by key
  */
@@ -28,6 +28,7 @@ export const ErrorTypes = {
   UNAUTHORIZED: (message: string = 'Unauthorized') => new APIError(message, 401),
   FORBIDDEN: (message: string = 'Forbidden') => new APIError(message, 403),
   NOT_FOUND: (message: string) => new APIError(message, 404),
+  CONFLICT: (message: string) => new APIError(message, 409),
   INTERNAL_SERVER: (message: string = 'Internal Server Error') => new APIError(message, 500),
   DATABASE_ERROR: (message: string = 'Database Error') => new APIError(message, 500),
 } as const;
@@ -63,6 +64,13 @@ export function formatErrorResponse(error: unknown) {
   };
 }
 
+/**
+ * HTTP status for an error: the APIError status code, otherwise 500
+ */
+export function getErrorStatus(error: unknown): number {
+  return isAPIError(error) ? error.statusCode : 500;
+}
+
 /**
  * Logs error with context
  */
@@ -1,4 +1,5 @@
-'use client';
+// Excel exports: downloaded from report pages in the browser; buildStyledReportWorkbook()
+// is also used on the server for scheduled e-mail delivery (lib/reports/render)
 
 import ExcelJS from 'exceljs';
 import FileSaver from 'file-saver';
@@ -23,6 +24,33 @@ export interface ExcelSummaryConfig {
   columns: SummaryColumnConfig;  // Which columns to summarize and how
 }
 
+/**
+ * Explicit style of a statement row (section header, subtotal, grand total).
+ * Without it the PDF export guesses P&L rows from their labels.
+ */
+export type ReportRowStyle = 'section' | 'subtotal' | 'total';
+
+/**
+ * Branch details printed in report headers (from the branch registry)
+ */
+export interface ReportBranchInfo {
+  name: string;
+  taxId?: string;
+  address?: string;
+}
+
+/**
+ * Header lines for a single branch: name, tax ID and address when registered
+ */
+export function formatReportBranchLines(branch?: ReportBranchInfo): string[] {
+  if (!branch) return [];
+  return [
+    `ชื่อสถานประกอบการ : ${branch.name}`,
+    branch.taxId ? `เลขประจำตัวผู้เสียภาษี : ${branch.taxId}` : '',
+    branch.address ? `ที่อยู่ : ${branch.address}` : '',
+  ].filter(Boolean);
+}
+
 /**
  * Export data to Excel file with styling using ExcelJS
  * @param data - Array of objects to export
@@ -241,6 +269,11 @@ export async function exportMultipleSheetsToExcel(
 /**
  * Calculate summary value based on type
  */
+/** Cell of a report row by column key (rows are typed per report) */
+function cellOf(row: object, key: string): unknown {
+  return (row as Record<string, unknown>)[key];
+}
+
 function calculateSummary<T extends Record<string, any>>(
   data: T[],
   key: string,
@@ -314,41 +347,44 @@ function formatThaiDateInText(text: string): string {
   });
 }
 
+export interface StyledReportOptions<T extends object> {
+  data: T[];
+  headers: Record<string, string>;
+  filename: string;
+  sheetName?: string;
+  title?: string;
+  subtitle?: string;
+  numberColumns?: string[]; // Column keys that should be formatted as numbers
+  currencyColumns?: string[]; // Column keys that should be formatted as currency
+  percentColumns?: string[]; // Column keys that should be formatted as perce
+  summaryConfig?: ExcelSummaryConfig;  // Summary row configuration
+  branch?: ReportBranchInfo; // Single selected branch: adds name/tax ID/address lines
+  rowStyle?: (row: T, index: number) => ReportRowStyle | undefined; // Bold section/subtotal/total rows
+}
+
 /**
- * Export styled report with title, date, and summary
+ * Build the styled report workbook with title, date, and summary (null when there is no data)
  * @param options - Report options
  */
-export async function exportStyledReport<T extends Record<string, any>>(
-  options: {
-    data: T[];
-    headers: Record<string, string>;
-    filename: string;
-    sheetName?: string;
-    title?: string;
-    subtitle?: string;
-    numberColumns?: string[]; // Column keys that should be formatted as numbers
-    currencyColumns?: string[]; // Column keys that should be formatted as currency
-    percentColumns?: string[]; // Column keys that should be formatted as perce
-    summaryConfig?: ExcelSummaryConfig;  // Summary row configuration
-
-  }
-): Promise<void> {
+export function buildStyledReportWorkbook<T extends object>(
+  options: StyledReportOptions<T>
+): ExcelJS.Workbook | null {
   const {
     data,
     headers,
-    filename,
     sheetName = 'Report',
     title,
     subtitle,
     numberColumns = [],
     currencyColumns = [],
     percentColumns = [],
-    summaryConfig
+    summaryConfig,
+    branch,
+    rowStyle
   } = options;
 
   if (!data || data.length === 0) {
-    console.warn('No data to export');
-    return;
+    return null;
   }
 
   const workbook = new ExcelJS.Workbook();
@@ -383,8 +419,19 @@ export async function exportStyledReport<T extends Record<string, any>>(
     currentRow++;
   }
 
+  // Add branch details (name, tax ID, address) if provided
+  const branchLines = formatReportBranchLines(branch);
+  branchLines.forEach((line) => {
+    worksheet.mergeCells(currentRow, 1, currentRow, colCount);
+    const branchCell = worksheet.getCell(currentRow, 1);
+    branchCell.value = line;
+    branchCell.font = { size: 10, color: { argb: 'FF333333' } };
+    branchCell.alignment = { horizontal: 'left', vertical: 'middle' };
+    currentRow++;
+  });
+
   // Add empty row before data
-  if (title || subtitle) {
+  if (title || subtitle || branchLines.length > 0) {
     currentRow++;
   }
 
@@ -414,24 +461,35 @@ export async function exportStyledReport<T extends Record<string, any>>(
   data.forEach((row, rowIndex) => {
     headerKeys.forEach((key, colIndex) => {
       const cell = worksheet.getCell(currentRow, colIndex + 1);
-      let value = row[key];
+      let value = cellOf(row, key);
 
       // Apply number formatting
       if (currencyColumns.includes(key)) {
-        cell.value = typeof value === 'number' ? value : parseFloat(value) || 0;
+        // Blank stays blank (e.g. section header rows), anything else is a number
+        cell.value = value === null || value === undefined || value === '' ? null : typeof value === 'number' ? value : parseFloat(String(value)) || 0;
         cell.numFmt = '#,##0.00';
       } else if (percentColumns.includes(key)) {
-        cell.value = typeof value === 'number' ? value / 100 : (parseFloat(value) || 0) / 100;
+        cell.value = value === null || value === undefined || value === '' ? null : typeof value === 'number' ? value / 100 : (parseFloat(String(value)) || 0) / 100;
         cell.numFmt = '0.00%';
       } else if (numberColumns.includes(key)) {
-        cell.value = typeof value === 'number' ? value : parseFloat(value) || 0;
+        cell.value = value === null || value === undefined || value === '' ? null : typeof value === 'number' ? value : parseFloat(String(value)) || 0;
         cell.numFmt = '#,##0';
       } else {
-        cell.value = value;
+        cell.value = value as ExcelJS.CellValue;
       }
 
-      // Alternate row colors
-      if (rowIndex % 2 === 0) {
+      // Statement rows: bold headers/subtotals, shaded grand totals
+      const style = rowStyle?.(row, rowIndex);
+      if (style) {
+        cell.font = { bold: true, color: { argb: style === 'section' ? 'FF1F4E79' : 'FF000000' } };
+      }
+      if (style === 'total') {
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFDDEBF7' },
+        };
+      } else if (rowIndex % 2 === 0) {
         cell.fill = {
           type: 'pattern',
           pattern: 'solid',
@@ -520,7 +578,7 @@ export async function exportStyledReport<T extends Record<string, any>>(
     
     data.forEach((row) => {
       const key = headerKeys[index];
-      const value = row[key];
+      const value = cellOf(row, key);
       const length = value ? String(value).length : 0;
       maxLength = Math.max(maxLength, length);
     });
@@ -528,9 +586,25 @@ export async function exportStyledReport<T extends Record<string, any>>(
     column.width = Math.min(maxLength + 4, 50);
   });
 
+  return workbook;
+}
+
+/**
+ * Export styled report with title, date, and summary
+ * @param options - Report options
+ */
+export async function exportStyledReport<T extends object>(
+  options: StyledReportOptions<T>
+): Promise<void> {
+  const workbook = buildStyledReportWorkbook(options);
+  if (!workbook) {
+    console.warn('No data to export');
+    return;
+  }
+
   const buffer = await workbook.xlsx.writeBuffer();
   const blob = new Blob([buffer], { 
     type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
   });
-  saveAs(blob, `${filename}.xlsx`);
+  saveAs(blob, `${options.filename}.xlsx`);
 }
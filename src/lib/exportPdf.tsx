@@ -1,17 +1,28 @@
-'use client';
+// Styled PDF reports: downloaded from report pages in the browser and
+// rendered on the server for scheduled e-mail delivery (lib/reports/render)
 
-import { Document, Font, Page, StyleSheet, Text, View, pdf } from '@react-pdf/renderer';
+import type { ReactElement } from 'react';
+import { Document, Font, Page, StyleSheet, Text, View, pdf, type DocumentProps } from '@react-pdf/renderer';
 import FileSaver from 'file-saver';
-import type { ExcelSummaryConfig, SummaryType } from '@/lib/exportExcel';
+import {
+  formatReportBranchLines,
+  type ExcelSummaryConfig,
+  type ReportBranchInfo,
+  type ReportRowStyle,
+  type SummaryType,
+} from '@/lib/exportExcel';
 
 const { saveAs } = FileSaver;
 
-// Register Sarabun Thai font served from public/fonts/ (avoids CDN CORS / signed-URL issues)
+// Register Sarabun Thai font served from public/fonts/ (avoids CDN CORS / signed-URL issues).
+// On the server the same files are read from disk.
+const FONT_DIR = typeof window === 'undefined' ? `${process.cwd()}/public/fonts` : '/fonts';
+
 Font.register({
   family: 'Sarabun',
   fonts: [
-    { src: '/fonts/Sarabun-Regular.ttf', fontWeight: 'normal' },
-    { src: '/fonts/Sarabun-Bold.ttf', fontWeight: 'bold' },
+    { src: `${FONT_DIR}/Sarabun-Regular.ttf`, fontWeight: 'normal' },
+    { src: `${FONT_DIR}/Sarabun-Bold.ttf`, fontWeight: 'bold' },
   ],
 });
 
@@ -230,6 +241,11 @@ const styles = StyleSheet.create({
   },
 });
 
+/** Cell of a report row by column key (rows are typed per report) */
+function cellOf(row: object, key: string): unknown {
+  return (row as Record<string, unknown>)[key];
+}
+
 function calculateSummary<T extends Record<string, any>>(
   data: T[],
   key: string,
@@ -424,7 +440,7 @@ function localizeDateRangeText(text: string): string {
   return text.replace(/\b\d{4}-\d{2}-\d{2}\b/g, (dateStr) => formatThaiDate(dateStr));
 }
 
-export async function exportStyledPdfReport<T extends Record<string, any>>(options: {
+export interface StyledPdfReportOptions<T extends object> {
   data: T[];
   headers: Record<string, string>;
   filename: string;
@@ -434,7 +450,18 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
   currencyColumns?: string[];
   percentColumns?: string[];
   summaryConfig?: ExcelSummaryConfig;
-}): Promise<void> {
+  /** Single selected branch from the registry: name, tax ID and address in the header */
+  branch?: ReportBranchInfo;
+  /** Explicit row styles (statement layouts); replaces the P&L label heuristics below */
+  rowStyle?: (row: T, index: number) => ReportRowStyle | undefined;
+}
+
+/**
+ * Build the report document (null when there is no data)
+ */
+export function buildStyledPdfDocument<T extends object>(
+  options: StyledPdfReportOptions<T>
+): ReactElement<DocumentProps> | null {
   const {
     data,
     headers,
@@ -445,18 +472,21 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
     currencyColumns = [],
     percentColumns = [],
     summaryConfig,
+    branch,
+    rowStyle: getRowStyle,
   } = options;
 
   if (!data || data.length === 0) {
-    console.warn('No data to export');
-    return;
+    return null;
   }
 
   const headerKeys = Object.keys(headers);
   const headerValues = Object.values(headers);
   const colWidths = computeColumnWidths(headerKeys, headerValues, data, numberColumns, currencyColumns, percentColumns);
   const generatedAt = thaiDatetime();
-  const companyName = extractCompanyName(subtitle);
+  const branchLines = branch
+    ? formatReportBranchLines(branch)
+    : [`ชื่อสถานประกอบการ : ${extractCompanyName(subtitle)}`];
   const cleanSubtitle = localizeDateRangeText(stripCompanyFromSubtitle(subtitle));
 
   const isNumberColumn = (key: string) =>
@@ -466,8 +496,8 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
   const isSectionHeader = (row: T): boolean => {
     const firstKey = headerKeys[0]; // accountCode
     const secondKey = headerKeys[1]; // accountName
-    const codeValue = row[firstKey];
-    const nameValue = row[secondKey];
+    const codeValue = cellOf(row, firstKey);
+    const nameValue = cellOf(row, secondKey);
     
     // Section headers have no code and name starts with ──
     if (!codeValue || codeValue === '') {
@@ -480,8 +510,8 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
   const isSummaryRow = (row: T): boolean => {
     const firstKey = headerKeys[0]; // accountCode
     const secondKey = headerKeys[1]; // accountName
-    const codeValue = row[firstKey];
-    const nameValue = row[secondKey];
+    const codeValue = cellOf(row, firstKey);
+    const nameValue = cellOf(row, secondKey);
     
     // Summary rows have no code but name starts with รวม or กำไร
     if (!codeValue || codeValue === '') {
@@ -493,7 +523,7 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
 
   const isAccountRow = (row: T): boolean => {
     const firstKey = headerKeys[0]; // accountCode
-    const codeValue = row[firstKey];
+    const codeValue = cellOf(row, firstKey);
     
     // Account rows have a code
     return !!codeValue && codeValue !== '';
@@ -502,7 +532,7 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
   // Helper to detect blank rows
   const isBlankRow = (row: T): boolean => {
     return headerKeys.every(key => {
-      const val = row[key];
+      const val = cellOf(row, key);
       return val === null || val === undefined || val === '' || val === 0;
     });
   };
@@ -536,11 +566,11 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
 
         <View style={styles.metaRow} fixed>
           <View style={styles.metaBlockLeft}>
-            <View style={{ width: '100%', paddingRight: 5 }}>
-              <Text style={styles.metaTextBold}>
-                ชื่อสถานประกอบการ : {companyName}
-              </Text>
-            </View>
+            {branchLines.map((line, index) => (
+              <View key={`branch-${index}`} style={{ width: '100%', paddingRight: 5 }}>
+                <Text style={index === 0 ? styles.metaTextBold : styles.metaText}>{line}</Text>
+              </View>
+            ))}
             <View style={{ width: '100%', paddingRight: 5 }}>
               <Text style={styles.metaText}>วันที่พิมพ์ : {generatedAt}</Text>
             </View>
@@ -570,8 +600,9 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
             }
 
             // Determine row type
-            const isSectionHdr = isSectionHeader(row);
-            const isSummary = isSummaryRow(row);
+            const style = getRowStyle?.(row, rowIndex);
+            const isSectionHdr = getRowStyle ? style === 'section' : isSectionHeader(row);
+            const isSummary = getRowStyle ? style === 'subtotal' || style === 'total' : isSummaryRow(row);
             const isAccount = isAccountRow(row);
 
             // Select appropriate styles
@@ -587,7 +618,7 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
               >
                 {headerKeys.map((key, colIndex) => {
                   const align = isNumberColumn(key) ? 'right' : 'left';
-                  const cellValue = formatCellValue(row[key], key, numberColumns, currencyColumns, percentColumns);
+                  const cellValue = formatCellValue(cellOf(row, key), key, numberColumns, currencyColumns, percentColumns);
                   
                   // Determine cell style and text style
                   let cellStyle = styles.cell;
@@ -670,6 +701,18 @@ export async function exportStyledPdfReport<T extends Record<string, any>>(optio
     </Document>
   );
 
+  return doc;
+}
+
+export async function exportStyledPdfReport<T extends object>(
+  options: StyledPdfReportOptions<T>
+): Promise<void> {
+  const doc = buildStyledPdfDocument(options);
+  if (!doc) {
+    console.warn('No data to export');
+    return;
+  }
+
   const blob = await pdf(doc).toBlob();
-  saveAs(blob, `${filename}.pdf`);
+  saveAs(blob, `${options.filename}.pdf`);
 }
@@ -26,6 +26,14 @@ export const formatNumber = (value: number | undefined | null): string => {
     });
 };
 
+/**
+ * Format a debit - credit balance with its side, e.g. "1,000.00 Dr" / "250.00 Cr"
+ */
+export const formatDebitCredit = (value: number | undefined | null): string => {
+    if (value === undefined || value === null || isNaN(value) || value === 0) return '0.00';
+    return `${formatCurrency(Math.abs(value))} ${value > 0 ? 'Dr' : 'Cr'}`;
+};
+
 /**
  * Format integer (count/whole numbers only - no decimals)
  * Use for: orderCount, customerCount, itemCount, docCount, etc.
@@ -0,0 +1,141 @@
+/**
+ * Inventory Aging
+ * อายุสต็อกคงเหลือนับจากวันที่รับเข้า โดยใช้ชั้นต้นทุน FIFO ที่ยังเหลือ ณ วันที่ของรายงาน
+ * (ของที่จ่ายออกไปแล้วถือว่าออกจากชั้นที่เก่าที่สุดก่อน) รวมมูลค่าเป็นช่วงอายุต่อคลัง หมวดสินค้า และแบรนด์
+ */
+
+import {
+  AGING_BUCKETS,
+  AGING_DIMENSIONS,
+  type AgingDimension,
+  type InventoryAging,
+  type InventoryAgingRow,
+} from './types';
+
+const DAY_MS = 86_400_000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** ชั้นต้นทุนที่ยังเหลือของสินค้าในคลัง */
+export interface AgingLayer {
+  ageDays: number;
+  qty: number;
+  value: number;
+}
+
+export interface AgingItem {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  categoryName: string;
+  brandName: string;
+  layers: AgingLayer[];
+}
+
+/**
+ * จำนวนวันจากวันที่ (YYYY-MM-DD หรือวันเวลา) ถึง asOf ไม่ติดลบ
+ */
+export function ageInDays(asOf: string, date: string): number {
+  return Math.max(0, Math.floor((Date.parse(asOf) - Date.parse(date.slice(0, 10))) / DAY_MS));
+}
+
+/** ลำดับช่วงอายุใน AGING_BUCKETS */
+export function agingBucketIndex(ageDays: number): number {
+  const index = AGING_BUCKETS.findIndex((bucket) => ageDays <= bucket.maxDays);
+  return index === -1 ? AGING_BUCKETS.length - 1 : index;
+}
+
+function emptyRow(key: string, label: string, branchSync = ''): InventoryAgingRow {
+  return {
+    key,
+    label,
+    branchSync,
+    itemCount: 0,
+    qtyOnHand: 0,
+    value: 0,
+    buckets: AGING_BUCKETS.map(() => ({ qty: 0, value: 0 })),
+  };
+}
+
+function addItem(row: InventoryAgingRow, layers: AgingLayer[]) {
+  row.itemCount += 1;
+  for (const layer of layers) {
+    const bucket = row.buckets[agingBucketIndex(layer.ageDays)];
+    bucket.qty += layer.qty;
+    bucket.value += layer.value;
+    row.qtyOnHand += layer.qty;
+    row.value += layer.value;
+  }
+}
+
+function roundRow(row: InventoryAgingRow): InventoryAgingRow {
+  return {
+    ...row,
+    qtyOnHand: round2(row.qtyOnHand),
+    value: round2(row.value),
+    buckets: row.buckets.map((bucket) => ({ qty: round2(bucket.qty), value: round2(bucket.value) })),
+  };
+}
+
+/** กลุ่มของสินค้าในแต่ละมิติ */
+function groupOf(item: AgingItem, dimension: AgingDimension): { key: string; label: string; branchSync?: string } {
+  switch (dimension) {
+    case 'warehouse':
+      return { key: `${item.branchSync}|${item.whCode}`, label: item.whName || item.whCode, branchSync: item.branchSync };
+    case 'category':
+      return { key: item.categoryName, label: item.categoryName || 'ไม่ระบุหมวด' };
+    case 'brand':
+      return { key: item.brandName, label: item.brandName || 'ไม่ระบุแบรนด์' };
+  }
+}
+
+/**
+ * รวมอายุสต็อกทั้งหมดและต่อคลัง/หมวดสินค้า/แบรนด์ เรียงตามมูลค่ามากก่อน
+ * สินค้าที่ไม่มีชั้นต้นทุนเหลือ (หมดหรือติดลบ) ไม่ถูกนับ
+ */
+export function buildInventoryAging(asOf: string, items: AgingItem[]): InventoryAging {
+  const total = emptyRow('total', 'รวม');
+  const groups = new Map(AGING_DIMENSIONS.map(({ key }) => [key, new Map<string, InventoryAgingRow>()]));
+
+  for (const item of items) {
+    if (item.layers.length === 0) continue;
+    addItem(total, item.layers);
+    for (const [dimension, rows] of groups) {
+      const group = groupOf(item, dimension);
+      let row = rows.get(group.key);
+      if (!row) {
+        row = emptyRow(group.key, group.label, group.branchSync);
+        rows.set(group.key, row);
+      }
+      addItem(row, item.layers);
+    }
+  }
+
+  const sortedRows = (dimension: AgingDimension) =>
+    [...(groups.get(dimension)?.values() ?? [])].map(roundRow).sort((a, b) => b.value - a.value);
+
+  return {
+    asOf,
+    total: roundRow(total),
+    groups: {
+      warehouse: sortedRows('warehouse'),
+      category: sortedRows('category'),
+      brand: sortedRows('brand'),
+    },
+  };
+}
+
+/** ฟิลด์มูลค่าของแต่ละช่วงอายุในแถวตาราง (bucket0 = 0–30 วัน ...) */
+export const AGING_BUCKET_FIELDS = AGING_BUCKETS.map((_, index) => `bucket${index}` as const);
+
+export type AgingTableRow = Omit<InventoryAgingRow, 'buckets'> & Record<`bucket${number}`, number>;
+
+/**
+ * แถวสำหรับตารางและส่งออก: มูลค่าของแต่ละช่วงแยกเป็นฟิลด์ เพื่อให้เรียงลำดับและรวมยอดได้
+ */
+export function agingTableRows(rows: InventoryAgingRow[]): AgingTableRow[] {
+  return rows.map(({ buckets, ...row }) => ({
+    ...row,
+    ...Object.fromEntries(buckets.map((bucket, index) => [AGING_BUCKET_FIELDS[index], bucket.value])),
+  }));
+}
@@ -0,0 +1,180 @@
+/**
+ * ABC/XYZ Classification
+ * จัดกลุ่มสินค้าตามสัดส่วนยอดขาย/กำไรขั้นต้น (ABC) และความแปรผันของยอดจ่ายรายสัปดาห์ (XYZ)
+ * แล้วใช้กลุ่มที่ได้กรองรายงานสินค้าอื่น (filterByClass) และส่งออกเป็นตาราง
+ *
+ * ABC: เรียงตามเกณฑ์จากมากไปน้อย สินค้าที่สัดส่วนสะสม "ก่อนหน้า" ยังไม่ถึงเพดานของกลุ่มจะอยู่ในกลุ่มนั้น
+ * (สินค้าที่ทำให้สะสมเกิน 80% ยังเป็น A) สินค้าที่เกณฑ์เป็น 0 หรือติดลบอยู่ C เสมอ
+ * XYZ: CV = ส่วนเบี่ยงเบนมาตรฐาน / ค่าเฉลี่ยของยอดจ่ายรายสัปดาห์ สัปดาห์ที่ไม่มียอดจ่ายนับเป็น 0
+ */
+
+import {
+  ABC_CLASSES,
+  CLASSIFICATION_METRICS,
+  XYZ_CLASSES,
+  type AbcClass,
+  type ClassFilter,
+  type ClassificationCell,
+  type ClassificationMetric,
+  type InventoryClassification,
+  type ItemClassification,
+  type ItemSalesDemand,
+  type XyzClass,
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/** จำนวนสัปดาห์ (จันทร์-อาทิตย์) ที่ช่วงวันที่ครอบคลุม ตรงกับ toMonday() ของ ClickHouse */
+export function weeksInRange(startDate: string, endDate: string): number {
+  const monday = (date: string) => {
+    const time = Date.parse(`${date}T00:00:00Z`);
+    return time - ((new Date(time).getUTCDay() + 6) % 7) * DAY_MS;
+  };
+  const weeks = Math.round((monday(endDate) - monday(startDate)) / (7 * DAY_MS)) + 1;
+  return Number.isFinite(weeks) ? Math.max(1, weeks) : 1;
+}
+
+function abcClassOf(shareBefore: number): AbcClass {
+  return (ABC_CLASSES.find((c) => shareBefore < c.maxCumulativeShare) ?? ABC_CLASSES[ABC_CLASSES.length - 1]).key;
+}
+
+function xyzClassOf(cv: number | null): XyzClass {
+  if (cv === null) return 'Z';
+  return (XYZ_CLASSES.find((c) => cv <= c.maxCv) ?? XYZ_CLASSES[XYZ_CLASSES.length - 1]).key;
+}
+
+/**
+ * ค่าเฉลี่ยและ CV ของยอดจ่ายรายสัปดาห์ (CV เป็น null เมื่อไม่มียอดจ่าย)
+ */
+export function weeklyDemandStats(demand: Pick<ItemSalesDemand, 'totalOut' | 'totalOutSquared'>, weeks: number) {
+  const n = Math.max(1, weeks);
+  const mean = demand.totalOut / n;
+  if (mean <= 0) return { mean: 0, cv: null };
+  const variance = Math.max(0, demand.totalOutSquared / n - mean * mean);
+  return { mean, cv: Math.sqrt(variance) / mean };
+}
+
+/**
+ * จัดกลุ่ม ABC/XYZ ของสินค้าทั้งหมด พร้อมตาราง 3×3
+ */
+export function classifyItems(
+  rows: ItemSalesDemand[],
+  metric: ClassificationMetric,
+  startDate: string,
+  endDate: string
+): InventoryClassification {
+  const field = (CLASSIFICATION_METRICS.find((m) => m.key === metric) ?? CLASSIFICATION_METRICS[0]).field;
+  const weeks = weeksInRange(startDate, endDate);
+  const sorted = [...rows].sort((a, b) => b[field] - a[field] || a.itemCode.localeCompare(b.itemCode));
+  const total = sorted.reduce((sum, row) => sum + Math.max(0, row[field]), 0);
+
+  let cumulative = 0;
+  const items: ItemClassification[] = sorted.map((row) => {
+    const value = row[field];
+    const share = total > 0 ? value / total : 0;
+    const abcClass = value > 0 ? abcClassOf(cumulative) : 'C';
+    if (value > 0) cumulative += share;
+    const { mean, cv } = weeklyDemandStats(row, weeks);
+
+    return {
+      itemCode: row.itemCode,
+      itemName: row.itemName,
+      categoryName: row.categoryName,
+      salesValue: round2(row.salesValue),
+      grossProfit: round2(row.grossProfit),
+      share: round4(share),
+      cumulativeShare: round4(Math.min(1, cumulative)),
+      abcClass,
+      totalOut: round2(row.totalOut),
+      avgWeeklyDemand: round2(mean),
+      demandCv: cv === null ? null : round2(cv),
+      xyzClass: xyzClassOf(cv),
+    };
+  });
+
+  const matrix: ClassificationCell[] = ABC_CLASSES.flatMap(({ key: abcClass }) =>
+    XYZ_CLASSES.map(({ key: xyzClass }) => {
+      const cellItems = items.filter((item) => item.abcClass === abcClass && item.xyzClass === xyzClass);
+      return {
+        abcClass,
+        xyzClass,
+        itemCount: cellItems.length,
+        value: round2(cellItems.reduce((sum, item) => sum + item[field], 0)),
+      };
+    })
+  );
+
+  return { metric, startDate, endDate, weeks, items, matrix };
+}
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+export const EMPTY_CLASS_FILTER: ClassFilter = { abcClass: null, xyzClass: null };
+
+export function isClassFilterActive(filter: ClassFilter): boolean {
+  return filter.abcClass !== null || filter.xyzClass !== null;
+}
+
+export function matchesClassFilter(item: Pick<ItemClassification, 'abcClass' | 'xyzClass'>, filter: ClassFilter): boolean {
+  return (!filter.abcClass || item.abcClass === filter.abcClass) && (!filter.xyzClass || item.xyzClass === filter.xyzClass);
+}
+
+/**
+ * กรองแถวของตารางอื่น (เช่น สินค้าเกินคลัง) ตามกลุ่มของ itemCode
+ * สินค้าที่ไม่มียอดขายและยอดจ่ายในช่วงนับเป็น C-Z
+ */
+export function filterByClass<T extends { itemCode: string }>(
+  rows: T[],
+  classification: InventoryClassification | undefined,
+  filter: ClassFilter
+): T[] {
+  if (!classification || !isClassFilterActive(filter)) return rows;
+  const classes = new Map(classification.items.map((item) => [item.itemCode, item]));
+  const unclassified = { abcClass: 'C', xyzClass: 'Z' } as const;
+  return rows.filter((row) => matchesClassFilter(classes.get(row.itemCode) ?? unclassified, filter));
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/** หัวคอลัมน์ของรายการจัดกลุ่มสำหรับ exportStyledReport */
+export const CLASSIFICATION_HEADERS: Record<string, string> = {
+  itemCode: 'รหัสสินค้า',
+  itemName: 'ชื่อสินค้า',
+  categoryName: 'หมวดสินค้า',
+  abcClass: 'ABC',
+  xyzClass: 'XYZ',
+  salesValue: 'ยอดขาย',
+  grossProfit: 'กำไรขั้นต้น',
+  sharePct: 'สัดส่วน (%)',
+  cumulativeSharePct: 'สัดส่วนสะสม (%)',
+  totalOut: 'จ่ายออกรวม',
+  avgWeeklyDemand: 'จ่ายเฉลี่ย/สัปดาห์',
+  demandCv: 'CV',
+};
+
+export const CLASSIFICATION_NUMBER_COLUMNS = ['sharePct', 'cumulativeSharePct', 'totalOut', 'avgWeeklyDemand', 'demandCv'];
+export const CLASSIFICATION_CURRENCY_COLUMNS = ['salesValue', 'grossProfit'];
+
+export function classificationRows(items: ItemClassification[]) {
+  return items.map((item) => ({
+    itemCode: item.itemCode,
+    itemName: item.itemName,
+    categoryName: item.categoryName,
+    abcClass: item.abcClass,
+    xyzClass: item.xyzClass,
+    salesValue: item.salesValue,
+    grossProfit: item.grossProfit,
+    sharePct: round2(item.share * 100),
+    cumulativeSharePct: round2(item.cumulativeShare * 100),
+    totalOut: item.totalOut,
+    avgWeeklyDemand: item.avgWeeklyDemand,
+    demandCv: item.demandCv ?? '-',
+  }));
+}
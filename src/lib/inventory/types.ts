@@ -0,0 +1,298 @@
+/**
+ * Inventory Balance Types
+ * ยอดสินค้าคงเหลือ ณ วันที่ใดๆ จาก stock_transaction และผลของรายงานที่ต่อยอดจากยอดนั้น:
+ * มูลค่าสต็อกและการกระทบยอดบัญชี อายุสต็อก สินค้าไม่เคลื่อนไหว และการจัดกลุ่ม ABC/XYZ
+ */
+
+/** มิติที่ใช้จัดกลุ่มยอดคงเหลือ (จากกว้างไปละเอียด) */
+export const BALANCE_DIMENSIONS = [
+  { key: 'branch', label: 'กิจการ' },
+  { key: 'warehouse', label: 'คลัง' },
+  { key: 'shelf', label: 'ชั้นวาง' },
+  { key: 'item', label: 'สินค้า' },
+] as const;
+
+export type BalanceDimension = (typeof BALANCE_DIMENSIONS)[number]['key'];
+
+export function isBalanceDimension(value: string): value is BalanceDimension {
+  return BALANCE_DIMENSIONS.some((dimension) => dimension.key === value);
+}
+
+/**
+ * ยอดคงเหลือต่อกลุ่ม ฟิลด์ของมิติที่ไม่ได้จัดกลุ่มเป็นค่าว่าง
+ * (เช่น มิติคลังมี branchSync / whCode / whName ส่วน shelf* และ item* ว่าง)
+ */
+export interface InventoryBalance {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  shelfCode: string;
+  shelfName: string;
+  itemCode: string;
+  itemName: string;
+  /** จำนวนรายการสินค้าที่มีของ */
+  itemCount: number;
+  qtyOnHand: number;
+  inventoryValue: number;
+}
+
+// ============================================================================
+// Valuation
+// ============================================================================
+
+/** วิธีตีราคาสินค้าคงเหลือ: ต้นทุนตามที่บันทึกในแต่ละรายการ (qty × cost) กับการคำนวณใหม่ */
+export const VALUATION_METHODS = [
+  { key: 'recorded', label: 'ตามรายการ (qty × cost)', field: 'recordedValue' },
+  { key: 'moving_average', label: 'ถัวเฉลี่ยเคลื่อนที่', field: 'movingAverageValue' },
+  { key: 'fifo', label: 'FIFO', field: 'fifoValue' },
+] as const;
+
+export type ValuationMethod = (typeof VALUATION_METHODS)[number]['key'];
+
+export function isValuationMethod(value: string): value is ValuationMethod {
+  return VALUATION_METHODS.some((method) => method.key === value);
+}
+
+/** มูลค่าตามแต่ละวิธี */
+export interface ValuationValues {
+  qtyOnHand: number;
+  recordedValue: number;
+  movingAverageValue: number;
+  fifoValue: number;
+}
+
+/** มูลค่าต่อสินค้าในคลัง */
+export interface ItemValuation extends ValuationValues {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  brandName: string;
+  /** จำนวนที่จ่ายเกินกว่าที่มี (สต็อกติดลบ) ยังไม่มีชั้นต้นทุนรองรับ */
+  shortageQty: number;
+}
+
+/** มูลค่าต่อคลัง */
+export interface WarehouseValuation extends ValuationValues {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCount: number;
+}
+
+/** มูลค่าต่อกิจการ */
+export interface BranchValuation extends ValuationValues {
+  branchSync: string;
+}
+
+/** ผลการตีราคาจาก stock_transaction (ก่อนกระทบยอดกับบัญชี) */
+export interface StockValuation {
+  branches: BranchValuation[];
+  warehouses: WarehouseValuation[];
+  items: ItemValuation[];
+}
+
+/** ยอดบัญชีในสมุดรายวัน (เดบิต - เครดิต) */
+export interface InventoryAccountBalance {
+  accountCode: string;
+  accountName: string;
+  balance: number;
+}
+
+export interface BranchAccountBalance extends InventoryAccountBalance {
+  branchSync: string;
+}
+
+/** กระทบยอดมูลค่าสต็อกกับบัญชีสินค้าคงเหลือ ต่อกิจการ */
+export interface ValuationReconciliation extends ValuationValues {
+  branchSync: string;
+  /** ยอดรวมบัญชีสินค้าคงเหลือ (เดบิต - เครดิต) */
+  ledgerValue: number;
+  accounts: InventoryAccountBalance[];
+}
+
+export interface InventoryValuation {
+  asOf: string;
+  reconciliation: ValuationReconciliation[];
+  warehouses: WarehouseValuation[];
+  /** สินค้าที่มูลค่า FIFO สูงสุด */
+  items: ItemValuation[];
+}
+
+/** ชั้นต้นทุน FIFO ที่ยังเหลือ ณ วันที่ */
+export interface CostLayer {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  brandName: string;
+  /** วันเวลาที่รับเข้า */
+  receivedAt: string;
+  docNo: string;
+  qty: number;
+  unitCost: number;
+  value: number;
+  /** อายุของชั้นต้นทุน (วัน) นับถึงวันที่ของรายงาน */
+  ageDays: number;
+}
+
+// ============================================================================
+// Aging
+// ============================================================================
+
+/** ช่วงอายุสต็อกนับจากวันที่รับเข้า (ชั้นต้นทุน FIFO ที่ยังเหลือ) */
+export const AGING_BUCKETS = [
+  { key: '0-30', label: '0–30 วัน', maxDays: 30 },
+  { key: '31-90', label: '31–90 วัน', maxDays: 90 },
+  { key: '91-180', label: '91–180 วัน', maxDays: 180 },
+  { key: '181-365', label: '181–365 วัน', maxDays: 365 },
+  { key: '365+', label: 'เกิน 365 วัน', maxDays: Infinity },
+] as const;
+
+/** มิติที่ใช้จัดกลุ่มอายุสต็อก */
+export const AGING_DIMENSIONS = [
+  { key: 'warehouse', label: 'คลัง' },
+  { key: 'category', label: 'หมวดสินค้า' },
+  { key: 'brand', label: 'แบรนด์' },
+] as const;
+
+export type AgingDimension = (typeof AGING_DIMENSIONS)[number]['key'];
+
+export interface AgingBucketValues {
+  qty: number;
+  value: number;
+}
+
+/** อายุสต็อกต่อกลุ่ม buckets เรียงตาม AGING_BUCKETS */
+export interface InventoryAgingRow {
+  key: string;
+  label: string;
+  /** เฉพาะมิติคลัง */
+  branchSync: string;
+  itemCount: number;
+  qtyOnHand: number;
+  value: number;
+  buckets: AgingBucketValues[];
+}
+
+export interface InventoryAging {
+  asOf: string;
+  total: InventoryAgingRow;
+  groups: Record<AgingDimension, InventoryAgingRow[]>;
+}
+
+/** สินค้าคงเหลือที่ไม่มีการจ่ายออกตั้งแต่วันที่กำหนด */
+export interface DeadStockItem {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  brandName: string;
+  unitName: string;
+  qtyOnHand: number;
+  inventoryValue: number;
+  /** ว่างเมื่อไม่มีรายการรับเข้า */
+  lastReceiptDate: string;
+  /** ว่างเมื่อไม่เคยจ่ายออก */
+  lastIssueDate: string;
+  /**
+   * วันนับจากจ่ายออกครั้งล่าสุด (หรือรับเข้าครั้งล่าสุดถ้าไม่เคยจ่าย) ถึงวันที่ของรายงาน
+   * null เมื่อไม่มีทั้งรายการรับเข้าและจ่ายออก
+   */
+  idleDays: number | null;
+}
+
+// ============================================================================
+// Classification
+// ============================================================================
+
+/** เกณฑ์จัดกลุ่ม ABC: มูลค่าขายหรือกำไรขั้นต้น */
+export const CLASSIFICATION_METRICS = [
+  { key: 'sales', label: 'ยอดขาย', field: 'salesValue' },
+  { key: 'profit', label: 'กำไรขั้นต้น', field: 'grossProfit' },
+] as const;
+
+export type ClassificationMetric = (typeof CLASSIFICATION_METRICS)[number]['key'];
+
+export function isClassificationMetric(value: string): value is ClassificationMetric {
+  return CLASSIFICATION_METRICS.some((metric) => metric.key === value);
+}
+
+/** ABC ตามสัดส่วนสะสมของเกณฑ์ (สูงสุดก่อน) */
+export const ABC_CLASSES = [
+  { key: 'A', label: 'A', description: 'สัดส่วนสะสมถึง 80%', maxCumulativeShare: 0.8 },
+  { key: 'B', label: 'B', description: 'สัดส่วนสะสม 80-95%', maxCumulativeShare: 0.95 },
+  { key: 'C', label: 'C', description: 'ส่วนที่เหลือ', maxCumulativeShare: 1 },
+] as const;
+
+/** XYZ ตามสัมประสิทธิ์ความแปรผัน (CV) ของยอดจ่ายรายสัปดาห์ */
+export const XYZ_CLASSES = [
+  { key: 'X', label: 'X', description: 'ความต้องการสม่ำเสมอ (CV ≤ 0.5)', maxCv: 0.5 },
+  { key: 'Y', label: 'Y', description: 'ความต้องการผันผวน (CV ≤ 1.0)', maxCv: 1 },
+  { key: 'Z', label: 'Z', description: 'ความต้องการไม่แน่นอนหรือไม่มี', maxCv: Infinity },
+] as const;
+
+export type AbcClass = (typeof ABC_CLASSES)[number]['key'];
+export type XyzClass = (typeof XYZ_CLASSES)[number]['key'];
+
+/** ยอดขายและยอดจ่ายรายสัปดาห์ต่อสินค้าในช่วงที่เลือก */
+export interface ItemSalesDemand {
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  salesValue: number;
+  grossProfit: number;
+  /** ยอดจ่ายออกรวม (จำนวน) */
+  totalOut: number;
+  /** ผลรวมกำลังสองของยอดจ่ายรายสัปดาห์ */
+  totalOutSquared: number;
+}
+
+export interface ItemClassification {
+  itemCode: string;
+  itemName: string;
+  categoryName: string;
+  salesValue: number;
+  grossProfit: number;
+  /** สัดส่วนของเกณฑ์ที่เลือก (0-1) */
+  share: number;
+  /** สัดส่วนสะสมรวมสินค้านี้ (0-1) */
+  cumulativeShare: number;
+  abcClass: AbcClass;
+  totalOut: number;
+  avgWeeklyDemand: number;
+  /** null เมื่อไม่มียอดจ่ายในช่วง */
+  demandCv: number | null;
+  xyzClass: XyzClass;
+}
+
+export interface ClassificationCell {
+  abcClass: AbcClass;
+  xyzClass: XyzClass;
+  itemCount: number;
+  /** ผลรวมของเกณฑ์ที่เลือก */
+  value: number;
+}
+
+export interface InventoryClassification {
+  metric: ClassificationMetric;
+  startDate: string;
+  endDate: string;
+  /** จำนวนสัปดาห์ที่ใช้คำนวณ CV */
+  weeks: number;
+  items: ItemClassification[];
+  /** 9 ช่อง เรียง A-X, A-Y, A-Z, B-X, ... */
+  matrix: ClassificationCell[];
+}
+
+/** ตัวกรองตามกลุ่ม null = ทุกกลุ่ม */
+export interface ClassFilter {
+  abcClass: AbcClass | null;
+  xyzClass: XyzClass | null;
+}
@@ -0,0 +1,159 @@
+/**
+ * Inventory Valuation Replay
+ * เดินรายการ stock_transaction ของสินค้าหนึ่งรายการในคลังหนึ่งตามลำดับเวลา แล้วตีราคาใหม่
+ * แบบถัวเฉลี่ยเคลื่อนที่และ FIFO และกระทบยอดมูลค่าที่ได้กับบัญชีสินค้าคงเหลือของแต่ละกิจการ
+ *
+ * รับเข้า (qty > 0) ใช้ต้นทุนตามที่บันทึก จ่ายออก (qty < 0) คิดต้นทุนใหม่ตามวิธี
+ * ถ้าจ่ายเกินกว่าที่มี ส่วนที่ขาดถูกเก็บเป็น shortage และหักด้วยต้นทุนล่าสุด
+ * รับเข้าครั้งถัดไปจะชดเชยส่วนที่ขาดก่อน
+ */
+
+import { findCashFlowMapping, type CashFlowMapping } from '../cash-flow/types';
+import {
+  VALUATION_METHODS,
+  type BranchAccountBalance,
+  type InventoryValuation,
+  type StockValuation,
+  type ValuationMethod,
+  type ValuationReconciliation,
+  type ValuationValues,
+} from './types';
+
+/** ความเคลื่อนไหวของสินค้าในคลัง (รวมต่อเอกสาร) */
+export interface ValuationMovement {
+  docDatetime: string;
+  docNo: string;
+  qty: number;
+  /** sum(qty × cost) ตามที่บันทึก */
+  amount: number;
+}
+
+/** ชั้นต้นทุน FIFO ที่ยังเหลือ */
+export interface OpenLayer {
+  receivedAt: string;
+  docNo: string;
+  qty: number;
+  unitCost: number;
+}
+
+export interface ItemReplay extends ValuationValues {
+  shortageQty: number;
+  /** เรียงจากเก่าไปใหม่ */
+  layers: OpenLayer[];
+}
+
+/** จำนวนที่เล็กกว่านี้ถือเป็นศูนย์ (กันเศษทศนิยมจากการบวกลบ) */
+const EPSILON = 1e-9;
+
+/**
+ * ตีราคาความเคลื่อนไหวที่เรียงตามเวลาแล้ว (รับเข้าก่อนจ่ายออกเมื่อเวลาเท่ากัน)
+ */
+export function replayItem(movements: ValuationMovement[]): ItemReplay {
+  let qty = 0;
+  let recorded = 0;
+  let lastCost = 0;
+
+  // Moving average: value of the running quantity
+  let averageValue = 0;
+
+  // FIFO: open layers and quantity issued beyond them
+  const layers: OpenLayer[] = [];
+  let shortage = 0;
+
+  for (const movement of movements) {
+    recorded += movement.amount;
+    const before = qty;
+    qty += movement.qty;
+
+    if (movement.qty > EPSILON) {
+      const unitCost = movement.amount / movement.qty;
+      lastCost = unitCost;
+
+      averageValue = before > EPSILON ? averageValue + movement.amount : qty * unitCost;
+
+      const cover = Math.min(shortage, movement.qty);
+      shortage -= cover;
+      if (movement.qty - cover > EPSILON) {
+        layers.push({ receivedAt: movement.docDatetime, docNo: movement.docNo, qty: movement.qty - cover, unitCost });
+      }
+    } else if (movement.qty < -EPSILON) {
+      const unitCost = before > EPSILON ? averageValue / before : lastCost;
+      averageValue = qty > EPSILON ? averageValue + movement.qty * unitCost : qty * unitCost;
+
+      let remaining = -movement.qty;
+      while (remaining > EPSILON && layers.length > 0) {
+        const layer = layers[0];
+        const take = Math.min(layer.qty, remaining);
+        layer.qty -= take;
+        remaining -= take;
+        if (layer.qty <= EPSILON) layers.shift();
+      }
+      shortage += remaining;
+    }
+  }
+
+  const fifoValue = layers.reduce((sum, layer) => sum + layer.qty * layer.unitCost, 0) - shortage * lastCost;
+
+  return {
+    qtyOnHand: qty,
+    recordedValue: recorded,
+    movingAverageValue: averageValue,
+    fifoValue,
+    shortageQty: shortage > EPSILON ? shortage : 0,
+    layers,
+  };
+}
+
+export const EMPTY_VALUES: ValuationValues = { qtyOnHand: 0, recordedValue: 0, movingAverageValue: 0, fifoValue: 0 };
+
+/** มูลค่าตามวิธีที่เลือก */
+export function methodValue(values: ValuationValues, method: ValuationMethod): number {
+  const { field } = VALUATION_METHODS.find((m) => m.key === method) ?? VALUATION_METHODS[0];
+  return values[field];
+}
+
+/** บวกมูลค่าทุกวิธีของ source เข้า target */
+export function addValues(target: ValuationValues, source: ValuationValues): void {
+  target.qtyOnHand += source.qtyOnHand;
+  target.recordedValue += source.recordedValue;
+  target.movingAverageValue += source.movingAverageValue;
+  target.fifoValue += source.fifoValue;
+}
+
+/**
+ * กระทบยอดมูลค่าสต็อกกับบัญชีสินค้าคงเหลือ ต่อกิจการ
+ * บัญชีสินค้าคงเหลือคือบัญชีที่ผังงบกระแสเงินสดจับคู่ไว้กับบรรทัด inventory
+ */
+export function buildInventoryValuation(
+  asOf: string,
+  stock: StockValuation,
+  accounts: BranchAccountBalance[],
+  mappings: CashFlowMapping[]
+): InventoryValuation {
+  const branches = new Map<string, ValuationReconciliation>();
+  const branchOf = (branchSync: string) => {
+    let branch = branches.get(branchSync);
+    if (!branch) {
+      branch = { branchSync, ...EMPTY_VALUES, ledgerValue: 0, accounts: [] };
+      branches.set(branchSync, branch);
+    }
+    return branch;
+  };
+
+  for (const values of stock.branches) {
+    addValues(branchOf(values.branchSync), values);
+  }
+  for (const { branchSync, ...account } of accounts) {
+    if (findCashFlowMapping(account.accountCode, mappings)?.line !== 'inventory') continue;
+    const branch = branchOf(branchSync);
+    branch.ledgerValue += account.balance;
+    branch.accounts.push(account);
+  }
+
+  return {
+    asOf,
+    reconciliation: [...branches.values()].sort((a, b) => a.branchSync.localeCompare(b.branchSync)),
+    warehouses: stock.warehouses,
+    items: stock.items,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Gemini provider (@google/generative-ai)
+ */
+
+import { GoogleGenerativeAI, type Content, type FunctionDeclaration, type Part } from '@google/generative-ai';
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider } from './types';
+
+export interface GeminiProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+function toContents(messages: LLMMessage[]): Content[] {
+  return messages.map((message): Content => {
+    switch (message.role) {
+      case 'user':
+        return { role: 'user', parts: [{ text: message.content }] };
+      case 'assistant': {
+        const parts: Part[] = [];
+        if (message.content) parts.push({ text: message.content });
+        for (const call of message.toolCalls ?? []) {
+          parts.push({ functionCall: { name: call.name, args: call.args } });
+        }
+        return { role: 'model', parts: parts.length > 0 ? parts : [{ text: '' }] };
+      }
+      case 'tool':
+        return {
+          role: 'function',
+          parts: message.results.map((result) => ({
+            functionResponse: {
+              name: result.name,
+              // functionResponse.response must be an object
+              response:
+                result.response !== null && typeof result.response === 'object'
+                  ? (result.response as object)
+                  : { result: result.response },
+            },
+          })),
+        };
+    }
+  });
+}
+
+export function createGeminiProvider(config: GeminiProviderConfig): LLMProvider {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+
+  return {
+    name: 'gemini',
+    model: config.model,
+
+    async chat({ system, messages, tools, signal, onText }: LLMChatRequest): Promise<LLMChatResponse> {
+      const model = genAI.getGenerativeModel({
+        model: config.model,
+        systemInstruction: system,
+        // Our JSON Schema subset is what Gemini accepts; SchemaType is just the upper-case enum
+        tools: tools?.length ? [{ functionDeclarations: tools as unknown as FunctionDeclaration[] }] : undefined,
+      });
+
+      const result = await model.generateContentStream({ contents: toContents(messages) }, { signal });
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        if (delta) {
+          text += delta;
+          onText?.(delta);
+        }
+      }
+
+      const response = await result.response;
+      const toolCalls = (response.functionCalls() ?? []).map((call, index) => ({
+        id: `call_${index}`,
+        name: call.name,
+        args: (call.args ?? {}) as Record<string, unknown>,
+      }));
+      if (!text && toolCalls.length === 0) {
+        console.log('[LLM:gemini] Empty response, candidates:', JSON.stringify(response.candidates, null, 2));
+      }
+
+      const usage = response.usageMetadata;
+      return {
+        text,
+        toolCalls,
+        usage: usage
+          ? {
+              promptTokens: usage.promptTokenCount || 0,
+              responseTokens: usage.candidatesTokenCount || 0,
+              totalTokens: usage.totalTokenCount || 0,
+            }
+          : null,
+      };
+    },
+
+    async generateText(prompt, options) {
+      const model = genAI.getGenerativeModel({ model: config.model });
+      const result = await model.generateContent(prompt, { signal: options?.signal });
+      return result.response.text().trim();
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * LLM provider selection from environment variables
+ *
+ * LLM_PROVIDER=gemini (default)  GOOGLE_GENERATIVE_AI_API_KEY, GEMINI_MODEL
+ * LLM_PROVIDER=openai            OPENAI_BASE_URL, OPENAI_API_KEY (optional), OPENAI_MODEL
+ * LLM_PROVIDER=mock              deterministic offline responses
+ */
+
+import 'server-only';
+
+import { ErrorTypes } from '../errors';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export type { LLMProvider } from './types';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-lite';
+
+let provider: LLMProvider | null = null;
+
+function createProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY || '',
+        model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+      });
+    case 'openai': {
+      const model = process.env.OPENAI_MODEL;
+      if (!model) {
+        throw ErrorTypes.INTERNAL_SERVER('LLM_PROVIDER=openai ต้องกำหนด OPENAI_MODEL');
+      }
+      return createOpenAIProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model,
+      });
+    }
+    case 'mock':
+      return createMockProvider();
+    default:
+      throw ErrorTypes.INTERNAL_SERVER(`ไม่รู้จัก LLM_PROVIDER "${name}" (gemini, openai, mock)`);
+  }
+}
+
+/** Provider configured for this server (created once) */
+export function getLLMProvider(): LLMProvider {
+  provider ??= createProvider();
+  return provider;
+}
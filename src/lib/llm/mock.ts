@@ -0,0 +1,80 @@
+/**
+ * Deterministic mock provider (no network)
+ * Used by scripts/test-chat-agent.ts and with LLM_PROVIDER=mock to try the chat UI offline.
+ */
+
+import type { LLMChatRequest, LLMChatResponse, LLMProvider } from './types';
+
+/** One scripted model response */
+export interface MockStep {
+  text?: string;
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+}
+
+export interface MockProviderOptions {
+  /** Responses returned in order; without a script the default behaviour below is used */
+  script?: MockStep[];
+}
+
+export interface MockProvider extends LLMProvider {
+  /** Every chat request received (for assertions) */
+  readonly requests: LLMChatRequest[];
+}
+
+/** Query run by the default behaviour */
+export const MOCK_QUERY = 'SELECT count() AS total FROM saleinvoice_transaction';
+
+/**
+ * Default behaviour: a new question → executeQuery(MOCK_QUERY),
+ * tool results → an answer quoting them
+ */
+function defaultStep(request: LLMChatRequest): MockStep {
+  const last = request.messages[request.messages.length - 1];
+  if (last?.role === 'tool') {
+    const results = last.results.map((r) => `- ${r.name}: \`${JSON.stringify(r.response).slice(0, 200)}\``);
+    return { text: `ผลลัพธ์จากเครื่องมือ:\n${results.join('\n')}` };
+  }
+  if (request.tools?.some((tool) => tool.name === 'executeQuery')) {
+    return { toolCalls: [{ name: 'executeQuery', args: { sql: MOCK_QUERY } }] };
+  }
+  return { text: 'คำตอบจำลอง' };
+}
+
+export function createMockProvider(options: MockProviderOptions = {}): MockProvider {
+  const requests: LLMChatRequest[] = [];
+  let step = 0;
+  let calls = 0;
+
+  return {
+    name: 'mock',
+    model: 'mock',
+    requests,
+
+    async chat(request): Promise<LLMChatResponse> {
+      requests.push({ ...request, messages: [...request.messages] });
+      calls++;
+      if (request.signal?.aborted) throw new Error('Request aborted');
+
+      const next = options.script
+        ? (options.script[step++] ?? { text: '(script หมดแล้ว)' })
+        : defaultStep(request);
+
+      // Stream the text word by word like a real model
+      const text = next.text ?? '';
+      for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+        if (request.signal?.aborted) throw new Error('Request aborted');
+        request.onText?.(delta);
+      }
+
+      return {
+        text,
+        toolCalls: (next.toolCalls ?? []).map((call, index) => ({ id: `mock_${calls}_${index}`, ...call })),
+        usage: null,
+      };
+    },
+
+    async generateText(prompt) {
+      return `สรุปจำลอง (${prompt.length} ตัวอักษร)`;
+    },
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * OpenAI-compatible provider (POST {baseUrl}/chat/completions)
+ * Works with OpenAI and local servers that speak the same API, e.g. llama.cpp
+ * (`llama-server`, http://localhost:8080/v1) or Ollama (http://localhost:11434/v1).
+ */
+
+import type { LLMChatRequest, LLMChatResponse, LLMMessage, LLMProvider, LLMToolCall, LLMUsage } from './types';
+
+export interface OpenAIProviderConfig {
+  /** Base URL including the version path, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  /** Optional for local servers */
+  apiKey?: string;
+  model: string;
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string }
+  | {
+      role: 'assistant';
+      content: string | null;
+      tool_calls?: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface StreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null;
+}
+
+function toOpenAIMessages(system: string | undefined, messages: LLMMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = system ? [{ role: 'system', content: system }] : [];
+  for (const message of messages) {
+    switch (message.role) {
+      case 'user':
+        result.push({ role: 'user', content: message.content });
+        break;
+      case 'assistant':
+        result.push({
+          role: 'assistant',
+          content: message.content || null,
+          ...(message.toolCalls?.length && {
+            tool_calls: message.toolCalls.map((call) => ({
+              id: call.id,
+              type: 'function' as const,
+              function: { name: call.name, arguments: JSON.stringify(call.args) },
+            })),
+          }),
+        });
+        break;
+      case 'tool':
+        for (const toolResult of message.results) {
+          result.push({ role: 'tool', tool_call_id: toolResult.callId, content: JSON.stringify(toolResult.response) });
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    console.error('[LLM:openai] Invalid tool arguments:', raw);
+    return {};
+  }
+}
+
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey && { Authorization: `Bearer ${config.apiKey}` }),
+      },
+      body: JSON.stringify({ model: config.model, ...body }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`LLM server error ${response.status}: ${detail.slice(0, 500)}`);
+    }
+    return response;
+  };
+
+  return {
+    name: 'openai',
+    model: config.model,
+
+    async chat({ system, messages, tools, signal, onText }: LLMChatRequest): Promise<LLMChatResponse> {
+      const response = await post(
+        {
+          messages: toOpenAIMessages(system, messages),
+          ...(tools?.length && {
+            tools: tools.map((tool) => ({ type: 'function', function: tool })),
+          }),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        signal
+      );
+      if (!response.body) throw new Error('LLM server returned an empty body');
+
+      let text = '';
+      let usage: LLMUsage | null = null;
+      // Tool calls arrive in fragments keyed by index
+      const calls: { id?: string; name: string; arguments: string }[] = [];
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith('data:')) continue;
+          const payload = data.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          const chunk = JSON.parse(payload) as StreamChunk;
+          const delta = chunk.choices?.[0]?.delta;
+          if (delta?.content) {
+            text += delta.content;
+            onText?.(delta.content);
+          }
+          for (const fragment of delta?.tool_calls ?? []) {
+            const call = (calls[fragment.index] ??= { name: '', arguments: '' });
+            if (fragment.id) call.id = fragment.id;
+            if (fragment.function?.name) call.name += fragment.function.name;
+            if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          }
+          if (chunk.usage) {
+            usage = {
+              promptTokens: chunk.usage.prompt_tokens || 0,
+              responseTokens: chunk.usage.completion_tokens || 0,
+              totalTokens: chunk.usage.total_tokens || 0,
+            };
+          }
+        }
+      }
+
+      const toolCalls: LLMToolCall[] = calls
+        .filter((call) => call?.name)
+        .map((call, index) => ({ id: call.id || `call_${index}`, name: call.name, args: parseArguments(call.arguments) }));
+
+      return { text, toolCalls, usage };
+    },
+
+    async generateText(prompt, options) {
+      const response = await post({ messages: [{ role: 'user', content: prompt }], stream: false }, options?.signal);
+      const data = await response.json();
+      return String(data.choices?.[0]?.message?.content ?? '').trim();
+    },
+  };
+}
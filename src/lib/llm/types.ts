@@ -0,0 +1,70 @@
+/**
+ * LLM provider abstraction for the analytics assistant
+ * The chat tool loop (src/lib/chat/agent.ts) only talks to LLMProvider, so the model
+ * backend (Gemini, an OpenAI-compatible server, the offline mock) is a config choice.
+ */
+
+/** JSON Schema subset used for tool parameters (understood by every provider) */
+export interface LLMToolParameters {
+  type: 'object';
+  properties: Record<string, { type: 'string' | 'number' | 'integer' | 'boolean'; description?: string }>;
+  required?: string[];
+}
+
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LLMToolParameters;
+}
+
+export interface LLMToolCall {
+  /** Provider call id (generated when the backend has none) */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  callId: string;
+  name: string;
+  response: unknown;
+}
+
+/** One message of the conversation sent to the model (stateless: the whole list every call) */
+export type LLMMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] }
+  | { role: 'tool'; results: LLMToolResult[] };
+
+export interface LLMUsage {
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMChatRequest {
+  system?: string;
+  messages: LLMMessage[];
+  tools?: LLMToolDeclaration[];
+  signal?: AbortSignal;
+  /** Called with each text delta as it streams */
+  onText?: (delta: string) => void;
+}
+
+export interface LLMChatResponse {
+  /** Full text of this response (already streamed through onText) */
+  text: string;
+  /** Tools the model wants to run; empty = final answer */
+  toolCalls: LLMToolCall[];
+  usage: LLMUsage | null;
+}
+
+export interface LLMProvider {
+  /** 'gemini' | 'openai' | 'mock' */
+  readonly name: string;
+  readonly model: string;
+  /** One model response (streamed), possibly requesting tool calls */
+  chat(request: LLMChatRequest): Promise<LLMChatResponse>;
+  /** Plain one-shot completion without tools (e.g. history summaries) */
+  generateText(prompt: string, options?: { signal?: AbortSignal }): Promise<string>;
+}
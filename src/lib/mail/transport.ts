@@ -0,0 +1,70 @@
+/**
+ * Mail Transport
+ * ส่งอีเมลผ่าน SMTP (nodemailer) ตั้งค่าด้วย SMTP_HOST / SMTP_PORT / SMTP_SECURE / SMTP_USER / SMTP_PASS / MAIL_FROM
+ * ถ้าไม่ได้ตั้ง SMTP_HOST จะเขียน log แทนการส่ง (dev) ใช้คู่กับ mail catcher เช่น Mailpit (localhost:1025) ได้
+ */
+
+import 'server-only';
+
+import nodemailer from 'nodemailer';
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+function createSmtpTransport(host: string): MailTransport {
+  const port = Number(process.env.SMTP_PORT) || 587;
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  });
+  const from = process.env.MAIL_FROM || process.env.SMTP_USER || 'dashboard@localhost';
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from, ...message, to: message.to.join(', ') });
+    },
+  };
+}
+
+const logTransport: MailTransport = {
+  async send(message) {
+    console.info(
+      `[mail] SMTP_HOST not set, skipped sending "${message.subject}" to ${message.to.join(', ')}`,
+      (message.attachments ?? []).map((a) => `${a.filename} (${a.content.length} bytes)`)
+    );
+  },
+};
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const host = process.env.SMTP_HOST;
+    transport = host ? createSmtpTransport(host) : logTransport;
+  }
+  return transport;
+}
+
+/**
+ * แทนที่ transport (เช่น ใช้ transport จำลองตอนทดสอบ) ส่ง null เพื่อกลับไปใช้ค่าจาก env
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
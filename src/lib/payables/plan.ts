@@ -0,0 +1,179 @@
+/**
+ * AP payment plan
+ *
+ * Each open credit purchase is placed in the week it is expected to be paid: the
+ * scheduled date when someone planned the payment, otherwise its due date. Unscheduled
+ * invoices that are already overdue need cash now, so they land in the first week.
+ * Expected inflow is the average weekly receipt of the recent weeks.
+ * Weeks start on Monday; the cash forecast nets each week's payments against that inflow.
+ */
+
+import type { CashForecastWeek, PayableInvoice, PaymentPlan, PaymentSchedule, WeeklyInflow } from './types';
+
+const DAY_MS = 86_400_000;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toTime = (date: string) => Date.parse(`${date}T00:00:00Z`);
+const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+export function addDays(date: string, days: number): string {
+  return toDate(toTime(date) + days * DAY_MS);
+}
+
+/** วันจันทร์ของสัปดาห์ที่วันที่นั้นอยู่ */
+export function startOfWeek(date: string): string {
+  const day = new Date(toTime(date)).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/** วันที่คาดว่าจะจ่าย: วันนัดจ่าย หรือวันครบกำหนด */
+export function plannedPaymentDate(invoice: PayableInvoice): string {
+  return invoice.schedule?.scheduledDate ?? invoice.dueDate;
+}
+
+/** ยอดที่คาดว่าจะจ่าย (ไม่เกินยอดค้าง) */
+export function plannedPaymentAmount(invoice: PayableInvoice): number {
+  const amount = invoice.schedule?.amount;
+  return amount === null || amount === undefined ? invoice.outstanding : Math.min(amount, invoice.outstanding);
+}
+
+/**
+ * ผูกการนัดจ่ายเข้ากับใบซื้อ (การนัดของใบที่จ่ายครบแล้วจะไม่ถูกใช้)
+ */
+export function withSchedules(invoices: PayableInvoice[], schedules: PaymentSchedule[]): PayableInvoice[] {
+  const byDoc = new Map(schedules.map((schedule) => [`${schedule.branchSync}|${schedule.docNo}`, schedule]));
+  return invoices.map((invoice) => ({ ...invoice, schedule: byDoc.get(`${invoice.branchSync}|${invoice.docNo}`) ?? null }));
+}
+
+/**
+ * แผนจ่ายเจ้าหนี้และประมาณการเงินสดรายสัปดาห์
+ * @param today - วันที่ปัจจุบัน YYYY-MM-DD
+ * @param weekCount - จำนวนสัปดาห์ที่ประมาณการ เริ่มจากสัปดาห์นี้
+ */
+export function buildPaymentPlan(
+  invoices: PayableInvoice[],
+  inflowHistory: WeeklyInflow[],
+  today: string,
+  weekCount: number
+): PaymentPlan {
+  const firstWeek = startOfWeek(today);
+  const weeks: CashForecastWeek[] = Array.from({ length: weekCount }, (_, index) => {
+    const weekStart = addDays(firstWeek, index * 7);
+    return {
+      weekStart,
+      weekEnd: addDays(weekStart, 6),
+      dueAmount: 0,
+      scheduledAmount: 0,
+      outflow: 0,
+      expectedInflow: 0,
+      net: 0,
+      cumulativeNet: 0,
+      invoiceCount: 0,
+    };
+  });
+  const overdue = { amount: 0, count: 0 };
+  const later = { amount: 0, count: 0 };
+
+  for (const invoice of invoices) {
+    const amount = plannedPaymentAmount(invoice);
+    const date = plannedPaymentDate(invoice);
+    const index = date < firstWeek ? 0 : Math.floor((toTime(date) - toTime(firstWeek)) / (7 * DAY_MS));
+    if (!invoice.schedule && date < firstWeek) {
+      overdue.amount += amount;
+      overdue.count += 1;
+    }
+    const week = weeks[index];
+    if (!week) {
+      later.amount += amount;
+      later.count += 1;
+      continue;
+    }
+    if (invoice.schedule) week.scheduledAmount += amount;
+    else week.dueAmount += amount;
+    week.invoiceCount += 1;
+  }
+
+  const averageWeeklyInflow =
+    inflowHistory.length > 0 ? round2(inflowHistory.reduce((sum, week) => sum + week.amount, 0) / inflowHistory.length) : 0;
+
+  let cumulativeNet = 0;
+  for (const week of weeks) {
+    week.dueAmount = round2(week.dueAmount);
+    week.scheduledAmount = round2(week.scheduledAmount);
+    week.outflow = round2(week.dueAmount + week.scheduledAmount);
+    week.expectedInflow = averageWeeklyInflow;
+    week.net = round2(week.expectedInflow - week.outflow);
+    cumulativeNet = round2(cumulativeNet + week.net);
+    week.cumulativeNet = cumulativeNet;
+  }
+
+  return {
+    today,
+    weeks,
+    overdue: { amount: round2(overdue.amount), count: overdue.count },
+    later: { amount: round2(later.amount), count: later.count },
+    averageWeeklyInflow,
+    inflowHistory,
+    invoices,
+  };
+}
+
+/** หัวคอลัมน์ของแผนจ่ายรายใบสำหรับ exportStyledReport */
+export const PAYMENT_PLAN_HEADERS: Record<string, string> = {
+  plannedWeek: 'สัปดาห์ที่จ่าย',
+  plannedDate: 'วันที่จ่าย',
+  status: 'สถานะ',
+  supplierCode: 'รหัสเจ้าหนี้',
+  supplierName: 'ชื่อเจ้าหนี้',
+  branchSync: 'กิจการ',
+  docNo: 'เลขที่เอกสาร',
+  docDate: 'วันที่เอกสาร',
+  dueDate: 'วันครบกำหนด',
+  outstanding: 'ยอดค้างจ่าย',
+  plannedAmount: 'ยอดที่จะจ่าย',
+  note: 'หมายเหตุ',
+};
+
+export const PAYMENT_PLAN_CURRENCY_COLUMNS = ['outstanding', 'plannedAmount'];
+
+/** หัวคอลัมน์ของประมาณการเงินสดรายสัปดาห์ */
+export const CASH_FORECAST_HEADERS: Record<string, string> = {
+  weekStart: 'เริ่มสัปดาห์',
+  weekEnd: 'สิ้นสุดสัปดาห์',
+  invoiceCount: 'จำนวนใบ',
+  dueAmount: 'ครบกำหนด (ยังไม่นัด)',
+  scheduledAmount: 'นัดจ่ายแล้ว',
+  outflow: 'รวมเงินจ่าย',
+  expectedInflow: 'เงินรับคาดการณ์',
+  net: 'สุทธิ',
+  cumulativeNet: 'สุทธิสะสม',
+};
+
+export const CASH_FORECAST_CURRENCY_COLUMNS = ['dueAmount', 'scheduledAmount', 'outflow', 'expectedInflow', 'net', 'cumulativeNet'];
+
+/**
+ * แถวของแผนจ่ายรายใบ เรียงตามวันที่จ่าย (ใบเกินกำหนดที่ยังไม่นัดอยู่สัปดาห์แรก)
+ */
+export function paymentPlanRows(plan: PaymentPlan) {
+  const firstWeek = plan.weeks[0]?.weekStart ?? startOfWeek(plan.today);
+  return plan.invoices
+    .map((invoice) => {
+      const plannedDate = plannedPaymentDate(invoice);
+      return {
+        plannedWeek: plannedDate < firstWeek ? firstWeek : startOfWeek(plannedDate),
+        plannedDate,
+        status: invoice.schedule ? 'นัดจ่ายแล้ว' : invoice.daysOverdue > 0 ? `เกินกำหนด ${invoice.daysOverdue} วัน` : 'รอจ่าย',
+        supplierCode: invoice.supplierCode,
+        supplierName: invoice.supplierName,
+        branchSync: invoice.branchSync,
+        docNo: invoice.docNo,
+        docDate: invoice.docDate,
+        dueDate: invoice.dueDate,
+        outstanding: invoice.outstanding,
+        plannedAmount: plannedPaymentAmount(invoice),
+        note: invoice.schedule?.note ?? '',
+      };
+    })
+    .sort((a, b) => a.plannedWeek.localeCompare(b.plannedWeek) || a.plannedDate.localeCompare(b.plannedDate));
+}
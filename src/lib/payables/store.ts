@@ -0,0 +1,150 @@
+/**
+ * AP Payment Schedule Store
+ * วันนัดจ่ายของใบซื้อเงินเชื่อ เก็บในฐานข้อมูล auth (libsql)
+ */
+
+import 'server-only';
+
+import type { InStatement, Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import type { PaymentSchedule, PaymentScheduleInput } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MAX_NOTE_LENGTH = 500;
+/** จำนวนใบสูงสุดต่อการนัดจ่ายหนึ่งครั้ง */
+const MAX_ITEMS = 1000;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS ap_payment_schedule (
+    branch_sync TEXT NOT NULL,
+    doc_no TEXT NOT NULL,
+    scheduled_date TEXT NOT NULL,
+    amount REAL,
+    note TEXT NOT NULL DEFAULT '',
+    created_by TEXT NOT NULL DEFAULT '',
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (branch_sync, doc_no)
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_ap_payment_schedule_date ON ap_payment_schedule(scheduled_date)',
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function rowToSchedule(row: Row): PaymentSchedule {
+  return {
+    branchSync: String(row.branch_sync),
+    docNo: String(row.doc_no),
+    scheduledDate: String(row.scheduled_date),
+    amount: row.amount === null || row.amount === undefined ? null : Number(row.amount),
+    note: String(row.note ?? ''),
+    createdBy: String(row.created_by ?? ''),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/** เงื่อนไขกิจการ ('ALL' หรือว่าง = ทุกกิจการ) */
+function branchCondition(branches?: string[]): { sql: string; args: string[] } {
+  if (!branches || branches.length === 0 || branches.includes('ALL')) {
+    return { sql: '', args: [] };
+  }
+  return { sql: ` WHERE branch_sync IN (${branches.map(() => '?').join(', ')})`, args: branches };
+}
+
+/**
+ * @throws APIError 400
+ */
+function normalizeSchedule(input: PaymentScheduleInput) {
+  const branchSync = String(input.branchSync ?? '').trim();
+  const docNo = String(input.docNo ?? '').trim();
+  if (!BRANCH_CODE_PATTERN.test(branchSync) || !docNo) {
+    throw ErrorTypes.BAD_REQUEST('ต้องระบุกิจการและเลขที่เอกสาร');
+  }
+  const scheduledDate = String(input.scheduledDate ?? '').trim();
+  if (!DATE_PATTERN.test(scheduledDate) || Number.isNaN(Date.parse(scheduledDate))) {
+    throw ErrorTypes.BAD_REQUEST(`วันนัดจ่ายของ ${docNo} ต้องอยู่ในรูปแบบ YYYY-MM-DD`);
+  }
+  const rawAmount = input.amount;
+  const amount = rawAmount === null || rawAmount === undefined || String(rawAmount).trim() === '' ? null : Number(rawAmount);
+  if (amount !== null && (!Number.isFinite(amount) || amount <= 0)) {
+    throw ErrorTypes.BAD_REQUEST(`ยอดนัดจ่ายของ ${docNo} ต้องมากกว่า 0`);
+  }
+  const note = String(input.note ?? '').trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw ErrorTypes.BAD_REQUEST(`หมายเหตุยาวได้ไม่เกิน ${MAX_NOTE_LENGTH} ตัวอักษร`);
+  }
+  return { branchSync, docNo, scheduledDate, amount: amount === null ? null : Math.round(amount * 100) / 100, note };
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+/**
+ * การนัดจ่ายทั้งหมดของกิจการที่เลือก
+ */
+export async function listPaymentSchedules(branches?: string[]): Promise<PaymentSchedule[]> {
+  await ensureSchema();
+  const filter = branchCondition(branches);
+  const result = await authDb.execute({
+    sql: `SELECT * FROM ap_payment_schedule${filter.sql} ORDER BY scheduled_date, doc_no`,
+    args: filter.args,
+  });
+  return result.rows.map(rowToSchedule);
+}
+
+/**
+ * นัดจ่าย/เลื่อนวันจ่ายหลายใบพร้อมกัน (upsert ต่อกิจการ + เลขที่เอกสาร)
+ * ตรวจสิทธิ์กิจการก่อนเรียก (authorizeBranches)
+ * @returns จำนวนใบที่บันทึก
+ * @throws APIError 400 เมื่อข้อมูลไม่ถูกต้อง
+ */
+export async function schedulePayments(inputs: PaymentScheduleInput[], createdBy: string): Promise<number> {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('ไม่มีรายการที่จะนัดจ่าย');
+  }
+  if (inputs.length > MAX_ITEMS) {
+    throw ErrorTypes.BAD_REQUEST(`นัดจ่ายได้ครั้งละไม่เกิน ${MAX_ITEMS} ใบ`);
+  }
+
+  const statements: InStatement[] = inputs.map((input) => {
+    const values = normalizeSchedule(input);
+    return {
+      sql: `INSERT INTO ap_payment_schedule (branch_sync, doc_no, scheduled_date, amount, note, created_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (branch_sync, doc_no) DO UPDATE SET
+              scheduled_date = excluded.scheduled_date,
+              amount = excluded.amount,
+              note = excluded.note,
+              created_by = excluded.created_by,
+              updated_at = datetime('now')`,
+      args: [values.branchSync, values.docNo, values.scheduledDate, values.amount, values.note, createdBy],
+    };
+  });
+
+  await ensureSchema();
+  await authDb.batch(statements, 'write');
+  return statements.length;
+}
+
+/**
+ * ยกเลิกการนัดจ่ายของใบซื้อ
+ * @throws APIError 404 เมื่อไม่มีการนัดจ่าย
+ */
+export async function unschedulePayment(branchSync: string, docNo: string): Promise<void> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'DELETE FROM ap_payment_schedule WHERE branch_sync = ? AND doc_no = ?',
+    args: [branchSync, docNo],
+  });
+  if (result.rowsAffected === 0) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบการนัดจ่ายของ ${docNo}`);
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * AP Payment Planning Types
+ * แผนจ่ายเจ้าหนี้: ใบซื้อเงินเชื่อที่ค้างจ่ายจัดเป็นรายสัปดาห์ตามวันครบกำหนด/วันนัดจ่าย
+ * เทียบกับเงินรับเฉลี่ยต่อสัปดาห์ เป็นประมาณการเงินสดคงเหลือรายสัปดาห์
+ */
+
+/** จำนวนสัปดาห์ที่ประมาณการได้ */
+export const FORECAST_WEEK_OPTIONS = [4, 8, 12] as const;
+export const DEFAULT_FORECAST_WEEKS = 8;
+/** จำนวนสัปดาห์ย้อนหลังที่ใช้เฉลี่ยเงินรับ */
+export const INFLOW_HISTORY_WEEKS = 8;
+
+/** ใบซื้อเงินเชื่อที่ยังค้างจ่าย */
+export interface PayableInvoice {
+  branchSync: string;
+  docNo: string;
+  supplierCode: string;
+  supplierName: string;
+  docDate: string;
+  dueDate: string;
+  outstanding: number;
+  /** จำนวนวันเกินกำหนด ณ วันนี้ (ติดลบ = ยังไม่ถึงกำหนด) */
+  daysOverdue: number;
+  /** นัดจ่ายไว้แล้ว (null = ยังไม่นัด) */
+  schedule: PaymentSchedule | null;
+}
+
+/** การนัดจ่ายเงินของใบซื้อหนึ่งใบ */
+export interface PaymentSchedule {
+  branchSync: string;
+  docNo: string;
+  /** วันที่จะจ่าย YYYY-MM-DD */
+  scheduledDate: string;
+  /** ยอดที่จะจ่าย (null = จ่ายเต็มยอดค้าง) */
+  amount: number | null;
+  note: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export interface PaymentScheduleInput {
+  branchSync: string;
+  docNo: string;
+  scheduledDate: string;
+  amount?: number | string | null;
+  note?: string;
+}
+
+/** เงินรับต่อสัปดาห์จาก payment_transaction */
+export interface WeeklyInflow {
+  weekStart: string;
+  amount: number;
+}
+
+/** ประมาณการเงินสดหนึ่งสัปดาห์ */
+export interface CashForecastWeek {
+  /** วันจันทร์ของสัปดาห์ YYYY-MM-DD */
+  weekStart: string;
+  weekEnd: string;
+  /** ยอดครบกำหนดที่ยังไม่นัดจ่าย (สัปดาห์แรกรวมยอดเกินกำหนด) */
+  dueAmount: number;
+  /** ยอดที่นัดจ่ายในสัปดาห์ */
+  scheduledAmount: number;
+  outflow: number;
+  expectedInflow: number;
+  net: number;
+  cumulativeNet: number;
+  invoiceCount: number;
+}
+
+export interface PaymentPlan {
+  today: string;
+  weeks: CashForecastWeek[];
+  /** ยอดเกินกำหนดที่ยังไม่นัดจ่าย (รวมอยู่ในสัปดาห์แรกแล้ว) */
+  overdue: { amount: number; count: number };
+  /** ยอดที่ครบกำหนดหลังช่วงประมาณการ */
+  later: { amount: number; count: number };
+  /** เงินรับเฉลี่ยต่อสัปดาห์ที่ใช้ประมาณการ */
+  averageWeeklyInflow: number;
+  inflowHistory: WeeklyInflow[];
+  invoices: PayableInvoice[];
+}
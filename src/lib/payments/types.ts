@@ -0,0 +1,68 @@
+/**
+ * Payment Analytics Types
+ * ช่องทางชำระเงินและคอลัมน์ยอดใน payment_transaction กับรูปแบบผลวิเคราะห์การรับ/จ่ายเงิน:
+ * แนวโน้มตามช่องทาง กระแสรับ-จ่าย ค่าธรรมเนียมบัตร ภาษีหัก ณ ที่จ่าย และเงินรับต่อกิจการ
+ */
+
+/** ช่องทางชำระเงินและคอลัมน์ใน payment_transaction */
+export const PAYMENT_METHODS = [
+  { key: 'cash', label: 'เงินสด', columns: ['cash_amount'] },
+  { key: 'transfer', label: 'เงินโอน', columns: ['transfer_amount'] },
+  { key: 'cheque', label: 'เช็ค', columns: ['cheque_amount'] },
+  { key: 'card', label: 'บัตรเครดิต', columns: ['card_amount'] },
+  { key: 'coupon', label: 'คูปอง', columns: ['coupon_amount'] },
+  { key: 'point', label: 'แต้ม', columns: ['point_amount'] },
+  { key: 'wallet', label: 'Wallet', columns: ['wallet_amount'] },
+  { key: 'other', label: 'อื่นๆ', columns: ['other_payment_amount', 'deposit_amount', 'petty_cash_amount'] },
+] as const;
+
+export type PaymentMethodKey = (typeof PAYMENT_METHODS)[number]['key'];
+
+export type PaymentMethodAmounts = Record<PaymentMethodKey, number>;
+
+/** ช่วงเวลาที่ใช้จัดกลุ่ม: รายวันเมื่อช่วงไม่เกิน 31 วัน นอกนั้นรายเดือน */
+export type PaymentPeriod = 'day' | 'month';
+
+/** เงินรับแยกช่องทางต่อช่วงเวลา */
+export interface PaymentMethodTrend extends PaymentMethodAmounts {
+  /** YYYY-MM-DD หรือ YYYY-MM */
+  period: string;
+  total: number;
+}
+
+/** เงินรับเทียบเงินจ่ายต่อช่วงเวลา */
+export interface PaymentFlow {
+  period: string;
+  inflow: number;
+  outflow: number;
+  net: number;
+  inflowCount: number;
+  outflowCount: number;
+}
+
+/** ยอดรับบัตรเครดิตและค่าธรรมเนียมบัตรต่อช่วงเวลา */
+export interface CardFee {
+  period: string;
+  cardAmount: number;
+  creditCharge: number;
+  /** ค่าธรรมเนียม ÷ ยอดบัตร (%) */
+  feeRate: number;
+  docCount: number;
+}
+
+/** ภาษีหัก ณ ที่จ่ายต่อช่วงเวลา */
+export interface WithholdingTax {
+  period: string;
+  /** ลูกค้าหักไว้ตอนรับเงิน (pay_type = in) */
+  withheldOnReceipts: number;
+  /** เราหักไว้ตอนจ่ายเงิน (pay_type = out) ต้องนำส่ง */
+  withheldOnPayments: number;
+  docCount: number;
+}
+
+/** เงินรับต่อกิจการแยกช่องทาง */
+export interface CashInByBranch extends PaymentMethodAmounts {
+  branchSync: string;
+  total: number;
+  docCount: number;
+}
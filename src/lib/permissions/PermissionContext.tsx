@@ -5,7 +5,9 @@
  * React Context สำหรับจัดการสิทธิ์การเข้าถึงทั้งระบบ
  */
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { checkComponentPermission } from './check';
 import type {
   User,
   Module,
@@ -14,7 +16,18 @@ import type {
   PermissionCheckResult,
   PermissionContextState,
 } from './types';
-import { getMockCurrentUser } from './mockData';
+
+export const CURRENT_USER_QUERY_KEY = ['auth', 'currentUser'];
+
+async function fetchCurrentUser(): Promise<User | null> {
+  const res = await fetch('/api/auth/user');
+  if (res.status === 401) return null;
+  const json = await res.json();
+  if (!res.ok || !json.success) {
+    throw new Error(json.error || 'ไม่สามารถโหลดข้อมูลผู้ใช้ได้');
+  }
+  return json.data as User;
+}
 
 // Create Context
 const PermissionContext = createContext<PermissionContextState | undefined>(undefined);
@@ -30,78 +43,26 @@ interface PermissionProviderProps {
  * ใช้ครอบทั้งแอพเพื่อให้ทุก Component เข้าถึง Permission ได้
  */
 export function PermissionProvider({ children, initialUser }: PermissionProviderProps) {
-  const [user, setUser] = useState<User | null>(initialUser || null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Load user on mount
-  useEffect(() => {
-    try {
-      // ในโปรเจคจริง จะเรียก API เพื่อดึงข้อมูล User ที่ล็อกอินอยู่
-      // ตอนนี้ใช้ Mock Data
-      const currentUser = getMockCurrentUser();
-      setUser(currentUser);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'ไม่สามารถโหลดข้อมูลผู้ใช้ได้');
-      console.error('Error loading user:', err);
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  // Role มาจากฐานข้อมูล โหลดใหม่เมื่อกลับมาที่หน้าต่างหรือทุก 1 นาที
+  // เพื่อให้การแก้ไขสิทธิ์โดยผู้ดูแลมีผลโดยไม่ต้อง reload
+  const { data, isLoading, error: queryError } = useQuery({
+    queryKey: CURRENT_USER_QUERY_KEY,
+    queryFn: fetchCurrentUser,
+    initialData: initialUser ?? undefined,
+    staleTime: 60 * 1000,
+    refetchInterval: 60 * 1000,
+    refetchOnWindowFocus: true,
+  });
+
+  const user = data ?? null;
+  const loading = isLoading;
+  const error = queryError ? queryError.message : null;
 
   /**
    * ตรวจสอบสิทธิ์การเข้าถึง Component
    */
-  const checkPermission = (componentKey: ComponentKey): PermissionCheckResult => {
-    if (!user) {
-      return {
-        allowed: false,
-        level: 'none',
-        reason: 'ไม่พบข้อมูลผู้ใช้',
-      };
-    }
-
-    // แยก Module จาก Component Key (เช่น 'sales.kpis' -> 'sales')
-    const module = componentKey.split('.')[0] as Module;
-
-    // หา Permission ของ Module นี้
-    const modulePermission = user.role.permissions.find((p) => p.module === module);
-
-    if (!modulePermission) {
-      return {
-        allowed: false,
-        level: 'none',
-        reason: `ไม่มีสิทธิ์เข้าถึง Module: ${module}`,
-      };
-    }
-
-    // ถ้า Module level เป็น 'none' ก็ไม่อนุญาต
-    if (modulePermission.level === 'none') {
-      return {
-        allowed: false,
-        level: 'none',
-        reason: `ไม่มีสิทธิ์เข้าถึง Module: ${module}`,
-      };
-    }
-
-    // ตรวจสอบ Component-level Permission
-    const componentLevel = modulePermission.components[componentKey];
-
-    if (componentLevel === undefined) {
-      // ถ้าไม่ได้กำหนด Component-level ใช้ Module-level แทน
-      // ณ จุดนี้ modulePermission.level จะไม่ใช่ 'none' เพราะได้ตรวจสอบไปแล้วก่อนหน้า
-      return {
-        allowed: true,
-        level: modulePermission.level,
-      };
-    }
-
-    return {
-      allowed: componentLevel !== 'none',
-      level: componentLevel,
-    };
-  };
+  const checkPermission = (componentKey: ComponentKey): PermissionCheckResult =>
+    checkComponentPermission(user, componentKey);
 
   /**
    * ตรวจสอบว่ามีสิทธิ์เข้าถึง Module หรือไม่
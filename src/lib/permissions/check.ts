@@ -0,0 +1,48 @@
+/**
+ * Permission Check
+ * ตรวจสอบสิทธิ์ราย Component จาก Role ของผู้ใช้ ใช้ทั้งใน PermissionContext (client)
+ * และงานฝั่ง server ที่ไม่มี session เช่น รายงานตามกำหนดเวลา
+ */
+
+import type { ComponentKey, Module, PermissionCheckResult, User } from './types';
+
+export function checkComponentPermission(user: User | null, componentKey: ComponentKey): PermissionCheckResult {
+  if (!user) {
+    return {
+      allowed: false,
+      level: 'none',
+      reason: 'ไม่พบข้อมูลผู้ใช้',
+    };
+  }
+
+  // แยก Module จาก Component Key (เช่น 'sales.kpis' -> 'sales')
+  const moduleName = componentKey.split('.')[0] as Module;
+
+  // หา Permission ของ Module นี้
+  const modulePermission = user.role.permissions.find((p) => p.module === moduleName);
+
+  // ถ้าไม่มี Module หรือ Module level เป็น 'none' ก็ไม่อนุญาต
+  if (!modulePermission || modulePermission.level === 'none') {
+    return {
+      allowed: false,
+      level: 'none',
+      reason: `ไม่มีสิทธิ์เข้าถึง Module: ${moduleName}`,
+    };
+  }
+
+  // ตรวจสอบ Component-level Permission
+  const componentLevel = modulePermission.components[componentKey];
+
+  if (componentLevel === undefined) {
+    // ถ้าไม่ได้กำหนด Component-level ใช้ Module-level แทน
+    return {
+      allowed: true,
+      level: modulePermission.level,
+    };
+  }
+
+  return {
+    allowed: componentLevel !== 'none',
+    level: componentLevel,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Permission Catalog
+ * รายการ Module / Component / Level ที่ใช้ตรวจสอบข้อมูลจาก API และแสดงในหน้าจัดการสิทธิ์
+ */
+
+import type { ComponentKey, Module, PermissionLevel } from './types';
+
+export const ADMIN_ROLE_ID = 'admin';
+
+export const PERMISSION_LEVELS: PermissionLevel[] = ['none', 'view', 'full'];
+
+export const PERMISSION_LEVEL_LABELS: Record<PermissionLevel, string> = {
+  none: 'ไม่มีสิทธิ์',
+  view: 'ดูอย่างเดียว',
+  full: 'เต็มสิทธิ์',
+};
+
+export const MODULE_LABELS: Record<Module, string> = {
+  accounting: 'บัญชี',
+  sales: 'การขาย',
+  purchase: 'จัดซื้อ',
+  inventory: 'สินค้าคงคลัง',
+};
+
+export const MODULES = Object.keys(MODULE_LABELS) as Module[];
+
+export const MODULE_COMPONENTS: Record<Module, { key: ComponentKey; label: string }[]> = {
+  accounting: [
+    { key: 'accounting.kpis', label: 'KPIs บัญชี' },
+    { key: 'accounting.pl_statement', label: 'งบกำไรขาดทุน' },
+    { key: 'accounting.balance_sheet', label: 'งบแสดงฐานะการเงิน' },
+    { key: 'accounting.cash_flow', label: 'งบกระแสเงินสด' },
+    { key: 'accounting.ar_aging', label: 'อายุลูกหนี้' },
+    { key: 'accounting.ap_aging', label: 'อายุเจ้าหนี้' },
+    { key: 'accounting.revenue_breakdown', label: 'รายละเอียดรายได้' },
+    { key: 'accounting.expense_breakdown', label: 'รายละเอียดค่าใช้จ่าย' },
+    { key: 'accounting.payment_methods', label: 'ช่องทางรับชำระ' },
+    { key: 'accounting.payment_flow', label: 'เงินรับ/เงินจ่าย' },
+    { key: 'accounting.card_fees', label: 'ค่าธรรมเนียมบัตรเครดิต' },
+    { key: 'accounting.withholding_tax', label: 'ภาษีหัก ณ ที่จ่าย' },
+    { key: 'accounting.cash_in_by_branch', label: 'เงินรับตามกิจการ' },
+  ],
+  sales: [
+    { key: 'sales.kpis', label: 'KPIs การขาย' },
+    { key: 'sales.trend', label: 'แนวโน้มยอดขาย' },
+    { key: 'sales.top_products', label: 'สินค้าขายดี' },
+    { key: 'sales.by_branch', label: 'ยอดขายตามสาขา' },
+    { key: 'sales.by_salesperson', label: 'ยอดขายตามพนักงาน' },
+    { key: 'sales.top_customers', label: 'ลูกค้าหลัก' },
+    { key: 'sales.ar_status', label: 'สถานะลูกหนี้' },
+  ],
+  purchase: [
+    { key: 'purchase.kpis', label: 'KPIs จัดซื้อ' },
+    { key: 'purchase.trend', label: 'แนวโน้มการซื้อ' },
+    { key: 'purchase.top_suppliers', label: 'ผู้จำหน่ายหลัก' },
+    { key: 'purchase.by_category', label: 'ซื้อตามหมวดหมู่' },
+    { key: 'purchase.by_brand', label: 'ซื้อตามแบรนด์' },
+    { key: 'purchase.ap_outstanding', label: 'เจ้าหนี้คงค้าง' },
+  ],
+  inventory: [
+    { key: 'inventory.kpis', label: 'KPIs คลังสินค้า' },
+    { key: 'inventory.stock_movement', label: 'การเคลื่อนไหวสต็อก' },
+    { key: 'inventory.low_stock', label: 'สินค้าใกล้หมด' },
+    { key: 'inventory.overstock', label: 'สินค้าเกินคลัง' },
+    { key: 'inventory.slow_moving', label: 'สินค้าเคลื่อนไหวช้า' },
+    { key: 'inventory.turnover', label: 'อัตราหมุนเวียน' },
+    { key: 'inventory.by_branch', label: 'สต็อกตามคลัง' },
+  ],
+};
@@ -1,9 +1,9 @@
 /**
- * Mock Permission Data
- * ข้อมูล Role และ User ตัวอย่างสำหรับทดสอบระบบ Permission
+ * Default Roles
+ * Role เริ่มต้นที่ถูก seed ลงฐานข้อมูลครั้งแรก แก้ไขต่อได้ที่หน้า ตั้งค่า > สิทธิ์ผู้ใช้
  */
 
-import type { Role, User } from './types';
+import type { Role } from './types';
 
 // ==================== Roles ====================
 
@@ -25,6 +25,11 @@ export const AdminRole: Role = {
         'accounting.ap_aging': 'full',
         'accounting.revenue_breakdown': 'full',
         'accounting.expense_breakdown': 'full',
+        'accounting.payment_methods': 'full',
+        'accounting.payment_flow': 'full',
+        'accounting.card_fees': 'full',
+        'accounting.withholding_tax': 'full',
+        'accounting.cash_in_by_branch': 'full',
       },
     },
     {
@@ -86,6 +91,11 @@ export const ManagerRole: Role = {
         'accounting.ap_aging': 'view',
         'accounting.revenue_breakdown': 'view',
         'accounting.expense_breakdown': 'view',
+        'accounting.payment_methods': 'view',
+        'accounting.payment_flow': 'view',
+        'accounting.card_fees': 'view',
+        'accounting.withholding_tax': 'view',
+        'accounting.cash_in_by_branch': 'view',
       },
     },
     {
@@ -236,6 +246,11 @@ export const AccountantRole: Role = {
         'accounting.ap_aging': 'full',
         'accounting.revenue_breakdown': 'full',
         'accounting.expense_breakdown': 'full',
+        'accounting.payment_methods': 'full',
+        'accounting.payment_flow': 'full',
+        'accounting.card_fees': 'full',
+        'accounting.withholding_tax': 'full',
+        'accounting.cash_in_by_branch': 'full',
       },
     },
     {
@@ -279,48 +294,4 @@ export const AccountantRole: Role = {
   ],
 };
 
-// ==================== Mock Users ====================
-
-export const mockUsers: User[] = [
-  {
-    id: '1',
-    username: 'admin',
-    email: 'admin@company.com',
-    role: AdminRole,
-  },
-  {
-    id: '2',
-    username: 'manager',
-    email: 'manager@company.com',
-    role: ManagerRole,
-  },
-  {
-    id: '3',
-    username: 'sales01',
-    email: 'sales@company.com',
-    role: SalesRole,
-  },
-  {
-    id: '4',
-    username: 'purchase01',
-    email: 'purchase@company.com',
-    role: PurchaseRole,
-  },
-  {
-    id: '5',
-    username: 'accountant',
-    email: 'accountant@company.com',
-    role: AccountantRole,
-  },
-];
-
-// ฟังก์ชันสำหรับ Mock Authentication
-export function mockLogin(username: string): User | null {
-  return mockUsers.find((u) => u.username === username) || null;
-}
-
-// ฟังก์ชันสำหรับ Get Current User (Mock)
-export function getMockCurrentUser(): User {
-  // Default to Manager role for testing
-  return mockUsers[1]; // Manager
-}
+export const defaultRoles: Role[] = [AdminRole, ManagerRole, SalesRole, PurchaseRole, AccountantRole];
@@ -21,16 +21,24 @@ export {
   usePermissions,
   useComponentPermission,
   useModuleAccess,
+  CURRENT_USER_QUERY_KEY,
 } from './PermissionContext';
 
-// Mock Data (for development/testing)
+// Default Roles & Catalog (store.ts is server-only and imported directly)
 export {
   AdminRole,
   ManagerRole,
   SalesRole,
   PurchaseRole,
   AccountantRole,
-  mockUsers,
-  mockLogin,
-  getMockCurrentUser,
-} from './mockData';
+  defaultRoles,
+} from './defaultRoles';
+
+export {
+  ADMIN_ROLE_ID,
+  PERMISSION_LEVELS,
+  PERMISSION_LEVEL_LABELS,
+  MODULES,
+  MODULE_LABELS,
+  MODULE_COMPONENTS,
+} from './constants';
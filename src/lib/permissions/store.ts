@@ -0,0 +1,406 @@
+/**
+ * Permission Store
+ * Roles, ModulePermission และการกำหนด Role ให้ผู้ใช้ เก็บในฐานข้อมูล auth (libsql)
+ * อ่านใหม่ทุก request จึงมีผลทันทีโดยไม่ต้อง redeploy
+ */
+
+import 'server-only';
+
+import { headers } from 'next/headers';
+import type { Row } from '@libsql/client';
+import { auth } from '../auth';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import { ADMIN_ROLE_ID, MODULES, MODULE_COMPONENTS, PERMISSION_LEVELS } from './constants';
+import { defaultRoles } from './defaultRoles';
+import type { ComponentKey, ModulePermission, PermissionLevel, Role, User } from './types';
+
+const ROLE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+
+/** Role ของผู้ใช้ที่ยังไม่ถูกกำหนด Role */
+const DEFAULT_ROLE_ID = process.env.DEFAULT_ROLE_ID || 'manager';
+
+/** อีเมลที่ได้ Role admin อัตโนมัติ ถ้ายังไม่ถูกกำหนด Role (ใช้ตั้งผู้ดูแลคนแรก) */
+const adminEmails = (process.env.ADMIN_EMAILS ?? '')
+  .split(',')
+  .map((e) => e.trim())
+  .filter(Boolean);
+
+export interface RoleInput {
+  id?: string;
+  name?: string;
+  description?: string;
+  permissions?: unknown;
+}
+
+export interface UserRoleAssignment {
+  userId: string;
+  name: string;
+  email: string;
+  roleId: string;
+  /** false = ใช้ Role เริ่มต้น (ยังไม่ถูกกำหนด) */
+  assigned: boolean;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema(
+  [
+    `CREATE TABLE IF NOT EXISTS role (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`,
+    `CREATE TABLE IF NOT EXISTS role_permission (
+      role_id TEXT NOT NULL,
+      module TEXT NOT NULL,
+      level TEXT NOT NULL,
+      components TEXT NOT NULL DEFAULT '{}',
+      PRIMARY KEY (role_id, module)
+    )`,
+    `CREATE TABLE IF NOT EXISTS user_role (
+      user_id TEXT PRIMARY KEY,
+      role_id TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )`,
+  ],
+  async () => {
+    const result = await authDb.execute('SELECT count(*) AS count FROM role');
+    if (Number(result.rows[0]?.count) > 0) return;
+    await authDb.batch(defaultRoles.flatMap((role) => roleWriteStatements(role)), 'write');
+  }
+);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function isLevel(value: unknown): value is PermissionLevel {
+  return PERMISSION_LEVELS.includes(value as PermissionLevel);
+}
+
+/**
+ * รับ permissions จาก client แล้วคืนค่าที่ครบทุก Module และมีเฉพาะ Component ที่รู้จัก
+ */
+export function normalizePermissions(input: unknown): ModulePermission[] {
+  if (!Array.isArray(input)) {
+    throw ErrorTypes.BAD_REQUEST('permissions ต้องเป็น array');
+  }
+
+  return MODULES.map((module) => {
+    const entry = input.find((p) => p && typeof p === 'object' && p.module === module) as
+      | { level?: unknown; components?: Record<string, unknown> }
+      | undefined;
+
+    const level: PermissionLevel = isLevel(entry?.level) ? entry.level : 'none';
+    const components: Partial<Record<ComponentKey, PermissionLevel>> = {};
+
+    for (const { key } of MODULE_COMPONENTS[module]) {
+      const componentLevel = entry?.components?.[key];
+      if (isLevel(componentLevel)) {
+        components[key] = componentLevel;
+      }
+    }
+
+    return { module, level, components };
+  });
+}
+
+function roleWriteStatements(role: Role) {
+  return [
+    {
+      sql: `INSERT INTO role (id, name, description) VALUES (?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET name = excluded.name, description = excluded.description, updated_at = datetime('now')`,
+      args: [role.id, role.name, role.description],
+    },
+    { sql: 'DELETE FROM role_permission WHERE role_id = ?', args: [role.id] },
+    ...role.permissions.map((p) => ({
+      sql: 'INSERT INTO role_permission (role_id, module, level, components) VALUES (?, ?, ?, ?)',
+      args: [role.id, p.module, p.level, JSON.stringify(p.components)],
+    })),
+  ];
+}
+
+function rowsToRoles(roleRows: Row[], permissionRows: Row[]): Role[] {
+  return roleRows.map((row) => {
+    const id = String(row.id);
+    const stored = permissionRows
+      .filter((p) => p.role_id === id)
+      .map((p) => ({
+        module: p.module,
+        level: p.level,
+        components: JSON.parse(String(p.components || '{}')),
+      }));
+
+    return {
+      id,
+      name: String(row.name),
+      description: String(row.description ?? ''),
+      permissions: normalizePermissions(stored),
+    };
+  });
+}
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+export async function listRoles(): Promise<Role[]> {
+  await ensureSchema();
+  const [roles, permissions] = await authDb.batch(
+    [
+      'SELECT id, name, description FROM role ORDER BY created_at, id',
+      'SELECT role_id, module, level, components FROM role_permission',
+    ],
+    'read'
+  );
+  return rowsToRoles(roles.rows, permissions.rows);
+}
+
+export async function getRole(roleId: string): Promise<Role | null> {
+  await ensureSchema();
+  const [roles, permissions] = await authDb.batch(
+    [
+      { sql: 'SELECT id, name, description FROM role WHERE id = ?', args: [roleId] },
+      { sql: 'SELECT role_id, module, level, components FROM role_permission WHERE role_id = ?', args: [roleId] },
+    ],
+    'read'
+  );
+  return rowsToRoles(roles.rows, permissions.rows)[0] ?? null;
+}
+
+export async function createRole(input: RoleInput): Promise<Role> {
+  const id = input.id?.trim().toLowerCase() ?? '';
+  const name = input.name?.trim() ?? '';
+
+  if (!ROLE_ID_PATTERN.test(id)) {
+    throw ErrorTypes.BAD_REQUEST('รหัส Role ต้องเป็น a-z, 0-9, _ หรือ - ความยาว 2-32 ตัวอักษร');
+  }
+  if (!name) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อ Role');
+  }
+  if (await getRole(id)) {
+    throw ErrorTypes.CONFLICT(`มี Role รหัส ${id} อยู่แล้ว`);
+  }
+
+  const role: Role = {
+    id,
+    name,
+    description: input.description?.trim() ?? '',
+    permissions: normalizePermissions(input.permissions ?? []),
+  };
+  await authDb.batch(roleWriteStatements(role), 'write');
+  return role;
+}
+
+export async function updateRole(roleId: string, input: RoleInput): Promise<Role> {
+  const existing = await getRole(roleId);
+  if (!existing) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบ Role: ${roleId}`);
+  }
+  if (roleId === ADMIN_ROLE_ID && input.permissions !== undefined) {
+    throw ErrorTypes.BAD_REQUEST('ไม่สามารถแก้ไขสิทธิ์ของ Role ผู้ดูแลระบบได้');
+  }
+
+  const name = input.name !== undefined ? input.name.trim() : existing.name;
+  if (!name) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อ Role');
+  }
+
+  const role: Role = {
+    id: roleId,
+    name,
+    description: input.description !== undefined ? input.description.trim() : existing.description,
+    permissions: input.permissions !== undefined ? normalizePermissions(input.permissions) : existing.permissions,
+  };
+  await authDb.batch(roleWriteStatements(role), 'write');
+  return role;
+}
+
+export async function deleteRole(roleId: string): Promise<void> {
+  if (roleId === ADMIN_ROLE_ID || roleId === DEFAULT_ROLE_ID) {
+    throw ErrorTypes.BAD_REQUEST('ไม่สามารถลบ Role ผู้ดูแลระบบหรือ Role เริ่มต้นได้');
+  }
+  if (!(await getRole(roleId))) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบ Role: ${roleId}`);
+  }
+
+  const assigned = await authDb.execute({
+    sql: 'SELECT count(*) AS count FROM user_role WHERE role_id = ?',
+    args: [roleId],
+  });
+  const count = Number(assigned.rows[0]?.count) || 0;
+  if (count > 0) {
+    throw ErrorTypes.CONFLICT(`ยังมีผู้ใช้ ${count} คนที่ใช้ Role นี้อยู่`);
+  }
+
+  await authDb.batch(
+    [
+      { sql: 'DELETE FROM role_permission WHERE role_id = ?', args: [roleId] },
+      { sql: 'DELETE FROM role WHERE id = ?', args: [roleId] },
+    ],
+    'write'
+  );
+}
+
+// ============================================================================
+// User Assignments
+// ============================================================================
+
+function fallbackRoleId(email: string): string {
+  return adminEmails.includes(email) ? ADMIN_ROLE_ID : DEFAULT_ROLE_ID;
+}
+
+export async function getUserRoleId(userId: string, email: string): Promise<string> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT role_id FROM user_role WHERE user_id = ?',
+    args: [userId],
+  });
+  const roleId = result.rows[0]?.role_id;
+  return roleId ? String(roleId) : fallbackRoleId(email);
+}
+
+export async function listUserRoles(): Promise<UserRoleAssignment[]> {
+  await ensureSchema();
+  const result = await authDb.execute(`
+    SELECT u.id, u.name, u.email, ur.role_id
+    FROM "user" u
+    LEFT JOIN user_role ur ON ur.user_id = u.id
+    ORDER BY u.email
+  `);
+
+  return result.rows.map((row) => ({
+    userId: String(row.id),
+    name: String(row.name ?? ''),
+    email: String(row.email),
+    roleId: row.role_id ? String(row.role_id) : fallbackRoleId(String(row.email)),
+    assigned: Boolean(row.role_id),
+  }));
+}
+
+/**
+ * กำหนด Role ให้ผู้ใช้ ส่ง null เพื่อกลับไปใช้ Role เริ่มต้น
+ */
+export async function setUserRole(userId: string, roleId: string | null): Promise<void> {
+  await ensureSchema();
+  const user = await authDb.execute({ sql: 'SELECT id FROM "user" WHERE id = ?', args: [userId] });
+  if (user.rows.length === 0) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบผู้ใช้: ${userId}`);
+  }
+
+  if (roleId === null) {
+    await authDb.execute({ sql: 'DELETE FROM user_role WHERE user_id = ?', args: [userId] });
+    return;
+  }
+
+  if (!(await getRole(roleId))) {
+    throw ErrorTypes.BAD_REQUEST(`ไม่พบ Role: ${roleId}`);
+  }
+  await authDb.execute({
+    sql: `INSERT INTO user_role (user_id, role_id) VALUES (?, ?)
+          ON CONFLICT(user_id) DO UPDATE SET role_id = excluded.role_id, updated_at = datetime('now')`,
+    args: [userId, roleId],
+  });
+}
+
+// ============================================================================
+// Current User
+// ============================================================================
+
+function parseAllowedBranches(raw: unknown): string[] {
+  if (Array.isArray(raw)) {
+    return raw.filter((b): b is string => typeof b === 'string');
+  }
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    try {
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.filter((b): b is string => typeof b === 'string') : [];
+    } catch (error) {
+      console.error('Failed to parse allowed_branches:', error);
+    }
+  }
+  return [];
+}
+
+const noAccessRole = (id: string): Role => ({
+  id,
+  name: id,
+  description: '',
+  permissions: normalizePermissions([]),
+});
+
+async function buildUser(account: {
+  id: string;
+  email: string;
+  name?: string | null;
+  allowed_branches?: unknown;
+}): Promise<User> {
+  const roleId = await getUserRoleId(account.id, account.email);
+  const role = (await getRole(roleId)) ?? (await getRole(DEFAULT_ROLE_ID)) ?? noAccessRole(roleId);
+
+  return {
+    id: account.id,
+    username: account.name || account.email,
+    email: account.email,
+    role,
+    allowed_branches: parseAllowedBranches(account.allowed_branches),
+  };
+}
+
+/**
+ * ผู้ใช้ที่ล็อกอินอยู่ พร้อม Role จากฐานข้อมูล (null = ไม่มี session)
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session?.user) return null;
+
+  return buildUser(session.user as typeof session.user & { allowed_branches?: unknown });
+}
+
+/**
+ * ผู้ใช้ตาม id สำหรับงานเบื้องหลังที่ไม่มี session (เช่น รายงานตามกำหนดเวลา)
+ * null = ไม่พบผู้ใช้
+ */
+export async function getUser(userId: string): Promise<User | null> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT id, email, name, allowed_branches FROM "user" WHERE id = ?',
+    args: [userId],
+  });
+  const row = result.rows[0];
+  if (!row) return null;
+
+  return buildUser({
+    id: String(row.id),
+    email: String(row.email),
+    name: row.name ? String(row.name) : null,
+    allowed_branches: row.allowed_branches,
+  });
+}
+
+/**
+ * @throws APIError 401 เมื่อไม่มี session
+ */
+export async function requireUser(): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw ErrorTypes.UNAUTHORIZED();
+  }
+  return user;
+}
+
+/**
+ * @throws APIError 401 เมื่อไม่มี session, 403 เมื่อไม่ใช่ผู้ดูแลระบบ
+ */
+export async function requireAdmin(): Promise<User> {
+  const user = await requireUser();
+  if (user.role.id !== ADMIN_ROLE_ID) {
+    throw ErrorTypes.FORBIDDEN('เฉพาะผู้ดูแลระบบเท่านั้น');
+  }
+  return user;
+}
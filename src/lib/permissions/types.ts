@@ -20,6 +20,11 @@ export type ComponentKey =
   | 'accounting.ap_aging'
   | 'accounting.revenue_breakdown'
   | 'accounting.expense_breakdown'
+  | 'accounting.payment_methods'
+  | 'accounting.payment_flow'
+  | 'accounting.card_fees'
+  | 'accounting.withholding_tax'
+  | 'accounting.cash_in_by_branch'
 
   // Sales Components
   | 'sales.kpis'
@@ -0,0 +1,132 @@
+/**
+ * Customer receivables calculations
+ *
+ * DSO (days sales outstanding) = outstanding / credit sales of the range × days in
+ * the range. Statement balances run from the opening balance: invoices add, receipts
+ * subtract. Also attaches the latest collection note and follow-up flag to each
+ * customer's aging row, and flattens a statement into export rows.
+ */
+
+import type { DateRange } from '../data/types';
+import type { ReportRowStyle } from '../exportExcel';
+import type { CollectionNote, CustomerAging, CustomerStatement, CustomerStatementLine } from './types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** จำนวนวันของช่วงวันที่ (รวมวันแรกและวันสุดท้าย) */
+function daysInRange(range: DateRange): number {
+  return Math.round((Date.parse(`${range.end}T00:00:00Z`) - Date.parse(`${range.start}T00:00:00Z`)) / 86_400_000) + 1;
+}
+
+/**
+ * DSO เป็นวัน (null เมื่อไม่มียอดขายเงินเชื่อในช่วง)
+ */
+export function daysSalesOutstanding(outstanding: number, creditSales: number, range: DateRange): number | null {
+  if (creditSales <= 0) return null;
+  return Math.round((outstanding / creditSales) * daysInRange(range) * 10) / 10;
+}
+
+/** บันทึกที่ต้องติดตามแล้ว: ถึงวันติดตาม หรือเลยวันนัดชำระโดยยังไม่ปิด */
+export function isFollowUpDue(note: CollectionNote, today: string): boolean {
+  if (note.status !== 'open') return false;
+  return (!!note.followUpDate && note.followUpDate <= today) || (!!note.promisedDate && note.promisedDate < today);
+}
+
+/** วันที่เร็วที่สุดที่ไม่ว่าง */
+function earliest(dates: (string | null)[]): string | null {
+  return dates.filter((date): date is string => !!date).sort()[0] ?? null;
+}
+
+/**
+ * เติมวันติดตามถัดไปและวันนัดชำระจากบันทึกที่ยังเปิดอยู่ลงในอายุหนี้ของลูกค้า
+ */
+export function withCollectionNotes(customers: CustomerAging[], notes: CollectionNote[]): CustomerAging[] {
+  const byCustomer = new Map<string, CollectionNote[]>();
+  for (const note of notes) {
+    if (note.status !== 'open') continue;
+    byCustomer.set(note.customerCode, [...(byCustomer.get(note.customerCode) ?? []), note]);
+  }
+
+  return customers.map((customer) => {
+    const open = byCustomer.get(customer.customerCode) ?? [];
+    return {
+      ...customer,
+      nextFollowUp: earliest(open.map((note) => note.followUpDate)),
+      promisedDate: earliest(open.map((note) => note.promisedDate)),
+    };
+  });
+}
+
+/**
+ * ใบแจ้งยอดจากยอดยกมาและรายการในช่วง คำนวณยอดคงเหลือสะสมทีละบรรทัด
+ */
+export function buildCustomerStatement(input: {
+  customerCode: string;
+  customerName: string;
+  dateRange: DateRange;
+  openingBalance: number;
+  lines: Omit<CustomerStatementLine, 'balance'>[];
+  aging: CustomerAging | null;
+}): CustomerStatement {
+  let balance = round2(input.openingBalance);
+  const lines = input.lines.map((line) => {
+    balance = round2(balance + line.debit - line.credit);
+    return { ...line, balance };
+  });
+
+  return { ...input, openingBalance: round2(input.openingBalance), lines, closingBalance: balance };
+}
+
+/** หัวคอลัมน์ของใบแจ้งยอดสำหรับ exportStyledReport / exportStyledPdfReport */
+export const CUSTOMER_STATEMENT_HEADERS: Record<string, string> = {
+  date: 'วันที่',
+  docNo: 'เลขที่เอกสาร',
+  description: 'รายการ',
+  dueDate: 'ครบกำหนด',
+  debit: 'ตั้งหนี้',
+  credit: 'รับชำระ',
+  balance: 'ยอดคงเหลือ',
+};
+
+export const CUSTOMER_STATEMENT_CURRENCY_COLUMNS = ['debit', 'credit', 'balance'];
+
+export interface CustomerStatementRow {
+  date: string;
+  docNo: string;
+  description: string;
+  dueDate: string;
+  debit: number | null;
+  credit: number | null;
+  balance: number;
+  style?: ReportRowStyle;
+}
+
+/**
+ * แถวของใบแจ้งยอดสำหรับส่งออก: ยอดยกมา รายการ และยอดคงเหลือปลายงวด
+ */
+export function customerStatementRows(statement: CustomerStatement): CustomerStatementRow[] {
+  const summaryRow = (date: string, description: string, balance: number, style: ReportRowStyle) => ({
+    date,
+    docNo: '',
+    description,
+    dueDate: '',
+    debit: null,
+    credit: null,
+    balance,
+    style,
+  });
+
+  return [
+    summaryRow(statement.dateRange.start, 'ยอดยกมา', statement.openingBalance, 'section'),
+    ...statement.lines.map((line) => ({
+      date: line.date,
+      docNo: line.docNo,
+      description: line.kind === 'invoice' ? 'ใบแจ้งหนี้' : 'รับชำระ',
+      dueDate: line.dueDate ?? '',
+      debit: line.debit || null,
+      credit: line.credit || null,
+      balance: line.balance,
+    })),
+    summaryRow(statement.dateRange.end, 'ยอดคงเหลือ', statement.closingBalance, 'total'),
+  ];
+}
@@ -0,0 +1,233 @@
+/**
+ * Collection Notes Store
+ * บันทึกการติดตามหนี้ วันนัดชำระ และวันติดตามครั้งถัดไป เก็บในฐานข้อมูล auth (libsql)
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import { isFollowUpDue } from './receivables';
+import type { CollectionNote, CollectionNoteInput, CollectionNoteStatus } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MAX_NOTE_LENGTH = 2000;
+const STATUSES: CollectionNoteStatus[] = ['open', 'done'];
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS ar_collection_note (
+    id TEXT PRIMARY KEY,
+    customer_code TEXT NOT NULL,
+    customer_name TEXT NOT NULL DEFAULT '',
+    branch_sync TEXT NOT NULL DEFAULT '',
+    note TEXT NOT NULL,
+    promised_date TEXT,
+    promised_amount REAL,
+    follow_up_date TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    created_by TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_ar_collection_note_customer ON ar_collection_note(customer_code, created_at)',
+  'CREATE INDEX IF NOT EXISTS idx_ar_collection_note_status ON ar_collection_note(status, follow_up_date)',
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+const optionalText = (value: unknown) => (value === null || value === undefined || value === '' ? null : String(value));
+
+function rowToNote(row: Row): CollectionNote {
+  return {
+    id: String(row.id),
+    customerCode: String(row.customer_code),
+    customerName: String(row.customer_name ?? ''),
+    branchSync: String(row.branch_sync ?? ''),
+    note: String(row.note),
+    promisedDate: optionalText(row.promised_date),
+    promisedAmount: row.promised_amount === null || row.promised_amount === undefined ? null : Number(row.promised_amount),
+    followUpDate: optionalText(row.follow_up_date),
+    status: String(row.status) as CollectionNoteStatus,
+    createdBy: String(row.created_by ?? ''),
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/** เงื่อนไขกิจการ: บันทึกของกิจการที่เลือก และบันทึกที่ไม่ระบุกิจการ */
+function branchCondition(branches?: string[]): { sql: string; args: string[] } {
+  if (!branches || branches.length === 0 || branches.includes('ALL')) {
+    return { sql: '', args: [] };
+  }
+  return { sql: ` AND (branch_sync = '' OR branch_sync IN (${branches.map(() => '?').join(', ')}))`, args: branches };
+}
+
+/**
+ * @throws APIError 400
+ */
+function parseDate(value: unknown, label: string): string | null {
+  const text = optionalText(value);
+  if (text === null) return null;
+  if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(text))) {
+    throw ErrorTypes.BAD_REQUEST(`${label}ต้องอยู่ในรูปแบบ YYYY-MM-DD`);
+  }
+  return text;
+}
+
+/**
+ * รวมข้อมูลที่ส่งมากับค่าเดิม แล้วตรวจสอบความถูกต้อง
+ * @throws APIError 400
+ */
+function normalizeNote(input: CollectionNoteInput, existing?: CollectionNote) {
+  const pick = <K extends keyof CollectionNoteInput>(key: K) => (key in input ? input[key] : existing?.[key]);
+
+  const customerCode = String(pick('customerCode') ?? '').trim();
+  if (!customerCode) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุรหัสลูกค้า');
+  }
+  const branchSync = String(pick('branchSync') ?? '').trim();
+  if (!branchSync) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาเลือกกิจการ');
+  }
+  if (!BRANCH_CODE_PATTERN.test(branchSync)) {
+    throw ErrorTypes.BAD_REQUEST(`รหัสกิจการไม่ถูกต้อง: ${branchSync}`);
+  }
+  const note = String(pick('note') ?? '').trim();
+  if (!note) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุรายละเอียดการติดตาม');
+  }
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw ErrorTypes.BAD_REQUEST(`รายละเอียดยาวได้ไม่เกิน ${MAX_NOTE_LENGTH} ตัวอักษร`);
+  }
+
+  const amount = pick('promisedAmount');
+  const promisedAmount = amount === null || amount === undefined || String(amount) === '' ? null : Number(amount);
+  if (promisedAmount !== null && (!Number.isFinite(promisedAmount) || promisedAmount < 0)) {
+    throw ErrorTypes.BAD_REQUEST('ยอดนัดชำระต้องเป็นตัวเลขไม่ติดลบ');
+  }
+
+  const status = pick('status') ?? 'open';
+  if (!STATUSES.includes(status)) {
+    throw ErrorTypes.BAD_REQUEST('สถานะต้องเป็น open หรือ done');
+  }
+
+  return {
+    customerCode,
+    customerName: String(pick('customerName') ?? '').trim(),
+    branchSync,
+    note,
+    promisedDate: parseDate(pick('promisedDate'), 'วันนัดชำระ'),
+    promisedAmount,
+    followUpDate: parseDate(pick('followUpDate'), 'วันติดตาม'),
+    status,
+  };
+}
+
+// ============================================================================
+// Notes
+// ============================================================================
+
+/**
+ * บันทึกการติดตาม ล่าสุดก่อน (ระบุลูกค้าเพื่อดูเฉพาะรายนั้น)
+ */
+export async function listCollectionNotes(options: { customerCode?: string; branches?: string[]; status?: CollectionNoteStatus } = {}): Promise<CollectionNote[]> {
+  await ensureSchema();
+  const filter = branchCondition(options.branches);
+  const conditions = ['1 = 1'];
+  const args: string[] = [];
+  if (options.customerCode) {
+    conditions.push('customer_code = ?');
+    args.push(options.customerCode);
+  }
+  if (options.status) {
+    conditions.push('status = ?');
+    args.push(options.status);
+  }
+
+  const result = await authDb.execute({
+    sql: `SELECT * FROM ar_collection_note WHERE ${conditions.join(' AND ')}${filter.sql} ORDER BY created_at DESC`,
+    args: [...args, ...filter.args],
+  });
+  return result.rows.map(rowToNote);
+}
+
+/**
+ * บันทึกที่ถึงวันติดตามหรือเลยวันนัดชำระแล้ว เรียงตามวันที่ต้องติดตาม
+ * @param today - วันที่ปัจจุบัน YYYY-MM-DD
+ */
+export async function listDueFollowUps(today: string, branches?: string[]): Promise<CollectionNote[]> {
+  const notes = await listCollectionNotes({ branches, status: 'open' });
+  return notes
+    .filter((note) => isFollowUpDue(note, today))
+    .sort((a, b) => (a.followUpDate ?? a.promisedDate ?? '').localeCompare(b.followUpDate ?? b.promisedDate ?? ''));
+}
+
+export async function getCollectionNote(id: string): Promise<CollectionNote> {
+  await ensureSchema();
+  const result = await authDb.execute({ sql: 'SELECT * FROM ar_collection_note WHERE id = ?', args: [id] });
+  if (!result.rows[0]) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบบันทึกการติดตาม: ${id}`);
+  }
+  return rowToNote(result.rows[0]);
+}
+
+export async function createCollectionNote(input: CollectionNoteInput, createdBy: string): Promise<CollectionNote> {
+  await ensureSchema();
+  const values = normalizeNote(input);
+  const id = randomUUID();
+  await authDb.execute({
+    sql: `INSERT INTO ar_collection_note
+            (id, customer_code, customer_name, branch_sync, note, promised_date, promised_amount, follow_up_date, status, created_by)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      values.customerCode,
+      values.customerName,
+      values.branchSync,
+      values.note,
+      values.promisedDate,
+      values.promisedAmount,
+      values.followUpDate,
+      values.status,
+      createdBy,
+    ],
+  });
+  return getCollectionNote(id);
+}
+
+export async function updateCollectionNote(id: string, input: CollectionNoteInput): Promise<CollectionNote> {
+  const existing = await getCollectionNote(id);
+  const values = normalizeNote(input, existing);
+  await authDb.execute({
+    sql: `UPDATE ar_collection_note SET
+            customer_code = ?, customer_name = ?, branch_sync = ?, note = ?, promised_date = ?,
+            promised_amount = ?, follow_up_date = ?, status = ?, updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [
+      values.customerCode,
+      values.customerName,
+      values.branchSync,
+      values.note,
+      values.promisedDate,
+      values.promisedAmount,
+      values.followUpDate,
+      values.status,
+      id,
+    ],
+  });
+  return getCollectionNote(id);
+}
+
+export async function deleteCollectionNote(id: string): Promise<void> {
+  await getCollectionNote(id);
+  await authDb.execute({ sql: 'DELETE FROM ar_collection_note WHERE id = ?', args: [id] });
+}
@@ -0,0 +1,99 @@
+/**
+ * Customer Receivables Types
+ * ลูกหนี้รายตัว: อายุหนี้ต่อลูกค้า ใบแจ้งยอด DSO ต่อกิจการ และบันทึกการติดตามหนี้
+ */
+
+import type { DateRange } from '../data/types';
+
+/** ช่วงอายุหนี้ นับจากวันครบกำหนดถึงวันนี้ */
+export type AgingBucketKey = 'notDue' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: { key: AgingBucketKey; label: string }[] = [
+  { key: 'notDue', label: 'ยังไม่ครบกำหนด' },
+  { key: 'days1to30', label: '1-30 วัน' },
+  { key: 'days31to60', label: '31-60 วัน' },
+  { key: 'days61to90', label: '61-90 วัน' },
+  { key: 'over90', label: 'เกิน 90 วัน' },
+];
+
+/** อายุหนี้ของลูกค้าหนึ่งราย (ใบแจ้งหนี้เงินเชื่อที่ยังค้างชำระ) */
+export interface CustomerAging extends Record<AgingBucketKey, number> {
+  customerCode: string;
+  customerName: string;
+  invoiceCount: number;
+  /** ยอดค้างรวม */
+  total: number;
+  /** จำนวนวันเกินกำหนดของใบที่เก่าที่สุด */
+  oldestDaysOverdue: number;
+  /** ยอดขายเงินเชื่อในช่วงวันที่ (ใช้คำนวณ DSO) */
+  creditSales: number;
+  dso: number | null;
+  /** วันติดตามถัดไปจากบันทึกการติดตามที่ยังเปิดอยู่ */
+  nextFollowUp?: string | null;
+  /** วันที่ลูกค้านัดชำระถัดไป */
+  promisedDate?: string | null;
+}
+
+/** DSO ของกิจการ */
+export interface BranchDSO {
+  branchSync: string;
+  outstanding: number;
+  creditSales: number;
+  dso: number | null;
+}
+
+export interface ReceivablesSummary {
+  customers: CustomerAging[];
+  branches: BranchDSO[];
+  /** บันทึกที่ถึงวันติดตามหรือเลยวันนัดชำระแล้ว */
+  followUps: CollectionNote[];
+}
+
+export interface CustomerStatementLine {
+  date: string;
+  docNo: string;
+  kind: 'invoice' | 'payment';
+  dueDate: string | null;
+  /** ยอดตั้งหนี้ (ใบแจ้งหนี้) */
+  debit: number;
+  /** ยอดรับชำระ */
+  credit: number;
+  balance: number;
+}
+
+/** ใบแจ้งยอดลูกหนี้ (Customer Statement) */
+export interface CustomerStatement {
+  customerCode: string;
+  customerName: string;
+  dateRange: DateRange;
+  openingBalance: number;
+  lines: CustomerStatementLine[];
+  closingBalance: number;
+  /** อายุหนี้ปัจจุบันของลูกค้า (null เมื่อไม่มียอดค้าง) */
+  aging: CustomerAging | null;
+}
+
+export type CollectionNoteStatus = 'open' | 'done';
+
+/** บันทึกการติดตามหนี้ */
+export interface CollectionNote {
+  id: string;
+  customerCode: string;
+  customerName: string;
+  /** กิจการที่ติดตาม ('' = ทุกกิจการ) */
+  branchSync: string;
+  note: string;
+  /** วันที่ลูกค้านัดชำระ YYYY-MM-DD */
+  promisedDate: string | null;
+  promisedAmount: number | null;
+  /** วันที่ต้องติดตามครั้งถัดไป YYYY-MM-DD */
+  followUpDate: string | null;
+  status: CollectionNoteStatus;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CollectionNoteInput = Partial<
+  Pick<CollectionNote, 'customerCode' | 'customerName' | 'branchSync' | 'note' | 'promisedDate' | 'promisedAmount' | 'followUpDate' | 'status'>
+>;
@@ -0,0 +1,192 @@
+/**
+ * Replenishment plan
+ *
+ * Demand per item and warehouse is the daily issue quantity over the history window,
+ * counting days without issues as zero. With lead time L (override, the last supplier's
+ * observed purchase-to-receipt days, or a default) and service level z:
+ *   safety stock  = z × σ(daily demand) × √L
+ *   reorder point = average daily demand × L + safety stock
+ * Items at or below the reorder point get an order that tops stock up to the reorder point
+ * plus ORDER_CYCLE_DAYS of demand, raised to the item's minimum order quantity.
+ * Lines are grouped into one suggested order per last supplier, largest order value first.
+ */
+
+import {
+  DEFAULT_LEAD_TIME_DAYS,
+  ORDER_CYCLE_DAYS,
+  SERVICE_LEVELS,
+  type ItemDemand,
+  type LastSupplier,
+  type LeadTimeSource,
+  type ReplenishmentLine,
+  type ReplenishmentOverride,
+  type ReplenishmentPlan,
+  type SupplierLeadTime,
+  type SupplierOrder,
+} from './types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface ReplenishmentInput {
+  asOf: string;
+  historyDays: number;
+  serviceLevel: number;
+  demand: ItemDemand[];
+  suppliers: LastSupplier[];
+  leadTimes: SupplierLeadTime[];
+  overrides: ReplenishmentOverride[];
+}
+
+/**
+ * ความต้องการเฉลี่ยและส่วนเบี่ยงเบนมาตรฐานรายวัน (วันที่ไม่มีการจ่ายนับเป็น 0)
+ */
+export function dailyDemandStats(demand: Pick<ItemDemand, 'totalOut' | 'totalOutSquared'>, historyDays: number) {
+  const days = Math.max(1, historyDays);
+  const mean = demand.totalOut / days;
+  const variance = Math.max(0, demand.totalOutSquared / days - mean * mean);
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * จุดสั่งซื้อและยอดแนะนำสั่งซื้อ พร้อมใบสั่งซื้อแนะนำต่อผู้จำหน่าย
+ */
+export function buildReplenishmentPlan(input: ReplenishmentInput): ReplenishmentPlan {
+  const z = (SERVICE_LEVELS.find((level) => level.key === input.serviceLevel) ?? SERVICE_LEVELS[1]).z;
+  const suppliers = new Map(input.suppliers.map((s) => [`${s.branchSync}|${s.itemCode}`, s]));
+  const leadTimes = new Map(input.leadTimes.map((l) => [`${l.branchSync}|${l.supplierCode}`, l]));
+  const overrides = new Map(input.overrides.map((o) => [`${o.branchSync}|${o.itemCode}`, o]));
+
+  const lines: ReplenishmentLine[] = input.demand.map((item) => {
+    const supplier = suppliers.get(`${item.branchSync}|${item.itemCode}`);
+    const override = overrides.get(`${item.branchSync}|${item.itemCode}`) ?? null;
+    const observed = supplier ? leadTimes.get(`${item.branchSync}|${supplier.supplierCode}`) : undefined;
+
+    let leadTimeDays = DEFAULT_LEAD_TIME_DAYS;
+    let leadTimeSource: LeadTimeSource = 'default';
+    if (override?.leadTimeDays != null) {
+      leadTimeDays = override.leadTimeDays;
+      leadTimeSource = 'override';
+    } else if (observed) {
+      leadTimeDays = round2(observed.avgLeadDays);
+      leadTimeSource = 'supplier';
+    }
+
+    const { mean, stdDev } = dailyDemandStats(item, input.historyDays);
+    const safetyStock = z * stdDev * Math.sqrt(leadTimeDays);
+    const reorderPoint = mean * leadTimeDays + safetyStock;
+
+    let suggestedQty = 0;
+    if (item.qtyOnHand <= reorderPoint) {
+      suggestedQty = Math.ceil(reorderPoint + mean * ORDER_CYCLE_DAYS - item.qtyOnHand);
+      if (override?.minOrderQty != null) suggestedQty = Math.max(suggestedQty, override.minOrderQty);
+    }
+    const unitCost = supplier?.lastPrice || item.unitCost;
+
+    return {
+      branchSync: item.branchSync,
+      whCode: item.whCode,
+      whName: item.whName,
+      itemCode: item.itemCode,
+      itemName: item.itemName,
+      unitName: item.unitName,
+      supplierCode: supplier?.supplierCode ?? '',
+      supplierName: supplier?.supplierName ?? '',
+      qtyOnHand: item.qtyOnHand,
+      avgDailyDemand: round2(mean),
+      demandStdDev: round2(stdDev),
+      leadTimeDays,
+      leadTimeSource,
+      safetyStock: round2(safetyStock),
+      reorderPoint: round2(reorderPoint),
+      daysOfCover: round2(Math.max(0, item.qtyOnHand) / mean),
+      minOrderQty: override?.minOrderQty ?? null,
+      suggestedQty,
+      unitCost: round2(unitCost),
+      suggestedValue: round2(suggestedQty * unitCost),
+      override,
+    };
+  });
+
+  lines.sort((a, b) => a.daysOfCover - b.daysOfCover || a.itemName.localeCompare(b.itemName));
+
+  const orders = new Map<string, SupplierOrder>();
+  for (const line of lines) {
+    if (line.suggestedQty <= 0) continue;
+    const key = `${line.branchSync}|${line.supplierCode}`;
+    let order = orders.get(key);
+    if (!order) {
+      order = {
+        branchSync: line.branchSync,
+        supplierCode: line.supplierCode,
+        supplierName: line.supplierName,
+        lines: [],
+        totalValue: 0,
+      };
+      orders.set(key, order);
+    }
+    order.lines.push(line);
+    order.totalValue = round2(order.totalValue + line.suggestedValue);
+  }
+
+  return {
+    asOf: input.asOf,
+    historyDays: input.historyDays,
+    serviceLevel: input.serviceLevel,
+    lines,
+    orders: [...orders.values()].sort((a, b) => b.totalValue - a.totalValue),
+  };
+}
+
+/** ที่มาของระยะเวลารอสินค้า */
+export const LEAD_TIME_SOURCE_LABELS: Record<LeadTimeSource, string> = {
+  override: 'กำหนดเอง',
+  supplier: 'จากประวัติรับของ',
+  default: 'ค่าเริ่มต้น',
+};
+
+/** หัวคอลัมน์ของรายการแนะนำสั่งซื้อสำหรับ exportStyledReport */
+export const SUGGESTED_ORDER_HEADERS: Record<string, string> = {
+  supplierCode: 'รหัสผู้จำหน่าย',
+  supplierName: 'ชื่อผู้จำหน่าย',
+  branchSync: 'กิจการ',
+  whName: 'คลัง',
+  itemCode: 'รหัสสินค้า',
+  itemName: 'ชื่อสินค้า',
+  unitName: 'หน่วย',
+  qtyOnHand: 'คงเหลือ',
+  avgDailyDemand: 'ขายเฉลี่ย/วัน',
+  leadTimeDays: 'รอสินค้า (วัน)',
+  safetyStock: 'สต็อกเผื่อ',
+  reorderPoint: 'จุดสั่งซื้อ',
+  suggestedQty: 'แนะนำสั่ง',
+  unitCost: 'ราคา/หน่วย',
+  suggestedValue: 'มูลค่าสั่ง',
+};
+
+export const SUGGESTED_ORDER_NUMBER_COLUMNS = ['qtyOnHand', 'avgDailyDemand', 'leadTimeDays', 'safetyStock', 'reorderPoint', 'suggestedQty'];
+export const SUGGESTED_ORDER_CURRENCY_COLUMNS = ['unitCost', 'suggestedValue'];
+
+/**
+ * แถวของใบสั่งซื้อแนะนำ เรียงตามผู้จำหน่าย (มูลค่ารวมมากก่อน) แล้วตามวันที่พอขาย
+ */
+export function suggestedOrderRows(plan: ReplenishmentPlan) {
+  return plan.orders.flatMap((order) =>
+    order.lines.map((line) => ({
+      supplierCode: order.supplierCode,
+      supplierName: order.supplierName || 'ไม่พบประวัติซื้อ',
+      branchSync: line.branchSync,
+      whName: `${line.whCode} ${line.whName}`.trim(),
+      itemCode: line.itemCode,
+      itemName: line.itemName,
+      unitName: line.unitName,
+      qtyOnHand: line.qtyOnHand,
+      avgDailyDemand: line.avgDailyDemand,
+      leadTimeDays: line.leadTimeDays,
+      safetyStock: line.safetyStock,
+      reorderPoint: line.reorderPoint,
+      suggestedQty: line.suggestedQty,
+      unitCost: line.unitCost,
+      suggestedValue: line.suggestedValue,
+    }))
+  );
+}
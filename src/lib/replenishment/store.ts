@@ -0,0 +1,159 @@
+/**
+ * Replenishment Override Store
+ * ระยะเวลารอสินค้าและยอดสั่งขั้นต่ำที่กำหนดเองต่อสินค้า เก็บในฐานข้อมูล auth (libsql)
+ */
+
+import 'server-only';
+
+import type { InStatement, Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import type { ReplenishmentOverride, ReplenishmentOverrideInput } from './types';
+
+const BRANCH_CODE_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const MAX_NOTE_LENGTH = 500;
+const MAX_LEAD_TIME_DAYS = 365;
+/** จำนวนสินค้าสูงสุดต่อการบันทึกหนึ่งครั้ง */
+const MAX_ITEMS = 1000;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS replenishment_override (
+    branch_sync TEXT NOT NULL,
+    item_code TEXT NOT NULL,
+    lead_time_days REAL,
+    min_order_qty REAL,
+    note TEXT NOT NULL DEFAULT '',
+    created_by TEXT NOT NULL DEFAULT '',
+    updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+    PRIMARY KEY (branch_sync, item_code)
+  )`,
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value));
+
+function rowToOverride(row: Row): ReplenishmentOverride {
+  return {
+    branchSync: String(row.branch_sync),
+    itemCode: String(row.item_code),
+    leadTimeDays: optionalNumber(row.lead_time_days),
+    minOrderQty: optionalNumber(row.min_order_qty),
+    note: String(row.note ?? ''),
+    createdBy: String(row.created_by ?? ''),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+/** เงื่อนไขกิจการ ('ALL' หรือว่าง = ทุกกิจการ) */
+function branchCondition(branches?: string[]): { sql: string; args: string[] } {
+  if (!branches || branches.length === 0 || branches.includes('ALL')) {
+    return { sql: '', args: [] };
+  }
+  return { sql: ` WHERE branch_sync IN (${branches.map(() => '?').join(', ')})`, args: branches };
+}
+
+/**
+ * @throws APIError 400
+ */
+function parseQuantity(value: unknown, label: string, max = Infinity): number | null {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || number > max) {
+    throw ErrorTypes.BAD_REQUEST(`${label}ต้องเป็นตัวเลขตั้งแต่ 0${Number.isFinite(max) ? ` ถึง ${max}` : ''}`);
+  }
+  return Math.round(number * 100) / 100;
+}
+
+/**
+ * @throws APIError 400
+ */
+function normalizeOverride(input: ReplenishmentOverrideInput) {
+  const branchSync = String(input.branchSync ?? '').trim();
+  const itemCode = String(input.itemCode ?? '').trim();
+  if (!BRANCH_CODE_PATTERN.test(branchSync) || !itemCode) {
+    throw ErrorTypes.BAD_REQUEST('ต้องระบุกิจการและรหัสสินค้า');
+  }
+  const leadTimeDays = parseQuantity(input.leadTimeDays, `ระยะเวลารอสินค้าของ ${itemCode} `, MAX_LEAD_TIME_DAYS);
+  const minOrderQty = parseQuantity(input.minOrderQty, `ยอดสั่งขั้นต่ำของ ${itemCode} `);
+  if (leadTimeDays === null && minOrderQty === null) {
+    throw ErrorTypes.BAD_REQUEST(`ระบุระยะเวลารอสินค้าหรือยอดสั่งขั้นต่ำของ ${itemCode} อย่างน้อยหนึ่งค่า`);
+  }
+  const note = String(input.note ?? '').trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw ErrorTypes.BAD_REQUEST(`หมายเหตุยาวได้ไม่เกิน ${MAX_NOTE_LENGTH} ตัวอักษร`);
+  }
+  return { branchSync, itemCode, leadTimeDays, minOrderQty, note };
+}
+
+// ============================================================================
+// Overrides
+// ============================================================================
+
+/**
+ * ค่าที่กำหนดเองทั้งหมดของกิจการที่เลือก
+ */
+export async function listReplenishmentOverrides(branches?: string[]): Promise<ReplenishmentOverride[]> {
+  await ensureSchema();
+  const filter = branchCondition(branches);
+  const result = await authDb.execute({
+    sql: `SELECT * FROM replenishment_override${filter.sql} ORDER BY branch_sync, item_code`,
+    args: filter.args,
+  });
+  return result.rows.map(rowToOverride);
+}
+
+/**
+ * บันทึกค่าที่กำหนดเองหลายสินค้าพร้อมกัน (upsert ต่อกิจการ + รหัสสินค้า)
+ * ตรวจสิทธิ์กิจการก่อนเรียก (authorizeBranches)
+ * @returns จำนวนสินค้าที่บันทึก
+ * @throws APIError 400 เมื่อข้อมูลไม่ถูกต้อง
+ */
+export async function saveReplenishmentOverrides(inputs: ReplenishmentOverrideInput[], createdBy: string): Promise<number> {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('ไม่มีรายการที่จะบันทึก');
+  }
+  if (inputs.length > MAX_ITEMS) {
+    throw ErrorTypes.BAD_REQUEST(`บันทึกได้ครั้งละไม่เกิน ${MAX_ITEMS} รายการ`);
+  }
+
+  const statements: InStatement[] = inputs.map((input) => {
+    const values = normalizeOverride(input);
+    return {
+      sql: `INSERT INTO replenishment_override (branch_sync, item_code, lead_time_days, min_order_qty, note, created_by)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (branch_sync, item_code) DO UPDATE SET
+              lead_time_days = excluded.lead_time_days,
+              min_order_qty = excluded.min_order_qty,
+              note = excluded.note,
+              created_by = excluded.created_by,
+              updated_at = datetime('now')`,
+      args: [values.branchSync, values.itemCode, values.leadTimeDays, values.minOrderQty, values.note, createdBy],
+    };
+  });
+
+  await ensureSchema();
+  await authDb.batch(statements, 'write');
+  return statements.length;
+}
+
+/**
+ * ลบค่าที่กำหนดเองของสินค้า (กลับไปใช้ค่าที่คำนวณ)
+ * @throws APIError 404 เมื่อไม่มีค่าที่กำหนดไว้
+ */
+export async function deleteReplenishmentOverride(branchSync: string, itemCode: string): Promise<void> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'DELETE FROM replenishment_override WHERE branch_sync = ? AND item_code = ?',
+    args: [branchSync, itemCode],
+  });
+  if (result.rowsAffected === 0) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบค่าที่กำหนดเองของ ${itemCode}`);
+  }
+}
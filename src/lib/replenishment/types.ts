@@ -0,0 +1,130 @@
+/**
+ * Replenishment Types
+ * จุดสั่งซื้อและรายการแนะนำสั่งซื้อต่อสินค้าและคลัง จากความต้องการย้อนหลัง
+ * และระยะเวลารอสินค้าของผู้จำหน่าย รวมเป็นใบสั่งซื้อแนะนำต่อผู้จำหน่าย
+ */
+
+/** จำนวนวันย้อนหลังที่ใช้คำนวณความต้องการ */
+export const DEMAND_HISTORY_OPTIONS = [30, 60, 90, 180] as const;
+export const DEFAULT_DEMAND_HISTORY_DAYS = 90;
+
+/** ระดับการให้บริการ (โอกาสที่ของไม่ขาดระหว่างรอสินค้า) และค่า z ของการแจกแจงปกติ */
+export const SERVICE_LEVELS = [
+  { key: 90, z: 1.28 },
+  { key: 95, z: 1.65 },
+  { key: 98, z: 2.05 },
+  { key: 99, z: 2.33 },
+] as const;
+export const DEFAULT_SERVICE_LEVEL = 95;
+
+/** จำนวนวันที่แต่ละรอบการสั่งควรพอขาย (ยอดสั่ง = เติมถึงจุดสั่งซื้อ + ความต้องการช่วงนี้) */
+export const ORDER_CYCLE_DAYS = 14;
+/** ระยะเวลารอสินค้าเมื่อไม่มีประวัติรับของและไม่ได้กำหนดเอง */
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+/** จำนวนวันย้อนหลังที่ใช้หาระยะเวลารอสินค้าจากเอกสารซื้อ */
+export const LEAD_TIME_HISTORY_DAYS = 365;
+
+/** ความต้องการและยอดคงเหลือต่อสินค้าในคลัง */
+export interface ItemDemand {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  unitName: string;
+  qtyOnHand: number;
+  /** ต้นทุนเฉลี่ยของยอดคงเหลือ */
+  unitCost: number;
+  /** ยอดจ่ายออกรวมในช่วงย้อนหลัง */
+  totalOut: number;
+  /** ผลรวมกำลังสองของยอดจ่ายออกรายวัน (ใช้หาส่วนเบี่ยงเบน) */
+  totalOutSquared: number;
+  /** จำนวนวันที่มีการจ่ายออก */
+  demandDays: number;
+}
+
+/** ผู้จำหน่ายที่ซื้อสินค้าล่าสุด ต่อกิจการ */
+export interface LastSupplier {
+  branchSync: string;
+  itemCode: string;
+  supplierCode: string;
+  supplierName: string;
+  lastPurchaseDate: string;
+  lastPrice: number;
+}
+
+/** ระยะเวลาจากเอกสารซื้อถึงวันที่รับของเข้าคลัง ต่อผู้จำหน่าย */
+export interface SupplierLeadTime {
+  branchSync: string;
+  supplierCode: string;
+  avgLeadDays: number;
+  maxLeadDays: number;
+  receiptCount: number;
+}
+
+/** ค่าที่กำหนดเองต่อสินค้า (null = ใช้ค่าที่คำนวณ) */
+export interface ReplenishmentOverride {
+  branchSync: string;
+  itemCode: string;
+  leadTimeDays: number | null;
+  minOrderQty: number | null;
+  note: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export interface ReplenishmentOverrideInput {
+  branchSync: string;
+  itemCode: string;
+  leadTimeDays?: number | string | null;
+  minOrderQty?: number | string | null;
+  note?: string;
+}
+
+export type LeadTimeSource = 'override' | 'supplier' | 'default';
+
+/** จุดสั่งซื้อและยอดแนะนำสั่งของสินค้าหนึ่งรายการในคลังหนึ่ง */
+export interface ReplenishmentLine {
+  branchSync: string;
+  whCode: string;
+  whName: string;
+  itemCode: string;
+  itemName: string;
+  unitName: string;
+  supplierCode: string;
+  supplierName: string;
+  qtyOnHand: number;
+  avgDailyDemand: number;
+  /** ส่วนเบี่ยงเบนมาตรฐานของความต้องการรายวัน */
+  demandStdDev: number;
+  leadTimeDays: number;
+  leadTimeSource: LeadTimeSource;
+  safetyStock: number;
+  reorderPoint: number;
+  /** จำนวนวันที่ยอดคงเหลือพอขาย */
+  daysOfCover: number;
+  minOrderQty: number | null;
+  suggestedQty: number;
+  unitCost: number;
+  suggestedValue: number;
+  override: ReplenishmentOverride | null;
+}
+
+/** ใบสั่งซื้อแนะนำต่อผู้จำหน่าย */
+export interface SupplierOrder {
+  branchSync: string;
+  supplierCode: string;
+  supplierName: string;
+  lines: ReplenishmentLine[];
+  totalValue: number;
+}
+
+export interface ReplenishmentPlan {
+  asOf: string;
+  historyDays: number;
+  serviceLevel: number;
+  /** ทุกสินค้าที่มีความต้องการ เรียงตามวันที่พอขาย */
+  lines: ReplenishmentLine[];
+  /** เฉพาะสินค้าที่ถึงจุดสั่งซื้อ จัดกลุ่มตามผู้จำหน่ายล่าสุด */
+  orders: SupplierOrder[];
+}
@@ -0,0 +1,131 @@
+/**
+ * Cron Expression
+ * ตัวแปลง cron 5 ช่อง (นาที ชั่วโมง วันที่ เดือน วันในสัปดาห์) ตามเวลาท้องถิ่นของ server
+ * รองรับ *, รายการ (1,15), ช่วง (1-5) และขั้น (0-30/10 หรือ * ตามด้วย /15)
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 6 }, // day of week (0 = อาทิตย์, รับ 7 ด้วย)
+];
+
+export interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** ช่องวันที่/วันในสัปดาห์ไม่ใช่ * (ถ้าระบุทั้งคู่ ตรงอย่างใดอย่างหนึ่งก็พอ) */
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+function parseField(expr: string, field: CronField, isWeekday: boolean): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of expr.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`ขั้นไม่ถูกต้อง: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(Number);
+    } else {
+      start = Number(range);
+      end = stepText === undefined ? start : field.max;
+    }
+
+    const max = isWeekday ? 7 : field.max;
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > max || start > end) {
+      throw new Error(`ค่าไม่ถูกต้อง: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(isWeekday && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * @throws Error เมื่อรูปแบบไม่ถูกต้อง (ข้อความภาษาไทย)
+ */
+export function parseCron(expr: string): ParsedCron {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('cron ต้องมี 5 ช่อง: นาที ชั่วโมง วันที่ เดือน วันในสัปดาห์');
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i], i === 4));
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    dayRestricted: parts[2] !== '*',
+    weekdayRestricted: parts[4] !== '*',
+  };
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const dayMatch = cron.days.has(date.getDate());
+  const weekdayMatch = cron.weekdays.has(date.getDay());
+  if (cron.dayRestricted && cron.weekdayRestricted) return dayMatch || weekdayMatch;
+  if (cron.dayRestricted) return dayMatch;
+  if (cron.weekdayRestricted) return weekdayMatch;
+  return true;
+}
+
+/**
+ * เวลาถัดไป (หลัง `after`) ที่ตรงกับ cron หรือ null ถ้าไม่พบภายใน 5 ปี (เช่น 31 ก.พ.)
+ */
+export function nextCronRun(expr: string | ParsedCron, after: Date = new Date()): Date | null {
+  const cron = typeof expr === 'string' ? parseCron(expr) : expr;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
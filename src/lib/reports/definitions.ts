@@ -0,0 +1,99 @@
+/**
+ * Scheduled Report Definitions
+ * ตารางข้อมูล หัวคอลัมน์ และรูปแบบตัวเลขของรายงานแต่ละชนิด ตรงกับปุ่ม Export ในหน้ารายงาน
+ */
+
+import 'server-only';
+
+import type { ExcelSummaryConfig } from '../exportExcel';
+import type { ComponentKey } from '../permissions/types';
+import type { DateRange } from '../data/types';
+import { getAPOutstandingAsOfToday, getAROutstandingAsOfToday, getProfitLossData } from '../data/accounting';
+import { getTopSuppliers } from '../data/purchase';
+import { getTopCustomers, getTopProducts } from '../data/sales';
+import type { ReportType } from './types';
+
+export interface ReportDefinition {
+  /** สิทธิ์ที่ผู้สร้างกำหนดการต้องมี ณ เวลาที่ส่ง */
+  permission: ComponentKey;
+  title: string;
+  filename: string;
+  sheetName: string;
+  /** รายงานสถานะ ณ วันที่ส่ง: fetch ต้องไม่กรองตามช่วงวันที่ */
+  asOfToday?: boolean;
+  headers: Record<string, string>;
+  numberColumns?: string[];
+  currencyColumns?: string[];
+  percentColumns?: string[];
+  summaryConfig?: ExcelSummaryConfig;
+  fetch: (dateRange: DateRange, branches: string[]) => Promise<object[]>;
+}
+
+export const REPORT_DEFINITIONS: Record<ReportType, ReportDefinition> = {
+  'profit-loss': {
+    permission: 'accounting.pl_statement',
+    title: 'รายงานงบกำไรขาดทุน',
+    filename: 'รายงานงบกำไรขาดทุน',
+    sheetName: 'Profit & Loss',
+    headers: { month: 'เดือน', revenue: 'รายได้', expenses: 'ค่าใช้จ่าย', netProfit: 'กำไรสุทธิ' },
+    currencyColumns: ['revenue', 'expenses', 'netProfit'],
+    summaryConfig: { columns: { revenue: 'sum', expenses: 'sum', netProfit: 'sum' } },
+    fetch: (dateRange, branches) => getProfitLossData(dateRange, branches),
+  },
+  'ar-aging': {
+    permission: 'accounting.ar_aging',
+    title: 'รายงานอายุลูกหนี้ (AR Aging)',
+    filename: 'รายงานอายุลูกหนี้',
+    sheetName: 'AR Aging',
+    asOfToday: true,
+    headers: { docNo: 'เลขที่เอกสาร', code: 'รหัส', name: 'ลูกค้า', dueDate: 'วันครบกำหนด', outstanding: 'ยอดค้างชำระ', agingBucket: 'อายุหนี้' },
+    currencyColumns: ['outstanding'],
+    summaryConfig: { columns: { outstanding: 'sum' } },
+    fetch: (_dateRange, branches) => getAROutstandingAsOfToday(branches),
+  },
+  'ap-aging': {
+    permission: 'accounting.ap_aging',
+    title: 'รายงานอายุเจ้าหนี้ (AP Aging)',
+    filename: 'รายงานอายุเจ้าหนี้',
+    sheetName: 'AP Aging',
+    asOfToday: true,
+    headers: { docNo: 'เลขที่เอกสาร', code: 'รหัส', name: 'ซัพพลายเออร์', dueDate: 'วันครบกำหนด', outstanding: 'ยอดค้างชำระ', agingBucket: 'อายุหนี้' },
+    currencyColumns: ['outstanding'],
+    summaryConfig: { columns: { outstanding: 'sum' } },
+    fetch: (_dateRange, branches) => getAPOutstandingAsOfToday(branches),
+  },
+  'top-customers': {
+    permission: 'sales.top_customers',
+    title: 'รายงานลูกค้ารายสำคัญ',
+    filename: 'ลูกค้ารายสำคัญ',
+    sheetName: 'Top Customers',
+    headers: { customerCode: 'รหัสลูกค้า', customerName: 'ชื่อลูกค้า', orderCount: 'จำนวนออเดอร์', totalSpent: 'ยอดซื้อรวม', avgOrderValue: 'ยอดเฉลี่ย/ออเดอร์', lastOrderDate: 'ซื้อล่าสุด', daysSinceLastOrder: 'วันที่ผ่านมา' },
+    numberColumns: ['orderCount', 'daysSinceLastOrder'],
+    currencyColumns: ['totalSpent', 'avgOrderValue'],
+    summaryConfig: { columns: { orderCount: 'sum', totalSpent: 'sum' } },
+    fetch: (dateRange, branches) => getTopCustomers(dateRange, branches),
+  },
+  'top-products': {
+    permission: 'sales.top_products',
+    title: 'รายงานสินค้าขายดี',
+    filename: 'สินค้าขายดี',
+    sheetName: 'Top Products',
+    headers: { itemCode: 'รหัสสินค้า', itemName: 'ชื่อสินค้า', brandName: 'แบรนด์', categoryName: 'หมวดหมู่', totalQtySold: 'จำนวนขาย', totalSales: 'ยอดขาย', totalProfit: 'กำไร', profitMarginPct: 'อัตรากำไร (%)' },
+    numberColumns: ['totalQtySold'],
+    currencyColumns: ['totalSales', 'totalProfit'],
+    percentColumns: ['profitMarginPct'],
+    summaryConfig: { columns: { totalQtySold: 'sum', totalSales: 'sum', totalProfit: 'sum' } },
+    fetch: (dateRange, branches) => getTopProducts(dateRange, branches),
+  },
+  'top-suppliers': {
+    permission: 'purchase.top_suppliers',
+    title: 'รายงานซัพพลายเออร์ยอดนิยม',
+    filename: 'ซัพพลายเออร์ยอดนิยม',
+    sheetName: 'Top Suppliers',
+    headers: { supplierCode: 'รหัสซัพพลายเออร์', supplierName: 'ชื่อซัพพลายเออร์', poCount: 'ใบสั่งซื้อ', totalPurchases: 'ยอดซื้อรวม', avgPOValue: 'ยอดเฉลี่ย/ใบ', lastPurchaseDate: 'สั่งซื้อล่าสุด' },
+    numberColumns: ['poCount'],
+    currencyColumns: ['totalPurchases', 'avgPOValue'],
+    summaryConfig: { columns: { poCount: 'sum', totalPurchases: 'sum' } },
+    fetch: (dateRange, branches) => getTopSuppliers(dateRange, branches),
+  },
+};
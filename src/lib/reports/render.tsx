@@ -0,0 +1,99 @@
+/**
+ * Scheduled Report Rendering
+ * สร้างไฟล์ PDF / Excel บน server ด้วยตัวสร้างเดียวกับปุ่ม Export ในหน้ารายงาน
+ */
+
+import 'server-only';
+
+import { renderToBuffer } from '@react-pdf/renderer';
+import { buildStyledReportWorkbook, type ReportBranchInfo } from '../exportExcel';
+import { buildStyledPdfDocument } from '../exportPdf';
+import { getDateRange, type RelativeDateRangeKey } from '../dateRanges';
+import { listBranches } from '../branches/store';
+import { fallbackBranchName } from '../branches/types';
+import type { MailAttachment } from '../mail/transport';
+import { REPORT_DEFINITIONS } from './definitions';
+import type { ReportFormat, ReportType } from './types';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface RenderedReport {
+  title: string;
+  subtitle: string;
+  rowCount: number;
+  /** null เมื่อไม่มีข้อมูลในช่วงวันที่ */
+  attachment: MailAttachment | null;
+}
+
+/**
+ * ชื่อกิจการในหัวรายงาน (ตรงกับ formatSelectedBranchNames ฝั่ง client)
+ * และข้อมูลเลขผู้เสียภาษี/ที่อยู่เมื่อเลือกกิจการเดียว
+ */
+async function describeBranches(branches: string[]): Promise<{ label: string; branch?: ReportBranchInfo }> {
+  if (branches.includes('ALL')) return { label: 'ทุกกิจการ' };
+
+  const registry = await listBranches();
+  const names = branches.map((code) => registry.find((b) => b.code === code)?.name || fallbackBranchName(code));
+  const single = branches.length === 1 ? registry.find((b) => b.code === branches[0]) : undefined;
+
+  return {
+    label: names.join(', '),
+    branch: single ? { name: single.name, taxId: single.taxId, address: single.address } : undefined,
+  };
+}
+
+export async function renderReport(options: {
+  reportType: ReportType;
+  datePreset: RelativeDateRangeKey;
+  branches: string[];
+  format: ReportFormat;
+}): Promise<RenderedReport> {
+  const definition = REPORT_DEFINITIONS[options.reportType];
+  const dateRange = getDateRange(options.datePreset);
+  const data = await definition.fetch(dateRange, options.branches);
+  const { label, branch } = await describeBranches(options.branches);
+
+  const period = definition.asOfToday
+    ? `ณ วันที่ ${new Date().toLocaleDateString('th-TH')}`
+    : `ช่วงวันที่ ${dateRange.start} ถึง ${dateRange.end}`;
+  const subtitle = `กิจการ: ${label} | ${period}`;
+
+  const reportOptions = {
+    data,
+    headers: definition.headers,
+    filename: definition.filename,
+    sheetName: definition.sheetName,
+    title: definition.title,
+    subtitle,
+    branch,
+    numberColumns: definition.numberColumns,
+    currencyColumns: definition.currencyColumns,
+    percentColumns: definition.percentColumns,
+    summaryConfig: definition.summaryConfig,
+  };
+
+  let content: Buffer | null = null;
+  if (options.format === 'xlsx') {
+    const workbook = buildStyledReportWorkbook(reportOptions);
+    content = workbook ? Buffer.from(await workbook.xlsx.writeBuffer()) : null;
+  } else {
+    const doc = buildStyledPdfDocument(reportOptions);
+    content = doc ? await renderToBuffer(doc) : null;
+  }
+
+  return {
+    title: definition.title,
+    subtitle,
+    rowCount: data.length,
+    attachment: content
+      ? {
+          filename: `${definition.filename}_${dateRange.end}.${options.format}`,
+          content,
+          contentType: CONTENT_TYPES[options.format],
+        }
+      : null,
+  };
+}
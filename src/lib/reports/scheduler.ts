@@ -0,0 +1,91 @@
+/**
+ * Report Scheduler
+ * ตรวจกำหนดการทุกนาทีใน process ของ Next.js (เริ่มจาก instrumentation.ts)
+ * ส่งรายงานด้วยสิทธิ์ของผู้สร้าง ณ เวลาที่ส่ง: Role ต้องยังเห็นรายงานนั้น และกิจการต้องอยู่ใน allowed_branches
+ */
+
+import 'server-only';
+
+import { startBackgroundJob } from '../background-job';
+import { branchAccessOf, resolveBranches } from '../branch-access';
+import { logError } from '../errors';
+import { getMailTransport } from '../mail/transport';
+import { checkComponentPermission } from '../permissions/check';
+import { getUser } from '../permissions/store';
+import { REPORT_DEFINITIONS } from './definitions';
+import { renderReport } from './render';
+import { listDueSchedules, recordScheduleRun } from './store';
+import { REPORT_FORMATS, REPORT_TYPES, type ReportSchedule, type ScheduleRunStatus } from './types';
+
+const TICK_MS = 60_000;
+
+export interface ScheduleRunResult {
+  status: ScheduleRunStatus;
+  error?: string;
+}
+
+/**
+ * สร้างรายงานและส่งอีเมลหนึ่งกำหนดการ แล้วบันทึกผล
+ * @param advance - true = รอบตามเวลา (เลื่อน next_run_at), false = สั่งส่งทันทีจากหน้าตั้งค่า
+ */
+export async function runSchedule(schedule: ReportSchedule, advance: boolean): Promise<ScheduleRunResult> {
+  const ranAt = new Date();
+  let result: ScheduleRunResult;
+
+  try {
+    const owner = await getUser(schedule.createdBy);
+    if (!owner) {
+      throw new Error('ไม่พบผู้สร้างกำหนดการ');
+    }
+
+    const definition = REPORT_DEFINITIONS[schedule.reportType];
+    const permission = checkComponentPermission(owner, definition.permission);
+    if (!permission.allowed) {
+      throw new Error(`ผู้สร้างไม่มีสิทธิ์ดูรายงานนี้แล้ว (${permission.reason ?? definition.permission})`);
+    }
+
+    const branches = resolveBranches(schedule.branches, branchAccessOf(owner));
+    const report = await renderReport({
+      reportType: schedule.reportType,
+      datePreset: schedule.datePreset,
+      branches,
+      format: schedule.format,
+    });
+
+    const body = report.attachment
+      ? `${report.title}\n${report.subtitle}\n\nแนบไฟล์ ${REPORT_FORMATS[schedule.format]} (${report.rowCount.toLocaleString('th-TH')} รายการ)`
+      : `${report.title}\n${report.subtitle}\n\nไม่มีข้อมูลในช่วงวันที่นี้`;
+
+    await getMailTransport().send({
+      to: schedule.recipients,
+      subject: `[${schedule.name}] ${REPORT_TYPES[schedule.reportType]}`,
+      text: `${body}\n\nส่งอัตโนมัติตามกำหนดการ "${schedule.name}" โดย ${schedule.createdByEmail}`,
+      attachments: report.attachment ? [report.attachment] : [],
+    });
+
+    result = { status: 'success' };
+  } catch (error) {
+    logError(error, `report-schedule:${schedule.id}`);
+    result = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await recordScheduleRun(schedule, { ...result, ranAt, advance });
+  return result;
+}
+
+/**
+ * ส่งทุกกำหนดการที่ถึงเวลา ทีละรายการ
+ */
+export async function runDueSchedules(now = new Date()): Promise<number> {
+  const due = await listDueSchedules(now);
+  for (const schedule of due) {
+    await runSchedule(schedule, true);
+  }
+  return due.length;
+}
+
+export function startReportScheduler(): void {
+  startBackgroundJob('report-scheduler', TICK_MS, async () => {
+    await runDueSchedules();
+  });
+}
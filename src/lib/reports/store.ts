@@ -0,0 +1,298 @@
+/**
+ * Report Schedule Store
+ * กำหนดการส่งรายงานทางอีเมล เก็บในฐานข้อมูล auth (libsql)
+ * ผู้ใช้เห็น/แก้ไขเฉพาะกำหนดการของตัวเอง ผู้ดูแลระบบเห็นทั้งหมด
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { branchAccessOf, resolveBranches } from '../branch-access';
+import { RELATIVE_DATE_RANGE_KEYS, type RelativeDateRangeKey } from '../dateRanges';
+import { ErrorTypes } from '../errors';
+import { checkComponentPermission } from '../permissions/check';
+import { ADMIN_ROLE_ID } from '../permissions/constants';
+import type { User } from '../permissions/types';
+import { nextCronRun, parseCron } from './cron';
+import { REPORT_DEFINITIONS } from './definitions';
+import {
+  REPORT_FORMATS,
+  REPORT_TYPES,
+  type ReportFormat,
+  type ReportSchedule,
+  type ReportScheduleInput,
+  type ReportType,
+  type ScheduleRunStatus,
+} from './types';
+
+const EMAIL_PATTERN = /^[^\s@,;]+@[^\s@,;]+\.[^\s@,;]+$/;
+const MAX_RECIPIENTS = 20;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS report_schedule (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    report_type TEXT NOT NULL,
+    date_preset TEXT NOT NULL,
+    branches TEXT NOT NULL DEFAULT '["ALL"]',
+    format TEXT NOT NULL DEFAULT 'pdf',
+    cron TEXT NOT NULL,
+    recipients TEXT NOT NULL DEFAULT '[]',
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT NOT NULL,
+    created_by_email TEXT NOT NULL DEFAULT '',
+    last_run_at TEXT,
+    last_status TEXT,
+    last_error TEXT,
+    next_run_at TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  'CREATE INDEX IF NOT EXISTS report_schedule_due ON report_schedule (enabled, next_run_at)',
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function parseJsonList(raw: unknown): string[] {
+  try {
+    const parsed = JSON.parse(String(raw ?? '[]'));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToSchedule(row: Row): ReportSchedule {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    reportType: String(row.report_type) as ReportType,
+    datePreset: String(row.date_preset) as RelativeDateRangeKey,
+    branches: parseJsonList(row.branches),
+    format: String(row.format) as ReportFormat,
+    cron: String(row.cron),
+    recipients: parseJsonList(row.recipients),
+    enabled: Number(row.enabled) === 1,
+    createdBy: String(row.created_by),
+    createdByEmail: String(row.created_by_email ?? ''),
+    lastRunAt: row.last_run_at ? String(row.last_run_at) : null,
+    lastStatus: row.last_status ? (String(row.last_status) as ScheduleRunStatus) : null,
+    lastError: row.last_error ? String(row.last_error) : null,
+    nextRunAt: row.next_run_at ? String(row.next_run_at) : null,
+  };
+}
+
+function computeNextRun(schedule: Pick<ReportSchedule, 'cron' | 'enabled'>, after = new Date()): string | null {
+  if (!schedule.enabled) return null;
+  return nextCronRun(schedule.cron, after)?.toISOString() ?? null;
+}
+
+/**
+ * รวมข้อมูลที่ส่งมากับค่าเดิม แล้วตรวจสอบความถูกต้อง
+ */
+function normalizeSchedule(input: ReportScheduleInput, existing?: ReportSchedule) {
+  const name = (input.name ?? existing?.name ?? '').trim();
+  if (!name) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อกำหนดการ');
+  }
+
+  const reportType = input.reportType ?? existing?.reportType;
+  if (!reportType || !(reportType in REPORT_TYPES)) {
+    throw ErrorTypes.BAD_REQUEST('ชนิดรายงานไม่ถูกต้อง');
+  }
+
+  const datePreset = input.datePreset ?? existing?.datePreset ?? 'LAST_MONTH';
+  if (!RELATIVE_DATE_RANGE_KEYS.includes(datePreset)) {
+    throw ErrorTypes.BAD_REQUEST('ช่วงวันที่ไม่ถูกต้อง');
+  }
+
+  const format = input.format ?? existing?.format ?? 'pdf';
+  if (!(format in REPORT_FORMATS)) {
+    throw ErrorTypes.BAD_REQUEST('รูปแบบไฟล์ต้องเป็น pdf หรือ xlsx');
+  }
+
+  const cron = (input.cron ?? existing?.cron ?? '').trim().replace(/\s+/g, ' ');
+  try {
+    parseCron(cron);
+  } catch (error) {
+    throw ErrorTypes.BAD_REQUEST(`รูปแบบเวลา (cron) ไม่ถูกต้อง: ${(error as Error).message}`);
+  }
+
+  const branches = input.branches ?? existing?.branches ?? ['ALL'];
+  if (!Array.isArray(branches) || branches.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาเลือกกิจการอย่างน้อย 1 กิจการ');
+  }
+
+  const recipients = [...new Set((input.recipients ?? existing?.recipients ?? []).map((e) => String(e).trim()).filter(Boolean))];
+  if (recipients.length === 0) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุอีเมลผู้รับอย่างน้อย 1 รายการ');
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw ErrorTypes.BAD_REQUEST(`ผู้รับได้ไม่เกิน ${MAX_RECIPIENTS} รายการ`);
+  }
+  const invalid = recipients.filter((e) => !EMAIL_PATTERN.test(e));
+  if (invalid.length > 0) {
+    throw ErrorTypes.BAD_REQUEST(`อีเมลไม่ถูกต้อง: ${invalid.join(', ')}`);
+  }
+
+  const enabled = input.enabled ?? existing?.enabled ?? true;
+
+  return { name, reportType, datePreset, format, cron, branches: branches.map(String), recipients, enabled: Boolean(enabled) };
+}
+
+/**
+ * ผู้บันทึกต้องเห็นรายงานและกิจการที่เลือกได้ ('ALL' คงไว้ แล้วตีความตามสิทธิ์ตอนส่ง)
+ * @throws APIError 403
+ */
+function assertCanSchedule(user: User, values: Pick<ReportSchedule, 'reportType' | 'branches'>): void {
+  const permission = checkComponentPermission(user, REPORT_DEFINITIONS[values.reportType].permission);
+  if (!permission.allowed) {
+    throw ErrorTypes.FORBIDDEN(`ไม่มีสิทธิ์ดูรายงาน: ${REPORT_TYPES[values.reportType]}`);
+  }
+  resolveBranches(values.branches, branchAccessOf(user));
+}
+
+function canManage(schedule: ReportSchedule, user: User): boolean {
+  return user.role.id === ADMIN_ROLE_ID || schedule.createdBy === user.id;
+}
+
+// ============================================================================
+// Schedules
+// ============================================================================
+
+export async function listSchedules(user: User): Promise<ReportSchedule[]> {
+  await ensureSchema();
+  const result =
+    user.role.id === ADMIN_ROLE_ID
+      ? await authDb.execute('SELECT * FROM report_schedule ORDER BY created_at, id')
+      : await authDb.execute({
+          sql: 'SELECT * FROM report_schedule WHERE created_by = ? ORDER BY created_at, id',
+          args: [user.id],
+        });
+  return result.rows.map(rowToSchedule);
+}
+
+async function findSchedule(id: string): Promise<ReportSchedule | null> {
+  await ensureSchema();
+  const result = await authDb.execute({ sql: 'SELECT * FROM report_schedule WHERE id = ?', args: [id] });
+  return result.rows[0] ? rowToSchedule(result.rows[0]) : null;
+}
+
+/**
+ * @throws APIError 404 เมื่อไม่พบ หรือเป็นกำหนดการของผู้อื่น
+ */
+export async function getSchedule(id: string, user: User): Promise<ReportSchedule> {
+  const schedule = await findSchedule(id);
+  if (!schedule || !canManage(schedule, user)) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบกำหนดการ: ${id}`);
+  }
+  return schedule;
+}
+
+export async function createSchedule(user: User, input: ReportScheduleInput): Promise<ReportSchedule> {
+  await ensureSchema();
+  const values = normalizeSchedule(input);
+  assertCanSchedule(user, values);
+  const id = randomUUID();
+  const nextRunAt = computeNextRun(values);
+
+  await authDb.execute({
+    sql: `INSERT INTO report_schedule
+            (id, name, report_type, date_preset, branches, format, cron, recipients, enabled, created_by, created_by_email, next_run_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      values.name,
+      values.reportType,
+      values.datePreset,
+      JSON.stringify(values.branches),
+      values.format,
+      values.cron,
+      JSON.stringify(values.recipients),
+      values.enabled ? 1 : 0,
+      user.id,
+      user.email,
+      nextRunAt,
+    ],
+  });
+
+  return (await findSchedule(id))!;
+}
+
+export async function updateSchedule(id: string, user: User, input: ReportScheduleInput): Promise<ReportSchedule> {
+  const existing = await getSchedule(id, user);
+  const values = normalizeSchedule(input, existing);
+  assertCanSchedule(user, values);
+  const nextRunAt = computeNextRun(values);
+
+  await authDb.execute({
+    sql: `UPDATE report_schedule SET
+            name = ?, report_type = ?, date_preset = ?, branches = ?, format = ?, cron = ?,
+            recipients = ?, enabled = ?, next_run_at = ?, updated_at = datetime('now')
+          WHERE id = ?`,
+    args: [
+      values.name,
+      values.reportType,
+      values.datePreset,
+      JSON.stringify(values.branches),
+      values.format,
+      values.cron,
+      JSON.stringify(values.recipients),
+      values.enabled ? 1 : 0,
+      nextRunAt,
+      id,
+    ],
+  });
+
+  return (await findSchedule(id))!;
+}
+
+export async function deleteSchedule(id: string, user: User): Promise<void> {
+  await getSchedule(id, user);
+  await authDb.execute({ sql: 'DELETE FROM report_schedule WHERE id = ?', args: [id] });
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/**
+ * กำหนดการที่ถึงเวลาส่งแล้ว (เปิดใช้งานและ next_run_at <= now)
+ */
+export async function listDueSchedules(now = new Date()): Promise<ReportSchedule[]> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: `SELECT * FROM report_schedule
+          WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+          ORDER BY next_run_at`,
+    args: [now.toISOString()],
+  });
+  return result.rows.map(rowToSchedule);
+}
+
+/**
+ * บันทึกผลการส่ง และเลื่อน next_run_at ไปรอบถัดไป
+ * (ส่งด้วยมือผ่าน "ส่งทันที" จะไม่เลื่อนรอบ ถ้า advance = false)
+ */
+export async function recordScheduleRun(
+  schedule: ReportSchedule,
+  result: { status: ScheduleRunStatus; error?: string; ranAt: Date; advance: boolean }
+): Promise<void> {
+  await ensureSchema();
+  const nextRunAt = result.advance ? computeNextRun(schedule, result.ranAt) : schedule.nextRunAt;
+
+  await authDb.execute({
+    sql: `UPDATE report_schedule
+          SET last_run_at = ?, last_status = ?, last_error = ?, next_run_at = ?
+          WHERE id = ?`,
+    args: [result.ranAt.toISOString(), result.status, result.error ?? null, nextRunAt, schedule.id],
+  });
+}
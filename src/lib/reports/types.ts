@@ -0,0 +1,59 @@
+/**
+ * Scheduled Report Types
+ * ชนิดรายงานและรูปแบบไฟล์ที่ส่งทางอีเมลได้ รูปแบบ cron ที่ใช้บ่อย และกำหนดการพร้อมผลการส่งล่าสุด
+ */
+
+import type { RelativeDateRangeKey } from '../dateRanges';
+
+export const REPORT_TYPES = {
+  'profit-loss': 'งบกำไรขาดทุน',
+  'ar-aging': 'อายุลูกหนี้ (AR Aging)',
+  'ap-aging': 'อายุเจ้าหนี้ (AP Aging)',
+  'top-customers': 'ลูกค้ารายสำคัญ',
+  'top-products': 'สินค้าขายดี',
+  'top-suppliers': 'ซัพพลายเออร์ยอดนิยม',
+} as const;
+
+export type ReportType = keyof typeof REPORT_TYPES;
+
+export const REPORT_FORMATS = {
+  pdf: 'PDF',
+  xlsx: 'Excel',
+} as const;
+
+export type ReportFormat = keyof typeof REPORT_FORMATS;
+
+/** รูปแบบเวลาที่ใช้บ่อย (cron 5 ช่อง: นาที ชั่วโมง วัน เดือน วันในสัปดาห์) */
+export const CRON_PRESETS = [
+  { cron: '0 8 * * *', label: 'ทุกวัน 08:00' },
+  { cron: '0 8 * * 1', label: 'ทุกวันจันทร์ 08:00' },
+  { cron: '0 8 1 * *', label: 'วันที่ 1 ของเดือน 08:00' },
+  { cron: '0 8 1 1,4,7,10 *', label: 'ต้นไตรมาส 08:00' },
+];
+
+export type ScheduleRunStatus = 'success' | 'failed' | 'skipped';
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  reportType: ReportType;
+  /** ช่วงวันที่ (คำนวณใหม่ทุกครั้งที่ส่ง) */
+  datePreset: RelativeDateRangeKey;
+  /** รหัสกิจการ หรือ ['ALL'] */
+  branches: string[];
+  format: ReportFormat;
+  cron: string;
+  recipients: string[];
+  enabled: boolean;
+  /** ผู้สร้าง ใช้สิทธิ์ของผู้ใช้นี้ตอนส่งรายงาน */
+  createdBy: string;
+  createdByEmail: string;
+  lastRunAt: string | null;
+  lastStatus: ScheduleRunStatus | null;
+  lastError: string | null;
+  nextRunAt: string | null;
+}
+
+export type ReportScheduleInput = Partial<
+  Pick<ReportSchedule, 'name' | 'reportType' | 'datePreset' | 'branches' | 'format' | 'cron' | 'recipients' | 'enabled'>
+>;
@@ -0,0 +1,196 @@
+/**
+ * Statement column layouts
+ *
+ * Turns a layout preset and the selected date range into the statement columns:
+ * amount columns carry their own date range (so a quarter subtotal or last-year
+ * column is just another range), variance columns refer to two amount columns.
+ * Dates are handled as YYYY-MM-DD strings to stay clear of time zones.
+ * The P&L reads each column's movement over its range, the balance sheet its balance at the end date.
+ */
+
+import type { DateRange } from '../data/types';
+import { ErrorTypes } from '../errors';
+import { formatDate, formatMonth } from '../formatters';
+import type { StatementAmountColumn, StatementColumn, StatementKind, StatementLayoutPreset } from './types';
+
+/** จำนวนเดือน/คอลัมน์สูงสุดต่อรายงาน */
+const MAX_MONTHS = 24;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month, day };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function toDate(year: number, month: number, day: number): string {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** วันเดียวกันของปีก่อน (วันสิ้นเดือนยังเป็นวันสิ้นเดือน เช่น 29 ก.พ. ↔ 28 ก.พ.) */
+function shiftYear(date: string, years: number): string {
+  const { year, month, day } = parseDate(date);
+  const lastDay = daysInMonth(year + years, month);
+  const isMonthEnd = day === daysInMonth(year, month);
+  return toDate(year + years, month, isMonthEnd ? lastDay : Math.min(day, lastDay));
+}
+
+function shiftRange(range: DateRange, years: number): DateRange {
+  return { start: shiftYear(range.start, years), end: shiftYear(range.end, years) };
+}
+
+function periodText(range: DateRange): string {
+  return range.start === range.end
+    ? formatDate(range.end)
+    : `${formatDate(range.start)} – ${formatDate(range.end)}`;
+}
+
+/** เดือนในช่วง ตัดวันแรก/วันสุดท้ายตามช่วงที่เลือก */
+function monthsInRange(range: DateRange): { month: string; range: DateRange }[] {
+  const start = parseDate(range.start);
+  const end = parseDate(range.end);
+  const months: { month: string; range: DateRange }[] = [];
+
+  for (let year = start.year, month = start.month; year < end.year || (year === end.year && month <= end.month); ) {
+    const first = toDate(year, month, 1);
+    const last = toDate(year, month, daysInMonth(year, month));
+    months.push({
+      month: `${year}-${pad(month)}`,
+      range: { start: first < range.start ? range.start : first, end: last > range.end ? range.end : last },
+    });
+    if (months.length > MAX_MONTHS) {
+      throw ErrorTypes.BAD_REQUEST(`รูปแบบรายเดือน/รายไตรมาสรองรับช่วงวันที่ไม่เกิน ${MAX_MONTHS} เดือน`);
+    }
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+/** ไตรมาสในช่วง (ไตรมาสตามปีปฏิทิน) */
+function quartersInRange(range: DateRange): { key: string; label: string; range: DateRange; months: number }[] {
+  const quarters: { key: string; label: string; range: DateRange; months: number }[] = [];
+  for (const { month, range: monthRange } of monthsInRange(range)) {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const quarter = Math.ceil(monthNumber / 3);
+    const key = `q-${year}-${quarter}`;
+    const last = quarters[quarters.length - 1];
+    if (last?.key === key) {
+      last.range = { start: last.range.start, end: monthRange.end };
+      last.months++;
+    } else {
+      quarters.push({ key, label: `ไตรมาส ${quarter}/${year}`, range: monthRange, months: 1 });
+    }
+  }
+  return quarters;
+}
+
+function amount(key: string, label: string, range: DateRange, emphasis?: boolean): StatementAmountColumn {
+  return { kind: 'amount', key, label, period: periodText(range), range, ...(emphasis && { emphasis }) };
+}
+
+function budget(key: string, label: string, range: DateRange, emphasis?: boolean): StatementAmountColumn {
+  return { ...amount(key, label, range, emphasis), source: 'budget' };
+}
+
+/** ผลต่างและผลต่าง % ของ base เทียบ compare (key: variance, variancePct หรือ {prefix}Variance, ...) */
+function variance(base: string, compare: string, prefix = ''): StatementColumn[] {
+  const key = prefix ? `${prefix}Variance` : 'variance';
+  return [
+    { kind: 'variance', key, label: 'ผลต่าง', base, compare },
+    { kind: 'variance-pct', key: `${key}Pct`, label: 'ผลต่าง %', base, compare },
+  ];
+}
+
+/**
+ * Columns of a statement for the chosen layout and date range
+ * งบกำไรขาดทุนใช้ยอดเคลื่อนไหวในช่วงของคอลัมน์ งบดุลใช้ยอดคงเหลือ ณ วันสิ้นสุดของคอลัมน์
+ * @throws APIError 400 เมื่อช่วงวันที่ไม่ถูกต้องหรือยาวเกินไป
+ */
+export function buildStatementColumns(
+  kind: StatementKind,
+  layout: StatementLayoutPreset,
+  dateRange: DateRange
+): StatementColumn[] {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateRange.start) || !/^\d{4}-\d{2}-\d{2}$/.test(dateRange.end)) {
+    throw ErrorTypes.BAD_REQUEST('รูปแบบวันที่ต้องเป็น YYYY-MM-DD');
+  }
+  if (dateRange.start > dateRange.end) {
+    throw ErrorTypes.BAD_REQUEST('วันที่เริ่มต้องไม่เกินวันที่สิ้นสุด');
+  }
+
+  const isBalanceSheet = kind === 'balance-sheet';
+  const total = amount('total', 'รวม', dateRange, true);
+
+  switch (layout) {
+    case 'months': {
+      const months = monthsInRange(dateRange);
+      if (isBalanceSheet) {
+        return months.map(({ month, range }) => amount(`m-${month}`, formatMonth(month), range));
+      }
+      const quarters = quartersInRange(dateRange);
+      const columns: StatementColumn[] = [];
+      for (const { month, range } of months) {
+        columns.push(amount(`m-${month}`, formatMonth(month), range));
+        const quarter = quarters.find((q) => q.range.end === range.end);
+        if (quarters.length > 1 && quarter && quarter.months > 1) {
+          columns.push(amount(quarter.key, `รวม${quarter.label}`, quarter.range, true));
+        }
+      }
+      return months.length > 1 ? [...columns, total] : columns;
+    }
+
+    case 'quarters': {
+      const quarters = quartersInRange(dateRange).map((q) => amount(q.key, q.label, q.range));
+      return isBalanceSheet || quarters.length === 1 ? quarters : [...quarters, total];
+    }
+
+    case 'period-vs-last-year':
+      return [
+        amount('current', 'ช่วงที่เลือก', dateRange),
+        amount('lastYear', 'ช่วงเดียวกันปีก่อน', shiftRange(dateRange, -1)),
+        ...variance('current', 'lastYear'),
+      ];
+
+    case 'ytd-vs-last-year': {
+      const ytd = { start: `${dateRange.end.slice(0, 4)}-01-01`, end: dateRange.end };
+      return [
+        amount('ytd', 'สะสมต้นปี', ytd),
+        amount('ytdLastYear', 'สะสมต้นปี ปีก่อน', shiftRange(ytd, -1)),
+        ...variance('ytd', 'ytdLastYear', 'ytd'),
+      ];
+    }
+
+    case 'management': {
+      const month = { start: `${dateRange.end.slice(0, 7)}-01`, end: dateRange.end };
+      const ytd = { start: `${dateRange.end.slice(0, 4)}-01-01`, end: dateRange.end };
+      return [
+        amount('month', formatMonth(dateRange.end.slice(0, 7)), month),
+        amount('monthLastYear', 'เดือนเดียวกันปีก่อน', shiftRange(month, -1)),
+        ...variance('month', 'monthLastYear', 'month'),
+        amount('ytd', 'สะสมต้นปี', ytd, true),
+        amount('ytdLastYear', 'สะสมต้นปี ปีก่อน', shiftRange(ytd, -1), true),
+        ...variance('ytd', 'ytdLastYear', 'ytd'),
+      ];
+    }
+
+    case 'budget-vs-actual': {
+      const ytd = { start: `${dateRange.end.slice(0, 4)}-01-01`, end: dateRange.end };
+      return [
+        amount('actual', 'ผลจริง', dateRange),
+        budget('budget', 'งบประมาณ', dateRange),
+        ...variance('actual', 'budget'),
+        amount('ytd', 'ผลจริงสะสมต้นปี', ytd, true),
+        budget('ytdBudget', 'งบประมาณสะสมต้นปี', ytd, true),
+        ...variance('ytd', 'ytdBudget', 'ytd'),
+      ];
+    }
+  }
+}
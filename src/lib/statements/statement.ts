@@ -0,0 +1,200 @@
+/**
+ * Statement lines for a column layout
+ *
+ * Groups per-account amounts into the P&L or balance sheet sections, adds the
+ * section totals and result lines (gross profit, net profit, liabilities + equity),
+ * then fills the variance columns of every line from its own amounts, so subtotals
+ * and variances always agree with the rows above them.
+ * The same lines drive the on-screen table and both export formats.
+ * Accounts that are zero in every column are left out.
+ */
+
+import type { DateRange } from '../data/types';
+import type { ReportRowStyle } from '../exportExcel';
+import type {
+  Statement,
+  StatementAccountRow,
+  StatementColumn,
+  StatementKind,
+  StatementLayoutPreset,
+  StatementLine,
+} from './types';
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** หมวดของงบกำไรขาดทุนตาม account_code prefix (ตรงกับ /api/accounting/profit-loss-detail) */
+function plGroupOf(accountType: string, accountCode: string): 'INCOME' | 'COGS' | 'OPERATING' | 'OTHER_EXPENSE' {
+  if (accountType === 'INCOME') return 'INCOME';
+  if (accountCode.startsWith('51')) return 'COGS';
+  if (/^5[345]/.test(accountCode)) return 'OPERATING';
+  return 'OTHER_EXPENSE';
+}
+
+/** เครื่องหมายที่ทำให้ยอดปกติของบัญชีเป็นบวก (ยอดจาก query = debit - credit) */
+const NORMAL_SIGN: Record<string, 1 | -1> = {
+  ASSETS: 1,
+  LIABILITIES: -1,
+  EQUITY: -1,
+  INCOME: -1,
+  EXPENSES: 1,
+};
+
+type Amounts = Record<string, number>;
+
+interface SectionOptions {
+  adverseIncrease?: boolean;
+  /** บรรทัดที่ไม่ใช่บัญชี ต่อท้ายบัญชีของหมวดและนับรวมในยอดหมวด */
+  extra?: { label: string; amounts: Amounts };
+}
+
+function lineBuilder(amountKeys: string[]) {
+  const lines: StatementLine[] = [];
+
+  const zero = (): Amounts => Object.fromEntries(amountKeys.map((key) => [key, 0]));
+
+  const combine = (parts: [sign: 1 | -1, amounts: Amounts][]): Amounts =>
+    Object.fromEntries(
+      amountKeys.map((key) => [key, round2(parts.reduce((sum, [sign, amounts]) => sum + sign * (amounts[key] ?? 0), 0))])
+    );
+
+  const push = (kind: StatementLine['kind'], label: string, amounts: Amounts, extra?: Partial<StatementLine>) => {
+    lines.push({ kind, label, ...extra, values: { ...amounts } });
+  };
+
+  /** หัวหมวด บัญชีในหมวด และบรรทัดรวมหมวด คืนยอดรวมของหมวด */
+  const section = (label: string, rows: StatementAccountRow[], totalLabel: string, options: SectionOptions = {}): Amounts => {
+    const flags = options.adverseIncrease ? { adverseIncrease: true } : {};
+    const parts: [1 | -1, Amounts][] = [];
+
+    lines.push({ kind: 'section', label, values: {} });
+    for (const row of rows) {
+      const amounts = combine([[NORMAL_SIGN[row.accountType] ?? 1, row.values]]);
+      push('account', row.accountName, amounts, { accountCode: row.accountCode, ...flags });
+      parts.push([1, amounts]);
+    }
+    if (options.extra) {
+      push('account', options.extra.label, options.extra.amounts, flags);
+      parts.push([1, options.extra.amounts]);
+    }
+
+    const total = combine(parts);
+    push('subtotal', totalLabel, total, flags);
+    return total;
+  };
+
+  return { lines, zero, combine, push, section };
+}
+
+type LineBuilder = ReturnType<typeof lineBuilder>;
+
+function buildProfitLossLines(builder: LineBuilder, rows: StatementAccountRow[]) {
+  const byGroup = (group: ReturnType<typeof plGroupOf>) =>
+    rows.filter((row) => plGroupOf(row.accountType, row.accountCode) === group);
+  const expense = { adverseIncrease: true };
+
+  const income = builder.section('รายได้', byGroup('INCOME'), 'รายได้รวม');
+  const cogs = builder.section(
+    'ต้นทุนขาย และหรือต้นทุนการให้บริการ',
+    byGroup('COGS'),
+    'รวมต้นทุนขาย และหรือต้นทุนการให้บริการ',
+    expense
+  );
+  const gross = builder.combine([[1, income], [-1, cogs]]);
+  builder.push('subtotal', 'กำไรขั้นต้น', gross);
+
+  const operating = builder.section('ค่าใช้จ่ายในการบริการ', byGroup('OPERATING'), 'รวมค่าใช้จ่ายในการบริการ', expense);
+
+  const otherRows = byGroup('OTHER_EXPENSE');
+  const other = otherRows.length > 0
+    ? builder.section('ค่าใช้จ่ายอื่น', otherRows, 'รวมค่าใช้จ่ายอื่น', expense)
+    : builder.zero();
+
+  builder.push('total', 'กำไร (ขาดทุน) สุทธิ', builder.combine([[1, gross], [-1, operating], [-1, other]]));
+}
+
+function buildBalanceSheetLines(builder: LineBuilder, rows: StatementAccountRow[]) {
+  const byType = (...types: string[]) => rows.filter((row) => types.includes(row.accountType));
+
+  builder.section('สินทรัพย์', byType('ASSETS'), 'รวมสินทรัพย์');
+  const liabilities = builder.section('หนี้สิน', byType('LIABILITIES'), 'รวมหนี้สิน');
+
+  // รายได้/ค่าใช้จ่ายที่ยังไม่ปิดเข้าส่วนของผู้ถือหุ้น แสดงเป็นบรรทัดกำไรสะสม
+  const earnings = builder.combine(byType('INCOME', 'EXPENSES').map((row): [1 | -1, Amounts] => [-1, row.values]));
+  const equity = builder.section('ส่วนของผู้ถือหุ้น', byType('EQUITY'), 'รวมส่วนของผู้ถือหุ้น', {
+    extra: { label: 'กำไร (ขาดทุน) ที่ยังไม่ปิดบัญชี', amounts: earnings },
+  });
+
+  builder.push('total', 'รวมหนี้สินและส่วนของผู้ถือหุ้น', builder.combine([[1, liabilities], [1, equity]]));
+}
+
+/** เติมคอลัมน์ผลต่างจากยอดของบรรทัดเอง */
+function applyVariances(lines: StatementLine[], columns: StatementColumn[]) {
+  for (const line of lines) {
+    if (line.kind === 'section') continue;
+    for (const column of columns) {
+      if (column.kind === 'amount') continue;
+      const base = line.values[column.base] ?? 0;
+      const compare = line.values[column.compare] ?? 0;
+      line.values[column.key] =
+        column.kind === 'variance'
+          ? round2(base - compare)
+          : compare === 0
+            ? null
+            : round2(((base - compare) / Math.abs(compare)) * 100);
+    }
+  }
+}
+
+/**
+ * Build the statement lines for the given columns from per-account amounts
+ * บัญชีที่ยอดเป็นศูนย์ทุกคอลัมน์จะไม่แสดง
+ */
+export function buildStatement(
+  kind: StatementKind,
+  layout: StatementLayoutPreset,
+  dateRange: DateRange,
+  columns: StatementColumn[],
+  rows: StatementAccountRow[]
+): Statement {
+  const amountKeys = columns.filter((column) => column.kind === 'amount').map((column) => column.key);
+  const builder = lineBuilder(amountKeys);
+  const activeRows = rows
+    .filter((row) => amountKeys.some((key) => round2(row.values[key] ?? 0) !== 0))
+    .sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+
+  if (kind === 'profit-loss') {
+    buildProfitLossLines(builder, activeRows);
+  } else {
+    buildBalanceSheetLines(builder, activeRows);
+  }
+  applyVariances(builder.lines, columns);
+
+  return { kind, layout, dateRange, columns, lines: builder.lines };
+}
+
+/**
+ * Rows, headers and row styles for exportStyledReport / exportStyledPdfReport
+ */
+export function statementReportTable(statement: Statement) {
+  const headers: Record<string, string> = {
+    accountCode: 'รหัสบัญชี',
+    accountName: 'รายการ',
+    ...Object.fromEntries(statement.columns.map((column) => [column.key, column.label])),
+  };
+  const data = statement.lines.map((line) => ({
+    accountCode: line.accountCode ?? '',
+    accountName: line.label,
+    ...Object.fromEntries(statement.columns.map((column) => [column.key, line.values[column.key] ?? ''])),
+  }));
+  const rowStyles = statement.lines.map((line): ReportRowStyle | undefined =>
+    line.kind === 'account' ? undefined : line.kind
+  );
+
+  return {
+    data,
+    headers,
+    currencyColumns: statement.columns.filter((c) => c.kind !== 'variance-pct').map((c) => c.key),
+    percentColumns: statement.columns.filter((c) => c.kind === 'variance-pct').map((c) => c.key),
+    rowStyle: (_row: unknown, index: number) => rowStyles[index],
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Statement Layout Types
+ * รูปแบบคอลัมน์ของงบการเงิน (รายเดือน รายไตรมาส สะสมต้นปี เทียบปีก่อน) คอลัมน์ยอดเงิน/ผลต่าง
+ * และบรรทัดของงบ (หมวด บัญชี ยอดรวมย่อย ยอดรวม) ที่ได้จากการจัดยอดรายบัญชีลงคอลัมน์
+ */
+
+import type { DateRange } from '../data/types';
+
+export type StatementKind = 'profit-loss' | 'balance-sheet';
+
+export type StatementLayoutPreset =
+  | 'months'
+  | 'quarters'
+  | 'period-vs-last-year'
+  | 'ytd-vs-last-year'
+  | 'management'
+  | 'budget-vs-actual';
+
+export interface StatementLayoutInfo {
+  label: string;
+  description: string;
+  /** งบที่ใช้รูปแบบนี้ได้ */
+  statements: StatementKind[];
+}
+
+/** รูปแบบคอลัมน์ เรียงตามลำดับที่แสดงในตัวเลือก */
+export const STATEMENT_LAYOUTS: Record<StatementLayoutPreset, StatementLayoutInfo> = {
+  months: {
+    label: 'รายเดือน',
+    description: 'หนึ่งคอลัมน์ต่อเดือน พร้อมรวมรายไตรมาสและยอดรวม (งบดุล: ยอด ณ สิ้นเดือน)',
+    statements: ['profit-loss', 'balance-sheet'],
+  },
+  quarters: {
+    label: 'รายไตรมาส',
+    description: 'หนึ่งคอลัมน์ต่อไตรมาส พร้อมยอดรวม (งบดุล: ยอด ณ สิ้นไตรมาส)',
+    statements: ['profit-loss', 'balance-sheet'],
+  },
+  'period-vs-last-year': {
+    label: 'เทียบช่วงเดียวกันปีก่อน',
+    description: 'ช่วงที่เลือก เทียบช่วงเดียวกันของปีก่อน พร้อมผลต่าง',
+    statements: ['profit-loss', 'balance-sheet'],
+  },
+  'ytd-vs-last-year': {
+    label: 'สะสมต้นปี เทียบปีก่อน',
+    description: 'ยอดสะสมตั้งแต่ต้นปีถึงวันสิ้นสุดช่วง เทียบช่วงเดียวกันของปีก่อน',
+    statements: ['profit-loss'],
+  },
+  management: {
+    label: 'รายงานผู้บริหาร',
+    description: 'เดือนล่าสุดและยอดสะสมต้นปี เทียบปีก่อน พร้อมผลต่าง',
+    statements: ['profit-loss'],
+  },
+  'budget-vs-actual': {
+    label: 'เทียบงบประมาณ',
+    description: 'ผลจริงของช่วงที่เลือกและสะสมต้นปี เทียบงบประมาณ พร้อมผลต่าง',
+    statements: ['profit-loss'],
+  },
+};
+
+export const STATEMENT_LAYOUT_PRESETS = Object.keys(STATEMENT_LAYOUTS) as StatementLayoutPreset[];
+
+/**
+ * คอลัมน์ของงบ
+ * - amount: งบกำไรขาดทุน = ยอดเคลื่อนไหวในช่วง, งบดุล = ยอดคงเหลือ ณ range.end
+ *   (source 'budget' = งบประมาณของช่วงแทนยอดจริง)
+ * - variance / variance-pct: base - compare และ (base - compare) / |compare| × 100
+ */
+export type StatementColumn =
+  | {
+      kind: 'amount';
+      key: string;
+      label: string;
+      /** ช่วงวันที่ที่แสดงใต้หัวคอลัมน์ */
+      period: string;
+      range: DateRange;
+      /** คอลัมน์รวม (ไตรมาส/ยอดรวม) */
+      emphasis?: boolean;
+      /** ยอดจากงบประมาณ (lib/budgets) แทนบัญชีแยกประเภท */
+      source?: 'budget';
+    }
+  | {
+      kind: 'variance' | 'variance-pct';
+      key: string;
+      label: string;
+      base: string;
+      compare: string;
+    };
+
+export type StatementAmountColumn = Extract<StatementColumn, { kind: 'amount' }>;
+
+export type StatementLineKind = 'section' | 'account' | 'subtotal' | 'total';
+
+export interface StatementLine {
+  kind: StatementLineKind;
+  label: string;
+  accountCode?: string;
+  /** ยอดที่เพิ่มขึ้นเป็นผลเสีย (ค่าใช้จ่าย) ใช้กำหนดสีของผลต่าง */
+  adverseIncrease?: boolean;
+  /** key ของคอลัมน์ → ยอด (null = ไม่มีค่า เช่น % ของฐานศูนย์ หรือหัวหมวด) */
+  values: Record<string, number | null>;
+}
+
+export interface Statement {
+  kind: StatementKind;
+  layout: StatementLayoutPreset;
+  dateRange: DateRange;
+  columns: StatementColumn[];
+  lines: StatementLine[];
+}
+
+/** ยอดต่อบัญชีจาก query: debit - credit ต่อคอลัมน์ amount */
+export interface StatementAccountRow {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  values: Record<string, number>;
+}
+
+export function isStatementLayout(kind: StatementKind, layout: string): layout is StatementLayoutPreset {
+  return (STATEMENT_LAYOUT_PRESETS as string[]).includes(layout) && STATEMENT_LAYOUTS[layout as StatementLayoutPreset].statements.includes(kind);
+}
@@ -0,0 +1,121 @@
+/**
+ * View State <-> URL
+ *
+ * A view is encoded as query params plus the report hash, e.g.
+ * /reports/sales?range=THIS_MONTH&branch=B1&sort=total.desc#top-products.
+ * Presets are kept by name so a shared "this month" link follows the recipient's
+ * calendar; other ranges use the start_date/end_date params the report pages already read.
+ * State read from the URL or a request body goes through normalizeViewState, which
+ * drops malformed values; buildViewUrl turns a state back into a shareable link.
+ */
+
+import type { DateRange } from '../data/types';
+import { DATE_RANGES, RELATIVE_DATE_RANGE_KEYS, type RelativeDateRangeKey } from '../dateRanges';
+import type { ViewSort, ViewState } from './types';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const BRANCH_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const REPORT_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const SORT_KEY_PATTERN = /^[A-Za-z0-9_]{1,64}$/;
+
+/** query params ที่เป็นส่วนของ view state */
+export const VIEW_STATE_PARAMS = ['range', 'start_date', 'end_date', 'branch', 'compare', 'sort'] as const;
+
+/** preset ที่ตรงกับช่วงวันที่ (ถ้ามี) */
+export function matchDateRangePreset(range: DateRange): RelativeDateRangeKey | undefined {
+  return RELATIVE_DATE_RANGE_KEYS.find((key) => {
+    const value = DATE_RANGES[key].getValue();
+    return value.start === range.start && value.end === range.end;
+  });
+}
+
+/** ช่วงวันที่ของ view (preset คำนวณ ณ วันนี้) */
+export function resolveViewDateRange(state: ViewState): DateRange | undefined {
+  return state.preset ? DATE_RANGES[state.preset].getValue() : state.dateRange;
+}
+
+function isPreset(value: unknown): value is RelativeDateRangeKey {
+  return RELATIVE_DATE_RANGE_KEYS.some((key) => key === value);
+}
+
+function parseSort(value: string | null | undefined): ViewSort | undefined {
+  const match = value?.match(/^(.+)\.(asc|desc)$/);
+  if (!match || !SORT_KEY_PATTERN.test(match[1])) return undefined;
+  return { key: match[1], order: match[2] as ViewSort['order'] };
+}
+
+/**
+ * ตัดค่าที่ไม่ถูกต้องทิ้ง ใช้กับข้อมูลจาก URL และ request body
+ */
+export function normalizeViewState(input: unknown): ViewState {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const state: ViewState = {};
+
+  if (isPreset(raw.preset)) {
+    state.preset = raw.preset;
+  } else {
+    const range = raw.dateRange as Partial<DateRange> | undefined;
+    if (range && DATE_PATTERN.test(String(range.start)) && DATE_PATTERN.test(String(range.end)) && String(range.start) <= String(range.end)) {
+      state.dateRange = { start: String(range.start), end: String(range.end) };
+    }
+  }
+
+  if (Array.isArray(raw.branches)) {
+    const branches = raw.branches.map(String).filter((branch) => branch === 'ALL' || BRANCH_PATTERN.test(branch));
+    if (branches.length > 0) state.branches = branches.includes('ALL') ? ['ALL'] : [...new Set(branches)];
+  }
+  if (typeof raw.report === 'string' && REPORT_PATTERN.test(raw.report)) state.report = raw.report;
+  if (raw.compare === true) state.compare = true;
+
+  const sort = raw.sort as Partial<ViewSort> | undefined;
+  if (sort && SORT_KEY_PATTERN.test(String(sort.key)) && (sort.order === 'asc' || sort.order === 'desc')) {
+    state.sort = { key: String(sort.key), order: sort.order };
+  }
+  return state;
+}
+
+/**
+ * อ่าน view state จาก query string และ hash
+ */
+export function decodeViewState(search: string | URLSearchParams, hash: string = ''): ViewState {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  const start = params.get('start_date');
+  const end = params.get('end_date');
+  return normalizeViewState({
+    preset: params.get('range') ?? undefined,
+    dateRange: start && end ? { start, end } : undefined,
+    branches: params.getAll('branch'),
+    report: hash.replace(/^#/, '') || undefined,
+    compare: params.get('compare') === '1',
+    sort: parseSort(params.get('sort')),
+  });
+}
+
+/** URL มีส่วนของ view state หรือไม่ */
+export function hasViewState(search: string | URLSearchParams): boolean {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  return VIEW_STATE_PARAMS.some((name) => params.has(name));
+}
+
+/**
+ * สร้าง URL ของ view โดยคง query params อื่นของหน้าไว้
+ * @param path - pathname หรือ pathname?query เดิม
+ */
+export function buildViewUrl(path: string, state: ViewState): string {
+  const [pathname, query = ''] = path.split('#')[0].split('?');
+  const params = new URLSearchParams(query);
+  VIEW_STATE_PARAMS.forEach((name) => params.delete(name));
+
+  if (state.preset) {
+    params.set('range', state.preset);
+  } else if (state.dateRange) {
+    params.set('start_date', state.dateRange.start);
+    params.set('end_date', state.dateRange.end);
+  }
+  state.branches?.forEach((branch) => params.append('branch', branch));
+  if (state.compare) params.set('compare', '1');
+  if (state.sort) params.set('sort', `${state.sort.key}.${state.sort.order}`);
+
+  const search = params.toString();
+  return `${pathname}${search ? `?${search}` : ''}${state.report ? `#${state.report}` : ''}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Saved View Store
+ * มุมมองที่ผู้ใช้บันทึกไว้ (หน้า + view state) เก็บในฐานข้อมูล auth (libsql)
+ * ผู้ใช้เห็นเฉพาะมุมมองของตัวเอง
+ */
+
+import 'server-only';
+
+import { randomUUID } from 'node:crypto';
+import type { Row } from '@libsql/client';
+import { authDb, defineSchema } from '../auth-db';
+import { ErrorTypes } from '../errors';
+import type { User } from '../permissions/types';
+import { normalizeViewState } from './state';
+import { MAX_SAVED_VIEWS, VIEW_NAME_MAX_LENGTH, type SavedView, type SavedViewInput } from './types';
+
+const PATH_PATTERN = /^\/[A-Za-z0-9/_-]*$/;
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const ensureSchema = defineSchema([
+  `CREATE TABLE IF NOT EXISTS saved_view (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    path TEXT NOT NULL,
+    state TEXT NOT NULL DEFAULT '{}',
+    pinned INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+  'CREATE INDEX IF NOT EXISTS saved_view_user ON saved_view (user_id, path)',
+]);
+
+// ============================================================================
+// Mapping & Validation
+// ============================================================================
+
+function rowToView(row: Row): SavedView {
+  let state: unknown = {};
+  try {
+    state = JSON.parse(String(row.state ?? '{}'));
+  } catch {
+    // เก็บไว้ผิดรูปแบบ ใช้ค่าว่าง
+  }
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    path: String(row.path),
+    state: normalizeViewState(state),
+    pinned: Number(row.pinned) === 1,
+    createdAt: String(row.created_at),
+    updatedAt: String(row.updated_at),
+  };
+}
+
+function normalizeName(name: unknown): string {
+  const value = String(name ?? '').replace(/\s+/g, ' ').trim();
+  if (!value) {
+    throw ErrorTypes.BAD_REQUEST('กรุณาระบุชื่อมุมมอง');
+  }
+  return value.slice(0, VIEW_NAME_MAX_LENGTH);
+}
+
+function normalizePath(path: unknown): string {
+  const value = String(path ?? '').trim();
+  if (!PATH_PATTERN.test(value) || value.length > 200) {
+    throw ErrorTypes.BAD_REQUEST('หน้าของมุมมองไม่ถูกต้อง');
+  }
+  return value;
+}
+
+// ============================================================================
+// Views
+// ============================================================================
+
+/**
+ * มุมมองของผู้ใช้ ที่ปักหมุดก่อน แล้วเรียงตามชื่อ
+ */
+export async function listSavedViews(user: User): Promise<SavedView[]> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT * FROM saved_view WHERE user_id = ? ORDER BY pinned DESC, name, id',
+    args: [user.id],
+  });
+  return result.rows.map(rowToView);
+}
+
+/**
+ * @throws APIError 404 เมื่อไม่พบ หรือเป็นมุมมองของผู้อื่น
+ */
+export async function getSavedView(id: string, user: User): Promise<SavedView> {
+  await ensureSchema();
+  const result = await authDb.execute({
+    sql: 'SELECT * FROM saved_view WHERE id = ? AND user_id = ?',
+    args: [id, user.id],
+  });
+  if (!result.rows[0]) {
+    throw ErrorTypes.NOT_FOUND(`ไม่พบมุมมอง: ${id}`);
+  }
+  return rowToView(result.rows[0]);
+}
+
+/**
+ * @throws APIError 400 เมื่อข้อมูลไม่ครบ หรือบันทึกครบจำนวนสูงสุดแล้ว
+ */
+export async function createSavedView(user: User, input: SavedViewInput): Promise<SavedView> {
+  const name = normalizeName(input.name);
+  const path = normalizePath(input.path);
+  const state = normalizeViewState(input.state);
+
+  await ensureSchema();
+  const count = await authDb.execute({ sql: 'SELECT count(*) AS n FROM saved_view WHERE user_id = ?', args: [user.id] });
+  if (Number(count.rows[0]?.n) >= MAX_SAVED_VIEWS) {
+    throw ErrorTypes.BAD_REQUEST(`บันทึกมุมมองได้ไม่เกิน ${MAX_SAVED_VIEWS} รายการ`);
+  }
+
+  const id = randomUUID();
+  await authDb.execute({
+    sql: 'INSERT INTO saved_view (id, user_id, name, path, state, pinned) VALUES (?, ?, ?, ?, ?, ?)',
+    args: [id, user.id, name, path, JSON.stringify(state), input.pinned ? 1 : 0],
+  });
+  return getSavedView(id, user);
+}
+
+/**
+ * แก้ชื่อ ปักหมุด หรือบันทึก view state ใหม่ (เฉพาะฟิลด์ที่ส่งมา)
+ */
+export async function updateSavedView(id: string, user: User, input: SavedViewInput): Promise<SavedView> {
+  const current = await getSavedView(id, user);
+  await authDb.execute({
+    sql: `UPDATE saved_view SET name = ?, path = ?, state = ?, pinned = ?, updated_at = datetime('now') WHERE id = ?`,
+    args: [
+      input.name === undefined ? current.name : normalizeName(input.name),
+      input.path === undefined ? current.path : normalizePath(input.path),
+      JSON.stringify(input.state === undefined ? current.state : normalizeViewState(input.state)),
+      (input.pinned ?? current.pinned) ? 1 : 0,
+      id,
+    ],
+  });
+  return getSavedView(id, user);
+}
+
+export async function deleteSavedView(id: string, user: User): Promise<void> {
+  await getSavedView(id, user);
+  await authDb.execute({ sql: 'DELETE FROM saved_view WHERE id = ?', args: [id] });
+}
@@ -0,0 +1,50 @@
+/**
+ * Saved View Types
+ * สถานะการกรองของหน้า (ช่วงวันที่ กิจการ รายงาน โหมดเปรียบเทียบ การเรียงตาราง)
+ * ที่แปลงเป็น URL ได้ และมุมมองที่ผู้ใช้บันทึกไว้พร้อมขีดจำกัดชื่อและจำนวนต่อผู้ใช้
+ */
+
+import type { DateRange } from '../data/types';
+import type { RelativeDateRangeKey } from '../dateRanges';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ViewSort {
+  key: string;
+  order: SortOrder;
+}
+
+export interface ViewState {
+  /** ช่วงวันที่แบบ preset คำนวณใหม่ทุกครั้งที่เปิด (มีค่านี้จะไม่ใช้ dateRange) */
+  preset?: RelativeDateRangeKey;
+  dateRange?: DateRange;
+  /** ['ALL'] = ทุกกิจการ */
+  branches?: string[];
+  /** ประเภทรายงานของหน้า /reports/* (URL hash) */
+  report?: string;
+  compare?: boolean;
+  sort?: ViewSort;
+}
+
+export const VIEW_NAME_MAX_LENGTH = 100;
+/** จำนวนมุมมองที่บันทึกได้ต่อผู้ใช้ */
+export const MAX_SAVED_VIEWS = 100;
+
+export interface SavedView {
+  id: string;
+  name: string;
+  /** หน้าที่บันทึก เช่น /reports/sales */
+  path: string;
+  state: ViewState;
+  /** ปักหมุดไว้ในเมนูรายการโปรด */
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedViewInput {
+  name?: string;
+  path?: string;
+  state?: ViewState;
+  pinned?: boolean;
+}
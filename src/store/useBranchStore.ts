@@ -16,6 +16,11 @@ import { subscribeWithSelector } from 'zustand/middleware';
 export interface BranchInfo {
   key: string;
   name: string;
+  /** From the branch registry (absent for unregistered codes and 'ALL') */
+  shortName?: string;
+  color?: string;
+  taxId?: string;
+  address?: string;
 }
 
 interface BranchStore {
@@ -89,3 +94,15 @@ export function formatSelectedBranchNames(
 
   return names.join(', ');
 }
+
+/**
+ * The branch whose registry details (tax ID, address) go into report headers.
+ * Only defined when exactly one branch is selected.
+ */
+export function getReportBranch(
+  selectedBranches: string[],
+  availableBranches: BranchInfo[]
+): BranchInfo | undefined {
+  if (selectedBranches.length !== 1 || selectedBranches[0] === 'ALL') return undefined;
+  return availableBranches.find((b) => b.key === selectedBranches[0]);
+}
@@ -0,0 +1,26 @@
+/**
+ * useViewStore - Zustand Store for the table sort that belongs to a shareable view
+ *
+ * PaginatedTable writes the column the user sorted by; restoring a view from a URL
+ * or a saved view writes it back. Scoped to one pathname so the sort never leaks
+ * into tables on another page.
+ */
+
+import { create } from 'zustand';
+import type { ViewSort } from '@/lib/views/types';
+
+export interface TableSort extends ViewSort {
+  path: string;
+  /** คอลัมน์ที่เรียงได้ของตารางที่ผู้ใช้กด (ไม่ระบุ = ตารางใดก็ได้ในหน้าที่มีคอลัมน์นี้) */
+  table?: string;
+}
+
+interface ViewStore {
+  tableSort: TableSort | null;
+  setTableSort: (sort: TableSort | null) => void;
+}
+
+export const useViewStore = create<ViewStore>()((set) => ({
+  tableSort: null,
+  setTableSort: (sort) => set({ tableSort: sort }),
+}));